@@ -120,6 +120,77 @@ describe('Configuration', () => {
         });
     });
 
+    describe('Storage Backend', () => {
+        it('should default to Firestore', async () => {
+            delete process.env.STORAGE_BACKEND;
+            const config = await import('../config.js');
+
+            expect(config.STORAGE_BACKEND).toBe('firestore');
+        });
+
+        it('should use STORAGE_BACKEND and SQLITE_DATABASE_PATH from env', async () => {
+            process.env.STORAGE_BACKEND = 'sqlite';
+            process.env.SQLITE_DATABASE_PATH = '/data/motorscope.sqlite';
+            const config = await import('../config.js');
+
+            expect(config.STORAGE_BACKEND).toBe('sqlite');
+            expect(config.SQLITE_DATABASE_PATH).toBe('/data/motorscope.sqlite');
+        });
+
+        it('should reject unsupported STORAGE_BACKEND', async () => {
+            process.env.NODE_ENV = 'development';
+            process.env.STORAGE_BACKEND = 'mongodb';
+            const config = await import('../config.js');
+
+            expect(() => config.validateConfig()).toThrow('STORAGE_BACKEND');
+        });
+    });
+
+    describe('Server-Side Refresh', () => {
+        it('should be disabled by default', async () => {
+            delete process.env.SERVER_REFRESH_ENABLED;
+            delete process.env.SERVER_REFRESH_TICK_MINUTES;
+            const config = await import('../config.js');
+
+            expect(config.SERVER_REFRESH_ENABLED).toBe(false);
+            expect(config.SERVER_REFRESH_TICK_MINUTES).toBe(5);
+        });
+
+        it('should read SERVER_REFRESH_ENABLED and SERVER_REFRESH_TICK_MINUTES from env', async () => {
+            process.env.SERVER_REFRESH_ENABLED = 'true';
+            process.env.SERVER_REFRESH_TICK_MINUTES = '15';
+            const config = await import('../config.js');
+
+            expect(config.SERVER_REFRESH_ENABLED).toBe(true);
+            expect(config.SERVER_REFRESH_TICK_MINUTES).toBe(15);
+        });
+
+        it('should reject a non-positive tick interval', async () => {
+            process.env.NODE_ENV = 'development';
+            process.env.SERVER_REFRESH_TICK_MINUTES = '0';
+            const config = await import('../config.js');
+
+            expect(() => config.validateConfig()).toThrow('SERVER_REFRESH_TICK_MINUTES');
+        });
+    });
+
+    describe('Gemini Proxy', () => {
+        it('should default GEMINI_DAILY_QUOTA to 200', async () => {
+            delete process.env.GEMINI_DAILY_QUOTA;
+            const config = await import('../config.js');
+
+            expect(config.GEMINI_DAILY_QUOTA).toBe(200);
+        });
+
+        it('should reject a non-positive daily quota', async () => {
+            process.env.NODE_ENV = 'development';
+            process.env.GEMINI_DAILY_QUOTA = '0';
+            const config = await import('../config.js');
+
+            expect(() => config.validateConfig()).toThrow('GEMINI_DAILY_QUOTA');
+        });
+    });
+
     describe('validateConfig', () => {
         it('should not throw in local development mode without secrets', async () => {
             process.env.NODE_ENV = 'development';
@@ -212,6 +283,20 @@ describe('Configuration', () => {
             expect(() => config.validateConfig()).toThrow('GCS_BUCKET_NAME');
         });
 
+        it('should throw in Cloud Run without SETTINGS_ENCRYPTION_KEY', async () => {
+            process.env.NODE_ENV = 'prod';
+            process.env.JWT_SECRET = 'test-secret';
+            process.env.OAUTH_CLIENT_ID = 'test-client-id';
+            process.env.ALLOWED_ORIGIN_EXTENSION = 'chrome-extension://test';
+            process.env.GCP_PROJECT_ID = 'test-project';
+            process.env.GCS_BUCKET_NAME = 'test-bucket';
+            delete process.env.SETTINGS_ENCRYPTION_KEY;
+
+            const config = await import('../config.js');
+
+            expect(() => config.validateConfig()).toThrow('SETTINGS_ENCRYPTION_KEY');
+        });
+
         it('should not throw in Cloud Run (prod) with all required env vars', async () => {
             process.env.NODE_ENV = 'prod';
             process.env.JWT_SECRET = 'test-secret';
@@ -219,6 +304,7 @@ describe('Configuration', () => {
             process.env.ALLOWED_ORIGIN_EXTENSION = 'chrome-extension://test';
             process.env.GCP_PROJECT_ID = 'test-project';
             process.env.GCS_BUCKET_NAME = 'test-bucket';
+            process.env.SETTINGS_ENCRYPTION_KEY = 'test-encryption-key';
 
             const config = await import('../config.js');
 
@@ -232,6 +318,7 @@ describe('Configuration', () => {
             process.env.ALLOWED_ORIGIN_EXTENSION = 'chrome-extension://test';
             process.env.GCP_PROJECT_ID = 'test-project';
             process.env.GCS_BUCKET_NAME = 'test-bucket';
+            process.env.SETTINGS_ENCRYPTION_KEY = 'test-encryption-key';
 
             const config = await import('../config.js');
 
@@ -1,98 +1,77 @@
 /**
  * Tests for Database Module
  *
- * Tests Firestore operations with mocked Firestore client.
+ * Runs the same behavioural tests against every storage backend:
+ * Firestore (backed by an in-memory fake client) and SQLite (in-memory database).
  */
 
-import {beforeEach, describe, expect, it, jest} from '@jest/globals';
-
-// Create mock Firestore before importing db module
-const mockDocGet = jest.fn<any>();
-const mockDocSet = jest.fn<any>();
-const mockDocUpdate = jest.fn<any>();
-const mockDocDelete = jest.fn<any>();
-const mockDoc = jest.fn(() => ({
-    get: mockDocGet,
-    set: mockDocSet,
-    update: mockDocUpdate,
-    delete: mockDocDelete,
-})) as jest.Mock;
-
-const mockWhere = jest.fn<any>();
-const mockOrderBy = jest.fn<any>();
-const mockLimit = jest.fn<any>();
-const mockQueryGet = jest.fn<any>();
-
-const mockCollection = jest.fn(() => ({
-    doc: mockDoc,
-    where: mockWhere,
-})) as jest.Mock;
-
-const mockBatchSet = jest.fn<any>();
-const mockBatchDelete = jest.fn<any>();
-const mockBatchCommit = jest.fn<any>();
-const mockBatch = jest.fn(() => ({
-    set: mockBatchSet,
-    delete: mockBatchDelete,
-    commit: mockBatchCommit,
-})) as jest.Mock;
-
-const mockListCollections = jest.fn<any>();
+import {afterAll, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {FakeFieldPath, FakeFirestore, FakeTimestamp} from './helpers/fakeFirestore.js';
 
 jest.unstable_mockModule('@google-cloud/firestore', () => ({
-    Firestore: jest.fn(() => ({
-        collection: mockCollection,
-        batch: mockBatch,
-        listCollections: mockListCollections,
-    })),
-    Timestamp: {
-        now: jest.fn(() => ({toDate: () => new Date()})),
-        fromDate: jest.fn((date: Date) => ({toDate: () => date})),
-    },
+    FieldPath: FakeFieldPath,
+    Firestore: FakeFirestore,
+    Timestamp: FakeTimestamp,
 }));
 
-// Import db module after mocking
-const dbModule = await import('../db.js');
-
-const {
-    getUserById,
-    upsertUser,
-    getListingsByUserId,
-    getListingById,
-    saveListing,
-    saveAllListings,
-    deleteListing,
-    checkFirestoreHealth,
-    getUserSettings,
-    saveUserSettings,
-    getGeminiHistory,
-    addGeminiHistoryEntry,
-    addGeminiHistoryEntries,
-    clearGeminiHistory,
-    blacklistToken,
-    isTokenBlacklisted,
-    cleanupExpiredBlacklistedTokens,
-} = dbModule;
-
-describe('Database Module', () => {
-    beforeEach(() => {
-        jest.clearAllMocks();
-
-        // Reset chain mocks
-        mockWhere.mockReturnValue({
-            get: mockQueryGet,
-            where: mockWhere,
-            orderBy: mockOrderBy,
-            limit: mockLimit,
-        });
-        mockOrderBy.mockReturnValue({
-            get: mockQueryGet,
-            limit: mockLimit,
-        });
-        mockLimit.mockReturnValue({
-            get: mockQueryGet,
-        });
-        mockBatchCommit.mockResolvedValue(undefined);
+type DbModule = typeof import('../db.js');
+type ListingQuery = import('../listings/index.js').ListingQuery;
+type RepositoryModule = typeof import('../repositories/index.js');
+
+const BACKENDS = ['firestore', 'sqlite'] as const;
+
+const createListing = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    title: `Car ${id}`,
+    currentPrice: 50000,
+    status: 'ACTIVE',
+    ...overrides,
+}) as any;
+
+const createSavedSearch = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    name: `Search ${id}`,
+    url: 'https://www.otomoto.pl/osobowe/bmw',
+    seenListingIds: ['6100000001'],
+    newMatches: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    lastCheckedAt: null,
+    ...overrides,
+});
+
+const createHistoryEntry = (id: string, timestamp: string, status: 'success' | 'error' = 'success') => ({
+    id,
+    url: `http://example.com/${id}`,
+    promptPreview: 'test',
+    status,
+    timestamp,
+});
+
+describe.each(BACKENDS)('Database Module (%s backend)', (backend) => {
+    const originalEnv = process.env;
+    let db: DbModule;
+    let repositories: RepositoryModule;
+
+    beforeEach(async () => {
+        jest.resetModules();
+        process.env = {
+            ...originalEnv,
+            STORAGE_BACKEND: backend,
+            SQLITE_DATABASE_PATH: ':memory:',
+            SETTINGS_ENCRYPTION_KEY: 'test-settings-key',
+            GEMINI_DAILY_QUOTA: '3',
+        };
+        // Fresh modules give each test an empty database
+        repositories = await import('../repositories/index.js');
+        db = await import('../db.js');
+    });
+
+    afterAll(() => {
+        process.env = originalEnv;
+    });
+
+    it('should use the configured backend', () => {
+        expect(repositories.getRepository().backend).toBe(backend);
     });
 
     // ==========================================================================
@@ -100,32 +79,20 @@ describe('Database Module', () => {
     // ==========================================================================
     describe('getUserById', () => {
         it('should return user when exists', async () => {
-            const mockUser = {
+            const user = {
                 id: 'user-123',
                 email: 'test@example.com',
                 displayName: 'Test User',
                 createdAt: '2024-01-01T00:00:00.000Z',
                 lastLoginAt: '2024-01-01T00:00:00.000Z',
             };
-            mockDocGet.mockResolvedValue({
-                exists: true,
-                data: () => mockUser,
-            });
-
-            const user = await getUserById('user-123');
+            await db.upsertUser(user);
 
-            expect(user).toEqual(mockUser);
-            expect(mockDoc).toHaveBeenCalledWith('user-123');
+            expect(await db.getUserById('user-123')).toEqual(user);
         });
 
         it('should return null when user does not exist', async () => {
-            mockDocGet.mockResolvedValue({
-                exists: false,
-            });
-
-            const user = await getUserById('non-existent');
-
-            expect(user).toBeNull();
+            expect(await db.getUserById('non-existent')).toBeNull();
         });
     });
 
@@ -138,39 +105,36 @@ describe('Database Module', () => {
                 createdAt: '2024-01-01T00:00:00.000Z',
                 lastLoginAt: '2024-01-01T00:00:00.000Z',
             };
-            mockDocGet.mockResolvedValue({
-                exists: false,
-            });
-            mockDocSet.mockResolvedValue(undefined);
 
-            const result = await upsertUser(newUser);
+            const result = await db.upsertUser(newUser);
 
             expect(result).toEqual(newUser);
-            expect(mockDocSet).toHaveBeenCalledWith(newUser);
         });
 
-        it('should update existing user', async () => {
-            const existingUser = {
+        it('should only update login time and display name for existing user', async () => {
+            await db.upsertUser({
                 id: 'existing-user',
                 email: 'existing@example.com',
                 displayName: 'Existing User',
                 createdAt: '2024-01-01T00:00:00.000Z',
                 lastLoginAt: '2024-01-01T00:00:00.000Z',
-            };
-            const updatedUser = {
-                ...existingUser,
-                lastLoginAt: '2024-01-02T00:00:00.000Z',
-            };
-
-            mockDocGet
-                .mockResolvedValueOnce({exists: true, data: () => existingUser})
-                .mockResolvedValueOnce({exists: true, data: () => updatedUser});
-            mockDocUpdate.mockResolvedValue(undefined);
+            });
 
-            const result = await upsertUser(updatedUser);
+            const result = await db.upsertUser({
+                id: 'existing-user',
+                email: 'changed@example.com',
+                displayName: 'Renamed User',
+                createdAt: '2024-06-01T00:00:00.000Z',
+                lastLoginAt: '2024-01-02T00:00:00.000Z',
+            });
 
-            expect(mockDocUpdate).toHaveBeenCalled();
-            expect(result).toEqual(updatedUser);
+            expect(result).toEqual({
+                id: 'existing-user',
+                email: 'existing@example.com',
+                displayName: 'Renamed User',
+                createdAt: '2024-01-01T00:00:00.000Z',
+                lastLoginAt: '2024-01-02T00:00:00.000Z',
+            });
         });
     });
 
@@ -178,245 +142,675 @@ describe('Database Module', () => {
     // Listing Operations
     // ==========================================================================
     describe('getListingsByUserId', () => {
-        it('should return listings for user', async () => {
-            const mockListings = [
-                {id: 'listing-1', title: 'BMW 320d', userId: 'user-123'},
-                {id: 'listing-2', title: 'Audi A4', userId: 'user-123'},
-            ];
-            mockQueryGet.mockResolvedValue({
-                forEach: (callback: Function) => {
-                    mockListings.forEach((listing, index) => {
-                        callback({data: () => listing, id: `doc-${index}`});
-                    });
-                },
-            });
+        it('should return only listings owned by the user', async () => {
+            await db.saveListing(createListing('listing-1', {title: 'BMW 320d'}), 'user-123');
+            await db.saveListing(createListing('listing-2', {title: 'Audi A4'}), 'user-123');
+            await db.saveListing(createListing('listing-3'), 'other-user');
 
-            const listings = await getListingsByUserId('user-123');
+            const listings = await db.getListingsByUserId('user-123');
 
             expect(listings).toHaveLength(2);
-            expect(listings[0].title).toBe('BMW 320d');
-            expect(mockWhere).toHaveBeenCalledWith('userId', '==', 'user-123');
+            expect(listings.map((l) => l.title).sort()).toEqual(['Audi A4', 'BMW 320d']);
+            expect(listings.every((l) => l.userId === 'user-123')).toBe(true);
         });
 
         it('should return empty array when no listings', async () => {
-            mockQueryGet.mockResolvedValue({
-                forEach: () => {
-                },
-            });
-
-            const listings = await getListingsByUserId('user-no-listings');
-
-            expect(listings).toEqual([]);
+            expect(await db.getListingsByUserId('user-no-listings')).toEqual([]);
         });
     });
 
     describe('getListingById', () => {
-        it('should return listing when exists and owned by user', async () => {
-            const mockListing = {
-                id: 'listing-1',
-                title: 'BMW 320d',
-                userId: 'user-123',
-            };
-            mockDocGet.mockResolvedValue({
-                exists: true,
-                data: () => mockListing,
-                id: 'listing-1',
-            });
+        it('should return listing with docId when owned by user', async () => {
+            await db.saveListing(createListing('listing-1', {title: 'BMW 320d'}), 'user-123');
 
-            const listing = await getListingById('listing-1', 'user-123');
+            const listing = await db.getListingById('listing-1', 'user-123');
 
             expect(listing?.title).toBe('BMW 320d');
+            expect(listing?.docId).toBe('listing-1');
         });
 
         it('should return null when listing does not exist', async () => {
-            mockDocGet.mockResolvedValue({
-                exists: false,
-            });
-
-            const listing = await getListingById('non-existent', 'user-123');
-
-            expect(listing).toBeNull();
+            expect(await db.getListingById('non-existent', 'user-123')).toBeNull();
         });
 
         it('should return null when listing not owned by user', async () => {
-            const mockListing = {
-                id: 'listing-1',
-                title: 'BMW 320d',
-                userId: 'other-user',
-            };
-            mockDocGet.mockResolvedValue({
-                exists: true,
-                data: () => mockListing,
-            });
-
-            const listing = await getListingById('listing-1', 'user-123');
+            await db.saveListing(createListing('listing-1'), 'other-user');
 
-            expect(listing).toBeNull();
+            expect(await db.getListingById('listing-1', 'user-123')).toBeNull();
         });
     });
 
     describe('saveListing', () => {
         it('should save listing with userId', async () => {
-            const listing = {
-                id: 'listing-1',
-                title: 'BMW 320d',
-                currentPrice: 50000,
-            };
-            mockDocSet.mockResolvedValue(undefined);
-
-            const result = await saveListing(listing as any, 'user-123');
+            const result = await db.saveListing(createListing('listing-1'), 'user-123');
 
             expect(result.userId).toBe('user-123');
-            expect(mockDocSet).toHaveBeenCalled();
+            expect(await db.getListingById('listing-1', 'user-123')).toMatchObject({currentPrice: 50000});
+        });
+
+        it('should overwrite an existing listing', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.saveListing(createListing('listing-1', {currentPrice: 45000}), 'user-123');
+
+            const listings = await db.getListingsByUserId('user-123');
+
+            expect(listings).toHaveLength(1);
+            expect(listings[0].currentPrice).toBe(45000);
+        });
+
+        it('should assign revision and updatedAt on every write', async () => {
+            const first = await db.saveListing(createListing('listing-1', {revision: 42}), 'user-123');
+            const second = await db.saveListing(createListing('listing-1'), 'user-123');
+
+            expect(first.revision).toBe(1);
+            expect(second.revision).toBe(2);
+            expect(second.updatedAt).toEqual(expect.any(String));
+            expect((await db.getListingById('listing-1', 'user-123'))?.revision).toBe(2);
+        });
+
+        it('should write when the expected revision matches', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+
+            const saved = await db.saveListing(createListing('listing-1', {currentPrice: 45000}), 'user-123', 1);
+
+            expect(saved.revision).toBe(2);
+        });
+
+        it('should reject a stale expected revision with the stored listing', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.saveListing(createListing('listing-1', {currentPrice: 47000}), 'user-123');
+
+            const error = await db.saveListing(createListing('listing-1', {currentPrice: 45000}), 'user-123', 1)
+                .catch((err: unknown) => err);
+
+            expect(error).toBeInstanceOf(db.ListingConflictError);
+            expect((error as InstanceType<DbModule['ListingConflictError']>).conflicts).toEqual([
+                {id: 'listing-1', current: expect.objectContaining({revision: 2, currentPrice: 47000})},
+            ]);
+            expect((await db.getListingById('listing-1', 'user-123'))?.currentPrice).toBe(47000);
+        });
+
+        it('should let only one of two concurrent conditional writes succeed', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+
+            const results = await Promise.allSettled([
+                db.saveListing(createListing('listing-1', {currentPrice: 45000}), 'user-123', 1),
+                db.saveListing(createListing('listing-1', {currentPrice: 47000}), 'user-123', 1),
+            ]);
+
+            expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+            expect((await db.getListingById('listing-1', 'user-123'))?.revision).toBe(2);
+        });
+
+        it('should reject an expected revision for a deleted listing', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.deleteListing('listing-1', 'user-123');
+
+            await expect(db.saveListing(createListing('listing-1'), 'user-123', 1))
+                .rejects.toBeInstanceOf(db.ListingConflictError);
         });
     });
 
     describe('saveAllListings', () => {
-        it('should batch save listings', async () => {
-            const listings = [
-                {id: 'listing-1', title: 'BMW 320d'},
-                {id: 'listing-2', title: 'Audi A4'},
-            ];
-            mockQueryGet.mockResolvedValue({
-                forEach: () => {
-                },
-                map: () => [],
-            });
-
-            const result = await saveAllListings(listings as any[], 'user-123');
+        it('should save all listings', async () => {
+            const result = await db.saveAllListings([createListing('listing-1'), createListing('listing-2')], 'user-123');
 
             expect(result).toHaveLength(2);
-            expect(mockBatchSet).toHaveBeenCalledTimes(2);
-            expect(mockBatchCommit).toHaveBeenCalled();
+            expect(await db.getListingsByUserId('user-123')).toHaveLength(2);
         });
 
         it('should delete old listings not in new list', async () => {
-            const existingListings = [
-                {id: 'old-listing', title: 'Old Car', userId: 'user-123'},
-            ];
-            const newListings = [
-                {id: 'new-listing', title: 'New Car'},
-            ];
-            mockQueryGet.mockResolvedValue({
-                forEach: (callback: Function) => {
-                    existingListings.forEach(listing => {
-                        callback({data: () => listing, id: listing.id});
-                    });
-                },
-            });
+            await db.saveListing(createListing('old-listing'), 'user-123');
+
+            await db.saveAllListings([createListing('new-listing')], 'user-123');
+
+            const listings = await db.getListingsByUserId('user-123');
+            expect(listings.map((l) => l.id)).toEqual(['new-listing']);
+        });
+
+        it('should not touch listings of other users', async () => {
+            await db.saveListing(createListing('foreign-listing'), 'other-user');
+
+            await db.saveAllListings([createListing('new-listing')], 'user-123');
+
+            expect(await db.getListingsByUserId('other-user')).toHaveLength(1);
+        });
+
+        it('should reject the whole batch when a sent revision is stale', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.saveListing(createListing('listing-1', {currentPrice: 47000}), 'user-123');
+
+            await expect(db.saveAllListings([
+                createListing('listing-1', {revision: 1}),
+                createListing('listing-2'),
+            ], 'user-123')).rejects.toBeInstanceOf(db.ListingConflictError);
+
+            expect((await db.getListingsByUserId('user-123')).map((l) => l.id)).toEqual(['listing-1']);
+        });
+
+        it('should reject the batch when a listing is written concurrently', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+
+            const results = await Promise.allSettled([
+                db.saveAllListings([createListing('listing-1', {currentPrice: 45000}), createListing('listing-2')], 'user-123'),
+                db.saveListing(createListing('listing-1', {currentPrice: 47000}), 'user-123', 1),
+            ]);
+
+            expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+            expect((await db.getListingById('listing-1', 'user-123'))?.revision).toBe(2);
+        });
+
+        it('should accept matching revisions and bump them', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
 
-            await saveAllListings(newListings as any[], 'user-123');
+            const [saved] = await db.saveAllListings([createListing('listing-1', {revision: 1})], 'user-123');
+
+            expect(saved.revision).toBe(2);
+        });
+    });
 
-            expect(mockBatchDelete).toHaveBeenCalled();
+    describe('saveListings', () => {
+        it('should create and update listings and keep the others', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.saveListing(createListing('other-device'), 'user-123');
+
+            const saved = await db.saveListings([
+                createListing('listing-1', {revision: 1, currentPrice: 45000}),
+                createListing('listing-2'),
+            ], 'user-123');
+
+            expect(saved.map((l) => l.revision)).toEqual([2, 1]);
+            expect((await db.getListingsByUserId('user-123')).map((l) => l.id).sort())
+                .toEqual(['listing-1', 'listing-2', 'other-device']);
+        });
+
+        it('should reject the batch when a listing changed or was created meanwhile', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.saveListing(createListing('listing-1', {currentPrice: 47000}), 'user-123');
+
+            let error: unknown;
+            try {
+                await db.saveListings([
+                    createListing('listing-1', {revision: 1}),
+                    createListing('listing-2', {revision: 1}),
+                    createListing('listing-3'),
+                ], 'user-123');
+            } catch (e) {
+                error = e;
+            }
+            await expect(db.saveListings([createListing('listing-1')], 'user-123'))
+                .rejects.toBeInstanceOf(db.ListingConflictError);
+
+            expect(error).toBeInstanceOf(db.ListingConflictError);
+            expect((error as InstanceType<typeof db.ListingConflictError>).conflicts.map((c) => c.id))
+                .toEqual(['listing-1', 'listing-2']);
+            expect(await db.getListingById('listing-3', 'user-123')).toBeNull();
         });
     });
 
     describe('deleteListing', () => {
         it('should delete listing when owned by user', async () => {
-            const mockListing = {
-                id: 'listing-1',
-                title: 'BMW 320d',
-                userId: 'user-123',
-            };
-            mockDocGet.mockResolvedValue({
-                exists: true,
-                data: () => mockListing,
-                id: 'listing-1',
-            });
-            mockDocDelete.mockResolvedValue(undefined);
+            await db.saveListing(createListing('listing-1'), 'user-123');
 
-            const result = await deleteListing('listing-1', 'user-123');
+            const result = await db.deleteListing('listing-1', 'user-123');
 
             expect(result).toBe(true);
-            expect(mockDocDelete).toHaveBeenCalled();
+            expect(await db.getListingById('listing-1', 'user-123')).toBeNull();
         });
 
         it('should return false when listing not found', async () => {
-            mockDocGet.mockResolvedValue({
-                exists: false,
+            expect(await db.deleteListing('non-existent', 'user-123')).toBe(false);
+        });
+
+        it('should not delete listing owned by another user', async () => {
+            await db.saveListing(createListing('listing-1'), 'other-user');
+
+            expect(await db.deleteListing('listing-1', 'user-123')).toBe(false);
+            expect(await db.getListingById('listing-1', 'other-user')).not.toBeNull();
+        });
+
+        it('should reject a stale expected revision', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.saveListing(createListing('listing-1'), 'user-123');
+
+            await expect(db.deleteListing('listing-1', 'user-123', 1)).rejects.toBeInstanceOf(db.ListingConflictError);
+            expect(await db.getListingById('listing-1', 'user-123')).not.toBeNull();
+        });
+    });
+
+    describe('commitListings', () => {
+        it('should write nothing when a precondition fails', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.saveListing(createListing('listing-2'), 'user-123');
+
+            const failedIds = await repositories.getRepository().commitListings({
+                userId: 'user-123',
+                preconditions: [{id: 'listing-1', revision: 1}, {id: 'listing-2', revision: 2}],
+                deleteIds: ['listing-1'],
+                listings: [],
+                tombstones: [{id: 'listing-1', userId: 'user-123', revision: 1, deletedAt: new Date().toISOString()}],
+                deleteTombstoneIds: [],
             });
 
-            const result = await deleteListing('non-existent', 'user-123');
+            expect(failedIds).toEqual(['listing-2']);
+            expect(await db.getListingById('listing-1', 'user-123')).not.toBeNull();
+            expect((await db.getListingChanges('user-123', '2000-01-01T00:00:00.000Z')).tombstones).toEqual([]);
+        });
+
+        it('should treat listings of other users as missing', async () => {
+            await db.saveListing(createListing('listing-1'), 'other-user');
 
-            expect(result).toBe(false);
+            expect(await repositories.getRepository().commitListings({
+                userId: 'user-123',
+                preconditions: [{id: 'listing-1', revision: 1}],
+                deleteIds: ['listing-1'],
+                listings: [],
+                tombstones: [],
+                deleteTombstoneIds: [],
+            })).toEqual(['listing-1']);
         });
     });
 
-    // ==========================================================================
-    // Health Check
-    // ==========================================================================
-    describe('checkFirestoreHealth', () => {
-        it('should return true when Firestore is connected', async () => {
-            mockListCollections.mockResolvedValue([]);
+    describe('getListingChanges', () => {
+        const since = '2000-01-01T00:00:00.000Z';
 
-            const result = await checkFirestoreHealth();
+        it('should return listings written after since', async () => {
+            const before = new Date(Date.now() - 1).toISOString();
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.saveListing(createListing('foreign'), 'other-user');
 
-            expect(result).toBe(true);
+            const changes = await db.getListingChanges('user-123', before);
+
+            expect(changes.listings.map((l) => l.id)).toEqual(['listing-1']);
+            expect(changes.tombstones).toEqual([]);
+            expect((await db.getListingChanges('user-123', new Date(Date.now() + 1000).toISOString())).listings)
+                .toEqual([]);
         });
 
-        it('should return false when Firestore is disconnected', async () => {
-            mockListCollections.mockRejectedValue(new Error('Connection failed'));
+        it('should return a cursor that overlaps recent writes', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            const {serverTime} = await db.getListingChanges('user-123', since);
 
-            const result = await checkFirestoreHealth();
+            const changes = await db.getListingChanges('user-123', serverTime);
+
+            expect(Date.parse(serverTime)).toBeLessThanOrEqual(Date.now() - 60_000);
+            expect(changes.listings.map((l) => l.id)).toEqual(['listing-1']);
+        });
+
+        it('should report deleted listings as tombstones', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.deleteListing('listing-1', 'user-123');
+
+            const changes = await db.getListingChanges('user-123', since);
+
+            expect(changes.listings).toEqual([]);
+            expect(changes.tombstones).toEqual([
+                expect.objectContaining({id: 'listing-1', userId: 'user-123', revision: 1}),
+            ]);
+        });
+
+        it('should report listings removed by saveAllListings as tombstones', async () => {
+            await db.saveListing(createListing('old-listing'), 'user-123');
+
+            await db.saveAllListings([createListing('new-listing')], 'user-123');
+
+            const changes = await db.getListingChanges('user-123', since);
+            expect(changes.listings.map((l) => l.id)).toEqual(['new-listing']);
+            expect(changes.tombstones.map((t) => t.id)).toEqual(['old-listing']);
+        });
+
+        it('should drop the tombstone when a deleted listing is saved again', async () => {
+            await db.saveListing(createListing('listing-1'), 'user-123');
+            await db.deleteListing('listing-1', 'user-123');
+            await db.saveListing(createListing('listing-1'), 'user-123');
+
+            const changes = await db.getListingChanges('user-123', since);
+
+            expect(changes.listings.map((l) => l.id)).toEqual(['listing-1']);
+            expect(changes.tombstones).toEqual([]);
+        });
+    });
 
-            expect(result).toBe(false);
+    describe('queryListings', () => {
+        const query = (overrides: Partial<ListingQuery> = {}): ListingQuery => ({
+            status: 'all',
+            archived: 'all',
+            makes: [],
+            models: [],
+            sources: [],
+            price: {min: null, max: null},
+            year: {min: null, max: null},
+            mileage: {min: null, max: null},
+            sort: 'newest',
+            limit: 50,
+            cursor: null,
+            ...overrides,
+        });
+        const saveListings = async (count: number, overrides: (i: number) => Record<string, unknown> = () => ({})) => {
+            for (let i = 0; i < count; i++) {
+                await db.saveListing(createListing(`listing-${i}`, {
+                    firstSeenAt: new Date(Date.UTC(2024, 0, 1, i)).toISOString(),
+                    source: {platform: 'otomoto.pl'},
+                    vehicle: {make: 'BMW', model: '320d', productionYear: 2020, mileage: {value: 80000, unit: 'km'}},
+                    ...overrides(i),
+                }), 'user-123');
+            }
+        };
+        const decodeCursor = async (cursor: string) => (await import('../listings/index.js')).decodeListingCursor(cursor, 'newest');
+
+        it('should return listings of the user in sort order', async () => {
+            await saveListings(3, (i) => ({currentPrice: [30000, 10000, 20000][i]}));
+            await db.saveListing(createListing('foreign'), 'other-user');
+
+            const newest = await db.queryListings('user-123', query());
+            const cheapest = await db.queryListings('user-123', query({sort: 'price-asc'}));
+
+            expect(newest.listings.map((l) => l.id)).toEqual(['listing-2', 'listing-1', 'listing-0']);
+            expect(newest.nextCursor).toBeNull();
+            expect(cheapest.listings.map((l) => l.currentPrice)).toEqual([10000, 20000, 30000]);
+        });
+
+        it('should page through listings with the cursor', async () => {
+            await saveListings(5);
+
+            const first = await db.queryListings('user-123', query({limit: 2}));
+            const second = await db.queryListings('user-123', query({limit: 2, cursor: await decodeCursor(first.nextCursor!)}));
+            const third = await db.queryListings('user-123', query({limit: 2, cursor: await decodeCursor(second.nextCursor!)}));
+
+            expect([first, second, third].map((page) => page.listings.map((l) => l.id))).toEqual([
+                ['listing-4', 'listing-3'],
+                ['listing-2', 'listing-1'],
+                ['listing-0'],
+            ]);
+            expect(third.nextCursor).toBeNull();
+        });
+
+        it('should break sort ties by listing ID across pages', async () => {
+            await saveListings(4, () => ({firstSeenAt: '2024-01-01T00:00:00.000Z'}));
+
+            const first = await db.queryListings('user-123', query({limit: 3}));
+            const second = await db.queryListings('user-123', query({limit: 3, cursor: await decodeCursor(first.nextCursor!)}));
+
+            expect([...first.listings, ...second.listings].map((l) => l.id))
+                .toEqual(['listing-3', 'listing-2', 'listing-1', 'listing-0']);
+        });
+
+        it('should apply filters and fill pages past non-matching listings', async () => {
+            await saveListings(150, (i) => ({isArchived: i % 10 !== 0}));
+
+            const first = await db.queryListings('user-123', query({archived: 'active', limit: 10}));
+            const second = await db.queryListings('user-123', query({
+                archived: 'active',
+                limit: 10,
+                cursor: await decodeCursor(first.nextCursor!),
+            }));
+
+            expect(first.listings.map((l) => l.id)).toEqual(
+                [140, 130, 120, 110, 100, 90, 80, 70, 60, 50].map((i) => `listing-${i}`),
+            );
+            expect(second.listings.map((l) => l.id)).toEqual([40, 30, 20, 10, 0].map((i) => `listing-${i}`));
+            expect(second.nextCursor).toBeNull();
+        });
+
+        it('should filter by source and price range', async () => {
+            await saveListings(4, (i) => ({
+                currentPrice: [10000, 20000, 30000, 40000][i],
+                source: {platform: i === 1 ? 'autoplac.pl' : 'otomoto.pl'},
+            }));
+
+            const page = await db.queryListings('user-123', query({
+                sources: ['otomoto.pl'],
+                price: {min: 15000, max: 40000},
+                sort: 'price-desc',
+            }));
+
+            expect(page.listings.map((l) => l.id)).toEqual(['listing-3', 'listing-2']);
         });
     });
 
     // ==========================================================================
-    // Settings Operations
+    // Saved Search Operations
     // ==========================================================================
-    describe('getUserSettings', () => {
-        it('should return settings when exists', async () => {
-            const mockSettings = {
-                userId: 'user-123',
-                geminiApiKey: 'api-key',
-                checkFrequencyMinutes: 60,
-                updatedAt: '2024-01-01T00:00:00.000Z',
+    describe('getSavedSearchesByUserId', () => {
+        it('should return only searches owned by the user', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1'), 'user-123');
+            await db.saveSavedSearch(createSavedSearch('search-2'), 'other-user');
+
+            const searches = await db.getSavedSearchesByUserId('user-123');
+
+            expect(searches.map((s) => s.id)).toEqual(['search-1']);
+            expect(searches[0].seenListingIds).toEqual(['6100000001']);
+        });
+    });
+
+    describe('saveSavedSearch', () => {
+        it('should overwrite an existing search of the same user', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1'), 'user-123');
+            const match = {
+                id: '6100000002',
+                url: 'https://www.otomoto.pl/osobowe/oferta/bmw-ID1.html',
+                title: 'BMW 320d',
+                discoveredAt: '2024-01-02T00:00:00.000Z',
             };
-            mockDocGet.mockResolvedValue({
-                exists: true,
-                data: () => mockSettings,
+
+            await db.saveSavedSearch(createSavedSearch('search-1', {newMatches: [match]}), 'user-123');
+
+            const search = await db.getSavedSearchById('search-1', 'user-123');
+            expect(search?.newMatches).toEqual([match]);
+        });
+
+        it('should refuse to overwrite a search owned by another user', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1'), 'other-user');
+
+            const result = await db.saveSavedSearch(createSavedSearch('search-1', {name: 'Hijacked'}), 'user-123');
+
+            expect(result).toBeNull();
+            expect(await db.getSavedSearchById('search-1', 'other-user')).toMatchObject({name: 'Search search-1'});
+        });
+    });
+
+    describe('recordSavedSearchCheck', () => {
+        const match = (id: string) => ({
+            id,
+            url: `https://www.otomoto.pl/osobowe/oferta/bmw-ID${id}.html`,
+            title: 'BMW 320d',
+            discoveredAt: '2024-01-02T00:00:00.000Z',
+        });
+
+        it('should add the check to the stored search', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1', {newMatches: [match('6100000001')]}), 'user-123');
+
+            const result = await db.recordSavedSearchCheck('search-1', 'user-123', {
+                seenListingIds: ['6100000002'],
+                newMatches: [match('6100000002')],
+                checkedAt: '2024-01-03T00:00:00.000Z',
             });
 
-            const settings = await getUserSettings('user-123');
+            expect(result?.seenListingIds).toEqual(['6100000002', '6100000001']);
+            expect(result?.newMatches.map((m) => m.id)).toEqual(['6100000002', '6100000001']);
+            expect(result?.lastCheckedAt).toBe('2024-01-03T00:00:00.000Z');
+        });
+
+        it('should not bring back a match dismissed while the check ran', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1', {
+                seenListingIds: ['6100000002', '6100000001'],
+            }), 'user-123');
+
+            const result = await db.recordSavedSearchCheck('search-1', 'user-123', {
+                seenListingIds: ['6100000002'],
+                newMatches: [match('6100000002')],
+                checkedAt: '2024-01-03T00:00:00.000Z',
+            });
 
-            expect(settings.geminiApiKey).toBe('api-key');
+            expect(result?.newMatches).toEqual([]);
+            expect(result?.seenListingIds).toEqual(['6100000002', '6100000001']);
         });
 
-        it('should return default settings when not exists', async () => {
-            mockDocGet.mockResolvedValue({
-                exists: false,
+        it('should not update a search owned by another user', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1'), 'other-user');
+
+            const result = await db.recordSavedSearchCheck('search-1', 'user-123', {
+                seenListingIds: ['6100000002'],
+                newMatches: [],
+                checkedAt: '2024-01-03T00:00:00.000Z',
             });
 
-            const settings = await getUserSettings('user-123');
+            expect(result).toBeNull();
+            expect((await db.getSavedSearchById('search-1', 'other-user'))?.seenListingIds).toEqual(['6100000001']);
+        });
+    });
+
+    describe('dismissSavedSearchMatch', () => {
+        it('should remove the match from the inbox', async () => {
+            const match = {
+                id: '6100000002',
+                url: 'https://www.otomoto.pl/osobowe/oferta/bmw-ID1.html',
+                title: 'BMW 320d',
+                discoveredAt: '2024-01-02T00:00:00.000Z',
+            };
+            await db.saveSavedSearch(createSavedSearch('search-1', {newMatches: [match]}), 'user-123');
+
+            const result = await db.dismissSavedSearchMatch('search-1', '6100000002', 'user-123');
+
+            expect(result?.newMatches).toEqual([]);
+            expect((await db.getSavedSearchById('search-1', 'user-123'))?.newMatches).toEqual([]);
+        });
+
+        it('should not update a search owned by another user', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1'), 'other-user');
+
+            expect(await db.dismissSavedSearchMatch('search-1', '6100000002', 'user-123')).toBeNull();
+        });
+    });
+
+    describe('deleteSavedSearch', () => {
+        it('should delete search when owned by user', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1'), 'user-123');
+
+            expect(await db.deleteSavedSearch('search-1', 'user-123')).toBe(true);
+            expect(await db.getSavedSearchById('search-1', 'user-123')).toBeNull();
+        });
+
+        it('should not delete search owned by another user', async () => {
+            await db.saveSavedSearch(createSavedSearch('search-1'), 'other-user');
+
+            expect(await db.deleteSavedSearch('search-1', 'user-123')).toBe(false);
+            expect(await db.getSavedSearchById('search-1', 'other-user')).not.toBeNull();
+        });
+    });
+
+    // ==========================================================================
+    // Health Check
+    // ==========================================================================
+    describe('checkDatabaseHealth', () => {
+        it('should return true when the database is reachable', async () => {
+            expect(await db.checkDatabaseHealth()).toBe(true);
+        });
+
+        it('should return false when the database is unreachable', async () => {
+            jest.spyOn(repositories.getRepository(), 'ping').mockRejectedValue(new Error('Connection failed'));
+
+            expect(await db.checkDatabaseHealth()).toBe(false);
+        });
+    });
+
+    // ==========================================================================
+    // Settings Operations
+    // ==========================================================================
+    describe('getUserSettings', () => {
+        it('should return default settings when not exists', async () => {
+            const settings = await db.getUserSettings('user-123');
 
             expect(settings.userId).toBe('user-123');
-            expect(settings.geminiApiKey).toBe('');
+            expect(settings.geminiApiKeyEncrypted).toBe('');
             expect(settings.checkFrequencyMinutes).toBe(60);
         });
+
+        it('should return saved settings', async () => {
+            await db.saveUserSettings('user-123', {checkFrequencyMinutes: 30});
+
+            const settings = await db.getUserSettings('user-123');
+
+            expect(settings.checkFrequencyMinutes).toBe(30);
+        });
     });
 
     describe('saveUserSettings', () => {
-        it('should save updated settings', async () => {
-            const existingSettings = {
-                userId: 'user-123',
-                geminiApiKey: 'old-key',
-                checkFrequencyMinutes: 60,
-                updatedAt: '2024-01-01T00:00:00.000Z',
-            };
-            mockDocGet.mockResolvedValue({
-                exists: true,
-                data: () => existingSettings,
-            });
-            mockDocSet.mockResolvedValue(undefined);
+        it('should merge updates into existing settings', async () => {
+            await db.saveUserSettings('user-123', {language: 'pl'});
 
-            const result = await saveUserSettings('user-123', {
-                checkFrequencyMinutes: 120,
-            });
+            const result = await db.saveUserSettings('user-123', {checkFrequencyMinutes: 120});
+
+            expect(result.checkFrequencyMinutes).toBe(120);
+            expect(result.language).toBe('pl');
+            expect((await db.getUserSettings('user-123')).checkFrequencyMinutes).toBe(120);
+        });
+    });
+
+    describe('updateUserSettings', () => {
+        it('should update the defaults of a user without settings', async () => {
+            const result = await db.updateUserSettings('user-123', (settings) => ({
+                checkFrequencyMinutes: settings.checkFrequencyMinutes * 2,
+            }));
 
             expect(result.checkFrequencyMinutes).toBe(120);
-            expect(mockDocSet).toHaveBeenCalled();
+            expect((await db.getUserSettings('user-123')).checkFrequencyMinutes).toBe(120);
+        });
+
+        it('should keep the settings when the update returns null', async () => {
+            await db.saveUserSettings('user-123', {checkFrequencyMinutes: 30});
+
+            const result = await db.updateUserSettings('user-123', () => null);
+
+            expect(result.checkFrequencyMinutes).toBe(30);
+        });
+
+        it('should not lose concurrent updates', async () => {
+            await Promise.all(Array.from({length: 10}, () => db.updateUserSettings('user-123', ({lastRefreshCount}) => ({
+                lastRefreshCount: (lastRefreshCount ?? 0) + 1,
+            }))));
+
+            expect((await db.getUserSettings('user-123')).lastRefreshCount).toBe(10);
+        });
+    });
+
+    describe('consumeGeminiQuota', () => {
+        it('should not let concurrent calls exceed the daily quota', async () => {
+            const {consumeGeminiQuota, GeminiQuotaExceededError} = await import('../gemini/quota.js');
+            const now = new Date('2025-01-15T12:00:00.000Z');
+
+            const results = await Promise.allSettled(Array.from({length: 5}, () => consumeGeminiQuota('user-123', now)));
+
+            expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(3);
+            expect(results.filter((result) => result.status === 'rejected'
+                && result.reason instanceof GeminiQuotaExceededError)).toHaveLength(2);
+            expect((await db.getUserSettings('user-123')).geminiQuota).toEqual({date: '2025-01-15', used: 3});
+        });
+    });
+
+    describe('getGeminiApiKey', () => {
+        it('should return an empty string when no key is configured', async () => {
+            expect(db.getGeminiApiKey(await db.getUserSettings('user-123'))).toBe('');
+        });
+
+        it('should decrypt the stored key', async () => {
+            const {encryptSecret} = await import('../utils/secrets.js');
+            const settings = await db.saveUserSettings('user-123', {geminiApiKeyEncrypted: encryptSecret('api-key')});
+
+            expect(settings.geminiApiKeyEncrypted).not.toContain('api-key');
+            expect(db.getGeminiApiKey(await db.getUserSettings('user-123'))).toBe('api-key');
+        });
+    });
+
+    describe('getServerRefreshSettings', () => {
+        it('should return only users who enabled server refresh', async () => {
+            await db.saveUserSettings('user-on', {serverRefreshEnabled: true});
+            await db.saveUserSettings('user-off', {serverRefreshEnabled: false});
+            await db.saveUserSettings('user-default', {checkFrequencyMinutes: 30});
+
+            const result = await db.getServerRefreshSettings();
+
+            expect(result.map((settings) => settings.userId)).toEqual(['user-on']);
         });
     });
 
@@ -424,173 +818,116 @@ describe('Database Module', () => {
     // Gemini History Operations
     // ==========================================================================
     describe('getGeminiHistory', () => {
-        it('should return history entries', async () => {
-            const mockHistory = [
-                {id: 'entry-1', url: 'http://example.com', userId: 'user-123', status: 'success'},
-            ];
-            mockQueryGet.mockResolvedValue({
-                forEach: (callback: Function) => {
-                    mockHistory.forEach(entry => {
-                        callback({data: () => entry});
-                    });
-                },
-            });
+        it('should return newest entries first without userId', async () => {
+            await db.addGeminiHistoryEntries([
+                createHistoryEntry('entry-1', '2024-01-01T00:00:00.000Z'),
+                createHistoryEntry('entry-2', '2024-01-03T00:00:00.000Z'),
+                createHistoryEntry('entry-3', '2024-01-02T00:00:00.000Z'),
+            ], 'user-123');
 
-            const history = await getGeminiHistory('user-123', 100);
+            const history = await db.getGeminiHistory('user-123', 100);
 
-            expect(history).toHaveLength(1);
-            expect(history[0].status).toBe('success');
-            // userId should be removed
+            expect(history.map((entry) => entry.id)).toEqual(['entry-2', 'entry-3', 'entry-1']);
             expect((history[0] as any).userId).toBeUndefined();
         });
+
+        it('should respect the limit and user scope', async () => {
+            await db.addGeminiHistoryEntries([
+                createHistoryEntry('entry-1', '2024-01-01T00:00:00.000Z'),
+                createHistoryEntry('entry-2', '2024-01-02T00:00:00.000Z'),
+            ], 'user-123');
+            await db.addGeminiHistoryEntry(createHistoryEntry('entry-3', '2024-01-03T00:00:00.000Z'), 'other-user');
+
+            const history = await db.getGeminiHistory('user-123', 1);
+
+            expect(history.map((entry) => entry.id)).toEqual(['entry-2']);
+        });
     });
 
     describe('addGeminiHistoryEntry', () => {
         it('should add single history entry', async () => {
-            const entry = {
-                id: 'entry-1',
-                url: 'http://example.com',
-                promptPreview: 'test',
-                status: 'success' as const,
-                timestamp: '2024-01-01T00:00:00.000Z',
-            };
-            mockDocSet.mockResolvedValue(undefined);
-
-            const result = await addGeminiHistoryEntry(entry, 'user-123');
+            const result = await db.addGeminiHistoryEntry(createHistoryEntry('entry-1', '2024-01-01T00:00:00.000Z'), 'user-123');
 
             expect(result.userId).toBe('user-123');
-            expect(mockDocSet).toHaveBeenCalled();
+            expect(await db.getGeminiHistory('user-123')).toHaveLength(1);
         });
     });
 
     describe('addGeminiHistoryEntries', () => {
-        it('should batch add entries', async () => {
-            const entries = [
-                {
-                    id: 'entry-1',
-                    url: 'http://example.com',
-                    promptPreview: 'test',
-                    status: 'success' as const,
-                    timestamp: '2024-01-01',
-                },
-                {
-                    id: 'entry-2',
-                    url: 'http://example.com/2',
-                    promptPreview: 'test2',
-                    status: 'error' as const,
-                    timestamp: '2024-01-02',
-                },
-            ];
-
-            await addGeminiHistoryEntries(entries, 'user-123');
-
-            expect(mockBatchSet).toHaveBeenCalledTimes(2);
-            expect(mockBatchCommit).toHaveBeenCalled();
+        it('should add all entries', async () => {
+            await db.addGeminiHistoryEntries([
+                createHistoryEntry('entry-1', '2024-01-01'),
+                createHistoryEntry('entry-2', '2024-01-02', 'error'),
+            ], 'user-123');
+
+            expect(await db.getGeminiHistory('user-123')).toHaveLength(2);
         });
 
         it('should handle empty entries array', async () => {
-            await addGeminiHistoryEntries([], 'user-123');
+            await db.addGeminiHistoryEntries([], 'user-123');
 
-            expect(mockBatchSet).not.toHaveBeenCalled();
+            expect(await db.getGeminiHistory('user-123')).toEqual([]);
         });
     });
 
     describe('clearGeminiHistory', () => {
-        it('should delete all history entries', async () => {
-            const mockEntries = [
-                {ref: {id: 'entry-1'}},
-                {ref: {id: 'entry-2'}},
-            ];
-            mockQueryGet.mockResolvedValue({
-                empty: false,
-                size: 2,
-                forEach: (callback: Function) => {
-                    mockEntries.forEach(entry => callback(entry));
-                },
-            });
+        it('should delete all history entries of the user', async () => {
+            await db.addGeminiHistoryEntries([
+                createHistoryEntry('entry-1', '2024-01-01'),
+                createHistoryEntry('entry-2', '2024-01-02'),
+            ], 'user-123');
+            await db.addGeminiHistoryEntry(createHistoryEntry('entry-3', '2024-01-03'), 'other-user');
 
-            const count = await clearGeminiHistory('user-123');
+            const count = await db.clearGeminiHistory('user-123');
 
             expect(count).toBe(2);
-            expect(mockBatchDelete).toHaveBeenCalledTimes(2);
+            expect(await db.getGeminiHistory('user-123')).toEqual([]);
+            expect(await db.getGeminiHistory('other-user')).toHaveLength(1);
         });
 
         it('should return 0 when no entries', async () => {
-            mockQueryGet.mockResolvedValue({
-                empty: true,
-                size: 0,
-            });
-
-            const count = await clearGeminiHistory('user-123');
-
-            expect(count).toBe(0);
+            expect(await db.clearGeminiHistory('user-123')).toBe(0);
         });
     });
 
     // ==========================================================================
     // Token Blacklist Operations
     // ==========================================================================
-    describe('blacklistToken', () => {
-        it('should add token to blacklist', async () => {
-            mockDocSet.mockResolvedValue(undefined);
+    describe('blacklistToken / isTokenBlacklisted', () => {
+        it('should report blacklisted tokens', async () => {
+            await db.blacklistToken('token-jti', 'user-123', new Date(Date.now() + 60_000));
 
-            await blacklistToken('token-jti', 'user-123', new Date('2024-01-02'));
-
-            expect(mockDocSet).toHaveBeenCalled();
-        });
-    });
-
-    describe('isTokenBlacklisted', () => {
-        it('should return true when token is blacklisted', async () => {
-            mockDocGet.mockResolvedValue({
-                exists: true,
-            });
-
-            const result = await isTokenBlacklisted('blacklisted-token');
-
-            expect(result).toBe(true);
+            expect(await db.isTokenBlacklisted('token-jti')).toBe(true);
         });
 
         it('should return false when token is not blacklisted', async () => {
-            mockDocGet.mockResolvedValue({
-                exists: false,
-            });
-
-            const result = await isTokenBlacklisted('valid-token');
-
-            expect(result).toBe(false);
+            expect(await db.isTokenBlacklisted('valid-token')).toBe(false);
         });
     });
 
     describe('cleanupExpiredBlacklistedTokens', () => {
-        it('should delete expired tokens', async () => {
-            const expiredTokens = [
-                {ref: {id: 'expired-1'}},
-                {ref: {id: 'expired-2'}},
-            ];
-            mockQueryGet.mockResolvedValue({
-                empty: false,
-                size: 2,
-                forEach: (callback: Function) => {
-                    expiredTokens.forEach(token => callback(token));
-                },
-            });
+        it('should delete only expired tokens', async () => {
+            await db.blacklistToken('expired-1', 'user-123', new Date(Date.now() - 60_000));
+            await db.blacklistToken('expired-2', 'user-123', new Date(Date.now() - 120_000));
+            await db.blacklistToken('active', 'user-123', new Date(Date.now() + 60_000));
 
-            const count = await cleanupExpiredBlacklistedTokens();
+            const count = await db.cleanupExpiredBlacklistedTokens();
 
             expect(count).toBe(2);
-            expect(mockBatchDelete).toHaveBeenCalledTimes(2);
+            expect(await db.isTokenBlacklisted('expired-1')).toBe(false);
+            expect(await db.isTokenBlacklisted('active')).toBe(true);
         });
 
         it('should return 0 when no expired tokens', async () => {
-            mockQueryGet.mockResolvedValue({
-                empty: true,
-                size: 0,
-            });
+            expect(await db.cleanupExpiredBlacklistedTokens()).toBe(0);
+        });
+    });
+});
 
-            const count = await cleanupExpiredBlacklistedTokens();
+describe('createRepository', () => {
+    it('should reject unsupported backends', async () => {
+        const {createRepository} = await import('../repositories/index.js');
 
-            expect(count).toBe(0);
-        });
+        expect(() => createRepository('mongodb')).toThrow('Unsupported storage backend: mongodb');
     });
 });
@@ -0,0 +1,176 @@
+/**
+ * Listings Export Tests
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+    buildExportRows,
+    createListingsExport,
+    filterListingsForExport,
+    type ExportFilters,
+    getExportColumns,
+    toCsv,
+    toXlsx,
+} from '../export/index.js';
+import {type CarListing, ListingStatus} from '../types.js';
+
+const createListing = (id: string, overrides: Partial<CarListing> = {}): CarListing => ({
+    id,
+    schemaVersion: '1.0.0',
+    source: {platform: 'otomoto.pl', url: `https://www.otomoto.pl/${id}`, listingId: id, countryCode: 'PL'},
+    title: `BMW 320d ${id}`,
+    thumbnailUrl: '',
+    currentPrice: 50000,
+    currency: 'PLN',
+    priceHistory: [
+        {date: '2025-01-01T00:00:00.000Z', price: 52000, currency: 'PLN'},
+        {date: '2025-01-10T00:00:00.000Z', price: 50000, currency: 'PLN'},
+    ],
+    originalPrice: null,
+    negotiable: true,
+    vehicle: {
+        vin: null,
+        make: 'BMW',
+        model: '320d',
+        generation: 'G20',
+        trim: null,
+        bodyType: 'Sedan',
+        productionYear: 2020,
+        firstRegistrationYear: 2020,
+        mileage: {value: 80000, unit: 'km'},
+        engine: {
+            capacityCc: 1995,
+            fuelType: 'Diesel',
+            powerKw: 140,
+            powerHp: 190,
+            engineCode: null,
+            euroStandard: null,
+            hybridType: null,
+        },
+        drivetrain: {transmissionType: 'Automatic', transmissionSubtype: null, gearsCount: 8, driveType: 'RWD'},
+        registration: {plateNumber: null, originCountry: null, registeredInCountryCode: 'PL'},
+        condition: {isNew: false, isImported: false, accidentFreeDeclared: true, serviceHistoryDeclared: null},
+        colorAndInterior: {exteriorColor: 'Black', interiorColor: null, upholsteryType: null},
+    },
+    location: {city: 'Kraków', region: null, postalCode: null, countryCode: 'PL'},
+    seller: {type: 'private', name: 'Jan', phone: null, isCompany: false},
+    status: ListingStatus.ACTIVE,
+    statusChangedAt: null,
+    postedDate: null,
+    firstSeenAt: '2025-01-01T00:00:00.000Z',
+    lastSeenAt: '2025-01-10T00:00:00.000Z',
+    ...overrides,
+});
+
+const ALL: ExportFilters = {status: 'all', archived: 'all', makes: [], models: [], sources: []};
+
+describe('Listings Export', () => {
+    describe('buildExportRows', () => {
+        it('should flatten nested listing fields', () => {
+            const [row] = buildExportRows([createListing('a')], 'latest');
+
+            expect(row).toMatchObject({
+                id: 'a',
+                price: 50000,
+                make: 'BMW',
+                powerHp: 190,
+                transmissionType: 'Automatic',
+                city: 'Kraków',
+                sellerType: 'private',
+            });
+            expect(Object.keys(row)).toEqual(getExportColumns('latest'));
+        });
+
+        it('should write one row per price point in history mode', () => {
+            const rows = buildExportRows([createListing('a')], 'history');
+
+            expect(rows.map((row) => [row.priceDate, row.price])).toEqual([
+                ['2025-01-01T00:00:00.000Z', 52000],
+                ['2025-01-10T00:00:00.000Z', 50000],
+            ]);
+        });
+    });
+
+    describe('filterListingsForExport', () => {
+        const listings = [
+            createListing('active'),
+            createListing('ended', {status: ListingStatus.ENDED}),
+            createListing('archived', {isArchived: true}),
+            createListing('audi', {vehicle: {...createListing('x').vehicle, make: 'Audi', model: 'A4'}}),
+            createListing('olx', {source: {...createListing('x').source, platform: 'olx.pl'}}),
+        ];
+        const ids = (filters: Partial<ExportFilters>) =>
+            filterListingsForExport(listings, {...ALL, ...filters}).map((l) => l.id);
+
+        it('should filter by status and archive state', () => {
+            expect(ids({status: ListingStatus.ENDED})).toEqual(['ended']);
+            expect(ids({archived: 'active'})).toEqual(['active', 'ended', 'audi', 'olx']);
+            expect(ids({archived: 'archived'})).toEqual(['archived']);
+        });
+
+        it('should filter by makes and models', () => {
+            expect(ids({makes: ['Audi']})).toEqual(['audi']);
+            expect(ids({models: ['320d']})).toEqual(['active', 'ended', 'archived', 'olx']);
+        });
+
+        it('should filter by marketplace platforms', () => {
+            expect(ids({sources: ['olx.pl']})).toEqual(['olx']);
+            expect(ids({sources: ['olx.pl'], makes: ['Audi']})).toEqual([]);
+        });
+    });
+
+    describe('serializers', () => {
+        it('should quote CSV values that need it', () => {
+            expect(toCsv([{a: 'x, y', b: null}], ['a', 'b'])).toBe('a,b\r\n"x, y",\r\n');
+        });
+
+        it('should keep CSV text values from being read as formulas', () => {
+            const rows = [{title: '=HYPERLINK("https://attacker.tld")', seller: '+48 123', note: '-1', at: '@SUM(A1)', price: -5}];
+
+            expect(toCsv(rows, ['title', 'seller', 'note', 'at', 'price']).split('\r\n')[1])
+                .toBe('"\'=HYPERLINK(""https://attacker.tld"")",\'+48 123,\'-1,\'@SUM(A1),-5');
+            expect(toCsv([{a: '\tTab', b: '\rCR'}], ['a', 'b']).split('\r\n')[1]).toBe('\'\tTab,"\'\rCR"');
+        });
+
+        it('should write XLSX text values as inline strings', () => {
+            const text = Buffer.from(toXlsx([{title: '=1+1'}], ['title'])).toString('utf8');
+
+            expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">=1+1</t></is></c>');
+            expect(text).not.toContain('<f>');
+        });
+
+        it('should write an XLSX ZIP archive', () => {
+            const bytes = toXlsx([{title: 'BMW'}], ['title']);
+
+            expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+            expect(Buffer.from(bytes).toString('utf8')).toContain('xl/worksheets/sheet1.xml');
+        });
+    });
+
+    describe('createListingsExport', () => {
+        const now = new Date('2025-02-01T00:00:00.000Z');
+
+        it('should create a CSV file with a byte order mark', () => {
+            const file = createListingsExport([createListing('a')], 'csv', 'latest', now);
+
+            expect(file.filename).toBe('motorscope-listings-2025-02-01.csv');
+            expect(file.mimeType).toBe('text/csv; charset=utf-8');
+            expect((file.content as string).startsWith('\uFEFFid,title,price,currency')).toBe(true);
+        });
+
+        it('should create a JSON file of listings without storage fields', () => {
+            const listing = createListing('a');
+            const file = createListingsExport([{...listing, userId: 'user-1', docId: 'a'} as CarListing], 'json', 'history', now);
+
+            expect(file.filename).toBe('motorscope-listings-2025-02-01.json');
+            expect(JSON.parse(file.content as string)).toEqual([listing]);
+        });
+
+        it('should create an XLSX buffer', () => {
+            const file = createListingsExport([createListing('a')], 'xlsx', 'history', now);
+
+            expect(file.filename).toBe('motorscope-listings-price-history-2025-02-01.xlsx');
+            expect(Buffer.isBuffer(file.content)).toBe(true);
+        });
+    });
+});
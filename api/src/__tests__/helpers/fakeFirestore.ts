@@ -0,0 +1,271 @@
+/**
+ * In-memory Firestore fake for repository tests
+ *
+ * Implements the subset of the Firestore client used by
+ * repositories/firestore.ts so the same behavioural tests can run
+ * against both the Firestore and SQLite repositories.
+ */
+
+type DocumentData = Record<string, unknown>;
+type WhereOp = '==' | '<' | '>';
+
+/** Order by document ID (FieldPath.documentId() stringifies to this) */
+const DOCUMENT_ID_FIELD = '__name__';
+
+/**
+ * Minimal Timestamp replacement; valueOf() makes range comparisons work in queries
+ */
+export class FakeTimestamp {
+    constructor(private readonly millis: number) {
+    }
+
+    static now(): FakeTimestamp {
+        return new FakeTimestamp(Date.now());
+    }
+
+    static fromDate(date: Date): FakeTimestamp {
+        return new FakeTimestamp(date.getTime());
+    }
+
+    toDate(): Date {
+        return new Date(this.millis);
+    }
+
+    toMillis(): number {
+        return this.millis;
+    }
+
+    valueOf(): number {
+        return this.millis;
+    }
+}
+
+/**
+ * Minimal FieldPath replacement; only the document ID sentinel is used
+ */
+export class FakeFieldPath {
+    static documentId(): FakeFieldPath {
+        return new FakeFieldPath();
+    }
+
+    toString(): string {
+        return DOCUMENT_ID_FIELD;
+    }
+}
+
+class FakeDocumentSnapshot {
+    constructor(
+        readonly ref: FakeDocumentReference,
+        private readonly stored: DocumentData | undefined,
+    ) {
+    }
+
+    get id(): string {
+        return this.ref.id;
+    }
+
+    get exists(): boolean {
+        return this.stored !== undefined;
+    }
+
+    data(): DocumentData | undefined {
+        return this.stored ? {...this.stored} : undefined;
+    }
+}
+
+class FakeDocumentReference {
+    constructor(
+        private readonly store: Map<string, DocumentData>,
+        readonly id: string,
+    ) {
+    }
+
+    async get(): Promise<FakeDocumentSnapshot> {
+        return new FakeDocumentSnapshot(this, this.store.get(this.id));
+    }
+
+    async set(data: DocumentData): Promise<void> {
+        this.store.set(this.id, {...data});
+    }
+
+    async update(data: DocumentData): Promise<void> {
+        const existing = this.store.get(this.id);
+        if (!existing) {
+            throw new Error(`No document to update: ${this.id}`);
+        }
+        this.store.set(this.id, {...existing, ...data});
+    }
+
+    async delete(): Promise<void> {
+        this.store.delete(this.id);
+    }
+}
+
+class FakeQuerySnapshot {
+    constructor(readonly docs: FakeDocumentSnapshot[]) {
+    }
+
+    get empty(): boolean {
+        return this.docs.length === 0;
+    }
+
+    get size(): number {
+        return this.docs.length;
+    }
+
+    forEach(callback: (doc: FakeDocumentSnapshot) => void): void {
+        this.docs.forEach(callback);
+    }
+}
+
+type QueryOrder = { field: string; direction: 'asc' | 'desc' };
+
+interface QueryState {
+    filters: Array<{ field: string; op: WhereOp; value: unknown }>;
+    orders: QueryOrder[];
+    startAfter?: unknown[];
+    max?: number;
+}
+
+/**
+ * Compare two field values; ISO strings compare lexicographically like in Firestore, numbers and Timestamps by value
+ */
+const compareValues = (a: unknown, b: unknown): number => {
+    if (typeof a === 'string' && typeof b === 'string') {
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+    return Number(a) - Number(b);
+};
+
+class FakeQuery {
+    constructor(
+        protected readonly store: Map<string, DocumentData>,
+        private readonly state: QueryState = {filters: [], orders: []},
+    ) {
+    }
+
+    where(field: string, op: WhereOp, value: unknown): FakeQuery {
+        return new FakeQuery(this.store, {...this.state, filters: [...this.state.filters, {field, op, value}]});
+    }
+
+    orderBy(field: string | { toString(): string }, direction: 'asc' | 'desc' = 'asc'): FakeQuery {
+        return new FakeQuery(this.store, {...this.state, orders: [...this.state.orders, {field: String(field), direction}]});
+    }
+
+    startAfter(...values: unknown[]): FakeQuery {
+        return new FakeQuery(this.store, {...this.state, startAfter: values});
+    }
+
+    limit(max: number): FakeQuery {
+        return new FakeQuery(this.store, {...this.state, max});
+    }
+
+    async get(): Promise<FakeQuerySnapshot> {
+        const {filters, orders, startAfter, max} = this.state;
+        const fieldValue = ([id, data]: [string, DocumentData], field: string): unknown =>
+            field === DOCUMENT_ID_FIELD ? id : data[field];
+
+        let entries = Array.from(this.store.entries()).filter(([, data]) =>
+            filters.every(({field, op, value}) => {
+                const actual = data[field];
+                if (op === '==') {
+                    return actual === value;
+                }
+                const result = compareValues(actual, value);
+                return op === '<' ? result < 0 : result > 0;
+            }),
+        );
+
+        const sortKey = (entry: [string, DocumentData]): unknown[] => orders.map(({field}) => fieldValue(entry, field));
+        const compareKeys = (a: unknown[], b: unknown[]): number => {
+            for (let i = 0; i < orders.length; i++) {
+                const result = compareValues(a[i], b[i]);
+                if (result !== 0) {
+                    return orders[i].direction === 'asc' ? result : -result;
+                }
+            }
+            return 0;
+        };
+
+        entries = entries.sort((a, b) => compareKeys(sortKey(a), sortKey(b)));
+        if (startAfter) {
+            entries = entries.filter((entry) => compareKeys(sortKey(entry), startAfter) > 0);
+        }
+        if (max !== undefined) {
+            entries = entries.slice(0, max);
+        }
+
+        return new FakeQuerySnapshot(entries.map(([id, data]) =>
+            new FakeDocumentSnapshot(new FakeDocumentReference(this.store, id), data),
+        ));
+    }
+}
+
+class FakeCollectionReference extends FakeQuery {
+    doc(id: string): FakeDocumentReference {
+        return new FakeDocumentReference(this.store, id);
+    }
+}
+
+class FakeWriteBatch {
+    private readonly operations: Array<() => Promise<void>> = [];
+
+    set(ref: FakeDocumentReference, data: DocumentData): void {
+        this.operations.push(() => ref.set(data));
+    }
+
+    update(ref: FakeDocumentReference, data: DocumentData): void {
+        this.operations.push(() => ref.update(data));
+    }
+
+    delete(ref: FakeDocumentReference): void {
+        this.operations.push(() => ref.delete());
+    }
+
+    async commit(): Promise<void> {
+        for (const operation of this.operations.splice(0)) {
+            await operation();
+        }
+    }
+}
+
+/**
+ * In-memory Firestore client; every instance has its own data
+ */
+export class FakeFirestore {
+    private readonly collections = new Map<string, Map<string, DocumentData>>();
+    /** Transactions run one at a time, standing in for Firestore's contention handling */
+    private transactionQueue: Promise<unknown> = Promise.resolve();
+
+    collection(name: string): FakeCollectionReference {
+        if (!this.collections.has(name)) {
+            this.collections.set(name, new Map());
+        }
+        return new FakeCollectionReference(this.collections.get(name)!);
+    }
+
+    batch(): FakeWriteBatch {
+        return new FakeWriteBatch();
+    }
+
+    async runTransaction<T>(callback: (transaction: FakeWriteBatch & {
+        get: (ref: FakeDocumentReference) => Promise<FakeDocumentSnapshot>
+    }) => Promise<T>): Promise<T> {
+        const run = async (): Promise<T> => {
+            const batch = new FakeWriteBatch();
+            const transaction = Object.assign(batch, {
+                get: (ref: FakeDocumentReference) => ref.get(),
+            });
+            const result = await callback(transaction);
+            await batch.commit();
+            return result;
+        };
+        const result = this.transactionQueue.then(run, run);
+        this.transactionQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    async listCollections(): Promise<FakeCollectionReference[]> {
+        return Array.from(this.collections.keys()).map((name) => this.collection(name));
+    }
+}
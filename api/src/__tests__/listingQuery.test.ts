@@ -0,0 +1,152 @@
+/**
+ * Listing Query Tests
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+    decodeListingCursor,
+    encodeListingCursor,
+    isListingPageRequest,
+    ListingQueryError,
+    matchesListingQuery,
+    parseListingQuery,
+} from '../listings/index.js';
+import {type CarListing, ListingStatus} from '../types.js';
+
+const createListing = (overrides: Record<string, unknown> = {}): CarListing => ({
+    id: 'vin_1',
+    title: 'BMW 320d',
+    currentPrice: 50000,
+    status: ListingStatus.ACTIVE,
+    firstSeenAt: '2025-01-01T00:00:00.000Z',
+    source: {platform: 'otomoto.pl', url: 'https://www.otomoto.pl/1', listingId: '1', countryCode: 'PL'},
+    vehicle: {make: 'BMW', model: '320d', productionYear: 2020, mileage: {value: 80000, unit: 'km'}},
+    ...overrides,
+}) as unknown as CarListing;
+
+describe('Listing Query', () => {
+    describe('isListingPageRequest', () => {
+        it('should detect filter, sort and pagination parameters', () => {
+            expect(isListingPageRequest({})).toBe(false);
+            expect(isListingPageRequest({since: '2025-01-01T00:00:00.000Z'})).toBe(false);
+            expect(isListingPageRequest({limit: '10'})).toBe(true);
+            expect(isListingPageRequest({minMileage: '1000'})).toBe(true);
+        });
+    });
+
+    describe('parseListingQuery', () => {
+        it('should apply defaults', () => {
+            expect(parseListingQuery({})).toEqual({
+                status: 'all',
+                archived: 'all',
+                makes: [],
+                models: [],
+                sources: [],
+                price: {min: null, max: null},
+                year: {min: null, max: null},
+                mileage: {min: null, max: null},
+                sort: 'newest',
+                limit: 50,
+                cursor: null,
+            });
+        });
+
+        it('should parse list and range parameters', () => {
+            const query = parseListingQuery({
+                makes: ['BMW, Audi', 'Skoda'],
+                sources: 'otomoto.pl',
+                minYear: '2015',
+                maxMileage: '150000',
+            });
+
+            expect(query.makes).toEqual(['BMW', 'Audi', 'Skoda']);
+            expect(query.sources).toEqual(['otomoto.pl']);
+            expect(query.year).toEqual({min: 2015, max: null});
+            expect(query.mileage).toEqual({min: null, max: 150000});
+        });
+
+        it.each([
+            [{status: 'SOLD'}, 'status must be one of: all, ACTIVE, ENDED'],
+            [{archived: 'yes'}, 'archived must be one of: all, active, archived'],
+            [{limit: '201'}, 'limit must be an integer between 1 and 200'],
+            [{limit: '2.5'}, 'limit must be an integer between 1 and 200'],
+            [{maxPrice: 'cheap'}, 'maxPrice must be a non-negative number'],
+            [{minYear: '2020', maxYear: '2010'}, 'minYear must not be greater than maxYear'],
+        ])('should reject %j', (params, message) => {
+            expect(() => parseListingQuery(params)).toThrow(new ListingQueryError(message));
+        });
+    });
+
+    describe('cursors', () => {
+        it('should round-trip the sort value and listing ID', () => {
+            const cursor = encodeListingCursor(createListing({currentPrice: 42000}), 'price-asc');
+
+            expect(decodeListingCursor(cursor, 'price-asc')).toEqual({sort: 'price-asc', value: 42000, id: 'vin_1'});
+            expect(parseListingQuery({sort: 'price-asc', cursor}).cursor).toEqual({
+                sort: 'price-asc',
+                value: 42000,
+                id: 'vin_1',
+            });
+        });
+
+        it('should reject cursors issued for another sort', () => {
+            const cursor = encodeListingCursor(createListing(), 'newest');
+
+            expect(() => decodeListingCursor(cursor, 'name')).toThrow('cursor was issued for a different sort');
+        });
+
+        it('should reject malformed cursors', () => {
+            expect(() => decodeListingCursor('%%%', 'newest')).toThrow('cursor is invalid');
+            expect(() => decodeListingCursor(Buffer.from('{"sort":"newest"}').toString('base64url'), 'newest'))
+                .toThrow('cursor is invalid');
+        });
+    });
+
+    describe('matchesListingQuery', () => {
+        const query = (params: Record<string, unknown>) => parseListingQuery(params);
+
+        it('should filter by status and archive state', () => {
+            const ended = createListing({status: ListingStatus.ENDED, isArchived: true});
+
+            expect(matchesListingQuery(ended, query({status: 'ENDED'}))).toBe(true);
+            expect(matchesListingQuery(ended, query({status: 'ACTIVE'}))).toBe(false);
+            expect(matchesListingQuery(ended, query({archived: 'active'}))).toBe(false);
+            expect(matchesListingQuery(ended, query({archived: 'archived'}))).toBe(true);
+        });
+
+        it('should filter by makes, models and sources', () => {
+            const listing = createListing();
+
+            expect(matchesListingQuery(listing, query({makes: 'Audi,BMW', models: '320d'}))).toBe(true);
+            expect(matchesListingQuery(listing, query({models: 'A4'}))).toBe(false);
+            expect(matchesListingQuery(listing, query({sources: 'autoplac.pl'}))).toBe(false);
+        });
+
+        it('should apply inclusive ranges', () => {
+            const listing = createListing();
+
+            expect(matchesListingQuery(listing, query({minPrice: '50000', maxPrice: '50000'}))).toBe(true);
+            expect(matchesListingQuery(listing, query({maxPrice: '49999'}))).toBe(false);
+            expect(matchesListingQuery(listing, query({minYear: '2021'}))).toBe(false);
+            expect(matchesListingQuery(listing, query({maxMileage: '80000'}))).toBe(true);
+        });
+
+        it('should exclude listings without a value once a range is set', () => {
+            const listing = createListing({vehicle: {make: 'BMW', model: '320d', productionYear: null, mileage: {value: null, unit: null}}});
+
+            expect(matchesListingQuery(listing, query({}))).toBe(true);
+            expect(matchesListingQuery(listing, query({minYear: '2000'}))).toBe(false);
+            expect(matchesListingQuery(listing, query({maxMileage: '200000'}))).toBe(false);
+        });
+
+        it('should not fail on listings without vehicle details', () => {
+            const listing = createListing({vehicle: {make: 'BMW', model: '320d', productionYear: null}});
+            const bare = createListing({vehicle: undefined});
+
+            expect(matchesListingQuery(listing, query({maxMileage: '200000'}))).toBe(false);
+            expect(matchesListingQuery(bare, query({makes: 'BMW'}))).toBe(false);
+            expect(matchesListingQuery(bare, query({minYear: '2000'}))).toBe(false);
+            expect(matchesListingQuery(bare, query({}))).toBe(true);
+        });
+    });
+});
@@ -1,139 +1,123 @@
 /**
  * Tests for Migration Module
  *
- * Tests the migration logic including status normalization.
+ * Runs the migration runner (including locking) and the data migrations
+ * against every storage backend: Firestore (in-memory fake client) and SQLite.
  */
 
-import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
-import statusSoldExpiredToEnded from '../migrations/20251209_status_sold_expired_to_ended.js';
+import {afterAll, beforeEach, describe, expect, it, jest} from '@jest/globals';
 import type {Firestore} from '@google-cloud/firestore';
+import {FakeFieldPath, FakeFirestore, FakeTimestamp} from './helpers/fakeFirestore.js';
+import type {StorageRepository} from '../repositories/types.js';
 
-// Shared in-memory store for mocked Firestore collections
-const mockData: Map<string, Map<string, any>> = new Map();
-
-const getCollectionData = (name: string): Map<string, any> => {
-    if (!mockData.has(name)) {
-        mockData.set(name, new Map());
-    }
-    return mockData.get(name)!;
-};
-
-const createMockDocRef = (collectionName: string, docId: string) => ({
-    id: docId,
-    get: jest.fn(async () => {
-        const data = getCollectionData(collectionName).get(docId);
-        return {
-            exists: !!data,
-            data: () => data,
-            id: docId,
-        };
-    }),
-    set: jest.fn(async (data: any) => {
-        getCollectionData(collectionName).set(docId, data);
-    }),
-    update: jest.fn(async (data: any) => {
-        const existing = getCollectionData(collectionName).get(docId) || {};
-        getCollectionData(collectionName).set(docId, {...existing, ...data});
-    }),
-    delete: jest.fn(async () => {
-        getCollectionData(collectionName).delete(docId);
-    }),
-});
+jest.unstable_mockModule('@google-cloud/firestore', () => ({
+    FieldPath: FakeFieldPath,
+    Firestore: FakeFirestore,
+    Timestamp: FakeTimestamp,
+}));
 
-const createMockCollectionRef = (name: string) => ({
-    doc: (docId: string) => createMockDocRef(name, docId),
-    where: jest.fn(() => ({
-        get: jest.fn(async () => ({
-            empty: true,
-            docs: [],
-            size: 0,
-        })),
-    })),
-});
+// Read by config when the key migration module loads
+process.env.SETTINGS_ENCRYPTION_KEY = 'test-settings-key';
 
-const mockFirestore = {
-    collection: jest.fn((name: string) => createMockCollectionRef(name)),
-    batch: jest.fn(() => ({
-        set: jest.fn(),
-        update: jest.fn(),
-        delete: jest.fn(),
-        commit: jest.fn(async () => {
-        }),
-    })),
-    runTransaction: jest.fn(async (callback: Function) => {
-        const transaction = {
-            get: jest.fn(async (ref: any) => ref.get()),
-            set: jest.fn((ref: any, data: any) => ref.set(data)),
-            update: jest.fn((ref: any, data: any) => ref.update(data)),
-            delete: jest.fn((ref: any) => ref.delete()),
-        };
-        return callback(transaction);
-    }),
-};
-
-const mockTimestamp = {
-    now: jest.fn(() => ({toDate: () => new Date()} as any)),
-    fromDate: jest.fn((date: Date) => ({toDate: () => date} as any)),
-};
-
-(jest as any).unstable_mockModule('@google-cloud/firestore', () => ({
-    Firestore: class {
-        constructor() {
-            return mockFirestore;
-        }
-    },
-    Timestamp: mockTimestamp,
-}));
+const {createFirestoreRepository, createSqliteRepository} = await import('../repositories/index.js');
+const {default: statusSoldExpiredToEnded} = await import('../migrations/20251209_status_sold_expired_to_ended.js');
+const {default: backfillStatusChangedAt} = await import('../migrations/20251223_backfill_status_changed_at.js');
+const {default: backfillListingRevisions} = await import('../migrations/20261019_backfill_listing_revisions.js');
+const {default: encryptGeminiApiKeys} = await import('../migrations/20261020_encrypt_gemini_api_keys.js');
+const {decryptSecret} = await import('../utils/secrets.js');
 
-const importMigrationRunner = () => import('../migrations.js');
+const BACKENDS = ['firestore', 'sqlite'] as const;
+const STATUS_MIGRATION_ID = '20251209_status_sold_expired_to_ended';
+const LOCK_STALE_MS = 5 * 60 * 1000;
 
-describe('Migration Runner', () => {
-    beforeEach(() => {
-        mockData.clear();
-        jest.clearAllMocks();
-    });
+const createTestRepository = (backend: typeof BACKENDS[number]): StorageRepository =>
+    backend === 'firestore'
+        ? createFirestoreRepository(new FakeFirestore() as unknown as Firestore)
+        : createSqliteRepository(':memory:');
 
-    afterEach(() => {
+const createListing = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    userId: 'user-123',
+    title: `Car ${id}`,
+    status: 'ACTIVE',
+    statusChangedAt: null,
+    lastSeenAt: '2025-12-01T10:00:00.000Z',
+    ...overrides,
+}) as any;
+
+describe.each(BACKENDS)('Migration Runner (%s backend)', (backend) => {
+    const originalEnv = process.env;
+    let repository: StorageRepository;
+    let runner: typeof import('../migrations.js');
+
+    beforeEach(async () => {
         jest.resetModules();
+        process.env = {...originalEnv, STORAGE_BACKEND: backend, SQLITE_DATABASE_PATH: ':memory:'};
+        // Fresh modules give each test an empty database shared by runner and test
+        const repositories = await import('../repositories/index.js');
+        repository = repositories.getRepository();
+        runner = await import('../migrations.js');
+    });
+
+    afterAll(() => {
+        process.env = originalEnv;
     });
 
     describe('runMigrations', () => {
         it('skips already applied migrations without touching locks', async () => {
-            const migrationsData = getCollectionData('_migrations');
-            migrationsData.set('20251209_status_sold_expired_to_ended', {
-                id: '20251209_status_sold_expired_to_ended',
+            await repository.recordMigration({
+                id: STATUS_MIGRATION_ID,
                 description: 'Migrate listing statuses from sold/expired to ENDED',
-                appliedAt: mockTimestamp.now(),
+                appliedAt: new Date(),
                 durationMs: 120,
             });
+            await repository.setListing(createListing('listing-1', {status: 'sold'}));
+
+            await expect(runner.runMigrations()).resolves.not.toThrow();
 
-            const {runMigrations} = await importMigrationRunner();
-            await expect(runMigrations()).resolves.not.toThrow();
-            expect(migrationsData.has('20251209_status_sold_expired_to_ended_lock')).toBe(false);
+            // Already applied migration must not run again
+            expect((await repository.getListing('listing-1'))?.status).toBe('sold');
+            expect(await repository.acquireMigrationLock(STATUS_MIGRATION_ID, 'test', LOCK_STALE_MS))
+                .toBe('already_applied');
         });
 
         it('runs pending migrations exactly once and records completion', async () => {
-            const {runMigrations, getMigrationStatus} = await importMigrationRunner();
-            await runMigrations();
-            const status = await getMigrationStatus();
-            const migration = status.find((entry) => entry.id === '20251209_status_sold_expired_to_ended');
+            await repository.setListing(createListing('listing-1', {status: 'sold'}));
+
+            await runner.runMigrations();
+            const status = await runner.getMigrationStatus();
+            const migration = status.find((entry) => entry.id === STATUS_MIGRATION_ID);
 
             expect(migration).toBeDefined();
             expect(migration?.applied).toBe(true);
             expect(migration?.appliedAt).toBeInstanceOf(Date);
+            expect((await repository.getListing('listing-1'))?.status).toBe('ENDED');
+
+            // Lock is released after completion
+            expect(await repository.acquireMigrationLock(STATUS_MIGRATION_ID, 'test', LOCK_STALE_MS))
+                .toBe('already_applied');
+        });
+
+        it('does not run a migration locked by another instance', async () => {
+            await repository.acquireMigrationLock(STATUS_MIGRATION_ID, 'other-instance', LOCK_STALE_MS);
+            await repository.setListing(createListing('listing-1', {status: 'sold'}));
+
+            await runner.runMigrations();
+
+            expect((await repository.getListing('listing-1'))?.status).toBe('sold');
+            expect(await repository.getMigrationRecord(STATUS_MIGRATION_ID)).toBeNull();
         });
     });
 
     describe('getMigrationStatus', () => {
         it('returns metadata even when not applied', async () => {
-            const {getMigrationStatus} = await importMigrationRunner();
-            const status = await getMigrationStatus();
+            const status = await runner.getMigrationStatus();
             expect(status).toEqual(
                 expect.arrayContaining([
                     expect.objectContaining({
-                        id: '20251209_status_sold_expired_to_ended',
+                        id: STATUS_MIGRATION_ID,
                         description: expect.any(String),
-                        applied: expect.any(Boolean),
+                        applied: false,
                     }),
                 ]),
             );
@@ -141,70 +125,111 @@ describe('Migration Runner', () => {
     });
 });
 
-describe('Status normalization migration (20251209)', () => {
-    const createTestFirestore = (docs: Record<string, { status: string }>): Firestore => {
-        type StatusDoc = { status: string } & Record<string, unknown>;
-        const collectionDocs = new Map<string, StatusDoc>(
-            Object.entries(docs).map(([id, data]) => [id, {...data}]),
-        );
+describe.each(BACKENDS)('Migration locks (%s backend)', (backend) => {
+    let repository: StorageRepository;
 
-        const batchUpdates: Array<() => Promise<void>> = [];
-
-        const collectionRef = {
-            where: jest.fn((_field: string, _op: FirebaseFirestore.WhereFilterOp, value: string) => ({
-                get: async () => {
-                    const matchingDocs = Array.from(collectionDocs.entries())
-                        .filter(([, data]) => data.status === value)
-                        .map(([id, data]) => ({
-                            id,
-                            data: () => data,
-                            ref: {
-                                update: async (payload: Record<string, unknown>) => {
-                                    const current = collectionDocs.get(id) ?? {status: 'UNKNOWN'};
-                                    const nextStatus = typeof payload.status === 'string' ? payload.status : current.status;
-                                    collectionDocs.set(id, {...current, ...payload, status: nextStatus} as StatusDoc);
-                                },
-                            },
-                        }));
-
-                    return {
-                        empty: matchingDocs.length === 0,
-                        docs: matchingDocs,
-                        size: matchingDocs.length,
-                    };
-                },
-            })),
-        };
-
-        return {
-            collection: jest.fn(() => collectionRef),
-            batch: jest.fn(() => ({
-                update: (ref: {
-                    update: (payload: Record<string, unknown>) => Promise<void>
-                }, payload: Record<string, unknown>) => {
-                    batchUpdates.push(() => ref.update(payload));
-                },
-                commit: async () => {
-                    for (const commitOperation of batchUpdates.splice(0)) {
-                        await commitOperation();
-                    }
-                },
-            })),
-        } as unknown as Firestore;
-    };
+    beforeEach(() => {
+        repository = createTestRepository(backend);
+    });
+
+    it('grants the lock to a single caller', async () => {
+        expect(await repository.acquireMigrationLock('m1', 'instance-a', LOCK_STALE_MS)).toBe('acquired');
+        expect(await repository.acquireMigrationLock('m1', 'instance-b', LOCK_STALE_MS)).toBe('locked');
+    });
+
+    it('takes over stale locks', async () => {
+        await repository.acquireMigrationLock('m1', 'instance-a', LOCK_STALE_MS);
 
+        expect(await repository.acquireMigrationLock('m1', 'instance-b', 0)).toBe('acquired');
+    });
+
+    it('allows re-acquiring after release', async () => {
+        await repository.acquireMigrationLock('m1', 'instance-a', LOCK_STALE_MS);
+        await repository.releaseMigrationLock('m1');
+
+        expect(await repository.acquireMigrationLock('m1', 'instance-b', LOCK_STALE_MS)).toBe('acquired');
+    });
+});
+
+describe.each(BACKENDS)('Status normalization migration (20251209, %s backend)', (backend) => {
     it('converts legacy statuses to ENDED while leaving others unchanged', async () => {
-        const firestore = createTestFirestore({
-            doc1: {status: 'sold'},
-            doc2: {status: 'expired'},
-            doc3: {status: 'ACTIVE'},
-            doc4: {status: 'ENDED'},
-        });
+        const repository = createTestRepository(backend);
+        await repository.replaceListings([], [
+            createListing('doc1', {status: 'sold'}),
+            createListing('doc2', {status: 'expired'}),
+            createListing('doc3', {status: 'ACTIVE'}),
+            createListing('doc4', {status: 'ENDED'}),
+            createListing('doc5', {status: 'SOLD'}),
+        ]);
+
+        await statusSoldExpiredToEnded.up(repository);
+
+        const statuses = await Promise.all(
+            ['doc1', 'doc2', 'doc3', 'doc4', 'doc5'].map(async (id) => (await repository.getListing(id))?.status),
+        );
+        expect(statuses).toEqual(['ENDED', 'ENDED', 'ACTIVE', 'ENDED', 'ENDED']);
+    });
+});
+
+describe.each(BACKENDS)('Backfill statusChangedAt migration (20251223, %s backend)', (backend) => {
+    it('sets statusChangedAt from lastSeenAt only where missing', async () => {
+        const repository = createTestRepository(backend);
+        await repository.replaceListings([], [
+            createListing('ended-missing', {status: 'ENDED'}),
+            createListing('ended-set', {status: 'ENDED', statusChangedAt: '2025-11-01T00:00:00.000Z'}),
+            createListing('active', {status: 'ACTIVE'}),
+        ]);
+
+        await backfillStatusChangedAt.up(repository);
+
+        expect((await repository.getListing('ended-missing'))?.statusChangedAt).toBe('2025-12-01T10:00:00.000Z');
+        expect((await repository.getListing('ended-set'))?.statusChangedAt).toBe('2025-11-01T00:00:00.000Z');
+        expect((await repository.getListing('active'))?.statusChangedAt).toBeNull();
+    });
+});
+
+describe.each(BACKENDS)('Backfill listing revisions migration (20261019, %s backend)', (backend) => {
+    it('sets revision and updatedAt only where missing', async () => {
+        const repository = createTestRepository(backend);
+        await repository.replaceListings([], [
+            createListing('legacy-active'),
+            createListing('legacy-ended', {status: 'ENDED'}),
+            createListing('synced', {revision: 7, updatedAt: '2026-01-01T00:00:00.000Z'}),
+        ]);
+
+        await backfillListingRevisions.up(repository);
+
+        expect(await repository.getListing('legacy-active')).toMatchObject({revision: 1, updatedAt: expect.any(String)});
+        expect(await repository.getListing('legacy-ended')).toMatchObject({revision: 1, updatedAt: expect.any(String)});
+        expect(await repository.getListing('synced')).toMatchObject({revision: 7, updatedAt: '2026-01-01T00:00:00.000Z'});
+        expect(await repository.getListingsUpdatedSince('user-123', '2000-01-01T00:00:00.000Z')).toHaveLength(3);
+    });
+});
+
+describe.each(BACKENDS)('Encrypt Gemini API keys migration (20261020, %s backend)', (backend) => {
+    const createSettings = (userId: string, overrides: Record<string, unknown> = {}) => ({
+        userId,
+        checkFrequencyMinutes: 60,
+        geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    }) as any;
+
+    it('encrypts plain text keys and removes the plain text field', async () => {
+        const repository = createTestRepository(backend);
+        await repository.setSettings(createSettings('with-key', {geminiApiKey: 'AIza-secret'}));
+        await repository.setSettings(createSettings('empty-key', {geminiApiKey: ''}));
+        await repository.setSettings(createSettings('migrated', {geminiApiKeyEncrypted: 'v1:already:encrypted:key'}));
 
-        await statusSoldExpiredToEnded.up(firestore);
+        await encryptGeminiApiKeys.up(repository);
 
-        expect(firestore.collection).toHaveBeenCalledWith(expect.any(String));
-        expect(firestore.batch).toHaveBeenCalled();
+        const withKey = await repository.getSettings('with-key');
+        expect(withKey).not.toHaveProperty('geminiApiKey');
+        expect(decryptSecret(withKey!.geminiApiKeyEncrypted)).toBe('AIza-secret');
+        expect(withKey?.checkFrequencyMinutes).toBe(60);
+        expect(await repository.getSettings('empty-key')).toMatchObject({geminiApiKeyEncrypted: ''});
+        expect(await repository.getSettings('empty-key')).not.toHaveProperty('geminiApiKey');
+        expect(await repository.getSettings('migrated')).toMatchObject({geminiApiKeyEncrypted: 'v1:already:encrypted:key'});
     });
 });
 
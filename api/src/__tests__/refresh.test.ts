@@ -0,0 +1,713 @@
+/**
+ * Tests for the Server-Side Refresh Worker
+ *
+ * Mocks the database, Gemini SDK and global fetch.
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {ListingStatus, type CarListing, type ListingDocument, type UserSettings} from '../types.js';
+
+const mockGetListingById = jest.fn<any>();
+const mockGetListingsByUserId = jest.fn<any>();
+const mockGetServerRefreshSettings = jest.fn<any>();
+const mockSaveListing = jest.fn<any>();
+const mockGetUserSettings = jest.fn<any>();
+const mockSaveUserSettings = jest.fn<any>();
+const mockUpdateUserSettings = jest.fn<any>();
+const mockAddGeminiHistoryEntry = jest.fn<any>();
+const mockGenerateContent = jest.fn<any>();
+const mockGetGeminiApiKey = jest.fn<any>();
+
+class MockListingConflictError extends Error {
+}
+
+jest.unstable_mockModule('../db.js', () => ({
+    ListingConflictError: MockListingConflictError,
+    getGeminiApiKey: mockGetGeminiApiKey,
+    getListingById: mockGetListingById,
+    getListingsByUserId: mockGetListingsByUserId,
+    getServerRefreshSettings: mockGetServerRefreshSettings,
+    saveListing: mockSaveListing,
+    getUserSettings: mockGetUserSettings,
+    saveUserSettings: mockSaveUserSettings,
+    updateUserSettings: mockUpdateUserSettings,
+    addGeminiHistoryEntry: mockAddGeminiHistoryEntry,
+    addGeminiHistoryEntries: jest.fn(),
+}));
+
+jest.unstable_mockModule('@google/genai', () => ({
+    GoogleGenAI: jest.fn().mockImplementation(() => ({
+        models: {generateContent: mockGenerateContent},
+    })),
+    Type: {OBJECT: 'OBJECT', NUMBER: 'NUMBER', STRING: 'STRING', BOOLEAN: 'BOOLEAN'},
+}));
+
+const {
+    computeContentFingerprint,
+    extractPageText,
+    extractRefreshResult,
+    isExpiredListingPage,
+    isServerFetchable,
+    isUserDueForRefresh,
+    normalizeCustomDomain,
+    parseCustomMarketplaces,
+    refreshListing,
+    refreshUserListings,
+    runServerRefresh,
+    selectListingsForServerRefresh,
+    shouldExcludeEndedListing,
+} = await import('../refresh/index.js');
+
+const NOW = new Date('2025-01-15T12:00:00.000Z');
+
+const createListing = (id: string, overrides: Partial<CarListing> = {}): CarListing => ({
+    id,
+    title: `Car ${id}`,
+    currentPrice: 50000,
+    currency: 'PLN',
+    priceHistory: [{date: '2025-01-01T00:00:00.000Z', price: 50000, currency: 'PLN'}],
+    status: ListingStatus.ACTIVE,
+    statusChangedAt: null,
+    lastSeenAt: '2025-01-14T00:00:00.000Z',
+    lastRefreshStatus: 'success',
+    source: {
+        platform: 'otomoto.pl',
+        url: `https://www.otomoto.pl/osobowe/oferta/${id}.html`,
+        listingId: id,
+        countryCode: 'PL',
+    },
+    ...overrides,
+}) as CarListing;
+
+const createSettings = (overrides: Partial<UserSettings> = {}): UserSettings => ({
+    userId: 'user-123',
+    geminiApiKeyEncrypted: 'v1:encrypted-test-key',
+    checkFrequencyMinutes: 60,
+    geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+    serverRefreshEnabled: true,
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+const mockPage = (status: number, html = '<html><title>Car</title><body>Price 45 000 PLN</body></html>', url?: string) => {
+    global.fetch = jest.fn<any>().mockResolvedValue({
+        url,
+        status,
+        ok: status >= 200 && status < 300,
+        text: async () => html,
+    });
+};
+
+const otomotoPage = (availability = 'https://schema.org/InStock') => '<html><title>Car</title>'
+    + `<script type="application/ld+json">${JSON.stringify({
+        '@type': 'Car',
+        offers: {'@type': 'Offer', price: '44 900', priceCurrency: 'PLN', availability},
+    })}</script><body>Price 44 900 PLN</body></html>`;
+
+const mockGeminiResponse = (data: Record<string, unknown>) => {
+    mockGenerateContent.mockResolvedValue({text: JSON.stringify(data)});
+};
+
+describe('Server-Side Refresh', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        mockGetUserSettings.mockResolvedValue(createSettings());
+        mockSaveUserSettings.mockResolvedValue(undefined);
+        mockAddGeminiHistoryEntry.mockResolvedValue(undefined);
+        mockSaveListing.mockResolvedValue(undefined);
+        mockGetGeminiApiKey.mockReturnValue('test-key');
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+    });
+
+    describe('isServerFetchable', () => {
+        it('should allow fetchable marketplaces', () => {
+            expect(isServerFetchable('https://www.otomoto.pl/osobowe/oferta/abc.html')).toBe(true);
+            expect(isServerFetchable('https://autoplac.pl/ogloszenie/123')).toBe(true);
+            expect(isServerFetchable('https://www.autoscout24.de/angebote/bmw-320-d-6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f')).toBe(true);
+            expect(isServerFetchable('https://www.olx.pl/d/oferta/bmw-seria-3-CID5-IDZx8Kq.html')).toBe(true);
+        });
+
+        it('should skip neverFetch and unknown marketplaces', () => {
+            expect(isServerFetchable('https://www.facebook.com/marketplace/item/123')).toBe(false);
+            expect(isServerFetchable('https://suchen.mobile.de/fahrzeuge/details.html?id=123')).toBe(false);
+            expect(isServerFetchable('https://example.com/car/1')).toBe(false);
+        });
+
+        it('should match the URL hostname, not any part of the URL', () => {
+            expect(isServerFetchable('https://otomoto.pl/osobowe/oferta/abc.html')).toBe(true);
+            expect(isServerFetchable('https://m.olx.pl/d/oferta/abc.html')).toBe(true);
+            expect(isServerFetchable('http://169.254.169.254/?otomoto.pl')).toBe(false);
+            expect(isServerFetchable('https://169.254.169.254/latest/meta-data?otomoto.pl')).toBe(false);
+            expect(isServerFetchable('https://otomoto.pl.attacker.tld/osobowe/oferta/abc.html')).toBe(false);
+            expect(isServerFetchable('https://attacker.tld/www.otomoto.pl/oferta')).toBe(false);
+            expect(isServerFetchable('https://nototomoto.pl/osobowe/oferta/abc.html')).toBe(false);
+            expect(isServerFetchable('https://user@internal.host/?x=otomoto.pl')).toBe(false);
+        });
+
+        it('should only fetch https URLs', () => {
+            expect(isServerFetchable('http://www.otomoto.pl/osobowe/oferta/abc.html')).toBe(false);
+            expect(isServerFetchable('file:///etc/passwd?otomoto.pl')).toBe(false);
+            expect(isServerFetchable('not a url otomoto.pl')).toBe(false);
+        });
+
+        it('should leave custom marketplaces to the extension', () => {
+            expect(isServerFetchable('https://cars.example.com/offer/1')).toBe(false);
+            expect(isServerFetchable('https://cars.example.com.attacker.tld/offer/1')).toBe(false);
+        });
+    });
+
+    describe('custom marketplace validation', () => {
+        const marketplace = {
+            id: 'custom-cars.example.com',
+            name: 'Example Cars',
+            domains: ['cars.example.com'],
+            offerPagePatterns: ['/offer/'],
+            excludePatterns: [],
+            neverFetch: false,
+        };
+
+        it('should normalize domains to host names', () => {
+            expect(normalizeCustomDomain('https://WWW.Cars.example.com:443/used?x=1')).toBe('www.cars.example.com');
+            expect(normalizeCustomDomain(' cars.example.com. ')).toBe('cars.example.com');
+        });
+
+        it.each([
+            '169.254.169.254',
+            'http://10.0.0.1/',
+            '0x7f.1',
+            '[::1]',
+            'localhost',
+            'api.localhost',
+            'metadata.google.internal',
+            'printer.local',
+            'not a domain',
+        ])('should reject %s', (domain) => {
+            expect(normalizeCustomDomain(domain)).toBeNull();
+        });
+
+        it('should accept valid definitions and clear on null', () => {
+            expect(parseCustomMarketplaces([{...marketplace, name: ' Example Cars ', domains: ['Cars.example.com', 'cars.example.com']}]))
+                .toEqual({marketplaces: [marketplace]});
+            expect(parseCustomMarketplaces(null)).toEqual({marketplaces: []});
+        });
+
+        it.each([
+            ['a non-array', 'cars.example.com'],
+            ['a missing name', [{...marketplace, name: ''}]],
+            ['no domains', [{...marketplace, domains: []}]],
+            ['a private domain', [{...marketplace, domains: ['192.168.1.10']}]],
+            ['non-string patterns', [{...marketplace, offerPagePatterns: [1]}]],
+            ['a missing neverFetch flag', [{...marketplace, neverFetch: undefined}]],
+            ['too many marketplaces', Array.from({length: 21}, () => marketplace)],
+        ])('should reject %s', (_case, value) => {
+            expect(parseCustomMarketplaces(value).error).toEqual(expect.any(String));
+        });
+    });
+
+    describe('extractPageText', () => {
+        it('should drop scripts, styles, comments and hidden elements', () => {
+            expect(extractPageText(
+                '<html><head><style>p{}</style><script>var t = "12:05";</script></head>'
+                + '<body><!-- cached --><noscript>Enable JavaScript</noscript><p>BMW\n\n 320d</p><template>x</template></body></html>',
+            )).toBe('BMW 320d');
+        });
+    });
+
+    describe('isExpiredListingPage', () => {
+        const olxUrl = 'https://www.olx.pl/d/oferta/bmw-seria-3-CID5-IDZx8Kq.html';
+        const autoscoutUrl = 'https://www.autoscout24.de/angebote/bmw-320-d-6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f';
+
+        it('should detect the "no longer available" notice after a redirect', () => {
+            expect(isExpiredListingPage(olxUrl, 'https://www.olx.pl/d/', 'To ogłoszenie nie jest już dostępne')).toBe(true);
+            expect(isExpiredListingPage(autoscoutUrl, 'https://www.autoscout24.de/', 'Leider nicht mehr verfügbar')).toBe(true);
+        });
+
+        it('should detect redirects to search results', () => {
+            expect(isExpiredListingPage(autoscoutUrl, 'https://www.autoscout24.de/lst/bmw/320', '')).toBe(true);
+            expect(isExpiredListingPage(olxUrl, 'https://www.olx.pl/motoryzacja/samochody/', '')).toBe(true);
+        });
+
+        it('should not flag live ads whose text contains the notice', () => {
+            expect(isExpiredListingPage(olxUrl, olxUrl, 'BMW 320d, poprzednie ogłoszenie jest nieaktywne')).toBe(false);
+            expect(isExpiredListingPage(autoscoutUrl, `${autoscoutUrl}?ipc=recommendation`, 'Garantie nicht mehr verfügbar')).toBe(false);
+            expect(isExpiredListingPage(
+                'https://www.olx.pl/oferta/bmw-seria-3-CID5-IDZx8Kq.html',
+                olxUrl,
+                'ogłoszenie jest nieaktywne',
+            )).toBe(false);
+        });
+
+        it('should not flag active listings or other marketplaces', () => {
+            expect(isExpiredListingPage(olxUrl, olxUrl, 'BMW 320d 45 900 zł')).toBe(false);
+            expect(isExpiredListingPage('https://www.otomoto.pl/osobowe/oferta/a.html', 'https://www.otomoto.pl/', 'no longer available')).toBe(false);
+        });
+    });
+
+    describe('shouldExcludeEndedListing', () => {
+        it('should keep ENDED listings within the grace period', () => {
+            const listing = createListing('a', {status: ListingStatus.ENDED, statusChangedAt: '2025-01-14T00:00:00.000Z'});
+            expect(shouldExcludeEndedListing(listing, 3, NOW)).toBe(false);
+        });
+
+        it('should exclude ENDED listings past the grace period', () => {
+            const listing = createListing('a', {status: ListingStatus.ENDED, statusChangedAt: '2025-01-01T00:00:00.000Z'});
+            expect(shouldExcludeEndedListing(listing, 3, NOW)).toBe(true);
+        });
+    });
+
+    describe('isUserDueForRefresh', () => {
+        it('should be due when never refreshed on the server', () => {
+            expect(isUserDueForRefresh(createSettings(), NOW)).toBe(true);
+        });
+
+        it('should respect checkFrequencyMinutes', () => {
+            const recent = createSettings({lastServerRefreshTime: '2025-01-15T11:30:00.000Z'});
+            const old = createSettings({lastServerRefreshTime: '2025-01-15T10:59:00.000Z'});
+
+            expect(isUserDueForRefresh(recent, NOW)).toBe(false);
+            expect(isUserDueForRefresh(old, NOW)).toBe(true);
+        });
+
+        it('should not be due without an API key or when disabled', () => {
+            expect(isUserDueForRefresh(createSettings({geminiApiKeyEncrypted: ''}), NOW)).toBe(false);
+        });
+
+        it('should skip users who reached their monthly budget', () => {
+            const geminiStats = {
+                allTimeTotalCalls: 10, totalCalls: 10, successCount: 10, errorCount: 0,
+                dailyUsage: {'2025-01-10': {calls: 10, promptTokens: 40000, responseTokens: 2000, costUsd: 5.2}},
+            };
+
+            expect(isUserDueForRefresh(createSettings({geminiStats, monthlyBudgetUsd: 5}), NOW)).toBe(false);
+            expect(isUserDueForRefresh(createSettings({geminiStats, monthlyBudgetUsd: 10}), NOW)).toBe(true);
+            expect(isUserDueForRefresh(createSettings({geminiStats, monthlyBudgetUsd: null}), NOW)).toBe(true);
+            expect(isUserDueForRefresh(createSettings({serverRefreshEnabled: false}), NOW)).toBe(false);
+        });
+    });
+
+    describe('selectListingsForServerRefresh', () => {
+        it('should skip archived, unfetchable, recently seen and expired-grace listings', () => {
+            const listings = [
+                createListing('ok'),
+                createListing('archived', {isArchived: true}),
+                createListing('facebook', {
+                    source: {platform: 'facebook.com', url: 'https://www.facebook.com/marketplace/item/1', listingId: '1', countryCode: 'PL'},
+                }),
+                createListing('recent', {lastSeenAt: '2025-01-15T11:45:00.000Z'}),
+                createListing('ended-old', {status: ListingStatus.ENDED, statusChangedAt: '2025-01-01T00:00:00.000Z'}),
+                createListing('ended-new', {status: ListingStatus.ENDED, statusChangedAt: '2025-01-14T00:00:00.000Z'}),
+            ];
+
+            const result = selectListingsForServerRefresh(listings, createSettings(), NOW);
+
+            expect(result.map((listing) => listing.id)).toEqual(['ok', 'ended-new']);
+        });
+
+        it('should use endedListingGracePeriodDays from settings', () => {
+            const listings = [
+                createListing('ended', {status: ListingStatus.ENDED, statusChangedAt: '2025-01-05T00:00:00.000Z'}),
+            ];
+
+            expect(selectListingsForServerRefresh(listings, createSettings(), NOW)).toHaveLength(0);
+            expect(selectListingsForServerRefresh(listings, createSettings({endedListingGracePeriodDays: 30}), NOW)).toHaveLength(1);
+        });
+
+        it('should put never refreshed listings first', () => {
+            const listings = [
+                createListing('refreshed'),
+                createListing('new', {lastRefreshStatus: undefined}),
+            ];
+
+            const result = selectListingsForServerRefresh(listings, createSettings(), NOW);
+
+            expect(result.map((listing) => listing.id)).toEqual(['new', 'refreshed']);
+        });
+    });
+
+    describe('extractRefreshResult', () => {
+        const url = 'https://www.otomoto.pl/osobowe/oferta/a.html';
+
+        it('should read price and availability from JSON-LD', () => {
+            expect(extractRefreshResult(url, otomotoPage())).toEqual({
+                price: 44900,
+                currency: 'PLN',
+                status: ListingStatus.ACTIVE,
+            });
+        });
+
+        it('should mark sold offers as ENDED', () => {
+            expect(extractRefreshResult(url, otomotoPage('https://schema.org/SoldOut'))?.status)
+                .toBe(ListingStatus.ENDED);
+        });
+
+        it('should prefer the __NEXT_DATA__ advert price', () => {
+            const html = otomotoPage() + '<script id="__NEXT_DATA__" type="application/json">'
+                + JSON.stringify({props: {pageProps: {advert: {price: {value: '43 500', currency: 'PLN'}}}}})
+                + '</script>';
+
+            expect(extractRefreshResult(url, html)?.price).toBe(43500);
+        });
+
+        it('should return null when availability is missing', () => {
+            const html = '<script id="__NEXT_DATA__" type="application/json">'
+                + JSON.stringify({props: {pageProps: {advert: {price: {value: '43 500', currency: 'PLN'}}}}})
+                + '</script>';
+
+            expect(extractRefreshResult(url, html)).toBeNull();
+        });
+
+        it('should return null for marketplaces without an extractor', () => {
+            expect(extractRefreshResult('https://autoplac.pl/oferta/1', otomotoPage())).toBeNull();
+        });
+    });
+
+    describe('refreshListing', () => {
+        it('should append a server price point and update the price', async () => {
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true, isSold: false});
+
+            const result = await refreshListing(createListing('a', {lastRefreshError: 'old'}), 'user-123', 'test-key');
+
+            expect(result.success).toBe(true);
+            expect(result.listing.currentPrice).toBe(45000);
+            expect(result.listing.priceHistory).toHaveLength(2);
+            expect(result.listing.priceHistory[1]).toMatchObject({price: 45000, currency: 'PLN', source: 'server'});
+            expect(result.listing.lastRefreshSource).toBe('server');
+            expect(result.listing).not.toHaveProperty('lastRefreshError');
+            expect(mockAddGeminiHistoryEntry).toHaveBeenCalledWith(
+                expect.objectContaining({status: 'success'}),
+                'user-123',
+            );
+            const [userId, updateStats] = mockUpdateUserSettings.mock.calls[0] as [string, (settings: UserSettings) => unknown];
+            expect(userId).toBe('user-123');
+            expect(updateStats(createSettings())).toEqual({
+                geminiStats: {
+                    allTimeTotalCalls: 1,
+                    totalCalls: 1,
+                    successCount: 1,
+                    errorCount: 0,
+                    dailyUsage: {
+                        [new Date().toISOString().slice(0, 10)]: {calls: 1, promptTokens: 0, responseTokens: 0, costUsd: 0},
+                    },
+                },
+            });
+        });
+
+        it('should keep a currency corrected by the user', async () => {
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'EUR', isAvailable: true});
+            const listing = createListing('a', {
+                fieldOverrides: {currency: {value: 'PLN', originalValue: 'EUR', editedAt: '2025-01-10T00:00:00.000Z'}},
+            });
+
+            const result = await refreshListing(listing, 'user-123', 'test-key');
+
+            expect(result.listing.currency).toBe('PLN');
+            expect(result.listing.priceHistory[1]).toMatchObject({price: 45000, currency: 'PLN'});
+            expect(result.listing.fieldOverrides).toEqual(listing.fieldOverrides);
+        });
+
+        it('should mark sold listings as ENDED with statusChangedAt', async () => {
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: false, isSold: true});
+
+            const result = await refreshListing(createListing('a'), 'user-123', 'test-key');
+
+            expect(result.listing.status).toBe(ListingStatus.ENDED);
+            expect(result.listing.statusChangedAt).not.toBeNull();
+        });
+
+        it('should not record price points for already ENDED listings', async () => {
+            mockPage(200);
+            mockGeminiResponse({price: 40000, currency: 'PLN', isAvailable: false});
+            const listing = createListing('a', {status: ListingStatus.ENDED, statusChangedAt: '2025-01-14T00:00:00.000Z'});
+
+            const result = await refreshListing(listing, 'user-123', 'test-key');
+
+            expect(result.listing.priceHistory).toHaveLength(1);
+            expect(result.listing.currentPrice).toBe(50000);
+        });
+
+        it('should refresh from the page markup without calling Gemini', async () => {
+            mockPage(200, otomotoPage());
+
+            const result = await refreshListing(createListing('a'), 'user-123', 'test-key');
+
+            expect(result.success).toBe(true);
+            expect(result.listing.currentPrice).toBe(44900);
+            expect(result.listing.priceHistory[1]).toMatchObject({price: 44900, currency: 'PLN', source: 'server'});
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+            expect(mockAddGeminiHistoryEntry).not.toHaveBeenCalled();
+        });
+
+        it('should store the content fingerprint of the analyzed page', async () => {
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true});
+
+            const result = await refreshListing(createListing('a'), 'user-123', 'test-key');
+
+            expect(result.contentUnchanged).toBeUndefined();
+            expect(result.listing.contentFingerprint).toBe(
+                computeContentFingerprint(extractPageText('<html><title>Car</title><body>Price 45 000 PLN</body></html>')),
+            );
+        });
+
+        it('should record unchanged pages at the current price without calling Gemini', async () => {
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true});
+            const {listing: analyzed} = await refreshListing(createListing('a'), 'user-123', 'test-key');
+            mockGenerateContent.mockClear();
+
+            const result = await refreshListing({...analyzed, currentPrice: 47000}, 'user-123', 'test-key');
+
+            expect(result.success).toBe(true);
+            expect(result.contentUnchanged).toBe(true);
+            expect(result.listing.currentPrice).toBe(47000);
+            expect(result.listing.priceHistory).toHaveLength(analyzed.priceHistory.length + 1);
+            expect(result.listing.priceHistory.at(-1)).toMatchObject({price: 47000, currency: 'PLN', source: 'server'});
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+        });
+
+        it('should mark 404 pages as ENDED without calling Gemini', async () => {
+            mockPage(404);
+
+            const result = await refreshListing(createListing('a'), 'user-123', 'test-key');
+
+            expect(result.success).toBe(true);
+            expect(result.listing.status).toBe(ListingStatus.ENDED);
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+        });
+
+        it('should mark OLX "no longer available" pages as ENDED without calling Gemini', async () => {
+            mockPage(
+                200,
+                '<html><title>OLX</title><body>To ogłoszenie nie jest już dostępne</body></html>',
+                'https://www.olx.pl/motoryzacja/samochody/?reason=observed_inactive',
+            );
+            const listing = createListing('a', {
+                source: {
+                    platform: 'www.olx.pl',
+                    url: 'https://www.olx.pl/d/oferta/bmw-seria-3-CID5-IDZx8Kq.html',
+                    listingId: 'a',
+                    countryCode: 'PL',
+                },
+            });
+
+            const result = await refreshListing(listing, 'user-123', 'test-key');
+
+            expect(result.listing.status).toBe(ListingStatus.ENDED);
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+        });
+
+        it('should report HTTP errors', async () => {
+            mockPage(503);
+
+            const result = await refreshListing(createListing('a'), 'user-123', 'test-key');
+
+            expect(result.success).toBe(false);
+            expect(result.listing.lastRefreshStatus).toBe('error');
+            expect(result.listing.lastRefreshError).toBe('HTTP 503');
+        });
+
+        it('should flag rate limit errors', async () => {
+            mockPage(200);
+            mockGenerateContent.mockRejectedValue(new Error('429 Resource exhausted'));
+
+            const result = await refreshListing(createListing('a'), 'user-123', 'test-key');
+
+            expect(result.success).toBe(false);
+            expect(result.rateLimited).toBe(true);
+            expect(mockAddGeminiHistoryEntry).toHaveBeenCalledWith(
+                expect.objectContaining({status: 'error'}),
+                'user-123',
+            );
+        });
+    });
+
+    describe('refreshUserListings', () => {
+        const asDocument = (listing: CarListing): ListingDocument => ({...listing, userId: 'user-123', docId: listing.id});
+
+        it('should refresh eligible listings and record the run', async () => {
+            jest.useFakeTimers({now: NOW});
+            const listings = [asDocument(createListing('a')), asDocument(createListing('b'))];
+            mockGetListingsByUserId.mockResolvedValue(listings);
+            mockGetListingById.mockImplementation(async (id: string) => listings.find((listing) => listing.id === id));
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true});
+
+            const run = refreshUserListings(createSettings(), NOW);
+            await jest.runAllTimersAsync();
+
+            expect(await run).toBe(2);
+            expect(mockSaveListing).toHaveBeenCalledTimes(2);
+            const [savedListing, savedUserId, expectedRevision] = mockSaveListing.mock.calls[0] as [CarListing, string, number];
+            expect(savedUserId).toBe('user-123');
+            expect(expectedRevision).toBe(0);
+            expect(savedListing).not.toHaveProperty('userId');
+            expect(savedListing).not.toHaveProperty('docId');
+            expect(mockSaveUserSettings).toHaveBeenLastCalledWith('user-123', {
+                lastServerRefreshTime: NOW.toISOString(),
+                lastServerRefreshCount: 2,
+            });
+        });
+
+        it('should use the Gemini model from the user settings', async () => {
+            const listings = [asDocument(createListing('a'))];
+            mockGetListingsByUserId.mockResolvedValue(listings);
+            mockGetListingById.mockResolvedValue(listings[0]);
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true});
+
+            await refreshUserListings(createSettings({llmModel: 'gemini-2.5-pro'}), NOW);
+            expect(mockGenerateContent).toHaveBeenLastCalledWith(expect.objectContaining({model: 'gemini-2.5-pro'}));
+            expect(mockAddGeminiHistoryEntry).toHaveBeenLastCalledWith(
+                expect.objectContaining({provider: 'gemini', model: 'gemini-2.5-pro'}),
+                'user-123',
+            );
+
+            // A model for another provider cannot run on Gemini
+            await refreshUserListings(createSettings({llmProvider: 'openai-compatible', llmModel: 'llama3.1'}), NOW);
+            expect(mockGenerateContent).toHaveBeenLastCalledWith(expect.objectContaining({model: 'gemini-2.5-flash'}));
+        });
+
+        it('should count Gemini calls saved on unchanged pages', async () => {
+            mockPage(200);
+            const fingerprint = computeContentFingerprint(
+                extractPageText('<html><title>Car</title><body>Price 45 000 PLN</body></html>'),
+            );
+            const listings = [asDocument(createListing('a', {contentFingerprint: fingerprint}))];
+            mockGetListingsByUserId.mockResolvedValue(listings);
+            mockGetListingById.mockResolvedValue(listings[0]);
+
+            expect(await refreshUserListings(createSettings(), NOW)).toBe(1);
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+            const [userId, updateStats] = mockUpdateUserSettings.mock.lastCall as [string, (settings: UserSettings) => unknown];
+            expect(userId).toBe('user-123');
+            expect(updateStats(createSettings({
+                geminiStats: {allTimeTotalCalls: 4, totalCalls: 4, successCount: 4, errorCount: 0, savedCalls: 2},
+            }))).toEqual({
+                geminiStats: {allTimeTotalCalls: 4, totalCalls: 4, successCount: 4, errorCount: 0, savedCalls: 3},
+            });
+        });
+
+        it('should stop when the monthly budget is reached during the run', async () => {
+            const listings = [asDocument(createListing('a')), asDocument(createListing('b'))];
+            mockGetListingsByUserId.mockResolvedValue(listings);
+            mockGetListingById.mockImplementation(async (id: string) => listings.find((listing) => listing.id === id));
+            mockGetUserSettings.mockResolvedValue(createSettings({
+                geminiStats: {
+                    allTimeTotalCalls: 1, totalCalls: 1, successCount: 1, errorCount: 0,
+                    dailyUsage: {'2025-01-15': {calls: 1, promptTokens: 4000, responseTokens: 200, costUsd: 1}},
+                },
+            }));
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true});
+
+            expect(await refreshUserListings(createSettings({monthlyBudgetUsd: 1}), NOW)).toBe(1);
+            expect(mockSaveListing).toHaveBeenCalledTimes(1);
+        });
+
+        it('should skip listings deleted during the run', async () => {
+            mockGetListingsByUserId.mockResolvedValue([asDocument(createListing('a'))]);
+            mockGetListingById.mockResolvedValue(null);
+
+            expect(await refreshUserListings(createSettings(), NOW)).toBe(0);
+            expect(mockSaveListing).not.toHaveBeenCalled();
+        });
+
+        it('should not overwrite a listing edited during the run', async () => {
+            const listing = asDocument(createListing('a', {revision: 3}));
+            mockGetListingsByUserId.mockResolvedValue([listing]);
+            mockGetListingById.mockResolvedValue(listing);
+            mockSaveListing.mockRejectedValue(new MockListingConflictError('Listing revision conflict: a'));
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true});
+
+            expect(await refreshUserListings(createSettings(), NOW)).toBe(0);
+            expect(mockSaveListing).toHaveBeenCalledWith(expect.objectContaining({id: 'a'}), 'user-123', 3);
+            expect(mockSaveUserSettings).toHaveBeenLastCalledWith('user-123', {
+                lastServerRefreshTime: NOW.toISOString(),
+                lastServerRefreshCount: 0,
+            });
+        });
+
+        it('should not recreate a listing deleted while it was being fetched', async () => {
+            jest.useFakeTimers({now: NOW});
+            const listings = [asDocument(createListing('a', {revision: 1})), asDocument(createListing('b', {revision: 1}))];
+            mockGetListingsByUserId.mockResolvedValue(listings);
+            mockGetListingById.mockImplementation(async (id: string) => listings.find((listing) => listing.id === id));
+            mockSaveListing.mockRejectedValueOnce(new MockListingConflictError('Listing revision conflict: a'));
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true});
+
+            const run = refreshUserListings(createSettings(), NOW);
+            await jest.runAllTimersAsync();
+
+            // The conflict only skips the deleted listing
+            expect(await run).toBe(1);
+            expect(mockSaveListing).toHaveBeenCalledTimes(2);
+        });
+
+        it('should fail the run on other save errors', async () => {
+            mockGetListingsByUserId.mockResolvedValue([asDocument(createListing('a'))]);
+            mockGetListingById.mockResolvedValue(asDocument(createListing('a')));
+            mockSaveListing.mockRejectedValue(new Error('database unavailable'));
+            mockPage(200);
+            mockGeminiResponse({price: 45000, currency: 'PLN', isAvailable: true});
+
+            await expect(refreshUserListings(createSettings(), NOW)).rejects.toThrow('database unavailable');
+        });
+
+        it('should stop after a rate limit error', async () => {
+            const listings = [asDocument(createListing('a')), asDocument(createListing('b'))];
+            mockGetListingsByUserId.mockResolvedValue(listings);
+            mockGetListingById.mockImplementation(async (id: string) => listings.find((listing) => listing.id === id));
+            mockPage(200);
+            mockGenerateContent.mockRejectedValue(new Error('Quota exceeded'));
+
+            expect(await refreshUserListings(createSettings(), NOW)).toBe(0);
+            expect(mockSaveListing).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('runServerRefresh', () => {
+        it('should only refresh users who are due', async () => {
+            mockGetServerRefreshSettings.mockResolvedValue([
+                createSettings({userId: 'due'}),
+                createSettings({userId: 'not-due', lastServerRefreshTime: NOW.toISOString()}),
+            ]);
+            mockGetListingsByUserId.mockResolvedValue([]);
+
+            await runServerRefresh(NOW);
+
+            expect(mockGetListingsByUserId).toHaveBeenCalledTimes(1);
+            expect(mockGetListingsByUserId).toHaveBeenCalledWith('due');
+        });
+
+        it('should continue with other users when one fails', async () => {
+            mockGetServerRefreshSettings.mockResolvedValue([
+                createSettings({userId: 'broken'}),
+                createSettings({userId: 'healthy'}),
+            ]);
+            mockGetListingsByUserId
+                .mockRejectedValueOnce(new Error('Database error'))
+                .mockResolvedValueOnce([]);
+
+            await runServerRefresh(NOW);
+
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('healthy', expect.objectContaining({
+                lastServerRefreshCount: 0,
+            }));
+        });
+    });
+});
@@ -13,11 +13,20 @@ const mockUpsertUser = jest.fn<any>();
 const mockGetListingsByUserId = jest.fn<any>();
 const mockGetListingById = jest.fn<any>();
 const mockSaveAllListings = jest.fn<any>();
+const mockSaveListings = jest.fn<any>();
 const mockSaveListing = jest.fn<any>();
 const mockDeleteListing = jest.fn<any>();
-const mockCheckFirestoreHealth = jest.fn<any>();
+const mockGetListingChanges = jest.fn<any>();
+const mockQueryListings = jest.fn<any>();
+const mockGetSavedSearchesByUserId = jest.fn<any>();
+const mockSaveSavedSearch = jest.fn<any>();
+const mockDeleteSavedSearch = jest.fn<any>();
+const mockRecordSavedSearchCheck = jest.fn<any>();
+const mockDismissSavedSearchMatch = jest.fn<any>();
+const mockCheckDatabaseHealth = jest.fn<any>();
 const mockGetUserSettings = jest.fn<any>();
 const mockSaveUserSettings = jest.fn<any>();
+const mockUpdateUserSettings = jest.fn<any>();
 const mockGetGeminiHistory = jest.fn<any>();
 const mockAddGeminiHistoryEntries = jest.fn<any>();
 const mockClearGeminiHistory = jest.fn<any>();
@@ -27,6 +36,9 @@ const mockIsTokenBlacklisted = jest.fn<any>();
 const mockVerifyGoogleToken = jest.fn<any>();
 const mockVerifyGoogleAccessToken = jest.fn<any>();
 const mockGenerateJwt = jest.fn<any>();
+const mockGetGeminiApiKey = jest.fn<any>();
+const mockAddGeminiHistoryEntry = jest.fn<any>();
+const mockGenerateContent = jest.fn<any>();
 
 // Mock storage module
 const mockCheckStorageHealth = jest.fn<any>();
@@ -35,18 +47,37 @@ const mockDownloadImageFromUrl = jest.fn<any>();
 const mockGetImageMetadata = jest.fn<any>();
 const mockScheduleImageDeletion = jest.fn<any>();
 
+// Stand-in for the real error class, which lives in the mocked db module
+class MockListingConflictError extends Error {
+    constructor(readonly conflicts: Array<{ id: string; current: unknown }>) {
+        super('Listing revision conflict');
+    }
+}
+
 // Mock db module
 jest.unstable_mockModule('../db.js', () => ({
+    ListingConflictError: MockListingConflictError,
+    getListingChanges: mockGetListingChanges,
+    queryListings: mockQueryListings,
     upsertUser: mockUpsertUser,
     getListingsByUserId: mockGetListingsByUserId,
     getListingById: mockGetListingById,
     saveAllListings: mockSaveAllListings,
+    saveListings: mockSaveListings,
     saveListing: mockSaveListing,
     deleteListing: mockDeleteListing,
-    checkFirestoreHealth: mockCheckFirestoreHealth,
+    getSavedSearchesByUserId: mockGetSavedSearchesByUserId,
+    saveSavedSearch: mockSaveSavedSearch,
+    deleteSavedSearch: mockDeleteSavedSearch,
+    recordSavedSearchCheck: mockRecordSavedSearchCheck,
+    dismissSavedSearchMatch: mockDismissSavedSearchMatch,
+    checkDatabaseHealth: mockCheckDatabaseHealth,
     getUserSettings: mockGetUserSettings,
     saveUserSettings: mockSaveUserSettings,
+    updateUserSettings: mockUpdateUserSettings,
+    getGeminiApiKey: mockGetGeminiApiKey,
     getGeminiHistory: mockGetGeminiHistory,
+    addGeminiHistoryEntry: mockAddGeminiHistoryEntry,
     addGeminiHistoryEntries: mockAddGeminiHistoryEntries,
     clearGeminiHistory: mockClearGeminiHistory,
     blacklistToken: mockBlacklistToken,
@@ -79,6 +110,17 @@ jest.unstable_mockModule('../storage.js', () => ({
     scheduleImageDeletion: mockScheduleImageDeletion,
 }));
 
+// Mock Gemini SDK used by the AI proxy endpoints
+jest.unstable_mockModule('@google/genai', () => ({
+    GoogleGenAI: jest.fn().mockImplementation(() => ({
+        models: {generateContent: mockGenerateContent},
+    })),
+    Type: {OBJECT: 'OBJECT', NUMBER: 'NUMBER', STRING: 'STRING', BOOLEAN: 'BOOLEAN'},
+}));
+
+// Read by config when the settings routes load
+process.env.SETTINGS_ENCRYPTION_KEY = 'test-settings-key';
+
 // Import routes after mocking
 const routesModule = await import('../routes.js');
 const routes = routesModule.default;
@@ -102,7 +144,7 @@ function createApp(): Express {
 
 // Helper to make requests (simple implementation without supertest for ESM compatibility)
 async function testRequest(app: Express, method: string, path: string, body?: any, headers?: Record<string, string>) {
-    return new Promise<{ status: number; body: any }>((resolve) => {
+    return new Promise<{ status: number; body: any; headers: Record<string, string> }>((resolve) => {
         const mockReq: any = {
             method,
             url: path,
@@ -133,25 +175,30 @@ async function testRequest(app: Express, method: string, path: string, body?: an
         const mockRes: any = {
             statusCode: 200,
             _body: null,
+            headers: {} as Record<string, string>,
+            setHeader: function (name: string, value: string) {
+                this.headers[name.toLowerCase()] = value;
+                return this;
+            },
             status: function (code: number) {
                 this.statusCode = code;
                 return this;
             },
             json: function (data: any) {
                 this._body = data;
-                resolve({status: this.statusCode, body: data});
+                resolve({status: this.statusCode, body: data, headers: this.headers});
                 return this;
             },
             send: function (data: any) {
                 this._body = data;
-                resolve({status: this.statusCode, body: data});
+                resolve({status: this.statusCode, body: data, headers: this.headers});
                 return this;
             },
         };
 
         // Run through express
         app(mockReq, mockRes, () => {
-            resolve({status: mockRes.statusCode, body: mockRes._body});
+            resolve({status: mockRes.statusCode, body: mockRes._body, headers: mockRes.headers});
         });
     });
 }
@@ -171,8 +218,8 @@ describe('API Routes', () => {
     // Health Check
     // ==========================================================================
     describe('Health Check Endpoint', () => {
-        it('should return healthy status when Firestore is connected', async () => {
-            mockCheckFirestoreHealth.mockResolvedValue(true);
+        it('should return healthy status when the database is connected', async () => {
+            mockCheckDatabaseHealth.mockResolvedValue(true);
             mockCleanupExpiredBlacklistedTokens.mockResolvedValue(0);
 
             const response = await testRequest(app, 'GET', '/api/healthz');
@@ -183,8 +230,8 @@ describe('API Routes', () => {
             expect(response.body.timestamp).toBeDefined();
         });
 
-        it('should return unhealthy status when Firestore is disconnected', async () => {
-            mockCheckFirestoreHealth.mockResolvedValue(false);
+        it('should return unhealthy status when the database is disconnected', async () => {
+            mockCheckDatabaseHealth.mockResolvedValue(false);
             mockCleanupExpiredBlacklistedTokens.mockResolvedValue(0);
 
             const response = await testRequest(app, 'GET', '/api/healthz');
@@ -322,6 +369,181 @@ describe('API Routes', () => {
             expect(response.status).toBe(200);
             expect(response.body).toEqual([]);
         });
+
+        it('should return listing changes and tombstones when since is set', async () => {
+            mockGetListingChanges.mockResolvedValue({
+                listings: [{id: 'listing-1', title: 'BMW 320d', revision: 4, userId: 'test-user-id', docId: 'listing-1'}],
+                tombstones: [{id: 'listing-2', userId: 'test-user-id', revision: 2, deletedAt: '2024-06-02T10:00:00.000Z'}],
+                serverTime: '2024-06-03T10:00:00.000Z',
+            });
+
+            const response = await testRequest(app, 'GET', '/api/listings?since=2024-06-01T10:00:00.000Z', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockGetListingChanges).toHaveBeenCalledWith('test-user-id', '2024-06-01T10:00:00.000Z');
+            expect(response.body).toEqual({
+                listings: [{id: 'listing-1', title: 'BMW 320d', revision: 4}],
+                deleted: [{id: 'listing-2', deletedAt: '2024-06-02T10:00:00.000Z'}],
+                serverTime: '2024-06-03T10:00:00.000Z',
+            });
+            expect(mockGetListingsByUserId).not.toHaveBeenCalled();
+        });
+
+        it('should return 400 for an invalid since value', async () => {
+            const response = await testRequest(app, 'GET', '/api/listings?since=yesterday', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockGetListingChanges).not.toHaveBeenCalled();
+        });
+
+        it('should return a filtered page when page parameters are set', async () => {
+            mockQueryListings.mockResolvedValue({
+                listings: [{id: 'listing-1', title: 'BMW 320d', userId: 'test-user-id', docId: 'listing-1'}],
+                nextCursor: 'next-page',
+            });
+
+            const response = await testRequest(
+                app,
+                'GET',
+                '/api/listings?status=ACTIVE&makes=BMW,Audi&minPrice=10000&maxYear=2020&sort=price-asc&limit=20',
+                undefined,
+                {authorization: 'Bearer test-token'},
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({listings: [{id: 'listing-1', title: 'BMW 320d'}], nextCursor: 'next-page'});
+            expect(mockQueryListings).toHaveBeenCalledWith('test-user-id', expect.objectContaining({
+                status: 'ACTIVE',
+                makes: ['BMW', 'Audi'],
+                price: {min: 10000, max: null},
+                year: {min: null, max: 2020},
+                sort: 'price-asc',
+                limit: 20,
+                cursor: null,
+            }));
+            expect(mockGetListingsByUserId).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            ['sort=cheapest', 'sort must be one of'],
+            ['limit=0', 'limit must be an integer'],
+            ['minMileage=-5', 'minMileage must be a non-negative number'],
+            ['minPrice=5000&maxPrice=1000', 'minPrice must not be greater than maxPrice'],
+            ['cursor=not-a-cursor', 'cursor is invalid'],
+            ['since=2024-06-01T10:00:00.000Z&limit=10', 'since cannot be combined'],
+        ])('should return 400 for %s', async (query, message) => {
+            const response = await testRequest(app, 'GET', `/api/listings?${query}`, undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(response.body.message).toContain(message);
+            expect(mockQueryListings).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Export Listings', () => {
+        const exportListings = [
+            {
+                id: 'listing-1',
+                title: 'BMW 320d',
+                status: 'ACTIVE',
+                currentPrice: 50000,
+                currency: 'PLN',
+                priceHistory: [],
+                source: {platform: 'otomoto.pl', url: 'https://www.otomoto.pl/1', listingId: '1', countryCode: 'PL'},
+                vehicle: {make: 'BMW', model: '320d', mileage: {value: 80000, unit: 'km'}},
+                userId: 'test-user-id',
+            },
+            {
+                id: 'listing-2',
+                title: 'Audi A4',
+                status: 'ENDED',
+                currentPrice: 40000,
+                currency: 'PLN',
+                priceHistory: [],
+                source: {platform: 'otomoto.pl', url: 'https://www.otomoto.pl/2', listingId: '2', countryCode: 'PL'},
+                vehicle: {make: 'Audi', model: 'A4', mileage: {value: 120000, unit: 'km'}},
+                userId: 'test-user-id',
+            },
+        ];
+
+        it('should export filtered listings as CSV', async () => {
+            mockGetListingsByUserId.mockResolvedValue(exportListings);
+
+            const response = await testRequest(app, 'GET', '/api/listings/export?format=csv&status=ACTIVE', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+            expect(response.headers['content-disposition']).toMatch(/^attachment; filename="motorscope-listings-.*\.csv"$/);
+            const lines = (response.body as string).trim().split('\r\n');
+            expect(lines).toHaveLength(2);
+            expect(lines[1]).toContain('BMW 320d');
+            expect(response.body).not.toContain('userId');
+        });
+
+        it('should export JSON listings filtered by make', async () => {
+            mockGetListingsByUserId.mockResolvedValue(exportListings);
+
+            const response = await testRequest(app, 'GET', '/api/listings/export?format=json&makes=Audi', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            const {userId: _userId, ...listing} = exportListings[1];
+            expect(JSON.parse(response.body)).toEqual([listing]);
+        });
+
+        it('should export listings filtered by marketplace', async () => {
+            mockGetListingsByUserId.mockResolvedValue([
+                ...exportListings,
+                {...exportListings[0], id: 'listing-3', source: {...exportListings[0].source, platform: 'olx.pl'}},
+            ]);
+
+            const response = await testRequest(app, 'GET', '/api/listings/export?format=csv&sources=olx.pl', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            const lines = (response.body as string).trim().split('\r\n');
+            expect(lines).toHaveLength(2);
+            expect(lines[1]).toMatch(/^listing-3,/);
+        });
+
+        it('should export an XLSX workbook', async () => {
+            mockGetListingsByUserId.mockResolvedValue(exportListings);
+
+            const response = await testRequest(app, 'GET', '/api/listings/export?format=xlsx&prices=history', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+            expect(Buffer.isBuffer(response.body)).toBe(true);
+        });
+
+        it('should reject unknown formats', async () => {
+            const response = await testRequest(app, 'GET', '/api/listings/export?format=pdf', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockGetListingsByUserId).not.toHaveBeenCalled();
+        });
+
+        it('should reject unknown price modes', async () => {
+            const response = await testRequest(app, 'GET', '/api/listings/export?format=csv&prices=all', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+        });
     });
 
     describe('Get Listing By ID', () => {
@@ -343,6 +565,16 @@ describe('API Routes', () => {
             expect(response.body.userId).toBeUndefined();
         });
 
+        it('should return the revision as ETag', async () => {
+            mockGetListingById.mockResolvedValue({id: 'listing-1', revision: 3, userId: 'test-user-id'});
+
+            const response = await testRequest(app, 'GET', '/api/listings/listing-1', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.headers.etag).toBe('"3"');
+        });
+
         it('should return 404 for non-existent listing', async () => {
             mockGetListingById.mockResolvedValue(null);
 
@@ -386,6 +618,59 @@ describe('API Routes', () => {
 
             expect(response.status).toBe(400);
         });
+
+        it('should return 409 with the stored listings on revision conflict', async () => {
+            mockSaveAllListings.mockRejectedValue(new MockListingConflictError([
+                {id: 'listing-1', current: {id: 'listing-1', revision: 5, userId: 'test-user-id', docId: 'listing-1'}},
+            ]));
+
+            const response = await testRequest(app, 'PUT', '/api/listings', [{id: 'listing-1', revision: 4}], {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(409);
+            expect(response.body.conflicts).toEqual([{id: 'listing-1', current: {id: 'listing-1', revision: 5}}]);
+        });
+    });
+
+    describe('Save Listings', () => {
+        it('should save the listings without replacing the others', async () => {
+            const listings = [{id: 'listing-1', revision: 2}, {id: 'listing-2'}];
+            mockSaveListings.mockResolvedValue(listings);
+
+            const response = await testRequest(app, 'PATCH', '/api/listings', listings, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body.count).toBe(2);
+            expect(mockSaveListings).toHaveBeenCalledWith(listings, 'test-user-id');
+            expect(mockSaveAllListings).not.toHaveBeenCalled();
+        });
+
+        it('should return 400 for invalid revisions and repeated listings', async () => {
+            for (const body of [[{id: 'listing-1', revision: 'x'}], [{id: 'listing-1'}, {id: 'listing-1'}]]) {
+                const response = await testRequest(app, 'PATCH', '/api/listings', body, {
+                    authorization: 'Bearer test-token',
+                });
+
+                expect(response.status).toBe(400);
+            }
+            expect(mockSaveListings).not.toHaveBeenCalled();
+        });
+
+        it('should return 409 with the stored listings on revision conflict', async () => {
+            mockSaveListings.mockRejectedValue(new MockListingConflictError([
+                {id: 'listing-1', current: {id: 'listing-1', revision: 1, userId: 'test-user-id', docId: 'listing-1'}},
+            ]));
+
+            const response = await testRequest(app, 'PATCH', '/api/listings', [{id: 'listing-1'}], {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(409);
+            expect(response.body.conflicts).toEqual([{id: 'listing-1', current: {id: 'listing-1', revision: 1}}]);
+        });
     });
 
     describe('Create Listing', () => {
@@ -403,6 +688,54 @@ describe('API Routes', () => {
             expect(response.body.userId).toBeUndefined();
         });
 
+        it('should pass the If-Match revision and return the new one as ETag', async () => {
+            mockSaveListing.mockResolvedValue({id: 'listing-1', revision: 4, userId: 'test-user-id'});
+
+            const response = await testRequest(app, 'POST', '/api/listings', {id: 'listing-1'}, {
+                authorization: 'Bearer test-token',
+                'if-match': '"3"',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockSaveListing).toHaveBeenCalledWith({id: 'listing-1'}, 'test-user-id', 3);
+            expect(response.headers.etag).toBe('"4"');
+        });
+
+        it('should save unconditionally without If-Match', async () => {
+            mockSaveListing.mockResolvedValue({id: 'listing-1', revision: 1, userId: 'test-user-id'});
+
+            await testRequest(app, 'POST', '/api/listings', {id: 'listing-1'}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(mockSaveListing).toHaveBeenCalledWith({id: 'listing-1'}, 'test-user-id', undefined);
+        });
+
+        it('should return 400 for a malformed If-Match header', async () => {
+            const response = await testRequest(app, 'POST', '/api/listings', {id: 'listing-1'}, {
+                authorization: 'Bearer test-token',
+                'if-match': 'abc',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockSaveListing).not.toHaveBeenCalled();
+        });
+
+        it('should return 409 with the stored listing on revision conflict', async () => {
+            mockSaveListing.mockRejectedValue(new MockListingConflictError([
+                {id: 'listing-1', current: {id: 'listing-1', revision: 5, userId: 'test-user-id'}},
+            ]));
+
+            const response = await testRequest(app, 'POST', '/api/listings', {id: 'listing-1'}, {
+                authorization: 'Bearer test-token',
+                'if-match': '"3"',
+            });
+
+            expect(response.status).toBe(409);
+            expect(response.body.error).toBe('Conflict');
+            expect(response.body.conflicts).toEqual([{id: 'listing-1', current: {id: 'listing-1', revision: 5}}]);
+        });
+
         it('should return 400 for listing without id', async () => {
             const response = await testRequest(app, 'POST', '/api/listings', {title: 'No ID'}, {
                 authorization: 'Bearer test-token',
@@ -433,6 +766,180 @@ describe('API Routes', () => {
 
             expect(response.status).toBe(404);
         });
+
+        it('should return 409 when the listing changed since the If-Match revision', async () => {
+            mockDeleteListing.mockRejectedValue(new MockListingConflictError([
+                {id: 'listing-1', current: {id: 'listing-1', revision: 5, userId: 'test-user-id'}},
+            ]));
+
+            const response = await testRequest(app, 'DELETE', '/api/listings/listing-1', undefined, {
+                authorization: 'Bearer test-token',
+                'if-match': '4',
+            });
+
+            expect(response.status).toBe(409);
+            expect(mockDeleteListing).toHaveBeenCalledWith('listing-1', 'test-user-id', 4);
+        });
+    });
+
+    // ==========================================================================
+    // Saved Searches API
+    // ==========================================================================
+
+    describe('Saved Searches', () => {
+        const search = {
+            id: 'search-1',
+            name: 'BMW 3',
+            url: 'https://www.otomoto.pl/osobowe/bmw/seria-3',
+            seenListingIds: ['6100000001'],
+            newMatches: [],
+            createdAt: '2024-01-01T00:00:00.000Z',
+            lastCheckedAt: null,
+        };
+
+        it('should return saved searches without internal fields', async () => {
+            mockGetSavedSearchesByUserId.mockResolvedValue([{...search, userId: 'test-user-id'}]);
+
+            const response = await testRequest(app, 'GET', '/api/searches', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual([search]);
+            expect(mockGetSavedSearchesByUserId).toHaveBeenCalledWith('test-user-id');
+        });
+
+        it('should save a saved search', async () => {
+            mockSaveSavedSearch.mockResolvedValue({...search, userId: 'test-user-id'});
+
+            const response = await testRequest(app, 'POST', '/api/searches', search, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body.userId).toBeUndefined();
+            expect(mockSaveSavedSearch).toHaveBeenCalledWith(search, 'test-user-id');
+        });
+
+        it('should return 400 for a search without a valid url', async () => {
+            const response = await testRequest(app, 'POST', '/api/searches', {...search, url: 'javascript:alert(1)'}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockSaveSavedSearch).not.toHaveBeenCalled();
+        });
+
+        it('should return 400 for a search without seen IDs', async () => {
+            const {seenListingIds: _seen, ...incomplete} = search;
+
+            const response = await testRequest(app, 'POST', '/api/searches', incomplete, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('should return 404 when the search ID belongs to another user', async () => {
+            mockSaveSavedSearch.mockResolvedValue(null);
+
+            const response = await testRequest(app, 'POST', '/api/searches', search, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(404);
+        });
+
+        it('should return 400 for a search with too many seen IDs', async () => {
+            const seenListingIds = Array.from({length: 2001}, (_, i) => `id-${i}`);
+
+            const response = await testRequest(app, 'POST', '/api/searches', {...search, seenListingIds}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockSaveSavedSearch).not.toHaveBeenCalled();
+        });
+
+        it('should record a check of a saved search', async () => {
+            const check = {
+                seenListingIds: ['6100000002'],
+                newMatches: [{
+                    id: '6100000002',
+                    url: 'https://www.otomoto.pl/osobowe/oferta/bmw-ID2.html',
+                    title: 'BMW 320d',
+                    discoveredAt: '2024-01-02T00:00:00.000Z',
+                }],
+                checkedAt: '2024-01-02T00:00:00.000Z',
+            };
+            mockRecordSavedSearchCheck.mockResolvedValue({...search, userId: 'test-user-id'});
+
+            const response = await testRequest(app, 'POST', '/api/searches/search-1/checks', check, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body.userId).toBeUndefined();
+            expect(mockRecordSavedSearchCheck).toHaveBeenCalledWith('search-1', 'test-user-id', check);
+        });
+
+        it('should return 400 for a check with too many matches', async () => {
+            const newMatches = Array.from({length: 101}, (_, i) => ({id: `id-${i}`}));
+
+            const response = await testRequest(app, 'POST', '/api/searches/search-1/checks', {
+                seenListingIds: [],
+                newMatches,
+                checkedAt: '2024-01-02T00:00:00.000Z',
+            }, {authorization: 'Bearer test-token'});
+
+            expect(response.status).toBe(400);
+            expect(mockRecordSavedSearchCheck).not.toHaveBeenCalled();
+        });
+
+        it('should return 404 when recording a check of an unknown search', async () => {
+            mockRecordSavedSearchCheck.mockResolvedValue(null);
+
+            const response = await testRequest(app, 'POST', '/api/searches/unknown/checks', {
+                seenListingIds: [],
+                newMatches: [],
+                checkedAt: '2024-01-02T00:00:00.000Z',
+            }, {authorization: 'Bearer test-token'});
+
+            expect(response.status).toBe(404);
+        });
+
+        it('should dismiss a saved search match', async () => {
+            mockDismissSavedSearchMatch.mockResolvedValue({...search, userId: 'test-user-id'});
+
+            const response = await testRequest(app, 'DELETE', '/api/searches/search-1/matches/6100000002', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual(search);
+            expect(mockDismissSavedSearchMatch).toHaveBeenCalledWith('search-1', '6100000002', 'test-user-id');
+        });
+
+        it('should delete a saved search', async () => {
+            mockDeleteSavedSearch.mockResolvedValue(true);
+
+            const response = await testRequest(app, 'DELETE', '/api/searches/search-1', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockDeleteSavedSearch).toHaveBeenCalledWith('search-1', 'test-user-id');
+        });
+
+        it('should return 404 when deleting an unknown search', async () => {
+            mockDeleteSavedSearch.mockResolvedValue(false);
+
+            const response = await testRequest(app, 'DELETE', '/api/searches/unknown', undefined, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(404);
+        });
     });
 
     // ==========================================================================
@@ -442,7 +949,7 @@ describe('API Routes', () => {
         it('should return user settings', async () => {
             const mockSettings = {
                 userId: 'test-user-id',
-                geminiApiKey: 'api-key',
+                geminiApiKeyEncrypted: 'v1:encrypted',
                 checkFrequencyMinutes: 60,
                 updatedAt: '2024-01-01T00:00:00.000Z',
                 geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
@@ -455,6 +962,10 @@ describe('API Routes', () => {
 
             expect(response.status).toBe(200);
             expect(response.body.checkFrequencyMinutes).toBe(60);
+            expect(response.body.geminiApiKeyConfigured).toBe(true);
+            expect(response.body).not.toHaveProperty('geminiApiKey');
+            expect(response.body).not.toHaveProperty('geminiApiKeyEncrypted');
+            expect(response.body).toMatchObject({llmProvider: 'gemini', llmModel: '', llmBaseUrl: ''});
         });
     });
 
@@ -462,7 +973,7 @@ describe('API Routes', () => {
         it('should update user settings', async () => {
             const updatedSettings = {
                 userId: 'test-user-id',
-                geminiApiKey: 'new-api-key',
+                geminiApiKeyEncrypted: 'v1:encrypted',
                 checkFrequencyMinutes: 120,
                 updatedAt: '2024-01-02T00:00:00.000Z',
                 geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
@@ -476,6 +987,477 @@ describe('API Routes', () => {
             expect(response.status).toBe(200);
             expect(response.body.checkFrequencyMinutes).toBe(120);
         });
+
+        it('should encrypt a new Gemini API key before saving it', async () => {
+            mockSaveUserSettings.mockImplementation(async (_userId: string, update: any) => ({
+                userId: 'test-user-id',
+                checkFrequencyMinutes: 60,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+                ...update,
+            }));
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', {geminiApiKey: ' AIza-secret '}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            const [, update] = mockSaveUserSettings.mock.calls[0] as [string, Record<string, unknown>];
+            expect(update).not.toHaveProperty('geminiApiKey');
+            expect(update.geminiApiKeyEncrypted).toMatch(/^v1:/);
+            const {decryptSecret} = await import('../utils/secrets.js');
+            expect(decryptSecret(update.geminiApiKeyEncrypted as string)).toBe('AIza-secret');
+            expect(response.body.geminiApiKeyConfigured).toBe(true);
+            expect(JSON.stringify(response.body)).not.toContain('AIza-secret');
+        });
+
+        it('should remove the stored Gemini API key when an empty key is sent', async () => {
+            mockSaveUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: '',
+                checkFrequencyMinutes: 60,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+            });
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', {geminiApiKey: ''}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('test-user-id', {geminiApiKeyEncrypted: ''});
+            expect(response.body.geminiApiKeyConfigured).toBe(false);
+        });
+
+        it('should save the LLM provider settings', async () => {
+            const llmSettings = {llmProvider: 'openai-compatible', llmModel: 'llama3.1', llmBaseUrl: 'http://localhost:11434/v1'};
+            mockSaveUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: '',
+                checkFrequencyMinutes: 60,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+                ...llmSettings,
+            });
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', llmSettings, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('test-user-id', llmSettings);
+            expect(response.body).toMatchObject(llmSettings);
+        });
+
+        it('should ignore the proxy-owned quota counter', async () => {
+            mockSaveUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: '',
+                checkFrequencyMinutes: 60,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+            });
+
+            await testRequest(app, 'PATCH', '/api/settings', {geminiQuota: {date: '2024-01-02', used: 0}}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('test-user-id', {});
+        });
+
+        it('should accept serverRefreshEnabled but ignore worker-owned fields', async () => {
+            mockSaveUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: 'v1:encrypted',
+                checkFrequencyMinutes: 60,
+                serverRefreshEnabled: true,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+            });
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', {
+                serverRefreshEnabled: true,
+                lastServerRefreshCount: 99,
+            }, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('test-user-id', {serverRefreshEnabled: true});
+            expect(response.body.serverRefreshEnabled).toBe(true);
+            expect(response.body.lastServerRefreshTime).toBeNull();
+            expect(response.body.lastServerRefreshCount).toBe(0);
+        });
+
+        it('should save the monthly budget', async () => {
+            mockSaveUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: '',
+                checkFrequencyMinutes: 60,
+                monthlyBudgetUsd: 5,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+            });
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', {monthlyBudgetUsd: 5}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('test-user-id', {monthlyBudgetUsd: 5});
+            expect(response.body.monthlyBudgetUsd).toBe(5);
+        });
+
+        it('should save alert rules', async () => {
+            const alertRules = {
+                global: {
+                    priceDropPercent: 5,
+                    priceDropAmount: null,
+                    targetPrice: null,
+                    notifyOnEnded: true,
+                    notifyOnRelisted: false,
+                },
+                listings: {
+                    'listing-1': {
+                        priceDropPercent: null,
+                        priceDropAmount: null,
+                        targetPrice: 40000,
+                        notifyOnEnded: false,
+                        notifyOnRelisted: false,
+                    },
+                },
+            };
+            mockSaveUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: 'v1:encrypted',
+                checkFrequencyMinutes: 60,
+                alertRules,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+            });
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', {alertRules}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('test-user-id', {alertRules});
+            expect(response.body.alertRules).toEqual(alertRules);
+        });
+
+        it('should save custom marketplaces', async () => {
+            const customMarketplaces = [{
+                id: 'custom-cars.example.com',
+                name: 'Example Cars',
+                domains: ['cars.example.com'],
+                offerPagePatterns: ['/offer/'],
+                excludePatterns: ['/search'],
+                neverFetch: false,
+            }];
+            mockSaveUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: 'v1:encrypted',
+                checkFrequencyMinutes: 60,
+                customMarketplaces,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+            });
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', {customMarketplaces}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('test-user-id', {customMarketplaces});
+            expect(response.body.customMarketplaces).toEqual(customMarketplaces);
+        });
+
+        it('should store custom marketplace domains as host names', async () => {
+            const marketplace = {
+                id: 'custom-cars.example.com',
+                name: 'Example Cars',
+                domains: ['https://Cars.Example.com/used', 'cars.example.com'],
+                offerPagePatterns: ['/offer/'],
+                excludePatterns: [],
+                neverFetch: false,
+            };
+            mockSaveUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: '',
+                checkFrequencyMinutes: 60,
+                updatedAt: '2024-01-02T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+            });
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', {customMarketplaces: [marketplace]}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockSaveUserSettings).toHaveBeenCalledWith('test-user-id', {
+                customMarketplaces: [{...marketplace, domains: ['cars.example.com']}],
+            });
+        });
+
+        it('should keep the stored daily usage when the client sends Gemini stats', async () => {
+            const dailyUsage = {'2024-01-01': {calls: 3, promptTokens: 12000, responseTokens: 600, costUsd: 0.5}};
+            const stored = {
+                userId: 'test-user-id',
+                checkFrequencyMinutes: 60,
+                updatedAt: '2024-01-01T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 3, totalCalls: 3, successCount: 3, errorCount: 0, dailyUsage},
+            };
+            mockUpdateUserSettings.mockImplementation(async (_userId: string, update: (settings: unknown) => object) =>
+                ({...stored, ...update(stored)}));
+            const geminiStats = {allTimeTotalCalls: 4, totalCalls: 0, successCount: 0, errorCount: 0, dailyUsage: {}};
+
+            const response = await testRequest(app, 'PATCH', '/api/settings', {geminiStats, language: 'pl'}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockSaveUserSettings).not.toHaveBeenCalled();
+            expect(response.body.language).toBe('pl');
+            expect(response.body.geminiStats).toEqual({...geminiStats, dailyUsage});
+        });
+
+        it('should reject Gemini stats that are not an object', async () => {
+            const response = await testRequest(app, 'PATCH', '/api/settings', {geminiStats: [1]}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockUpdateUserSettings).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            ['not an array', {}],
+            ['a marketplace without patterns', [{id: 'custom-a.example.com', name: 'A', domains: ['a.example.com'], neverFetch: false}]],
+            ['an IP address', [{
+                id: 'custom-metadata', name: 'Metadata', domains: ['169.254.169.254'],
+                offerPagePatterns: ['/'], excludePatterns: [], neverFetch: false,
+            }]],
+            ['localhost', [{
+                id: 'custom-localhost', name: 'Local', domains: ['http://localhost:8080'],
+                offerPagePatterns: ['/'], excludePatterns: [], neverFetch: false,
+            }]],
+        ])('should reject custom marketplaces with %s', async (_case, customMarketplaces) => {
+            const response = await testRequest(app, 'PUT', '/api/settings', {customMarketplaces}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockSaveUserSettings).not.toHaveBeenCalled();
+        });
+    });
+
+    // ==========================================================================
+    // AI Proxy API
+    // ==========================================================================
+    describe('AI Proxy', () => {
+        const TODAY = new Date().toISOString().slice(0, 10);
+        const page = {
+            url: 'https://www.otomoto.pl/osobowe/oferta/bmw-ID6Abc.html',
+            pageText: 'BMW 320d, 2019, 89 900 PLN',
+            pageTitle: 'BMW 320d',
+        };
+
+        const mockSettings = (overrides: Record<string, unknown> = {}) => {
+            mockGetUserSettings.mockResolvedValue({
+                userId: 'test-user-id',
+                geminiApiKeyEncrypted: 'v1:encrypted',
+                checkFrequencyMinutes: 60,
+                updatedAt: '2024-01-01T00:00:00.000Z',
+                geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0},
+                ...overrides,
+            });
+        };
+
+        beforeEach(() => {
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            mockSettings();
+            mockGetGeminiApiKey.mockReturnValue('api-key');
+            mockSaveUserSettings.mockResolvedValue(undefined);
+            // Resolves with the fields the quota update changes
+            mockUpdateUserSettings.mockImplementation(async (userId: string, update: (settings: unknown) => unknown) =>
+                update(await mockGetUserSettings(userId)));
+            mockAddGeminiHistoryEntry.mockResolvedValue(undefined);
+        });
+
+        const getQuotaUpdate = () => mockUpdateUserSettings.mock.results[0]?.value;
+
+        it('should parse a listing with the stored key and record the call', async () => {
+            mockGenerateContent.mockResolvedValue({text: JSON.stringify({title: 'BMW 320d', pricing: {price: 89900}})});
+
+            const response = await testRequest(app, 'POST', '/api/ai/parse', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({title: 'BMW 320d', pricing: {price: 89900}});
+            await expect(getQuotaUpdate()).resolves.toEqual({geminiQuota: {date: TODAY, used: 1}});
+            expect(mockAddGeminiHistoryEntry).toHaveBeenCalledWith(
+                expect.objectContaining({url: page.url, status: 'success', provider: 'gemini', model: 'gemini-2.5-flash'}),
+                'test-user-id',
+            );
+        });
+
+        it('should ask for evidence of key vehicle fields', async () => {
+            mockGenerateContent.mockResolvedValue({text: JSON.stringify({title: 'BMW 320d', pricing: {price: 89900}})});
+
+            await testRequest(app, 'POST', '/api/ai/parse', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            const {config} = mockGenerateContent.mock.calls[0][0] as {config: {responseSchema: {properties: Record<string, {properties: object}>}}};
+            expect(Object.keys(config.responseSchema.properties.evidence.properties)).toEqual(
+                ['vin', 'productionYear', 'mileage', 'engineCapacity', 'enginePower', 'fuelType'],
+            );
+        });
+
+        it('should only ask for the fields the extension could not extract', async () => {
+            mockGenerateContent.mockResolvedValue({text: JSON.stringify({vehicle: {vin: 'WBA8E9C55GK123456'}})});
+
+            const response = await testRequest(app, 'POST', '/api/ai/parse', {
+                ...page,
+                extractedFields: {title: 'BMW 320d', vehicle: {make: 'BMW'}},
+            }, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            const {config} = mockGenerateContent.mock.calls[0][0] as {config: {responseSchema: {properties: Record<string, {properties: object}>}}};
+            expect(config.responseSchema.properties.title).toBeUndefined();
+            expect(config.responseSchema.properties.vehicle.properties).not.toHaveProperty('make');
+            expect(config.responseSchema.properties.vehicle.properties).toHaveProperty('vin');
+        });
+
+        it('should return 400 when extractedFields is not an object', async () => {
+            const response = await testRequest(app, 'POST', '/api/ai/parse', {...page, extractedFields: ['title']}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+        });
+
+        it('should record token usage and estimated cost', async () => {
+            mockGenerateContent.mockResolvedValue({
+                text: JSON.stringify({price: 85000, currency: 'PLN', isAvailable: true}),
+                usageMetadata: {promptTokenCount: 4000, candidatesTokenCount: 150, thoughtsTokenCount: 50},
+            });
+
+            await testRequest(app, 'POST', '/api/ai/refresh', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(mockAddGeminiHistoryEntry).toHaveBeenCalledWith(
+                expect.objectContaining({promptTokens: 4000, responseTokens: 200, costUsd: 0.0017}),
+                'test-user-id',
+            );
+        });
+
+        it('should use the requested Gemini model', async () => {
+            mockGenerateContent.mockResolvedValue({text: JSON.stringify({price: 85000, currency: 'PLN', isAvailable: true})});
+
+            const response = await testRequest(app, 'POST', '/api/ai/refresh', {...page, model: 'gemini-2.5-pro'}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(mockGenerateContent).toHaveBeenCalledWith(expect.objectContaining({model: 'gemini-2.5-pro'}));
+            expect(mockAddGeminiHistoryEntry).toHaveBeenCalledWith(
+                expect.objectContaining({provider: 'gemini', model: 'gemini-2.5-pro'}),
+                'test-user-id',
+            );
+        });
+
+        it('should return 400 for a model that is not a Gemini model', async () => {
+            const response = await testRequest(app, 'POST', '/api/ai/parse', {...page, model: 'llama3.1'}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(response.body.message).toBe('model must be a Gemini model name');
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+        });
+
+        it('should refresh a listing price and status', async () => {
+            mockGenerateContent.mockResolvedValue({text: JSON.stringify({price: 85000, currency: 'PLN', isAvailable: true})});
+
+            const response = await testRequest(app, 'POST', '/api/ai/refresh', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            expect(response.body).toEqual({price: 85000, currency: 'PLN', status: 'ACTIVE'});
+        });
+
+        it('should return 400 for invalid page data', async () => {
+            const response = await testRequest(app, 'POST', '/api/ai/parse', {...page, url: 'ftp://example.com'}, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+        });
+
+        it('should return 400 when no Gemini API key is configured', async () => {
+            mockGetGeminiApiKey.mockReturnValue('');
+
+            const response = await testRequest(app, 'POST', '/api/ai/refresh', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(response.body.message).toBe('Gemini API key is not configured');
+        });
+
+        it('should return 429 once the daily quota is used up', async () => {
+            mockSettings({geminiQuota: {date: TODAY, used: 200}});
+
+            const response = await testRequest(app, 'POST', '/api/ai/parse', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(429);
+            await expect(getQuotaUpdate()).resolves.toBeNull();
+            expect(mockGenerateContent).not.toHaveBeenCalled();
+        });
+
+        it('should reset the quota counter on a new day', async () => {
+            mockSettings({geminiQuota: {date: '2000-01-01', used: 200}});
+            mockGenerateContent.mockResolvedValue({text: JSON.stringify({price: 85000, currency: 'PLN'})});
+
+            const response = await testRequest(app, 'POST', '/api/ai/refresh', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            await expect(getQuotaUpdate()).resolves.toEqual({geminiQuota: {date: TODAY, used: 1}});
+        });
+
+        it('should return 429 when Gemini rate limits the call', async () => {
+            mockGenerateContent.mockRejectedValue(new Error('429 RESOURCE_EXHAUSTED'));
+
+            const response = await testRequest(app, 'POST', '/api/ai/parse', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(429);
+            expect(mockAddGeminiHistoryEntry).toHaveBeenCalledWith(
+                expect.objectContaining({status: 'error'}),
+                'test-user-id',
+            );
+        });
+
+        it('should return 502 when the Gemini call fails', async () => {
+            mockGenerateContent.mockRejectedValue(new Error('API key not valid'));
+
+            const response = await testRequest(app, 'POST', '/api/ai/parse', page, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(502);
+            expect(response.body.message).toBe('API key not valid');
+        });
     });
 
     // ==========================================================================
@@ -509,6 +1491,11 @@ describe('API Routes', () => {
     });
 
     describe('Add Gemini History', () => {
+        beforeEach(() => {
+            mockUpdateUserSettings.mockImplementation(async (userId: string, update: (settings: unknown) => unknown) =>
+                update({userId, geminiStats: {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0}}));
+        });
+
         it('should add history entries as array', async () => {
             const entries = [
                 {
@@ -548,6 +1535,39 @@ describe('API Routes', () => {
             expect(response.body.count).toBe(1);
         });
 
+        it('should add the usage of the entries to the daily usage', async () => {
+            const entries = [
+                {id: 'entry-1', status: 'success', timestamp: '2024-01-01T10:00:00.000Z', promptTokens: 4000, responseTokens: 200, costUsd: 0.5},
+                {id: 'entry-2', status: 'error', timestamp: '2024-01-01T11:00:00.000Z'},
+            ];
+            mockAddGeminiHistoryEntries.mockResolvedValue(undefined);
+
+            const response = await testRequest(app, 'POST', '/api/gemini-history', entries, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(200);
+            await expect(mockUpdateUserSettings.mock.results[0]?.value).resolves.toEqual({
+                geminiStats: {
+                    allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0,
+                    dailyUsage: {'2024-01-01': {calls: 2, promptTokens: 4000, responseTokens: 200, costUsd: 0.5}},
+                },
+            });
+            expect(mockAddGeminiHistoryEntries).toHaveBeenCalledWith(entries, 'test-user-id');
+        });
+
+        it.each([
+            ['a timestamp', {id: 'entry-1', status: 'success'}],
+            ['a valid cost', {id: 'entry-1', status: 'success', timestamp: '2024-01-01', costUsd: -5}],
+        ])('should return 400 for entries without %s', async (_case, entry) => {
+            const response = await testRequest(app, 'POST', '/api/gemini-history', entry, {
+                authorization: 'Bearer test-token',
+            });
+
+            expect(response.status).toBe(400);
+            expect(mockUpdateUserSettings).not.toHaveBeenCalled();
+        });
+
         it('should return 400 for entries without id', async () => {
             const response = await testRequest(app, 'POST', '/api/gemini-history', [{url: 'http://example.com'}], {
                 authorization: 'Bearer test-token',
@@ -581,7 +1601,7 @@ describe('API Routes', () => {
             // return small value
             (Math as any).random = () => 0.05;
 
-            mockCheckFirestoreHealth.mockResolvedValue(true);
+            mockCheckDatabaseHealth.mockResolvedValue(true);
             mockCleanupExpiredBlacklistedTokens.mockResolvedValue(2);
 
             const response = await testRequest(createApp(), 'GET', '/api/healthz');
@@ -609,16 +1629,28 @@ describe('API Routes', () => {
 
             // Re-mock db module to use existing mock functions
             jest.unstable_mockModule('../db.js', () => ({
+                ListingConflictError: MockListingConflictError,
+                getListingChanges: mockGetListingChanges,
+                queryListings: mockQueryListings,
                 upsertUser: mockUpsertUser,
                 getListingsByUserId: mockGetListingsByUserId,
                 getListingById: mockGetListingById,
                 saveAllListings: mockSaveAllListings,
+                saveListings: mockSaveListings,
                 saveListing: mockSaveListing,
                 deleteListing: mockDeleteListing,
-                checkFirestoreHealth: mockCheckFirestoreHealth,
+                getSavedSearchesByUserId: mockGetSavedSearchesByUserId,
+                saveSavedSearch: mockSaveSavedSearch,
+                deleteSavedSearch: mockDeleteSavedSearch,
+                recordSavedSearchCheck: mockRecordSavedSearchCheck,
+                dismissSavedSearchMatch: mockDismissSavedSearchMatch,
+                checkDatabaseHealth: mockCheckDatabaseHealth,
                 getUserSettings: mockGetUserSettings,
                 saveUserSettings: mockSaveUserSettings,
+                updateUserSettings: mockUpdateUserSettings,
+                getGeminiApiKey: mockGetGeminiApiKey,
                 getGeminiHistory: mockGetGeminiHistory,
+                addGeminiHistoryEntry: mockAddGeminiHistoryEntry,
                 addGeminiHistoryEntries: mockAddGeminiHistoryEntries,
                 clearGeminiHistory: mockClearGeminiHistory,
                 blacklistToken: mockBlacklistToken,
@@ -673,11 +1705,18 @@ describe('API Routes', () => {
                 getListingsByUserId: mockGetListingsByUserId,
                 getListingById: mockGetListingById,
                 saveAllListings: mockSaveAllListings,
+                saveListings: mockSaveListings,
                 saveListing: mockSaveListing,
                 deleteListing: mockDeleteListing,
-                checkFirestoreHealth: mockCheckFirestoreHealth,
+                getSavedSearchesByUserId: mockGetSavedSearchesByUserId,
+                saveSavedSearch: mockSaveSavedSearch,
+                deleteSavedSearch: mockDeleteSavedSearch,
+                recordSavedSearchCheck: mockRecordSavedSearchCheck,
+                dismissSavedSearchMatch: mockDismissSavedSearchMatch,
+                checkDatabaseHealth: mockCheckDatabaseHealth,
                 getUserSettings: mockGetUserSettings,
                 saveUserSettings: mockSaveUserSettings,
+                updateUserSettings: mockUpdateUserSettings,
                 getGeminiHistory: mockGetGeminiHistory,
                 addGeminiHistoryEntries: mockAddGeminiHistoryEntries,
                 clearGeminiHistory: mockClearGeminiHistory,
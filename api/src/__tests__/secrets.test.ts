@@ -0,0 +1,72 @@
+/**
+ * Tests for Secret Encryption
+ */
+
+import {afterAll, beforeEach, describe, expect, it, jest} from '@jest/globals';
+
+describe('Secret Encryption', () => {
+    const originalEnv = process.env;
+
+    const loadSecrets = async (key?: string) => {
+        process.env = {...originalEnv};
+        if (key === undefined) {
+            delete process.env.SETTINGS_ENCRYPTION_KEY;
+        } else {
+            process.env.SETTINGS_ENCRYPTION_KEY = key;
+        }
+        return import('../utils/secrets.js');
+    };
+
+    beforeEach(() => {
+        jest.resetModules();
+    });
+
+    afterAll(() => {
+        process.env = originalEnv;
+    });
+
+    it('should round-trip a secret', async () => {
+        const {decryptSecret, encryptSecret} = await loadSecrets('test-settings-key');
+
+        const encrypted = encryptSecret('AIza-secret');
+
+        expect(encrypted).toMatch(/^v1:/);
+        expect(encrypted).not.toContain('AIza-secret');
+        expect(decryptSecret(encrypted)).toBe('AIza-secret');
+    });
+
+    it('should use a fresh IV for every encryption', async () => {
+        const {encryptSecret} = await loadSecrets('test-settings-key');
+
+        expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+    });
+
+    it('should reject tampered ciphertext', async () => {
+        const {decryptSecret, encryptSecret} = await loadSecrets('test-settings-key');
+        const [version, iv, tag, ciphertext] = encryptSecret('AIza-secret').split(':');
+        const tampered = Buffer.from(ciphertext, 'base64');
+        tampered[0] ^= 1;
+
+        expect(() => decryptSecret([version, iv, tag, tampered.toString('base64')].join(':'))).toThrow();
+    });
+
+    it('should not decrypt with a different key', async () => {
+        const encrypted = (await loadSecrets('first-key')).encryptSecret('AIza-secret');
+        jest.resetModules();
+        const {decryptSecret} = await loadSecrets('second-key');
+
+        expect(() => decryptSecret(encrypted)).toThrow();
+    });
+
+    it('should reject values in an unknown format', async () => {
+        const {decryptSecret} = await loadSecrets('test-settings-key');
+
+        expect(() => decryptSecret('AIza-plaintext')).toThrow('Encrypted secret has an unsupported format');
+    });
+
+    it('should throw when SETTINGS_ENCRYPTION_KEY is not configured', async () => {
+        const {encryptSecret} = await loadSecrets();
+
+        expect(() => encryptSecret('AIza-secret')).toThrow('SETTINGS_ENCRYPTION_KEY is not configured');
+    });
+});
@@ -81,6 +81,8 @@ describe('Swagger Configuration', () => {
                 'UserInfo',
                 'CarListing',
                 'UserSettings',
+                'AlertRules',
+                'SavedSearch',
                 'GeminiCallHistoryEntry',
             ];
 
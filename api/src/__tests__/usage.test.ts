@@ -0,0 +1,114 @@
+/**
+ * Tests for LLM Token Usage and Cost
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+    addToDailyUsage,
+    estimateCostUsd,
+    getMonthlyCostUsd,
+    hasReachedMonthlyBudget,
+    readTokenUsage,
+    toUsageFields,
+} from '../gemini/usage.js';
+import type {GeminiCallHistoryEntry, GeminiStats} from '../types.js';
+
+const createEntry = (overrides: Partial<GeminiCallHistoryEntry> = {}): GeminiCallHistoryEntry => ({
+    id: 'entry-1',
+    url: 'https://www.otomoto.pl/osobowe/oferta/bmw-ID1.html',
+    promptPreview: 'prompt',
+    status: 'success',
+    timestamp: '2025-01-15T12:00:00.000Z',
+    ...overrides,
+});
+
+const createStats = (dailyUsage: GeminiStats['dailyUsage']): GeminiStats => ({
+    allTimeTotalCalls: 0,
+    totalCalls: 0,
+    successCount: 0,
+    errorCount: 0,
+    dailyUsage,
+});
+
+describe('LLM Usage', () => {
+    describe('readTokenUsage', () => {
+        it('should read Gemini usage metadata, counting thinking tokens as output', () => {
+            expect(readTokenUsage({promptTokenCount: 4000, candidatesTokenCount: 150, thoughtsTokenCount: 50}))
+                .toEqual({promptTokens: 4000, responseTokens: 200});
+        });
+
+        it('should read OpenAI-style usage', () => {
+            expect(readTokenUsage({prompt_tokens: 900, completion_tokens: 80, total_tokens: 980}))
+                .toEqual({promptTokens: 900, responseTokens: 80});
+        });
+
+        it('should return null when no usage was reported', () => {
+            expect(readTokenUsage(null)).toBeNull();
+            expect(readTokenUsage({totalTokens: 10})).toBeNull();
+        });
+    });
+
+    describe('estimateCostUsd', () => {
+        it('should price tokens per million', () => {
+            expect(estimateCostUsd('gemini-2.5-flash', {promptTokens: 1_000_000, responseTokens: 1_000_000})).toBeCloseTo(2.8);
+        });
+
+        it('should match the longest model family prefix', () => {
+            expect(estimateCostUsd('gemini-2.5-flash-lite-preview-06-17', {promptTokens: 1_000_000, responseTokens: 0}))
+                .toBeCloseTo(0.1);
+        });
+
+        it('should return null for unknown models', () => {
+            expect(estimateCostUsd('llama3.1', {promptTokens: 1000, responseTokens: 100})).toBeNull();
+        });
+    });
+
+    describe('toUsageFields', () => {
+        it('should leave out the cost for unknown models', () => {
+            expect(toUsageFields('llama3.1', {promptTokens: 1000, responseTokens: 100}))
+                .toEqual({promptTokens: 1000, responseTokens: 100});
+            expect(toUsageFields('gemini-2.5-flash', null)).toEqual({});
+        });
+    });
+
+    describe('addToDailyUsage', () => {
+        it('should add the call to its UTC day', () => {
+            const usage = addToDailyUsage(
+                {'2025-01-15': {calls: 1, promptTokens: 100, responseTokens: 10, costUsd: 0.5}},
+                createEntry({promptTokens: 200, responseTokens: 20, costUsd: 0.25}),
+            );
+
+            expect(usage).toEqual({'2025-01-15': {calls: 2, promptTokens: 300, responseTokens: 30, costUsd: 0.75}});
+        });
+
+        it('should count calls without usage and drop expired days', () => {
+            const usage = addToDailyUsage(
+                {'2023-12-01': {calls: 3, promptTokens: 0, responseTokens: 0, costUsd: 0}},
+                createEntry({status: 'error'}),
+            );
+
+            expect(usage).toEqual({'2025-01-15': {calls: 1, promptTokens: 0, responseTokens: 0, costUsd: 0}});
+        });
+    });
+
+    describe('monthly budget', () => {
+        const stats = createStats({
+            '2024-12-31': {calls: 5, promptTokens: 0, responseTokens: 0, costUsd: 4},
+            '2025-01-02': {calls: 2, promptTokens: 0, responseTokens: 0, costUsd: 1.5},
+            '2025-01-15': {calls: 1, promptTokens: 0, responseTokens: 0, costUsd: 0.5},
+        });
+        const now = new Date('2025-01-20T00:00:00.000Z');
+
+        it('should sum the current month only', () => {
+            expect(getMonthlyCostUsd(stats, now)).toBeCloseTo(2);
+            expect(getMonthlyCostUsd(undefined, now)).toBe(0);
+        });
+
+        it('should report a reached budget', () => {
+            expect(hasReachedMonthlyBudget(stats, 2, now)).toBe(true);
+            expect(hasReachedMonthlyBudget(stats, 2.5, now)).toBe(false);
+            expect(hasReachedMonthlyBudget(stats, null, now)).toBe(false);
+            expect(hasReachedMonthlyBudget(stats, 0, now)).toBe(false);
+        });
+    });
+});
@@ -9,8 +9,20 @@
  * - GCP_PROJECT_ID: GCP project ID
  * - GCS_BUCKET_NAME: GCS bucket name for images
  * - JWT_SECRET: Secret key for signing JWTs
+ * - SETTINGS_ENCRYPTION_KEY: Secret used to encrypt Gemini API keys stored in user settings
  * - OAUTH_CLIENT_ID: Google OAuth client ID for token verification
  * - ALLOWED_ORIGIN_EXTENSION: Chrome extension origin for CORS
+ *
+ * Optional environment variables for self-hosting without Firestore:
+ * - STORAGE_BACKEND: "firestore" (default) or "sqlite"
+ * - SQLITE_DATABASE_PATH: SQLite database file (":memory:" for an ephemeral database)
+ *
+ * Optional environment variables for the server-side refresh worker:
+ * - SERVER_REFRESH_ENABLED: "true" to run scheduled refreshes in this process
+ * - SERVER_REFRESH_TICK_MINUTES: how often to check for users due a refresh (default 5)
+ *
+ * Optional environment variables for the Gemini proxy (/api/ai/*):
+ * - GEMINI_DAILY_QUOTA: Gemini calls per user and UTC day (default 200)
  */
 
 // =============================================================================
@@ -23,6 +35,22 @@ export const GCP_PROJECT_ID = process.env.GCP_PROJECT_ID || 'motorscope';
 /** Firestore database ID (use "(default)" for the default database) */
 export const FIRESTORE_DATABASE_ID = 'motorscopedb';
 
+// =============================================================================
+// Storage Backend Configuration
+// =============================================================================
+
+/** Storage backends the API can persist data to */
+export const STORAGE_BACKENDS = ['firestore', 'sqlite'] as const;
+
+/** Storage backend identifier */
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+/** Selected storage backend (Firestore on Cloud Run, SQLite for self-hosting) */
+export const STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'firestore';
+
+/** SQLite database file path, used only when STORAGE_BACKEND is "sqlite" */
+export const SQLITE_DATABASE_PATH = process.env.SQLITE_DATABASE_PATH || 'motorscope.sqlite';
+
 // =============================================================================
 // Firestore Collections
 // =============================================================================
@@ -39,6 +67,18 @@ export const FIRESTORE_GEMINI_HISTORY_COLLECTION = 'gemini_history';
 /** Collection name for invalidated/blacklisted tokens */
 export const FIRESTORE_TOKEN_BLACKLIST_COLLECTION = 'token_blacklist';
 
+/** Collection name for per-user settings documents */
+export const FIRESTORE_SETTINGS_COLLECTION = 'settings';
+
+/** Collection name for saved marketplace searches watched for new listings */
+export const FIRESTORE_SAVED_SEARCHES_COLLECTION = 'saved_searches';
+
+/** Collection name for deleted listing markers used by delta sync */
+export const FIRESTORE_LISTING_TOMBSTONES_COLLECTION = 'listing_tombstones';
+
+/** Collection name for applied migration records and migration locks */
+export const FIRESTORE_MIGRATIONS_COLLECTION = '_migrations';
+
 /** Field name in listings that stores the user ID for ownership */
 export const FIRESTORE_LISTINGS_USER_FIELD = 'userId';
 
@@ -78,6 +118,12 @@ export const JWT_SECRET = process.env.JWT_SECRET || '';
 /** JWT token expiration time */
 export const JWT_EXPIRATION = '24h';
 
+/**
+ * Secret for encrypting Gemini API keys at rest - MUST be set wherever keys are stored.
+ * Any string works; a 32-byte key is derived from it.
+ */
+export const SETTINGS_ENCRYPTION_KEY = process.env.SETTINGS_ENCRYPTION_KEY || '';
+
 /** Google OAuth Client ID for the Chrome extension */
 export const OAUTH_CLIENT_ID = process.env.OAUTH_CLIENT_ID || '';
 
@@ -94,6 +140,41 @@ export const ALLOWED_ORIGIN_EXTENSION = process.env.ALLOWED_ORIGIN_EXTENSION ||
 /** Backend base URL (for self-reference) */
 export const BACKEND_BASE_URL = process.env.BACKEND_BASE_URL || '';
 
+// =============================================================================
+// Server-Side Refresh Configuration
+// =============================================================================
+
+/**
+ * Run the scheduled refresh worker in this process.
+ * Enable on a single instance only (or a dedicated worker service)
+ * so listings are not refreshed twice.
+ */
+export const SERVER_REFRESH_ENABLED = process.env.SERVER_REFRESH_ENABLED === 'true';
+
+/** How often the worker wakes up to look for users due for a refresh */
+export const SERVER_REFRESH_TICK_MINUTES = parseInt(process.env.SERVER_REFRESH_TICK_MINUTES || '5', 10);
+
+/** Delay between listing refreshes to avoid marketplace and Gemini rate limits */
+export const SERVER_REFRESH_DELAY_MS = 2000;
+
+/** Gemini model used for server-side refresh (same as the extension) */
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+/** Gemini calls a user may make through the proxy endpoints per UTC day */
+export const GEMINI_DAILY_QUOTA = parseInt(process.env.GEMINI_DAILY_QUOTA || '200', 10);
+
+/** Maximum page text sent to Gemini (matches the extension fetcher) */
+export const MAX_PAGE_TEXT_LENGTH = 20000;
+
+/** Timeout for fetching a listing page */
+export const PAGE_FETCH_TIMEOUT_MS = 30000;
+
+/** Seen listing IDs kept per saved search (matches the extension) - oldest are dropped first */
+export const MAX_SEEN_LISTING_IDS = 2000;
+
+/** Inbox size per saved search (matches the extension) - oldest matches are dropped first */
+export const MAX_SEARCH_MATCHES = 100;
+
 // =============================================================================
 // Environment
 // =============================================================================
@@ -111,6 +192,13 @@ export const IS_CLOUD_RUN = NODE_ENV === 'dev' || NODE_ENV === 'prod';
 // Validation
 // =============================================================================
 
+/**
+ * Check whether a value names a supported storage backend
+ */
+export function isStorageBackend(value: string): value is StorageBackend {
+    return (STORAGE_BACKENDS as readonly string[]).includes(value);
+}
+
 /**
  * Validate that all required configuration is present
  * Call this at startup to fail fast if misconfigured
@@ -118,11 +206,26 @@ export const IS_CLOUD_RUN = NODE_ENV === 'dev' || NODE_ENV === 'prod';
 export function validateConfig(): void {
     const errors: string[] = [];
 
+    if (!isStorageBackend(STORAGE_BACKEND)) {
+        errors.push(`STORAGE_BACKEND must be one of: ${STORAGE_BACKENDS.join(', ')}`);
+    }
+
+    if (!Number.isInteger(SERVER_REFRESH_TICK_MINUTES) || SERVER_REFRESH_TICK_MINUTES < 1) {
+        errors.push('SERVER_REFRESH_TICK_MINUTES must be a positive integer');
+    }
+
+    if (!Number.isInteger(GEMINI_DAILY_QUOTA) || GEMINI_DAILY_QUOTA < 1) {
+        errors.push('GEMINI_DAILY_QUOTA must be a positive integer');
+    }
+
     // Required for any Cloud Run deployment (dev or prod)
     if (IS_CLOUD_RUN) {
         if (!JWT_SECRET) {
             errors.push('JWT_SECRET environment variable is required');
         }
+        if (!SETTINGS_ENCRYPTION_KEY) {
+            errors.push('SETTINGS_ENCRYPTION_KEY environment variable is required');
+        }
         if (!OAUTH_CLIENT_ID) {
             errors.push('OAUTH_CLIENT_ID environment variable is required');
         }
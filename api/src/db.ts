@@ -1,49 +1,36 @@
 /**
- * Firestore Database Service
+ * Database Service
  *
- * Initializes Firestore using Application Default Credentials (ADC).
- * On Cloud Run, ADC automatically uses the service account assigned to the service.
- *
- * IMPORTANT: Ensure the Cloud Run service account has the following IAM roles:
- * - roles/datastore.user (for Firestore read/write)
- *
- * INDEXING NOTE:
- * The "listings" collection requires a single-field index on the "userId" field
- * for efficient queries. This index is typically auto-created by Firestore,
- * but you can verify/create it in the Firebase Console:
- * 1. Go to Firestore > Indexes
- * 2. Ensure "listings" collection has an index on "userId" (Ascending)
+ * Storage-agnostic data access used by the routes. Persistence is delegated
+ * to the repository selected by STORAGE_BACKEND (see ./repositories/), while
+ * ownership checks, defaults and merge rules live here so that every
+ * backend behaves identically.
  */
 
-import {Firestore, Timestamp} from '@google-cloud/firestore';
+import {MAX_SEARCH_MATCHES, MAX_SEEN_LISTING_IDS} from './config.js';
+import {getRepository, type ListingCommit} from './repositories/index.js';
 import {
-    FIRESTORE_DATABASE_ID,
-    FIRESTORE_GEMINI_HISTORY_COLLECTION,
-    FIRESTORE_LISTINGS_COLLECTION,
-    FIRESTORE_LISTINGS_USER_FIELD,
-    FIRESTORE_TOKEN_BLACKLIST_COLLECTION,
-    FIRESTORE_USERS_COLLECTION,
-    GCP_PROJECT_ID,
-} from './config.js';
+    encodeListingCursor,
+    LISTING_SORT_ORDERS,
+    type ListingPage,
+    type ListingQuery,
+    matchesListingQuery,
+} from './listings/index.js';
+import {decryptSecret} from './utils/secrets.js';
 import type {
     CarListing,
     GeminiCallHistoryEntry,
     GeminiHistoryDocument,
     ListingDocument,
+    ListingTombstoneDocument,
+    SavedSearch,
+    SavedSearchCheck,
+    SavedSearchDocument,
     User,
     UserSettings,
 } from './types.js';
 
-// Initialize Firestore with ADC
-// Cloud Run automatically provides credentials via the service account
-const firestore = new Firestore({
-    projectId: GCP_PROJECT_ID,
-    databaseId: FIRESTORE_DATABASE_ID,
-});
-
-// Collection references
-const usersCollection = firestore.collection(FIRESTORE_USERS_COLLECTION);
-const listingsCollection = firestore.collection(FIRESTORE_LISTINGS_COLLECTION);
+const repository = getRepository();
 
 // =============================================================================
 // User Operations
@@ -53,11 +40,7 @@ const listingsCollection = firestore.collection(FIRESTORE_LISTINGS_COLLECTION);
  * Get a user by their internal ID
  */
 export async function getUserById(userId: string): Promise<User | null> {
-    const doc = await usersCollection.doc(userId).get();
-    if (!doc.exists) {
-        return null;
-    }
-    return doc.data() as User;
+    return repository.getUser(userId);
 }
 
 /**
@@ -65,21 +48,19 @@ export async function getUserById(userId: string): Promise<User | null> {
  * Used during authentication to upsert user on login
  */
 export async function upsertUser(user: User): Promise<User> {
-    const docRef = usersCollection.doc(user.id);
-    const existingDoc = await docRef.get();
+    const existingUser = await repository.getUser(user.id);
 
-    if (existingDoc.exists) {
+    if (existingUser) {
         // Update existing user - only update lastLoginAt
-        await docRef.update({
+        await repository.updateUser(user.id, {
             lastLoginAt: user.lastLoginAt,
             // Update displayName if provided and different
             ...(user.displayName && {displayName: user.displayName}),
         });
-        const updated = await docRef.get();
-        return updated.data() as User;
+        return (await repository.getUser(user.id)) as User;
     } else {
         // Create new user
-        await docRef.set(user);
+        await repository.createUser(user);
         return user;
     }
 }
@@ -90,27 +71,50 @@ export async function upsertUser(user: User): Promise<User> {
 
 /**
  * Get all listings for a specific user
- *
- * INDEXING: This query uses a simple where() on userId field.
- * Firestore will use a single-field index on "userId" which is
- * automatically created. No composite index required.
  */
 export async function getListingsByUserId(userId: string): Promise<ListingDocument[]> {
-    // Query listings where userId matches
-    // This uses the single-field index on FIRESTORE_LISTINGS_USER_FIELD
-    const snapshot = await listingsCollection
-        .where(FIRESTORE_LISTINGS_USER_FIELD, '==', userId)
-        .get();
-
-    const listings: ListingDocument[] = [];
-    snapshot.forEach((doc) => {
-        listings.push({
-            ...doc.data() as ListingDocument,
-            docId: doc.id,
-        });
-    });
+    return repository.getListingsByUser(userId);
+}
 
-    return listings;
+/** Minimum number of listings read per repository call while filling a page */
+const LISTING_SCAN_BATCH_SIZE = 100;
+
+/**
+ * Get one page of a user's listings matching a query
+ *
+ * The repository reads listings in sort order (backed by a userId + sort field
+ * index) and filters are applied here, so both backends return the same pages
+ * without a composite index per filter combination. Reading continues until
+ * the page is full plus one match, which tells whether a next page exists.
+ *
+ * Cost: a page reads every listing between the cursor and its last match, so
+ * a selective filter (e.g. a rare make or status) can read the rest of the
+ * user's collection - O(n) reads per page, in batches of
+ * LISTING_SCAN_BATCH_SIZE. Fine for personal collections of a few thousand
+ * listings; larger ones need the equality filters pushed into the scan.
+ */
+export async function queryListings(userId: string, query: ListingQuery): Promise<ListingPage<ListingDocument>> {
+    const order = LISTING_SORT_ORDERS[query.sort];
+    const batchSize = Math.max(LISTING_SCAN_BATCH_SIZE, query.limit + 1);
+    const matches: ListingDocument[] = [];
+    let startAfter = query.cursor ? {value: query.cursor.value, id: query.cursor.id} : undefined;
+
+    while (matches.length <= query.limit) {
+        const batch = await repository.getListingsOrdered(userId, {order, startAfter, limit: batchSize});
+        matches.push(...batch.filter((listing) => matchesListingQuery(listing, query)));
+        if (batch.length < batchSize) {
+            break;
+        }
+        const last = batch[batch.length - 1];
+        startAfter = {value: last[order.field], id: last.id};
+    }
+
+    const listings = matches.slice(0, query.limit);
+    const hasMore = matches.length > query.limit;
+    return {
+        listings,
+        nextCursor: hasMore ? encodeListingCursor(listings[listings.length - 1], query.sort) : null,
+    };
 }
 
 /**
@@ -120,36 +124,114 @@ export async function getListingById(
     listingId: string,
     userId: string,
 ): Promise<ListingDocument | null> {
-    const doc = await listingsCollection.doc(listingId).get();
+    const listing = await repository.getListing(listingId);
 
-    if (!doc.exists) {
+    // Verify ownership
+    if (!listing || listing.userId !== userId) {
         return null;
     }
 
-    const listing = doc.data() as ListingDocument;
+    return listing;
+}
 
-    // Verify ownership
-    if (listing.userId !== userId) {
-        return null;
+/**
+ * Listing whose stored revision differs from the one the client expected
+ */
+export interface ListingConflict {
+    id: string;
+    /** Listing as currently stored, null when it no longer exists */
+    current: ListingDocument | null;
+}
+
+/**
+ * Error thrown when a conditional listing write loses against a newer revision
+ */
+export class ListingConflictError extends Error {
+    readonly conflicts: ListingConflict[];
+
+    constructor(conflicts: ListingConflict[]) {
+        super(`Listing revision conflict: ${conflicts.map((conflict) => conflict.id).join(', ')}`);
+        this.name = 'ListingConflictError';
+        this.conflicts = conflicts;
     }
+}
 
-    return {...listing, docId: doc.id};
+/**
+ * Listing changes of a user since a point in time (delta sync)
+ */
+export interface ListingChangeSet {
+    listings: ListingDocument[];
+    tombstones: ListingTombstoneDocument[];
+    /**
+     * Cursor for the next sync: read before querying and moved back by
+     * LISTING_SYNC_OVERLAP_MS, so the next sync overlaps this one
+     */
+    serverTime: string;
 }
 
 /**
- * Save or update a single listing
+ * Assign ownership and the next revision to a listing about to be written
+ * Client-sent revision/updatedAt values are never stored.
  */
-export async function saveListing(
+function stampListing(
     listing: CarListing,
     userId: string,
-): Promise<ListingDocument> {
-    const listingDoc: ListingDocument = {
+    existing: ListingDocument | null | undefined,
+    updatedAt: string,
+): ListingDocument {
+    return {
         ...listing,
         userId,
+        revision: (existing?.revision ?? 0) + 1,
+        updatedAt,
     };
+}
+
+/**
+ * Apply listing writes of a user atomically
+ *
+ * @throws ListingConflictError when a listing changed since it was read
+ */
+async function commitListingChanges(commit: ListingCommit): Promise<void> {
+    const failedIds = await repository.commitListings(commit);
+    if (failedIds.length === 0) {
+        return;
+    }
+
+    const current = await Promise.all(failedIds.map((id) => getListingById(id, commit.userId)));
+    throw new ListingConflictError(failedIds.map((id, index) => ({id, current: current[index]})));
+}
+
+/**
+ * Save or update a single listing
+ *
+ * @param expectedRevision - When set, the write only succeeds if the stored
+ *   listing has this revision; a missing listing never matches
+ * @throws ListingConflictError when the stored revision differs
+ */
+export async function saveListing(
+    listing: CarListing,
+    userId: string,
+    expectedRevision?: number,
+): Promise<ListingDocument> {
+    const existing = await getListingById(listing.id, userId);
+
+    if (expectedRevision !== undefined && (!existing || (existing.revision ?? 0) !== expectedRevision)) {
+        throw new ListingConflictError([{id: listing.id, current: existing}]);
+    }
+
+    const listingDoc = stampListing(listing, userId, existing, new Date().toISOString());
 
-    // Use listing.id as the document ID for easy lookup
-    await listingsCollection.doc(listing.id).set(listingDoc);
+    await commitListingChanges({
+        userId,
+        // The new revision is only valid while the listing is still the one read above
+        preconditions: [{id: listing.id, revision: existing ? existing.revision ?? 0 : null}],
+        deleteIds: [],
+        listings: [listingDoc],
+        tombstones: [],
+        // Created again after a delete - the old tombstone would hide it from delta sync
+        deleteTombstoneIds: existing ? [] : [listing.id],
+    });
 
     return listingDoc;
 }
@@ -157,6 +239,11 @@ export async function saveListing(
 /**
  * Save multiple listings for a user (batch operation)
  * This replaces all listings for the user with the provided list
+ *
+ * Listings sent with a `revision` that already exist on the server must match
+ * the stored revision; deleted listings leave tombstones for delta sync.
+ *
+ * @throws ListingConflictError listing every mismatched revision (nothing is written)
  */
 export async function saveAllListings(
     listings: CarListing[],
@@ -164,41 +251,105 @@ export async function saveAllListings(
 ): Promise<ListingDocument[]> {
     // Get existing listings to determine what to delete
     const existingListings = await getListingsByUserId(userId);
+    const existingById = new Map(existingListings.map((listing) => [listing.id, listing]));
     const newIds = new Set(listings.map((l) => l.id));
 
-    // Use batched writes for atomicity
-    const batch = firestore.batch();
+    const conflicts: ListingConflict[] = listings
+        .filter((listing) => {
+            const existing = existingById.get(listing.id);
+            return listing.revision !== undefined && existing !== undefined
+                && (existing.revision ?? 0) !== listing.revision;
+        })
+        .map((listing) => ({id: listing.id, current: existingById.get(listing.id)!}));
+    if (conflicts.length > 0) {
+        throw new ListingConflictError(conflicts);
+    }
 
     // Delete listings that are no longer in the new list
-    for (const existing of existingListings) {
-        if (!newIds.has(existing.id)) {
-            batch.delete(listingsCollection.doc(existing.id));
-        }
-    }
+    const deleted = existingListings.filter((existing) => !newIds.has(existing.id));
+    const now = new Date().toISOString();
 
     // Add or update listings
-    const savedListings: ListingDocument[] = [];
-    for (const listing of listings) {
-        const listingDoc: ListingDocument = {
-            ...listing,
+    const savedListings: ListingDocument[] = listings.map((listing) =>
+        stampListing(listing, userId, existingById.get(listing.id), now),
+    );
+
+    const createdIds = listings.filter((listing) => !existingById.has(listing.id)).map((listing) => listing.id);
+
+    await commitListingChanges({
+        userId,
+        // Fails when any listing of the user was written or deleted since it was read above
+        preconditions: [
+            ...existingListings.map((existing) => ({id: existing.id, revision: existing.revision ?? 0})),
+            ...createdIds.map((id) => ({id, revision: null})),
+        ],
+        deleteIds: deleted.map((existing) => existing.id),
+        listings: savedListings,
+        tombstones: deleted.map((existing) => ({
+            id: existing.id,
             userId,
-        };
-        batch.set(listingsCollection.doc(listing.id), listingDoc);
-        savedListings.push(listingDoc);
+            revision: existing.revision ?? 0,
+            deletedAt: now,
+        })),
+        deleteTombstoneIds: createdIds,
+    });
+
+    return savedListings;
+}
+
+/**
+ * Create or update several listings of a user without touching the others
+ *
+ * Each listing is written conditionally: one sent with a `revision` must
+ * still have that revision (a missing listing never matches), one sent
+ * without must not exist yet.
+ *
+ * @throws ListingConflictError listing every failed precondition (nothing is written)
+ */
+export async function saveListings(
+    listings: CarListing[],
+    userId: string,
+): Promise<ListingDocument[]> {
+    const existing = await Promise.all(listings.map((listing) => getListingById(listing.id, userId)));
+
+    const conflicts: ListingConflict[] = listings
+        .map((listing, index) => ({listing, current: existing[index]}))
+        .filter(({listing, current}) => (listing.revision === undefined
+            ? current !== null
+            : !current || (current.revision ?? 0) !== listing.revision))
+        .map(({listing, current}) => ({id: listing.id, current}));
+    if (conflicts.length > 0) {
+        throw new ListingConflictError(conflicts);
     }
 
-    // Commit the batch
-    await batch.commit();
+    const now = new Date().toISOString();
+    const savedListings = listings.map((listing, index) => stampListing(listing, userId, existing[index], now));
+
+    await commitListingChanges({
+        userId,
+        preconditions: listings.map((listing, index) => ({
+            id: listing.id,
+            revision: existing[index] ? existing[index].revision ?? 0 : null,
+        })),
+        deleteIds: [],
+        listings: savedListings,
+        tombstones: [],
+        deleteTombstoneIds: listings.filter((_listing, index) => !existing[index]).map((listing) => listing.id),
+    });
 
     return savedListings;
 }
 
 /**
  * Delete a listing by ID (with ownership check)
+ *
+ * @param expectedRevision - When set, only delete if the stored listing has this revision
+ * @throws ListingConflictError when the stored revision differs
  */
 export async function deleteListing(
     listingId: string,
     userId: string,
+    expectedRevision?: number,
 ): Promise<boolean> {
     const listing = await getListingById(listingId, userId);
 
@@ -206,7 +357,165 @@ export async function deleteListing(
         return false;
     }
 
-    await listingsCollection.doc(listingId).delete();
+    if (expectedRevision !== undefined && (listing.revision ?? 0) !== expectedRevision) {
+        throw new ListingConflictError([{id: listingId, current: listing}]);
+    }
+
+    await commitListingChanges({
+        userId,
+        preconditions: [{id: listingId, revision: listing.revision ?? 0}],
+        deleteIds: [listingId],
+        listings: [],
+        tombstones: [{
+            id: listingId,
+            userId,
+            revision: listing.revision ?? 0,
+            deletedAt: new Date().toISOString(),
+        }],
+        deleteTombstoneIds: [],
+    });
+    return true;
+}
+
+/**
+ * How far the delta sync cursor lags behind the server clock
+ *
+ * Writes are stamped with their updatedAt/deletedAt before they commit, so a
+ * write committing while a sync runs can carry a time before that sync's
+ * cursor. Returning an earlier cursor makes the next sync read it again;
+ * clients drop the listings they already have by revision.
+ */
+const LISTING_SYNC_OVERLAP_MS = 60_000;
+
+/**
+ * Get listings written and deleted after `since` (ISO string)
+ * Changes from the last LISTING_SYNC_OVERLAP_MS are returned again by the
+ * next sync.
+ */
+export async function getListingChanges(userId: string, since: string): Promise<ListingChangeSet> {
+    const serverTime = new Date(Date.now() - LISTING_SYNC_OVERLAP_MS).toISOString();
+    const [listings, tombstones] = await Promise.all([
+        repository.getListingsUpdatedSince(userId, since),
+        repository.getListingTombstones(userId, since),
+    ]);
+
+    return {listings, tombstones, serverTime};
+}
+
+// =============================================================================
+// Saved Search Operations
+// =============================================================================
+
+/**
+ * Get all saved searches for a specific user
+ */
+export async function getSavedSearchesByUserId(userId: string): Promise<SavedSearchDocument[]> {
+    return repository.getSavedSearchesByUser(userId);
+}
+
+/**
+ * Get a single saved search by ID for a specific user
+ */
+export async function getSavedSearchById(
+    searchId: string,
+    userId: string,
+): Promise<SavedSearchDocument | null> {
+    const search = await repository.getSavedSearch(searchId);
+
+    // Verify ownership
+    if (!search || search.userId !== userId) {
+        return null;
+    }
+
+    return search;
+}
+
+/**
+ * Save or update a saved search
+ * Returns null when the ID is already taken by another user's search
+ */
+export async function saveSavedSearch(
+    search: SavedSearch,
+    userId: string,
+): Promise<SavedSearchDocument | null> {
+    const existing = await repository.getSavedSearch(search.id);
+    if (existing && existing.userId !== userId) {
+        return null;
+    }
+
+    const searchDoc: SavedSearchDocument = {
+        ...search,
+        userId,
+    };
+
+    await repository.setSavedSearch(searchDoc);
+
+    return searchDoc;
+}
+
+/**
+ * Merge the result of a check into a saved search, in a single transaction
+ * Unlike saving the whole search, this does not bring back matches dismissed meanwhile:
+ * a match is only added when its listing was not seen before.
+ * Returns null when the search does not exist or belongs to another user.
+ */
+export async function recordSavedSearchCheck(
+    searchId: string,
+    userId: string,
+    check: SavedSearchCheck,
+): Promise<SavedSearchDocument | null> {
+    const stored = await repository.updateSavedSearch(searchId, (search) => {
+        if (!search || search.userId !== userId) {
+            return null;
+        }
+
+        const seen = new Set(search.seenListingIds);
+        const added = check.newMatches.filter((match) => !seen.has(match.id));
+        return {
+            ...search,
+            seenListingIds: [...new Set([...check.seenListingIds, ...search.seenListingIds])]
+                .slice(0, MAX_SEEN_LISTING_IDS),
+            newMatches: [...added, ...search.newMatches].slice(0, MAX_SEARCH_MATCHES),
+            lastCheckedAt: check.checkedAt,
+        };
+    });
+
+    return stored && stored.userId === userId ? stored : null;
+}
+
+/**
+ * Remove a match from a saved search inbox, in a single transaction
+ * Returns null when the search does not exist or belongs to another user.
+ */
+export async function dismissSavedSearchMatch(
+    searchId: string,
+    matchId: string,
+    userId: string,
+): Promise<SavedSearchDocument | null> {
+    const stored = await repository.updateSavedSearch(searchId, (search) => {
+        if (!search || search.userId !== userId || !search.newMatches.some((match) => match.id === matchId)) {
+            return null;
+        }
+        return {...search, newMatches: search.newMatches.filter((match) => match.id !== matchId)};
+    });
+
+    return stored && stored.userId === userId ? stored : null;
+}
+
+/**
+ * Delete a saved search by ID (with ownership check)
+ */
+export async function deleteSavedSearch(
+    searchId: string,
+    userId: string,
+): Promise<boolean> {
+    const search = await getSavedSearchById(searchId, userId);
+
+    if (!search) {
+        return false;
+    }
+
+    await repository.deleteSavedSearch(searchId);
     return true;
 }
 
@@ -215,16 +524,15 @@ export async function deleteListing(
 // =============================================================================
 
 /**
- * Check Firestore connectivity
- * Performs a simple list operation to verify the connection
+ * Check database connectivity
+ * Performs a lightweight backend-specific operation to verify the connection
  */
-export async function checkFirestoreHealth(): Promise<boolean> {
+export async function checkDatabaseHealth(): Promise<boolean> {
     try {
-        // Try to list collections (lightweight operation)
-        await firestore.listCollections();
+        await repository.ping();
         return true;
     } catch (error) {
-        console.error('Firestore health check failed:', error);
+        console.error(`Database (${repository.backend}) health check failed:`, error);
         return false;
     }
 }
@@ -233,12 +541,9 @@ export async function checkFirestoreHealth(): Promise<boolean> {
 // Settings Operations
 // =============================================================================
 
-const settingsCollection = firestore.collection('settings');
-const geminiHistoryCollection = firestore.collection(FIRESTORE_GEMINI_HISTORY_COLLECTION);
-
 /** Default settings for new users */
 const DEFAULT_SETTINGS: Omit<UserSettings, 'userId' | 'updatedAt'> = {
-    geminiApiKey: '',
+    geminiApiKeyEncrypted: '',
     checkFrequencyMinutes: 60,
     geminiStats: {
         allTimeTotalCalls: 0,
@@ -248,22 +553,24 @@ const DEFAULT_SETTINGS: Omit<UserSettings, 'userId' | 'updatedAt'> = {
     },
 };
 
+/**
+ * Default settings of a user who has not saved any yet
+ */
+function createDefaultSettings(userId: string): UserSettings {
+    return {
+        ...DEFAULT_SETTINGS,
+        userId,
+        updatedAt: new Date().toISOString(),
+    };
+}
+
 /**
  * Get settings for a user
  * Returns default settings if none exist
  */
 export async function getUserSettings(userId: string): Promise<UserSettings> {
-    const doc = await settingsCollection.doc(userId).get();
-
-    if (!doc.exists) {
-        return {
-            ...DEFAULT_SETTINGS,
-            userId,
-            updatedAt: new Date().toISOString(),
-        };
-    }
-
-    return doc.data() as UserSettings;
+    const settings = await repository.getSettings(userId);
+    return settings ?? createDefaultSettings(userId);
 }
 
 /**
@@ -282,11 +589,46 @@ export async function saveUserSettings(
         updatedAt: new Date().toISOString(),
     };
 
-    await settingsCollection.doc(userId).set(updatedSettings);
+    await repository.setSettings(updatedSettings);
 
     return updatedSettings;
 }
 
+/**
+ * Update user settings based on their current values, in a single transaction
+ * (for counters that concurrent requests change)
+ *
+ * @param update - Returns the fields to change, or null to keep the settings.
+ *   Must be synchronous and may run more than once.
+ * @returns The settings after the update
+ */
+export async function updateUserSettings(
+    userId: string,
+    update: (settings: UserSettings) => Partial<Omit<UserSettings, 'userId' | 'updatedAt'>> | null,
+): Promise<UserSettings> {
+    const stored = await repository.updateSettings(userId, (existing) => {
+        const current = existing ?? createDefaultSettings(userId);
+        const fields = update(current);
+        return fields ? {...current, ...fields, userId, updatedAt: new Date().toISOString()} : null;
+    });
+    return stored ?? createDefaultSettings(userId);
+}
+
+/**
+ * Decrypt the Gemini API key stored in user settings
+ * Returns an empty string if no key is configured
+ */
+export function getGeminiApiKey(settings: UserSettings): string {
+    return settings.geminiApiKeyEncrypted ? decryptSecret(settings.geminiApiKeyEncrypted) : '';
+}
+
+/**
+ * Get settings of every user who opted in to server-side refresh
+ */
+export async function getServerRefreshSettings(): Promise<UserSettings[]> {
+    return repository.getServerRefreshSettings();
+}
+
 // =============================================================================
 // Gemini History Operations
 // =============================================================================
@@ -299,21 +641,10 @@ export async function getGeminiHistory(
     userId: string,
     limit: number = 100,
 ): Promise<GeminiCallHistoryEntry[]> {
-    const snapshot = await geminiHistoryCollection
-        .where('userId', '==', userId)
-        .orderBy('timestamp', 'desc')
-        .limit(limit)
-        .get();
-
-    const history: GeminiCallHistoryEntry[] = [];
-    snapshot.forEach((doc) => {
-        const data = doc.data() as GeminiHistoryDocument;
-        // Remove userId from returned data
-        const {userId: _uid, ...entry} = data;
-        history.push(entry);
-    });
+    const documents = await repository.getGeminiHistory(userId, limit);
 
-    return history;
+    // Remove userId from returned data
+    return documents.map(({userId: _uid, ...entry}) => entry);
 }
 
 /**
@@ -328,8 +659,7 @@ export async function addGeminiHistoryEntry(
         userId,
     };
 
-    // Use the entry's id as the document ID
-    await geminiHistoryCollection.doc(entry.id).set(historyDoc);
+    await repository.setGeminiHistoryEntries([historyDoc]);
 
     return historyDoc;
 }
@@ -343,78 +673,34 @@ export async function addGeminiHistoryEntries(
 ): Promise<void> {
     if (entries.length === 0) return;
 
-    const batch = firestore.batch();
-
-    for (const entry of entries) {
-        const historyDoc: GeminiHistoryDocument = {
-            ...entry,
-            userId,
-        };
-        batch.set(geminiHistoryCollection.doc(entry.id), historyDoc);
-    }
+    const historyDocs: GeminiHistoryDocument[] = entries.map((entry) => ({
+        ...entry,
+        userId,
+    }));
 
-    await batch.commit();
+    await repository.setGeminiHistoryEntries(historyDocs);
 }
 
 /**
  * Clear all Gemini history for a user
  */
 export async function clearGeminiHistory(userId: string): Promise<number> {
-    const snapshot = await geminiHistoryCollection
-        .where('userId', '==', userId)
-        .get();
-
-    if (snapshot.empty) {
-        return 0;
-    }
-
-    const batch = firestore.batch();
-    snapshot.forEach((doc) => {
-        batch.delete(doc.ref);
-    });
-
-    await batch.commit();
-
-    return snapshot.size;
+    return repository.deleteGeminiHistory(userId);
 }
 
 // =============================================================================
 // Token Blacklist Operations (for logout/token invalidation)
 // =============================================================================
 
-const tokenBlacklistCollection = firestore.collection(FIRESTORE_TOKEN_BLACKLIST_COLLECTION);
-
-/**
- * Token blacklist entry stored in Firestore
- *
- * IMPORTANT: The `expireAt` field is a Firestore Timestamp used for automatic
- * TTL (Time-To-Live) deletion. You MUST configure TTL in Firebase Console:
- *
- * 1. Go to Firebase Console > Firestore Database
- * 2. Click on "Time-to-live" in the left sidebar
- * 3. Click "Create policy"
- * 4. Collection group: "token_blacklist"
- * 5. Timestamp field: "expireAt"
- * 6. Click "Create"
- *
- * Once configured, Firestore will automatically delete documents
- * when their `expireAt` timestamp is reached (within 24-72 hours typically).
- */
-interface BlacklistedToken {
-    /** JWT ID or hash - unique identifier for the token */
-    tokenId: string;
-    /** User ID who owned the token */
-    userId: string;
-    /** When the token was blacklisted (ISO string for readability) */
-    blacklistedAt: string;
-    /** When the token expires - Firestore Timestamp for TTL auto-deletion */
-    expireAt: Timestamp;
-}
+/** Maximum number of expired tokens removed per cleanup run */
+const BLACKLIST_CLEANUP_LIMIT = 500;
 
 /**
  * Add a token to the blacklist (called on logout)
  *
- * The token will be automatically deleted by Firestore TTL after it expires.
+ * On Firestore the entry is removed by the TTL policy after it expires
+ * (see repositories/firestore.ts); other backends rely on
+ * cleanupExpiredBlacklistedTokens().
  *
  * @param tokenId - Unique identifier for the token (jti claim or hash)
  * @param userId - User ID who owned the token
@@ -425,14 +711,12 @@ export async function blacklistToken(
     userId: string,
     expiresAt: Date,
 ): Promise<void> {
-    const entry: BlacklistedToken = {
+    await repository.setBlacklistedToken({
         tokenId,
         userId,
         blacklistedAt: new Date().toISOString(),
-        expireAt: Timestamp.fromDate(expiresAt),
-    };
-
-    await tokenBlacklistCollection.doc(tokenId).set(entry);
+        expiresAt,
+    });
     console.log(`[DB] Token blacklisted for user ${userId}, expires at ${expiresAt.toISOString()}`);
 }
 
@@ -443,8 +727,7 @@ export async function blacklistToken(
  * @returns true if token is blacklisted (invalid)
  */
 export async function isTokenBlacklisted(tokenId: string): Promise<boolean> {
-    const doc = await tokenBlacklistCollection.doc(tokenId).get();
-    return doc.exists;
+    return repository.hasBlacklistedToken(tokenId);
 }
 
 /**
@@ -452,6 +735,7 @@ export async function isTokenBlacklisted(tokenId: string): Promise<boolean> {
  *
  * NOTE: If Firestore TTL is configured, this is not strictly necessary
  * as documents will be auto-deleted. However, this can be used for:
+ * - Backends without TTL support (SQLite)
  * - Immediate cleanup before TTL kicks in
  * - Testing/development environments
  * - Backup cleanup if TTL is not configured
@@ -459,28 +743,12 @@ export async function isTokenBlacklisted(tokenId: string): Promise<boolean> {
  * @returns Number of tokens cleaned up
  */
 export async function cleanupExpiredBlacklistedTokens(): Promise<number> {
-    const now = Timestamp.now();
-
-    const snapshot = await tokenBlacklistCollection
-        .where('expireAt', '<', now)
-        .limit(500) // Process in batches
-        .get();
+    const count = await repository.deleteExpiredBlacklistedTokens(new Date(), BLACKLIST_CLEANUP_LIMIT);
 
-    if (snapshot.empty) {
-        return 0;
+    if (count > 0) {
+        console.log(`[DB] Cleaned up ${count} expired blacklisted tokens`);
     }
 
-    const batch = firestore.batch();
-    snapshot.forEach((doc) => {
-        batch.delete(doc.ref);
-    });
-
-    await batch.commit();
-    console.log(`[DB] Cleaned up ${snapshot.size} expired blacklisted tokens`);
-
-    return snapshot.size;
+    return count;
 }
 
-// Export firestore instance for advanced use cases
-export {firestore};
-
@@ -0,0 +1,34 @@
+/**
+ * CSV Serialization
+ *
+ * RFC 4180 CSV with a header row and CRLF line endings.
+ * Shared with the dashboard export (extension/src/services/export).
+ */
+
+import type {ExportRow, ExportValue} from './rows.js';
+
+/**
+ * Leading characters that make spreadsheet applications read a cell as a
+ * formula. Scraped titles, seller names etc. starting with one are prefixed
+ * with an apostrophe, so opening the file never runs them.
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCsvValue(value: ExportValue): string {
+    if (value === null) {
+        return '';
+    }
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV
+ */
+export function toCsv(rows: ExportRow[], columns: string[]): string {
+    const lines = [
+        columns.map(formatCsvValue).join(','),
+        ...rows.map((row) => columns.map((column) => formatCsvValue(row[column] ?? null)).join(',')),
+    ];
+    return lines.join('\r\n') + '\r\n';
+}
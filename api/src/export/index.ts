@@ -0,0 +1,15 @@
+/**
+ * Listings Export - Barrel Export
+ */
+
+export {
+    createListingsExport,
+    filterListingsForExport,
+    EXPORT_FORMATS,
+    EXPORT_PRICE_MODES,
+} from './listingsExport.js';
+export type {ExportFile, ExportFilters, ExportFormat} from './listingsExport.js';
+export {buildExportRows, getExportColumns} from './rows.js';
+export type {ExportPriceMode, ExportRow, ExportValue} from './rows.js';
+export {toCsv} from './csv.js';
+export {toXlsx} from './xlsx.js';
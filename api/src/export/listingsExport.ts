@@ -0,0 +1,118 @@
+/**
+ * Listings Export
+ *
+ * Builds CSV, JSON or XLSX exports of a user's listings for
+ * GET /api/listings/export, with the same filters as the dashboard.
+ */
+
+import {type CarListing, type ListingDocument, ListingStatus} from '../types.js';
+import {buildExportRows, type ExportPriceMode, getExportColumns} from './rows.js';
+import {toCsv} from './csv.js';
+import {toXlsx} from './xlsx.js';
+
+/** Supported export file formats */
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+export const EXPORT_PRICE_MODES: ExportPriceMode[] = ['latest', 'history'];
+
+/**
+ * Listing filters matching the dashboard filters
+ */
+export interface ExportFilters {
+    status: ListingStatus | 'all';
+    archived: 'all' | 'active' | 'archived';
+    makes: string[];
+    models: string[];
+    /** Marketplace platforms (source.platform, e.g. "otomoto.pl") */
+    sources: string[];
+}
+
+/**
+ * Export file ready to be sent
+ */
+export interface ExportFile {
+    filename: string;
+    mimeType: string;
+    content: string | Buffer;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** Byte order mark so spreadsheet applications detect UTF-8 CSV */
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Apply dashboard filters to listings
+ */
+export function filterListingsForExport(listings: CarListing[], filters: ExportFilters): CarListing[] {
+    return listings.filter((listing) => {
+        if (filters.status !== 'all' && listing.status !== filters.status) {
+            return false;
+        }
+        if (filters.archived === 'active' && listing.isArchived) {
+            return false;
+        }
+        if (filters.archived === 'archived' && !listing.isArchived) {
+            return false;
+        }
+        if (filters.makes.length > 0 && !(listing.vehicle.make && filters.makes.includes(listing.vehicle.make))) {
+            return false;
+        }
+        if (filters.models.length > 0 && !(listing.vehicle.model && filters.models.includes(listing.vehicle.model))) {
+            return false;
+        }
+        return filters.sources.length === 0 || filters.sources.includes(listing.source.platform);
+    });
+}
+
+/**
+ * Strip storage-only fields from a listing written to a JSON export
+ */
+function toExportedListing(listing: CarListing): CarListing {
+    const {userId: _userId, docId: _docId, ...exported} = listing as ListingDocument;
+    return exported;
+}
+
+/**
+ * Create an export file from listings
+ *
+ * CSV and XLSX files hold flattened rows; JSON files hold the listings
+ * themselves (extension/docs/car-listing-schema.json, price history included), so they
+ * can be imported again.
+ *
+ * @param listings - Listings to export, in output order
+ * @param format - File format
+ * @param mode - Latest price only or one row per price history point (CSV and XLSX)
+ * @param now - Date used in the file name
+ */
+export function createListingsExport(
+    listings: CarListing[],
+    format: ExportFormat,
+    mode: ExportPriceMode,
+    now: Date = new Date(),
+): ExportFile {
+    const columns = getExportColumns(mode);
+    const rows = buildExportRows(listings, mode);
+    const suffix = mode === 'history' && format !== 'json' ? '-price-history' : '';
+    const filename = `motorscope-listings${suffix}-${now.toISOString().slice(0, 10)}.${format}`;
+
+    let content: string | Buffer;
+    switch (format) {
+        case 'csv':
+            content = UTF8_BOM + toCsv(rows, columns);
+            break;
+        case 'json':
+            content = JSON.stringify(listings.map(toExportedListing), null, 2);
+            break;
+        case 'xlsx':
+            content = Buffer.from(toXlsx(rows, columns));
+            break;
+    }
+
+    return {filename, mimeType: MIME_TYPES[format], content};
+}
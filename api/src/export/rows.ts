@@ -0,0 +1,124 @@
+/**
+ * Export Rows
+ *
+ * Flattens listings into spreadsheet rows. Every nested listing field
+ * (vehicle, engine, seller, location) becomes its own column; prices are
+ * written either as the latest price or as one row per price history point.
+ * Shared with the dashboard export (extension/src/services/export).
+ */
+
+import type {CarListing, PricePoint} from '../types.js';
+
+/** Whether rows carry the latest price or the full price history */
+export type ExportPriceMode = 'latest' | 'history';
+
+/** Cell value of an exported row */
+export type ExportValue = string | number | boolean | null;
+
+/** Exported row keyed by column name */
+export type ExportRow = Record<string, ExportValue>;
+
+type ColumnGetter = (listing: CarListing) => ExportValue;
+
+/** Listing columns in export order */
+const LISTING_COLUMNS: [string, ColumnGetter][] = [
+    ['id', (l) => l.id],
+    ['title', (l) => l.title],
+    ['url', (l) => l.source.url],
+    ['platform', (l) => l.source.platform],
+    ['platformListingId', (l) => l.source.listingId],
+    ['status', (l) => l.status],
+    ['isArchived', (l) => l.isArchived ?? false],
+    ['originalPrice', (l) => l.originalPrice],
+    ['negotiable', (l) => l.negotiable],
+    ['vin', (l) => l.vehicle.vin],
+    ['make', (l) => l.vehicle.make],
+    ['model', (l) => l.vehicle.model],
+    ['generation', (l) => l.vehicle.generation],
+    ['trim', (l) => l.vehicle.trim],
+    ['bodyType', (l) => l.vehicle.bodyType],
+    ['productionYear', (l) => l.vehicle.productionYear],
+    ['firstRegistrationYear', (l) => l.vehicle.firstRegistrationYear],
+    ['mileage', (l) => l.vehicle.mileage?.value ?? null],
+    ['mileageUnit', (l) => l.vehicle.mileage?.unit ?? null],
+    ['fuelType', (l) => l.vehicle.engine?.fuelType ?? null],
+    ['engineCapacityCc', (l) => l.vehicle.engine?.capacityCc ?? null],
+    ['powerKw', (l) => l.vehicle.engine?.powerKw ?? null],
+    ['powerHp', (l) => l.vehicle.engine?.powerHp ?? null],
+    ['engineCode', (l) => l.vehicle.engine?.engineCode ?? null],
+    ['euroStandard', (l) => l.vehicle.engine?.euroStandard ?? null],
+    ['hybridType', (l) => l.vehicle.engine?.hybridType ?? null],
+    ['transmissionType', (l) => l.vehicle.drivetrain?.transmissionType ?? null],
+    ['transmissionSubtype', (l) => l.vehicle.drivetrain?.transmissionSubtype ?? null],
+    ['gearsCount', (l) => l.vehicle.drivetrain?.gearsCount ?? null],
+    ['driveType', (l) => l.vehicle.drivetrain?.driveType ?? null],
+    ['isNew', (l) => l.vehicle.condition?.isNew ?? null],
+    ['isImported', (l) => l.vehicle.condition?.isImported ?? null],
+    ['accidentFreeDeclared', (l) => l.vehicle.condition?.accidentFreeDeclared ?? null],
+    ['serviceHistoryDeclared', (l) => l.vehicle.condition?.serviceHistoryDeclared ?? null],
+    ['exteriorColor', (l) => l.vehicle.colorAndInterior?.exteriorColor ?? null],
+    ['interiorColor', (l) => l.vehicle.colorAndInterior?.interiorColor ?? null],
+    ['upholsteryType', (l) => l.vehicle.colorAndInterior?.upholsteryType ?? null],
+    ['originCountry', (l) => l.vehicle.registration?.originCountry ?? null],
+    ['registeredInCountryCode', (l) => l.vehicle.registration?.registeredInCountryCode ?? null],
+    ['city', (l) => l.location?.city ?? null],
+    ['region', (l) => l.location?.region ?? null],
+    ['postalCode', (l) => l.location?.postalCode ?? null],
+    ['countryCode', (l) => l.location?.countryCode ?? null],
+    ['sellerType', (l) => l.seller?.type ?? null],
+    ['sellerName', (l) => l.seller?.name ?? null],
+    ['sellerPhone', (l) => l.seller?.phone ?? null],
+    ['sellerIsCompany', (l) => l.seller?.isCompany ?? null],
+    ['postedDate', (l) => l.postedDate],
+    ['firstSeenAt', (l) => l.firstSeenAt],
+    ['lastSeenAt', (l) => l.lastSeenAt],
+];
+
+const LATEST_PRICE_COLUMNS = ['price', 'currency'];
+const HISTORY_PRICE_COLUMNS = ['priceDate', 'price', 'currency'];
+
+/**
+ * Column names in export order for a price mode
+ */
+export function getExportColumns(mode: ExportPriceMode): string[] {
+    return [
+        ...LISTING_COLUMNS.slice(0, 2).map(([name]) => name),
+        ...(mode === 'history' ? HISTORY_PRICE_COLUMNS : LATEST_PRICE_COLUMNS),
+        ...LISTING_COLUMNS.slice(2).map(([name]) => name),
+    ];
+}
+
+function flattenListing(listing: CarListing): ExportRow {
+    return Object.fromEntries(LISTING_COLUMNS.map(([name, get]) => [name, get(listing)]));
+}
+
+/**
+ * Flatten listings into export rows
+ *
+ * In history mode a listing without recorded price points still gets one
+ * row with its current price.
+ */
+export function buildExportRows(listings: CarListing[], mode: ExportPriceMode): ExportRow[] {
+    const columns = getExportColumns(mode);
+    const ordered = (row: ExportRow): ExportRow =>
+        Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+
+    return listings.flatMap((listing) => {
+        const base = flattenListing(listing);
+
+        if (mode === 'latest') {
+            return [ordered({...base, price: listing.currentPrice, currency: listing.currency})];
+        }
+
+        const points: PricePoint[] = listing.priceHistory.length > 0
+            ? listing.priceHistory
+            : [{date: listing.lastSeenAt, price: listing.currentPrice, currency: listing.currency}];
+
+        return points.map((point) => ordered({
+            ...base,
+            priceDate: point.date,
+            price: point.price,
+            currency: point.currency,
+        }));
+    });
+}
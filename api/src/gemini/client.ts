@@ -0,0 +1,98 @@
+/**
+ * Gemini Client
+ *
+ * Structured-output call shared by the server-side parse and refresh
+ * operations. Every call is recorded in the user's Gemini history.
+ */
+
+import {GoogleGenAI} from '@google/genai';
+import {GEMINI_MODEL} from '../config.js';
+import type {UserSettings} from '../types.js';
+import {isRateLimitError, RateLimitError} from './errors.js';
+import {recordError, recordSuccess} from './history.js';
+import {readTokenUsage} from './usage.js';
+
+/** Gemini model names accepted from users */
+export const GEMINI_MODEL_PATTERN = /^gemini-[\w.-]+$/;
+
+/**
+ * Gemini model chosen in the user's settings, or GEMINI_MODEL when they use
+ * another provider or no valid Gemini model is set
+ */
+export function resolveGeminiModel(settings: Pick<UserSettings, 'llmProvider' | 'llmModel'>): string {
+    const usesGemini = !settings.llmProvider || settings.llmProvider === 'gemini';
+    return usesGemini && settings.llmModel && GEMINI_MODEL_PATTERN.test(settings.llmModel)
+        ? settings.llmModel
+        : GEMINI_MODEL;
+}
+
+/**
+ * Send a prompt with the user's API key and return the parsed JSON response
+ *
+ * @param userId - User the call is made for (history and stats are recorded for them)
+ * @param apiKey - The user's Gemini API key
+ * @param url - Listing URL (recorded in history)
+ * @param prompt - Prompt text
+ * @param responseSchema - Structured output schema
+ * @param model - Gemini model
+ * @throws RateLimitError if API rate limit is hit
+ * @throws Error for other failures
+ */
+export async function generateStructuredContent(
+    userId: string,
+    apiKey: string,
+    url: string,
+    prompt: string,
+    responseSchema: object,
+    model: string = GEMINI_MODEL,
+): Promise<Record<string, unknown>> {
+    if (!apiKey) {
+        throw new Error('Gemini API key is not configured');
+    }
+
+    const ai = new GoogleGenAI({apiKey});
+
+    let response;
+    try {
+        response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema,
+            },
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await recordError(userId, url, prompt, errorMessage, model);
+
+        if (isRateLimitError(errorMessage)) {
+            throw new RateLimitError(errorMessage);
+        }
+        throw error;
+    }
+
+    if (!response.text) {
+        const errorMessage = 'No response from AI';
+        await recordError(userId, url, prompt, errorMessage, model);
+        throw new Error(errorMessage);
+    }
+
+    let data;
+    try {
+        data = JSON.parse(response.text);
+    } catch (parseError) {
+        const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
+        await recordError(userId, url, prompt, `JSON parse error: ${errorMessage}`, model);
+        throw parseError;
+    }
+
+    await recordSuccess(userId, url, prompt, {
+        text: response.text,
+        parsedData: data,
+        usageMetadata: response.usageMetadata || null,
+        modelVersion: response.modelVersion || model,
+    }, model, readTokenUsage(response.usageMetadata));
+
+    return data;
+}
@@ -0,0 +1,56 @@
+/**
+ * Response Schema Fields
+ *
+ * Narrow an LLM response schema to the fields a rule-based extractor could
+ * not fill, so the model is only asked for the rest. Shared with the
+ * extension (extension/src/services/extraction), which narrows the schema
+ * for direct calls and sends the extracted fields to /api/ai/parse.
+ */
+
+type SchemaNode = {
+    properties?: Record<string, SchemaNode>;
+    required?: string[];
+    [key: string]: unknown;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Whether a field holds a usable value (null, empty strings and NaN do not count)
+ */
+export function isFilled(value: unknown): boolean {
+    if (value === null || value === undefined) return false;
+    if (typeof value === 'string') return value.trim().length > 0;
+    if (typeof value === 'number') return Number.isFinite(value);
+    return true;
+}
+
+/**
+ * Narrow a response schema to the fields that were not extracted.
+ *
+ * @returns The schema with filled fields removed, or null when every field is filled
+ */
+export function missingFieldsSchema<T extends object>(schema: T, fields: Record<string, unknown>): T | null {
+    const node = schema as SchemaNode;
+    const properties: Record<string, SchemaNode> = {};
+    for (const [key, property] of Object.entries(node.properties ?? {})) {
+        const value = fields[key];
+        const missing = property.properties
+            ? missingFieldsSchema(property, isPlainObject(value) ? value : {})
+            : (isFilled(value) ? null : property);
+        if (missing) {
+            properties[key] = missing;
+        }
+    }
+
+    if (Object.keys(properties).length === 0) {
+        return null;
+    }
+    return {
+        ...node,
+        properties,
+        ...(node.required ? {required: node.required.filter((key) => key in properties)} : {}),
+    } as T;
+}
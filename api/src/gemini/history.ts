@@ -0,0 +1,131 @@
+/**
+ * Gemini Call History Tracking
+ *
+ * Records server-side Gemini calls in the same history collection and
+ * stats counters the extension writes to, so they show up in the
+ * extension's Gemini statistics.
+ */
+
+import crypto from 'crypto';
+import {addGeminiHistoryEntries, addGeminiHistoryEntry, updateUserSettings} from '../db.js';
+import type {GeminiCallHistoryEntry} from '../types.js';
+import {addToDailyUsage, toUsageFields, type TokenUsage} from './usage.js';
+
+/**
+ * Format data as JSON for logging
+ */
+export function formatJsonResponse(data: unknown): string {
+    try {
+        return JSON.stringify(data, null, 2);
+    } catch {
+        return String(data);
+    }
+}
+
+/**
+ * Record a Gemini call, updating both stats and history.
+ * Failures are logged and swallowed - they must not break a refresh.
+ */
+export async function recordGeminiCall(userId: string, entry: GeminiCallHistoryEntry): Promise<void> {
+    try {
+        const isSuccess = entry.status === 'success';
+
+        // Counters are updated in a transaction: the worker, the proxy routes
+        // and the extension record calls for the same user concurrently
+        await Promise.all([
+            updateUserSettings(userId, ({geminiStats: stats}) => ({
+                geminiStats: {
+                    ...stats,
+                    allTimeTotalCalls: stats.allTimeTotalCalls + 1,
+                    totalCalls: stats.totalCalls + 1,
+                    successCount: stats.successCount + (isSuccess ? 1 : 0),
+                    errorCount: stats.errorCount + (isSuccess ? 0 : 1),
+                    dailyUsage: addToDailyUsage(stats.dailyUsage, entry),
+                },
+            })),
+            addGeminiHistoryEntry(entry, userId),
+        ]);
+    } catch (error) {
+        console.warn('[Gemini] Failed to record call:', error);
+    }
+}
+
+/**
+ * Save history entries of calls the extension made itself, adding their
+ * usage to the daily usage the monthly budget is checked against.
+ * Daily usage is only written here and by recordGeminiCall - settings
+ * updates from clients keep the stored value.
+ */
+export async function recordClientCalls(userId: string, entries: GeminiCallHistoryEntry[]): Promise<void> {
+    await updateUserSettings(userId, ({geminiStats: stats}) => ({
+        geminiStats: {
+            ...stats,
+            dailyUsage: entries.reduce((dailyUsage, entry) => addToDailyUsage(dailyUsage, entry), stats.dailyUsage),
+        },
+    }));
+    await addGeminiHistoryEntries(entries, userId);
+}
+
+/**
+ * Count refreshes that skipped Gemini because the page was unchanged.
+ * Failures are logged and swallowed - they must not break a refresh.
+ */
+export async function recordSavedCalls(userId: string, count: number): Promise<void> {
+    if (count <= 0) {
+        return;
+    }
+
+    try {
+        await updateUserSettings(userId, ({geminiStats: stats}) => ({
+            geminiStats: {...stats, savedCalls: (stats.savedCalls ?? 0) + count},
+        }));
+    } catch (error) {
+        console.warn('[Gemini] Failed to record saved calls:', error);
+    }
+}
+
+/**
+ * Record a successful Gemini API call
+ */
+export async function recordSuccess(
+    userId: string,
+    url: string,
+    prompt: string,
+    rawResponse: unknown,
+    model: string,
+    usage: TokenUsage | null = null,
+): Promise<void> {
+    await recordGeminiCall(userId, {
+        id: crypto.randomUUID(),
+        url,
+        promptPreview: prompt,
+        rawResponse: formatJsonResponse(rawResponse),
+        status: 'success',
+        timestamp: new Date().toISOString(),
+        provider: 'gemini',
+        model,
+        ...toUsageFields(model, usage),
+    });
+}
+
+/**
+ * Record a failed Gemini API call
+ */
+export async function recordError(
+    userId: string,
+    url: string,
+    prompt: string,
+    errorResponse: string,
+    model: string,
+): Promise<void> {
+    await recordGeminiCall(userId, {
+        id: crypto.randomUUID(),
+        url,
+        promptPreview: prompt,
+        error: errorResponse,
+        status: 'error',
+        timestamp: new Date().toISOString(),
+        provider: 'gemini',
+        model,
+    });
+}
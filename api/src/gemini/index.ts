@@ -0,0 +1,23 @@
+/**
+ * Gemini Service - Barrel Export
+ *
+ * Server-side Gemini calls made on behalf of users.
+ */
+
+export {parseListingWithGemini} from './parse.js';
+export {refreshListingWithGemini} from './refresh.js';
+export type {GeminiRefreshResult} from './refresh.js';
+export {GEMINI_MODEL_PATTERN, resolveGeminiModel} from './client.js';
+export {consumeGeminiQuota, GeminiQuotaExceededError} from './quota.js';
+export {RateLimitError, isRateLimitError} from './errors.js';
+export {recordClientCalls, recordSavedCalls} from './history.js';
+export {
+    estimateCostUsd,
+    getMonthlyCostUsd,
+    hasReachedMonthlyBudget,
+    MODEL_PRICING,
+    readTokenUsage,
+} from './usage.js';
+export type {TokenUsage} from './usage.js';
+export {buildParsePrompt, buildRefreshPrompt} from './prompts.js';
+export {carListingSchema, evidenceSchema, refreshSchema, withEvidenceSchema} from './schemas.js';
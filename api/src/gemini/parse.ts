@@ -0,0 +1,50 @@
+/**
+ * Gemini Parse Service
+ *
+ * Full listing extraction for the /api/ai/parse proxy endpoint.
+ * Validation and mapping to a CarListing stay in the extension, so the
+ * structured response is returned as-is. Fields the extension already read
+ * from the page are left out of the response schema.
+ */
+
+import {generateStructuredContent} from './client.js';
+import {missingFieldsSchema} from './fields.js';
+import {buildParsePrompt} from './prompts.js';
+import {carListingSchema, withEvidenceSchema} from './schemas.js';
+
+/**
+ * Extract car listing data from page content using the user's API key
+ *
+ * @param userId - User the call is made for (history and stats are recorded for them)
+ * @param apiKey - The user's Gemini API key
+ * @param url - The URL of the listing page
+ * @param pageText - Text content extracted from the page
+ * @param pageTitle - Title of the page
+ * @param model - Gemini model (GEMINI_MODEL by default)
+ * @param extractedFields - Fields already extracted from the page, in the response shape
+ * @returns Structured response matching carListingSchema (narrowed to the
+ *   missing fields), with field evidence; empty when nothing is missing
+ * @throws RateLimitError if API rate limit is hit
+ * @throws Error for other failures
+ */
+export async function parseListingWithGemini(
+    userId: string,
+    apiKey: string,
+    url: string,
+    pageText: string,
+    pageTitle: string,
+    model?: string,
+    extractedFields: Record<string, unknown> = {},
+): Promise<Record<string, unknown>> {
+    if (!pageText || pageText.trim().length === 0) {
+        throw new Error('Page content is empty or invalid');
+    }
+
+    const schema = missingFieldsSchema(carListingSchema, extractedFields);
+    if (!schema) {
+        return {};
+    }
+
+    const prompt = buildParsePrompt(pageTitle, url, pageText);
+    return generateStructuredContent(userId, apiKey, url, prompt, withEvidenceSchema(schema), model);
+}
@@ -0,0 +1,40 @@
+/**
+ * Gemini Proxy Quota
+ *
+ * Per-user daily limit on calls made through the /api/ai/* endpoints.
+ * The counter lives in the user's settings and resets every UTC day.
+ */
+
+import {GEMINI_DAILY_QUOTA} from '../config.js';
+import {updateUserSettings} from '../db.js';
+
+/**
+ * Error thrown when a user has used up today's proxy calls
+ */
+export class GeminiQuotaExceededError extends Error {
+    constructor(readonly limit: number) {
+        super(`Daily Gemini quota of ${limit} calls exceeded`);
+        this.name = 'GeminiQuotaExceededError';
+    }
+}
+
+/**
+ * Count one proxy call against the user's daily quota
+ *
+ * @throws GeminiQuotaExceededError if the quota is already used up
+ */
+export async function consumeGeminiQuota(userId: string, now: Date = new Date()): Promise<void> {
+    const today = now.toISOString().slice(0, 10);
+    let exceeded = false;
+
+    // Check and increment in one transaction, so concurrent calls cannot both take the last slot
+    await updateUserSettings(userId, ({geminiQuota}) => {
+        const used = geminiQuota?.date === today ? geminiQuota.used : 0;
+        exceeded = used >= GEMINI_DAILY_QUOTA;
+        return exceeded ? null : {geminiQuota: {date: today, used: used + 1}};
+    });
+
+    if (exceeded) {
+        throw new GeminiQuotaExceededError(GEMINI_DAILY_QUOTA);
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Gemini Refresh Service
+ *
+ * Refreshes listing price and status using Gemini AI on behalf of a user.
+ * Mirrors extension/src/services/gemini/refresh.ts, but takes the user's
+ * API key explicitly instead of reading it from extension settings.
+ */
+
+import {ListingStatus} from '../types.js';
+import {generateStructuredContent} from './client.js';
+import {buildRefreshPrompt} from './prompts.js';
+import {refreshSchema} from './schemas.js';
+
+/**
+ * Result of a Gemini refresh call
+ */
+export interface GeminiRefreshResult {
+    price: number;
+    currency: string;
+    status: ListingStatus;
+}
+
+/**
+ * Refresh listing data - extracts only price and status.
+ *
+ * @param userId - Owner of the listing (history and stats are recorded for them)
+ * @param apiKey - The user's Gemini API key
+ * @param url - The URL of the listing page
+ * @param pageText - Text content extracted from the page
+ * @param pageTitle - Title of the page
+ * @param model - Gemini model (GEMINI_MODEL by default)
+ * @throws RateLimitError if API rate limit is hit
+ * @throws Error for other failures
+ */
+export async function refreshListingWithGemini(
+    userId: string,
+    apiKey: string,
+    url: string,
+    pageText: string,
+    pageTitle: string,
+    model?: string,
+): Promise<GeminiRefreshResult> {
+    if (!pageText || pageText.trim().length === 0) {
+        throw new Error('Page content is empty or invalid');
+    }
+    const prompt = buildRefreshPrompt(pageTitle, url, pageText);
+    const data = await generateStructuredContent(userId, apiKey, url, prompt, refreshSchema, model);
+
+    const status = data.isSold === true || data.isAvailable === false
+        ? ListingStatus.ENDED
+        : ListingStatus.ACTIVE;
+
+    return {
+        price: typeof data.price === 'number' && data.price > 0 ? data.price : 0,
+        currency: typeof data.currency === 'string' && data.currency ? data.currency : 'PLN',
+        status,
+    };
+}
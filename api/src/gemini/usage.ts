@@ -0,0 +1,151 @@
+/**
+ * LLM Token Usage and Cost
+ *
+ * Server-side counterpart of extension/src/services/llm/usage.ts and
+ * extension/src/services/settings/geminiUsage.ts. Both sides add to the
+ * same daily usage buckets in geminiStats, so the rules must stay in sync.
+ */
+
+import type {GeminiCallHistoryEntry, GeminiDailyUsage, GeminiStats} from '../types.js';
+
+/**
+ * Token counts of one call
+ */
+export interface TokenUsage {
+    promptTokens: number;
+    responseTokens: number;
+}
+
+/** USD per million tokens */
+interface ModelPricing {
+    input: number;
+    output: number;
+}
+
+/**
+ * Published Gemini API prices (paid tier, prompts up to 200k tokens).
+ * Models are matched by the longest prefix, so dated previews use the
+ * price of their family.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+    'gemini-2.5-pro': {input: 1.25, output: 10},
+    'gemini-2.5-flash': {input: 0.30, output: 2.50},
+    'gemini-2.5-flash-lite': {input: 0.10, output: 0.40},
+    'gemini-2.0-flash': {input: 0.10, output: 0.40},
+    'gemini-2.0-flash-lite': {input: 0.075, output: 0.30},
+};
+
+/** Daily usage buckets older than this are dropped */
+export const USAGE_RETENTION_DAYS = 366;
+
+function readCount(value: unknown): number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Read token counts from Gemini usageMetadata or an OpenAI-style usage object
+ *
+ * @returns Token counts, or null when the provider reported none
+ */
+export function readTokenUsage(usage: unknown): TokenUsage | null {
+    if (!usage || typeof usage !== 'object') {
+        return null;
+    }
+
+    const fields = usage as Record<string, unknown>;
+    if ('promptTokenCount' in fields || 'candidatesTokenCount' in fields) {
+        // Thinking tokens are billed as output
+        return {
+            promptTokens: readCount(fields.promptTokenCount),
+            responseTokens: readCount(fields.candidatesTokenCount) + readCount(fields.thoughtsTokenCount),
+        };
+    }
+    if ('prompt_tokens' in fields || 'completion_tokens' in fields) {
+        return {
+            promptTokens: readCount(fields.prompt_tokens),
+            responseTokens: readCount(fields.completion_tokens),
+        };
+    }
+    return null;
+}
+
+/**
+ * Estimate the cost of a call in USD
+ *
+ * @returns The cost, or null for models without a known price
+ */
+export function estimateCostUsd(model: string, usage: TokenUsage): number | null {
+    const family = Object.keys(MODEL_PRICING)
+        .filter((name) => model === name || model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    if (!family) {
+        return null;
+    }
+
+    const pricing = MODEL_PRICING[family];
+    return (usage.promptTokens * pricing.input + usage.responseTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * History entry fields for a call's token usage
+ */
+export function toUsageFields(
+    model: string,
+    usage: TokenUsage | null,
+): Pick<GeminiCallHistoryEntry, 'promptTokens' | 'responseTokens' | 'costUsd'> {
+    if (!usage) {
+        return {};
+    }
+
+    const costUsd = estimateCostUsd(model, usage);
+    return {
+        promptTokens: usage.promptTokens,
+        responseTokens: usage.responseTokens,
+        ...(costUsd !== null ? {costUsd} : {}),
+    };
+}
+
+/**
+ * Add a call to its day's usage bucket (UTC), dropping expired buckets
+ */
+export function addToDailyUsage(
+    dailyUsage: Record<string, GeminiDailyUsage> | undefined,
+    entry: GeminiCallHistoryEntry,
+): Record<string, GeminiDailyUsage> {
+    const day = entry.timestamp.slice(0, 10);
+    const cutoff = new Date(Date.parse(entry.timestamp) - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+        .toISOString()
+        .slice(0, 10);
+
+    const kept = Object.fromEntries(Object.entries(dailyUsage ?? {}).filter(([key]) => key >= cutoff));
+    const bucket = kept[day] ?? {calls: 0, promptTokens: 0, responseTokens: 0, costUsd: 0};
+    kept[day] = {
+        calls: bucket.calls + 1,
+        promptTokens: bucket.promptTokens + (entry.promptTokens ?? 0),
+        responseTokens: bucket.responseTokens + (entry.responseTokens ?? 0),
+        costUsd: bucket.costUsd + (entry.costUsd ?? 0),
+    };
+    return kept;
+}
+
+/**
+ * Estimated spend in the calendar month (UTC) of `now`
+ */
+export function getMonthlyCostUsd(stats: GeminiStats | undefined, now: Date = new Date()): number {
+    const month = now.toISOString().slice(0, 7);
+    return Object.entries(stats?.dailyUsage ?? {})
+        .filter(([day]) => day.startsWith(month))
+        .reduce((total, [, usage]) => total + usage.costUsd, 0);
+}
+
+/**
+ * Whether this month's estimated spend has reached the budget
+ * (no budget set means never)
+ */
+export function hasReachedMonthlyBudget(
+    stats: GeminiStats | undefined,
+    budgetUsd: number | null | undefined,
+    now: Date = new Date(),
+): boolean {
+    return !!budgetUsd && budgetUsd > 0 && getMonthlyCostUsd(stats, now) >= budgetUsd;
+}
@@ -21,11 +21,15 @@ import {
     IS_PRODUCTION,
     NODE_ENV,
     PORT,
+    SERVER_REFRESH_ENABLED,
+    SQLITE_DATABASE_PATH,
+    STORAGE_BACKEND,
     validateConfig,
 } from './config.js';
 import routes from './routes.js';
 import {setupSwagger} from './swagger.js';
 import {runMigrations} from './migrations.js';
+import {startRefreshScheduler} from './refresh/index.js';
 
 // Validate configuration on startup
 try {
@@ -150,14 +154,24 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
         console.log(`Environment: ${NODE_ENV}`);
         console.log(`Port: ${PORT}`);
         console.log(`GCP Project: ${GCP_PROJECT_ID}`);
-        console.log(`Firestore Database: ${FIRESTORE_DATABASE_ID}`);
+        console.log(`Storage Backend: ${STORAGE_BACKEND}`);
+        if (STORAGE_BACKEND === 'firestore') {
+            console.log(`Firestore Database: ${FIRESTORE_DATABASE_ID}`);
+        } else {
+            console.log(`SQLite Database: ${SQLITE_DATABASE_PATH}`);
+        }
         console.log(`CORS Origin: ${IS_PRODUCTION ? ALLOWED_ORIGIN_EXTENSION : 'all (development)'}`);
+        console.log(`Server Refresh: ${SERVER_REFRESH_ENABLED ? 'enabled' : 'disabled'}`);
         console.log('='.repeat(60));
         console.log(`Server listening on http://localhost:${PORT}`);
         console.log(`API Docs: http://localhost:${PORT}/docs`);
         console.log(`OpenAPI Spec: http://localhost:${PORT}/openapi.json`);
         console.log('Health check: GET /api/healthz');
         console.log('='.repeat(60));
+
+        if (SERVER_REFRESH_ENABLED) {
+            startRefreshScheduler();
+        }
     });
 })();
 
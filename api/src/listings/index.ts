@@ -0,0 +1,27 @@
+/**
+ * Listing Query - Barrel Export
+ */
+
+export {
+    decodeListingCursor,
+    DEFAULT_LISTING_PAGE_SIZE,
+    encodeListingCursor,
+    isListingPageRequest,
+    LISTING_QUERY_PARAMS,
+    LISTING_SORT_OPTIONS,
+    LISTING_SORT_ORDERS,
+    ListingQueryError,
+    matchesListingQuery,
+    MAX_LISTING_PAGE_SIZE,
+    parseListingQuery,
+    parseListParam,
+} from './listingQuery.js';
+export type {
+    ListingCursor,
+    ListingPage,
+    ListingQuery,
+    ListingSortField,
+    ListingSortOption,
+    ListingSortOrder,
+    NumberRange,
+} from './listingQuery.js';
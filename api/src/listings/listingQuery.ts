@@ -0,0 +1,251 @@
+/**
+ * Listing Query
+ *
+ * Filters, sort orders and cursors for paginated GET /api/listings.
+ * The filters match the dashboard filters plus price, year and mileage ranges.
+ */
+
+import {type CarListing, ListingStatus} from '../types.js';
+
+/** Sort options offered by the dashboard */
+export type ListingSortOption = 'newest' | 'oldest' | 'price-asc' | 'price-desc' | 'name';
+
+export const LISTING_SORT_OPTIONS: ListingSortOption[] = ['newest', 'oldest', 'price-asc', 'price-desc', 'name'];
+
+/** Listing field a sort option orders by (each has a Firestore composite index with userId) */
+export type ListingSortField = 'firstSeenAt' | 'currentPrice' | 'title';
+
+export interface ListingSortOrder {
+    field: ListingSortField;
+    direction: 'asc' | 'desc';
+}
+
+export const LISTING_SORT_ORDERS: Record<ListingSortOption, ListingSortOrder> = {
+    'newest': {field: 'firstSeenAt', direction: 'desc'},
+    'oldest': {field: 'firstSeenAt', direction: 'asc'},
+    'price-asc': {field: 'currentPrice', direction: 'asc'},
+    'price-desc': {field: 'currentPrice', direction: 'desc'},
+    'name': {field: 'title', direction: 'asc'},
+};
+
+export const DEFAULT_LISTING_PAGE_SIZE = 50;
+export const MAX_LISTING_PAGE_SIZE = 200;
+
+/**
+ * Inclusive numeric range; open ends are null
+ */
+export interface NumberRange {
+    min: number | null;
+    max: number | null;
+}
+
+/**
+ * Position after the last listing of a page
+ */
+export interface ListingCursor {
+    sort: ListingSortOption;
+    /** Sort field value of the last listing */
+    value: string | number;
+    id: string;
+}
+
+/**
+ * Parsed query of a paginated listings request
+ */
+export interface ListingQuery {
+    status: ListingStatus | 'all';
+    archived: 'all' | 'active' | 'archived';
+    makes: string[];
+    models: string[];
+    /** Marketplace platforms (source.platform, e.g. "otomoto.pl") */
+    sources: string[];
+    price: NumberRange;
+    year: NumberRange;
+    mileage: NumberRange;
+    sort: ListingSortOption;
+    limit: number;
+    cursor: ListingCursor | null;
+}
+
+/**
+ * Page of listings; nextCursor is null on the last page
+ */
+export interface ListingPage<T extends CarListing = CarListing> {
+    listings: T[];
+    nextCursor: string | null;
+}
+
+/**
+ * Error thrown for an invalid query parameter (reported as 400)
+ */
+export class ListingQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ListingQueryError';
+    }
+}
+
+/** Query parameters that switch GET /api/listings to paginated responses */
+export const LISTING_QUERY_PARAMS = [
+    'status', 'archived', 'makes', 'models', 'sources',
+    'minPrice', 'maxPrice', 'minYear', 'maxYear', 'minMileage', 'maxMileage',
+    'sort', 'limit', 'cursor',
+] as const;
+
+/**
+ * Whether the request asks for a filtered or paginated listing page
+ */
+export function isListingPageRequest(params: Record<string, unknown>): boolean {
+    return LISTING_QUERY_PARAMS.some((name) => params[name] !== undefined);
+}
+
+/**
+ * Parse a comma-separated (or repeated) query parameter into trimmed values
+ */
+export function parseListParam(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : [value];
+    return values
+        .filter((item): item is string => typeof item === 'string')
+        .flatMap((item) => item.split(','))
+        .map((item) => item.trim())
+        .filter(Boolean);
+}
+
+function parseNumberParam(params: Record<string, unknown>, name: string): number | null {
+    const value = params[name];
+    if (value === undefined || value === '') {
+        return null;
+    }
+    const number = typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isFinite(number) || number < 0) {
+        throw new ListingQueryError(`${name} must be a non-negative number`);
+    }
+    return number;
+}
+
+function parseRange(params: Record<string, unknown>, name: string): NumberRange {
+    const suffix = name.charAt(0).toUpperCase() + name.slice(1);
+    const range = {
+        min: parseNumberParam(params, `min${suffix}`),
+        max: parseNumberParam(params, `max${suffix}`),
+    };
+    if (range.min !== null && range.max !== null && range.min > range.max) {
+        throw new ListingQueryError(`min${suffix} must not be greater than max${suffix}`);
+    }
+    return range;
+}
+
+function parseEnumParam<T extends string>(value: unknown, allowed: readonly T[], fallback: T, name: string): T {
+    if (value === undefined) {
+        return fallback;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+        throw new ListingQueryError(`${name} must be one of: ${allowed.join(', ')}`);
+    }
+    return value as T;
+}
+
+/**
+ * Encode the position after a listing as an opaque cursor
+ */
+export function encodeListingCursor(listing: CarListing, sort: ListingSortOption): string {
+    const cursor: ListingCursor = {sort, value: listing[LISTING_SORT_ORDERS[sort].field], id: listing.id};
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor returned by a previous page
+ *
+ * @throws ListingQueryError when the cursor is malformed or was issued for another sort
+ */
+export function decodeListingCursor(value: string, sort: ListingSortOption): ListingCursor {
+    let cursor: Partial<ListingCursor>;
+    try {
+        cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    } catch {
+        throw new ListingQueryError('cursor is invalid');
+    }
+    if (
+        !cursor || typeof cursor.id !== 'string' ||
+        (typeof cursor.value !== 'string' && typeof cursor.value !== 'number')
+    ) {
+        throw new ListingQueryError('cursor is invalid');
+    }
+    if (cursor.sort !== sort) {
+        throw new ListingQueryError('cursor was issued for a different sort');
+    }
+    return cursor as ListingCursor;
+}
+
+/**
+ * Parse and validate listing query parameters
+ *
+ * @throws ListingQueryError for the first invalid parameter
+ */
+export function parseListingQuery(params: Record<string, unknown>): ListingQuery {
+    const sort = parseEnumParam(params.sort, LISTING_SORT_OPTIONS, 'newest', 'sort');
+
+    let limit = DEFAULT_LISTING_PAGE_SIZE;
+    if (params.limit !== undefined) {
+        limit = typeof params.limit === 'string' ? Number(params.limit) : NaN;
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LISTING_PAGE_SIZE) {
+            throw new ListingQueryError(`limit must be an integer between 1 and ${MAX_LISTING_PAGE_SIZE}`);
+        }
+    }
+
+    if (params.cursor !== undefined && typeof params.cursor !== 'string') {
+        throw new ListingQueryError('cursor is invalid');
+    }
+
+    return {
+        status: parseEnumParam(params.status, ['all', ...Object.values(ListingStatus)], 'all', 'status'),
+        archived: parseEnumParam(params.archived, ['all', 'active', 'archived'] as const, 'all', 'archived'),
+        makes: parseListParam(params.makes),
+        models: parseListParam(params.models),
+        sources: parseListParam(params.sources),
+        price: parseRange(params, 'price'),
+        year: parseRange(params, 'year'),
+        mileage: parseRange(params, 'mileage'),
+        sort,
+        limit,
+        cursor: params.cursor ? decodeListingCursor(params.cursor, sort) : null,
+    };
+}
+
+const inRange = (value: number | null, range: NumberRange): boolean => {
+    if (range.min === null && range.max === null) {
+        return true;
+    }
+    return value !== null && (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+};
+
+/**
+ * Whether a listing passes the query filters
+ * Listings without a value for a ranged field are excluded once that range is set.
+ * Stored listings are not validated, so nested vehicle fields may be missing.
+ */
+export function matchesListingQuery(listing: CarListing, query: ListingQuery): boolean {
+    const make = listing.vehicle?.make;
+    const model = listing.vehicle?.model;
+    if (query.status !== 'all' && listing.status !== query.status) {
+        return false;
+    }
+    if (query.archived === 'active' && listing.isArchived) {
+        return false;
+    }
+    if (query.archived === 'archived' && !listing.isArchived) {
+        return false;
+    }
+    if (query.makes.length > 0 && !(make && query.makes.includes(make))) {
+        return false;
+    }
+    if (query.models.length > 0 && !(model && query.models.includes(model))) {
+        return false;
+    }
+    if (query.sources.length > 0 && !query.sources.includes(listing.source?.platform)) {
+        return false;
+    }
+    return inRange(listing.currentPrice, query.price) &&
+        inRange(listing.vehicle?.productionYear ?? null, query.year) &&
+        inRange(listing.vehicle?.mileage?.value ?? null, query.mileage);
+}
@@ -1,108 +1,52 @@
 /**
  * Database Migration System
  *
- * This module provides a simple migration system for Firestore.
- * Migrations are tracked in a `_migrations` collection to ensure
- * each migration runs only once, even across multiple Cloud Run instances.
+ * This module provides a simple, storage-agnostic migration system.
+ * Applied migrations and locks are tracked by the configured storage
+ * repository (a `_migrations` collection on Firestore, tables on SQLite)
+ * to ensure each migration runs only once, even across multiple
+ * Cloud Run instances.
  *
  * Key features:
  * - Idempotent: Safe to call on every startup
- * - Distributed-safe: Uses Firestore transactions to prevent race conditions
+ * - Distributed-safe: Locks are acquired in a backend transaction to prevent race conditions
  * - Ordered: Migrations run in order by their ID
  *
  * Migration files are located in ./migrations/ directory.
  */
 
-import {Firestore, Timestamp} from '@google-cloud/firestore';
-import {FIRESTORE_DATABASE_ID, GCP_PROJECT_ID} from './config.js';
+import {getRepository} from './repositories/index.js';
 
 // Import migration registry and types
 import {migrations} from './migrations/index.js';
-import type {Migration, MigrationRecord} from './migrations/types.js';
+import type {Migration} from './migrations/types.js';
 
 // Re-export types for external use
 export type {Migration} from './migrations/types.js';
 
-// Initialize Firestore
-const firestore = new Firestore({
-    projectId: GCP_PROJECT_ID,
-    databaseId: FIRESTORE_DATABASE_ID,
-});
-
-// Collection for tracking applied migrations
-const MIGRATIONS_COLLECTION = '_migrations';
-const migrationsCollection = firestore.collection(MIGRATIONS_COLLECTION);
+/** Locks older than this are considered abandoned by a crashed instance */
+const MIGRATION_LOCK_STALE_MS = 5 * 60 * 1000;
 
 // =============================================================================
 // Migration Runner
 // =============================================================================
 
-/**
- * Check if a migration has already been applied
- */
-async function isMigrationApplied(migrationId: string): Promise<boolean> {
-    const doc = await migrationsCollection.doc(migrationId).get();
-    return doc.exists;
-}
-
-/**
- * Record that a migration has been applied
- */
-async function recordMigration(
-    migration: Migration,
-    durationMs: number,
-): Promise<void> {
-    const record: MigrationRecord = {
-        id: migration.id,
-        description: migration.description,
-        appliedAt: Timestamp.now(),
-        durationMs,
-    };
-    await migrationsCollection.doc(migration.id).set(record);
-}
-
 /**
  * Run a single migration with locking to prevent concurrent execution
  */
 async function runMigrationWithLock(migration: Migration): Promise<boolean> {
-    const lockRef = migrationsCollection.doc(`${migration.id}_lock`);
-    const migrationRef = migrationsCollection.doc(migration.id);
+    const repository = getRepository();
 
     try {
-        // Use a transaction to ensure only one instance runs the migration
-        const result = await firestore.runTransaction(async (transaction) => {
-            const migrationDoc = await transaction.get(migrationRef);
-
-            // Already applied
-            if (migrationDoc.exists) {
-                return {applied: false, reason: 'already_applied'};
-            }
-
-            const lockDoc = await transaction.get(lockRef);
-
-            // Another instance is running this migration
-            if (lockDoc.exists) {
-                const lockData = lockDoc.data();
-                const lockTime = lockData?.lockedAt?.toDate();
-                const lockAge = lockTime ? Date.now() - lockTime.getTime() : Infinity;
-
-                // If lock is older than 5 minutes, consider it stale and proceed
-                if (lockAge < 5 * 60 * 1000) {
-                    return {applied: false, reason: 'locked'};
-                }
-            }
-
-            // Acquire lock
-            transaction.set(lockRef, {
-                lockedAt: Timestamp.now(),
-                lockedBy: process.env.K_REVISION || 'local',
-            });
-
-            return {applied: true, reason: 'proceed'};
-        });
-
-        if (!result.applied) {
-            if (result.reason === 'already_applied') {
+        // Only one instance acquires the lock for a given migration
+        const lockResult = await repository.acquireMigrationLock(
+            migration.id,
+            process.env.K_REVISION || 'local',
+            MIGRATION_LOCK_STALE_MS,
+        );
+
+        if (lockResult !== 'acquired') {
+            if (lockResult === 'already_applied') {
                 console.log(`  ✓ Migration ${migration.id} already applied`);
             } else {
                 console.log(`  ⏳ Migration ${migration.id} is being applied by another instance`);
@@ -115,21 +59,26 @@ async function runMigrationWithLock(migration: Migration): Promise<boolean> {
         console.log(`    ${migration.description}`);
 
         const startTime = Date.now();
-        await migration.up(firestore);
+        await migration.up(repository);
         const durationMs = Date.now() - startTime;
 
         // Record completion
-        await recordMigration(migration, durationMs);
+        await repository.recordMigration({
+            id: migration.id,
+            description: migration.description,
+            appliedAt: new Date(),
+            durationMs,
+        });
 
         // Remove lock
-        await lockRef.delete();
+        await repository.releaseMigrationLock(migration.id);
 
         console.log(`  ✓ Migration ${migration.id} completed in ${durationMs}ms`);
         return true;
     } catch (error) {
         // Clean up lock on error
         try {
-            await lockRef.delete();
+            await repository.releaseMigrationLock(migration.id);
         } catch {
             // Ignore cleanup errors
         }
@@ -149,8 +98,9 @@ export async function runMigrations(): Promise<void> {
     const pendingMigrations: Migration[] = [];
 
     // Check which migrations need to be applied
+    const repository = getRepository();
     for (const migration of migrations) {
-        const applied = await isMigrationApplied(migration.id);
+        const applied = await repository.getMigrationRecord(migration.id);
         if (!applied) {
             pendingMigrations.push(migration);
         }
@@ -200,15 +150,15 @@ export async function getMigrationStatus(): Promise<
         appliedAt?: Date;
     }> = [];
 
+    const repository = getRepository();
     for (const migration of migrations) {
-        const doc = await migrationsCollection.doc(migration.id).get();
-        const data = doc.data() as MigrationRecord | undefined;
+        const record = await repository.getMigrationRecord(migration.id);
 
         status.push({
             id: migration.id,
             description: migration.description,
-            applied: doc.exists,
-            appliedAt: data?.appliedAt?.toDate(),
+            applied: record !== null,
+            appliedAt: record?.appliedAt,
         });
     }
 
@@ -5,48 +5,34 @@
  * to the standardized ENDED status.
  */
 
-import {Firestore} from '@google-cloud/firestore';
-import {FIRESTORE_LISTINGS_COLLECTION} from '../config.js';
+import {ListingStatus} from '../types.js';
+import type {StorageRepository} from '../repositories/types.js';
 import type {Migration} from './types.js';
 
-// Firestore batch limit
-const BATCH_SIZE = 500;
-
 const migration: Migration = {
     id: '20251209_status_sold_expired_to_ended',
     description: 'Migrate listing statuses from sold/expired to ENDED',
-    up: async (db: Firestore): Promise<void> => {
-        const listingsCollection = db.collection(FIRESTORE_LISTINGS_COLLECTION);
+    up: async (repository: StorageRepository): Promise<void> => {
         const oldStatuses = ['sold', 'expired', 'SOLD', 'EXPIRED'];
-        const newStatus = 'ENDED';
+        const newStatus = ListingStatus.ENDED;
 
         let totalUpdated = 0;
 
         for (const oldStatus of oldStatuses) {
-            const snapshot = await listingsCollection
-                .where('status', '==', oldStatus)
-                .get();
+            const listings = await repository.getListingsByStatus(oldStatus);
 
-            if (snapshot.empty) {
+            if (listings.length === 0) {
                 continue;
             }
 
-            console.log(`  Found ${snapshot.size} document(s) with status "${oldStatus}"`);
-
-            // Process in batches
-            const docs = snapshot.docs;
-            for (let i = 0; i < docs.length; i += BATCH_SIZE) {
-                const batch = db.batch();
-                const batchDocs = docs.slice(i, i + BATCH_SIZE);
+            console.log(`  Found ${listings.length} document(s) with status "${oldStatus}"`);
 
-                for (const doc of batchDocs) {
-                    batch.update(doc.ref, {status: newStatus});
-                }
+            // Repository applies the updates in backend-sized batches
+            await repository.updateListings(
+                listings.map((listing) => ({id: listing.id, fields: {status: newStatus}})),
+            );
 
-                await batch.commit();
-            }
-
-            totalUpdated += snapshot.size;
+            totalUpdated += listings.length;
         }
 
         console.log(`  Updated ${totalUpdated} document(s) to status "${newStatus}"`);
@@ -54,4 +40,3 @@ const migration: Migration = {
 };
 
 export default migration;
-
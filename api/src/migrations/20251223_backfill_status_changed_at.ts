@@ -9,64 +9,43 @@
  * number of days (default 3 days).
  */
 
-import {Firestore} from '@google-cloud/firestore';
-import {FIRESTORE_LISTINGS_COLLECTION} from '../config.js';
+import {ListingStatus} from '../types.js';
+import type {StorageRepository} from '../repositories/types.js';
 import type {Migration} from './types.js';
 
-// Firestore batch limit
-const BATCH_SIZE = 500;
-
 const migration: Migration = {
     id: '20251223_backfill_status_changed_at',
     description: 'Backfill statusChangedAt from lastSeenAt for existing ENDED listings',
-    up: async (db: Firestore): Promise<void> => {
-        const listingsCollection = db.collection(FIRESTORE_LISTINGS_COLLECTION);
-
+    up: async (repository: StorageRepository): Promise<void> => {
         // Find all ENDED listings that don't have statusChangedAt set
-        const snapshot = await listingsCollection
-            .where('status', '==', 'ENDED')
-            .get();
+        const listings = await repository.getListingsByStatus(ListingStatus.ENDED);
 
-        if (snapshot.empty) {
+        if (listings.length === 0) {
             console.log('  No ENDED listings found - nothing to migrate');
             return;
         }
 
-        // Filter to only docs without statusChangedAt
-        const docsToUpdate = snapshot.docs.filter(doc => {
-            const data = doc.data();
-            return data.statusChangedAt === undefined || data.statusChangedAt === null;
-        });
+        // Filter to only listings without statusChangedAt
+        const listingsToUpdate = listings.filter(listing =>
+            listing.statusChangedAt === undefined || listing.statusChangedAt === null,
+        );
 
-        if (docsToUpdate.length === 0) {
-            console.log(`  Found ${snapshot.size} ENDED listing(s), all already have statusChangedAt set`);
+        if (listingsToUpdate.length === 0) {
+            console.log(`  Found ${listings.length} ENDED listing(s), all already have statusChangedAt set`);
             return;
         }
 
-        console.log(`  Found ${docsToUpdate.length} ENDED listing(s) without statusChangedAt (of ${snapshot.size} total)`);
-
-        // Process in batches
-        let totalUpdated = 0;
-        for (let i = 0; i < docsToUpdate.length; i += BATCH_SIZE) {
-            const batch = db.batch();
-            const batchDocs = docsToUpdate.slice(i, i + BATCH_SIZE);
+        console.log(`  Found ${listingsToUpdate.length} ENDED listing(s) without statusChangedAt (of ${listings.length} total)`);
 
-            for (const doc of batchDocs) {
-                const data = doc.data();
-                // Use lastSeenAt as the statusChangedAt baseline
-                // This is the best approximation we have for when the listing ended
-                const statusChangedAt = data.lastSeenAt || new Date().toISOString();
-                batch.update(doc.ref, {statusChangedAt});
-            }
+        await repository.updateListings(listingsToUpdate.map(listing => ({
+            id: listing.id,
+            // Use lastSeenAt as the statusChangedAt baseline
+            // This is the best approximation we have for when the listing ended
+            fields: {statusChangedAt: listing.lastSeenAt || new Date().toISOString()},
+        })));
 
-            await batch.commit();
-            totalUpdated += batchDocs.length;
-            console.log(`  Processed batch: ${totalUpdated}/${docsToUpdate.length}`);
-        }
-
-        console.log(`  Migrated ${totalUpdated} listing(s) - set statusChangedAt from lastSeenAt`);
+        console.log(`  Migrated ${listingsToUpdate.length} listing(s) - set statusChangedAt from lastSeenAt`);
     },
 };
 
 export default migration;
-
@@ -0,0 +1,45 @@
+/**
+ * Migration: Backfill Listing Revisions
+ *
+ * Delta sync (GET /api/listings?since=) selects listings by updatedAt and
+ * conditional writes compare revisions. Listings written before both fields
+ * existed get revision 1 and the migration time as updatedAt, so the first
+ * delta sync of every client picks them up.
+ */
+
+import {ListingStatus} from '../types.js';
+import type {StorageRepository} from '../repositories/types.js';
+import type {Migration} from './types.js';
+
+const migration: Migration = {
+    id: '20261019_backfill_listing_revisions',
+    description: 'Backfill revision and updatedAt for existing listings',
+    up: async (repository: StorageRepository): Promise<void> => {
+        // Earlier migrations normalized every status to ACTIVE or ENDED
+        const listings = (await Promise.all(
+            Object.values(ListingStatus).map((status) => repository.getListingsByStatus(status)),
+        )).flat();
+
+        const listingsToUpdate = listings.filter(listing =>
+            listing.revision === undefined || !listing.updatedAt,
+        );
+
+        if (listingsToUpdate.length === 0) {
+            console.log(`  Found ${listings.length} listing(s), all already have a revision`);
+            return;
+        }
+
+        const updatedAt = new Date().toISOString();
+        await repository.updateListings(listingsToUpdate.map(listing => ({
+            id: listing.id,
+            fields: {
+                revision: listing.revision ?? 1,
+                updatedAt: listing.updatedAt || updatedAt,
+            },
+        })));
+
+        console.log(`  Migrated ${listingsToUpdate.length} listing(s) - set revision and updatedAt`);
+    },
+};
+
+export default migration;
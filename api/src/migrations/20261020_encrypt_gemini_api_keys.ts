@@ -0,0 +1,42 @@
+/**
+ * Migration: Encrypt Gemini API Keys
+ *
+ * Settings used to store the Gemini API key in plain text (geminiApiKey).
+ * The key is now encrypted with SETTINGS_ENCRYPTION_KEY and kept in
+ * geminiApiKeyEncrypted; the plain text field is removed.
+ */
+
+import type {UserSettings} from '../types.js';
+import type {StorageRepository} from '../repositories/types.js';
+import {encryptSecret} from '../utils/secrets.js';
+import type {Migration} from './types.js';
+
+/** Settings as stored before this migration */
+type LegacyUserSettings = UserSettings & { geminiApiKey?: string };
+
+const migration: Migration = {
+    id: '20261020_encrypt_gemini_api_keys',
+    description: 'Encrypt Gemini API keys stored in user settings',
+    up: async (repository: StorageRepository): Promise<void> => {
+        const allSettings = await repository.getAllSettings() as LegacyUserSettings[];
+        const settingsToUpdate = allSettings.filter(settings => settings.geminiApiKey !== undefined);
+
+        if (settingsToUpdate.length === 0) {
+            console.log(`  Found ${allSettings.length} settings document(s), none with a plain text key`);
+            return;
+        }
+
+        for (const {geminiApiKey, ...settings} of settingsToUpdate) {
+            await repository.setSettings({
+                ...settings,
+                geminiApiKeyEncrypted: geminiApiKey
+                    ? encryptSecret(geminiApiKey)
+                    : settings.geminiApiKeyEncrypted ?? '',
+            });
+        }
+
+        console.log(`  Migrated ${settingsToUpdate.length} settings document(s) - encrypted Gemini API key`);
+    },
+};
+
+export default migration;
@@ -13,8 +13,12 @@
 import type {Migration} from './types.js';
 import statusSoldExpiredToEnded from './20251209_status_sold_expired_to_ended.js';
 import backfillStatusChangedAt from './20251223_backfill_status_changed_at.js';
+import backfillListingRevisions from './20261019_backfill_listing_revisions.js';
+import encryptGeminiApiKeys from './20261020_encrypt_gemini_api_keys.js';
 
 export const migrations: Migration[] = [
     statusSoldExpiredToEnded,
     backfillStatusChangedAt,
+    backfillListingRevisions,
+    encryptGeminiApiKeys,
 ];
@@ -4,10 +4,13 @@
  * Shared type definitions for the migration system.
  */
 
-import {Firestore} from '@google-cloud/firestore';
+import type {StorageRepository} from '../repositories/types.js';
 
 /**
  * Migration definition
+ *
+ * Migrations operate on the storage repository rather than a specific
+ * database client, so the same migration runs on every storage backend.
  */
 export interface Migration {
     /** Unique migration ID (use format: YYYYMMDD_description) */
@@ -15,16 +18,5 @@ export interface Migration {
     /** Human-readable description */
     description: string;
     /** Migration function to execute */
-    up: (db: Firestore) => Promise<void>;
-}
-
-/**
- * Migration record stored in Firestore
- */
-export interface MigrationRecord {
-    id: string;
-    description: string;
-    appliedAt: import('@google-cloud/firestore').Timestamp;
-    durationMs: number;
+    up: (repository: StorageRepository) => Promise<void>;
 }
-
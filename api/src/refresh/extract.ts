@@ -0,0 +1,111 @@
+/**
+ * Rule-Based Refresh Extraction
+ *
+ * Server-side counterpart of the extension's OTOMOTO extractor
+ * (extension/src/services/extraction), limited to what a refresh needs:
+ * price, currency and availability. Pages that state all three are
+ * refreshed without a Gemini call.
+ */
+
+import type {GeminiRefreshResult} from '../gemini/index.js';
+import {ListingStatus} from '../types.js';
+import {getMarketplaceId} from './marketplaces.js';
+
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+const NEXT_DATA_PATTERN = /<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i;
+
+/** schema.org availability values that mean the offer is gone */
+const UNAVAILABLE_OFFERS = ['OutOfStock', 'Discontinued', 'SoldOut'];
+
+/** Marketplaces whose pages carry an Offer in JSON-LD */
+const EXTRACTABLE_MARKETPLACES = ['otomoto'];
+
+interface ExtractedOffer {
+    price?: number;
+    currency?: string;
+    isAvailable?: boolean;
+}
+
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text.trim());
+    } catch {
+        return null;
+    }
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+/**
+ * Parse a price such as 129900 or "129 900"
+ */
+function parsePrice(value: unknown): number | undefined {
+    const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value : '';
+    const match = text.replace(/\s/g, '').match(/\d+(?:[.,]\d+)?/);
+    const price = match ? Number(match[0].replace(',', '.')) : NaN;
+    return Number.isFinite(price) && price > 0 ? price : undefined;
+}
+
+function readJsonLdOffer(html: string, offer: ExtractedOffer): void {
+    for (const match of html.matchAll(JSON_LD_PATTERN)) {
+        const blocks = parseJson(match[1]);
+        for (const block of Array.isArray(blocks) ? blocks : [blocks]) {
+            const offers = asObject(block)?.offers;
+            const entry = asObject(Array.isArray(offers) ? offers[0] : offers);
+            if (!entry) {
+                continue;
+            }
+
+            offer.price = parsePrice(entry.price) ?? offer.price;
+            if (typeof entry.priceCurrency === 'string' && entry.priceCurrency) {
+                offer.currency = entry.priceCurrency;
+            }
+            if (typeof entry.availability === 'string') {
+                const availability = entry.availability;
+                offer.isAvailable = !UNAVAILABLE_OFFERS.some((value) => availability.endsWith(value));
+            }
+        }
+    }
+}
+
+function readNextDataPrice(html: string, offer: ExtractedOffer): void {
+    const match = html.match(NEXT_DATA_PATTERN);
+    const data = match ? parseJson(match[1]) : null;
+    const price = asObject(asObject(asObject(asObject(asObject(data)?.props)?.pageProps)?.advert)?.price);
+    if (!price) {
+        return;
+    }
+
+    offer.price = parsePrice(price.value) ?? offer.price;
+    if (typeof price.currency === 'string' && price.currency) {
+        offer.currency = price.currency;
+    }
+}
+
+/**
+ * Read price and availability from a listing page
+ *
+ * @returns The refresh result, or null when the page does not state all of it
+ *          (or the marketplace has no extractor) and Gemini is needed
+ */
+export function extractRefreshResult(url: string, html: string): GeminiRefreshResult | null {
+    const marketplaceId = getMarketplaceId(url);
+    if (!marketplaceId || !EXTRACTABLE_MARKETPLACES.includes(marketplaceId)) {
+        return null;
+    }
+
+    const offer: ExtractedOffer = {};
+    readJsonLdOffer(html, offer);
+    readNextDataPrice(html, offer);
+
+    if (offer.price === undefined || !offer.currency || offer.isAvailable === undefined) {
+        return null;
+    }
+    return {
+        price: offer.price,
+        currency: offer.currency,
+        status: offer.isAvailable ? ListingStatus.ACTIVE : ListingStatus.ENDED,
+    };
+}
@@ -0,0 +1,82 @@
+/**
+ * Page Fetcher
+ *
+ * Server-side counterpart of the extension's fetch() path
+ * (extension/src/services/refresh/fetcher.ts). There is no background-tab
+ * fallback here: pages behind Cloudflare or a login are left to the extension.
+ */
+
+import {MAX_PAGE_TEXT_LENGTH, PAGE_FETCH_TIMEOUT_MS} from '../config.js';
+import {extractHtmlText} from './fingerprint.js';
+import {isExpiredListingPage} from './marketplaces.js';
+
+/**
+ * Result of fetching a listing page
+ */
+export interface FetchPageResult {
+    /** Whether the listing is expired (404/410 or the marketplace's "no longer available" page) */
+    expired: boolean;
+    /** HTTP status code */
+    status: number;
+    /** Extracted text content (only if status 200) */
+    textContent?: string;
+    /** Page title (only if status 200) */
+    pageTitle?: string;
+    /** Raw page HTML for rule-based extraction (only if status 200) */
+    html?: string;
+}
+
+/**
+ * Extract plain text from HTML for AI analysis (not for rendering)
+ */
+export function extractPageText(html: string): string {
+    return extractHtmlText(html).substring(0, MAX_PAGE_TEXT_LENGTH);
+}
+
+/**
+ * Fetch a listing page and return status + content in a single request
+ *
+ * @throws Error on network failures and timeouts
+ */
+export async function fetchListingPage(url: string): Promise<FetchPageResult> {
+    const response = await fetch(url, {
+        method: 'GET',
+        redirect: 'follow',
+        signal: AbortSignal.timeout(PAGE_FETCH_TIMEOUT_MS),
+    });
+
+    // Check for expired listing (404/410)
+    if (response.status === 404 || response.status === 410) {
+        return {
+            expired: true,
+            status: response.status,
+        };
+    }
+
+    if (!response.ok) {
+        return {
+            expired: false,
+            status: response.status,
+        };
+    }
+
+    const html = await response.text();
+    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
+    const textContent = extractPageText(html);
+
+    // Some marketplaces answer ended listings with 200 (notice page or redirect)
+    if (isExpiredListingPage(url, response.url || url, textContent)) {
+        return {
+            expired: true,
+            status: response.status,
+        };
+    }
+
+    return {
+        expired: false,
+        status: response.status,
+        textContent,
+        pageTitle: titleMatch ? titleMatch[1].trim() : '',
+        html,
+    };
+}
@@ -0,0 +1,61 @@
+/**
+ * Page Content Fingerprint
+ *
+ * Server-side counterpart of extension/src/services/refresh/fingerprint.ts.
+ * Both sides store the fingerprint on the same listing, so the algorithm
+ * must stay identical.
+ */
+
+/** Clock times ("12:05", "6:23:10") change on every load of some pages */
+const TIME_OF_DAY_PATTERN = /\b\d{1,2}:\d{2}(?::\d{2})?\b/g;
+
+/** Elements whose content is never visible page text */
+const NON_TEXT_ELEMENT_PATTERN = /<(script|style|noscript|template)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+
+/**
+ * Extract the visible text of an HTML page (for analysis, not for rendering).
+ * Fingerprints are computed from this text, so it must give the same output
+ * for the same HTML in the extension and on the server.
+ */
+export function extractHtmlText(html: string): string {
+    return html
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(NON_TEXT_ELEMENT_PATTERN, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Normalize page text so cosmetic differences don't change the fingerprint
+ */
+export function normalizePageContent(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(TIME_OF_DAY_PATTERN, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * 53-bit string hash (cyrb53), matching the extension's implementation
+ */
+function hash53(text: string): number {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Compute the fingerprint of a page's text content
+ */
+export function computeContentFingerprint(text: string): string {
+    return hash53(normalizePageContent(text)).toString(16).padStart(14, '0');
+}
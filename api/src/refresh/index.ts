@@ -0,0 +1,30 @@
+/**
+ * Server-Side Refresh - Barrel Export
+ */
+
+export {
+    isUserDueForRefresh,
+    refreshUserListings,
+    runServerRefresh,
+    selectListingsForServerRefresh,
+    startRefreshScheduler,
+} from './worker.js';
+export {refreshListing} from './refreshListing.js';
+export type {RefreshResult} from './refreshListing.js';
+export {fetchListingPage, extractPageText} from './fetcher.js';
+export type {FetchPageResult} from './fetcher.js';
+export {extractRefreshResult} from './extract.js';
+export {computeContentFingerprint, extractHtmlText, normalizePageContent} from './fingerprint.js';
+export {
+    getMarketplaceId,
+    isExpiredListingPage,
+    isServerFetchable,
+    normalizeCustomDomain,
+    parseCustomMarketplaces,
+} from './marketplaces.js';
+export type {CustomMarketplacesResult} from './marketplaces.js';
+export {
+    DEFAULT_ENDED_GRACE_PERIOD_DAYS,
+    shouldExcludeEndedListing,
+    sortListingsByRefreshPriority,
+} from './sorter.js';
@@ -0,0 +1,255 @@
+/**
+ * Server-Side Marketplace Rules
+ *
+ * Subset of the extension's marketplace config
+ * (extension/src/config/marketplaces.ts) that the refresh worker needs:
+ * which domains belong to which marketplace and whether their pages can
+ * be fetched without a logged-in browser session. Users' custom marketplaces
+ * are validated here when settings are saved, but never fetched by the server.
+ */
+
+import type {CustomMarketplace} from '../types.js';
+
+interface ServerMarketplace {
+    /** Marketplace ID (same as in the extension config) */
+    id: string;
+    /** Domains matched against the listing URL */
+    domains: string[];
+    /** Pages require a browser session - the server cannot refresh them */
+    neverFetch?: boolean;
+    /** Path of offer pages, to tell a redirect between offer URLs from one away from the listing */
+    offerPathPattern?: RegExp;
+    /** Text of the "listing no longer available" notice (case-insensitive), only checked after a redirect */
+    expiredTextPatterns?: string[];
+    /** Path prefixes of the pages ended listings redirect to (e.g. search results) */
+    expiredPathPrefixes?: string[];
+}
+
+/** Limits of user-defined marketplaces, checked when settings are saved */
+const MAX_CUSTOM_MARKETPLACES = 20;
+const MAX_CUSTOM_LIST_ITEMS = 20;
+const MAX_CUSTOM_TEXT_LENGTH = 200;
+
+/** Host names with letters-only TLDs; IP addresses never match */
+const DOMAIN_PATTERN = /^([a-z0-9-]+\.)+[a-z]{2,}$/;
+
+/** Local and internal host names, which must never be fetched by the server */
+const RESERVED_DOMAINS = ['localhost', 'local', 'localdomain', 'internal', 'intranet', 'lan', 'home.arpa'];
+
+const MARKETPLACES: ServerMarketplace[] = [
+    {
+        id: 'otomoto',
+        domains: ['otomoto.pl', 'www.otomoto.pl'],
+    },
+    {
+        id: 'autoplac',
+        domains: ['autoplac.pl', 'www.autoplac.pl'],
+    },
+    {
+        id: 'facebook-marketplace',
+        domains: ['facebook.com', 'www.facebook.com', 'm.facebook.com'],
+        // Facebook requires authentication and blocks fetch requests
+        neverFetch: true,
+    },
+    {
+        id: 'mobile-de',
+        domains: ['mobile.de', 'www.mobile.de', 'suchen.mobile.de', 'm.mobile.de'],
+        // mobile.de answers plain fetch requests with a bot check
+        neverFetch: true,
+    },
+    {
+        id: 'autoscout24',
+        domains: [
+            'autoscout24.com', 'autoscout24.de', 'autoscout24.at', 'autoscout24.be', 'autoscout24.es',
+            'autoscout24.fr', 'autoscout24.it', 'autoscout24.lu', 'autoscout24.nl', 'autoscout24.pl',
+        ],
+        offerPathPattern: /\/(angebote|offers|annunci|offres|aanbod|anuncios|oferta|oferty)\/[\w-]+-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i,
+        expiredTextPatterns: [
+            'nicht mehr verfügbar',
+            'no longer available',
+            'non è più disponibile',
+            'n\'est plus disponible',
+            'niet meer beschikbaar',
+            'ya no está disponible',
+            'nie jest już dostępne',
+        ],
+        expiredPathPrefixes: ['/lst'],
+    },
+    {
+        id: 'olx',
+        domains: ['olx.pl', 'www.olx.pl', 'm.olx.pl'],
+        offerPathPattern: /\/oferta\/[\w-]+-ID\w+\.html/,
+        expiredTextPatterns: [
+            'to ogłoszenie nie jest już dostępne',
+            'ogłoszenie jest nieaktywne',
+        ],
+        expiredPathPrefixes: ['/motoryzacja/', '/oferty/'],
+    },
+];
+
+/**
+ * Parse a URL, returning null when it is invalid
+ */
+function parseUrl(url: string): URL | null {
+    try {
+        return new URL(url);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Check if a hostname is the domain itself or one of its subdomains.
+ * Matching the whole hostname keeps URLs like https://otomoto.pl.attacker.tld/
+ * or http://169.254.169.254/?otomoto.pl from passing as a marketplace.
+ */
+function matchesDomain(hostname: string, domain: string): boolean {
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Get the marketplace for a listing URL
+ */
+function getMarketplaceForUrl(url: string): ServerMarketplace | null {
+    const hostname = parseUrl(url)?.hostname;
+    if (!hostname) {
+        return null;
+    }
+    return MARKETPLACES.find((marketplace) =>
+        marketplace.domains.some((domain) => matchesDomain(hostname, domain)),
+    ) || null;
+}
+
+/**
+ * Check if the server can refresh a listing by fetching its page.
+ * Only https URLs of built-in marketplaces are fetched; unknown marketplaces
+ * and neverFetch marketplaces are left to the extension.
+ *
+ * Users' custom marketplaces are never fetched here: their domains are
+ * user-controlled and could resolve (or redirect) to internal addresses of
+ * the worker's network, so the extension refreshes them from the browser.
+ *
+ * @param url - The listing URL
+ */
+export function isServerFetchable(url: string): boolean {
+    if (parseUrl(url)?.protocol !== 'https:') {
+        return false;
+    }
+
+    const marketplace = getMarketplaceForUrl(url);
+    return marketplace !== null && marketplace.neverFetch !== true;
+}
+
+/**
+ * Reduce a custom marketplace domain (or URL) to its host name
+ *
+ * @returns null for invalid input, IP addresses and local/internal host names
+ */
+export function normalizeCustomDomain(value: string): string | null {
+    const trimmed = value.trim();
+    const url = parseUrl(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    // URL parsing also turns shorthand IPs like "0x7f.1" into their dotted form
+    const hostname = url?.hostname.replace(/\.$/, '');
+    if (!hostname || !DOMAIN_PATTERN.test(hostname)) {
+        return null;
+    }
+    return RESERVED_DOMAINS.some((reserved) => matchesDomain(hostname, reserved)) ? null : hostname;
+}
+
+export type CustomMarketplacesResult =
+    | { marketplaces: CustomMarketplace[]; error?: undefined }
+    | { marketplaces?: undefined; error: string };
+
+const isTextList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.length <= MAX_CUSTOM_LIST_ITEMS &&
+    value.every((item) => typeof item === 'string' && item.length <= MAX_CUSTOM_TEXT_LENGTH);
+
+/**
+ * Validate the custom marketplaces sent with the user's settings.
+ * Domains are normalized to host names.
+ *
+ * @param value - customMarketplaces from the request body (null clears them)
+ * @returns The normalized definitions, or the first problem found
+ */
+export function parseCustomMarketplaces(value: unknown): CustomMarketplacesResult {
+    if (value === null) {
+        return {marketplaces: []};
+    }
+    if (!Array.isArray(value) || value.length > MAX_CUSTOM_MARKETPLACES) {
+        return {error: `customMarketplaces must be an array of at most ${MAX_CUSTOM_MARKETPLACES} marketplaces`};
+    }
+
+    const marketplaces: CustomMarketplace[] = [];
+    for (const item of value as Array<Record<string, unknown>>) {
+        if (typeof item !== 'object' || item === null) {
+            return {error: 'Each custom marketplace must be an object'};
+        }
+        const {id, name, domains, offerPagePatterns, excludePatterns, neverFetch} = item;
+        if (typeof id !== 'string' || !id || id.length > MAX_CUSTOM_TEXT_LENGTH) {
+            return {error: 'Custom marketplace must have a valid id field'};
+        }
+        if (typeof name !== 'string' || !name.trim() || name.length > MAX_CUSTOM_TEXT_LENGTH) {
+            return {error: 'Custom marketplace must have a valid name field'};
+        }
+        if (!isTextList(domains) || domains.length === 0) {
+            return {error: 'Custom marketplace must have a domains array'};
+        }
+        const hostnames = domains.map(normalizeCustomDomain);
+        if (hostnames.some((hostname) => hostname === null)) {
+            return {error: 'Custom marketplace domains must be public host names (no IP addresses or local names)'};
+        }
+        if (!isTextList(offerPagePatterns) || offerPagePatterns.length === 0 || !isTextList(excludePatterns)) {
+            return {error: 'Custom marketplace must have offerPagePatterns and excludePatterns arrays'};
+        }
+        if (typeof neverFetch !== 'boolean') {
+            return {error: 'Custom marketplace must have a boolean neverFetch field'};
+        }
+
+        marketplaces.push({
+            id,
+            name: name.trim(),
+            domains: Array.from(new Set(hostnames as string[])),
+            offerPagePatterns,
+            excludePatterns,
+            neverFetch,
+        });
+    }
+    return {marketplaces};
+}
+
+/**
+ * Check if a fetched page is the marketplace's "listing no longer available"
+ * page - for sites that answer ended listings with 200 instead of 404/410
+ *
+ * Only a redirect away from the offer counts: a live ad can mention the notice
+ * text in its description (same rule as the extension).
+ *
+ * @param url - The listing URL
+ * @param finalUrl - URL of the fetched page, after redirects
+ * @param pageText - Text content of the fetched page
+ */
+export function isExpiredListingPage(url: string, finalUrl: string, pageText: string): boolean {
+    const marketplace = getMarketplaceForUrl(url);
+    const finalParsed = parseUrl(finalUrl);
+    if (!marketplace || !finalParsed) {
+        return false;
+    }
+
+    const finalPath = finalParsed.pathname.toLowerCase();
+    const leftOffer = finalPath !== parseUrl(url)?.pathname.toLowerCase() &&
+        !marketplace.offerPathPattern?.test(finalParsed.pathname);
+    if (!leftOffer) {
+        return false;
+    }
+
+    const text = pageText.toLowerCase();
+    return (marketplace.expiredPathPrefixes ?? []).some((prefix) => finalPath.startsWith(prefix)) ||
+        (marketplace.expiredTextPatterns ?? []).some((pattern) => text.includes(pattern));
+}
+
+/**
+ * Get the marketplace ID for a listing URL (null for unknown marketplaces)
+ */
+export function getMarketplaceId(url: string): string | null {
+    return getMarketplaceForUrl(url)?.id ?? null;
+}
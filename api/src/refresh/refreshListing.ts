@@ -0,0 +1,179 @@
+/**
+ * Single Listing Refresh
+ *
+ * Server-side counterpart of extension/src/services/refresh/refreshListing.ts.
+ * Produces the same listing updates, tagged with the 'server' refresh source.
+ */
+
+import {RateLimitError, refreshListingWithGemini} from '../gemini/index.js';
+import {type CarListing, ListingStatus, type RefreshSource} from '../types.js';
+import {fetchListingPage} from './fetcher.js';
+import {extractRefreshResult} from './extract.js';
+import {computeContentFingerprint} from './fingerprint.js';
+
+/** Source recorded on listings and price points updated by the worker */
+const SERVER_SOURCE: RefreshSource = 'server';
+
+/**
+ * Drop a previous refresh error.
+ * The field is removed rather than set to undefined, which Firestore rejects.
+ */
+function clearRefreshError(listing: CarListing): CarListing {
+    const {lastRefreshError: _lastRefreshError, ...rest} = listing;
+    return rest;
+}
+
+/**
+ * Result of a listing refresh operation
+ */
+export interface RefreshResult {
+    listing: CarListing;
+    success: boolean;
+    error?: string;
+    rateLimited?: boolean;
+    /** Whether the page was unchanged since the last refresh, so Gemini was not called */
+    contentUnchanged?: boolean;
+}
+
+/**
+ * Refresh a single listing on the server.
+ *
+ * Follows the extension's rules:
+ * - 404/410 marks the listing ENDED
+ * - Every successful refresh appends a price point, except for ENDED listings
+ * - statusChangedAt is set when the listing transitions to ENDED
+ * - Gemini is skipped when the page markup states price and availability
+ * - Gemini is skipped when the page content fingerprint matches the stored one;
+ *   the check is recorded at the current price
+ * - A currency the user corrected (listed in fieldOverrides) is kept
+ *
+ * @param listing - The listing to refresh
+ * @param userId - Owner of the listing
+ * @param apiKey - Owner's Gemini API key
+ * @param model - Owner's Gemini model (GEMINI_MODEL by default)
+ */
+export async function refreshListing(
+    listing: CarListing,
+    userId: string,
+    apiKey: string,
+    model?: string,
+): Promise<RefreshResult> {
+    try {
+        const fetchResult = await fetchListingPage(listing.source.url);
+        const now = new Date().toISOString();
+
+        if (fetchResult.expired) {
+            return {
+                listing: {
+                    ...clearRefreshError(listing),
+                    status: ListingStatus.ENDED,
+                    statusChangedAt: listing.statusChangedAt ?? now,
+                    lastSeenAt: now,
+                    lastRefreshStatus: 'success',
+                    lastRefreshSource: SERVER_SOURCE,
+                },
+                success: true,
+            };
+        }
+
+        if (fetchResult.status !== 200) {
+            const errorMsg = `HTTP ${fetchResult.status}`;
+            return {
+                listing: {
+                    ...listing,
+                    lastRefreshStatus: 'error',
+                    lastRefreshError: errorMsg,
+                    lastRefreshSource: SERVER_SOURCE,
+                },
+                success: false,
+                error: `HTTP error: ${fetchResult.status}`,
+            };
+        }
+
+        // Unchanged page - record the check at the current price
+        const contentFingerprint = fetchResult.textContent
+            ? computeContentFingerprint(fetchResult.textContent)
+            : undefined;
+        if (contentFingerprint && listing.contentFingerprint === contentFingerprint) {
+            const unchangedListing = clearRefreshError(listing);
+            if (listing.status !== ListingStatus.ENDED) {
+                unchangedListing.priceHistory = [
+                    ...(listing.priceHistory || []),
+                    {date: now, price: listing.currentPrice, currency: listing.currency, source: SERVER_SOURCE},
+                ];
+            }
+            return {
+                listing: {
+                    ...unchangedListing,
+                    lastSeenAt: now,
+                    lastRefreshStatus: 'success',
+                    lastRefreshSource: SERVER_SOURCE,
+                },
+                success: true,
+                contentUnchanged: true,
+            };
+        }
+
+        // Pages that state price and availability in their markup skip Gemini
+        const result = extractRefreshResult(listing.source.url, fetchResult.html || '')
+            ?? await refreshListingWithGemini(
+                userId,
+                apiKey,
+                listing.source.url,
+                fetchResult.textContent || '',
+                fetchResult.pageTitle || listing.title,
+                model,
+            );
+
+        const updatedListing = clearRefreshError(listing);
+        const isAlreadyEnded = listing.status === ListingStatus.ENDED;
+        const priceToRecord = result.price > 0 ? result.price : listing.currentPrice;
+        const currencyToUse = listing.fieldOverrides?.currency
+            ? listing.currency
+            : result.currency || listing.currency;
+
+        // ENDED listings have frozen price history
+        if (!isAlreadyEnded) {
+            updatedListing.priceHistory = [
+                ...(listing.priceHistory || []),
+                {date: now, price: priceToRecord, currency: currencyToUse, source: SERVER_SOURCE},
+            ];
+            if (result.price > 0) {
+                updatedListing.currentPrice = result.price;
+            }
+        }
+
+        updatedListing.currency = currencyToUse;
+        updatedListing.status = result.status;
+        updatedListing.lastSeenAt = now;
+        updatedListing.lastRefreshStatus = 'success';
+        updatedListing.lastRefreshSource = SERVER_SOURCE;
+        if (contentFingerprint) {
+            updatedListing.contentFingerprint = contentFingerprint;
+        }
+
+        if (listing.status === ListingStatus.ACTIVE && result.status === ListingStatus.ENDED) {
+            updatedListing.statusChangedAt = now;
+        }
+
+        return {
+            listing: updatedListing,
+            success: true,
+        };
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[ServerRefresh] Failed to refresh ${listing.source.url}:`, error);
+
+        return {
+            listing: {
+                ...listing,
+                lastRefreshStatus: 'error',
+                lastRefreshError: errorMsg,
+                lastRefreshSource: SERVER_SOURCE,
+            },
+            success: false,
+            error: errorMsg,
+            rateLimited: error instanceof RateLimitError,
+        };
+    }
+}
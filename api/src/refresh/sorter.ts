@@ -0,0 +1,59 @@
+/**
+ * Listing Sorter
+ *
+ * Refresh eligibility and ordering rules shared with the extension
+ * (extension/src/services/refresh/sorter.ts).
+ */
+
+import {type CarListing, ListingStatus} from '../types.js';
+
+/** Default grace period for ENDED listings (days) */
+export const DEFAULT_ENDED_GRACE_PERIOD_DAYS = 3;
+
+/**
+ * Check if an ENDED listing is past its grace period and should no longer
+ * be refreshed. Falls back to lastSeenAt for listings that ended before
+ * statusChangedAt was tracked.
+ */
+export function shouldExcludeEndedListing(
+    listing: CarListing,
+    gracePeriodDays: number = DEFAULT_ENDED_GRACE_PERIOD_DAYS,
+    now: Date = new Date(),
+): boolean {
+    if (listing.status !== ListingStatus.ENDED) {
+        return false;
+    }
+
+    const endedDate = new Date(listing.statusChangedAt ?? listing.lastSeenAt);
+    const cutoffDate = new Date(now);
+    cutoffDate.setDate(cutoffDate.getDate() - gracePeriodDays);
+
+    return endedDate < cutoffDate;
+}
+
+/**
+ * Sort listings by refresh priority:
+ * 1. Never refreshed items first
+ * 2. Successfully refreshed items (oldest first)
+ * 3. Failed items last
+ */
+export function sortListingsByRefreshPriority<T extends CarListing>(listings: T[]): T[] {
+    return [...listings].sort((a, b) => {
+        const aHasNeverRefreshed = !a.lastSeenAt || !a.lastRefreshStatus;
+        const bHasNeverRefreshed = !b.lastSeenAt || !b.lastRefreshStatus;
+
+        if (aHasNeverRefreshed && !bHasNeverRefreshed) return -1;
+        if (!aHasNeverRefreshed && bHasNeverRefreshed) return 1;
+
+        const aIsSuccess = a.lastRefreshStatus === 'success';
+        const bIsSuccess = b.lastRefreshStatus === 'success';
+
+        if (aIsSuccess && !bIsSuccess) return -1;
+        if (!aIsSuccess && bIsSuccess) return 1;
+
+        const aTime = a.lastSeenAt ? new Date(a.lastSeenAt).getTime() : 0;
+        const bTime = b.lastSeenAt ? new Date(b.lastSeenAt).getTime() : 0;
+
+        return aTime - bTime;
+    });
+}
@@ -0,0 +1,205 @@
+/**
+ * Server-Side Refresh Worker
+ *
+ * Refreshes listings for users who enabled `serverRefreshEnabled`, so
+ * price history keeps growing while their browser is closed.
+ *
+ * Each tick the worker:
+ * 1. Loads settings of opted-in users
+ * 2. Picks users whose last server run is older than checkFrequencyMinutes
+ *    and who have not reached their monthly LLM budget
+ * 3. Refreshes their eligible listings one by one (same rules as the extension)
+ * 4. Records lastServerRefreshTime / lastServerRefreshCount in their settings
+ *    and the Gemini calls saved on unchanged pages
+ */
+
+import {SERVER_REFRESH_DELAY_MS, SERVER_REFRESH_TICK_MINUTES} from '../config.js';
+import {
+    getGeminiApiKey,
+    getListingById,
+    getListingsByUserId,
+    getServerRefreshSettings,
+    getUserSettings,
+    ListingConflictError,
+    saveListing,
+    saveUserSettings,
+} from '../db.js';
+import {hasReachedMonthlyBudget, recordSavedCalls, resolveGeminiModel} from '../gemini/index.js';
+import type {CarListing, ListingDocument, UserSettings} from '../types.js';
+import {isServerFetchable} from './marketplaces.js';
+import {refreshListing} from './refreshListing.js';
+import {
+    DEFAULT_ENDED_GRACE_PERIOD_DAYS,
+    shouldExcludeEndedListing,
+    sortListingsByRefreshPriority,
+} from './sorter.js';
+
+/** Prevents overlapping runs when a tick takes longer than the interval */
+let isRunning = false;
+
+/**
+ * Check if a user is due for a server-side refresh run
+ */
+export function isUserDueForRefresh(settings: UserSettings, now: Date = new Date()): boolean {
+    if (!settings.serverRefreshEnabled || !settings.geminiApiKeyEncrypted) {
+        return false;
+    }
+    if (hasReachedMonthlyBudget(settings.geminiStats, settings.monthlyBudgetUsd, now)) {
+        return false;
+    }
+    if (!settings.lastServerRefreshTime) {
+        return true;
+    }
+
+    const elapsedMs = now.getTime() - new Date(settings.lastServerRefreshTime).getTime();
+    return elapsedMs >= settings.checkFrequencyMinutes * 60 * 1000;
+}
+
+/**
+ * Select listings the server should refresh, in priority order.
+ *
+ * Skips archived listings, marketplaces the server cannot fetch, ENDED
+ * listings past the grace period, and listings already checked within
+ * checkFrequencyMinutes (e.g. by the extension).
+ */
+export function selectListingsForServerRefresh<T extends CarListing>(
+    listings: T[],
+    settings: UserSettings,
+    now: Date = new Date(),
+): T[] {
+    const gracePeriodDays = settings.endedListingGracePeriodDays ?? DEFAULT_ENDED_GRACE_PERIOD_DAYS;
+    const recentCutoff = now.getTime() - settings.checkFrequencyMinutes * 60 * 1000;
+
+    const eligible = listings.filter((listing) =>
+        !listing.isArchived &&
+        isServerFetchable(listing.source.url) &&
+        !shouldExcludeEndedListing(listing, gracePeriodDays, now) &&
+        !(listing.lastSeenAt && new Date(listing.lastSeenAt).getTime() > recentCutoff),
+    );
+
+    return sortListingsByRefreshPriority(eligible);
+}
+
+/**
+ * Strip storage-only fields before writing a listing back
+ */
+function toCarListing(document: ListingDocument): CarListing {
+    const {userId: _userId, docId: _docId, ...listing} = document;
+    return listing;
+}
+
+/**
+ * Save a refreshed listing unless the user edited or deleted it while it was being fetched
+ *
+ * @returns false when the listing changed in the meantime (the user's change wins)
+ */
+async function saveRefreshedListing(listing: CarListing, userId: string, revision: number): Promise<boolean> {
+    try {
+        await saveListing(listing, userId, revision);
+        return true;
+    } catch (error) {
+        if (!(error instanceof ListingConflictError)) {
+            throw error;
+        }
+        console.warn(`[ServerRefresh] Listing ${listing.id} changed during refresh, skipping`);
+        return false;
+    }
+}
+
+/**
+ * Refresh all eligible listings of a single user
+ *
+ * @returns Number of listings refreshed successfully
+ */
+export async function refreshUserListings(settings: UserSettings, now: Date = new Date()): Promise<number> {
+    const {userId} = settings;
+    const geminiApiKey = getGeminiApiKey(settings);
+    const geminiModel = resolveGeminiModel(settings);
+    const listings = selectListingsForServerRefresh(await getListingsByUserId(userId), settings, now);
+    let refreshedCount = 0;
+    let savedCallCount = 0;
+
+    for (let i = 0; i < listings.length; i++) {
+        // Re-read so edits and deletions made during the run are not overwritten
+        const current = await getListingById(listings[i].id, userId);
+        if (!current || current.isArchived) {
+            continue;
+        }
+
+        // Calls made earlier in the run count towards the budget
+        if (i > 0 && settings.monthlyBudgetUsd) {
+            const {geminiStats} = await getUserSettings(userId);
+            if (hasReachedMonthlyBudget(geminiStats, settings.monthlyBudgetUsd, now)) {
+                console.warn(`[ServerRefresh] Monthly budget reached for user ${userId}, stopping run`);
+                break;
+            }
+        }
+
+        const result = await refreshListing(toCarListing(current), userId, geminiApiKey, geminiModel);
+        const saved = await saveRefreshedListing(result.listing, userId, current.revision ?? 0);
+
+        if (saved && result.success) {
+            refreshedCount++;
+        }
+        if (result.contentUnchanged) {
+            savedCallCount++;
+        }
+        if (result.rateLimited) {
+            console.warn(`[ServerRefresh] Rate limited for user ${userId}, stopping run`);
+            break;
+        }
+        if (i < listings.length - 1) {
+            await new Promise((resolve) => setTimeout(resolve, SERVER_REFRESH_DELAY_MS));
+        }
+    }
+
+    await saveUserSettings(userId, {
+        lastServerRefreshTime: now.toISOString(),
+        lastServerRefreshCount: refreshedCount,
+    });
+    await recordSavedCalls(userId, savedCallCount);
+
+    return refreshedCount;
+}
+
+/**
+ * Run one worker tick: refresh listings of every user who is due.
+ * Errors for one user are logged and do not stop the others.
+ */
+export async function runServerRefresh(now: Date = new Date()): Promise<void> {
+    if (isRunning) {
+        console.log('[ServerRefresh] Previous run still in progress, skipping tick');
+        return;
+    }
+
+    isRunning = true;
+    try {
+        const dueUsers = (await getServerRefreshSettings())
+            .filter((settings) => isUserDueForRefresh(settings, now));
+
+        for (const settings of dueUsers) {
+            try {
+                const count = await refreshUserListings(settings, now);
+                console.log(`[ServerRefresh] Refreshed ${count} listing(s) for user ${settings.userId}`);
+            } catch (error) {
+                console.error(`[ServerRefresh] Run failed for user ${settings.userId}:`, error);
+            }
+        }
+    } finally {
+        isRunning = false;
+    }
+}
+
+/**
+ * Start the periodic refresh worker
+ *
+ * @returns Interval handle (used to stop the scheduler)
+ */
+export function startRefreshScheduler(): ReturnType<typeof setInterval> {
+    console.log(`[ServerRefresh] Scheduler started (every ${SERVER_REFRESH_TICK_MINUTES} min)`);
+    return setInterval(() => {
+        runServerRefresh().catch((error) => {
+            console.error('[ServerRefresh] Tick failed:', error);
+        });
+    }, SERVER_REFRESH_TICK_MINUTES * 60 * 1000);
+}
@@ -0,0 +1,493 @@
+/**
+ * Firestore Storage Repository
+ *
+ * Initializes Firestore using Application Default Credentials (ADC).
+ * On Cloud Run, ADC automatically uses the service account assigned to the service.
+ *
+ * IMPORTANT: Ensure the Cloud Run service account has the following IAM roles:
+ * - roles/datastore.user (for Firestore read/write)
+ *
+ * INDEXING NOTE:
+ * The "listings" collection requires a single-field index on the "userId" field
+ * for efficient queries. This index is typically auto-created by Firestore,
+ * but you can verify/create it in the Firebase Console:
+ * 1. Go to Firestore > Indexes
+ * 2. Ensure "listings" collection has an index on "userId" (Ascending)
+ *
+ * Delta sync (GET /api/listings?since=) additionally needs composite indexes:
+ * - "listings": userId (Ascending) + updatedAt (Ascending)
+ * - "listing_tombstones": userId (Ascending) + deletedAt (Ascending)
+ *
+ * Paginated listing queries order by the sort field within a user, one index per sort:
+ * - "listings": userId (Ascending) + firstSeenAt (Ascending / Descending)
+ * - "listings": userId (Ascending) + currentPrice (Ascending / Descending)
+ * - "listings": userId (Ascending) + title (Ascending)
+ * All indexes are declared in terraform/modules/firestore.
+ */
+
+import {FieldPath, Firestore, Timestamp} from '@google-cloud/firestore';
+import {
+    FIRESTORE_DATABASE_ID,
+    FIRESTORE_GEMINI_HISTORY_COLLECTION,
+    FIRESTORE_LISTING_TOMBSTONES_COLLECTION,
+    FIRESTORE_LISTINGS_COLLECTION,
+    FIRESTORE_LISTINGS_USER_FIELD,
+    FIRESTORE_MIGRATIONS_COLLECTION,
+    FIRESTORE_SAVED_SEARCHES_COLLECTION,
+    FIRESTORE_SETTINGS_COLLECTION,
+    FIRESTORE_TOKEN_BLACKLIST_COLLECTION,
+    FIRESTORE_USERS_COLLECTION,
+    GCP_PROJECT_ID,
+} from '../config.js';
+import type {
+    GeminiHistoryDocument,
+    ListingDocument,
+    ListingTombstoneDocument,
+    SavedSearchDocument,
+    User,
+    UserSettings,
+} from '../types.js';
+import type {
+    AppliedMigrationRecord,
+    BlacklistedTokenRecord,
+    ListingFieldUpdate,
+    MigrationLockResult,
+    StorageRepository,
+} from './types.js';
+
+/** Firestore batch write limit */
+const BATCH_SIZE = 500;
+
+/**
+ * Token blacklist entry stored in Firestore
+ *
+ * IMPORTANT: The `expireAt` field is a Firestore Timestamp used for automatic
+ * TTL (Time-To-Live) deletion. You MUST configure TTL in Firebase Console:
+ *
+ * 1. Go to Firebase Console > Firestore Database
+ * 2. Click on "Time-to-live" in the left sidebar
+ * 3. Click "Create policy"
+ * 4. Collection group: "token_blacklist"
+ * 5. Timestamp field: "expireAt"
+ * 6. Click "Create"
+ *
+ * Once configured, Firestore will automatically delete documents
+ * when their `expireAt` timestamp is reached (within 24-72 hours typically).
+ */
+interface BlacklistedTokenDocument {
+    tokenId: string;
+    userId: string;
+    blacklistedAt: string;
+    /** Firestore Timestamp for TTL auto-deletion */
+    expireAt: Timestamp;
+}
+
+/**
+ * Migration record stored in Firestore
+ */
+interface MigrationDocument {
+    id: string;
+    description: string;
+    appliedAt: Timestamp;
+    durationMs: number;
+}
+
+/**
+ * Create a Firestore-backed repository
+ *
+ * @param firestore - Firestore client (defaults to ADC-configured client)
+ */
+export function createFirestoreRepository(
+    firestore: Firestore = new Firestore({
+        projectId: GCP_PROJECT_ID,
+        databaseId: FIRESTORE_DATABASE_ID,
+    }),
+): StorageRepository {
+    const usersCollection = firestore.collection(FIRESTORE_USERS_COLLECTION);
+    const listingsCollection = firestore.collection(FIRESTORE_LISTINGS_COLLECTION);
+    const tombstonesCollection = firestore.collection(FIRESTORE_LISTING_TOMBSTONES_COLLECTION);
+    const settingsCollection = firestore.collection(FIRESTORE_SETTINGS_COLLECTION);
+    const savedSearchesCollection = firestore.collection(FIRESTORE_SAVED_SEARCHES_COLLECTION);
+    const geminiHistoryCollection = firestore.collection(FIRESTORE_GEMINI_HISTORY_COLLECTION);
+    const tokenBlacklistCollection = firestore.collection(FIRESTORE_TOKEN_BLACKLIST_COLLECTION);
+    const migrationsCollection = firestore.collection(FIRESTORE_MIGRATIONS_COLLECTION);
+
+    const lockRef = (migrationId: string) => migrationsCollection.doc(`${migrationId}_lock`);
+
+    return {
+        backend: 'firestore',
+
+        // =====================================================================
+        // Users
+        // =====================================================================
+
+        async getUser(userId) {
+            const doc = await usersCollection.doc(userId).get();
+            return doc.exists ? doc.data() as User : null;
+        },
+
+        async createUser(user) {
+            await usersCollection.doc(user.id).set(user);
+        },
+
+        async updateUser(userId, fields) {
+            await usersCollection.doc(userId).update(fields);
+        },
+
+        // =====================================================================
+        // Listings
+        // =====================================================================
+
+        async getListing(listingId) {
+            const doc = await listingsCollection.doc(listingId).get();
+            if (!doc.exists) {
+                return null;
+            }
+            return {...doc.data() as ListingDocument, docId: doc.id};
+        },
+
+        /**
+         * INDEXING: This query uses a simple where() on userId field.
+         * Firestore will use a single-field index on "userId" which is
+         * automatically created. No composite index required.
+         */
+        async getListingsByUser(userId) {
+            const snapshot = await listingsCollection
+                .where(FIRESTORE_LISTINGS_USER_FIELD, '==', userId)
+                .get();
+
+            const listings: ListingDocument[] = [];
+            snapshot.forEach((doc) => {
+                listings.push({...doc.data() as ListingDocument, docId: doc.id});
+            });
+            return listings;
+        },
+
+        async getListingsUpdatedSince(userId, since) {
+            const snapshot = await listingsCollection
+                .where(FIRESTORE_LISTINGS_USER_FIELD, '==', userId)
+                .where('updatedAt', '>', since)
+                .get();
+            return snapshot.docs.map((doc) => ({...doc.data() as ListingDocument, docId: doc.id}));
+        },
+
+        /**
+         * INDEXING: Needs the userId + sort field composite index of the requested
+         * order. Ties are broken by document ID (= listing ID) in the same direction,
+         * which the composite index already covers.
+         */
+        async getListingsOrdered(userId, {order, startAfter, limit}) {
+            let query = listingsCollection
+                .where(FIRESTORE_LISTINGS_USER_FIELD, '==', userId)
+                .orderBy(order.field, order.direction)
+                .orderBy(FieldPath.documentId(), order.direction);
+            if (startAfter) {
+                query = query.startAfter(startAfter.value, startAfter.id);
+            }
+            const snapshot = await query.limit(limit).get();
+            return snapshot.docs.map((doc) => ({...doc.data() as ListingDocument, docId: doc.id}));
+        },
+
+        async getListingsByStatus(status) {
+            const snapshot = await listingsCollection.where('status', '==', status).get();
+            return snapshot.docs.map((doc) => ({...doc.data() as ListingDocument, docId: doc.id}));
+        },
+
+        async setListing(listing) {
+            // Use listing.id as the document ID for easy lookup
+            await listingsCollection.doc(listing.id).set(listing);
+        },
+
+        async replaceListings(deleteIds, listings) {
+            // Use batched writes for atomicity
+            const batch = firestore.batch();
+            for (const id of deleteIds) {
+                batch.delete(listingsCollection.doc(id));
+            }
+            for (const listing of listings) {
+                batch.set(listingsCollection.doc(listing.id), listing);
+            }
+            await batch.commit();
+        },
+
+        async updateListings(updates: ListingFieldUpdate[]) {
+            for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+                const batch = firestore.batch();
+                for (const update of updates.slice(i, i + BATCH_SIZE)) {
+                    batch.update(listingsCollection.doc(update.id), update.fields);
+                }
+                await batch.commit();
+            }
+        },
+
+        async deleteListing(listingId) {
+            await listingsCollection.doc(listingId).delete();
+        },
+
+        async commitListings(commit) {
+            return firestore.runTransaction(async (transaction) => {
+                // Firestore transactions need every read before the first write
+                const snapshots = await Promise.all(commit.preconditions.map(({id}) =>
+                    transaction.get(listingsCollection.doc(id))));
+                const failedIds = commit.preconditions
+                    .filter(({revision}, index) => {
+                        const stored = snapshots[index].data() as ListingDocument | undefined;
+                        const storedRevision = stored && stored.userId === commit.userId ? stored.revision ?? 0 : null;
+                        return storedRevision !== revision;
+                    })
+                    .map(({id}) => id);
+                if (failedIds.length > 0) {
+                    return failedIds;
+                }
+
+                for (const id of commit.deleteIds) {
+                    transaction.delete(listingsCollection.doc(id));
+                }
+                for (const listing of commit.listings) {
+                    transaction.set(listingsCollection.doc(listing.id), listing);
+                }
+                for (const tombstone of commit.tombstones) {
+                    transaction.set(tombstonesCollection.doc(tombstone.id), tombstone);
+                }
+                for (const id of commit.deleteTombstoneIds) {
+                    transaction.delete(tombstonesCollection.doc(id));
+                }
+                return [];
+            });
+        },
+
+        // =====================================================================
+        // Listing Tombstones
+        // =====================================================================
+
+        async getListingTombstones(userId, since) {
+            const snapshot = await tombstonesCollection
+                .where('userId', '==', userId)
+                .where('deletedAt', '>', since)
+                .get();
+            return snapshot.docs.map((doc) => doc.data() as ListingTombstoneDocument);
+        },
+
+        // =====================================================================
+        // Settings
+        // =====================================================================
+
+        async getSettings(userId) {
+            const doc = await settingsCollection.doc(userId).get();
+            return doc.exists ? doc.data() as UserSettings : null;
+        },
+
+        async setSettings(settings) {
+            await settingsCollection.doc(settings.userId).set(settings);
+        },
+
+        async updateSettings(userId, update) {
+            const ref = settingsCollection.doc(userId);
+            return firestore.runTransaction(async (transaction) => {
+                const doc = await transaction.get(ref);
+                const stored = doc.exists ? doc.data() as UserSettings : null;
+                const updated = update(stored);
+                if (!updated) {
+                    return stored;
+                }
+                transaction.set(ref, updated);
+                return updated;
+            });
+        },
+
+        async getServerRefreshSettings() {
+            const snapshot = await settingsCollection.where('serverRefreshEnabled', '==', true).get();
+            return snapshot.docs.map((doc) => doc.data() as UserSettings);
+        },
+
+        async getAllSettings() {
+            const snapshot = await settingsCollection.get();
+            return snapshot.docs.map((doc) => doc.data() as UserSettings);
+        },
+
+        // =====================================================================
+        // Saved Searches
+        // =====================================================================
+
+        async getSavedSearch(searchId) {
+            const doc = await savedSearchesCollection.doc(searchId).get();
+            return doc.exists ? doc.data() as SavedSearchDocument : null;
+        },
+
+        async getSavedSearchesByUser(userId) {
+            const snapshot = await savedSearchesCollection.where('userId', '==', userId).get();
+            return snapshot.docs.map((doc) => doc.data() as SavedSearchDocument);
+        },
+
+        async setSavedSearch(search) {
+            await savedSearchesCollection.doc(search.id).set(search);
+        },
+
+        async updateSavedSearch(searchId, update) {
+            const ref = savedSearchesCollection.doc(searchId);
+            return firestore.runTransaction(async (transaction) => {
+                const doc = await transaction.get(ref);
+                const stored = doc.exists ? doc.data() as SavedSearchDocument : null;
+                const updated = update(stored);
+                if (!updated) {
+                    return stored;
+                }
+                transaction.set(ref, updated);
+                return updated;
+            });
+        },
+
+        async deleteSavedSearch(searchId) {
+            await savedSearchesCollection.doc(searchId).delete();
+        },
+
+        // =====================================================================
+        // Gemini History
+        // =====================================================================
+
+        async getGeminiHistory(userId, limit) {
+            const snapshot = await geminiHistoryCollection
+                .where('userId', '==', userId)
+                .orderBy('timestamp', 'desc')
+                .limit(limit)
+                .get();
+
+            const history: GeminiHistoryDocument[] = [];
+            snapshot.forEach((doc) => {
+                history.push(doc.data() as GeminiHistoryDocument);
+            });
+            return history;
+        },
+
+        async setGeminiHistoryEntries(entries) {
+            const batch = firestore.batch();
+            for (const entry of entries) {
+                // Use the entry's id as the document ID
+                batch.set(geminiHistoryCollection.doc(entry.id), entry);
+            }
+            await batch.commit();
+        },
+
+        async deleteGeminiHistory(userId) {
+            const snapshot = await geminiHistoryCollection
+                .where('userId', '==', userId)
+                .get();
+
+            if (snapshot.empty) {
+                return 0;
+            }
+
+            const batch = firestore.batch();
+            snapshot.forEach((doc) => {
+                batch.delete(doc.ref);
+            });
+            await batch.commit();
+            return snapshot.size;
+        },
+
+        // =====================================================================
+        // Token Blacklist
+        // =====================================================================
+
+        async setBlacklistedToken(entry: BlacklistedTokenRecord) {
+            const document: BlacklistedTokenDocument = {
+                tokenId: entry.tokenId,
+                userId: entry.userId,
+                blacklistedAt: entry.blacklistedAt,
+                expireAt: Timestamp.fromDate(entry.expiresAt),
+            };
+            await tokenBlacklistCollection.doc(entry.tokenId).set(document);
+        },
+
+        async hasBlacklistedToken(tokenId) {
+            const doc = await tokenBlacklistCollection.doc(tokenId).get();
+            return doc.exists;
+        },
+
+        async deleteExpiredBlacklistedTokens(now, limit) {
+            const snapshot = await tokenBlacklistCollection
+                .where('expireAt', '<', Timestamp.fromDate(now))
+                .limit(limit)
+                .get();
+
+            if (snapshot.empty) {
+                return 0;
+            }
+
+            const batch = firestore.batch();
+            snapshot.forEach((doc) => {
+                batch.delete(doc.ref);
+            });
+            await batch.commit();
+            return snapshot.size;
+        },
+
+        // =====================================================================
+        // Migrations
+        // =====================================================================
+
+        async getMigrationRecord(migrationId) {
+            const doc = await migrationsCollection.doc(migrationId).get();
+            if (!doc.exists) {
+                return null;
+            }
+            const data = doc.data() as MigrationDocument;
+            return {
+                id: data.id,
+                description: data.description,
+                appliedAt: data.appliedAt.toDate(),
+                durationMs: data.durationMs,
+            };
+        },
+
+        async acquireMigrationLock(migrationId, lockedBy, staleAfterMs): Promise<MigrationLockResult> {
+            const migrationRef = migrationsCollection.doc(migrationId);
+
+            // Use a transaction to ensure only one instance runs the migration
+            return firestore.runTransaction(async (transaction) => {
+                const migrationDoc = await transaction.get(migrationRef);
+                if (migrationDoc.exists) {
+                    return 'already_applied';
+                }
+
+                const lockDoc = await transaction.get(lockRef(migrationId));
+                if (lockDoc.exists) {
+                    const lockTime: Date | undefined = lockDoc.data()?.lockedAt?.toDate();
+                    const lockAge = lockTime ? Date.now() - lockTime.getTime() : Infinity;
+                    if (lockAge < staleAfterMs) {
+                        return 'locked';
+                    }
+                }
+
+                transaction.set(lockRef(migrationId), {
+                    lockedAt: Timestamp.now(),
+                    lockedBy,
+                });
+                return 'acquired';
+            });
+        },
+
+        async releaseMigrationLock(migrationId) {
+            await lockRef(migrationId).delete();
+        },
+
+        async recordMigration(record: AppliedMigrationRecord) {
+            const document: MigrationDocument = {
+                id: record.id,
+                description: record.description,
+                appliedAt: Timestamp.fromDate(record.appliedAt),
+                durationMs: record.durationMs,
+            };
+            await migrationsCollection.doc(record.id).set(document);
+        },
+
+        // =====================================================================
+        // Health
+        // =====================================================================
+
+        async ping() {
+            // Listing collections is a lightweight connectivity check
+            await firestore.listCollections();
+        },
+    };
+}
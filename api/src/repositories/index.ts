@@ -0,0 +1,52 @@
+/**
+ * Storage Repository Factory
+ *
+ * Selects the storage backend from STORAGE_BACKEND and shares a single
+ * repository instance between db.ts and the migration runner.
+ */
+
+import {isStorageBackend, SQLITE_DATABASE_PATH, STORAGE_BACKEND} from '../config.js';
+import {createFirestoreRepository} from './firestore.js';
+import {createSqliteRepository} from './sqlite.js';
+import type {StorageRepository} from './types.js';
+
+export type {
+    AppliedMigrationRecord,
+    BlacklistedTokenRecord,
+    ListingCommit,
+    ListingFieldUpdate,
+    ListingPrecondition,
+    MigrationLockResult,
+    StorageRepository,
+} from './types.js';
+export {createFirestoreRepository} from './firestore.js';
+export {createSqliteRepository} from './sqlite.js';
+
+let repository: StorageRepository | null = null;
+
+/**
+ * Create a repository for the given backend
+ */
+export function createRepository(backend: string = STORAGE_BACKEND): StorageRepository {
+    if (!isStorageBackend(backend)) {
+        throw new Error(`Unsupported storage backend: ${backend}`);
+    }
+
+    switch (backend) {
+        case 'sqlite':
+            return createSqliteRepository(SQLITE_DATABASE_PATH);
+        case 'firestore':
+            return createFirestoreRepository();
+    }
+}
+
+/**
+ * Get the shared repository for the configured backend (created lazily)
+ */
+export function getRepository(): StorageRepository {
+    if (!repository) {
+        repository = createRepository();
+        console.log(`[DB] Using ${repository.backend} storage backend`);
+    }
+    return repository;
+}
@@ -0,0 +1,519 @@
+/**
+ * SQLite Storage Repository
+ *
+ * Self-hosted alternative to Firestore backed by a single SQLite file.
+ * Documents are stored as JSON next to the columns needed for lookups
+ * (owner, ordering, expiry), which keeps the schema stable while the
+ * CarListing/UserSettings shapes evolve on the extension side.
+ *
+ * better-sqlite3 is synchronous; methods are async only to satisfy the
+ * StorageRepository contract shared with Firestore.
+ */
+
+import Database from 'better-sqlite3';
+import {
+    FIRESTORE_GEMINI_HISTORY_COLLECTION,
+    FIRESTORE_LISTING_TOMBSTONES_COLLECTION,
+    FIRESTORE_LISTINGS_COLLECTION,
+    FIRESTORE_MIGRATIONS_COLLECTION,
+    FIRESTORE_SAVED_SEARCHES_COLLECTION,
+    FIRESTORE_SETTINGS_COLLECTION,
+    FIRESTORE_TOKEN_BLACKLIST_COLLECTION,
+    FIRESTORE_USERS_COLLECTION,
+} from '../config.js';
+import type {
+    GeminiHistoryDocument,
+    ListingDocument,
+    ListingTombstoneDocument,
+    SavedSearchDocument,
+    User,
+    UserSettings,
+} from '../types.js';
+import type {ListingCommit, MigrationLockResult, StorageRepository} from './types.js';
+
+/** Table names mirror the Firestore collection names */
+const TABLES = {
+    users: FIRESTORE_USERS_COLLECTION,
+    listings: FIRESTORE_LISTINGS_COLLECTION,
+    listingTombstones: FIRESTORE_LISTING_TOMBSTONES_COLLECTION,
+    settings: FIRESTORE_SETTINGS_COLLECTION,
+    savedSearches: FIRESTORE_SAVED_SEARCHES_COLLECTION,
+    geminiHistory: FIRESTORE_GEMINI_HISTORY_COLLECTION,
+    tokenBlacklist: FIRESTORE_TOKEN_BLACKLIST_COLLECTION,
+    migrations: FIRESTORE_MIGRATIONS_COLLECTION,
+    migrationLocks: `${FIRESTORE_MIGRATIONS_COLLECTION}_locks`,
+} as const;
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS ${TABLES.users} (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS ${TABLES.listings} (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_${TABLES.listings}_user_id ON ${TABLES.listings} (user_id);
+    CREATE TABLE IF NOT EXISTS ${TABLES.listingTombstones} (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        deleted_at TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_${TABLES.listingTombstones}_user_deleted_at
+        ON ${TABLES.listingTombstones} (user_id, deleted_at);
+    CREATE TABLE IF NOT EXISTS ${TABLES.settings} (
+        user_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS ${TABLES.savedSearches} (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_${TABLES.savedSearches}_user_id ON ${TABLES.savedSearches} (user_id);
+    CREATE TABLE IF NOT EXISTS ${TABLES.geminiHistory} (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_${TABLES.geminiHistory}_user_timestamp
+        ON ${TABLES.geminiHistory} (user_id, timestamp);
+    CREATE TABLE IF NOT EXISTS ${TABLES.tokenBlacklist} (
+        token_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        blacklisted_at TEXT NOT NULL,
+        expire_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_${TABLES.tokenBlacklist}_expire_at ON ${TABLES.tokenBlacklist} (expire_at);
+    CREATE TABLE IF NOT EXISTS ${TABLES.migrations} (
+        id TEXT PRIMARY KEY,
+        description TEXT NOT NULL,
+        applied_at TEXT NOT NULL,
+        duration_ms INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS ${TABLES.migrationLocks} (
+        id TEXT PRIMARY KEY,
+        locked_at INTEGER NOT NULL,
+        locked_by TEXT NOT NULL
+    );
+`;
+
+interface DataRow {
+    id: string;
+    data: string;
+}
+
+interface MigrationRow {
+    id: string;
+    description: string;
+    applied_at: string;
+    duration_ms: number;
+}
+
+interface LockRow {
+    locked_at: number;
+}
+
+/**
+ * Parse a listing row, exposing the primary key as docId like Firestore does
+ */
+function toListingDocument(row: DataRow): ListingDocument {
+    return {...JSON.parse(row.data) as ListingDocument, docId: row.id};
+}
+
+/**
+ * Strip the read-only docId before persisting a listing
+ */
+function serializeListing(listing: ListingDocument): string {
+    const {docId: _docId, ...data} = listing;
+    return JSON.stringify(data);
+}
+
+/**
+ * Create a SQLite-backed repository
+ *
+ * @param filename - Database file path, or ":memory:" for an ephemeral database
+ */
+export function createSqliteRepository(filename: string): StorageRepository {
+    const db = new Database(filename);
+    // WAL lets health checks and reads proceed while a write is in progress
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+
+    const upsertListing = db.prepare(
+        `INSERT INTO ${TABLES.listings} (id, user_id, data) VALUES (?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET user_id = excluded.user_id, data = excluded.data`,
+    );
+    const selectListing = db.prepare(`SELECT id, data FROM ${TABLES.listings} WHERE id = ?`);
+    const deleteListingById = db.prepare(`DELETE FROM ${TABLES.listings} WHERE id = ?`);
+    const upsertTombstone = db.prepare(
+        `INSERT INTO ${TABLES.listingTombstones} (id, user_id, deleted_at, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET user_id = excluded.user_id, deleted_at = excluded.deleted_at, data = excluded.data`,
+    );
+    const deleteTombstone = db.prepare(`DELETE FROM ${TABLES.listingTombstones} WHERE id = ?`);
+    const upsertHistoryEntry = db.prepare(
+        `INSERT INTO ${TABLES.geminiHistory} (id, user_id, timestamp, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET user_id = excluded.user_id, timestamp = excluded.timestamp, data = excluded.data`,
+    );
+
+    const saveListingRow = (listing: ListingDocument): void => {
+        upsertListing.run(listing.id, listing.userId, serializeListing(listing));
+    };
+
+    const replaceListingsTx = db.transaction((deleteIds: string[], listings: ListingDocument[]) => {
+        for (const id of deleteIds) {
+            deleteListingById.run(id);
+        }
+        for (const listing of listings) {
+            saveListingRow(listing);
+        }
+    });
+
+    const commitListingsTx = db.transaction((commit: ListingCommit): string[] => {
+        const failedIds = commit.preconditions
+            .filter(({id, revision}) => {
+                const row = selectListing.get(id) as DataRow | undefined;
+                const stored = row ? toListingDocument(row) : null;
+                const storedRevision = stored && stored.userId === commit.userId ? stored.revision ?? 0 : null;
+                return storedRevision !== revision;
+            })
+            .map(({id}) => id);
+        if (failedIds.length > 0) {
+            return failedIds;
+        }
+
+        for (const id of commit.deleteIds) {
+            deleteListingById.run(id);
+        }
+        for (const listing of commit.listings) {
+            saveListingRow(listing);
+        }
+        for (const tombstone of commit.tombstones) {
+            upsertTombstone.run(tombstone.id, tombstone.userId, tombstone.deletedAt, JSON.stringify(tombstone));
+        }
+        for (const id of commit.deleteTombstoneIds) {
+            deleteTombstone.run(id);
+        }
+        return [];
+    });
+
+    const updateListingsTx = db.transaction((updates: Array<{ id: string; fields: Partial<ListingDocument> }>) => {
+        for (const update of updates) {
+            const row = selectListing.get(update.id) as DataRow | undefined;
+            if (row) {
+                saveListingRow({...toListingDocument(row), ...update.fields});
+            }
+        }
+    });
+
+    const updateUserTx = db.transaction((userId: string, fields: Partial<User>) => {
+        const row = db.prepare(`SELECT data FROM ${TABLES.users} WHERE id = ?`).get(userId) as DataRow | undefined;
+        if (!row) {
+            throw new Error(`User ${userId} not found`);
+        }
+        const updated = {...JSON.parse(row.data) as User, ...fields};
+        db.prepare(`UPDATE ${TABLES.users} SET data = ? WHERE id = ?`).run(JSON.stringify(updated), userId);
+    });
+
+    const updateSettingsTx = db.transaction((
+        userId: string,
+        update: (settings: UserSettings | null) => UserSettings | null,
+    ): UserSettings | null => {
+        const row = db.prepare(`SELECT data FROM ${TABLES.settings} WHERE user_id = ?`).get(userId) as DataRow | undefined;
+        const stored = row ? JSON.parse(row.data) as UserSettings : null;
+        const updated = update(stored);
+        if (!updated) {
+            return stored;
+        }
+        db.prepare(`INSERT OR REPLACE INTO ${TABLES.settings} (user_id, data) VALUES (?, ?)`)
+            .run(userId, JSON.stringify(updated));
+        return updated;
+    });
+
+    const updateSavedSearchTx = db.transaction((
+        searchId: string,
+        update: (search: SavedSearchDocument | null) => SavedSearchDocument | null,
+    ): SavedSearchDocument | null => {
+        const row = db.prepare(`SELECT data FROM ${TABLES.savedSearches} WHERE id = ?`).get(searchId) as DataRow | undefined;
+        const stored = row ? JSON.parse(row.data) as SavedSearchDocument : null;
+        const updated = update(stored);
+        if (!updated) {
+            return stored;
+        }
+        db.prepare(
+            `INSERT INTO ${TABLES.savedSearches} (id, user_id, data) VALUES (?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET user_id = excluded.user_id, data = excluded.data`,
+        ).run(updated.id, updated.userId, JSON.stringify(updated));
+        return updated;
+    });
+
+    const insertHistoryTx = db.transaction((entries: GeminiHistoryDocument[]) => {
+        for (const entry of entries) {
+            upsertHistoryEntry.run(entry.id, entry.userId, entry.timestamp, JSON.stringify(entry));
+        }
+    });
+
+    const acquireLockTx = db.transaction((migrationId: string, lockedBy: string, staleAfterMs: number): MigrationLockResult => {
+        const applied = db.prepare(`SELECT id FROM ${TABLES.migrations} WHERE id = ?`).get(migrationId);
+        if (applied) {
+            return 'already_applied';
+        }
+
+        const lock = db.prepare(`SELECT locked_at FROM ${TABLES.migrationLocks} WHERE id = ?`)
+            .get(migrationId) as LockRow | undefined;
+        if (lock && Date.now() - lock.locked_at < staleAfterMs) {
+            return 'locked';
+        }
+
+        db.prepare(
+            `INSERT INTO ${TABLES.migrationLocks} (id, locked_at, locked_by) VALUES (?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET locked_at = excluded.locked_at, locked_by = excluded.locked_by`,
+        ).run(migrationId, Date.now(), lockedBy);
+        return 'acquired';
+    });
+
+    return {
+        backend: 'sqlite',
+
+        // =====================================================================
+        // Users
+        // =====================================================================
+
+        async getUser(userId) {
+            const row = db.prepare(`SELECT id, data FROM ${TABLES.users} WHERE id = ?`).get(userId) as DataRow | undefined;
+            return row ? JSON.parse(row.data) as User : null;
+        },
+
+        async createUser(user) {
+            db.prepare(`INSERT OR REPLACE INTO ${TABLES.users} (id, data) VALUES (?, ?)`)
+                .run(user.id, JSON.stringify(user));
+        },
+
+        async updateUser(userId, fields) {
+            updateUserTx(userId, fields);
+        },
+
+        // =====================================================================
+        // Listings
+        // =====================================================================
+
+        async getListing(listingId) {
+            const row = selectListing.get(listingId) as DataRow | undefined;
+            return row ? toListingDocument(row) : null;
+        },
+
+        async getListingsByUser(userId) {
+            const rows = db.prepare(`SELECT id, data FROM ${TABLES.listings} WHERE user_id = ?`).all(userId) as DataRow[];
+            return rows.map(toListingDocument);
+        },
+
+        async getListingsUpdatedSince(userId, since) {
+            const rows = db.prepare(
+                `SELECT id, data FROM ${TABLES.listings} WHERE user_id = ? AND json_extract(data, '$.updatedAt') > ?`,
+            ).all(userId, since) as DataRow[];
+            return rows.map(toListingDocument);
+        },
+
+        async getListingsOrdered(userId, {order, startAfter, limit}) {
+            // order.field comes from a fixed set of sort fields, never from the request
+            const field = `json_extract(data, '$.${order.field}')`;
+            const [op, dir] = order.direction === 'asc' ? ['>', 'ASC'] : ['<', 'DESC'];
+            const after = startAfter ? `AND (${field} ${op} ? OR (${field} = ? AND id ${op} ?))` : '';
+            const params = startAfter ? [startAfter.value, startAfter.value, startAfter.id] : [];
+            const rows = db.prepare(
+                `SELECT id, data FROM ${TABLES.listings} WHERE user_id = ? ${after}
+                 ORDER BY ${field} ${dir}, id ${dir} LIMIT ?`,
+            ).all(userId, ...params, limit) as DataRow[];
+            return rows.map(toListingDocument);
+        },
+
+        async getListingsByStatus(status) {
+            const rows = db.prepare(
+                `SELECT id, data FROM ${TABLES.listings} WHERE json_extract(data, '$.status') = ?`,
+            ).all(status) as DataRow[];
+            return rows.map(toListingDocument);
+        },
+
+        async setListing(listing) {
+            saveListingRow(listing);
+        },
+
+        async replaceListings(deleteIds, listings) {
+            replaceListingsTx(deleteIds, listings);
+        },
+
+        async updateListings(updates) {
+            updateListingsTx(updates);
+        },
+
+        async deleteListing(listingId) {
+            deleteListingById.run(listingId);
+        },
+
+        async commitListings(commit) {
+            return commitListingsTx(commit);
+        },
+
+        // =====================================================================
+        // Listing Tombstones
+        // =====================================================================
+
+        async getListingTombstones(userId, since) {
+            const rows = db.prepare(
+                `SELECT id, data FROM ${TABLES.listingTombstones} WHERE user_id = ? AND deleted_at > ?`,
+            ).all(userId, since) as DataRow[];
+            return rows.map((row) => JSON.parse(row.data) as ListingTombstoneDocument);
+        },
+
+        // =====================================================================
+        // Settings
+        // =====================================================================
+
+        async getSettings(userId) {
+            const row = db.prepare(`SELECT data FROM ${TABLES.settings} WHERE user_id = ?`).get(userId) as DataRow | undefined;
+            return row ? JSON.parse(row.data) as UserSettings : null;
+        },
+
+        async setSettings(settings) {
+            db.prepare(`INSERT OR REPLACE INTO ${TABLES.settings} (user_id, data) VALUES (?, ?)`)
+                .run(settings.userId, JSON.stringify(settings));
+        },
+
+        async updateSettings(userId, update) {
+            return updateSettingsTx(userId, update);
+        },
+
+        async getServerRefreshSettings() {
+            // JSON true is exposed as 1 by json_extract
+            const rows = db.prepare(
+                `SELECT data FROM ${TABLES.settings} WHERE json_extract(data, '$.serverRefreshEnabled') = 1`,
+            ).all() as DataRow[];
+            return rows.map((row) => JSON.parse(row.data) as UserSettings);
+        },
+
+        async getAllSettings() {
+            const rows = db.prepare(`SELECT data FROM ${TABLES.settings}`).all() as DataRow[];
+            return rows.map((row) => JSON.parse(row.data) as UserSettings);
+        },
+
+        // =====================================================================
+        // Saved Searches
+        // =====================================================================
+
+        async getSavedSearch(searchId) {
+            const row = db.prepare(`SELECT id, data FROM ${TABLES.savedSearches} WHERE id = ?`)
+                .get(searchId) as DataRow | undefined;
+            return row ? JSON.parse(row.data) as SavedSearchDocument : null;
+        },
+
+        async getSavedSearchesByUser(userId) {
+            const rows = db.prepare(`SELECT id, data FROM ${TABLES.savedSearches} WHERE user_id = ?`)
+                .all(userId) as DataRow[];
+            return rows.map((row) => JSON.parse(row.data) as SavedSearchDocument);
+        },
+
+        async setSavedSearch(search) {
+            db.prepare(
+                `INSERT INTO ${TABLES.savedSearches} (id, user_id, data) VALUES (?, ?, ?)
+                 ON CONFLICT(id) DO UPDATE SET user_id = excluded.user_id, data = excluded.data`,
+            ).run(search.id, search.userId, JSON.stringify(search));
+        },
+
+        async updateSavedSearch(searchId, update) {
+            return updateSavedSearchTx(searchId, update);
+        },
+
+        async deleteSavedSearch(searchId) {
+            db.prepare(`DELETE FROM ${TABLES.savedSearches} WHERE id = ?`).run(searchId);
+        },
+
+        // =====================================================================
+        // Gemini History
+        // =====================================================================
+
+        async getGeminiHistory(userId, limit) {
+            const rows = db.prepare(
+                `SELECT id, data FROM ${TABLES.geminiHistory} WHERE user_id = ? ORDER BY timestamp DESC LIMIT ?`,
+            ).all(userId, limit) as DataRow[];
+            return rows.map((row) => JSON.parse(row.data) as GeminiHistoryDocument);
+        },
+
+        async setGeminiHistoryEntries(entries) {
+            insertHistoryTx(entries);
+        },
+
+        async deleteGeminiHistory(userId) {
+            return db.prepare(`DELETE FROM ${TABLES.geminiHistory} WHERE user_id = ?`).run(userId).changes;
+        },
+
+        // =====================================================================
+        // Token Blacklist
+        // =====================================================================
+
+        async setBlacklistedToken(entry) {
+            db.prepare(
+                `INSERT OR REPLACE INTO ${TABLES.tokenBlacklist} (token_id, user_id, blacklisted_at, expire_at)
+                 VALUES (?, ?, ?, ?)`,
+            ).run(entry.tokenId, entry.userId, entry.blacklistedAt, entry.expiresAt.getTime());
+        },
+
+        async hasBlacklistedToken(tokenId) {
+            return db.prepare(`SELECT 1 FROM ${TABLES.tokenBlacklist} WHERE token_id = ?`).get(tokenId) !== undefined;
+        },
+
+        async deleteExpiredBlacklistedTokens(now, limit) {
+            return db.prepare(
+                `DELETE FROM ${TABLES.tokenBlacklist} WHERE token_id IN (
+                    SELECT token_id FROM ${TABLES.tokenBlacklist} WHERE expire_at < ? LIMIT ?
+                )`,
+            ).run(now.getTime(), limit).changes;
+        },
+
+        // =====================================================================
+        // Migrations
+        // =====================================================================
+
+        async getMigrationRecord(migrationId) {
+            const row = db.prepare(
+                `SELECT id, description, applied_at, duration_ms FROM ${TABLES.migrations} WHERE id = ?`,
+            ).get(migrationId) as MigrationRow | undefined;
+            if (!row) {
+                return null;
+            }
+            return {
+                id: row.id,
+                description: row.description,
+                appliedAt: new Date(row.applied_at),
+                durationMs: row.duration_ms,
+            };
+        },
+
+        async acquireMigrationLock(migrationId, lockedBy, staleAfterMs) {
+            // IMMEDIATE takes the write lock up front so two processes
+            // sharing the file cannot both observe "no lock"
+            return acquireLockTx.immediate(migrationId, lockedBy, staleAfterMs);
+        },
+
+        async releaseMigrationLock(migrationId) {
+            db.prepare(`DELETE FROM ${TABLES.migrationLocks} WHERE id = ?`).run(migrationId);
+        },
+
+        async recordMigration(record) {
+            db.prepare(
+                `INSERT OR REPLACE INTO ${TABLES.migrations} (id, description, applied_at, duration_ms)
+                 VALUES (?, ?, ?, ?)`,
+            ).run(record.id, record.description, record.appliedAt.toISOString(), record.durationMs);
+        },
+
+        // =====================================================================
+        // Health
+        // =====================================================================
+
+        async ping() {
+            db.prepare('SELECT 1').get();
+        },
+    };
+}
@@ -0,0 +1,197 @@
+/**
+ * Storage Repository Types
+ *
+ * Contract implemented by every storage backend. db.ts and migrations.ts
+ * only talk to this interface, so the API can run on Firestore (Cloud Run)
+ * or on a local SQLite file (self-hosting) without code changes.
+ *
+ * Repositories are thin persistence adapters: ownership checks, defaults
+ * and merge rules stay in db.ts so every backend behaves the same way.
+ */
+
+import type {StorageBackend} from '../config.js';
+import type {ListingSortOrder} from '../listings/index.js';
+import type {
+    GeminiHistoryDocument,
+    ListingDocument,
+    ListingTombstoneDocument,
+    SavedSearchDocument,
+    User,
+    UserSettings,
+} from '../types.js';
+
+/**
+ * Blacklisted token as persisted by a backend
+ */
+export interface BlacklistedTokenRecord {
+    /** JWT ID or hash - unique identifier for the token */
+    tokenId: string;
+    /** User ID who owned the token */
+    userId: string;
+    /** When the token was blacklisted (ISO string) */
+    blacklistedAt: string;
+    /** When the token expires and the entry may be removed */
+    expiresAt: Date;
+}
+
+/**
+ * Record of an applied migration
+ */
+export interface AppliedMigrationRecord {
+    id: string;
+    description: string;
+    appliedAt: Date;
+    durationMs: number;
+}
+
+/**
+ * Outcome of an attempt to acquire a migration lock
+ * - acquired: caller owns the lock and must run the migration
+ * - already_applied: migration was recorded by another instance
+ * - locked: another instance holds a fresh lock
+ */
+export type MigrationLockResult = 'acquired' | 'already_applied' | 'locked';
+
+/**
+ * Partial update applied to a single listing (used by data migrations)
+ */
+export interface ListingFieldUpdate {
+    id: string;
+    fields: Partial<ListingDocument>;
+}
+
+/**
+ * Revision a listing must have for a listing commit to apply;
+ * null when the user must not have a listing with this ID
+ */
+export interface ListingPrecondition {
+    id: string;
+    revision: number | null;
+}
+
+/**
+ * Listing writes and tombstone changes of one user, applied all-or-nothing
+ */
+export interface ListingCommit {
+    userId: string;
+    /** Checked in the same transaction as the writes; listings of other users count as missing */
+    preconditions: ListingPrecondition[];
+    deleteIds: string[];
+    listings: ListingDocument[];
+    tombstones: ListingTombstoneDocument[];
+    /** Tombstones of listings that were created again */
+    deleteTombstoneIds: string[];
+}
+
+/**
+ * Ordered read of a user's listings, continuing after a known position
+ */
+export interface ListingScan {
+    order: ListingSortOrder;
+    /** Sort value and id of the last listing already read; ties are ordered by id */
+    startAfter?: { value: string | number; id: string };
+    limit: number;
+}
+
+/**
+ * Storage repository implemented by each backend
+ */
+export interface StorageRepository {
+    /** Backend identifier (for logging and health output) */
+    readonly backend: StorageBackend;
+
+    // Users
+    getUser(userId: string): Promise<User | null>;
+    createUser(user: User): Promise<void>;
+    updateUser(userId: string, fields: Partial<User>): Promise<void>;
+
+    // Listings
+    getListing(listingId: string): Promise<ListingDocument | null>;
+    getListingsByUser(userId: string): Promise<ListingDocument[]>;
+    /** Listings of a user written after `since` (ISO string, compared with updatedAt) */
+    getListingsUpdatedSince(userId: string, since: string): Promise<ListingDocument[]>;
+    /** Listings of a user in sort order, for paginated queries */
+    getListingsOrdered(userId: string, scan: ListingScan): Promise<ListingDocument[]>;
+    /** Find listings with a given status across all users */
+    getListingsByStatus(status: string): Promise<ListingDocument[]>;
+    setListing(listing: ListingDocument): Promise<void>;
+    /** Atomically delete the given IDs and write the given listings */
+    replaceListings(deleteIds: string[], listings: ListingDocument[]): Promise<void>;
+    updateListings(updates: ListingFieldUpdate[]): Promise<void>;
+    deleteListing(listingId: string): Promise<void>;
+
+    /**
+     * Apply a listing commit in a single transaction (compare-and-set).
+     * Returns the IDs whose precondition failed; nothing is written then.
+     */
+    commitListings(commit: ListingCommit): Promise<string[]>;
+
+    // Listing tombstones (deleted listings, for delta sync)
+    /** Tombstones of a user created after `since` (ISO string) */
+    getListingTombstones(userId: string, since: string): Promise<ListingTombstoneDocument[]>;
+
+    // Settings
+    getSettings(userId: string): Promise<UserSettings | null>;
+    setSettings(settings: UserSettings): Promise<void>;
+    /**
+     * Read-modify-write a user's settings in one transaction.
+     * `update` gets the stored settings (null when there are none) and returns
+     * the settings to store, or null to keep them; it must be synchronous and
+     * may run more than once. Returns the settings stored afterwards.
+     */
+    updateSettings(
+        userId: string,
+        update: (settings: UserSettings | null) => UserSettings | null,
+    ): Promise<UserSettings | null>;
+    /** Settings of all users who opted in to server-side refresh */
+    getServerRefreshSettings(): Promise<UserSettings[]>;
+    /** Settings of all users (used by migrations) */
+    getAllSettings(): Promise<UserSettings[]>;
+
+    // Saved searches
+    getSavedSearch(searchId: string): Promise<SavedSearchDocument | null>;
+    getSavedSearchesByUser(userId: string): Promise<SavedSearchDocument[]>;
+    setSavedSearch(search: SavedSearchDocument): Promise<void>;
+    /**
+     * Read-modify-write a saved search in one transaction.
+     * `update` gets the stored search (null when there is none) and returns
+     * the search to store, or null to keep it; it must be synchronous and
+     * may run more than once. Returns the search stored afterwards.
+     */
+    updateSavedSearch(
+        searchId: string,
+        update: (search: SavedSearchDocument | null) => SavedSearchDocument | null,
+    ): Promise<SavedSearchDocument | null>;
+    deleteSavedSearch(searchId: string): Promise<void>;
+
+    // Gemini history
+    /** Most recent entries first */
+    getGeminiHistory(userId: string, limit: number): Promise<GeminiHistoryDocument[]>;
+    setGeminiHistoryEntries(entries: GeminiHistoryDocument[]): Promise<void>;
+    /** Returns number of deleted entries */
+    deleteGeminiHistory(userId: string): Promise<number>;
+
+    // Token blacklist
+    setBlacklistedToken(entry: BlacklistedTokenRecord): Promise<void>;
+    hasBlacklistedToken(tokenId: string): Promise<boolean>;
+    /** Delete up to `limit` entries that expired before `now`, returns number deleted */
+    deleteExpiredBlacklistedTokens(now: Date, limit: number): Promise<number>;
+
+    // Migrations
+    getMigrationRecord(migrationId: string): Promise<AppliedMigrationRecord | null>;
+    /**
+     * Acquire the lock for a migration in a single transaction.
+     * Locks older than `staleAfterMs` are treated as abandoned and taken over.
+     */
+    acquireMigrationLock(
+        migrationId: string,
+        lockedBy: string,
+        staleAfterMs: number,
+    ): Promise<MigrationLockResult>;
+    releaseMigrationLock(migrationId: string): Promise<void>;
+    recordMigration(record: AppliedMigrationRecord): Promise<void>;
+
+    // Health
+    /** Throws when the backend is unreachable */
+    ping(): Promise<void>;
+}
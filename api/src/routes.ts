@@ -7,20 +7,32 @@
 
 import {Request, Response, Router} from 'express';
 import {authMiddleware, generateJwt, verifyGoogleAccessToken, verifyGoogleToken} from './auth.js';
+import {MAX_PAGE_TEXT_LENGTH, MAX_SEARCH_MATCHES, MAX_SEEN_LISTING_IDS} from './config.js';
 import {
-    addGeminiHistoryEntries,
     blacklistToken,
-    checkFirestoreHealth,
+    checkDatabaseHealth,
     cleanupExpiredBlacklistedTokens,
     clearGeminiHistory,
     deleteListing,
+    deleteSavedSearch,
+    dismissSavedSearchMatch,
+    getGeminiApiKey,
     getGeminiHistory,
     getListingById,
+    getListingChanges,
     getListingsByUserId,
+    type ListingConflict,
+    ListingConflictError,
+    getSavedSearchesByUserId,
     getUserSettings,
+    queryListings,
+    recordSavedSearchCheck,
     saveAllListings,
+    saveListings,
     saveListing,
+    saveSavedSearch,
     saveUserSettings,
+    updateUserSettings,
     upsertUser,
 } from './db.js';
 import {
@@ -30,8 +42,49 @@ import {
     scheduleImageDeletion,
     uploadImage,
 } from './storage.js';
-import {handleError, sendError, sendOperationSuccess, sendSuccess} from './utils/response.js';
-import type {AuthResponse, CarListing, GeminiCallHistoryEntry, HealthResponse, User, UserSettings} from './types.js';
+import {handleError, sendConflict, sendError, sendOperationSuccess, sendSuccess} from './utils/response.js';
+import {encryptSecret} from './utils/secrets.js';
+import {
+    createListingsExport,
+    EXPORT_FORMATS,
+    EXPORT_PRICE_MODES,
+    type ExportFilters,
+    type ExportFormat,
+    type ExportPriceMode,
+    filterListingsForExport,
+} from './export/index.js';
+import {
+    consumeGeminiQuota,
+    GEMINI_MODEL_PATTERN,
+    GeminiQuotaExceededError,
+    parseListingWithGemini,
+    RateLimitError,
+    recordClientCalls,
+    refreshListingWithGemini,
+} from './gemini/index.js';
+import {
+    isListingPageRequest,
+    ListingQueryError,
+    parseListingQuery,
+    parseListParam,
+} from './listings/index.js';
+import {parseCustomMarketplaces} from './refresh/marketplaces.js';
+import {
+    type AlertRules,
+    type AuthResponse,
+    type CarListing,
+    type CustomMarketplace,
+    type GeminiCallHistoryEntry,
+    type GeminiStats,
+    type HealthResponse,
+    type ListingChanges,
+    type ListingDocument,
+    ListingStatus,
+    type SavedSearch,
+    type SavedSearchCheck,
+    type User,
+    type UserSettings,
+} from './types.js';
 
 const router = Router();
 
@@ -46,7 +99,7 @@ const router = Router();
  *     summary: Health check
  *     description: |
  *       Health check endpoint for Cloud Run and monitoring.
- *       Verifies Firestore connectivity.
+ *       Verifies database (Firestore or SQLite) connectivity.
  *       Also triggers opportunistic cleanup of expired blacklisted tokens.
  *     tags:
  *       - Health
@@ -58,14 +111,14 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/HealthResponse'
  *       503:
- *         description: Service is unhealthy (Firestore connectivity issue)
+ *         description: Service is unhealthy (database connectivity issue)
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/HealthResponse'
  */
 router.get('/healthz', async (_req: Request, res: Response) => {
-    const firestoreOk = await checkFirestoreHealth();
+    const databaseOk = await checkDatabaseHealth();
     const storageOk = await checkStorageHealth();
 
     // Opportunistic cleanup of expired tokens (~10% of requests)
@@ -80,13 +133,13 @@ router.get('/healthz', async (_req: Request, res: Response) => {
     }
 
     const response: HealthResponse = {
-        status: firestoreOk && storageOk ? 'ok' : 'error',
-        firestore: firestoreOk ? 'ok' : 'error',
+        status: databaseOk && storageOk ? 'ok' : 'error',
+        firestore: databaseOk ? 'ok' : 'error',
         storage: storageOk ? 'ok' : 'error',
         timestamp: new Date().toISOString(),
     };
 
-    sendSuccess(res, response, firestoreOk && storageOk ? 200 : 503);
+    sendSuccess(res, response, databaseOk && storageOk ? 200 : 503);
 });
 
 // =============================================================================
@@ -291,25 +344,300 @@ router.post('/auth/logout', authMiddleware, async (req: Request, res: Response)
 // Listings API (Protected Routes)
 // =============================================================================
 
+/**
+ * Remove internal fields before sending a listing to the client
+ */
+function toClientListing({userId: _uid, docId: _docId, ...listing}: ListingDocument): CarListing {
+    return listing;
+}
+
+/**
+ * Parse the expected listing revision from an If-Match header ("3", W/"3" or 3)
+ * Returns undefined when the header is absent or "*", null when it is malformed.
+ */
+function parseExpectedRevision(header: string | undefined): number | undefined | null {
+    if (header === undefined || header.trim() === '*') {
+        return undefined;
+    }
+    const match = /^(?:W\/)?"?(\d+)"?$/.exec(header.trim());
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * Respond with 409 and the stored copies of the conflicting listings
+ */
+function sendListingConflict(res: Response, error: ListingConflictError): void {
+    sendConflict(
+        res,
+        'Listing was changed by another client',
+        error.conflicts.map(({id, current}: ListingConflict) => ({
+            id,
+            current: current ? toClientListing(current) : null,
+        })),
+    );
+}
+
 /**
  * @openapi
  * /api/listings:
  *   get:
  *     summary: Get all listings
- *     description: Get all car listings for the authenticated user.
+ *     description: |
+ *       Get all car listings for the authenticated user.
+ *       With `since`, only listings written after that time are returned, together
+ *       with tombstones of deleted listings (delta sync). Pass the returned
+ *       `serverTime` as `since` on the next sync; it lags the server clock, so
+ *       recent changes are returned again and should be matched by revision.
+ *
+ *       Any filter, `sort`, `limit` or `cursor` parameter returns a ListingPage
+ *       instead. Filters match the dashboard filters; ranges are inclusive and
+ *       exclude listings without a value. Pass `nextCursor` as `cursor` (with the
+ *       same filters and sort) to get the next page.
+ *     tags:
+ *       - Listings
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Return only changes after this time (cannot be combined with the page parameters)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [all, ACTIVE, ENDED]
+ *           default: all
+ *       - in: query
+ *         name: archived
+ *         schema:
+ *           type: string
+ *           enum: [all, active, archived]
+ *           default: all
+ *       - in: query
+ *         name: makes
+ *         schema:
+ *           type: string
+ *         description: Comma-separated makes
+ *         example: "BMW,Audi"
+ *       - in: query
+ *         name: models
+ *         schema:
+ *           type: string
+ *         description: Comma-separated models
+ *       - in: query
+ *         name: sources
+ *         schema:
+ *           type: string
+ *         description: Comma-separated marketplace platforms
+ *         example: "otomoto.pl,autoplac.pl"
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *       - in: query
+ *         name: minYear
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Minimum production year
+ *       - in: query
+ *         name: maxYear
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Maximum production year
+ *       - in: query
+ *         name: minMileage
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *       - in: query
+ *         name: maxMileage
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, oldest, price-asc, price-desc, name]
+ *           default: newest
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor of the previous page
+ *     responses:
+ *       200:
+ *         description: |
+ *           List of car listings, a ListingChanges object when `since` is set,
+ *           or a ListingPage when page parameters are set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CarListing'
+ *                 - $ref: '#/components/schemas/ListingChanges'
+ *                 - $ref: '#/components/schemas/ListingPage'
+ *       400:
+ *         description: Invalid `since`, filter, sort, limit or cursor value
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/listings', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const since = req.query.since;
+
+        if (since !== undefined) {
+            if (typeof since !== 'string' || Number.isNaN(Date.parse(since))) {
+                sendError(res, 400, 'since must be an ISO 8601 date-time');
+                return;
+            }
+            if (isListingPageRequest(req.query)) {
+                sendError(res, 400, 'since cannot be combined with filters, sort or pagination');
+                return;
+            }
+
+            const changes = await getListingChanges(userId, new Date(since).toISOString());
+            const response: ListingChanges = {
+                listings: changes.listings.map(toClientListing),
+                deleted: changes.tombstones.map(({id, deletedAt}) => ({id, deletedAt})),
+                serverTime: changes.serverTime,
+            };
+            sendSuccess(res, response);
+            return;
+        }
+
+        if (isListingPageRequest(req.query)) {
+            const page = await queryListings(userId, parseListingQuery(req.query));
+            sendSuccess(res, {listings: page.listings.map(toClientListing), nextCursor: page.nextCursor});
+            return;
+        }
+
+        const listings = await getListingsByUserId(userId);
+        sendSuccess(res, listings.map(toClientListing));
+    } catch (error) {
+        if (error instanceof ListingQueryError) {
+            sendError(res, 400, error.message);
+            return;
+        }
+        handleError(res, error, 'fetching listings');
+    }
+});
+
+/**
+ * @openapi
+ * /api/listings/export:
+ *   get:
+ *     summary: Export listings
+ *     description: |
+ *       Download the authenticated user's listings as CSV, JSON or XLSX.
+ *       CSV and XLSX rows contain the flattened listing fields (vehicle, engine, seller, location)
+ *       with either the latest price or one row per price history point.
+ *       JSON contains the listings themselves, which the extension can import again.
+ *       The optional filters match the dashboard filters.
  *     tags:
  *       - Listings
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [csv, json, xlsx]
+ *       - in: query
+ *         name: prices
+ *         schema:
+ *           type: string
+ *           enum: [latest, history]
+ *           default: latest
+ *         description: Latest price only, or one row per price history point
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [all, ACTIVE, ENDED]
+ *           default: all
+ *       - in: query
+ *         name: archived
+ *         schema:
+ *           type: string
+ *           enum: [all, active, archived]
+ *           default: all
+ *       - in: query
+ *         name: makes
+ *         schema:
+ *           type: string
+ *         description: Comma-separated makes
+ *         example: "BMW,Audi"
+ *       - in: query
+ *         name: models
+ *         schema:
+ *           type: string
+ *         description: Comma-separated models
+ *       - in: query
+ *         name: sources
+ *         schema:
+ *           type: string
+ *         description: Comma-separated marketplace platforms
+ *         example: "otomoto.pl,autoplac.pl"
  *     responses:
  *       200:
- *         description: List of car listings
+ *         description: Export file (sent as an attachment)
  *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/CarListing'
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Bad request - invalid format or filter
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       401:
  *         description: Unauthorized
  *         content:
@@ -323,16 +651,46 @@ router.post('/auth/logout', authMiddleware, async (req: Request, res: Response)
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/listings', authMiddleware, async (req: Request, res: Response) => {
+router.get('/listings/export', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
-        const listings = await getListingsByUserId(userId);
+        const format = req.query.format as ExportFormat;
+        const prices = (req.query.prices ?? 'latest') as ExportPriceMode;
+        const status = (req.query.status ?? 'all') as ExportFilters['status'];
+        const archived = (req.query.archived ?? 'all') as ExportFilters['archived'];
 
-        // Remove internal fields before sending to client
-        const clientListings = listings.map(({userId: _uid, docId: _docId, ...listing}) => listing);
-        sendSuccess(res, clientListings);
+        if (!EXPORT_FORMATS.includes(format)) {
+            sendError(res, 400, `format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+            return;
+        }
+        if (!EXPORT_PRICE_MODES.includes(prices)) {
+            sendError(res, 400, `prices must be one of: ${EXPORT_PRICE_MODES.join(', ')}`);
+            return;
+        }
+        if (status !== 'all' && !Object.values(ListingStatus).includes(status)) {
+            sendError(res, 400, 'status must be one of: all, ACTIVE, ENDED');
+            return;
+        }
+        if (!['all', 'active', 'archived'].includes(archived)) {
+            sendError(res, 400, 'archived must be one of: all, active, archived');
+            return;
+        }
+
+        const listings = await getListingsByUserId(userId);
+        const filtered = filterListingsForExport(listings, {
+            status,
+            archived,
+            makes: parseListParam(req.query.makes),
+            models: parseListParam(req.query.models),
+            sources: parseListParam(req.query.sources),
+        });
+
+        const file = createListingsExport(filtered, format, prices);
+        res.setHeader('Content-Type', file.mimeType);
+        res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+        res.status(200).send(file.content);
     } catch (error) {
-        handleError(res, error, 'fetching listings');
+        handleError(res, error, 'exporting listings');
     }
 });
 
@@ -392,9 +750,10 @@ router.get('/listings/:id', authMiddleware, async (req: Request, res: Response)
             return;
         }
 
-        // Remove internal fields before sending to client
-        const {userId: _uid, docId: _docId, ...clientListing} = listing;
-        sendSuccess(res, clientListing);
+        if (listing.revision !== undefined) {
+            res.setHeader('ETag', `"${listing.revision}"`);
+        }
+        sendSuccess(res, toClientListing(listing));
     } catch (error) {
         handleError(res, error, 'fetching listing');
     }
@@ -408,6 +767,8 @@ router.get('/listings/:id', authMiddleware, async (req: Request, res: Response)
  *     description: |
  *       Replace all listings for the authenticated user.
  *       This performs a full sync - existing listings not in the payload are deleted.
+ *       Listings sent with a `revision` must match the stored revision, otherwise
+ *       nothing is written and 409 lists the conflicting listings.
  *     tags:
  *       - Listings
  *     security:
@@ -435,6 +796,12 @@ router.get('/listings/:id', authMiddleware, async (req: Request, res: Response)
  *                   type: integer
  *                   description: Number of listings saved
  *                   example: 5
+ *       409:
+ *         description: Revision conflict - nothing was saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ListingConflictResponse'
  *       400:
  *         description: Bad request - invalid payload
  *         content:
@@ -476,6 +843,10 @@ router.put('/listings', authMiddleware, async (req: Request, res: Response) => {
         const savedListings = await saveAllListings(listings as CarListing[], userId);
         sendOperationSuccess(res, undefined, {count: savedListings.length});
     } catch (error) {
+        if (error instanceof ListingConflictError) {
+            sendListingConflict(res, error);
+            return;
+        }
         handleError(res, error, 'saving listings');
     }
 });
@@ -483,11 +854,13 @@ router.put('/listings', authMiddleware, async (req: Request, res: Response) => {
 /**
  * @openapi
  * /api/listings:
- *   post:
- *     summary: Create or update a listing
+ *   patch:
+ *     summary: Save several listings
  *     description: |
- *       Create a new listing or update an existing one (upsert).
- *       If a listing with the same ID exists, it will be updated.
+ *       Create or update the listings in the payload; other listings are kept.
+ *       Every listing is written conditionally - one sent with a `revision` must
+ *       still have that revision, one sent without must not exist yet. When any
+ *       check fails, nothing is written and 409 lists the conflicting listings.
  *     tags:
  *       - Listings
  *     security:
@@ -497,16 +870,32 @@ router.put('/listings', authMiddleware, async (req: Request, res: Response) => {
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/CarListing'
+ *             type: array
+ *             items:
+ *               $ref: '#/components/schemas/CarListing'
  *     responses:
  *       200:
- *         description: Listing saved successfully
+ *         description: Listings saved successfully
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/CarListing'
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 count:
+ *                   type: integer
+ *                   description: Number of listings saved
+ *                   example: 5
+ *       409:
+ *         description: Revision conflict - nothing was saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ListingConflictResponse'
  *       400:
- *         description: Bad request - invalid listing data
+ *         description: Bad request - invalid payload
  *         content:
  *           application/json:
  *             schema:
@@ -524,63 +913,92 @@ router.put('/listings', authMiddleware, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/listings', authMiddleware, async (req: Request, res: Response) => {
+router.patch('/listings', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
-        const listing = req.body as unknown as Record<string, unknown>;
+        const listings = req.body as unknown[];
 
-        if (!listing.id || typeof listing.id !== 'string') {
-            sendError(res, 400, 'Listing must have a valid id field');
+        if (!Array.isArray(listings)) {
+            sendError(res, 400, 'Request body must be an array of listings');
             return;
         }
 
-        const savedListing = await saveListing(req.body as CarListing, userId);
+        const ids = new Set<string>();
+        for (const listing of listings) {
+            const item = listing as Record<string, unknown>;
+            if (!item.id || typeof item.id !== 'string') {
+                sendError(res, 400, 'Each listing must have a valid id field');
+                return;
+            }
+            if (item.revision !== undefined && (!Number.isInteger(item.revision) || (item.revision as number) < 0)) {
+                sendError(res, 400, `Listing ${item.id} has an invalid revision`);
+                return;
+            }
+            if (ids.has(item.id)) {
+                sendError(res, 400, `Listing ${item.id} is sent more than once`);
+                return;
+            }
+            ids.add(item.id);
+        }
 
-        // Remove internal fields before sending to client
-        const {userId: _uid, docId: _docId, ...clientListing} = savedListing;
-        sendSuccess(res, clientListing);
+        const savedListings = await saveListings(listings as CarListing[], userId);
+        sendOperationSuccess(res, undefined, {count: savedListings.length});
     } catch (error) {
-        handleError(res, error, 'saving listing');
+        if (error instanceof ListingConflictError) {
+            sendListingConflict(res, error);
+            return;
+        }
+        handleError(res, error, 'saving listings');
     }
 });
 
 /**
  * @openapi
- * /api/listings/{id}:
- *   delete:
- *     summary: Delete a listing
- *     description: Delete a specific car listing for the authenticated user.
+ * /api/listings:
+ *   post:
+ *     summary: Create or update a listing
+ *     description: |
+ *       Create a new listing or update an existing one (upsert).
+ *       If a listing with the same ID exists, it will be updated.
+ *       Send `If-Match` with the last known revision to only update that revision.
  *     tags:
  *       - Listings
  *     security:
  *       - BearerAuth: []
  *     parameters:
- *       - in: path
- *         name: id
- *         required: true
+ *       - in: header
+ *         name: If-Match
  *         schema:
  *           type: string
- *         description: Listing ID to delete
- *         example: "vin_WBAPH5C55BA123456"
+ *         description: Expected revision of the stored listing
+ *         example: '"3"'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CarListing'
  *     responses:
  *       200:
- *         description: Listing deleted successfully
+ *         description: Listing saved successfully (ETag holds the new revision)
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *       401:
- *         description: Unauthorized
+ *               $ref: '#/components/schemas/CarListing'
+ *       409:
+ *         description: Revision conflict - the listing was changed or deleted by another client
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ListingConflictResponse'
+ *       400:
+ *         description: Bad request - invalid listing data
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
- *       404:
- *         description: Listing not found or not owned by user
+ *       401:
+ *         description: Unauthorized
  *         content:
  *           application/json:
  *             schema:
@@ -592,12 +1010,106 @@ router.post('/listings', authMiddleware, async (req: Request, res: Response) =>
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.delete('/listings/:id', authMiddleware, async (req: Request, res: Response) => {
+router.post('/listings', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const listing = req.body as unknown as Record<string, unknown>;
+
+        if (!listing.id || typeof listing.id !== 'string') {
+            sendError(res, 400, 'Listing must have a valid id field');
+            return;
+        }
+
+        const expectedRevision = parseExpectedRevision(req.headers['if-match']);
+        if (expectedRevision === null) {
+            sendError(res, 400, 'If-Match must be a listing revision');
+            return;
+        }
+
+        const savedListing = await saveListing(req.body as CarListing, userId, expectedRevision);
+
+        res.setHeader('ETag', `"${savedListing.revision}"`);
+        sendSuccess(res, toClientListing(savedListing));
+    } catch (error) {
+        if (error instanceof ListingConflictError) {
+            sendListingConflict(res, error);
+            return;
+        }
+        handleError(res, error, 'saving listing');
+    }
+});
+
+/**
+ * @openapi
+ * /api/listings/{id}:
+ *   delete:
+ *     summary: Delete a listing
+ *     description: Delete a specific car listing for the authenticated user.
+ *     tags:
+ *       - Listings
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Listing ID to delete
+ *         example: "vin_WBAPH5C55BA123456"
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *         description: Expected revision of the stored listing
+ *     responses:
+ *       200:
+ *         description: Listing deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Listing not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Revision conflict - the listing was changed by another client
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ListingConflictResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/listings/:id', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
         const listingId = req.params.id;
 
-        const deleted = await deleteListing(listingId, userId);
+        const expectedRevision = parseExpectedRevision(req.headers['if-match']);
+        if (expectedRevision === null) {
+            sendError(res, 400, 'If-Match must be a listing revision');
+            return;
+        }
+
+        const deleted = await deleteListing(listingId, userId, expectedRevision);
 
         if (!deleted) {
             sendError(res, 404, 'Listing not found or not owned by user');
@@ -606,6 +1118,10 @@ router.delete('/listings/:id', authMiddleware, async (req: Request, res: Respons
 
         sendOperationSuccess(res);
     } catch (error) {
+        if (error instanceof ListingConflictError) {
+            sendListingConflict(res, error);
+            return;
+        }
         handleError(res, error, 'deleting listing');
     }
 });
@@ -648,14 +1164,23 @@ router.delete('/listings/:id', authMiddleware, async (req: Request, res: Respons
  * Settings response type for API (differs from stored UserSettings by using null instead of undefined)
  */
 interface SettingsResponse {
-    geminiApiKey: string;
+    geminiApiKeyConfigured: boolean;
     checkFrequencyMinutes: number;
     endedListingGracePeriodDays: number;
     geminiStats: UserSettings['geminiStats'];
+    llmProvider: NonNullable<UserSettings['llmProvider']>;
+    llmModel: string;
+    llmBaseUrl: string;
     language: 'en' | 'pl';
     lastRefreshTime: string | null;
     nextRefreshTime: string | null;
     lastRefreshCount: number;
+    monthlyBudgetUsd: number | null;
+    serverRefreshEnabled: boolean;
+    lastServerRefreshTime: string | null;
+    lastServerRefreshCount: number;
+    alertRules: AlertRules | null;
+    customMarketplaces: CustomMarketplace[] | null;
     dashboardFilters: UserSettings['dashboardFilters'] | null;
     dashboardSort: string | null;
     dashboardViewMode: string | null;
@@ -663,17 +1188,27 @@ interface SettingsResponse {
 
 /**
  * Format settings for client response (removes internal fields, converts undefined to null)
+ * The Gemini API key itself is never returned - only whether one is stored.
  */
 function formatSettingsResponse(settings: UserSettings): SettingsResponse {
     return {
-        geminiApiKey: settings.geminiApiKey,
+        geminiApiKeyConfigured: !!settings.geminiApiKeyEncrypted,
         checkFrequencyMinutes: settings.checkFrequencyMinutes,
         endedListingGracePeriodDays: settings.endedListingGracePeriodDays ?? 3,
         geminiStats: settings.geminiStats,
+        llmProvider: settings.llmProvider ?? 'gemini',
+        llmModel: settings.llmModel ?? '',
+        llmBaseUrl: settings.llmBaseUrl ?? '',
         language: settings.language ?? 'en',
         lastRefreshTime: settings.lastRefreshTime ?? null,
         nextRefreshTime: settings.nextRefreshTime ?? null,
         lastRefreshCount: settings.lastRefreshCount ?? 0,
+        monthlyBudgetUsd: settings.monthlyBudgetUsd ?? null,
+        serverRefreshEnabled: settings.serverRefreshEnabled ?? false,
+        lastServerRefreshTime: settings.lastServerRefreshTime ?? null,
+        lastServerRefreshCount: settings.lastServerRefreshCount ?? 0,
+        alertRules: settings.alertRules ?? null,
+        customMarketplaces: settings.customMarketplaces ?? null,
         dashboardFilters: settings.dashboardFilters ?? null,
         dashboardSort: settings.dashboardSort ?? null,
         dashboardViewMode: settings.dashboardViewMode ?? null,
@@ -682,17 +1217,25 @@ function formatSettingsResponse(settings: UserSettings): SettingsResponse {
 
 /**
  * Extract update fields from request body
+ * (lastServerRefresh* fields are owned by the refresh worker and geminiQuota by
+ * the AI proxy, so they are not writable; geminiStats is saved by
+ * saveSettingsUpdate). A geminiApiKey is encrypted before storage; an empty
+ * string removes the stored key.
  */
 function extractSettingsUpdate(body: Record<string, unknown>): Partial<UserSettings> {
     const fields = [
-        'geminiApiKey',
         'checkFrequencyMinutes',
         'endedListingGracePeriodDays',
-        'geminiStats',
+        'llmProvider',
+        'llmModel',
+        'llmBaseUrl',
         'language',
         'lastRefreshTime',
         'nextRefreshTime',
         'lastRefreshCount',
+        'monthlyBudgetUsd',
+        'serverRefreshEnabled',
+        'alertRules',
         'dashboardFilters',
         'dashboardSort',
         'dashboardViewMode',
@@ -704,9 +1247,53 @@ function extractSettingsUpdate(body: Record<string, unknown>): Partial<UserSetti
             (updateData as Record<string, unknown>)[field] = body[field];
         }
     }
+    if (typeof body.geminiApiKey === 'string') {
+        const apiKey = body.geminiApiKey.trim();
+        updateData.geminiApiKeyEncrypted = apiKey ? encryptSecret(apiKey) : '';
+    }
+    if (body.customMarketplaces !== undefined) {
+        // Stored with normalized domains - the refresh worker fetches them
+        updateData.customMarketplaces = parseCustomMarketplaces(body.customMarketplaces).marketplaces;
+    }
     return updateData;
 }
 
+/**
+ * Validate a settings update payload
+ *
+ * @returns Error message, or null when the payload is valid
+ */
+function validateSettingsUpdate(body: Record<string, unknown>): string | null {
+    if (body.geminiStats !== undefined &&
+        (typeof body.geminiStats !== 'object' || body.geminiStats === null || Array.isArray(body.geminiStats))) {
+        return 'geminiStats must be an object';
+    }
+    if (body.customMarketplaces !== undefined) {
+        return parseCustomMarketplaces(body.customMarketplaces).error ?? null;
+    }
+    return null;
+}
+
+/**
+ * Save a validated settings update.
+ * Client-sent geminiStats replace the call counters but keep the stored
+ * dailyUsage: the server adds to it for every call (see POST
+ * /api/gemini-history) and checks the monthly budget against it, so the stats
+ * are merged in a transaction.
+ */
+async function saveSettingsUpdate(userId: string, body: Record<string, unknown>): Promise<UserSettings> {
+    const updateData = extractSettingsUpdate(body);
+    if (body.geminiStats === undefined) {
+        return saveUserSettings(userId, updateData);
+    }
+
+    const {dailyUsage: _dailyUsage, ...counters} = body.geminiStats as GeminiStats;
+    return updateUserSettings(userId, ({geminiStats}) => ({
+        ...updateData,
+        geminiStats: {...counters, ...(geminiStats.dailyUsage ? {dailyUsage: geminiStats.dailyUsage} : {})},
+    }));
+}
+
 router.get('/settings', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
@@ -743,6 +1330,12 @@ router.get('/settings', authMiddleware, async (req: Request, res: Response) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/UserSettings'
+ *       400:
+ *         description: Invalid custom marketplaces
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       401:
  *         description: Unauthorized
  *         content:
@@ -759,8 +1352,14 @@ router.get('/settings', authMiddleware, async (req: Request, res: Response) => {
 router.patch('/settings', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
-        const updateData = extractSettingsUpdate(req.body);
-        const savedSettings = await saveUserSettings(userId, updateData);
+        const validationError = validateSettingsUpdate(req.body);
+
+        if (validationError) {
+            sendError(res, 400, validationError);
+            return;
+        }
+
+        const savedSettings = await saveSettingsUpdate(userId, req.body);
         sendSuccess(res, formatSettingsResponse(savedSettings));
     } catch (error) {
         handleError(res, error, 'updating settings');
@@ -792,6 +1391,12 @@ router.patch('/settings', authMiddleware, async (req: Request, res: Response) =>
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/UserSettings'
+ *       400:
+ *         description: Invalid custom marketplaces
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       401:
  *         description: Unauthorized
  *         content:
@@ -808,8 +1413,14 @@ router.patch('/settings', authMiddleware, async (req: Request, res: Response) =>
 router.put('/settings', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
-        const updateData = extractSettingsUpdate(req.body);
-        const savedSettings = await saveUserSettings(userId, updateData);
+        const validationError = validateSettingsUpdate(req.body);
+
+        if (validationError) {
+            sendError(res, 400, validationError);
+            return;
+        }
+
+        const savedSettings = await saveSettingsUpdate(userId, req.body);
         sendSuccess(res, formatSettingsResponse(savedSettings));
     } catch (error) {
         handleError(res, error, 'saving settings');
@@ -817,36 +1428,84 @@ router.put('/settings', authMiddleware, async (req: Request, res: Response) => {
 });
 
 // =============================================================================
-// Gemini History API (Protected Routes)
+// Saved Searches API (Protected Routes)
 // =============================================================================
 
+/**
+ * Validate a saved search payload
+ *
+ * @returns Error message, or null when the payload is valid
+ */
+function validateSavedSearch(body: Record<string, unknown>): string | null {
+    if (!body.id || typeof body.id !== 'string') {
+        return 'Saved search must have a valid id field';
+    }
+    if (!body.name || typeof body.name !== 'string') {
+        return 'Saved search must have a valid name field';
+    }
+    if (typeof body.url !== 'string' || !/^https?:\/\//.test(body.url)) {
+        return 'Saved search must have a valid http(s) url field';
+    }
+    if (!Array.isArray(body.seenListingIds) || !Array.isArray(body.newMatches)) {
+        return 'Saved search must have seenListingIds and newMatches arrays';
+    }
+    return validateSearchInboxSize(body.seenListingIds, body.newMatches);
+}
+
+/**
+ * Validate the sizes of saved search seen IDs and matches
+ *
+ * @returns Error message, or null when within the limits
+ */
+function validateSearchInboxSize(seenListingIds: unknown[], newMatches: unknown[]): string | null {
+    if (seenListingIds.length > MAX_SEEN_LISTING_IDS) {
+        return `seenListingIds must have at most ${MAX_SEEN_LISTING_IDS} entries`;
+    }
+    if (newMatches.length > MAX_SEARCH_MATCHES) {
+        return `newMatches must have at most ${MAX_SEARCH_MATCHES} entries`;
+    }
+    return null;
+}
+
+/**
+ * Validate a saved search check payload
+ *
+ * @returns Error message, or null when the payload is valid
+ */
+function validateSavedSearchCheck(body: Record<string, unknown>): string | null {
+    const {seenListingIds, newMatches, checkedAt} = body;
+    if (!Array.isArray(seenListingIds) || seenListingIds.some((id) => typeof id !== 'string')) {
+        return 'seenListingIds must be an array of strings';
+    }
+    if (!Array.isArray(newMatches) || newMatches.some((match) =>
+        !match || typeof match !== 'object' || typeof (match as Record<string, unknown>).id !== 'string')) {
+        return 'newMatches must be an array of matches with an id';
+    }
+    if (typeof checkedAt !== 'string' || Number.isNaN(Date.parse(checkedAt))) {
+        return 'checkedAt must be an ISO date string';
+    }
+    return validateSearchInboxSize(seenListingIds, newMatches);
+}
+
 /**
  * @openapi
- * /api/gemini-history:
+ * /api/searches:
  *   get:
- *     summary: Get Gemini call history
- *     description: Get Gemini API call history for the authenticated user.
+ *     summary: Get all saved searches
+ *     description: Get all saved marketplace searches (with their new-listing inbox) for the authenticated user.
  *     tags:
- *       - Gemini History
+ *       - Saved Searches
  *     security:
  *       - BearerAuth: []
- *     parameters:
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           default: 100
- *           maximum: 500
- *         description: Maximum number of entries to return
  *     responses:
  *       200:
- *         description: List of Gemini call history entries
+ *         description: List of saved searches
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
- *                 $ref: '#/components/schemas/GeminiCallHistoryEntry'
+ *                 $ref: '#/components/schemas/SavedSearch'
  *       401:
  *         description: Unauthorized
  *         content:
@@ -860,25 +1519,29 @@ router.put('/settings', authMiddleware, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/gemini-history', authMiddleware, async (req: Request, res: Response) => {
+router.get('/searches', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
-        const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
-        const history = await getGeminiHistory(userId, limit);
-        sendSuccess(res, history);
+        const searches = await getSavedSearchesByUserId(userId);
+
+        // Remove internal fields before sending to client
+        const clientSearches = searches.map(({userId: _uid, ...search}) => search);
+        sendSuccess(res, clientSearches);
     } catch (error) {
-        handleError(res, error, 'fetching Gemini history');
+        handleError(res, error, 'fetching saved searches');
     }
 });
 
 /**
  * @openapi
- * /api/gemini-history:
+ * /api/searches:
  *   post:
- *     summary: Add Gemini history entries
- *     description: Add Gemini history entries for the authenticated user. Accepts single entry or array.
+ *     summary: Create or update a saved search
+ *     description: |
+ *       Create a new saved search or update an existing one (upsert).
+ *       The extension uses this to store seen listing IDs and new matches after each check.
  *     tags:
- *       - Gemini History
+ *       - Saved Searches
  *     security:
  *       - BearerAuth: []
  *     requestBody:
@@ -886,28 +1549,16 @@ router.get('/gemini-history', authMiddleware, async (req: Request, res: Response
  *       content:
  *         application/json:
  *           schema:
- *             oneOf:
- *               - $ref: '#/components/schemas/GeminiCallHistoryEntry'
- *               - type: array
- *                 items:
- *                   $ref: '#/components/schemas/GeminiCallHistoryEntry'
+ *             $ref: '#/components/schemas/SavedSearch'
  *     responses:
  *       200:
- *         description: History entries added successfully
+ *         description: Saved search stored successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 count:
- *                   type: integer
- *                   description: Number of entries added
- *                   example: 1
+ *               $ref: '#/components/schemas/SavedSearch'
  *       400:
- *         description: Bad request - invalid entry data
+ *         description: Bad request - invalid saved search data
  *         content:
  *           application/json:
  *             schema:
@@ -918,6 +1569,12 @@ router.get('/gemini-history', authMiddleware, async (req: Request, res: Response
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Saved search ID belongs to another user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       500:
  *         description: Internal server error
  *         content:
@@ -925,61 +1582,82 @@ router.get('/gemini-history', authMiddleware, async (req: Request, res: Response
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/gemini-history', authMiddleware, async (req: Request, res: Response) => {
+router.post('/searches', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
-        const body = req.body as unknown;
+        const validationError = validateSavedSearch(req.body as Record<string, unknown>);
 
-        // Accept single entry or array
-        const rawEntries = Array.isArray(body) ? body : [body];
+        if (validationError) {
+            sendError(res, 400, validationError);
+            return;
+        }
 
-        for (const entry of rawEntries) {
-            const item = entry as Record<string, unknown>;
-            if (!item.id || typeof item.id !== 'string') {
-                sendError(res, 400, 'Each history entry must have a valid id field');
-                return;
-            }
+        const savedSearch = await saveSavedSearch(req.body as SavedSearch, userId);
+
+        if (!savedSearch) {
+            sendError(res, 404, 'Saved search not found or not owned by user');
+            return;
         }
 
-        const entries = rawEntries as GeminiCallHistoryEntry[];
-        await addGeminiHistoryEntries(entries, userId);
-        sendOperationSuccess(res, undefined, {count: entries.length});
+        // Remove internal fields before sending to client
+        const {userId: _uid, ...clientSearch} = savedSearch;
+        sendSuccess(res, clientSearch);
     } catch (error) {
-        handleError(res, error, 'saving Gemini history');
+        handleError(res, error, 'saving saved search');
     }
 });
 
 /**
  * @openapi
- * /api/gemini-history:
- *   delete:
- *     summary: Clear Gemini history
- *     description: Clear all Gemini history for the authenticated user.
+ * /api/searches/{id}/checks:
+ *   post:
+ *     summary: Record a saved search check
+ *     description: |
+ *       Merge the result of one check into a saved search: the listing IDs it saw first
+ *       and the matches it added. The merge runs on the stored search, so matches
+ *       dismissed while the check ran stay dismissed.
  *     tags:
- *       - Gemini History
+ *       - Saved Searches
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Saved search ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SavedSearchCheck'
  *     responses:
  *       200:
- *         description: History cleared successfully
+ *         description: Saved search after the merge
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 deleted:
- *                   type: integer
- *                   description: Number of entries deleted
- *                   example: 25
+ *               $ref: '#/components/schemas/SavedSearch'
+ *       400:
+ *         description: Bad request - invalid check data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       401:
  *         description: Unauthorized
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Saved search not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  *       500:
  *         description: Internal server error
  *         content:
@@ -987,16 +1665,585 @@ router.post('/gemini-history', authMiddleware, async (req: Request, res: Respons
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.delete('/gemini-history', authMiddleware, async (req: Request, res: Response) => {
+router.post('/searches/:id/checks', authMiddleware, async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
-        const deletedCount = await clearGeminiHistory(userId);
-        sendOperationSuccess(res, undefined, {deleted: deletedCount});
+        const validationError = validateSavedSearchCheck(req.body as Record<string, unknown>);
+
+        if (validationError) {
+            sendError(res, 400, validationError);
+            return;
+        }
+
+        const savedSearch = await recordSavedSearchCheck(req.params.id, userId, req.body as SavedSearchCheck);
+
+        if (!savedSearch) {
+            sendError(res, 404, 'Saved search not found or not owned by user');
+            return;
+        }
+
+        const {userId: _uid, ...clientSearch} = savedSearch;
+        sendSuccess(res, clientSearch);
     } catch (error) {
-        handleError(res, error, 'clearing Gemini history');
+        handleError(res, error, 'recording saved search check');
     }
 });
 
+/**
+ * @openapi
+ * /api/searches/{id}/matches/{matchId}:
+ *   delete:
+ *     summary: Dismiss a saved search match
+ *     description: Remove one match from the inbox of a saved search, leaving the rest of the search as stored.
+ *     tags:
+ *       - Saved Searches
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Saved search ID
+ *       - in: path
+ *         name: matchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Listing ID of the match to dismiss
+ *     responses:
+ *       200:
+ *         description: Saved search after the match was removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SavedSearch'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Saved search not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/searches/:id/matches/:matchId', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const savedSearch = await dismissSavedSearchMatch(req.params.id, req.params.matchId, userId);
+
+        if (!savedSearch) {
+            sendError(res, 404, 'Saved search not found or not owned by user');
+            return;
+        }
+
+        const {userId: _uid, ...clientSearch} = savedSearch;
+        sendSuccess(res, clientSearch);
+    } catch (error) {
+        handleError(res, error, 'dismissing saved search match');
+    }
+});
+
+/**
+ * @openapi
+ * /api/searches/{id}:
+ *   delete:
+ *     summary: Delete a saved search
+ *     description: Stop watching a saved search and drop its inbox.
+ *     tags:
+ *       - Saved Searches
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Saved search ID to delete
+ *     responses:
+ *       200:
+ *         description: Saved search deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SuccessResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Saved search not found or not owned by user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/searches/:id', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const deleted = await deleteSavedSearch(req.params.id, userId);
+
+        if (!deleted) {
+            sendError(res, 404, 'Saved search not found or not owned by user');
+            return;
+        }
+
+        sendOperationSuccess(res);
+    } catch (error) {
+        handleError(res, error, 'deleting saved search');
+    }
+});
+
+// =============================================================================
+// Gemini History API (Protected Routes)
+// =============================================================================
+
+/**
+ * @openapi
+ * /api/gemini-history:
+ *   get:
+ *     summary: Get Gemini call history
+ *     description: Get Gemini API call history for the authenticated user.
+ *     tags:
+ *       - Gemini History
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 500
+ *         description: Maximum number of entries to return
+ *     responses:
+ *       200:
+ *         description: List of Gemini call history entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/GeminiCallHistoryEntry'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/gemini-history', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+        const history = await getGeminiHistory(userId, limit);
+        sendSuccess(res, history);
+    } catch (error) {
+        handleError(res, error, 'fetching Gemini history');
+    }
+});
+
+const isUsageCount = (value: unknown): boolean =>
+    value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+/**
+ * Validate a Gemini history entry sent by the extension.
+ * Its timestamp and usage go into the daily usage buckets.
+ *
+ * @returns Error message, or null when the entry is valid
+ */
+function validateGeminiHistoryEntry(entry: Record<string, unknown>): string | null {
+    if (typeof entry !== 'object' || entry === null) {
+        return 'Each history entry must be an object';
+    }
+    if (!entry.id || typeof entry.id !== 'string') {
+        return 'Each history entry must have a valid id field';
+    }
+    if (typeof entry.timestamp !== 'string' || Number.isNaN(Date.parse(entry.timestamp))) {
+        return 'Each history entry must have a valid timestamp field';
+    }
+    if (![entry.promptTokens, entry.responseTokens, entry.costUsd].every(isUsageCount)) {
+        return 'History entry usage fields must be non-negative numbers';
+    }
+    return null;
+}
+
+/**
+ * @openapi
+ * /api/gemini-history:
+ *   post:
+ *     summary: Add Gemini history entries
+ *     description: |
+ *       Add Gemini history entries for the authenticated user. Accepts single entry or array.
+ *       The entries' token usage and cost are added to geminiStats.dailyUsage.
+ *     tags:
+ *       - Gemini History
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             oneOf:
+ *               - $ref: '#/components/schemas/GeminiCallHistoryEntry'
+ *               - type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/GeminiCallHistoryEntry'
+ *     responses:
+ *       200:
+ *         description: History entries added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 count:
+ *                   type: integer
+ *                   description: Number of entries added
+ *                   example: 1
+ *       400:
+ *         description: Bad request - invalid entry data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/gemini-history', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const body = req.body as unknown;
+
+        // Accept single entry or array
+        const rawEntries = Array.isArray(body) ? body : [body];
+
+        for (const entry of rawEntries) {
+            const validationError = validateGeminiHistoryEntry(entry as Record<string, unknown>);
+            if (validationError) {
+                sendError(res, 400, validationError);
+                return;
+            }
+        }
+
+        const entries = rawEntries as GeminiCallHistoryEntry[];
+        await recordClientCalls(userId, entries);
+        sendOperationSuccess(res, undefined, {count: entries.length});
+    } catch (error) {
+        handleError(res, error, 'saving Gemini history');
+    }
+});
+
+/**
+ * @openapi
+ * /api/gemini-history:
+ *   delete:
+ *     summary: Clear Gemini history
+ *     description: Clear all Gemini history for the authenticated user.
+ *     tags:
+ *       - Gemini History
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: History cleared successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 deleted:
+ *                   type: integer
+ *                   description: Number of entries deleted
+ *                   example: 25
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete('/gemini-history', authMiddleware, async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const deletedCount = await clearGeminiHistory(userId);
+        sendOperationSuccess(res, undefined, {deleted: deletedCount});
+    } catch (error) {
+        handleError(res, error, 'clearing Gemini history');
+    }
+});
+
+// =============================================================================
+// AI Proxy API (Protected Routes)
+// =============================================================================
+
+/** Listing page sent to the AI proxy endpoints */
+interface AiPageRequest {
+    url: string;
+    pageText: string;
+    pageTitle: string;
+    /** Gemini model chosen in the user's settings (GEMINI_MODEL when omitted) */
+    model?: string;
+    /** Fields already read from the page (parse only), left out of the response schema */
+    extractedFields?: Record<string, unknown>;
+}
+
+/**
+ * Validate the page payload sent to the AI proxy endpoints
+ *
+ * @returns Error message, or null when the payload is valid
+ */
+function validateAiPageRequest(body: Record<string, unknown>): string | null {
+    if (typeof body.url !== 'string' || !/^https?:\/\//.test(body.url)) {
+        return 'Request must have a valid http(s) url field';
+    }
+    if (typeof body.pageText !== 'string' || body.pageText.trim().length === 0) {
+        return 'Request must have a non-empty pageText field';
+    }
+    if (typeof body.pageTitle !== 'string') {
+        return 'Request must have a pageTitle field';
+    }
+    if (body.model !== undefined && (typeof body.model !== 'string' || !GEMINI_MODEL_PATTERN.test(body.model))) {
+        return 'model must be a Gemini model name';
+    }
+    if (body.extractedFields !== undefined && (typeof body.extractedFields !== 'object'
+        || body.extractedFields === null || Array.isArray(body.extractedFields))) {
+        return 'extractedFields must be an object';
+    }
+    return null;
+}
+
+/**
+ * Run a Gemini call for the AI proxy endpoints: validate the payload,
+ * resolve the stored API key, count the call against the daily quota and
+ * map Gemini failures to HTTP errors
+ */
+async function handleAiRequest(
+    req: Request,
+    res: Response,
+    operation: string,
+    call: (userId: string, apiKey: string, page: AiPageRequest) => Promise<unknown>,
+): Promise<void> {
+    try {
+        const userId = req.user!.userId;
+        const validationError = validateAiPageRequest(req.body as Record<string, unknown>);
+
+        if (validationError) {
+            sendError(res, 400, validationError);
+            return;
+        }
+
+        const apiKey = getGeminiApiKey(await getUserSettings(userId));
+        if (!apiKey) {
+            sendError(res, 400, 'Gemini API key is not configured');
+            return;
+        }
+
+        await consumeGeminiQuota(userId);
+
+        const {url, pageText, pageTitle, model, extractedFields} = req.body as AiPageRequest;
+        let result;
+        try {
+            result = await call(userId, apiKey, {
+                url,
+                pageText: pageText.slice(0, MAX_PAGE_TEXT_LENGTH),
+                pageTitle,
+                model,
+                extractedFields,
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Gemini call failed while ${operation}:`, error);
+            sendError(res, error instanceof RateLimitError ? 429 : 502, message);
+            return;
+        }
+
+        sendSuccess(res, result);
+    } catch (error) {
+        if (error instanceof GeminiQuotaExceededError) {
+            sendError(res, 429, error.message);
+            return;
+        }
+        handleError(res, error, operation);
+    }
+}
+
+/**
+ * @openapi
+ * /api/ai/parse:
+ *   post:
+ *     summary: Parse a listing page with Gemini
+ *     description: |
+ *       Extract full listing data from page content using the Gemini API key
+ *       stored in the user's settings. The call counts against the daily quota
+ *       and is recorded in the Gemini history. Fields sent in `extractedFields`
+ *       are left out of the response schema, so only missing ones are returned.
+ *     tags:
+ *       - AI
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AiPageRequest'
+ *     responses:
+ *       200:
+ *         description: Structured listing data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AiParseResult'
+ *       400:
+ *         description: Bad request - invalid page data or no Gemini API key configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Daily quota used up or Gemini rate limit hit
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       502:
+ *         description: Gemini call failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/ai/parse', authMiddleware, async (req: Request, res: Response) => {
+    await handleAiRequest(req, res, 'parsing listing', (userId, apiKey, page) =>
+        parseListingWithGemini(userId, apiKey, page.url, page.pageText, page.pageTitle, page.model, page.extractedFields),
+    );
+});
+
+/**
+ * @openapi
+ * /api/ai/refresh:
+ *   post:
+ *     summary: Refresh a listing price and status with Gemini
+ *     description: |
+ *       Extract the current price and availability from page content using the
+ *       Gemini API key stored in the user's settings. The call counts against
+ *       the daily quota and is recorded in the Gemini history.
+ *     tags:
+ *       - AI
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AiPageRequest'
+ *     responses:
+ *       200:
+ *         description: Current price and status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AiRefreshResult'
+ *       400:
+ *         description: Bad request - invalid page data or no Gemini API key configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Daily quota used up or Gemini rate limit hit
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       502:
+ *         description: Gemini call failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/ai/refresh', authMiddleware, async (req: Request, res: Response) => {
+    await handleAiRequest(req, res, 'refreshing listing', (userId, apiKey, page) =>
+        refreshListingWithGemini(userId, apiKey, page.url, page.pageText, page.pageTitle, page.model),
+    );
+});
+
 // =============================================================================
 // Image Storage API (Protected Routes)
 // =============================================================================
@@ -38,7 +38,7 @@ const schemas = {
         type: 'object',
         properties: {
             status: {type: 'string', enum: ['ok', 'error']},
-            firestore: {type: 'string', enum: ['ok', 'error']},
+            firestore: {type: 'string', enum: ['ok', 'error'], description: 'Database connectivity for the configured storage backend (Firestore or SQLite)'},
             timestamp: {type: 'string', format: 'date-time'},
         },
         required: ['status', 'firestore', 'timestamp'],
@@ -77,6 +77,7 @@ const schemas = {
             date: {type: 'string', format: 'date-time'},
             price: {type: 'number', example: 45000},
             currency: {type: 'string', example: 'PLN'},
+            source: {type: 'string', enum: ['extension', 'server'], description: 'Where the price was recorded (missing = extension)'},
         },
         required: ['date', 'price', 'currency'],
     },
@@ -170,6 +171,37 @@ const schemas = {
             colorAndInterior: {$ref: '#/components/schemas/ColorAndInterior'},
         },
     },
+    FieldEvidence: {
+        type: 'object',
+        properties: {
+            snippet: {type: 'string', nullable: true, example: 'Przebieg 152 000 km', description: 'Page text the value was read from'},
+            confidence: {type: 'number', minimum: 0, maximum: 1, example: 0.9},
+            source: {type: 'string', enum: ['ai', 'page'], description: 'Reported by the LLM or read from page markup'},
+        },
+        required: ['snippet', 'confidence', 'source'],
+    },
+    VehicleEvidence: {
+        type: 'object',
+        description: 'Evidence for key vehicle fields',
+        properties: {
+            vin: {$ref: '#/components/schemas/FieldEvidence'},
+            productionYear: {$ref: '#/components/schemas/FieldEvidence'},
+            mileage: {$ref: '#/components/schemas/FieldEvidence'},
+            engineCapacity: {$ref: '#/components/schemas/FieldEvidence'},
+            enginePower: {$ref: '#/components/schemas/FieldEvidence'},
+            fuelType: {$ref: '#/components/schemas/FieldEvidence'},
+        },
+    },
+    FieldOverride: {
+        type: 'object',
+        description: 'User correction of a listing field; the field is locked against refreshes and re-parses',
+        properties: {
+            value: {nullable: true, description: 'Value entered by the user (string, number or boolean)', example: 2700},
+            originalValue: {nullable: true, description: 'Value before the first correction', example: -1000},
+            editedAt: {type: 'string', format: 'date-time'},
+        },
+        required: ['value', 'originalValue', 'editedAt'],
+    },
     ListingSource: {
         type: 'object',
         properties: {
@@ -194,6 +226,7 @@ const schemas = {
             originalPrice: {type: 'number', nullable: true},
             negotiable: {type: 'boolean', nullable: true},
             vehicle: {$ref: '#/components/schemas/Vehicle'},
+            vehicleEvidence: {$ref: '#/components/schemas/VehicleEvidence'},
             location: {$ref: '#/components/schemas/Location'},
             seller: {$ref: '#/components/schemas/Seller'},
             status: {type: 'string', enum: ['ACTIVE', 'ENDED']},
@@ -202,9 +235,80 @@ const schemas = {
             lastSeenAt: {type: 'string', format: 'date-time'},
             lastRefreshStatus: {type: 'string', enum: ['success', 'error', 'pending']},
             lastRefreshError: {type: 'string'},
+            lastRefreshSource: {type: 'string', enum: ['extension', 'server']},
+            contentFingerprint: {type: 'string', example: '001a2b3c4d5e6f', description: 'Hash of the normalized page text at the last analysis'},
+            fieldOverrides: {
+                type: 'object',
+                description: 'User corrections keyed by field path (e.g. vehicle.engine.capacityCc)',
+                additionalProperties: {$ref: '#/components/schemas/FieldOverride'},
+            },
+            fieldOverrideRemovals: {
+                type: 'object',
+                description: 'When a user correction was reverted, keyed by field path - a revert newer than an edit wins when copies are merged',
+                additionalProperties: {type: 'string', format: 'date-time'},
+            },
+            revision: {type: 'integer', readOnly: true, example: 3, description: 'Incremented by the server on every write'},
+            updatedAt: {type: 'string', format: 'date-time', readOnly: true, description: 'Last write time, used for delta sync'},
         },
         required: ['id', 'schemaVersion', 'source', 'title', 'currentPrice', 'currency', 'vehicle', 'status', 'firstSeenAt', 'lastSeenAt'],
     },
+    ListingChanges: {
+        type: 'object',
+        properties: {
+            listings: {type: 'array', items: {$ref: '#/components/schemas/CarListing'}},
+            deleted: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        id: {type: 'string', example: 'vin_WBAPH5C55BA123456'},
+                        deletedAt: {type: 'string', format: 'date-time'},
+                    },
+                },
+            },
+            serverTime: {
+                type: 'string',
+                format: 'date-time',
+                description: 'Pass as `since` on the next sync - it lags the server clock, so the next sync repeats recent changes (skip listings whose revision you already have)',
+            },
+        },
+        required: ['listings', 'deleted', 'serverTime'],
+    },
+    ListingPage: {
+        type: 'object',
+        properties: {
+            listings: {type: 'array', items: {$ref: '#/components/schemas/CarListing'}},
+            nextCursor: {
+                type: 'string',
+                nullable: true,
+                description: 'Pass as `cursor` to get the next page; null on the last page',
+            },
+        },
+        required: ['listings', 'nextCursor'],
+    },
+    ListingConflictResponse: {
+        type: 'object',
+        properties: {
+            error: {type: 'string', example: 'Conflict'},
+            message: {type: 'string', example: 'Listing was changed by another client'},
+            statusCode: {type: 'integer', example: 409},
+            conflicts: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        id: {type: 'string', example: 'vin_WBAPH5C55BA123456'},
+                        current: {
+                            allOf: [{$ref: '#/components/schemas/CarListing'}],
+                            nullable: true,
+                            description: 'Listing as stored on the server, null when it was deleted',
+                        },
+                    },
+                },
+            },
+        },
+        required: ['error', 'message', 'statusCode', 'conflicts'],
+    },
 
     // Settings
     GeminiStats: {
@@ -214,9 +318,25 @@ const schemas = {
             totalCalls: {type: 'integer', example: 25},
             successCount: {type: 'integer', example: 23},
             errorCount: {type: 'integer', example: 2},
+            savedCalls: {type: 'integer', example: 12, description: 'Refreshes that skipped the LLM because the page was unchanged'},
+            dailyUsage: {
+                type: 'object',
+                additionalProperties: {$ref: '#/components/schemas/GeminiDailyUsage'},
+                description: 'LLM usage keyed by UTC day (YYYY-MM-DD), kept for a year and not reset when logs are cleared. Read-only: the server adds calls it makes and history entries posted to /api/gemini-history',
+            },
         },
         required: ['allTimeTotalCalls', 'totalCalls', 'successCount', 'errorCount'],
     },
+    GeminiDailyUsage: {
+        type: 'object',
+        properties: {
+            calls: {type: 'integer', example: 14},
+            promptTokens: {type: 'integer', example: 52000},
+            responseTokens: {type: 'integer', example: 3100},
+            costUsd: {type: 'number', example: 0.0234, description: 'Estimated cost of the calls with a known model price'},
+        },
+        required: ['calls', 'promptTokens', 'responseTokens', 'costUsd'],
+    },
     DashboardFilters: {
         type: 'object',
         properties: {
@@ -227,16 +347,64 @@ const schemas = {
             sources: {type: 'array', items: {type: 'string'}},
         },
     },
+    AlertRule: {
+        type: 'object',
+        properties: {
+            priceDropPercent: {type: 'number', nullable: true, example: 5, description: 'Notify when the price drops by at least this percentage'},
+            priceDropAmount: {type: 'number', nullable: true, example: 2000, description: 'Notify when the price drops by at least this amount'},
+            targetPrice: {type: 'number', nullable: true, example: 40000, description: 'Notify when the price falls to or below this value'},
+            notifyOnEnded: {type: 'boolean'},
+            notifyOnRelisted: {type: 'boolean'},
+        },
+        required: ['priceDropPercent', 'priceDropAmount', 'targetPrice', 'notifyOnEnded', 'notifyOnRelisted'],
+    },
+    AlertRules: {
+        type: 'object',
+        properties: {
+            global: {$ref: '#/components/schemas/AlertRule'},
+            listings: {
+                type: 'object',
+                additionalProperties: {$ref: '#/components/schemas/AlertRule'},
+                description: 'Per-listing rules keyed by listing ID, used instead of the global rule',
+            },
+        },
+        required: ['global', 'listings'],
+    },
+    CustomMarketplace: {
+        type: 'object',
+        properties: {
+            id: {type: 'string', example: 'custom-cars.example.com'},
+            name: {type: 'string', example: 'Example Cars'},
+            domains: {type: 'array', items: {type: 'string'}, example: ['cars.example.com']},
+            offerPagePatterns: {type: 'array', items: {type: 'string'}, example: ['/offer/'], description: 'URL parts of single-offer pages'},
+            excludePatterns: {type: 'array', items: {type: 'string'}, description: 'URL parts of search and category pages'},
+            neverFetch: {type: 'boolean', description: 'Pages need a browser session - the server does not refresh them'},
+        },
+        required: ['id', 'name', 'domains', 'offerPagePatterns', 'excludePatterns', 'neverFetch'],
+    },
     UserSettings: {
         type: 'object',
         properties: {
-            geminiApiKey: {type: 'string'},
+            geminiApiKeyConfigured: {
+                type: 'boolean',
+                readOnly: true,
+                description: 'Whether a Gemini API key is stored (the key itself is never returned)',
+            },
             checkFrequencyMinutes: {type: 'integer', example: 60},
             geminiStats: {$ref: '#/components/schemas/GeminiStats'},
+            llmProvider: {type: 'string', enum: ['gemini', 'openai-compatible'], example: 'gemini', description: 'LLM provider the extension uses for extraction'},
+            llmModel: {type: 'string', example: 'gemini-2.5-flash', description: 'Model name (empty uses the provider default)'},
+            llmBaseUrl: {type: 'string', example: 'http://localhost:11434/v1', description: 'OpenAI-compatible server URL (empty uses the local Ollama default)'},
             language: {type: 'string', enum: ['en', 'pl'], example: 'en'},
             lastRefreshTime: {type: 'string', format: 'date-time', nullable: true},
             nextRefreshTime: {type: 'string', format: 'date-time', nullable: true},
             lastRefreshCount: {type: 'integer', nullable: true},
+            monthlyBudgetUsd: {type: 'number', nullable: true, example: 5, description: 'Monthly LLM spend (USD) at which background refresh pauses'},
+            serverRefreshEnabled: {type: 'boolean', description: 'Refresh listings on the server while the browser is closed'},
+            lastServerRefreshTime: {type: 'string', format: 'date-time', nullable: true, readOnly: true},
+            lastServerRefreshCount: {type: 'integer', readOnly: true},
+            alertRules: {$ref: '#/components/schemas/AlertRules'},
+            customMarketplaces: {type: 'array', items: {$ref: '#/components/schemas/CustomMarketplace'}},
             dashboardFilters: {$ref: '#/components/schemas/DashboardFilters'},
             dashboardSort: {type: 'string', nullable: true},
             dashboardViewMode: {type: 'string', nullable: true},
@@ -245,19 +413,66 @@ const schemas = {
     UserSettingsUpdate: {
         type: 'object',
         properties: {
-            geminiApiKey: {type: 'string'},
+            geminiApiKey: {
+                type: 'string',
+                writeOnly: true,
+                description: 'Gemini API key, stored encrypted. An empty string removes the stored key.',
+            },
             checkFrequencyMinutes: {type: 'integer'},
             geminiStats: {$ref: '#/components/schemas/GeminiStats'},
+            llmProvider: {type: 'string', enum: ['gemini', 'openai-compatible']},
+            llmModel: {type: 'string'},
+            llmBaseUrl: {type: 'string'},
             language: {type: 'string', enum: ['en', 'pl']},
             lastRefreshTime: {type: 'string', format: 'date-time', nullable: true},
             nextRefreshTime: {type: 'string', format: 'date-time', nullable: true},
             lastRefreshCount: {type: 'integer'},
+            monthlyBudgetUsd: {type: 'number', nullable: true},
+            serverRefreshEnabled: {type: 'boolean'},
+            alertRules: {$ref: '#/components/schemas/AlertRules'},
+            customMarketplaces: {type: 'array', items: {$ref: '#/components/schemas/CustomMarketplace'}},
             dashboardFilters: {$ref: '#/components/schemas/DashboardFilters'},
             dashboardSort: {type: 'string'},
             dashboardViewMode: {type: 'string'},
         },
     },
 
+    // Saved Searches
+    SearchMatch: {
+        type: 'object',
+        properties: {
+            id: {type: 'string', description: 'Marketplace listing ID', example: '6123456789'},
+            url: {type: 'string', format: 'uri'},
+            title: {type: 'string'},
+            price: {type: 'string', example: '89 900 PLN'},
+            imageUrl: {type: 'string', format: 'uri'},
+            discoveredAt: {type: 'string', format: 'date-time'},
+        },
+        required: ['id', 'url', 'title', 'discoveredAt'],
+    },
+    SavedSearch: {
+        type: 'object',
+        properties: {
+            id: {type: 'string'},
+            name: {type: 'string', example: 'BMW 3 diesel'},
+            url: {type: 'string', format: 'uri', example: 'https://www.otomoto.pl/osobowe/bmw/seria-3'},
+            seenListingIds: {type: 'array', maxItems: 2000, items: {type: 'string'}},
+            newMatches: {type: 'array', maxItems: 100, items: {$ref: '#/components/schemas/SearchMatch'}},
+            createdAt: {type: 'string', format: 'date-time'},
+            lastCheckedAt: {type: 'string', format: 'date-time', nullable: true},
+        },
+        required: ['id', 'name', 'url', 'seenListingIds', 'newMatches', 'createdAt', 'lastCheckedAt'],
+    },
+    SavedSearchCheck: {
+        type: 'object',
+        properties: {
+            seenListingIds: {type: 'array', maxItems: 2000, items: {type: 'string'}, description: 'Listing IDs first seen by this check'},
+            newMatches: {type: 'array', maxItems: 100, items: {$ref: '#/components/schemas/SearchMatch'}, description: 'Matches this check added to the inbox'},
+            checkedAt: {type: 'string', format: 'date-time'},
+        },
+        required: ['seenListingIds', 'newMatches', 'checkedAt'],
+    },
+
     // Gemini History
     GeminiCallHistoryEntry: {
         type: 'object',
@@ -269,9 +484,46 @@ const schemas = {
             error: {type: 'string'},
             status: {type: 'string', enum: ['success', 'error']},
             timestamp: {type: 'string', format: 'date-time'},
+            provider: {type: 'string', enum: ['gemini', 'openai-compatible', 'fixture'], description: 'LLM provider that handled the call'},
+            model: {type: 'string', example: 'gemini-2.5-flash', description: 'Model requested from the provider'},
+            promptTokens: {type: 'integer', example: 3800},
+            responseTokens: {type: 'integer', example: 240, description: 'Includes thinking tokens'},
+            costUsd: {type: 'number', example: 0.00174, description: 'Estimated cost (missing for models without a known price)'},
         },
         required: ['id', 'url', 'promptPreview', 'status', 'timestamp'],
     },
+
+    // AI Proxy
+    AiPageRequest: {
+        type: 'object',
+        properties: {
+            url: {type: 'string', format: 'uri', example: 'https://www.otomoto.pl/osobowe/oferta/bmw-320d-ID6Abc123.html'},
+            pageText: {type: 'string', description: 'Text content extracted from the listing page'},
+            pageTitle: {type: 'string', example: 'BMW 320d 2019 - 89 900 PLN'},
+            model: {type: 'string', example: 'gemini-2.5-flash', description: 'Gemini model to use (server default when omitted)'},
+            extractedFields: {
+                type: 'object',
+                additionalProperties: true,
+                description: 'Parse only - fields already read from the page, in the response shape; Gemini is only asked for the others',
+                example: {vehicle: {vin: 'WBA8E9C55GK123456', productionYear: 2019}},
+            },
+        },
+        required: ['url', 'pageText', 'pageTitle'],
+    },
+    AiParseResult: {
+        type: 'object',
+        description: 'Structured listing data as returned by Gemini (validated and mapped by the extension)',
+        additionalProperties: true,
+    },
+    AiRefreshResult: {
+        type: 'object',
+        properties: {
+            price: {type: 'number', description: 'Current price, 0 when not found', example: 89900},
+            currency: {type: 'string', example: 'PLN'},
+            status: {type: 'string', enum: ['ACTIVE', 'ENDED']},
+        },
+        required: ['price', 'currency', 'status'],
+    },
 } as const;
 
 // =============================================================================
@@ -290,7 +542,9 @@ This API provides endpoints for:
 - **Authentication**: Google OAuth integration with JWT tokens
 - **Listings**: CRUD operations for tracked car listings
 - **Settings**: User preferences and configuration
+- **Saved Searches**: Marketplace searches watched for new listings
 - **Gemini History**: AI call tracking and statistics
+- **AI**: Gemini calls made with the user's stored API key
 
 All endpoints except \`/api/healthz\` and \`/api/auth/google\` require JWT authentication via the \`Authorization: Bearer <token>\` header.
     `.trim(),
@@ -316,7 +570,9 @@ All endpoints except \`/api/healthz\` and \`/api/auth/google\` require JWT authe
         {name: 'Authentication', description: 'Google OAuth authentication and session management'},
         {name: 'Listings', description: 'Car listing CRUD operations'},
         {name: 'Settings', description: 'User settings and preferences'},
+        {name: 'Saved Searches', description: 'Marketplace searches watched for new listings'},
         {name: 'Gemini History', description: 'Gemini AI call history and statistics'},
+        {name: 'AI', description: 'Gemini proxy - listing parsing and refresh with the stored API key'},
     ],
     components: {
         securitySchemes: {
@@ -9,10 +9,14 @@
 // Vehicle & Listing Types (from extension)
 // =============================================================================
 
+/** Where a refresh (and the price point it recorded) was performed */
+export type RefreshSource = 'extension' | 'server';
+
 export interface PricePoint {
     date: string; // ISO String
     price: number;
     currency: string;
+    source?: RefreshSource; // Who recorded the point (missing for legacy points = extension)
 }
 
 export interface Mileage {
@@ -87,6 +91,28 @@ export interface Vehicle {
     colorAndInterior: ColorAndInterior;
 }
 
+// Value of a user-editable listing field
+export type EditableFieldValue = string | number | boolean | null;
+
+// User correction of a listing field - the field is locked against refreshes and re-parses
+export interface FieldOverride {
+    value: EditableFieldValue; // Value entered by the user
+    originalValue: EditableFieldValue; // Value before the first correction (as extracted)
+    editedAt: string; // When the value was last edited (ISO string)
+}
+
+// Key vehicle fields the extraction reports evidence for
+export type EvidenceField = 'vin' | 'productionYear' | 'mileage' | 'engineCapacity' | 'enginePower' | 'fuelType';
+
+// Where an extracted vehicle value came from
+export interface FieldEvidence {
+    snippet: string | null; // Page text the value was read from (null when read from page markup)
+    confidence: number; // 0-1 (1 for values read from page markup)
+    source: 'ai' | 'page'; // Reported by the LLM or read by the marketplace extractor
+}
+
+export type VehicleEvidence = Partial<Record<EvidenceField, FieldEvidence>>;
+
 export enum ListingStatus {
     ACTIVE = 'ACTIVE',
     ENDED = 'ENDED',
@@ -96,6 +122,20 @@ export enum ListingStatus {
  * CarListing document shape
  * This is the main document structure stored in the listings collection.
  */
+// Marketplace listing a VIN-keyed car has appeared under (relistings and cross-posts)
+export interface ListingSighting {
+    url: string;
+    platform: string;
+    listingId: string | null;
+    sellerName: string | null;
+    sellerType: string | null;
+    price: number; // Last asking price seen under this source
+    currency: string;
+    firstSeenAt: string; // ISO string
+    lastSeenAt: string; // ISO string
+    status: ListingStatus; // Status when last seen under this source
+}
+
 export interface CarListing {
     id: string; // Unique ID - VIN-based (vin_XXX) or URL-based (url_XXX)
     schemaVersion: string; // Schema version for data compatibility
@@ -121,6 +161,7 @@ export interface CarListing {
 
     // Vehicle data - normalized structure
     vehicle: Vehicle;
+    vehicleEvidence?: VehicleEvidence; // Evidence for key vehicle fields (missing on listings parsed before it was recorded)
 
     // Location & Seller
     location: Location;
@@ -139,6 +180,20 @@ export interface CarListing {
     // Refresh status tracking
     lastRefreshStatus?: 'success' | 'error' | 'pending';
     lastRefreshError?: string;
+    lastRefreshSource?: RefreshSource; // Whether the last refresh ran in the extension or on the server
+    contentFingerprint?: string; // Hash of the normalized page text at the last analysis
+
+    // VIN history - every source the car has appeared under, oldest first (missing until it changes source)
+    sourceHistory?: ListingSighting[];
+    relistedAt?: string | null; // When the car reappeared under a new source after its previous listing ended
+
+    // User corrections keyed by field path (e.g. "vehicle.engine.capacityCc"); these fields are locked
+    fieldOverrides?: Record<string, FieldOverride>;
+    fieldOverrideRemovals?: Record<string, string>; // When a correction was reverted, keyed by field path (ISO string)
+
+    // Sync metadata - assigned by the API on every write, ignored when sent by clients
+    revision?: number; // Incremented on each write; expected revision for conditional writes (If-Match)
+    updatedAt?: string; // When the listing was last written (ISO string); cursor for delta sync
 }
 
 // =============================================================================
@@ -165,6 +220,11 @@ export interface User {
     lastLoginAt: string;
 }
 
+/**
+ * LLM provider that handled a call ('fixture' is only used by extension tests)
+ */
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
 /**
  * Gemini call history entry for statistics tracking
  */
@@ -176,6 +236,16 @@ export interface GeminiCallHistoryEntry {
     error?: string;
     status: 'success' | 'error';
     timestamp: string;
+    /** Provider that handled the call (missing on entries recorded before providers existed) */
+    provider?: LlmProviderId;
+    /** Model requested from the provider */
+    model?: string;
+    /** Prompt tokens reported by the provider */
+    promptTokens?: number;
+    /** Response tokens reported by the provider, including thinking tokens */
+    responseTokens?: number;
+    /** Estimated cost in USD (missing for models without a known price) */
+    costUsd?: number;
 }
 
 /**
@@ -195,6 +265,70 @@ export interface GeminiStats {
     totalCalls: number;
     successCount: number;
     errorCount: number;
+    savedCalls?: number; // Refreshes that skipped the LLM because the page was unchanged
+    dailyUsage?: Record<string, GeminiDailyUsage>; // Keyed by UTC day (YYYY-MM-DD), kept when logs are cleared
+}
+
+/**
+ * LLM calls, tokens and estimated cost of one day
+ */
+export interface GeminiDailyUsage {
+    calls: number;
+    promptTokens: number;
+    responseTokens: number;
+    costUsd: number;
+}
+
+/**
+ * Price/status alert rule evaluated after each listing refresh
+ * Null thresholds are not checked
+ */
+export interface AlertRule {
+    /** Notify when the price drops by at least this percentage */
+    priceDropPercent: number | null;
+    /** Notify when the price drops by at least this amount (listing currency) */
+    priceDropAmount: number | null;
+    /** Notify when the price falls to or below this value (per-listing rules only) */
+    targetPrice: number | null;
+    /** Notify when the listing ends (sold/expired) */
+    notifyOnEnded: boolean;
+    /** Notify when an ended listing becomes active again */
+    notifyOnRelisted: boolean;
+}
+
+/**
+ * Alert rules of a user - a global rule plus per-listing overrides
+ */
+export interface AlertRules {
+    global: AlertRule;
+    /** Listing ID -> rule used instead of the global one */
+    listings: Record<string, AlertRule>;
+}
+
+/**
+ * Marketplace added by the user in the extension settings
+ */
+export interface CustomMarketplace {
+    /** 'custom-' + first domain */
+    id: string;
+    name: string;
+    /** Domains matched against the listing URL */
+    domains: string[];
+    /** URL parts of single-offer pages */
+    offerPagePatterns: string[];
+    /** URL parts of search/category pages */
+    excludePatterns: string[];
+    /** Pages require a browser session - the server cannot refresh them */
+    neverFetch: boolean;
+}
+
+/**
+ * Gemini proxy calls made by a user on one (UTC) day
+ */
+export interface GeminiQuotaUsage {
+    /** Day the counter applies to (YYYY-MM-DD, UTC) */
+    date: string;
+    used: number;
 }
 
 /**
@@ -205,8 +339,8 @@ export interface UserSettings {
     /** User ID that owns these settings */
     userId: string;
 
-    /** Gemini API key (encrypted or stored securely) */
-    geminiApiKey: string;
+    /** Gemini API key encrypted with SETTINGS_ENCRYPTION_KEY ('' when not configured) */
+    geminiApiKeyEncrypted: string;
 
     /** Check frequency in minutes */
     checkFrequencyMinutes: number;
@@ -217,6 +351,18 @@ export interface UserSettings {
     /** Gemini API usage statistics */
     geminiStats: GeminiStats;
 
+    /** Gemini proxy calls made today - written by the proxy endpoints only */
+    geminiQuota?: GeminiQuotaUsage;
+
+    /** LLM provider the extension uses for extraction (default 'gemini') */
+    llmProvider?: Exclude<LlmProviderId, 'fixture'>;
+
+    /** Model name ('' uses the provider default) */
+    llmModel?: string;
+
+    /** OpenAI-compatible server URL, used by the extension only ('' uses the local Ollama default) */
+    llmBaseUrl?: string;
+
     /** User's preferred language (defaults to 'en') */
     language?: 'en' | 'pl';
 
@@ -229,6 +375,24 @@ export interface UserSettings {
     /** Number of listings refreshed in last run */
     lastRefreshCount?: number;
 
+    /** Monthly LLM spend (USD) at which background refresh pauses (null or missing for no budget) */
+    monthlyBudgetUsd?: number | null;
+
+    /** Let the server refresh listings while the browser is closed (default false) */
+    serverRefreshEnabled?: boolean;
+
+    /** Last server-side refresh run (ISO string) - written by the refresh worker only */
+    lastServerRefreshTime?: string | null;
+
+    /** Number of listings refreshed in the last server-side run */
+    lastServerRefreshCount?: number;
+
+    /** Price-drop and status-change alert rules */
+    alertRules?: AlertRules;
+
+    /** Marketplaces the user added on top of the built-in ones */
+    customMarketplaces?: CustomMarketplace[];
+
     /** Dashboard filters - persisted user preferences */
     dashboardFilters?: {
         status: string;
@@ -260,6 +424,108 @@ export interface ListingDocument extends CarListing {
     docId?: string;
 }
 
+/**
+ * Deleted listing marker, kept so delta sync can report deletions
+ */
+export interface ListingTombstoneDocument {
+    /** ID of the deleted listing */
+    id: string;
+
+    /** User ID that owned the listing */
+    userId: string;
+
+    /** Revision of the listing when it was deleted */
+    revision: number;
+
+    /** Deletion timestamp (ISO string) */
+    deletedAt: string;
+}
+
+/**
+ * Listing changes since a point in time, returned by GET /api/listings?since=
+ */
+export interface ListingChanges {
+    /** Listings created or updated after `since` */
+    listings: CarListing[];
+
+    /** Listings deleted after `since` */
+    deleted: Array<{ id: string; deletedAt: string }>;
+
+    /** Server time when the changes were read - pass as `since` on the next sync */
+    serverTime: string;
+}
+
+/**
+ * Listing card found on a saved search page that the user has not seen before
+ */
+export interface SearchMatch {
+    /** Marketplace listing ID (e.g. OTOMOTO data-id) */
+    id: string;
+
+    /** Offer page URL */
+    url: string;
+
+    /** Card title as shown on the search page */
+    title: string;
+
+    /** Price text as shown on the search page */
+    price?: string;
+
+    /** Card thumbnail URL */
+    imageUrl?: string;
+
+    /** When the card was first spotted (ISO string) */
+    discoveredAt: string;
+}
+
+/**
+ * Marketplace search URL watched for new listings
+ */
+export interface SavedSearch {
+    /** Client-generated ID */
+    id: string;
+
+    /** User-facing name */
+    name: string;
+
+    /** Search page URL that is re-opened on each check */
+    url: string;
+
+    /** Listing IDs already seen on the search page */
+    seenListingIds: string[];
+
+    /** New listings waiting in the inbox */
+    newMatches: SearchMatch[];
+
+    /** Creation timestamp (ISO string) */
+    createdAt: string;
+
+    /** Last check timestamp (ISO string), null until the first check */
+    lastCheckedAt: string | null;
+}
+
+/**
+ * Saved search document as stored in Firestore
+ */
+export interface SavedSearchDocument extends SavedSearch {
+    /** User ID that owns this search */
+    userId: string;
+}
+
+/**
+ * Result of one check of a saved search, merged into the stored search
+ */
+export interface SavedSearchCheck {
+    /** Listing IDs first seen by this check */
+    seenListingIds: string[];
+
+    /** Matches this check added to the inbox */
+    newMatches: SearchMatch[];
+
+    /** Check timestamp (ISO string) */
+    checkedAt: string;
+}
+
 /**
  * JWT payload structure
  */
@@ -300,6 +566,7 @@ export interface AuthResponse {
  */
 export interface HealthResponse {
     status: 'ok' | 'error';
+    /** Database connectivity (name kept for compatibility; covers every storage backend) */
     firestore: 'ok' | 'error';
     storage?: 'ok' | 'error';
     timestamp: string;
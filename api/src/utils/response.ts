@@ -18,7 +18,9 @@ const HTTP_STATUS_NAMES: Record<number, string> = {
     404: 'Not Found',
     409: 'Conflict',
     422: 'Unprocessable Entity',
+    429: 'Too Many Requests',
     500: 'Internal Server Error',
+    502: 'Bad Gateway',
     503: 'Service Unavailable',
 };
 
@@ -38,6 +40,24 @@ export function sendError(res: Response, statusCode: number, message: string): v
     res.status(statusCode).json(errorResponse);
 }
 
+/**
+ * Send a 409 Conflict response with the current server state of the conflicting
+ * resources, so the client can merge instead of overwriting
+ *
+ * @param res - Express response object
+ * @param message - Human-readable error message
+ * @param conflicts - Conflicting resources as currently stored
+ */
+export function sendConflict(res: Response, message: string, conflicts: unknown[]): void {
+    const errorResponse: ErrorResponse & { conflicts: unknown[] } = {
+        error: HTTP_STATUS_NAMES[409],
+        message,
+        statusCode: 409,
+        conflicts,
+    };
+    res.status(409).json(errorResponse);
+}
+
 /**
  * Send a standardized success response with data
  *
@@ -0,0 +1,57 @@
+/**
+ * Secret Encryption
+ *
+ * AES-256-GCM encryption for secrets stored with user data (the Gemini
+ * API key in user settings). The key is derived from SETTINGS_ENCRYPTION_KEY,
+ * so a database dump alone does not expose the secrets.
+ *
+ * Encrypted values have the format `v1:<iv>:<auth tag>:<ciphertext>` (base64).
+ */
+
+import crypto from 'crypto';
+import {SETTINGS_ENCRYPTION_KEY} from '../config.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+/**
+ * Derive the 32-byte AES key from the configured secret
+ */
+function getKey(): Buffer {
+    if (!SETTINGS_ENCRYPTION_KEY) {
+        throw new Error('SETTINGS_ENCRYPTION_KEY is not configured');
+    }
+    return crypto.createHash('sha256').update(SETTINGS_ENCRYPTION_KEY).digest();
+}
+
+/**
+ * Encrypt a secret for storage
+ */
+export function encryptSecret(plaintext: string): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [VERSION, iv, cipher.getAuthTag(), ciphertext].map((part) =>
+        typeof part === 'string' ? part : part.toString('base64'),
+    ).join(':');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ *
+ * @throws Error when the value is malformed or was encrypted with another key
+ */
+export function decryptSecret(encrypted: string): string {
+    const [version, iv, authTag, ciphertext] = encrypted.split(':');
+    if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+        throw new Error('Encrypted secret has an unsupported format');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64')),
+        decipher.final(),
+    ]).toString('utf8');
+}
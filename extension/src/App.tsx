@@ -11,8 +11,9 @@ import '@/i18n';
 const Dashboard = lazy(() => import('@/components/Dashboard'));
 const ExtensionPopup = lazy(() => import('@/components/ExtensionPopup'));
 const SettingsPage = lazy(() => import('@/components/SettingsPage'));
+const ComparisonPage = lazy(() => import('@/components/ComparisonPage'));
 
-type AppView = 'dashboard' | 'popup' | 'settings';
+type AppView = 'dashboard' | 'popup' | 'settings' | 'compare';
 
 /**
  * Parse the current view from URL parameters
@@ -23,6 +24,7 @@ const getViewFromUrl = (): AppView => {
 
     if (requestedView === 'popup') return 'popup';
     if (requestedView === 'settings') return 'settings';
+    if (requestedView === 'compare') return 'compare';
     if (requestedView === 'dashboard') return 'dashboard';
 
     // Default to dashboard if no param or opening options page
@@ -41,6 +43,7 @@ const ViewContainer: React.FC<{ view: AppView; children: React.ReactNode }> = ({
             case 'popup':
                 return 'w-[400px] min-h-[500px] bg-white';
             case 'settings':
+            case 'compare':
             case 'dashboard':
             default:
                 return 'w-full min-h-screen bg-gray-50';
@@ -59,6 +62,8 @@ const ViewRouter: React.FC<{ view: AppView }> = ({view}) => {
             return <ExtensionPopup/>;
         case 'settings':
             return <SettingsPage/>;
+        case 'compare':
+            return <ComparisonPage/>;
         case 'dashboard':
         default:
             return <Dashboard/>;
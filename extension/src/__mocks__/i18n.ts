@@ -42,6 +42,7 @@ i18n.use(initReactI18next).init({
                 'time.posted': 'Posted: {{date}}',
                 'time.trackedSince': 'Tracked since {{date}}',
                 'time.lastChecked': 'Last checked: {{date}}',
+                'time.refreshedByServer': 'Refreshed by server',
                 'userMenu.logout': 'Log out',
                 'userMenu.language': 'Language',
                 'userMenu.languageEn': 'English',
@@ -78,6 +79,11 @@ i18n.use(initReactI18next).init({
                 'signIn.title': 'Sign In Required',
                 'signIn.description': 'Please sign in with your Google account to use MotorScope.',
                 'signIn.button': 'Sign in with Google',
+                'localMode.button': 'Use without an account',
+                'localMode.hint': 'Listings and settings stay in this browser. You can sign in later and move them to your account.',
+                'localMode.badge': 'Local mode',
+                'localMode.badgeTooltip': 'Listings are stored in this browser only',
+                'localMode.signIn': 'Sign in to sync',
             },
             popup: {
                 'analyze.title': 'Track this listing',
@@ -101,10 +107,18 @@ i18n.use(initReactI18next).init({
                 'noListing.notOfferPage.hint': 'Open a specific car offer page',
                 'noListing.notOnMarketplace.title': 'Not on a Supported Marketplace',
                 'noListing.notOnMarketplace.description': 'Visit a supported car marketplace to track listings.',
+                'watchSearch.title': 'Watch this search',
+                'watchSearch.description': 'MotorScope will re-check this search on every refresh and collect new listings in your dashboard.',
+                'watchSearch.button': 'Watch search',
+                'watchSearch.saving': 'Saving...',
+                'watchSearch.saved': 'Watching this search',
+                'watchSearch.failed': 'Could not save this search',
                 'footer.cloudSync': 'Cloud Sync',
             },
             dashboard: {
                 archivedBadge: 'Archived',
+                'relisted.badge': 'Relisted',
+                'relisted.tooltip': 'Ended earlier and relisted on {{date}}',
                 'actions.details': 'Details',
                 'actions.refresh': 'Refresh',
                 'actions.archive': 'Archive',
@@ -133,13 +147,141 @@ i18n.use(initReactI18next).init({
                 'listingDetail.priceHistoryTable.date': 'Date',
                 'listingDetail.priceHistoryTable.price': 'Price',
                 'listingDetail.priceHistoryTable.change': 'Change',
+                'listingDetail.alerts.title': 'Alerts',
+                'listingDetail.alerts.useCustom': 'Use a custom alert rule for this listing',
+                'listingDetail.alerts.usingGlobal': 'This listing uses the global alert rule from settings.',
+                'listingDetail.alerts.save': 'Save alert rule',
+                'listingDetail.alerts.saving': 'Saving...',
+                'listingDetail.alerts.saved': 'Alert rule saved',
+                'listingDetail.alerts.failed': 'Failed to save alert rule',
+                'listingDetail.marketValue.title': 'Market Value',
+                'listingDetail.marketValue.methodRegression': 'Price model fitted on {{features}}',
+                'listingDetail.marketValue.methodMedian': 'Median price of comparable listings',
+                'listingDetail.marketValue.features.mileage': 'mileage',
+                'listingDetail.marketValue.features.powerHp': 'power',
+                'listingDetail.marketValue.comparables': 'Comparable listings used ({{count}})',
+                'listingDetail.marketValue.table.listing': 'Listing',
+                'listingDetail.marketValue.table.year': 'Year',
+                'listingDetail.marketValue.table.mileage': 'Mileage',
+                'listingDetail.marketValue.table.power': 'Power',
+                'listingDetail.marketValue.table.price': 'Price',
+                'listingDetail.seenBefore.title': 'Seen before',
+                'listingDetail.seenBefore.description': 'This car (same VIN) has appeared under {{count}} listings.',
+                'listingDetail.seenBefore.relistedAt': 'Relisted after ending on {{date}}.',
+                'listingDetail.seenBefore.current': 'Current',
+                'listingDetail.seenBefore.table.listing': 'Listing',
+                'listingDetail.seenBefore.table.seller': 'Seller',
+                'listingDetail.seenBefore.table.seen': 'Seen',
+                'listingDetail.seenBefore.table.price': 'Price',
+                'listingDetail.evidence.confidence': 'Confidence: {{percent}}%',
+                'listingDetail.evidence.fromPage': 'Read from the page markup',
+                'listingDetail.evidence.noSnippet': 'No source text reported',
+                'listingDetail.evidence.lowConfidence': 'Low confidence - check this value',
+                'listingDetail.evidence.reviewTitle': 'Needs review',
+                'listingDetail.evidence.reviewDescription': 'The AI is unsure about: {{fields}}. Hover a field to see the text it was read from.',
+                'listingDetail.edit.button': 'Edit',
+                'listingDetail.edit.save': 'Save changes',
+                'listingDetail.edit.saving': 'Saving...',
+                'listingDetail.edit.cancel': 'Cancel',
+                'listingDetail.edit.failed': 'Failed to save changes',
+                'listingDetail.edit.invalid': 'Some values are invalid - numbers must be plain numbers',
+                'listingDetail.edit.lockedHint': 'Fields you change are locked: refreshes and re-analysis keep your values.',
+                'listingDetail.edit.edited': 'Edited by you',
+                'listingDetail.edit.originalValue': 'Was: {{value}}',
+                'listingDetail.edit.revert': 'Restore',
+                'marketValue.estimate': 'Est. {{price}}',
+                'marketValue.below': '{{percent}}% below',
+                'marketValue.above': '{{percent}}% above',
+                'marketValue.fair': 'fair price',
+                'marketValue.basedOn': 'Estimated from {{count}} similar tracked listings',
+                'export.button': 'Export',
+                'export.description': 'Export {{count}} listings matching the current filters',
+                'export.includeHistory': 'One row per price change',
+                'export.formats.csv': 'CSV',
+                'export.formats.json': 'JSON',
+                'export.formats.xlsx': 'Excel (XLSX)',
+                'searchInbox.title': 'New on saved searches',
+                'searchInbox.newCount': '{{count}} new',
+                'searchInbox.lastChecked': 'Checked {{date}}',
+                'searchInbox.neverChecked': 'Not checked yet',
+                'searchInbox.checkNow': 'Check now',
+                'searchInbox.checking': 'Checking...',
+                'searchInbox.track': 'Track',
+                'searchInbox.tracking': 'Tracking...',
+                'searchInbox.dismiss': 'Dismiss',
+                'searchInbox.removeSearch': 'Stop watching this search',
+                'searchInbox.confirmRemove': 'Stop watching this search? Its new listings will be removed from the inbox.',
+                'searchInbox.empty': 'No new listings since the last check.',
+                'searchInbox.pageUnavailable': 'Could not load the listing page',
+                'compare.add': 'Add to comparison',
+                'compare.remove': 'Remove from comparison',
+                'compare.limitReached': 'Up to 5 listings can be compared',
+                'compare.selected': '{{count}} of {{max}} selected for comparison',
+                'compare.open': 'Compare',
+                'compare.selectMore': 'Select at least {{min}} listings',
+                'compare.clear': 'Clear selection',
+                'compare.title': 'Compare Listings',
+                'compare.subtitle': 'Comparing {{count}} listings',
+                'compare.backToDashboard': 'Dashboard',
+                'compare.missing': '{{count}} selected listings are no longer tracked',
+                'compare.notEnough': 'Select at least {{min}} tracked listings on the dashboard to compare them.',
+                'compare.onlyDifferences': 'Show only differences',
+                'compare.priceHistory': 'Price History',
+                'compare.removeFromComparison': 'Remove from comparison',
+                'compare.yes': 'Yes',
+                'compare.no': 'No',
+                'compare.sections.price': 'Price',
+                'compare.sections.vehicle': 'Vehicle',
+                'compare.sections.engine': 'Engine',
+                'compare.sections.drivetrain': 'Drivetrain',
+                'compare.sections.condition': 'Condition',
+                'compare.fields.currentPrice': 'Asking price',
+                'compare.fields.currency': 'Currency',
+                'compare.fields.originalPrice': 'Original price',
+                'compare.fields.priceChange': 'Change since tracked',
+                'compare.fields.negotiable': 'Negotiable',
+                'compare.fields.status': 'Status',
+                'compare.fields.make': 'Make',
+                'compare.fields.model': 'Model',
+                'compare.fields.generation': 'Generation',
+                'compare.fields.trim': 'Trim',
+                'compare.fields.bodyType': 'Body type',
+                'compare.fields.productionYear': 'Production year',
+                'compare.fields.firstRegistrationYear': 'First registration',
+                'compare.fields.mileage': 'Mileage',
+                'compare.fields.vin': 'VIN',
+                'compare.fields.capacityCc': 'Capacity',
+                'compare.fields.fuelType': 'Fuel type',
+                'compare.fields.powerHp': 'Power (hp)',
+                'compare.fields.powerKw': 'Power (kW)',
+                'compare.fields.engineCode': 'Engine code',
+                'compare.fields.euroStandard': 'Emission standard',
+                'compare.fields.hybridType': 'Hybrid type',
+                'compare.fields.transmissionType': 'Transmission',
+                'compare.fields.transmissionSubtype': 'Transmission subtype',
+                'compare.fields.gearsCount': 'Gears',
+                'compare.fields.driveType': 'Drive type',
+                'compare.fields.isNew': 'New',
+                'compare.fields.isImported': 'Imported',
+                'compare.fields.accidentFree': 'Accident free (declared)',
+                'compare.fields.serviceHistory': 'Service history (declared)',
             },
             settings: {
                 title: 'Settings',
                 pageTitle: 'MotorScope Settings',
                 pageSubtitle: 'Configure API keys and background sync',
+                'llmProvider.title': 'AI Provider',
+                'llmProvider.description': 'Gemini runs in the cloud with your API key. An OpenAI-compatible server (e.g. Ollama or llama.cpp) runs models on your own machine.',
+                'llmProvider.names.gemini': 'Google Gemini',
+                'llmProvider.names.openai-compatible': 'OpenAI-compatible server',
+                'llmProvider.names.fixture': 'Test fixture',
+                'llmProvider.model': 'Model',
+                'llmProvider.modelPlaceholder': 'Model (default: {{model}})',
+                'llmProvider.baseUrl': 'Server URL',
+                'llmProvider.baseUrlHint': 'OpenAI-compatible API base URL. Ollama must allow the extension origin: OLLAMA_ORIGINS=chrome-extension://*',
                 'geminiApi.title': 'Gemini API Key',
                 'geminiApi.placeholder': 'Enter your Gemini API key',
+                'geminiApi.storedPlaceholder': 'API key saved - enter a new key to replace it',
                 'geminiApi.required': 'API key is required to analyze and track car listings',
                 'geminiApi.clickToSave': 'Click "Save Settings" to validate and save your API key',
                 'geminiApi.configured': 'API key configured',
@@ -151,6 +293,63 @@ i18n.use(initReactI18next).init({
                 'backendServer.title': 'Backend Server',
                 'backendServer.changeDescription': 'Select which API server to connect to. Changing the server will log you out.',
                 'apiServer.title': 'API Server',
+                'import.title': 'Import Listings',
+                'import.description': 'Move tracked listings between accounts or servers. Existing listings are merged by ID and their price histories combined.',
+                'import.file.title': 'From a JSON export',
+                'import.file.description': 'A JSON file with listings in the MotorScope listing format, e.g. a JSON export.',
+                'import.file.button': 'Choose JSON File',
+                'import.file.importing': 'Importing...',
+                'import.file.success': 'Import complete: {{added}} added, {{updated}} updated',
+                'import.file.invalid': 'File not imported: {{error}}',
+                'import.file.failed': 'Import failed. Please try again.',
+                'import.urls.title': 'From listing URLs',
+                'import.urls.description': 'One URL per line. Each page is parsed with Gemini; imports are paced and pause automatically when the API is rate limited.',
+                'import.urls.placeholder': 'https://www.otomoto.pl/osobowe/oferta/...',
+                'import.urls.start': 'Start Import',
+                'import.urls.cancel': 'Cancel',
+                'import.urls.progress': '{{completed}} of {{total}} processed',
+                'import.urls.rateLimited': 'Gemini rate limit reached - resuming at {{time}}',
+                'import.urls.summary': '{{succeeded}} imported, {{failed}} failed, {{skipped}} skipped',
+                'import.urls.nothingToImport': 'No new listing URLs to import',
+                'import.urls.alreadyTracked': '{{url}}: already tracked',
+                'import.urls.invalidEntry': '{{entry}}: not a valid URL',
+                'customMarketplaces.title': 'Custom marketplaces',
+                'customMarketplaces.description': 'Add a marketplace MotorScope does not support yet. Offer pages on its domains can then be tracked from the popup and refreshed like any other listing.',
+                'customMarketplaces.name': 'Marketplace name',
+                'customMarketplaces.domains': 'Domains',
+                'customMarketplaces.domainsPlaceholder': 'cars.example.com',
+                'customMarketplaces.domainsHint': 'One per line or comma separated. Include the www. variant if the site uses it.',
+                'customMarketplaces.offerPatterns': 'Offer page URL patterns',
+                'customMarketplaces.offerPatternsPlaceholder': '/offer/',
+                'customMarketplaces.offerPatternsHint': 'Parts of the URL that only single-offer pages contain.',
+                'customMarketplaces.excludePatterns': 'Excluded URL patterns',
+                'customMarketplaces.excludePatternsPlaceholder': '/search',
+                'customMarketplaces.excludePatternsHint': 'Optional. Parts of search or category page URLs.',
+                'customMarketplaces.neverFetch': 'Never fetch in the background',
+                'customMarketplaces.neverFetchHint': 'For sites that block automated requests. Listings are only updated when you open them.',
+                'customMarketplaces.neverFetchBadge': 'not refreshed in the background',
+                'customMarketplaces.add': 'Add marketplace',
+                'customMarketplaces.remove': 'Remove {{name}}',
+                'customMarketplaces.permissionDenied': 'Access to the marketplace\'s domains was not granted, so it was not added.',
+                'customMarketplaces.accessMissing': 'No access to its domains in this browser - listings are not refreshed here.',
+                'customMarketplaces.grantAccess': 'Grant access',
+                'customMarketplaces.accessDenied': 'Access to the marketplace\'s domains was not granted.',
+                'customMarketplaces.saveFailed': 'Failed to save custom marketplaces.',
+                'customMarketplaces.errors.nameRequired': 'Enter a marketplace name.',
+                'customMarketplaces.errors.domainRequired': 'Enter at least one domain.',
+                'customMarketplaces.errors.invalidDomain': 'One of the domains is not valid.',
+                'customMarketplaces.errors.domainTaken': 'One of the domains already belongs to a marketplace.',
+                'customMarketplaces.errors.offerPatternRequired': 'Enter at least one offer page URL pattern.',
+                'localData.title': 'Local data',
+                'localData.localModeDescription': 'You are using MotorScope without an account. Listings, settings and Gemini history are stored in this browser only and are not refreshed by the server.',
+                'localData.turnOff': 'Turn off local mode',
+                'localData.mergeDescription': '{{listings}} listings and {{history}} Gemini calls were saved in this browser in local mode.',
+                'localData.merge': 'Merge into my account',
+                'localData.merging': 'Merging...',
+                'localData.mergeSuccess': 'Local data moved to your account: {{added}} added, {{updated}} updated.',
+                'localData.mergeFailed': 'Could not merge local data. It is still stored in this browser.',
+                'localData.discard': 'Discard local data',
+                'localData.confirmDiscard': 'Delete all data stored in this browser in local mode? This cannot be undone.',
                 signIn: 'Sign in',
                 'syncStatus.title': 'Background Sync',
                 'syncStatus.lastSync': 'Last Sync',
@@ -160,11 +359,23 @@ i18n.use(initReactI18next).init({
                 'syncStatus.refreshingSoon': 'Refreshing soon...',
                 'syncStatus.never': 'Never',
                 'syncStatus.listingsUpdated': '{{count}} listings updated',
+                'syncStatus.callsSaved': '{{count}} unchanged, AI calls skipped',
+                'syncStatus.pausedByBudget': 'Paused - monthly AI budget reached',
                 'syncStatus.recentActivity': 'Recent Activity',
                 'syncStatus.syncing': 'Syncing',
                 'syncStatus.syncNow': 'Sync Now',
                 'syncStatus.configureApiKeyFirst': 'Configure API key first',
                 'syncStatus.noRecentActivity': 'No recent sync activity',
+                'serverRefresh.title': 'Refresh on server',
+                'serverRefresh.description': 'The backend keeps refreshing your listings on the same schedule while your browser is closed.',
+                'serverRefresh.lastRun': 'Last server refresh:',
+                'alerts.title': 'Price & Status Alerts',
+                'alerts.description': 'Get a notification for each listing that matches during a background refresh.',
+                'alerts.priceDropPercent': 'Price dropped by at least',
+                'alerts.priceDropAmount': 'Price dropped by at least (amount)',
+                'alerts.targetPrice': 'Price fell to or below',
+                'alerts.notifyOnEnded': 'Listing ended (sold or expired)',
+                'alerts.notifyOnRelisted': 'Ended listing is available again',
                 'save.button': 'Save Settings',
                 'save.saving': 'Saving...',
                 'save.validating': 'Validating...',
@@ -184,6 +395,8 @@ i18n.use(initReactI18next).init({
                 'geminiStats.title': 'Gemini AI Analysis Stats',
                 'geminiStats.allTime': 'All-time',
                 'geminiStats.session': 'Session',
+                'geminiStats.savedCalls': 'Saved',
+                'geminiStats.savedCallsHint': 'Refreshes that skipped the AI call because the page had not changed',
                 'geminiStats.refreshStats': 'Refresh stats',
                 'geminiStats.clearLogs': 'Clear logs',
                 'geminiStats.clearLogsConfirm': 'Clear all Gemini logs and reset session counts?',
@@ -193,6 +406,21 @@ i18n.use(initReactI18next).init({
                 'geminiStats.noApiCalls': 'No API calls recorded yet',
                 'geminiStats.prompt': 'Prompt',
                 'geminiStats.response': 'Response',
+                'geminiStats.tokens': '{{prompt}} in / {{response}} out tokens',
+                'geminiStats.usage.title': 'Usage',
+                'geminiStats.usage.daily': 'Last 30 days',
+                'geminiStats.usage.monthly': 'Last 12 months',
+                'geminiStats.usage.cost': 'Estimated cost',
+                'geminiStats.usage.tokens': 'Tokens',
+                'geminiStats.usage.calls': 'Calls',
+                'geminiStats.usage.thisMonth': 'This month: {{cost}} · {{tokens}} tokens',
+                'geminiStats.usage.estimateHint': 'Estimated from published Gemini prices. Models without a known price count as free.',
+                'geminiStats.usage.empty': 'No usage recorded yet',
+                'budget.title': 'Monthly AI Budget (USD)',
+                'budget.description': "Background refresh pauses when this month's estimated AI cost reaches the budget. Leave empty for no limit.",
+                'budget.placeholder': 'No limit',
+                'budget.spent': 'Spent this month: {{spent}} of {{budget}}',
+                'budget.spentNoBudget': 'Spent this month: {{spent}}',
             },
             errors: {
                 confirmDelete: 'Are you sure you want to delete this listing?',
@@ -242,6 +470,11 @@ i18n.use(initReactI18next).init({
                 'info.originalPrice': 'Original Price',
                 'info.negotiable': 'Negotiable',
                 'info.listingId': 'Listing ID',
+                'info.title': 'Title',
+                'info.currency': 'Currency',
+                'info.engineCapacityCc': 'Engine Capacity (cc)',
+                'info.powerHp': 'Power (HP)',
+                'info.powerKw': 'Power (kW)',
                 'tracking.posted': 'Posted',
                 'tracking.firstSeen': 'First Seen',
                 'tracking.lastChecked': 'Last Checked',
@@ -12,6 +12,7 @@ import {
     triggerOnAlarm,
     triggerOnInstalled,
     triggerOnMessage,
+    triggerOnNotificationClicked,
     triggerOnStartup,
 } from '../test-utils/chromeMock';
 import {RefreshStatus} from '../types';
@@ -31,6 +32,10 @@ let mockTrySilentLoginCalled = false;
 let mockGetStoredTokenCalled = false;
 let mockRefreshSingleListingCallCount = 0;
 let mockFetchQueue: Array<{ ok: boolean; status?: number; data: any }> = [];
+let mockLocalModeValue = false;
+let mockLocalListings: any[] = [];
+let mockLocalSettings: any = {checkFrequencyMinutes: 30, geminiApiKey: 'local-key'};
+let mockGeminiStatsValue: any = {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0};
 
 // Mock extensionStorage module
 jest.mock('../services/extensionStorage', () => ({
@@ -42,6 +47,20 @@ jest.mock('../services/extensionStorage', () => ({
     },
 }));
 
+// Mock local-only mode store
+jest.mock('../services/localData/localStore', () => ({
+    isLocalModeEnabled: jest.fn().mockImplementation(async () => mockLocalModeValue),
+    getLocalListings: jest.fn().mockImplementation(async () => mockLocalListings),
+    getLocalSettings: jest.fn().mockImplementation(async () => mockLocalSettings),
+    saveLocalListing: jest.fn().mockResolvedValue(undefined),
+}));
+
+// Mock Gemini stats (read for the monthly budget check)
+jest.mock('../services/settings/geminiStats', () => ({
+    getGeminiStats: jest.fn().mockImplementation(async () => mockGeminiStatsValue),
+    recordSavedGeminiCalls: jest.fn().mockResolvedValue(undefined),
+}));
+
 // Mock refresh service
 jest.mock('../services/refresh', () => ({
     refreshSingleListing: jest.fn().mockImplementation(async (listing: any) => {
@@ -49,6 +68,7 @@ jest.mock('../services/refresh', () => ({
         return {success: true, listing, rateLimited: false};
     }),
     sortListingsByRefreshPriority: jest.fn((listings: any[]) => listings),
+    filterListingsForRefresh: jest.fn((listings: any[]) => listings),
 }));
 
 // Mock OAuth client
@@ -70,6 +90,7 @@ jest.mock('../auth/storage', () => ({
         mockGetStoredTokenCalled = true;
         return mockGetStoredTokenValue;
     }),
+    getStoredUser: jest.fn().mockResolvedValue({id: 'user-1', email: 'user@example.com'}),
 }));
 
 // Mock local server storage
@@ -91,9 +112,9 @@ global.fetch = jest.fn().mockImplementation(async (url: string) => {
     }
     // Default: return settings with gemini key
     if (url.includes('/settings')) {
-        return createMockResponse({checkFrequencyMinutes: 60, geminiApiKey: 'test-key'});
+        return createMockResponse({checkFrequencyMinutes: 60, geminiApiKeyConfigured: true});
     }
-    if (url.includes('/listings')) {
+    if (url.includes('/listings') || url.includes('/searches')) {
         return createMockResponse([]);
     }
     return createMockResponse({});
@@ -127,6 +148,10 @@ const resetMocks = () => {
     mockGetStoredTokenCalled = false;
     mockRefreshSingleListingCallCount = 0;
     mockFetchQueue = [];
+    mockLocalModeValue = false;
+    mockLocalListings = [];
+    mockLocalSettings = {checkFrequencyMinutes: 30, geminiApiKey: 'local-key'};
+    mockGeminiStatsValue = {allTimeTotalCalls: 0, totalCalls: 0, successCount: 0, errorCount: 0};
     jest.clearAllMocks();
 };
 
@@ -380,6 +405,239 @@ describe('Background Service Worker', () => {
         });
     });
 
+    // ==========================================================================
+    // Local-only Mode
+    // ==========================================================================
+
+    describe('Local-only mode', () => {
+        beforeEach(() => {
+            mockGetTokenValue = null;
+            mockLocalModeValue = true;
+            mockStorageValue = createMockRefreshStatus();
+        });
+
+        it('should refresh local listings without calling the API', async () => {
+            mockLocalListings = [{id: 'local-1', title: 'Local car', source: {url: 'https://www.otomoto.pl/a'}}];
+
+            await triggerOnMessage({type: 'TRIGGER_MANUAL_REFRESH'});
+            await new Promise(r => setTimeout(r, 100));
+
+            expect(mockRefreshSingleListingCallCount).toBe(1);
+            expect(global.fetch).not.toHaveBeenCalled();
+        });
+
+        it('should pause refresh and notify when the monthly budget is reached', async () => {
+            mockLocalListings = [{id: 'local-1', title: 'Local car', source: {url: 'https://www.otomoto.pl/a'}}];
+            mockLocalSettings = {...mockLocalSettings, monthlyBudgetUsd: 1};
+            mockGeminiStatsValue = {
+                ...mockGeminiStatsValue,
+                dailyUsage: {
+                    [new Date().toISOString().slice(0, 10)]: {calls: 40, promptTokens: 0, responseTokens: 0, costUsd: 1.2},
+                },
+            };
+
+            await triggerOnMessage({type: 'TRIGGER_MANUAL_REFRESH'});
+            await new Promise(r => setTimeout(r, 100));
+
+            expect(mockRefreshSingleListingCallCount).toBe(0);
+            expect(getChromeMock().notifications.create).toHaveBeenCalledWith(
+                expect.stringMatching(/^budget-reached-/),
+                expect.objectContaining({title: 'MotorScope Budget Reached'}),
+            );
+            expect(mockStorageSetCalls).toContainEqual({
+                key: 'motorscope_refresh_status',
+                value: expect.objectContaining({pausedByBudget: true}),
+            });
+        });
+
+        it('should refresh while under the monthly budget', async () => {
+            mockLocalListings = [{id: 'local-1', title: 'Local car', source: {url: 'https://www.otomoto.pl/a'}}];
+            mockLocalSettings = {...mockLocalSettings, monthlyBudgetUsd: 5};
+
+            await triggerOnMessage({type: 'TRIGGER_MANUAL_REFRESH'});
+            await new Promise(r => setTimeout(r, 100));
+
+            expect(mockRefreshSingleListingCallCount).toBe(1);
+        });
+
+        it('should finish the refresh for listings without price history', async () => {
+            mockLocalListings = [{id: 'local-1', title: 'Local car', source: {url: 'https://www.otomoto.pl/a'}}];
+            mockLocalSettings = {
+                ...mockLocalSettings,
+                alertRules: {
+                    global: {
+                        priceDropPercent: 5,
+                        priceDropAmount: null,
+                        targetPrice: null,
+                        notifyOnEnded: true,
+                        notifyOnRelisted: true,
+                    },
+                    listings: {},
+                },
+            };
+            const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+            getChromeMock().alarms.create.mockClear();
+
+            await triggerOnMessage({type: 'TRIGGER_MANUAL_REFRESH'});
+            // Wait out the delay between listings
+            await new Promise(r => setTimeout(r, 2300));
+
+            expect(errorSpy).not.toHaveBeenCalled();
+            expect(mockStorageSetCalls).toContainEqual({
+                key: 'motorscope_refresh_status',
+                value: expect.objectContaining({isRefreshing: false, lastRefreshCount: 1}),
+            });
+            expect(getChromeMock().alarms.create).toHaveBeenCalledWith(
+                'motorscope_check_alarm',
+                {delayInMinutes: 30},
+            );
+        }, 10000);
+
+        it('should reset the refresh status and reschedule when a refresh fails midway', async () => {
+            mockLocalListings = [{id: 'local-1', title: 'Local car', source: {url: 'https://www.otomoto.pl/a'}}];
+            const {refreshSingleListing} = jest.requireMock('../services/refresh');
+            refreshSingleListing.mockRejectedValueOnce(new Error('boom'));
+            jest.spyOn(console, 'error').mockImplementation(() => {});
+            getChromeMock().alarms.create.mockClear();
+
+            await triggerOnMessage({type: 'TRIGGER_MANUAL_REFRESH'});
+            await new Promise(r => setTimeout(r, 100));
+
+            const lastStatus = mockStorageSetCalls.filter(c => c.key === 'motorscope_refresh_status').pop();
+            expect(lastStatus?.value).toEqual(expect.objectContaining({isRefreshing: false, pendingItems: []}));
+            expect(getChromeMock().alarms.create).toHaveBeenCalledWith(
+                'motorscope_check_alarm',
+                {delayInMinutes: 30},
+            );
+        });
+
+        it('should schedule the refresh alarm from local settings', async () => {
+            getChromeMock().alarms.create.mockClear();
+
+            await triggerOnMessage({type: 'INITIALIZE_ALARM'});
+            await new Promise(r => setTimeout(r, 100));
+
+            expect(getChromeMock().alarms.create).toHaveBeenCalledWith(
+                'motorscope_check_alarm',
+                {delayInMinutes: 30},
+            );
+            expect(global.fetch).not.toHaveBeenCalled();
+        });
+    });
+
+    // ==========================================================================
+    // Message Routing - WATCH_SEARCH
+    // ==========================================================================
+
+    describe('WATCH_SEARCH message', () => {
+        it('should save the search through the API', async () => {
+            const url = 'https://www.otomoto.pl/osobowe/bmw/seria-3';
+            mockFetchQueue.push({ok: true, data: {}});
+
+            const response = await triggerOnMessage({type: 'WATCH_SEARCH', url, name: 'BMW'});
+
+            expect(response).toEqual({success: true, search: expect.objectContaining({url, name: 'BMW'})});
+            expect(global.fetch).toHaveBeenCalledWith(
+                expect.stringContaining('/searches'),
+                expect.objectContaining({method: 'POST'}),
+            );
+        });
+    });
+
+    // ==========================================================================
+    // Message Routing - GET_LISTING_PRICE_SUMMARY
+    // ==========================================================================
+
+    describe('GET_LISTING_PRICE_SUMMARY message', () => {
+        const listing = {
+            id: 'vin_ABC',
+            title: 'BMW 320d',
+            source: {url: 'https://www.otomoto.pl/osobowe/oferta/bmw-320d-ID6HEcgy.html'},
+            currentPrice: 85000,
+            currency: 'PLN',
+            priceHistory: [{date: '2025-01-01T00:00:00.000Z', price: 90000, currency: 'PLN'}],
+            firstSeenAt: '2025-01-01T00:00:00.000Z',
+            status: 'ACTIVE',
+            seller: {phone: '+48 600 000 000'},
+        };
+
+        const changes = (listings: unknown[]) => ({listings, deleted: [], serverTime: '2025-01-02T00:00:00.000Z'});
+
+        it('should send only the price summary of the tracked listing', async () => {
+            mockFetchQueue.push({ok: true, data: changes([listing])});
+
+            const response = await triggerOnMessage({
+                type: 'GET_LISTING_PRICE_SUMMARY',
+                url: 'https://www.otomoto.pl/osobowe/oferta/bmw-320d-ID6HEcgy.html?utm_source=x',
+            });
+
+            expect(response).toEqual({
+                success: true,
+                listing: {
+                    id: 'vin_ABC',
+                    title: 'BMW 320d',
+                    currentPrice: 85000,
+                    currency: 'PLN',
+                    priceHistory: listing.priceHistory,
+                    firstSeenAt: '2025-01-01T00:00:00.000Z',
+                    status: 'ACTIVE',
+                },
+            });
+        });
+
+        it('should answer null for listings that are not tracked', async () => {
+            mockFetchQueue.push({ok: true, data: changes([listing])});
+
+            const response = await triggerOnMessage({
+                type: 'GET_LISTING_PRICE_SUMMARY',
+                url: 'https://www.otomoto.pl/osobowe/oferta/audi-a4-ID6HXyz.html',
+            });
+
+            expect(response).toEqual({success: true, listing: null});
+        });
+
+        it('should fetch only the changes since the previous lookup', async () => {
+            const url = 'https://www.otomoto.pl/osobowe/oferta/bmw-320d-ID6HEcgy.html';
+            mockFetchQueue.push({ok: true, data: changes([listing])});
+            mockFetchQueue.push({ok: true, data: changes([{...listing, currentPrice: 82000}])});
+
+            await triggerOnMessage({type: 'GET_LISTING_PRICE_SUMMARY', url});
+            const response = await triggerOnMessage({type: 'GET_LISTING_PRICE_SUMMARY', url});
+
+            expect(global.fetch).toHaveBeenLastCalledWith(
+                expect.stringContaining('/listings?since=2025-01-02T00%3A00%3A00.000Z'),
+                expect.any(Object),
+            );
+            expect(response.listing.currentPrice).toBe(82000);
+        });
+
+        it('should find a relisted car by an earlier URL', async () => {
+            const oldUrl = 'https://www.otomoto.pl/osobowe/oferta/bmw-320d-ID6Old.html';
+            mockFetchQueue.push({
+                ok: true,
+                data: changes([{
+                    ...listing,
+                    sourceHistory: [{
+                        url: oldUrl,
+                        platform: 'otomoto',
+                        listingId: null,
+                        sellerName: null,
+                        sellerType: null,
+                        price: 90000,
+                        currency: 'PLN',
+                        firstSeenAt: '2024-06-01T00:00:00.000Z',
+                        lastSeenAt: '2024-12-01T00:00:00.000Z',
+                        status: 'ENDED',
+                    }],
+                }]),
+            });
+
+            const response = await triggerOnMessage({type: 'GET_LISTING_PRICE_SUMMARY', url: oldUrl});
+
+            expect(response.listing).toEqual(expect.objectContaining({id: 'vin_ABC'}));
+        });
+    });
+
     // ==========================================================================
     // Message Routing - Unknown Messages
     // ==========================================================================
@@ -415,7 +673,7 @@ describe('Background Service Worker', () => {
                 mockStorageValue = createMockRefreshStatus();
                 mockFetchQueue.push({
                     ok: true,
-                    data: {checkFrequencyMinutes: 60, geminiApiKey: ''},
+                    data: {checkFrequencyMinutes: 60, geminiApiKeyConfigured: false},
                 });
 
                 triggerOnAlarm({name: 'motorscope_check_alarm'});
@@ -447,6 +705,27 @@ describe('Background Service Worker', () => {
         });
     });
 
+    // ==========================================================================
+    // Listing Alert Notifications
+    // ==========================================================================
+
+    describe('Listing alert notifications', () => {
+        it('should open the listing in the dashboard when clicked', () => {
+            triggerOnNotificationClicked('listing-alert:1700000000000:vin_ABC123');
+
+            expect(chrome.tabs.create).toHaveBeenCalledWith({
+                url: expect.stringContaining('index.html?view=dashboard&listing=vin_ABC123'),
+            });
+            expect(chrome.notifications.clear).toHaveBeenCalledWith('listing-alert:1700000000000:vin_ABC123');
+        });
+
+        it('should ignore clicks on other notifications', () => {
+            triggerOnNotificationClicked('refresh-complete-1700000000000');
+
+            expect(chrome.tabs.create).not.toHaveBeenCalled();
+        });
+    });
+
     // ==========================================================================
     // Extension Lifecycle
     // ==========================================================================
@@ -4,7 +4,8 @@
  * Tests the API client error handling, URL building, and request patterns.
  */
 
-import type {CarListing} from '@/types';
+import type {CarListing, SavedSearch} from '@/types';
+import {createMockListing} from '@/test-utils/mockData';
 
 // Mock fetch before imports
 const mockFetch = jest.fn();
@@ -26,15 +27,28 @@ jest.mock('../../auth/localServerStorage', () => ({
 // Import after mocks
 import {
     ApiError,
+    ListingConflictError,
     getRemoteListings,
+    getRemoteListingChanges,
     saveRemoteListing,
+    saveRemoteListings,
+    patchRemoteListings,
     deleteRemoteListing,
     checkBackendHealth,
     getRemoteSettings,
     patchRemoteSettings,
+    hasConfiguredLlmProvider,
+    hasStoredGeminiApiKey,
+    parseListingRemote,
+    refreshListingRemote,
     getRemoteGeminiHistory,
     addRemoteGeminiHistory,
     clearRemoteGeminiHistory,
+    getRemoteSavedSearches,
+    saveRemoteSavedSearch,
+    recordRemoteSavedSearchCheck,
+    dismissRemoteSavedSearchMatch,
+    deleteRemoteSavedSearch,
     uploadImageFromUrl,
 } from '../client';
 
@@ -378,6 +392,124 @@ describe('API Functions', () => {
                     body: JSON.stringify(listing),
                 }),
             );
+            expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('If-Match');
+        });
+
+        it('should send the listing revision as If-Match', async () => {
+            const listing = createMockListing({id: 'vin_ABC', revision: 4});
+            mockFetch.mockResolvedValue(createMockResponse({...listing, revision: 5}));
+
+            const result = await saveRemoteListing(listing);
+
+            expect(result.revision).toBe(5);
+            expect(mockFetch.mock.calls[0][1].headers).toMatchObject({'If-Match': '"4"'});
+        });
+
+        it('should merge with the stored listing and retry on conflict', async () => {
+            const listing = createMockListing({
+                id: 'vin_ABC',
+                revision: 4,
+                priceHistory: [{date: '2024-01-30T10:00:00Z', price: 119000, currency: 'PLN'}],
+            });
+            const current = createMockListing({
+                id: 'vin_ABC',
+                revision: 6,
+                priceHistory: [{date: '2024-01-20T10:00:00Z', price: 125000, currency: 'PLN'}],
+            });
+            mockFetch
+                .mockResolvedValueOnce(createMockResponse(
+                    {message: 'Listing was modified', conflicts: [{id: 'vin_ABC', current}]},
+                    false,
+                    409,
+                ))
+                .mockResolvedValueOnce(createMockResponse({...listing, revision: 7}));
+
+            await saveRemoteListing(listing);
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            const [, retry] = mockFetch.mock.calls[1];
+            expect(retry.headers).toMatchObject({'If-Match': '"6"'});
+            expect(JSON.parse(retry.body).priceHistory.map((p: { price: number }) => p.price))
+                .toEqual([125000, 119000]);
+        });
+
+        it('should throw ListingConflictError when the listing was deleted elsewhere', async () => {
+            mockFetch.mockResolvedValue(createMockResponse(
+                {message: 'Listing was modified', conflicts: [{id: 'vin_ABC', current: null}]},
+                false,
+                409,
+            ));
+
+            await expect(saveRemoteListing(createMockListing({id: 'vin_ABC', revision: 2})))
+                .rejects.toBeInstanceOf(ListingConflictError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('saveRemoteListings', () => {
+        it('should retry with conflicting listings resolved', async () => {
+            const stale = createMockListing({id: 'a', revision: 1});
+            const untouched = createMockListing({id: 'b', revision: 2});
+            mockFetch
+                .mockResolvedValueOnce(createMockResponse(
+                    {message: 'Listings were modified', conflicts: [{id: 'a', current: {...stale, revision: 3}}]},
+                    false,
+                    409,
+                ))
+                .mockResolvedValueOnce(createMockResponse({success: true, count: 2}));
+
+            const result = await saveRemoteListings([stale, untouched]);
+
+            expect(result).toEqual({success: true, count: 2});
+            const body = JSON.parse(mockFetch.mock.calls[1][1].body) as CarListing[];
+            expect(body.map((l) => [l.id, l.revision])).toEqual([['a', 3], ['b', 2]]);
+        });
+
+        it('should not retry on other errors', async () => {
+            mockFetch.mockResolvedValue(createMockResponse({message: 'Server error'}, false, 500));
+
+            await expect(saveRemoteListings([])).rejects.not.toBeInstanceOf(ListingConflictError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('patchRemoteListings', () => {
+        it('should retry with changed listings merged and deleted ones created again', async () => {
+            const stale = createMockListing({id: 'a', revision: 1});
+            const deleted = createMockListing({id: 'b', revision: 2});
+            const untouched = createMockListing({id: 'c'});
+            mockFetch
+                .mockResolvedValueOnce(createMockResponse(
+                    {
+                        message: 'Listings were modified',
+                        conflicts: [{id: 'a', current: {...stale, revision: 3}}, {id: 'b', current: null}],
+                    },
+                    false,
+                    409,
+                ))
+                .mockResolvedValueOnce(createMockResponse({success: true, count: 3}));
+
+            const result = await patchRemoteListings([stale, deleted, untouched]);
+
+            expect(result).toEqual({success: true, count: 3});
+            expect(mockFetch.mock.calls[0][1].method).toBe('PATCH');
+            const body = JSON.parse(mockFetch.mock.calls[1][1].body) as CarListing[];
+            expect(body.map((l) => [l.id, l.revision])).toEqual([['a', 3], ['b', undefined], ['c', undefined]]);
+        });
+    });
+
+    describe('getRemoteListingChanges', () => {
+        it('should request changes since the cursor', async () => {
+            const changes = {listings: [], deleted: [{id: 'a', deletedAt: '2024-02-01T09:00:00.000Z'}], serverTime: '2024-02-01T10:00:00.000Z'};
+            mockFetch.mockResolvedValue(createMockResponse(changes));
+
+            const result = await getRemoteListingChanges('2024-02-01T08:00:00.000Z');
+
+            expect(result).toEqual(changes);
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.example.com/api/listings?since=2024-02-01T08%3A00%3A00.000Z',
+                expect.anything(),
+            );
         });
     });
 
@@ -418,7 +550,7 @@ describe('API Functions', () => {
         describe('getRemoteSettings', () => {
             it('should fetch settings', async () => {
                 const mockSettings = {
-                    geminiApiKey: 'test-key',
+                    geminiApiKeyConfigured: true,
                     checkFrequencyMinutes: 60,
                     geminiStats: {totalCalls: 0, successfulCalls: 0, failedCalls: 0, totalInputTokens: 0, totalOutputTokens: 0},
                 };
@@ -434,7 +566,7 @@ describe('API Functions', () => {
             it('should patch settings with PATCH method', async () => {
                 const partialSettings = {checkFrequencyMinutes: 30};
                 const fullSettings = {
-                    geminiApiKey: 'existing-key',
+                    geminiApiKeyConfigured: true,
                     checkFrequencyMinutes: 30,
                     geminiStats: {totalCalls: 0, successfulCalls: 0, failedCalls: 0, totalInputTokens: 0, totalOutputTokens: 0},
                 };
@@ -454,6 +586,67 @@ describe('API Functions', () => {
         });
     });
 
+    describe('AI Proxy API', () => {
+        const page = {url: 'https://www.otomoto.pl/oferta/bmw-320d-123', pageText: 'BMW 320d', pageTitle: 'BMW'};
+
+        it('should post the page to the parse endpoint', async () => {
+            mockFetch.mockResolvedValue(createMockResponse({title: 'BMW 320d'}));
+
+            const result = await parseListingRemote(page);
+
+            expect(result).toEqual({title: 'BMW 320d'});
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.example.com/api/ai/parse',
+                expect.objectContaining({method: 'POST', body: JSON.stringify(page)}),
+            );
+        });
+
+        it('should post the page to the refresh endpoint', async () => {
+            const refreshResult = {price: 89900, currency: 'PLN', status: 'ACTIVE'};
+            mockFetch.mockResolvedValue(createMockResponse(refreshResult));
+
+            const result = await refreshListingRemote(page);
+
+            expect(result).toEqual(refreshResult);
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.example.com/api/ai/refresh',
+                expect.objectContaining({method: 'POST', body: JSON.stringify(page)}),
+            );
+        });
+
+        it('should surface quota errors as 429 ApiError', async () => {
+            mockFetch.mockResolvedValue(createMockResponse({message: 'Daily Gemini quota of 200 calls exceeded'}, false, 429));
+
+            await expect(parseListingRemote(page)).rejects.toMatchObject({
+                statusCode: 429,
+                message: 'Daily Gemini quota of 200 calls exceeded',
+            });
+        });
+    });
+
+    describe('hasStoredGeminiApiKey', () => {
+        it('should use the backend flag when present', () => {
+            expect(hasStoredGeminiApiKey({geminiApiKeyConfigured: true})).toBe(true);
+            expect(hasStoredGeminiApiKey({geminiApiKeyConfigured: false, geminiApiKey: 'stale'})).toBe(false);
+        });
+
+        it('should fall back to the locally stored key', () => {
+            expect(hasStoredGeminiApiKey({geminiApiKey: 'local-key'})).toBe(true);
+            expect(hasStoredGeminiApiKey({geminiApiKey: ''})).toBe(false);
+        });
+    });
+
+    describe('hasConfiguredLlmProvider', () => {
+        it('should require a stored Gemini API key for Gemini', () => {
+            expect(hasConfiguredLlmProvider({geminiApiKeyConfigured: true})).toBe(true);
+            expect(hasConfiguredLlmProvider({llmProvider: 'gemini', geminiApiKeyConfigured: false})).toBe(false);
+        });
+
+        it('should not require a key for OpenAI-compatible servers', () => {
+            expect(hasConfiguredLlmProvider({llmProvider: 'openai-compatible', geminiApiKeyConfigured: false})).toBe(true);
+        });
+    });
+
     describe('Gemini History API', () => {
         describe('getRemoteGeminiHistory', () => {
             it('should fetch history with default limit', async () => {
@@ -520,6 +713,81 @@ describe('API Functions', () => {
         });
     });
 
+    describe('Saved Searches API', () => {
+        const search: SavedSearch = {
+            id: 'search-1',
+            name: 'BMW 3',
+            url: 'https://www.otomoto.pl/osobowe/bmw/seria-3',
+            seenListingIds: ['6100000001'],
+            newMatches: [],
+            createdAt: '2024-01-01T00:00:00.000Z',
+            lastCheckedAt: null,
+        };
+
+        it('should fetch saved searches', async () => {
+            mockFetch.mockResolvedValue(createMockResponse([search]));
+
+            const result = await getRemoteSavedSearches();
+
+            expect(result).toEqual([search]);
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.example.com/api/searches',
+                expect.any(Object),
+            );
+        });
+
+        it('should save a saved search via POST', async () => {
+            mockFetch.mockResolvedValue(createMockResponse(search));
+
+            await saveRemoteSavedSearch(search);
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.example.com/api/searches',
+                expect.objectContaining({
+                    method: 'POST',
+                    body: JSON.stringify(search),
+                }),
+            );
+        });
+
+        it('should record a saved search check via POST', async () => {
+            const check = {seenListingIds: ['6100000002'], newMatches: [], checkedAt: '2024-01-02T00:00:00.000Z'};
+            mockFetch.mockResolvedValue(createMockResponse(search));
+
+            await recordRemoteSavedSearchCheck('search-1', check);
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.example.com/api/searches/search-1/checks',
+                expect.objectContaining({
+                    method: 'POST',
+                    body: JSON.stringify(check),
+                }),
+            );
+        });
+
+        it('should dismiss a saved search match via DELETE', async () => {
+            mockFetch.mockResolvedValue(createMockResponse(search));
+
+            await dismissRemoteSavedSearchMatch('search-1', '6100000002');
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.example.com/api/searches/search-1/matches/6100000002',
+                expect.objectContaining({method: 'DELETE'}),
+            );
+        });
+
+        it('should delete a saved search via DELETE', async () => {
+            mockFetch.mockResolvedValue(createMockResponse({success: true}));
+
+            await deleteRemoteSavedSearch('search-1');
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://api.example.com/api/searches/search-1',
+                expect.objectContaining({method: 'DELETE'}),
+            );
+        });
+    });
+
     describe('Image Storage API', () => {
         describe('uploadImageFromUrl', () => {
             it('should upload image and return stored URL', async () => {
@@ -7,12 +7,24 @@
  * Backend URL is loaded from chrome.storage.local on each request.
  */
 
-import {CarListing, GeminiCallHistoryEntry, GeminiStats} from '../types';
+import {
+    AlertRules,
+    CarListing,
+    ConfigurableLlmProviderId,
+    CustomMarketplace,
+    GeminiCallHistoryEntry,
+    GeminiStats,
+    ListingStatus,
+    SavedSearch,
+    SavedSearchCheck,
+} from '../types';
 import {getToken} from '../auth/oauthClient';
-import {API_PREFIX, LISTINGS_ENDPOINT_PATH, SETTINGS_ENDPOINT_PATH} from '../auth/config';
+import {API_PREFIX, LISTINGS_ENDPOINT_PATH, SEARCHES_ENDPOINT_PATH, SETTINGS_ENDPOINT_PATH} from '../auth/config';
 import {getBackendServerUrl} from '../auth/localServerStorage';
+import {ListingChanges, resolveListingConflict} from '../services/sync/listingSync';
 
 const GEMINI_HISTORY_ENDPOINT_PATH = '/gemini-history';
+const AI_ENDPOINT_PATH = '/ai';
 
 /**
  * API Error class for handling backend errors
@@ -28,6 +40,28 @@ export class ApiError extends Error {
     }
 }
 
+/**
+ * Listing write rejected by the server because it was based on an older revision
+ */
+export interface ListingConflict {
+    id: string;
+    /** Listing as stored on the server, null when it was deleted */
+    current: CarListing | null;
+}
+
+/**
+ * 409 response to a conditional listing write
+ */
+export class ListingConflictError extends ApiError {
+    constructor(
+        message: string,
+        public conflicts: ListingConflict[],
+    ) {
+        super(message, 409);
+        this.name = 'ListingConflictError';
+    }
+}
+
 /**
  * Build full API URL from base URL and endpoint
  */
@@ -67,6 +101,9 @@ const apiRequest = async <T>(
     if (!response.ok) {
         const isAuthError = response.status === 401;
         const errorData = await response.json().catch(() => ({message: 'Request failed'}));
+        if (response.status === 409 && Array.isArray(errorData.conflicts)) {
+            throw new ListingConflictError(errorData.message || 'Conflict', errorData.conflicts);
+        }
         throw new ApiError(
             errorData.message || `Request failed: ${response.status}`,
             response.status,
@@ -86,32 +123,115 @@ export const getRemoteListings = async (): Promise<CarListing[]> => {
     return apiRequest<CarListing[]>(LISTINGS_ENDPOINT_PATH);
 };
 
+/**
+ * Get listings changed and deleted since the last sync (delta sync)
+ *
+ * @param since - serverTime of the previous sync (ISO string)
+ * @returns Changed listings, deleted listing IDs and the next cursor
+ */
+export const getRemoteListingChanges = async (since: string): Promise<ListingChanges> => {
+    return apiRequest<ListingChanges>(`${LISTINGS_ENDPOINT_PATH}?since=${encodeURIComponent(since)}`);
+};
+
 /**
  * Save/sync all listings to the backend (full replacement)
  *
+ * Listings with a stale revision are merged with the stored copy
+ * (price histories combined) and the batch is sent once more.
+ *
  * @param listings - Array of listings to save
  * @returns Success response
  */
 export const saveRemoteListings = async (
     listings: CarListing[],
 ): Promise<{ success: boolean; count: number }> => {
-    return apiRequest<{ success: boolean; count: number }>(LISTINGS_ENDPOINT_PATH, {
+    const put = (body: CarListing[]) => apiRequest<{ success: boolean; count: number }>(LISTINGS_ENDPOINT_PATH, {
         method: 'PUT',
-        body: JSON.stringify(listings),
+        body: JSON.stringify(body),
     });
+
+    try {
+        return await put(listings);
+    } catch (error) {
+        if (!(error instanceof ListingConflictError)) {
+            throw error;
+        }
+        const currentById = new Map(error.conflicts.map((conflict) => [conflict.id, conflict.current]));
+        return put(listings.map((listing) => {
+            const current = currentById.get(listing.id);
+            return current ? resolveListingConflict(listing, current) : listing;
+        }));
+    }
+};
+
+/**
+ * Create or update several listings, keeping all others (PATCH)
+ *
+ * Every listing is written conditionally: listings loaded from the server
+ * carry their revision, new ones none (they must not exist yet). Listings
+ * changed or created by another client in between are merged with the
+ * stored copy, those deleted elsewhere are created again, and the batch is
+ * sent once more.
+ *
+ * @param listings - Listings to create or update
+ * @returns Success response
+ */
+export const patchRemoteListings = async (
+    listings: CarListing[],
+): Promise<{ success: boolean; count: number }> => {
+    const patch = (body: CarListing[]) => apiRequest<{ success: boolean; count: number }>(LISTINGS_ENDPOINT_PATH, {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+    });
+
+    try {
+        return await patch(listings);
+    } catch (error) {
+        if (!(error instanceof ListingConflictError)) {
+            throw error;
+        }
+        const currentById = new Map(error.conflicts.map((conflict) => [conflict.id, conflict.current]));
+        return patch(listings.map((listing) => {
+            if (!currentById.has(listing.id)) {
+                return listing;
+            }
+            const current = currentById.get(listing.id);
+            if (current) {
+                return resolveListingConflict(listing, current);
+            }
+            const {revision: _revision, ...created} = listing;
+            return created;
+        }));
+    }
 };
 
 /**
  * Add or update a single listing
  *
+ * Listings loaded from the server are written conditionally (If-Match with
+ * their revision). When another client saved a newer revision in between,
+ * the two copies are merged and saved once more; a conflict with a listing
+ * deleted elsewhere is rethrown.
+ *
  * @param listing - Listing to save
- * @returns Saved listing
+ * @returns Saved listing (with its new revision)
  */
 export const saveRemoteListing = async (listing: CarListing): Promise<CarListing> => {
-    return apiRequest<CarListing>(LISTINGS_ENDPOINT_PATH, {
+    const post = (body: CarListing) => apiRequest<CarListing>(LISTINGS_ENDPOINT_PATH, {
         method: 'POST',
-        body: JSON.stringify(listing),
+        body: JSON.stringify(body),
+        ...(body.revision !== undefined && {headers: {'If-Match': `"${body.revision}"`}}),
     });
+
+    try {
+        return await post(listing);
+    } catch (error) {
+        const current = error instanceof ListingConflictError ? error.conflicts[0]?.current : null;
+        if (!current) {
+            throw error;
+        }
+        return post(resolveListingConflict(listing, current));
+    }
 };
 
 /**
@@ -147,16 +267,33 @@ export const checkBackendHealth = async (): Promise<{ status: string; firestore:
 // =============================================================================
 
 export interface RemoteSettings {
-    geminiApiKey: string;
+    // The backend stores the key encrypted: it is write-only there and only
+    // geminiApiKeyConfigured is returned. The local store keeps the key itself.
+    geminiApiKey?: string;
+    geminiApiKeyConfigured?: boolean;
     checkFrequencyMinutes: number;
     endedListingGracePeriodDays?: number; // Days to keep refreshing ENDED listings (1-30, default 3)
     geminiStats: GeminiStats;
+    // LLM provider used for extraction ('' model/base URL use the provider defaults)
+    llmProvider?: ConfigurableLlmProviderId;
+    llmModel?: string;
+    llmBaseUrl?: string;
     // User preferences
     language?: 'en' | 'pl';
     // Refresh schedule - persisted across browser sessions
     lastRefreshTime?: string | null;
     nextRefreshTime?: string | null;
     lastRefreshCount?: number;
+    // Monthly LLM spend (USD) at which background refresh pauses
+    monthlyBudgetUsd?: number | null;
+    // Server-side refresh - lastServerRefresh* are written by the API worker only
+    serverRefreshEnabled?: boolean;
+    lastServerRefreshTime?: string | null;
+    lastServerRefreshCount?: number;
+    // Price-drop and status-change alerts
+    alertRules?: AlertRules | null;
+    // User-defined marketplaces (see config/marketplaces.ts)
+    customMarketplaces?: CustomMarketplace[] | null;
     // Dashboard preferences
     dashboardFilters?: {
         status: string;
@@ -169,6 +306,19 @@ export interface RemoteSettings {
     dashboardViewMode?: string;
 }
 
+/**
+ * Whether stored settings include a Gemini API key
+ */
+export const hasStoredGeminiApiKey = (settings: Partial<RemoteSettings>): boolean =>
+    settings.geminiApiKeyConfigured ?? !!settings.geminiApiKey;
+
+/**
+ * Whether listings can be extracted with the configured LLM provider
+ * (OpenAI-compatible servers need no key, Gemini needs a stored one)
+ */
+export const hasConfiguredLlmProvider = (settings: Partial<RemoteSettings>): boolean =>
+    settings.llmProvider === 'openai-compatible' || hasStoredGeminiApiKey(settings);
+
 /**
  * Get user settings from the backend
  */
@@ -203,6 +353,78 @@ export const saveRemoteSettings = async (settings: Partial<RemoteSettings>): Pro
     });
 };
 
+// =============================================================================
+// Saved Searches API
+// =============================================================================
+
+/**
+ * Get all saved searches (with their new-listing inbox)
+ */
+export const getRemoteSavedSearches = async (): Promise<SavedSearch[]> => {
+    return apiRequest<SavedSearch[]>(SEARCHES_ENDPOINT_PATH);
+};
+
+/**
+ * Add or update a saved search
+ *
+ * @param search - Saved search to store
+ * @returns Stored saved search
+ */
+export const saveRemoteSavedSearch = async (search: SavedSearch): Promise<SavedSearch> => {
+    return apiRequest<SavedSearch>(SEARCHES_ENDPOINT_PATH, {
+        method: 'POST',
+        body: JSON.stringify(search),
+    });
+};
+
+/**
+ * Record a check of a saved search
+ * The backend merges it into the stored search, so inbox changes made
+ * meanwhile (e.g. dismissed matches) are kept.
+ *
+ * @param searchId - ID of the checked search
+ * @param check - Listing IDs and matches the check found first
+ * @returns Saved search after the merge
+ */
+export const recordRemoteSavedSearchCheck = async (
+    searchId: string,
+    check: SavedSearchCheck,
+): Promise<SavedSearch> => {
+    return apiRequest<SavedSearch>(`${SEARCHES_ENDPOINT_PATH}/${searchId}/checks`, {
+        method: 'POST',
+        body: JSON.stringify(check),
+    });
+};
+
+/**
+ * Remove a match from a saved search inbox on the backend
+ *
+ * @param searchId - ID of the saved search
+ * @param matchId - Listing ID of the match
+ * @returns Saved search without the match
+ */
+export const dismissRemoteSavedSearchMatch = async (
+    searchId: string,
+    matchId: string,
+): Promise<SavedSearch> => {
+    return apiRequest<SavedSearch>(`${SEARCHES_ENDPOINT_PATH}/${searchId}/matches/${matchId}`, {
+        method: 'DELETE',
+    });
+};
+
+/**
+ * Delete a saved search from the backend
+ *
+ * @param searchId - ID of the saved search to delete
+ */
+export const deleteRemoteSavedSearch = async (
+    searchId: string,
+): Promise<{ success: boolean }> => {
+    return apiRequest<{ success: boolean }>(`${SEARCHES_ENDPOINT_PATH}/${searchId}`, {
+        method: 'DELETE',
+    });
+};
+
 // =============================================================================
 // Gemini History API
 // =============================================================================
@@ -235,6 +457,45 @@ export const clearRemoteGeminiHistory = async (): Promise<{ success: boolean; de
     });
 };
 
+// =============================================================================
+// AI Proxy API
+// =============================================================================
+
+/**
+ * Listing page sent to the Gemini proxy
+ */
+export interface AiPageRequest {
+    url: string;
+    pageText: string;
+    pageTitle: string;
+    model?: string; // Gemini model, the backend default when omitted
+    extractedFields?: Record<string, unknown>; // Parse only: fields already read from the page
+}
+
+/**
+ * Extract listing data with the API key stored on the backend
+ *
+ * @returns Structured Gemini response (not yet validated or mapped)
+ */
+export const parseListingRemote = async (page: AiPageRequest): Promise<Record<string, unknown>> => {
+    return apiRequest<Record<string, unknown>>(`${AI_ENDPOINT_PATH}/parse`, {
+        method: 'POST',
+        body: JSON.stringify(page),
+    });
+};
+
+/**
+ * Extract current price and status with the API key stored on the backend
+ */
+export const refreshListingRemote = async (
+    page: AiPageRequest,
+): Promise<{ price: number; currency: string; status: ListingStatus }> => {
+    return apiRequest<{ price: number; currency: string; status: ListingStatus }>(`${AI_ENDPOINT_PATH}/refresh`, {
+        method: 'POST',
+        body: JSON.stringify(page),
+    });
+};
+
 // =============================================================================
 // Image Storage API
 // =============================================================================
@@ -40,6 +40,7 @@ export const AUTH_ME_ENDPOINT_PATH = '/auth/me';
 export const AUTH_LOGOUT_ENDPOINT_PATH = '/auth/logout';
 export const LISTINGS_ENDPOINT_PATH = '/listings';
 export const SETTINGS_ENDPOINT_PATH = '/settings';
+export const SEARCHES_ENDPOINT_PATH = '/searches';
 
 // =============================================================================
 // Storage Keys
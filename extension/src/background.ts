@@ -1,18 +1,52 @@
 // Background service worker for MotorScope (ES Module)
-import {CarListing, RefreshedListingInfo, RefreshPendingItem, RefreshStatus} from '@/types';
+import {
+    AlertRules,
+    CarListing,
+    CustomMarketplace,
+    ListingPriceSummary,
+    RefreshedListingInfo,
+    RefreshPendingItem,
+    RefreshStatus,
+    SavedSearch,
+} from '@/types';
 import {extensionStorage} from '@/services/extensionStorage';
+import {setCustomMarketplaces} from '@/config/marketplaces';
 import {
     DEFAULT_ENDED_GRACE_PERIOD_DAYS,
     filterListingsForRefresh,
     refreshSingleListing,
     sortListingsByRefreshPriority,
 } from '@/services/refresh';
+import {
+    evaluateAlertRules,
+    getAlertRuleForListing,
+    getListingDashboardUrl,
+    getListingIdFromNotificationId,
+    showListingAlertNotification,
+} from '@/services/alerts';
+import {
+    applySearchResults,
+    createSavedSearch,
+    extractSearchCardsFromTab,
+    scanSearchPage,
+} from '@/services/searches';
 import {STORAGE_KEYS} from '@/services/settings/storageKeys';
 import {DEFAULT_REFRESH_STATUS} from '@/services/settings/refreshStatus';
+import {getGeminiStats, recordSavedGeminiCalls} from '@/services/settings/geminiStats';
+import {getMonthlyCostUsd, hasReachedMonthlyBudget} from '@/services/settings/geminiUsage';
 import {getToken, initializeAuth, isTokenExpired, trySilentLogin} from '@/auth/oauthClient';
-import {getStoredToken} from '@/auth/storage';
-import {API_PREFIX, LISTINGS_ENDPOINT_PATH, SETTINGS_ENDPOINT_PATH} from '@/auth/config';
+import {getStoredToken, getStoredUser} from '@/auth/storage';
+import {API_PREFIX, LISTINGS_ENDPOINT_PATH, SEARCHES_ENDPOINT_PATH, SETTINGS_ENDPOINT_PATH} from '@/auth/config';
 import {getBackendServerUrl} from '@/auth/localServerStorage';
+import {
+    getRemoteListingChanges,
+    hasConfiguredLlmProvider,
+    recordRemoteSavedSearchCheck,
+    saveRemoteListing,
+} from '@/api/client';
+import {applyListingChanges, LISTINGS_SYNC_EPOCH} from '@/services/sync';
+import {getSourceTimeline, isSameSource} from '@/services/vinHistory';
+import {getLocalListings, getLocalSettings, isLocalModeEnabled, saveLocalListing} from '@/services/localData/localStore';
 
 const CHECK_ALARM_NAME = 'motorscope_check_alarm';
 const AUTH_CHECK_ALARM_NAME = 'motorscope_auth_check';
@@ -31,21 +65,46 @@ const setInSessionStorage = async <T>(key: string, value: T): Promise<void> => {
     await extensionStorage.set(key, value);
 };
 
+// ============ Local-only Mode ============
+
+/**
+ * Signed-out users in local mode keep settings and listings in chrome.storage.local
+ */
+const isLocalOnly = async (): Promise<boolean> => {
+    const token = await getToken();
+    return !token && isLocalModeEnabled();
+};
+
 // ============ Settings (from API) ============
 
 interface Settings {
     checkFrequencyMinutes: number;
-    geminiApiKey: string;
+    hasLlmProvider: boolean; // Gemini key stored, or a provider that needs none
     endedListingGracePeriodDays: number;
+    monthlyBudgetUsd: number | null; // Background refresh pauses when this month's LLM spend reaches it
+    alertRules?: AlertRules;
+    customMarketplaces?: CustomMarketplace[];
 }
 
 const getSettings = async (): Promise<Settings> => {
     const token = await getToken();
     if (!token) {
+        if (await isLocalModeEnabled()) {
+            const settings = await getLocalSettings();
+            return {
+                checkFrequencyMinutes: settings.checkFrequencyMinutes || DEFAULT_FREQUENCY_MINUTES,
+                hasLlmProvider: hasConfiguredLlmProvider(settings),
+                endedListingGracePeriodDays: settings.endedListingGracePeriodDays ?? DEFAULT_ENDED_GRACE_PERIOD_DAYS,
+                monthlyBudgetUsd: settings.monthlyBudgetUsd ?? null,
+                alertRules: settings.alertRules ?? undefined,
+                customMarketplaces: settings.customMarketplaces ?? undefined,
+            };
+        }
         return {
             checkFrequencyMinutes: DEFAULT_FREQUENCY_MINUTES,
-            geminiApiKey: '',
+            hasLlmProvider: false,
             endedListingGracePeriodDays: DEFAULT_ENDED_GRACE_PERIOD_DAYS,
+            monthlyBudgetUsd: null,
         };
     }
 
@@ -64,23 +123,28 @@ const getSettings = async (): Promise<Settings> => {
             console.warn(`[BG] Settings fetch failed with status: ${response.status}`);
             return {
                 checkFrequencyMinutes: DEFAULT_FREQUENCY_MINUTES,
-                geminiApiKey: '',
+                hasLlmProvider: false,
                 endedListingGracePeriodDays: DEFAULT_ENDED_GRACE_PERIOD_DAYS,
+                monthlyBudgetUsd: null,
             };
         }
 
         const settings = await response.json();
         return {
             checkFrequencyMinutes: settings.checkFrequencyMinutes || DEFAULT_FREQUENCY_MINUTES,
-            geminiApiKey: settings.geminiApiKey || '',
+            hasLlmProvider: hasConfiguredLlmProvider(settings),
             endedListingGracePeriodDays: settings.endedListingGracePeriodDays ?? DEFAULT_ENDED_GRACE_PERIOD_DAYS,
+            monthlyBudgetUsd: settings.monthlyBudgetUsd ?? null,
+            alertRules: settings.alertRules ?? undefined,
+            customMarketplaces: settings.customMarketplaces ?? undefined,
         };
     } catch (error) {
         console.warn('[BG] Failed to fetch settings from API:', error);
         return {
             checkFrequencyMinutes: DEFAULT_FREQUENCY_MINUTES,
-            geminiApiKey: '',
+            hasLlmProvider: false,
             endedListingGracePeriodDays: DEFAULT_ENDED_GRACE_PERIOD_DAYS,
+            monthlyBudgetUsd: null,
         };
     }
 };
@@ -126,6 +190,10 @@ const apiRequest = async <T>(
 // ============ Listings via API ============
 
 const getListings = async (): Promise<CarListing[]> => {
+    if (await isLocalOnly()) {
+        return getLocalListings();
+    }
+
     try {
         const listings = await apiRequest<CarListing[]>(LISTINGS_ENDPOINT_PATH);
         return listings || [];
@@ -135,10 +203,84 @@ const getListings = async (): Promise<CarListing[]> => {
     }
 };
 
+/**
+ * Delta-synced copy of the signed-in user's listings, so offer page views do not
+ * download the whole collection. Kept for the lifetime of the service worker;
+ * after a restart, or for another account or backend, it is loaded in full once.
+ */
+let syncedListings: { owner: string; listings: CarListing[]; serverTime: string } | null = null;
+
+/**
+ * Listings of the current user, updated with the changes since the previous call
+ */
+const getSyncedListings = async (): Promise<CarListing[]> => {
+    if (await isLocalOnly()) {
+        return getLocalListings();
+    }
+
+    try {
+        const owner = `${await getBackendServerUrl()}|${(await getStoredUser())?.id ?? ''}`;
+        const cached = syncedListings?.owner === owner ? syncedListings : null;
+        const changes = await getRemoteListingChanges(cached?.serverTime ?? LISTINGS_SYNC_EPOCH);
+        const listings = cached ? applyListingChanges(cached.listings, changes) : changes.listings;
+        syncedListings = {owner, listings, serverTime: changes.serverTime};
+        return listings;
+    } catch (error) {
+        console.error('[BG] Failed to sync listings from API:', error);
+        return [];
+    }
+};
+
+/**
+ * Price summary of the tracked listing at a URL, for the offer page overlay.
+ * A car relisted under a new URL is found by any URL it appeared under.
+ * Only these fields reach the page - the token and the rest of the listing stay here.
+ */
+const getListingPriceSummary = async (url: string): Promise<ListingPriceSummary | null> => {
+    const listing = (await getSyncedListings()).find((l) =>
+        getSourceTimeline(l).some((sighting) => isSameSource(sighting, url)),
+    );
+    if (!listing) {
+        return null;
+    }
+
+    return {
+        id: listing.id,
+        title: listing.title,
+        currentPrice: listing.currentPrice,
+        currency: listing.currency,
+        priceHistory: listing.priceHistory,
+        firstSeenAt: listing.firstSeenAt,
+        status: listing.status,
+    };
+};
+
 const saveListing = async (listing: CarListing): Promise<void> => {
-    await apiRequest<CarListing>(LISTINGS_ENDPOINT_PATH, {
+    if (await isLocalOnly()) {
+        await saveLocalListing(listing);
+        return;
+    }
+
+    // Conditional write: a listing edited elsewhere meanwhile is merged, not overwritten
+    await saveRemoteListing(listing);
+};
+
+// ============ Saved Searches via API ============
+
+const getSavedSearches = async (): Promise<SavedSearch[]> => {
+    try {
+        const searches = await apiRequest<SavedSearch[]>(SEARCHES_ENDPOINT_PATH);
+        return searches || [];
+    } catch (error) {
+        console.error('[BG] Failed to fetch saved searches from API:', error);
+        return [];
+    }
+};
+
+const saveSavedSearch = async (search: SavedSearch): Promise<void> => {
+    await apiRequest<SavedSearch>(SEARCHES_ENDPOINT_PATH, {
         method: 'POST',
-        body: JSON.stringify(listing),
+        body: JSON.stringify(search),
     });
 };
 
@@ -232,6 +374,41 @@ const scheduleAlarm = async (minutes: number = DEFAULT_FREQUENCY_MINUTES): Promi
 // Helper to delay execution
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// ============ Monthly Budget ============
+
+/**
+ * Whether this month's LLM spend has reached the budget.
+ * Stats are re-read so calls made earlier in a run are counted.
+ */
+const isMonthlyBudgetReached = async (settings: Settings): Promise<boolean> => {
+    if (!settings.monthlyBudgetUsd) {
+        return false;
+    }
+    return hasReachedMonthlyBudget(await getGeminiStats(), settings.monthlyBudgetUsd);
+};
+
+/**
+ * Tell the user background refresh is paused - once per month
+ */
+const notifyBudgetReached = async (settings: Settings): Promise<void> => {
+    const month = new Date().toISOString().slice(0, 7);
+    if (await getFromSessionStorage<string>(STORAGE_KEYS.budgetNotifiedMonth) === month) {
+        return;
+    }
+    await setInSessionStorage(STORAGE_KEYS.budgetNotifiedMonth, month);
+
+    const budgetUsd = settings.monthlyBudgetUsd ?? 0;
+    const spentUsd = getMonthlyCostUsd(await getGeminiStats());
+    chrome.notifications.create(`budget-reached-${Date.now()}`, {
+        type: 'basic',
+        iconUrl: 'icon.png',
+        title: 'MotorScope Budget Reached',
+        message: `Spent $${spentUsd.toFixed(2)} of your $${budgetUsd.toFixed(2)} monthly AI budget. `
+            + 'Background refresh is paused until next month or a higher budget.',
+        priority: 2,
+    });
+};
+
 // ============ Background Refresh All ============
 
 const runBackgroundRefresh = async (): Promise<void> => {
@@ -242,9 +419,9 @@ const runBackgroundRefresh = async (): Promise<void> => {
         return;
     }
 
-    // Check if user is authenticated
+    // Check if user is authenticated (or keeps listings locally)
     const token = await getToken();
-    if (!token) {
+    if (!token && !(await isLocalModeEnabled())) {
         console.log('Not authenticated, skipping background refresh');
         const settings = await getSettings();
         await scheduleAlarm(settings.checkFrequencyMinutes);
@@ -252,9 +429,19 @@ const runBackgroundRefresh = async (): Promise<void> => {
     }
 
     const settings = await getSettings();
+    // Refresh and neverFetch checks must see the user's own marketplaces too
+    setCustomMarketplaces(settings.customMarketplaces);
 
-    if (!settings.geminiApiKey) {
-        console.log('No Gemini API key configured, skipping background refresh');
+    if (!settings.hasLlmProvider) {
+        console.log('No LLM provider configured, skipping background refresh');
+        await scheduleAlarm(settings.checkFrequencyMinutes);
+        return;
+    }
+
+    if (await isMonthlyBudgetReached(settings)) {
+        console.log('Monthly LLM budget reached, skipping background refresh');
+        await updateRefreshStatus({pausedByBudget: true});
+        await notifyBudgetReached(settings);
         await scheduleAlarm(settings.checkFrequencyMinutes);
         return;
     }
@@ -319,137 +506,276 @@ const runBackgroundRefresh = async (): Promise<void> => {
     });
 
     let refreshedCount = 0;
+    let savedCallCount = 0;
     let errorCount = 0;
     let rateLimitHit = false;
+    let budgetReached = false;
     let useBackgroundTabMode = false; // Track if we should force background tab for remaining listings
     const recentlyRefreshed: RefreshedListingInfo[] = [];
 
-    for (let i = 0; i < sortedListings.length; i++) {
-        const listing = sortedListings[i];
+    let nextRefreshMinutes = settings.checkFrequencyMinutes;
+    let completed = false;
+    try {
+        for (let i = 0; i < sortedListings.length; i++) {
+            const listing = sortedListings[i];
 
-        // Update pending items - mark current as refreshing
-        pendingItems[i] = {...pendingItems[i], status: 'refreshing'};
+            // Stop once calls made in this run use up the budget
+            if (i > 0 && await isMonthlyBudgetReached(settings)) {
+                budgetReached = true;
+                console.log('Monthly LLM budget reached, stopping refresh');
+                break;
+            }
 
-        // Update progress with current item being refreshed
-        await updateRefreshStatus({
-            currentIndex: i + 1,
-            totalCount: sortedListings.length,
-            currentListingTitle: listing.title,
-            pendingItems: [...pendingItems],
-        });
+            // Update pending items - mark current as refreshing
+            pendingItems[i] = {...pendingItems[i], status: 'refreshing'};
 
-        // Pass the forceBackgroundTab flag if we've already encountered Cloudflare issues
-        const result = await refreshSingleListing(listing, useBackgroundTabMode);
+            // Update progress with current item being refreshed
+            await updateRefreshStatus({
+                currentIndex: i + 1,
+                totalCount: sortedListings.length,
+                currentListingTitle: listing.title,
+                pendingItems: [...pendingItems],
+            });
 
-        // If background tab was used (due to Cloudflare fallback), enable it for remaining listings
-        if (result.usedBackgroundTab && !useBackgroundTabMode) {
-            console.log('[BG] Cloudflare fallback triggered, switching to background tab mode for remaining listings');
-            useBackgroundTabMode = true;
-        }
+            // Pass the forceBackgroundTab flag if we've already encountered Cloudflare issues
+            const result = await refreshSingleListing(listing, useBackgroundTabMode);
 
-        // Save the updated listing to the API
-        if (result.success || result.listing.lastRefreshStatus === 'error') {
-            try {
-                await saveListing(result.listing);
-            } catch (err) {
-                console.error('[BG] Failed to save updated listing:', err);
+            // If background tab was used (due to Cloudflare fallback), enable it for remaining listings
+            if (result.usedBackgroundTab && !useBackgroundTabMode) {
+                console.log('[BG] Cloudflare fallback triggered, switching to background tab mode for remaining listings');
+                useBackgroundTabMode = true;
             }
-        }
 
-        if (result.success) {
-            refreshedCount++;
-            pendingItems[i] = {...pendingItems[i], status: 'success'};
+            // Save the updated listing to the API
+            if (result.success || result.listing.lastRefreshStatus === 'error') {
+                try {
+                    await saveListing(result.listing);
+                } catch (err) {
+                    console.error('[BG] Failed to save updated listing:', err);
+                }
+            }
 
-            recentlyRefreshed.push({
-                id: listing.id,
-                title: listing.title,
-                url: listing.source.url,
-                status: 'success',
-                timestamp: new Date().toISOString(),
-            });
-        } else {
-            errorCount++;
-            pendingItems[i] = {...pendingItems[i], status: 'error'};
-
-            recentlyRefreshed.push({
-                id: listing.id,
-                title: listing.title,
-                url: listing.source.url,
-                status: 'error',
-                timestamp: new Date().toISOString(),
+            if (result.success) {
+                refreshedCount++;
+                if (result.contentUnchanged) {
+                    savedCallCount++;
+                }
+                pendingItems[i] = {...pendingItems[i], status: 'success'};
+
+                // Each listing matching an alert rule gets its own notification
+                try {
+                    const alert = evaluateAlertRules(listing, result, settings.alertRules);
+                    if (alert) {
+                        showListingAlertNotification(alert, getAlertRuleForListing(settings.alertRules, listing.id));
+                    }
+                } catch (err) {
+                    console.error('[BG] Failed to evaluate alert rules:', err);
+                }
+
+                recentlyRefreshed.push({
+                    id: listing.id,
+                    title: listing.title,
+                    url: listing.source.url,
+                    status: 'success',
+                    timestamp: new Date().toISOString(),
+                });
+            } else {
+                errorCount++;
+                pendingItems[i] = {...pendingItems[i], status: 'error'};
+
+                recentlyRefreshed.push({
+                    id: listing.id,
+                    title: listing.title,
+                    url: listing.source.url,
+                    status: 'error',
+                    timestamp: new Date().toISOString(),
+                });
+
+                // Check if we hit rate limit - if so, stop processing and schedule retry
+                if (result.rateLimited) {
+                    rateLimitHit = true;
+                    console.log('Rate limit hit, stopping refresh and scheduling retry in 1 minute');
+                    break;
+                }
+            }
+
+            // Update status after each item
+            await updateRefreshStatus({
+                pendingItems: [...pendingItems],
+                recentlyRefreshed: [...recentlyRefreshed],
             });
 
-            // Check if we hit rate limit - if so, stop processing and schedule retry
-            if (result.rateLimited) {
-                rateLimitHit = true;
-                console.log('Rate limit hit, stopping refresh and scheduling retry in 1 minute');
-                break;
+            // Delay between requests (only if not rate limited)
+            if (!rateLimitHit) {
+                await delay(2000);
             }
         }
 
-        // Update status after each item
+        const now = new Date().toISOString();
+
+        // If rate limited, schedule retry in 1 minute, otherwise use normal interval
+        nextRefreshMinutes = rateLimitHit ? RATE_LIMIT_RETRY_MINUTES : settings.checkFrequencyMinutes;
+        const nextRefreshTime = new Date(Date.now() + nextRefreshMinutes * 60 * 1000).toISOString();
+
         await updateRefreshStatus({
-            pendingItems: [...pendingItems],
-            recentlyRefreshed: [...recentlyRefreshed],
+            lastRefreshTime: now,
+            nextRefreshTime,
+            lastRefreshCount: refreshedCount,
+            lastSavedCallCount: savedCallCount,
+            pausedByBudget: budgetReached,
+            isRefreshing: false,
+            currentIndex: 0,
+            totalCount: 0,
+            currentListingTitle: null,
+            pendingItems: [],
+            recentlyRefreshed: recentlyRefreshed.slice(0, 50),
         });
 
-        // Delay between requests (only if not rate limited)
-        if (!rateLimitHit) {
-            await delay(2000);
+        await recordSavedGeminiCalls(savedCallCount);
+
+        // Persist refresh schedule to API for cross-session persistence
+        await persistRefreshScheduleToApi({
+            lastRefreshTime: now,
+            nextRefreshTime,
+            lastRefreshCount: refreshedCount,
+        });
+
+        // Show notification when refresh completes
+        const timeText = formatTimeText(nextRefreshMinutes);
+        let message = `Refreshed ${refreshedCount} listing${refreshedCount !== 1 ? 's' : ''}`;
+        if (savedCallCount > 0) {
+            message += ` (${savedCallCount} unchanged)`;
+        }
+        if (errorCount > 0) {
+            message += `, ${errorCount} failed`;
+        }
+        if (rateLimitHit) {
+            message += `. Rate limited - retrying in ${timeText}.`;
+        } else if (budgetReached) {
+            message += '. Monthly AI budget reached - remaining listings skipped.';
+        } else {
+            message += `. Next refresh in ${timeText}.`;
         }
-    }
 
-    const now = new Date().toISOString();
+        chrome.notifications.create(`refresh-complete-${Date.now()}`, {
+            type: 'basic',
+            iconUrl: 'icon.png',
+            title: rateLimitHit ? 'MotorScope Rate Limited' : 'MotorScope Refresh Complete',
+            message,
+            priority: 2,
+        });
 
-    // If rate limited, schedule retry in 1 minute, otherwise use normal interval
-    const nextRefreshMinutes = rateLimitHit ? RATE_LIMIT_RETRY_MINUTES : settings.checkFrequencyMinutes;
-    const nextRefreshTime = new Date(Date.now() + nextRefreshMinutes * 60 * 1000).toISOString();
+        if (budgetReached) {
+            await notifyBudgetReached(settings);
+        }
 
-    await updateRefreshStatus({
-        lastRefreshTime: now,
-        nextRefreshTime,
-        lastRefreshCount: refreshedCount,
-        isRefreshing: false,
-        currentIndex: 0,
-        totalCount: 0,
-        currentListingTitle: null,
-        pendingItems: [],
-        recentlyRefreshed: recentlyRefreshed.slice(0, 50),
-    });
+        // Notify UI
+        chrome.runtime.sendMessage({type: 'LISTING_UPDATED'}).catch(() => {
+        });
+        completed = true;
+    } finally {
+        // An error mid-run must not leave the refresh marked as running or the alarm unscheduled
+        if (!completed) {
+            await updateRefreshStatus({
+                isRefreshing: false,
+                currentIndex: 0,
+                totalCount: 0,
+                currentListingTitle: null,
+                pendingItems: [],
+            });
+        }
+        await scheduleAlarm(nextRefreshMinutes);
+    }
+};
 
-    // Persist refresh schedule to API for cross-session persistence
-    await persistRefreshScheduleToApi({
-        lastRefreshTime: now,
-        nextRefreshTime,
-        lastRefreshCount: refreshedCount,
-    });
+// ============ Saved Search Check ============
+
+let isCheckingSavedSearches = false;
 
-    // Show notification when refresh completes
-    const timeText = formatTimeText(nextRefreshMinutes);
-    let message = `Refreshed ${refreshedCount} listing${refreshedCount !== 1 ? 's' : ''}`;
-    if (errorCount > 0) {
-        message += `, ${errorCount} failed`;
+/**
+ * Re-open every saved search and move unseen listing cards into its inbox
+ */
+const runSavedSearchCheck = async (): Promise<void> => {
+    if (isCheckingSavedSearches) {
+        console.log('[BG] Saved search check already in progress, skipping');
+        return;
     }
-    if (rateLimitHit) {
-        message += `. Rate limited - retrying in ${timeText}.`;
-    } else {
-        message += `. Next refresh in ${timeText}.`;
+
+    const token = await getToken();
+    if (!token) {
+        return;
     }
 
-    chrome.notifications.create(`refresh-complete-${Date.now()}`, {
-        type: 'basic',
-        iconUrl: 'icon.png',
-        title: rateLimitHit ? 'MotorScope Rate Limited' : 'MotorScope Refresh Complete',
-        message,
-        priority: 2,
-    });
+    isCheckingSavedSearches = true;
+    try {
+        const searches = await getSavedSearches();
+        if (searches.length === 0) {
+            return;
+        }
 
-    // Notify UI
-    chrome.runtime.sendMessage({type: 'LISTING_UPDATED'}).catch(() => {
-    });
+        const trackedUrls = (await getListings()).map((l) => l.source.url);
+        let newMatchCount = 0;
 
-    // Schedule next alarm
-    await scheduleAlarm(nextRefreshMinutes);
+        for (const search of searches) {
+            try {
+                const cards = await scanSearchPage(search.url);
+
+                // An empty page is more likely a captcha or layout change than an empty search -
+                // keep the previous state so the next successful scan is not reported as all-new
+                if (cards.length === 0) {
+                    console.warn(`[BG] No listing cards found for saved search "${search.name}"`);
+                } else {
+                    const checkedAt = new Date();
+                    const {addedMatches, addedListingIds} = applySearchResults(search, cards, trackedUrls, checkedAt);
+                    // Only what this scan found is sent - the backend merges it with
+                    // matches tracked or dismissed since the searches were loaded
+                    await recordRemoteSavedSearchCheck(search.id, {
+                        seenListingIds: addedListingIds,
+                        newMatches: addedMatches,
+                        checkedAt: checkedAt.toISOString(),
+                    });
+                    newMatchCount += addedMatches.length;
+                }
+            } catch (error) {
+                console.error(`[BG] Failed to check saved search "${search.name}":`, error);
+            }
+
+            await delay(2000);
+        }
+
+        if (newMatchCount > 0) {
+            chrome.notifications.create(`search-matches-${Date.now()}`, {
+                type: 'basic',
+                iconUrl: 'icon.png',
+                title: 'MotorScope New Listings',
+                message: `${newMatchCount} new listing${newMatchCount !== 1 ? 's' : ''} match your saved searches`,
+                priority: 2,
+            });
+        }
+
+        chrome.runtime.sendMessage({type: 'SAVED_SEARCHES_UPDATED'}).catch(() => {
+        });
+    } finally {
+        isCheckingSavedSearches = false;
+    }
+};
+
+/**
+ * Save a search URL as a watch
+ * When the search is open in a tab, its current cards become the baseline right away
+ */
+const watchSearch = async (url: string, name?: string, tabId?: number): Promise<SavedSearch> => {
+    let search = createSavedSearch(url, name);
+
+    if (tabId !== undefined) {
+        const cards = await extractSearchCardsFromTab(tabId);
+        if (cards.length > 0) {
+            search = applySearchResults(search, cards, []).search;
+        }
+    }
+
+    await saveSavedSearch(search);
+    return search;
 };
 
 // ============ Event Listeners ============
@@ -504,9 +830,9 @@ const scheduleAuthCheck = async (): Promise<void> => {
 
 // Helper to schedule alarm based on stored nextRefreshTime or default interval
 const initializeAlarm = async (): Promise<void> => {
-    // Check if user is authenticated - only schedule alarms for logged in users
+    // Check if user is authenticated - only schedule alarms for logged in users or local mode
     const token = await getToken();
-    if (!token) {
+    if (!token && !(await isLocalModeEnabled())) {
         console.log('[BG] User not authenticated, skipping alarm initialization');
         // Clear any existing alarm since user is not logged in
         await chrome.alarms.clear(CHECK_ALARM_NAME);
@@ -518,7 +844,7 @@ const initializeAlarm = async (): Promise<void> => {
 
     // If session storage has no nextRefreshTime, try to load from API settings
     // This handles the case where browser was restarted
-    if (!refreshStatus.nextRefreshTime || !refreshStatus.lastRefreshTime) {
+    if (token && (!refreshStatus.nextRefreshTime || !refreshStatus.lastRefreshTime)) {
         try {
             const backendUrl = await getBackendServerUrl();
             const url = `${backendUrl}${API_PREFIX}${SETTINGS_ENDPOINT_PATH}`;
@@ -652,11 +978,23 @@ chrome.runtime.onStartup.addListener(async () => {
 chrome.alarms.onAlarm.addListener(async (alarm) => {
     if (alarm.name === CHECK_ALARM_NAME) {
         await runBackgroundRefresh();
+        await runSavedSearchCheck();
     } else if (alarm.name === AUTH_CHECK_ALARM_NAME) {
         await checkAndRefreshAuth();
     }
 });
 
+// Open the listing in the dashboard when its alert notification is clicked
+chrome.notifications.onClicked.addListener((notificationId) => {
+    const listingId = getListingIdFromNotificationId(notificationId);
+    if (!listingId) {
+        return;
+    }
+
+    chrome.tabs.create({url: getListingDashboardUrl(listingId)});
+    chrome.notifications.clear(notificationId);
+});
+
 // Listen for settings changes to update alarm schedule
 // Note: Settings are now stored in API, not local storage.
 // Settings changes are communicated via RESCHEDULE_ALARM message from the UI.
@@ -729,6 +1067,36 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
         return true;
     }
 
+    // Price history of the tracked listing on an offer page (price overlay)
+    if (request.type === 'GET_LISTING_PRICE_SUMMARY') {
+        getListingPriceSummary(request.url)
+            .then((listing) => sendResponse({success: true, listing}))
+            .catch((error) => {
+                console.error('[BG] Failed to get listing price summary:', error);
+                sendResponse({success: false, listing: null, error: String(error)});
+            });
+        return true;
+    }
+
+    // Save the current search page as a watch
+    if (request.type === 'WATCH_SEARCH') {
+        watchSearch(request.url, request.name, request.tabId)
+            .then((search) => sendResponse({success: true, search}))
+            .catch((error) => {
+                console.error('[BG] Failed to save search:', error);
+                sendResponse({success: false, error: String(error)});
+            });
+        return true;
+    }
+
+    // Check saved searches now (dashboard inbox)
+    if (request.type === 'CHECK_SAVED_SEARCHES') {
+        runSavedSearchCheck()
+            .then(() => sendResponse({success: true}))
+            .catch((error) => sendResponse({success: false, error: String(error)}));
+        return true;
+    }
+
     // Open dashboard with a specific listing
     if (request.type === 'OPEN_DASHBOARD_WITH_LISTING') {
         const listingUrl = request.url;
@@ -0,0 +1,108 @@
+/**
+ * Alert Rule Fields Component
+ *
+ * Controlled inputs for a single price/status alert rule.
+ * Shared by the global rule in settings and per-listing rules in the listing modal.
+ */
+
+import React from 'react';
+import {useTranslation} from 'react-i18next';
+import {AlertRule} from '@/types';
+
+interface AlertRuleFieldsProps {
+    rule: AlertRule;
+    onChange: (rule: AlertRule) => void;
+    /** Show the target price input (only meaningful for a single listing) */
+    showTargetPrice?: boolean;
+    /** Currency shown next to amount inputs */
+    currency?: string;
+}
+
+/** Parse a numeric input - empty or invalid input disables the threshold */
+const parseThreshold = (value: string): number | null => {
+    const numeric = parseFloat(value);
+    return Number.isFinite(numeric) && numeric > 0 ? numeric : null;
+};
+
+const AlertRuleFields: React.FC<AlertRuleFieldsProps> = ({rule, onChange, showTargetPrice = false, currency}) => {
+    const {t} = useTranslation('settings');
+
+    const inputClass = 'w-28 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+    const checkboxClass = 'w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500';
+
+    return (
+        <div className="flex flex-col gap-3">
+            <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+                {t('alerts.priceDropPercent')}
+                <span className="flex items-center gap-2">
+                    <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={rule.priceDropPercent ?? ''}
+                        aria-label={t('alerts.priceDropPercent')}
+                        onChange={(e) => onChange({...rule, priceDropPercent: parseThreshold(e.target.value)})}
+                        className={inputClass}
+                    />
+                    <span className="w-10 text-slate-500">%</span>
+                </span>
+            </label>
+
+            <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+                {t('alerts.priceDropAmount')}
+                <span className="flex items-center gap-2">
+                    <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={rule.priceDropAmount ?? ''}
+                        aria-label={t('alerts.priceDropAmount')}
+                        onChange={(e) => onChange({...rule, priceDropAmount: parseThreshold(e.target.value)})}
+                        className={inputClass}
+                    />
+                    <span className="w-10 text-slate-500">{currency}</span>
+                </span>
+            </label>
+
+            {showTargetPrice && (
+                <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+                    {t('alerts.targetPrice')}
+                    <span className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={rule.targetPrice ?? ''}
+                            aria-label={t('alerts.targetPrice')}
+                            onChange={(e) => onChange({...rule, targetPrice: parseThreshold(e.target.value)})}
+                            className={inputClass}
+                        />
+                        <span className="w-10 text-slate-500">{currency}</span>
+                    </span>
+                </label>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={rule.notifyOnEnded}
+                    onChange={(e) => onChange({...rule, notifyOnEnded: e.target.checked})}
+                    className={checkboxClass}
+                />
+                {t('alerts.notifyOnEnded')}
+            </label>
+
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={rule.notifyOnRelisted}
+                    onChange={(e) => onChange({...rule, notifyOnRelisted: e.target.checked})}
+                    className={checkboxClass}
+                />
+                {t('alerts.notifyOnRelisted')}
+            </label>
+        </div>
+    );
+};
+
+export default AlertRuleFields;
@@ -2,6 +2,8 @@ import React, {memo} from 'react';
 import {useTranslation} from 'react-i18next';
 import {CarListing, ListingStatus} from '@/types';
 import PriceChart from '@/components/PriceChart';
+import {MarketValueBadge} from '@/components/ui/MarketValueBadge';
+import {MarketValueEstimate} from '@/services/valuation';
 import {
     AlertTriangle,
     Archive,
@@ -13,17 +15,20 @@ import {
     Eye,
     Fuel,
     Gauge,
+    GitCompareArrows,
     Globe,
     Info,
     Loader2,
     MapPin,
     RefreshCw,
+    Server,
     Settings2,
     Trash2,
     XCircle,
 } from 'lucide-react';
 import {formatEuropeanDateTime} from '@/utils/formatters';
 import {getMarketplaceDisplayName} from '@/config/marketplaces';
+import {wasRelisted} from '@/services/vinHistory';
 
 interface CarCardProps {
     listing: CarListing;
@@ -33,6 +38,13 @@ interface CarCardProps {
     onShowDetails: (listing: CarListing) => void;
     isRefreshing: boolean;
     justRefreshed?: boolean;
+    /** Estimated fair price from comparable tracked listings */
+    marketValue?: MarketValueEstimate | null;
+    /** Whether the listing is in the comparison set */
+    isComparing?: boolean;
+    /** Comparison set is full (only removal is allowed) */
+    compareDisabled?: boolean;
+    onToggleCompare?: (listing: CarListing) => void;
 }
 
 // Helper to safely get vehicle data
@@ -83,6 +95,10 @@ const CarCard: React.FC<CarCardProps> = ({
     onShowDetails,
     isRefreshing,
     justRefreshed,
+    marketValue,
+    isComparing = false,
+    compareDisabled = false,
+    onToggleCompare,
 }) => {
     const {t} = useTranslation(['common', 'dashboard', 'errors']);
     // Get normalized vehicle data
@@ -158,6 +174,14 @@ const CarCard: React.FC<CarCardProps> = ({
                     }`}>
                         {t('common:status.' + (listing.status === ListingStatus.ACTIVE ? 'active' : 'ended'))}
                     </span>
+                    {wasRelisted(listing) && (
+                        <span
+                            className="px-2 py-1 text-xs font-semibold rounded-md backdrop-blur-md bg-amber-500/20 text-amber-900 bg-white/80"
+                            title={t('dashboard:relisted.tooltip', {date: formatEuropeanDateTime(listing.relistedAt!)})}
+                        >
+                            {t('dashboard:relisted.badge')}
+                        </span>
+                    )}
                     <span
                         className="px-2 py-1 text-xs font-semibold rounded-md backdrop-blur-md bg-cyan-500/20 text-cyan-900 bg-white/80">
                         {getMarketplaceDisplayName(listing.source.platform)}
@@ -194,6 +218,11 @@ const CarCard: React.FC<CarCardProps> = ({
 
             {/* Details Grid */}
             <div className="p-4">
+                {marketValue && !isInactive && (
+                    <div className="mb-3">
+                        <MarketValueBadge estimate={marketValue}/>
+                    </div>
+                )}
                 <div className="grid grid-cols-3 gap-2 mb-4 text-xs text-slate-600">
                     {vehicleData.year && (
                         <div className="flex flex-col items-center bg-slate-50 p-2 rounded">
@@ -322,6 +351,11 @@ const CarCard: React.FC<CarCardProps> = ({
                         <RefreshCw className="w-3 h-3"/>
                         {t('common:time.lastChecked', {date: formatEuropeanDateTime(listing.lastSeenAt)})}
                     </span>
+                    {listing.lastRefreshSource === 'server' && (
+                        <span className="inline-flex items-center gap-1" title={t('common:time.refreshedByServer')}>
+                            <Server className="w-3 h-3"/>
+                        </span>
+                    )}
                 </div>
 
                 {/* Chart */}
@@ -351,6 +385,23 @@ const CarCard: React.FC<CarCardProps> = ({
                         {t('common:button.openListing')} <ExternalLink className="w-3.5 h-3.5"/>
                     </a>
                     <div className="flex items-center gap-1">
+                        {onToggleCompare && (
+                            <button
+                                onClick={() => onToggleCompare(listing)}
+                                disabled={compareDisabled && !isComparing}
+                                aria-pressed={isComparing}
+                                className={`p-2 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    isComparing
+                                        ? 'text-blue-600 bg-blue-50 hover:bg-blue-100'
+                                        : 'text-slate-400 hover:text-blue-500 hover:bg-blue-50'
+                                }`}
+                                title={isComparing
+                                    ? t('dashboard:compare.remove')
+                                    : compareDisabled ? t('dashboard:compare.limitReached') : t('dashboard:compare.add')}
+                            >
+                                <GitCompareArrows className="w-4 h-4"/>
+                            </button>
+                        )}
                         <button
                             onClick={() => onShowDetails(listing)}
                             className="p-2 text-slate-400 hover:text-blue-500 hover:bg-blue-50 rounded-full transition-colors"
@@ -403,11 +454,17 @@ export default memo(CarCard, (prevProps, nextProps) => {
         prevProps.listing.currentPrice === nextProps.listing.currentPrice &&
         prevProps.listing.status === nextProps.listing.status &&
         prevProps.listing.isArchived === nextProps.listing.isArchived &&
+        prevProps.listing.relistedAt === nextProps.listing.relistedAt &&
         prevProps.listing.lastSeenAt === nextProps.listing.lastSeenAt &&
         prevProps.listing.lastRefreshStatus === nextProps.listing.lastRefreshStatus &&
         prevProps.listing.lastRefreshError === nextProps.listing.lastRefreshError &&
+        prevProps.listing.lastRefreshSource === nextProps.listing.lastRefreshSource &&
         prevProps.listing.priceHistory.length === nextProps.listing.priceHistory.length &&
         prevProps.isRefreshing === nextProps.isRefreshing &&
-        prevProps.justRefreshed === nextProps.justRefreshed
+        prevProps.justRefreshed === nextProps.justRefreshed &&
+        prevProps.marketValue?.estimatedPrice === nextProps.marketValue?.estimatedPrice &&
+        prevProps.marketValue?.comparables.length === nextProps.marketValue?.comparables.length &&
+        prevProps.isComparing === nextProps.isComparing &&
+        prevProps.compareDisabled === nextProps.compareDisabled
     );
 });
@@ -8,6 +8,8 @@
 import React, {memo} from 'react';
 import {useTranslation} from 'react-i18next';
 import {CarListing, ListingStatus} from '@/types';
+import {MarketValueBadge} from '@/components/ui/MarketValueBadge';
+import {MarketValueEstimate} from '@/services/valuation';
 import {
     AlertTriangle,
     Archive,
@@ -16,16 +18,19 @@ import {
     ExternalLink,
     Fuel,
     Gauge,
+    GitCompareArrows,
     Info,
     Loader2,
     Minus,
     RefreshCw,
+    Server,
     Trash2,
     TrendingDown,
     TrendingUp,
 } from 'lucide-react';
 import {formatEuropeanDateShort} from '@/utils/formatters';
 import {getMarketplaceDisplayName} from '@/config/marketplaces';
+import {wasRelisted} from '@/services/vinHistory';
 
 interface CarCardCompactProps {
     listing: CarListing;
@@ -35,6 +40,13 @@ interface CarCardCompactProps {
     onShowDetails: (listing: CarListing) => void;
     isRefreshing: boolean;
     justRefreshed?: boolean;
+    /** Estimated fair price from comparable tracked listings */
+    marketValue?: MarketValueEstimate | null;
+    /** Whether the listing is in the comparison set */
+    isComparing?: boolean;
+    /** Comparison set is full (only removal is allowed) */
+    compareDisabled?: boolean;
+    onToggleCompare?: (listing: CarListing) => void;
 }
 
 const CarCardCompact: React.FC<CarCardCompactProps> = ({
@@ -45,6 +57,10 @@ const CarCardCompact: React.FC<CarCardCompactProps> = ({
     onShowDetails,
     isRefreshing,
     justRefreshed,
+    marketValue,
+    isComparing = false,
+    compareDisabled = false,
+    onToggleCompare,
 }) => {
     const {t} = useTranslation(['common', 'errors', 'dashboard']);
     const v = listing.vehicle;
@@ -166,6 +182,14 @@ const CarCardCompact: React.FC<CarCardCompactProps> = ({
                             <span className={`px-2 py-0.5 text-[10px] font-semibold rounded ${getStatusColor()}`}>
                                 {getStatusText()}
                             </span>
+                            {wasRelisted(listing) && (
+                                <span
+                                    className="px-2 py-0.5 text-[10px] font-semibold rounded bg-amber-100 text-amber-700"
+                                    title={t('dashboard:relisted.tooltip', {date: formatEuropeanDateShort(listing.relistedAt!)})}
+                                >
+                                    {t('dashboard:relisted.badge')}
+                                </span>
+                            )}
                             <span className="px-2 py-0.5 text-[10px] font-semibold rounded bg-cyan-100 text-cyan-700">
                                 {getMarketplaceDisplayName(listing.source.platform)}
                             </span>
@@ -213,9 +237,19 @@ const CarCardCompact: React.FC<CarCardCompactProps> = ({
                         )}
                     </div>
 
+                    {/* Estimated market value */}
+                    {marketValue && !isInactive && (
+                        <MarketValueBadge estimate={marketValue} className="mt-1"/>
+                    )}
+
                     {/* Tracked since */}
-                    <div className="text-[10px] text-slate-400 mt-1">
+                    <div className="flex items-center gap-1 text-[10px] text-slate-400 mt-1">
                         {t('common:time.trackedSince', {date: formatEuropeanDateShort(listing.firstSeenAt)})}
+                        {listing.lastRefreshSource === 'server' && (
+                            <span title={t('common:time.refreshedByServer')}>
+                                <Server className="w-3 h-3"/>
+                            </span>
+                        )}
                     </div>
                 </div>
 
@@ -230,6 +264,23 @@ const CarCardCompact: React.FC<CarCardCompactProps> = ({
                     >
                         <ExternalLink className="w-4 h-4"/>
                     </a>
+                    {onToggleCompare && (
+                        <button
+                            onClick={() => onToggleCompare(listing)}
+                            disabled={compareDisabled && !isComparing}
+                            aria-pressed={isComparing}
+                            className={`p-1.5 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                isComparing
+                                    ? 'text-blue-600 bg-blue-50 hover:bg-blue-100'
+                                    : 'text-slate-400 hover:text-blue-500 hover:bg-blue-50'
+                            }`}
+                            title={isComparing
+                                ? t('dashboard:compare.remove')
+                                : compareDisabled ? t('dashboard:compare.limitReached') : t('dashboard:compare.add')}
+                        >
+                            <GitCompareArrows className="w-4 h-4"/>
+                        </button>
+                    )}
                     <button
                         onClick={() => onShowDetails(listing)}
                         className="p-1.5 text-slate-400 hover:text-blue-500 hover:bg-blue-50 rounded transition-colors"
@@ -279,12 +330,18 @@ export default memo(CarCardCompact, (prevProps, nextProps) => {
         prevProps.listing.currentPrice === nextProps.listing.currentPrice &&
         prevProps.listing.status === nextProps.listing.status &&
         prevProps.listing.isArchived === nextProps.listing.isArchived &&
+        prevProps.listing.relistedAt === nextProps.listing.relistedAt &&
         prevProps.listing.lastSeenAt === nextProps.listing.lastSeenAt &&
         prevProps.listing.lastRefreshStatus === nextProps.listing.lastRefreshStatus &&
         prevProps.listing.lastRefreshError === nextProps.listing.lastRefreshError &&
+        prevProps.listing.lastRefreshSource === nextProps.listing.lastRefreshSource &&
         prevProps.listing.priceHistory.length === nextProps.listing.priceHistory.length &&
         prevProps.isRefreshing === nextProps.isRefreshing &&
-        prevProps.justRefreshed === nextProps.justRefreshed
+        prevProps.justRefreshed === nextProps.justRefreshed &&
+        prevProps.marketValue?.estimatedPrice === nextProps.marketValue?.estimatedPrice &&
+        prevProps.marketValue?.comparables.length === nextProps.marketValue?.comparables.length &&
+        prevProps.isComparing === nextProps.isComparing &&
+        prevProps.compareDisabled === nextProps.compareDisabled
     );
 });
 
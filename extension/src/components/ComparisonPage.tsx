@@ -0,0 +1,246 @@
+/**
+ * Comparison Page Component
+ *
+ * Side-by-side view of 2-5 tracked listings, opened from the dashboard
+ * selection bar. The compared listings are addressed by the URL
+ * (index.html?view=compare&ids=a,b,c) so a comparison can be bookmarked.
+ */
+
+import React, {Fragment, useMemo, useState} from 'react';
+import {useTranslation} from 'react-i18next';
+import {ArrowLeft, Car, ExternalLink, GitCompareArrows, Loader2, X} from 'lucide-react';
+import {CarListing} from '@/types';
+import {useListings, useLocalMode} from '@/context/AppContext';
+import {useAuth} from '@/auth/AuthContext';
+import PriceChart, {PriceChartSeries} from '@/components/PriceChart';
+import {getMarketplaceDisplayName} from '@/config/marketplaces';
+import {
+    buildComparisonRows,
+    buildComparisonUrl,
+    ComparisonRow,
+    ComparisonSection,
+    ComparisonValue,
+    MIN_COMPARE_LISTINGS,
+    parseComparisonIds,
+} from '@/services/comparison';
+
+const SECTIONS: ComparisonSection[] = ['price', 'vehicle', 'engine', 'drivetrain', 'condition'];
+
+const ComparisonPage: React.FC = () => {
+    const {t} = useTranslation(['dashboard', 'common', 'auth']);
+    const {listings, isLoading} = useListings();
+    const auth = useAuth();
+    const {isLocalMode} = useLocalMode();
+    const [ids, setIds] = useState<string[]>(() => parseComparisonIds(window.location.search));
+    const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+    const compared = useMemo(
+        () => ids
+            .map(id => listings.find(l => l.id === id))
+            .filter((listing): listing is CarListing => listing !== undefined),
+        [ids, listings],
+    );
+    const hasDataAccess = auth.status === 'logged_in' || isLocalMode;
+    const missingCount = hasDataAccess ? ids.length - compared.length : 0;
+
+    const rows = useMemo(() => buildComparisonRows(compared), [compared]);
+
+    const chartSeries = useMemo<PriceChartSeries[]>(() => compared.map(listing => ({
+        id: listing.id,
+        label: listing.title,
+        history: listing.priceHistory,
+        currency: listing.currency,
+    })), [compared]);
+
+    // Keep the URL in sync so the comparison stays addressable
+    const handleRemove = (listingId: string) => {
+        const next = ids.filter(id => id !== listingId);
+        setIds(next);
+        window.history.replaceState({}, '', buildComparisonUrl(next));
+    };
+
+    const formatValue = (row: ComparisonRow, value: ComparisonValue, listing: CarListing): string => {
+        if (value === null) return '—';
+        if (typeof value === 'boolean') return value ? t('dashboard:compare.yes') : t('dashboard:compare.no');
+
+        switch (row.key) {
+            case 'currentPrice':
+            case 'originalPrice':
+                return `${value.toLocaleString()} ${listing.currency}`;
+            case 'priceChange':
+                return `${Number(value) > 0 ? '+' : ''}${value}%`;
+            case 'status':
+                return t(`common:status.${String(value).toLowerCase()}`);
+            case 'mileage':
+                return `${value.toLocaleString()} km`;
+            case 'capacityCc':
+                return `${value.toLocaleString()} cm³`;
+            case 'powerHp':
+                return `${value} ${t('common:vehicle.hpUnit')}`;
+            case 'powerKw':
+                return `${value} kW`;
+            default:
+                return String(value);
+        }
+    };
+
+    if (auth.status === 'loading' || isLoading) {
+        return (
+            <div className="flex-1 bg-gray-50 min-h-screen flex items-center justify-center">
+                <div className="text-center">
+                    <Loader2 className="w-10 h-10 text-blue-600 animate-spin mx-auto mb-4"/>
+                    <p className="text-slate-500">{t('common:loading')}</p>
+                </div>
+            </div>
+        );
+    }
+
+    const visibleRows = onlyDifferences ? rows.filter(row => row.differs) : rows;
+
+    return (
+        <div className="flex-1 bg-gray-50 min-h-screen overflow-y-auto">
+            {/* Header - Full Width Dark */}
+            <header className="bg-slate-900 text-white px-6 py-4">
+                <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <GitCompareArrows className="w-8 h-8 text-blue-400"/>
+                        <div>
+                            <h1 className="text-xl font-bold">{t('dashboard:compare.title')}</h1>
+                            <p className="text-slate-400 text-sm">
+                                {t('dashboard:compare.subtitle', {count: compared.length})}
+                            </p>
+                        </div>
+                    </div>
+                    <a
+                        href="index.html?view=dashboard"
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-medium transition-colors"
+                    >
+                        <ArrowLeft className="w-4 h-4"/>
+                        {t('dashboard:compare.backToDashboard')}
+                    </a>
+                </div>
+            </header>
+
+            <div className="p-6 space-y-6">
+                {missingCount > 0 && (
+                    <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-4 py-2">
+                        {t('dashboard:compare.missing', {count: missingCount})}
+                    </p>
+                )}
+
+                {!hasDataAccess || compared.length < MIN_COMPARE_LISTINGS ? (
+                    <div
+                        className="flex flex-col items-center justify-center h-64 border-2 border-dashed border-gray-200 rounded-2xl bg-white/50">
+                        <Car className="w-12 h-12 text-gray-300 mb-4"/>
+                        <p className="text-gray-500 text-sm max-w-md text-center">
+                            {hasDataAccess
+                                ? t('dashboard:compare.notEnough', {min: MIN_COMPARE_LISTINGS})
+                                : t('auth:signIn.description')}
+                        </p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Aligned attribute table */}
+                        <section className="bg-white shadow-sm rounded-xl border border-gray-200 overflow-x-auto">
+                            <div className="flex items-center justify-end px-4 py-3 border-b border-gray-100">
+                                <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={onlyDifferences}
+                                        onChange={(e) => setOnlyDifferences(e.target.checked)}
+                                        className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                    />
+                                    {t('dashboard:compare.onlyDifferences')}
+                                </label>
+                            </div>
+                            <table className="w-full text-sm table-fixed">
+                                <thead>
+                                    <tr>
+                                        <th className="w-44 p-4"/>
+                                        {compared.map(listing => (
+                                            <th key={listing.id} className="p-4 text-left align-top font-normal">
+                                                <div className="relative">
+                                                    <button
+                                                        onClick={() => handleRemove(listing.id)}
+                                                        className="absolute top-1 right-1 p-1 bg-white/90 text-slate-500 hover:text-red-500 rounded-full shadow-sm"
+                                                        title={t('dashboard:compare.removeFromComparison')}
+                                                    >
+                                                        <X className="w-3.5 h-3.5"/>
+                                                    </button>
+                                                    <img
+                                                        src={listing.thumbnailUrl}
+                                                        alt={listing.title}
+                                                        className="w-full h-28 object-cover rounded-lg bg-gray-100"
+                                                    />
+                                                </div>
+                                                <a
+                                                    href={listing.source.url}
+                                                    target="_blank"
+                                                    rel="noreferrer"
+                                                    className="mt-2 flex items-start gap-1 font-semibold text-slate-900 hover:text-blue-600"
+                                                >
+                                                    <span className="line-clamp-2">{listing.title}</span>
+                                                    <ExternalLink className="w-3.5 h-3.5 flex-shrink-0 mt-0.5"/>
+                                                </a>
+                                                <p className="text-xs text-slate-500 mt-0.5">
+                                                    {getMarketplaceDisplayName(listing.source.platform)}
+                                                </p>
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {SECTIONS.map(section => {
+                                        const sectionRows = visibleRows.filter(row => row.section === section);
+                                        if (sectionRows.length === 0) return null;
+                                        return (
+                                            <Fragment key={section}>
+                                                <tr className="bg-slate-50">
+                                                    <th
+                                                        colSpan={compared.length + 1}
+                                                        className="px-4 py-2 text-left text-xs font-semibold uppercase text-slate-500"
+                                                    >
+                                                        {t(`dashboard:compare.sections.${section}`)}
+                                                    </th>
+                                                </tr>
+                                                {sectionRows.map(row => (
+                                                    <tr
+                                                        key={row.key}
+                                                        className={`border-t border-gray-100 ${row.differs ? 'bg-amber-50' : ''}`}
+                                                        data-differs={row.differs}
+                                                    >
+                                                        <th className="px-4 py-2 text-left font-medium text-slate-500">
+                                                            {t(`dashboard:compare.fields.${row.key}`)}
+                                                        </th>
+                                                        {row.values.map((value, index) => (
+                                                            <td
+                                                                key={compared[index].id}
+                                                                className={`px-4 py-2 break-words ${row.differs ? 'font-semibold text-slate-900' : 'text-slate-700'}`}
+                                                            >
+                                                                {formatValue(row, value, compared[index])}
+                                                            </td>
+                                                        ))}
+                                                    </tr>
+                                                ))}
+                                            </Fragment>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </section>
+
+                        {/* Overlaid price histories */}
+                        <section className="bg-white shadow-sm rounded-xl border border-gray-200 p-6">
+                            <h2 className="text-lg font-semibold text-slate-900 mb-4">
+                                {t('dashboard:compare.priceHistory')}
+                            </h2>
+                            <PriceChart series={chartSeries}/>
+                        </section>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ComparisonPage;
@@ -0,0 +1,232 @@
+/**
+ * Custom Marketplaces Section Component
+ *
+ * Settings section for adding marketplaces MotorScope does not know about.
+ * Each one gets its host access granted on add and released on remove.
+ * Marketplaces synced from another device have no access in this browser
+ * yet and offer to grant it.
+ */
+
+import React, {useEffect, useState} from 'react';
+import {useTranslation} from 'react-i18next';
+import {AlertCircle, Globe, KeyRound, Plus, Trash2} from 'lucide-react';
+import {useSettings} from '@/context/AppContext';
+import {
+    createCustomMarketplace,
+    CustomMarketplaceInput,
+    hasHostPermissions,
+    releaseHostPermissions,
+    requestHostPermissions,
+} from '@/services/settings';
+
+const EMPTY_FORM: CustomMarketplaceInput = {
+    name: '',
+    domains: '',
+    offerPagePatterns: '',
+    excludePatterns: '',
+    neverFetch: false,
+};
+
+const INPUT_CLASS = 'w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const CustomMarketplacesSection: React.FC = () => {
+    const {t} = useTranslation('settings');
+    const {settings, updateCustomMarketplaces} = useSettings();
+    const marketplaces = settings.customMarketplaces ?? [];
+
+    const [form, setForm] = useState<CustomMarketplaceInput>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // IDs of marketplaces this browser has no host access to
+    const [missingAccess, setMissingAccess] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        let cancelled = false;
+        const definitions = settings.customMarketplaces ?? [];
+        Promise.all(definitions.map(async m => (await hasHostPermissions(m.domains) ? null : m.id)))
+            .then(ids => {
+                if (!cancelled) {
+                    setMissingAccess(new Set(ids.filter((id): id is string => id !== null)));
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [settings.customMarketplaces]);
+
+    const updateForm = (patch: Partial<CustomMarketplaceInput>) => {
+        setForm(prev => ({...prev, ...patch}));
+    };
+
+    const handleAdd = async () => {
+        const result = createCustomMarketplace(form);
+        if (result.error) {
+            setError(t(result.error));
+            return;
+        }
+
+        setError(null);
+        setSaving(true);
+        try {
+            // Requested straight from the click - Chrome rejects it outside a user gesture
+            const granted = await requestHostPermissions(result.marketplace.domains);
+            if (!granted) {
+                setError(t('customMarketplaces.permissionDenied'));
+                return;
+            }
+            await updateCustomMarketplaces([...marketplaces, result.marketplace]);
+            setForm(EMPTY_FORM);
+        } catch {
+            setError(t('customMarketplaces.saveFailed'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleGrantAccess = async (id: string) => {
+        const marketplace = marketplaces.find(m => m.id === id);
+        if (!marketplace) return;
+        // Requested straight from the click - Chrome rejects it outside a user gesture
+        if (await requestHostPermissions(marketplace.domains)) {
+            setError(null);
+            setMissingAccess(prev => new Set([...prev].filter(missingId => missingId !== id)));
+        } else {
+            setError(t('customMarketplaces.accessDenied'));
+        }
+    };
+
+    const handleRemove = async (id: string) => {
+        const removed = marketplaces.find(m => m.id === id);
+        if (!removed) return;
+        try {
+            await updateCustomMarketplaces(marketplaces.filter(m => m.id !== id));
+            await releaseHostPermissions(removed.domains);
+        } catch {
+            setError(t('customMarketplaces.saveFailed'));
+        }
+    };
+
+    return (
+        <section className="bg-white shadow-sm rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center gap-2 mb-1">
+                <Globe className="w-5 h-5 text-slate-500"/>
+                <h2 className="text-lg font-semibold text-slate-900">{t('customMarketplaces.title')}</h2>
+            </div>
+            <p className="text-sm text-slate-500 mb-4">{t('customMarketplaces.description')}</p>
+
+            {marketplaces.length > 0 && (
+                <ul className="mb-4 divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {marketplaces.map(marketplace => (
+                        <li key={marketplace.id} className="flex items-center justify-between gap-3 px-4 py-3">
+                            <div className="min-w-0">
+                                <p className="text-sm font-medium text-slate-900">{marketplace.name}</p>
+                                <p className="text-xs text-slate-500 truncate">
+                                    {marketplace.domains.join(', ')}
+                                    {marketplace.neverFetch && ` · ${t('customMarketplaces.neverFetchBadge')}`}
+                                </p>
+                                {missingAccess.has(marketplace.id) && (
+                                    <p className="text-xs text-amber-700 mt-0.5">{t('customMarketplaces.accessMissing')}</p>
+                                )}
+                            </div>
+                            {missingAccess.has(marketplace.id) && (
+                                <button
+                                    type="button"
+                                    onClick={() => handleGrantAccess(marketplace.id)}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition-colors whitespace-nowrap"
+                                >
+                                    <KeyRound className="w-4 h-4"/>
+                                    {t('customMarketplaces.grantAccess')}
+                                </button>
+                            )}
+                            <button
+                                type="button"
+                                onClick={() => handleRemove(marketplace.id)}
+                                aria-label={t('customMarketplaces.remove', {name: marketplace.name})}
+                                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            >
+                                <Trash2 className="w-4 h-4"/>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="space-y-3">
+                <input
+                    type="text"
+                    aria-label={t('customMarketplaces.name')}
+                    placeholder={t('customMarketplaces.name')}
+                    value={form.name}
+                    onChange={(e) => updateForm({name: e.target.value})}
+                    className={INPUT_CLASS}
+                />
+                <div>
+                    <textarea
+                        aria-label={t('customMarketplaces.domains')}
+                        placeholder={t('customMarketplaces.domainsPlaceholder')}
+                        value={form.domains}
+                        onChange={(e) => updateForm({domains: e.target.value})}
+                        rows={2}
+                        className={`${INPUT_CLASS} font-mono`}
+                    />
+                    <p className="text-xs text-slate-400 mt-1">{t('customMarketplaces.domainsHint')}</p>
+                </div>
+                <div>
+                    <textarea
+                        aria-label={t('customMarketplaces.offerPatterns')}
+                        placeholder={t('customMarketplaces.offerPatternsPlaceholder')}
+                        value={form.offerPagePatterns}
+                        onChange={(e) => updateForm({offerPagePatterns: e.target.value})}
+                        rows={2}
+                        className={`${INPUT_CLASS} font-mono`}
+                    />
+                    <p className="text-xs text-slate-400 mt-1">{t('customMarketplaces.offerPatternsHint')}</p>
+                </div>
+                <div>
+                    <textarea
+                        aria-label={t('customMarketplaces.excludePatterns')}
+                        placeholder={t('customMarketplaces.excludePatternsPlaceholder')}
+                        value={form.excludePatterns}
+                        onChange={(e) => updateForm({excludePatterns: e.target.value})}
+                        rows={2}
+                        className={`${INPUT_CLASS} font-mono`}
+                    />
+                    <p className="text-xs text-slate-400 mt-1">{t('customMarketplaces.excludePatternsHint')}</p>
+                </div>
+                <div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={form.neverFetch}
+                            onChange={(e) => updateForm({neverFetch: e.target.checked})}
+                            className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        {t('customMarketplaces.neverFetch')}
+                    </label>
+                    <p className="text-xs text-slate-400 mt-1">{t('customMarketplaces.neverFetchHint')}</p>
+                </div>
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    disabled={saving}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Plus className="w-4 h-4"/>
+                    {t('customMarketplaces.add')}
+                </button>
+            </div>
+
+            {error && (
+                <div
+                    className="mt-3 p-3 rounded-lg text-sm flex items-center gap-2 bg-red-50 border border-red-200 text-red-700"
+                    role="alert"
+                >
+                    <AlertCircle className="w-4 h-4 flex-shrink-0"/>
+                    <span>{error}</span>
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default CustomMarketplacesSection;
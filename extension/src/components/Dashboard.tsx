@@ -1,11 +1,13 @@
 import React, {useCallback, useEffect, useMemo, useRef, useState} from 'react';
 import {useTranslation} from 'react-i18next';
-import {CarListing} from '@/types';
-import {useListings, useSettings} from '@/context/AppContext';
+import {AlertRule, CarListing, SavedSearch, SearchMatch} from '@/types';
+import {useListings, useLocalMode, useSettings} from '@/context/AppContext';
 import {useAuth} from '@/auth/AuthContext';
 import CarCard from '@/components/CarCard';
 import CarCardCompact from '@/components/CarCardCompact';
 import ListingDetailModal from '@/components/ListingDetailModal';
+import SearchInbox from '@/components/SearchInbox';
+import ExportMenu from '@/components/ExportMenu';
 import DashboardFilters, {
     DEFAULT_FILTERS,
     DEFAULT_SORT,
@@ -13,29 +15,41 @@ import DashboardFilters, {
     MakeModelOption,
     SortOption,
 } from '@/components/DashboardFilters';
-import {GoogleLogo, UserMenu} from '@/components/ui';
-import {Car, ExternalLink, LayoutGrid, List, Loader2, Search, Settings} from 'lucide-react';
+import {GoogleLogo, LocalModeBadge, UserMenu} from '@/components/ui';
+import {Car, ExternalLink, GitCompareArrows, LayoutGrid, List, Loader2, Search, Settings, X} from 'lucide-react';
 import {getEnabledMarketplaces, getMarketplaceDisplayName} from '@/config/marketplaces';
 import {patchRemoteSettings} from '@/api/client';
+import {patchLocalSettings} from '@/services/localData';
+import {useSavedSearches} from '@/hooks/useSavedSearches';
+import {parseCarDataWithGemini} from '@/services/gemini';
+import {fetchListingPage} from '@/services/refresh';
+import {DEFAULT_ALERT_RULES} from '@/services/alerts';
+import {estimateMarketValues} from '@/services/valuation';
+import {buildComparisonUrl, MAX_COMPARE_LISTINGS, MIN_COMPARE_LISTINGS} from '@/services/comparison';
+import {uploadListingThumbnail} from '@/utils/imageUpload';
+import {normalizeUrl} from '@/utils/formatters';
 
 export type ViewMode = 'grid' | 'compact';
 
 
 const Dashboard: React.FC = () => {
     const {t} = useTranslation(['dashboard', 'common', 'auth', 'errors', 'settings']);
-    const {listings, isLoading, refreshingIds, recentlyRefreshedIds, remove, refresh, update} = useListings();
-    const {settings, isLoading: settingsLoading} = useSettings();
+    const {listings, isLoading, refreshingIds, recentlyRefreshedIds, add, remove, refresh, update} = useListings();
+    const {settings, isLoading: settingsLoading, updateAlertRules} = useSettings();
     const auth = useAuth();
+    const {isLocalMode, setLocalMode} = useLocalMode();
     const [searchTerm, setSearchTerm] = useState('');
     const [viewMode, setViewMode] = useState<ViewMode>('grid');
     const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
     const [sortBy, setSortBy] = useState<SortOption>(DEFAULT_SORT);
     const [prefsLoaded, setPrefsLoaded] = useState(false);
     const [selectedListing, setSelectedListing] = useState<CarListing | null>(null);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
     const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
     const isLoggedIn = auth.status === 'logged_in';
     const isAuthLoading = auth.status === 'loading';
+    const savedSearches = useSavedSearches(isLoggedIn);
 
     // Check URL for listing ID to auto-open detail modal
     useEffect(() => {
@@ -57,18 +71,11 @@ const Dashboard: React.FC = () => {
         // Handle listing by URL (from content script)
         const openListingUrl = params.get('openListing');
         if (openListingUrl && listings.length > 0 && !isLoading) {
-            // Normalize URL for comparison
-            const normalizeUrl = (url: string): string => {
-                try {
-                    const parsed = new URL(url);
-                    return `${parsed.origin}${parsed.pathname}`.replace(/\/$/, '');
-                } catch {
-                    return url.replace(/\/$/, '');
-                }
-            };
+            // Normalize URL for comparison (content scripts also strip trailing slashes)
+            const normalize = (url: string): string => normalizeUrl(url).replace(/\/$/, '');
 
-            const normalizedTarget = normalizeUrl(openListingUrl);
-            const listing = listings.find(l => normalizeUrl(l.source.url) === normalizedTarget);
+            const normalizedTarget = normalize(openListingUrl);
+            const listing = listings.find(l => normalize(l.source.url) === normalizedTarget);
             if (listing) {
                 setSelectedListing(listing);
                 // Remove the param from URL without reload
@@ -102,7 +109,7 @@ const Dashboard: React.FC = () => {
         newSortBy: SortOption,
         newViewMode: ViewMode,
     ) => {
-        if (!isLoggedIn) return;
+        if (!isLoggedIn && !isLocalMode) return;
 
         // Debounce save to avoid too many API calls
         if (saveTimeoutRef.current) {
@@ -111,7 +118,7 @@ const Dashboard: React.FC = () => {
 
         saveTimeoutRef.current = setTimeout(async () => {
             try {
-                await patchRemoteSettings({
+                await (isLocalMode ? patchLocalSettings : patchRemoteSettings)({
                     dashboardFilters: {
                         status: newFilters.status,
                         archived: newFilters.archived,
@@ -126,7 +133,7 @@ const Dashboard: React.FC = () => {
                 console.warn('[Dashboard] Failed to save preferences:', err);
             }
         }, 1000); // 1 second debounce
-    }, [isLoggedIn]);
+    }, [isLoggedIn, isLocalMode]);
 
     // Handle filter changes with auto-save
     const handleFiltersChange = useCallback((newFilters: FilterState) => {
@@ -175,6 +182,18 @@ const Dashboard: React.FC = () => {
         await update(updatedListing);
     }, [update]);
 
+    // Add or remove a listing from the comparison set
+    const handleToggleCompare = useCallback((listing: CarListing) => {
+        setCompareIds(prev => {
+            // Drop listings that were removed since they were selected
+            const current = prev.filter(id => listings.some(l => l.id === id));
+            if (current.includes(listing.id)) {
+                return current.filter(id => id !== listing.id);
+            }
+            return current.length < MAX_COMPARE_LISTINGS ? [...current, listing.id] : current;
+        });
+    }, [listings]);
+
     // Show details handler
     const handleShowDetails = useCallback((listing: CarListing) => {
         setSelectedListing(listing);
@@ -185,6 +204,48 @@ const Dashboard: React.FC = () => {
         setSelectedListing(null);
     }, []);
 
+    // Save or clear the selected listing's own alert rule
+    const handleSaveAlertRule = useCallback(async (rule: AlertRule | null) => {
+        if (!selectedListing) return;
+
+        const current = settings.alertRules ?? DEFAULT_ALERT_RULES;
+        const {[selectedListing.id]: _previous, ...otherRules} = current.listings;
+        await updateAlertRules({
+            ...current,
+            listings: rule ? {...otherRules, [selectedListing.id]: rule} : otherRules,
+        });
+    }, [selectedListing, settings.alertRules, updateAlertRules]);
+
+    // Save the user's corrections of the selected listing (edited fields are locked)
+    const handleSaveListing = useCallback(async (listing: CarListing) => {
+        await update(listing);
+        setSelectedListing(listing);
+    }, [update]);
+
+    // Track a saved search match - same parse path as adding a listing from the popup
+    const handleTrackMatch = useCallback(async (search: SavedSearch, match: SearchMatch) => {
+        const page = await fetchListingPage(match.url);
+        if (page.expired || !page.textContent) {
+            throw new Error(t('dashboard:searchInbox.pageUnavailable'));
+        }
+
+        const listingData = await parseCarDataWithGemini(
+            match.url,
+            page.textContent,
+            page.pageTitle || match.title,
+            match.imageUrl,
+            page.html,
+        );
+        await add(await uploadListingThumbnail(listingData as CarListing));
+        await savedSearches.dismissMatch(search.id, match.id);
+    }, [add, savedSearches.dismissMatch, t]);
+
+    const handleRemoveSearch = useCallback(async (searchId: string) => {
+        if (confirm(t('dashboard:searchInbox.confirmRemove'))) {
+            await savedSearches.remove(searchId);
+        }
+    }, [savedSearches.remove, t]);
+
     // Get available makes and models for filter dropdowns
     const availableMakeModels = useMemo((): MakeModelOption[] => {
         const makeModelMap = new Map<string, Set<string>>();
@@ -239,6 +300,14 @@ const Dashboard: React.FC = () => {
         handleFiltersChange(DEFAULT_FILTERS);
     }, [handleFiltersChange]);
 
+    // Fair price estimates use every tracked listing, including archived and ended ones
+    const marketValues = useMemo(() => estimateMarketValues(listings), [listings]);
+
+    const activeCompareIds = useMemo(
+        () => compareIds.filter(id => listings.some(l => l.id === id)),
+        [compareIds, listings],
+    );
+
     // Memoize filtered and sorted listings
     const filteredAndSortedListings = useMemo(() => {
         let result = [...listings];
@@ -320,8 +389,8 @@ const Dashboard: React.FC = () => {
         );
     }
 
-    // Login required state
-    if (!isLoggedIn) {
+    // Login required state (unless using local-only mode)
+    if (!isLoggedIn && !isLocalMode) {
         return (
             <div className="flex-1 bg-gray-50 min-h-screen flex items-center justify-center">
                 <div className="text-center max-w-md px-6">
@@ -344,6 +413,14 @@ const Dashboard: React.FC = () => {
                         )}
                         <span>{t('auth:signIn.button')}</span>
                     </button>
+                    <button
+                        onClick={() => setLocalMode(true)}
+                        disabled={auth.isLoggingIn}
+                        className="block mx-auto mt-4 text-sm text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                        {t('auth:localMode.button')}
+                    </button>
+                    <p className="text-slate-400 text-xs mt-1">{t('auth:localMode.hint')}</p>
                     {auth.error && (
                         <p className="text-red-500 text-sm mt-4">{auth.error}</p>
                     )}
@@ -414,12 +491,19 @@ const Dashboard: React.FC = () => {
                             </button>
                         </div>
 
+                        {/* Export the filtered listings */}
+                        <ExportMenu listings={filteredAndSortedListings}/>
+
                         {/* User Menu */}
-                        <UserMenu
-                            userEmail={auth.user?.email || ''}
-                            onLogout={handleLogout}
-                            variant="dark"
-                        />
+                        {isLocalMode ? (
+                            <LocalModeBadge onLogin={handleLogin} isLoggingIn={auth.isLoggingIn}/>
+                        ) : (
+                            <UserMenu
+                                userEmail={auth.user?.email || ''}
+                                onLogout={handleLogout}
+                                variant="dark"
+                            />
+                        )}
 
                         <a
                             href="index.html?view=settings"
@@ -434,6 +518,16 @@ const Dashboard: React.FC = () => {
 
             {/* Content */}
             <div className="p-6">
+                {/* New listings from saved searches */}
+                <SearchInbox
+                    searches={savedSearches.searches}
+                    isChecking={savedSearches.isChecking}
+                    onCheckNow={savedSearches.checkNow}
+                    onTrack={handleTrackMatch}
+                    onDismiss={savedSearches.dismissMatch}
+                    onRemoveSearch={handleRemoveSearch}
+                />
+
                 {listings.length === 0 ? (
                     <div
                         className="flex flex-col items-center justify-center h-64 border-2 border-dashed border-gray-200 rounded-2xl bg-white/50">
@@ -505,6 +599,10 @@ const Dashboard: React.FC = () => {
                                         onShowDetails={handleShowDetails}
                                         isRefreshing={refreshingIds.has(listing.id)}
                                         justRefreshed={recentlyRefreshedIds.has(listing.id)}
+                                        marketValue={marketValues[listing.id]}
+                                        isComparing={activeCompareIds.includes(listing.id)}
+                                        compareDisabled={activeCompareIds.length >= MAX_COMPARE_LISTINGS}
+                                        onToggleCompare={handleToggleCompare}
                                     />
                                 ))}
                             </div>
@@ -520,6 +618,10 @@ const Dashboard: React.FC = () => {
                                         onShowDetails={handleShowDetails}
                                         isRefreshing={refreshingIds.has(listing.id)}
                                         justRefreshed={recentlyRefreshedIds.has(listing.id)}
+                                        marketValue={marketValues[listing.id]}
+                                        isComparing={activeCompareIds.includes(listing.id)}
+                                        compareDisabled={activeCompareIds.length >= MAX_COMPARE_LISTINGS}
+                                        onToggleCompare={handleToggleCompare}
                                     />
                                 ))}
                             </div>
@@ -528,11 +630,48 @@ const Dashboard: React.FC = () => {
                 )}
             </div>
 
+            {/* Comparison selection bar */}
+            {activeCompareIds.length > 0 && (
+                <div
+                    className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 bg-slate-900 text-white rounded-xl shadow-lg px-5 py-3">
+                    <GitCompareArrows className="w-5 h-5 text-blue-400"/>
+                    <span className="text-sm">
+                        {t('dashboard:compare.selected', {
+                            count: activeCompareIds.length,
+                            max: MAX_COMPARE_LISTINGS,
+                        })}
+                    </span>
+                    {activeCompareIds.length >= MIN_COMPARE_LISTINGS ? (
+                        <a
+                            href={buildComparisonUrl(activeCompareIds)}
+                            className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors"
+                        >
+                            {t('dashboard:compare.open')}
+                        </a>
+                    ) : (
+                        <span className="text-xs text-slate-400">
+                            {t('dashboard:compare.selectMore', {min: MIN_COMPARE_LISTINGS})}
+                        </span>
+                    )}
+                    <button
+                        onClick={() => setCompareIds([])}
+                        className="p-1 text-slate-400 hover:text-white rounded transition-colors"
+                        title={t('dashboard:compare.clear')}
+                    >
+                        <X className="w-4 h-4"/>
+                    </button>
+                </div>
+            )}
+
             {/* Detail Modal */}
             {selectedListing && (
                 <ListingDetailModal
                     listing={selectedListing}
                     onClose={handleCloseDetails}
+                    alertRule={settings.alertRules?.listings[selectedListing.id] ?? null}
+                    onSaveAlertRule={isLoggedIn || isLocalMode ? handleSaveAlertRule : undefined}
+                    marketValue={marketValues[selectedListing.id]}
+                    onSaveListing={isLoggedIn || isLocalMode ? handleSaveListing : undefined}
                 />
             )}
         </div>
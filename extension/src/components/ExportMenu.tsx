@@ -0,0 +1,94 @@
+/**
+ * Export Menu Component
+ *
+ * Dashboard dropdown that downloads the currently filtered listings as
+ * CSV, JSON or XLSX, with either the latest price or the full price history.
+ */
+
+import React, {useEffect, useRef, useState} from 'react';
+import {useTranslation} from 'react-i18next';
+import {ChevronDown, Download} from 'lucide-react';
+import {CarListing} from '@/types';
+import {createListingsExport, downloadExportFile, EXPORT_FORMATS, ExportFormat} from '@/services/export';
+
+interface ExportMenuProps {
+    /** Listings to export (already filtered and sorted) */
+    listings: CarListing[];
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({listings}) => {
+    const {t} = useTranslation('dashboard');
+    const [isOpen, setIsOpen] = useState(false);
+    const [includeHistory, setIncludeHistory] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const handleExport = (format: ExportFormat) => {
+        downloadExportFile(createListingsExport(listings, format, includeHistory ? 'history' : 'latest'));
+        setIsOpen(false);
+    };
+
+    return (
+        <div
+            className="relative"
+            ref={menuRef}
+            onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+        >
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                disabled={listings.length === 0}
+                className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+                aria-expanded={isOpen}
+                aria-haspopup="true"
+            >
+                <Download className="w-4 h-4"/>
+                {t('export.button')}
+                <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`}/>
+            </button>
+
+            {isOpen && (
+                <div
+                    className="absolute right-0 mt-2 w-64 rounded-lg border border-slate-700 bg-slate-800 shadow-lg z-50 py-1"
+                    role="menu"
+                    aria-orientation="vertical"
+                >
+                    <div className="px-3 py-2 border-b border-slate-600/50">
+                        <p className="text-xs text-slate-400">{t('export.description', {count: listings.length})}</p>
+                        <label className="flex items-center gap-2 mt-2 text-xs text-slate-200 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={includeHistory}
+                                onChange={(e) => setIncludeHistory(e.target.checked)}
+                                className="w-3.5 h-3.5 rounded border-slate-500 text-blue-600 focus:ring-blue-500"
+                            />
+                            {t('export.includeHistory')}
+                        </label>
+                    </div>
+
+                    {EXPORT_FORMATS.map((format) => (
+                        <button
+                            key={format}
+                            onClick={() => handleExport(format)}
+                            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
+                            role="menuitem"
+                        >
+                            {t(`export.formats.${format}`)}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
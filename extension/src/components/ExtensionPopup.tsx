@@ -15,16 +15,26 @@ import {useTranslation} from 'react-i18next';
 import {AlertCircle, Loader2, X} from 'lucide-react';
 
 // Hooks
-import {useListings, useSettings} from '@/context/AppContext';
+import {useListings, useLocalMode, useSettings} from '@/context/AppContext';
 import {useAuth} from '@/auth/AuthContext';
-import {useCurrentTab, useExtensionNavigation, usePageContent} from '@/hooks';
+import {useCurrentTab, useExtensionNavigation, usePageContent, useSavedSearches} from '@/hooks';
 
 // Services
+import {hasConfiguredLlmProvider} from '@/api/client';
 import {parseCarDataWithGemini} from '@/services/gemini';
+import {isWatchableSearchUrl} from '@/services/searches';
 
 // Components
 import {LoadingSpinner} from '@/components/ui/LoadingSpinner';
-import {AnalyzePrompt, LoginView, NoListingView, PopupHeader, PreviewCard, SavedItemView} from '@/components/popup';
+import {
+    AnalyzePrompt,
+    LoginView,
+    NoListingView,
+    PopupHeader,
+    PreviewCard,
+    SavedItemView,
+    WatchSearchPrompt,
+} from '@/components/popup';
 
 // Config & Utils
 import {
@@ -43,11 +53,12 @@ import {CarListing} from '@/types';
  * Main popup component
  */
 const ExtensionPopup: React.FC = () => {
-    const {t} = useTranslation(['popup', 'common', 'errors']);
+    const {t} = useTranslation(['popup', 'common', 'errors', 'auth']);
 
     // Context hooks
     const {listings, add, remove, error: listingsError, clearError} = useListings();
     const {settings, isLoading: settingsLoading, reload: reloadSettings} = useSettings();
+    const {isLocalMode, setLocalMode} = useLocalMode();
     const auth = useAuth();
 
     // Custom hooks
@@ -61,6 +72,8 @@ const ExtensionPopup: React.FC = () => {
     const [previewData, setPreviewData] = useState<CarListing | null>(null);
     const [showVinWarning, setShowVinWarning] = useState(false);
     const [showDateWarning, setShowDateWarning] = useState(false);
+    const [isSavingSearch, setIsSavingSearch] = useState(false);
+    const [watchSearchFailed, setWatchSearchFailed] = useState(false);
 
     // Derived state
     const currentUrl = tab?.url || '';
@@ -68,14 +81,21 @@ const ExtensionPopup: React.FC = () => {
     const isAuthLoading = auth.status === 'loading' || auth.isLoggingIn;
     const displayError = error || listingsError || auth.error;
 
-    // API key check - assume available while loading to prevent flash
-    const hasApiKey = settingsLoading || !!settings.geminiApiKey;
+    // API key check (not needed for OpenAI-compatible servers) - assume available while loading to prevent flash
+    const hasApiKey = settingsLoading || hasConfiguredLlmProvider(settings);
 
     // Check if current URL is a trackable offer page
-    const isOfferPage = useMemo(() => isTrackableOfferPage(currentUrl), [currentUrl]);
-    const isOnMarketplace = useMemo(() => isSupportedMarketplace(currentUrl), [currentUrl]);
-    const detectedMarketplace = useMemo(() => getMarketplaceForUrl(currentUrl), [currentUrl]);
-    const enabledMarketplaces = useMemo(() => getEnabledMarketplaces(), []);
+    // Custom marketplaces are registered when settings load, so detection re-runs with them
+    const {customMarketplaces} = settings;
+    const isOfferPage = useMemo(() => isTrackableOfferPage(currentUrl), [currentUrl, customMarketplaces]);
+    const isOnMarketplace = useMemo(() => isSupportedMarketplace(currentUrl), [currentUrl, customMarketplaces]);
+    const detectedMarketplace = useMemo(() => getMarketplaceForUrl(currentUrl), [currentUrl, customMarketplaces]);
+    const enabledMarketplaces = useMemo(() => getEnabledMarketplaces(), [customMarketplaces]);
+    const canWatchSearch = useMemo(() => isWatchableSearchUrl(currentUrl), [currentUrl]);
+
+    // Saved searches are only needed when the current page can be watched
+    const savedSearches = useSavedSearches(isLoggedIn && canWatchSearch);
+    const isSearchWatched = savedSearches.searches.some((search) => search.url === currentUrl);
 
     // Find existing saved item based on URL
     // normalizeUrl handles Facebook-specific cleaning internally
@@ -108,6 +128,20 @@ const ExtensionPopup: React.FC = () => {
         await auth.logout();
     }, [auth]);
 
+    // Watch the current search page
+    const handleWatchSearch = useCallback(async () => {
+        setIsSavingSearch(true);
+        setWatchSearchFailed(false);
+        try {
+            await savedSearches.watch(currentUrl, tab?.title, tab?.id);
+        } catch (err) {
+            console.error('Failed to watch search:', err);
+            setWatchSearchFailed(true);
+        } finally {
+            setIsSavingSearch(false);
+        }
+    }, [savedSearches, currentUrl, tab]);
+
     // Analyze handler
     const handleAnalyze = useCallback(async () => {
         setLoading(true);
@@ -128,6 +162,7 @@ const ExtensionPopup: React.FC = () => {
                 contentToAnalyze.content,
                 contentToAnalyze.title,
                 contentToAnalyze.image,
+                contentToAnalyze.html,
             );
 
             setPreviewData(listingData as CarListing);
@@ -179,9 +214,16 @@ const ExtensionPopup: React.FC = () => {
             return <LoadingSpinner message={t('common:loading')} className="py-8"/>;
         }
 
-        // Not logged in
-        if (!isLoggedIn) {
-            return <LoginView onLogin={handleLogin} isLoading={isAuthLoading} error={auth.error}/>;
+        // Not logged in (and not using local-only mode)
+        if (!isLoggedIn && !isLocalMode) {
+            return (
+                <LoginView
+                    onLogin={handleLogin}
+                    isLoading={isAuthLoading}
+                    error={auth.error}
+                    onUseLocally={() => setLocalMode(true)}
+                />
+            );
         }
 
         // Preview mode
@@ -200,11 +242,23 @@ const ExtensionPopup: React.FC = () => {
         // Not on a trackable page and no saved item
         if (!isOfferPage && !savedItem) {
             return (
-                <NoListingView
-                    isOnMarketplace={isOnMarketplace}
-                    detectedMarketplace={detectedMarketplace}
-                    enabledMarketplaces={enabledMarketplaces}
-                />
+                <>
+                    <NoListingView
+                        isOnMarketplace={isOnMarketplace}
+                        detectedMarketplace={detectedMarketplace}
+                        enabledMarketplaces={enabledMarketplaces}
+                    />
+                    {canWatchSearch && (
+                        <div className="w-full mt-4">
+                            <WatchSearchPrompt
+                                isWatched={isSearchWatched}
+                                isSaving={isSavingSearch}
+                                hasError={watchSearchFailed}
+                                onWatch={handleWatchSearch}
+                            />
+                        </div>
+                    )}
+                </>
             );
         }
 
@@ -285,6 +339,14 @@ const ExtensionPopup: React.FC = () => {
             ☁️ {t('popup:footer.cloudSync')}
                     </span>
                 )}
+                {isLocalMode && (
+                    <span
+                        className="text-[10px] text-amber-600 font-medium whitespace-nowrap"
+                        title={t('auth:localMode.badgeTooltip')}
+                    >
+                        💾 {t('auth:localMode.badge')}
+                    </span>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,102 @@
+import React, {useMemo, useState} from 'react';
+import {Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis} from 'recharts';
+import {useTranslation} from 'react-i18next';
+import {GeminiStats} from '@/types';
+import {getDailyUsageSeries, getMonthlyUsageSeries, UsagePoint} from '@/services/settings/geminiUsage';
+import {formatUsd} from '@/utils/formatters';
+
+/** Bars shown in each view */
+const DAILY_POINTS = 30;
+const MONTHLY_POINTS = 12;
+
+type UsageView = 'daily' | 'monthly';
+
+interface GeminiUsageChartProps {
+    stats: GeminiStats;
+}
+
+/**
+ * Estimated LLM cost per day or month, with calls and tokens in the tooltip
+ */
+const GeminiUsageChart: React.FC<GeminiUsageChartProps> = ({stats}) => {
+    const {t} = useTranslation('settings');
+    const [view, setView] = useState<UsageView>('daily');
+
+    const data = useMemo<UsagePoint[]>(
+        () => view === 'daily'
+            ? getDailyUsageSeries(stats, DAILY_POINTS)
+            : getMonthlyUsageSeries(stats, MONTHLY_POINTS),
+        [stats, view],
+    );
+    const currentMonth = useMemo(() => getMonthlyUsageSeries(stats, 1)[0], [stats]);
+
+    if (Object.keys(stats.dailyUsage ?? {}).length === 0) {
+        return <p className="text-sm text-slate-400 mb-4">{t('geminiStats.usage.empty')}</p>;
+    }
+
+    return (
+        <div className="mb-6">
+            <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-slate-600" title={t('geminiStats.usage.estimateHint')}>
+                    {t('geminiStats.usage.thisMonth', {
+                        cost: formatUsd(currentMonth.costUsd),
+                        tokens: (currentMonth.promptTokens + currentMonth.responseTokens).toLocaleString(),
+                    })}
+                </p>
+                <div className="flex gap-2">
+                    {(['daily', 'monthly'] as const).map(option => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => setView(option)}
+                            className={`px-3 py-1 text-xs rounded-full transition-colors ${
+                                view === option
+                                    ? 'bg-purple-100 text-purple-700'
+                                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                            }`}
+                        >
+                            {t(`geminiStats.usage.${option}`)}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="h-48 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={data} margin={{top: 5, right: 20, bottom: 5, left: 0}}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false}/>
+                        <XAxis
+                            dataKey="period"
+                            tick={{fontSize: 10, fill: '#64748b'}}
+                            axisLine={false}
+                            tickLine={false}
+                            tickFormatter={(period: string) => view === 'daily' ? period.slice(5) : period}
+                        />
+                        <YAxis
+                            tick={{fontSize: 10, fill: '#64748b'}}
+                            axisLine={false}
+                            tickLine={false}
+                            tickFormatter={(value: number) => formatUsd(value)}
+                        />
+                        <Tooltip
+                            contentStyle={{
+                                borderRadius: '8px',
+                                border: 'none',
+                                boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)',
+                            }}
+                            formatter={(value: number, _name: string, item: { payload?: UsagePoint }) => {
+                                const point = item.payload;
+                                const details = point
+                                    ? ` · ${t('geminiStats.usage.calls')}: ${point.calls} · ${t('geminiStats.usage.tokens')}: ${(point.promptTokens + point.responseTokens).toLocaleString()}`
+                                    : '';
+                                return [`${formatUsd(value)}${details}`, t('geminiStats.usage.cost')];
+                            }}
+                        />
+                        <Bar dataKey="costUsd" fill="#a855f7" radius={[4, 4, 0, 0]}/>
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+export default GeminiUsageChart;
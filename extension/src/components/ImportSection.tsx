@@ -0,0 +1,248 @@
+/**
+ * Import Section Component
+ *
+ * Settings section for bulk importing listings, either from a JSON file
+ * (e.g. an export from another account or backend server) or from a
+ * pasted list of listing URLs parsed one by one with Gemini.
+ */
+
+import React, {useEffect, useRef, useState} from 'react';
+import {useTranslation} from 'react-i18next';
+import {AlertCircle, CheckCircle, FileJson, Link, Loader2, Play, Square, Upload} from 'lucide-react';
+import {useListings} from '@/context/AppContext';
+import {
+    importListingFromUrl,
+    ListingImportError,
+    parseListingsFile,
+    parseUrlList,
+    runUrlImport,
+    UrlImportProgress,
+} from '@/services/import';
+import {formatEuropeanDateTimeWithSeconds} from '@/utils/formatters';
+
+interface ImportMessage {
+    type: 'success' | 'error';
+    text: string;
+    details?: string[];
+}
+
+const MessageBox: React.FC<{ message: ImportMessage }> = ({message}) => (
+    <div
+        className={`mt-3 p-3 rounded-lg text-sm ${message.type === 'success'
+            ? 'bg-green-50 border border-green-200 text-green-700'
+            : 'bg-red-50 border border-red-200 text-red-700'}`}
+        role={message.type === 'error' ? 'alert' : 'status'}
+    >
+        <div className="flex items-center gap-2">
+            {message.type === 'success'
+                ? <CheckCircle className="w-4 h-4 flex-shrink-0"/>
+                : <AlertCircle className="w-4 h-4 flex-shrink-0"/>}
+            <span>{message.text}</span>
+        </div>
+        {message.details && message.details.length > 0 && (
+            <ul className="mt-2 ml-6 list-disc text-xs space-y-0.5 break-all">
+                {message.details.map((detail) => <li key={detail}>{detail}</li>)}
+            </ul>
+        )}
+    </div>
+);
+
+const ImportSection: React.FC = () => {
+    const {t} = useTranslation('settings');
+    const {listings, add, importListings} = useListings();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const [fileImporting, setFileImporting] = useState(false);
+    const [fileMessage, setFileMessage] = useState<ImportMessage | null>(null);
+    const [urlText, setUrlText] = useState('');
+    const [urlProgress, setUrlProgress] = useState<UrlImportProgress | null>(null);
+    const [urlRunning, setUrlRunning] = useState(false);
+    const [urlMessage, setUrlMessage] = useState<ImportMessage | null>(null);
+
+    // Stop a running URL import when leaving the page
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setFileImporting(true);
+        setFileMessage(null);
+        try {
+            const imported = parseListingsFile(await file.text());
+            const {added, updated} = await importListings(imported);
+            setFileMessage({type: 'success', text: t('import.file.success', {added, updated})});
+        } catch (err) {
+            setFileMessage({
+                type: 'error',
+                text: err instanceof ListingImportError
+                    ? t('import.file.invalid', {error: err.message})
+                    : t('import.file.failed'),
+                details: err instanceof ListingImportError ? err.details : undefined,
+            });
+        } finally {
+            setFileImporting(false);
+        }
+    };
+
+    const handleStartUrlImport = async () => {
+        const parsed = parseUrlList(urlText, listings.map((listing) => listing.source.url));
+        const skippedDetails = [
+            ...parsed.alreadyTracked.map((url) => t('import.urls.alreadyTracked', {url})),
+            ...parsed.invalid.map((entry) => t('import.urls.invalidEntry', {entry})),
+        ];
+
+        if (parsed.urls.length === 0) {
+            setUrlMessage({type: 'error', text: t('import.urls.nothingToImport'), details: skippedDetails});
+            return;
+        }
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setUrlRunning(true);
+        setUrlMessage(null);
+
+        const result = await runUrlImport(
+            parsed.urls,
+            async (url) => add(await importListingFromUrl(url)),
+            {signal: controller.signal, onProgress: setUrlProgress},
+        );
+
+        abortRef.current = null;
+        setUrlRunning(false);
+        setUrlProgress(result);
+
+        const failures = result.results
+            .filter((r) => r.status !== 'imported')
+            .map((r) => `${r.url}: ${r.error}`);
+        setUrlMessage({
+            type: result.failed > 0 || controller.signal.aborted ? 'error' : 'success',
+            text: t('import.urls.summary', {
+                succeeded: result.succeeded,
+                failed: result.failed,
+                skipped: result.total - result.succeeded - result.failed,
+            }),
+            details: [...failures, ...skippedDetails],
+        });
+        if (result.succeeded > 0 && result.failed === 0) {
+            setUrlText('');
+        }
+    };
+
+    const progressPercent = urlProgress && urlProgress.total > 0
+        ? Math.round((urlProgress.completed / urlProgress.total) * 100)
+        : 0;
+
+    return (
+        <section className="bg-white shadow-sm rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center gap-2 mb-1">
+                <Upload className="w-5 h-5 text-slate-500"/>
+                <h2 className="text-lg font-semibold text-slate-900">{t('import.title')}</h2>
+            </div>
+            <p className="text-sm text-slate-500 mb-4">{t('import.description')}</p>
+
+            {/* JSON file import */}
+            <div className="mb-6">
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('import.file.title')}</label>
+                <p className="text-xs text-slate-400 mb-2">{t('import.file.description')}</p>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleFileChange}
+                    className="hidden"
+                    data-testid="import-file-input"
+                />
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={fileImporting || urlRunning}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {fileImporting ? <Loader2 className="w-4 h-4 animate-spin"/> : <FileJson className="w-4 h-4"/>}
+                    {fileImporting ? t('import.file.importing') : t('import.file.button')}
+                </button>
+                {fileMessage && <MessageBox message={fileMessage}/>}
+            </div>
+
+            {/* URL list import */}
+            <div>
+                <label htmlFor="import-urls" className="block text-sm font-medium text-slate-700 mb-1">
+                    {t('import.urls.title')}
+                </label>
+                <p className="text-xs text-slate-400 mb-2">{t('import.urls.description')}</p>
+                <textarea
+                    id="import-urls"
+                    value={urlText}
+                    onChange={(e) => setUrlText(e.target.value)}
+                    disabled={urlRunning}
+                    rows={5}
+                    placeholder={t('import.urls.placeholder')}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                />
+                <div className="flex items-center gap-2 mt-2">
+                    {urlRunning ? (
+                        <button
+                            type="button"
+                            onClick={() => abortRef.current?.abort()}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                        >
+                            <Square className="w-4 h-4"/>
+                            {t('import.urls.cancel')}
+                        </button>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={handleStartUrlImport}
+                            disabled={!urlText.trim() || fileImporting}
+                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <Play className="w-4 h-4"/>
+                            {t('import.urls.start')}
+                        </button>
+                    )}
+                </div>
+
+                {urlRunning && urlProgress && (
+                    <div className="mt-3">
+                        <div className="flex justify-between text-xs text-slate-500 mb-1">
+                            <span>{t('import.urls.progress', {
+                                completed: urlProgress.completed,
+                                total: urlProgress.total,
+                            })}</span>
+                            <span>{progressPercent}%</span>
+                        </div>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-blue-500 transition-all"
+                                style={{width: `${progressPercent}%`}}
+                                role="progressbar"
+                                aria-valuenow={progressPercent}
+                                aria-valuemin={0}
+                                aria-valuemax={100}
+                            />
+                        </div>
+                        {urlProgress.rateLimitedUntil ? (
+                            <p className="flex items-center gap-1 text-xs text-amber-600 mt-2">
+                                <AlertCircle className="w-3 h-3"/>
+                                {t('import.urls.rateLimited', {
+                                    time: formatEuropeanDateTimeWithSeconds(urlProgress.rateLimitedUntil),
+                                })}
+                            </p>
+                        ) : urlProgress.currentUrl && (
+                            <p className="flex items-center gap-1 text-xs text-slate-500 mt-2 truncate">
+                                <Link className="w-3 h-3 flex-shrink-0"/>
+                                {urlProgress.currentUrl}
+                            </p>
+                        )}
+                    </div>
+                )}
+                {urlMessage && <MessageBox message={urlMessage}/>}
+            </div>
+        </section>
+    );
+};
+
+export default ImportSection;
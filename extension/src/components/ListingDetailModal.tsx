@@ -5,11 +5,20 @@
  * Groups information by category and includes price history chart.
  */
 
-import React from 'react';
+import React, {useEffect, useState} from 'react';
 import {useTranslation} from 'react-i18next';
-import {CarListing, ListingStatus} from '@/types';
+import {AlertRule, CarListing, EvidenceField, FieldEvidence, FieldOverride, ListingSighting, ListingStatus} from '@/types';
 import PriceChart from '@/components/PriceChart';
+import AlertRuleFields from '@/components/AlertRuleFields';
+import ListingEditForm from '@/components/ListingEditForm';
+import {DEFAULT_ALERT_RULE} from '@/services/alerts';
+import {MarketValueEstimate} from '@/services/valuation';
+import {MarketValueBadge} from '@/components/ui/MarketValueBadge';
+import {getSourceTimeline} from '@/services/vinHistory';
+import {EVIDENCE_FIELD_PATHS, getLowConfidenceFields, LOW_CONFIDENCE_THRESHOLD} from '@/services/gemini/evidence';
 import {
+    AlertTriangle,
+    BellRing,
     Building,
     Calendar,
     Car,
@@ -19,13 +28,18 @@ import {
     Eye,
     FileText,
     Fuel,
+    History,
     Gauge,
     Globe,
     Hash,
+    Loader2,
+    Lock,
     MapPin,
     Palette,
+    Pencil,
     Phone,
     RefreshCw,
+    Server,
     Settings2,
     Shield,
     Tag,
@@ -39,6 +53,14 @@ import {getMarketplaceDisplayName} from '@/config/marketplaces';
 interface ListingDetailModalProps {
     listing: CarListing;
     onClose: () => void;
+    /** Listing's own alert rule (null when the global rule applies) */
+    alertRule?: AlertRule | null;
+    /** Save the listing's alert rule (null reverts to the global rule); hides the section when omitted */
+    onSaveAlertRule?: (rule: AlertRule | null) => Promise<void>;
+    /** Estimated fair price; the comparables used are listed when set */
+    marketValue?: MarketValueEstimate | null;
+    /** Save a listing edited by the user; hides the edit button when omitted */
+    onSaveListing?: (listing: CarListing) => Promise<void>;
 }
 
 interface InfoItemProps {
@@ -46,18 +68,61 @@ interface InfoItemProps {
     label: string;
     value: string | number | null | undefined;
     highlight?: boolean;
+    /** Where the value came from, shown on hover */
+    evidence?: FieldEvidence;
+    /** User correction of the value; replaces the evidence */
+    override?: FieldOverride;
 }
 
-const InfoItem: React.FC<InfoItemProps> = ({icon, label, value, highlight}) => {
+const InfoItem: React.FC<InfoItemProps> = ({icon, label, value, highlight, evidence: aiEvidence, override}) => {
+    const {t} = useTranslation(['dashboard', 'listing']);
     if (value === null || value === undefined || value === '') return null;
 
+    const evidence = override ? undefined : aiEvidence;
+    const isLowConfidence = !!evidence && evidence.confidence < LOW_CONFIDENCE_THRESHOLD;
+    const background = isLowConfidence ? 'bg-amber-50 px-2 rounded' : highlight ? 'bg-blue-50 px-2 rounded' : '';
+
     return (
-        <div className={`flex items-start gap-2 py-2 ${highlight ? 'bg-blue-50 px-2 rounded' : ''}`}>
+        <div className={`group relative flex items-start gap-2 py-2 ${background}`}>
             <span className="text-slate-400 mt-0.5">{icon}</span>
             <div className="flex-1 min-w-0">
                 <span className="text-xs text-slate-500 block">{label}</span>
                 <span className="text-sm font-medium text-slate-800 break-words">{String(value)}</span>
             </div>
+            {isLowConfidence && (
+                <AlertTriangle className="w-4 h-4 text-amber-500 mt-0.5 shrink-0"
+                    aria-label={t('listingDetail.evidence.lowConfidence')}/>
+            )}
+            {override && (
+                <Lock className="w-4 h-4 text-blue-500 mt-0.5 shrink-0" aria-label={t('listingDetail.edit.edited')}/>
+            )}
+            {override && (
+                <div role="tooltip"
+                    className="hidden group-hover:block absolute left-0 top-full z-10 mt-1 w-64 p-3 bg-slate-800 text-white text-xs rounded-lg shadow-lg">
+                    <p className="mb-1">{t('listingDetail.edit.edited')}</p>
+                    <p className="text-slate-300 break-words">
+                        {t('listingDetail.edit.originalValue', {
+                            value: override.originalValue === null ? t('listing:values.unknown') : String(override.originalValue),
+                        })}
+                    </p>
+                </div>
+            )}
+            {evidence && (
+                <div role="tooltip"
+                    className="hidden group-hover:block absolute left-0 top-full z-10 mt-1 w-64 p-3 bg-slate-800 text-white text-xs rounded-lg shadow-lg">
+                    <p className="mb-1 break-words">
+                        {evidence.source === 'page'
+                            ? t('listingDetail.evidence.fromPage')
+                            : evidence.snippet ? `"${evidence.snippet}"` : t('listingDetail.evidence.noSnippet')}
+                    </p>
+                    <p className="text-slate-300">
+                        {t('listingDetail.evidence.confidence', {percent: Math.round(evidence.confidence * 100)})}
+                    </p>
+                    {isLowConfidence && (
+                        <p className="text-amber-300 mt-1">{t('listingDetail.evidence.lowConfidence')}</p>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
@@ -84,12 +149,227 @@ const InfoSection: React.FC<InfoSectionProps> = ({title, children}) => {
     );
 };
 
-const ListingDetailModal: React.FC<ListingDetailModalProps> = ({listing, onClose}) => {
+interface ListingAlertSectionProps {
+    currency: string;
+    alertRule: AlertRule | null;
+    onSave: (rule: AlertRule | null) => Promise<void>;
+}
+
+const ListingAlertSection: React.FC<ListingAlertSectionProps> = ({currency, alertRule, onSave}) => {
+    const {t} = useTranslation('dashboard');
+    const [useCustomRule, setUseCustomRule] = useState(alertRule !== null);
+    const [rule, setRule] = useState<AlertRule>(alertRule ?? DEFAULT_ALERT_RULE);
+    const [saving, setSaving] = useState(false);
+    const [status, setStatus] = useState<'saved' | 'failed' | null>(null);
+
+    useEffect(() => {
+        setUseCustomRule(alertRule !== null);
+        setRule(alertRule ?? DEFAULT_ALERT_RULE);
+    }, [alertRule]);
+
+    const handleSave = async () => {
+        setSaving(true);
+        setStatus(null);
+        try {
+            await onSave(useCustomRule ? rule : null);
+            setStatus('saved');
+        } catch {
+            setStatus('failed');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="mt-6 pt-6 border-t border-slate-200">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-600 uppercase tracking-wider mb-4">
+                <BellRing className="w-4 h-4"/>
+                {t('listingDetail.alerts.title')}
+            </h3>
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer mb-3">
+                <input
+                    type="checkbox"
+                    checked={useCustomRule}
+                    onChange={(e) => setUseCustomRule(e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {t('listingDetail.alerts.useCustom')}
+            </label>
+            {useCustomRule ? (
+                <div className="max-w-md">
+                    <AlertRuleFields rule={rule} onChange={setRule} showTargetPrice currency={currency}/>
+                </div>
+            ) : (
+                <p className="text-xs text-slate-400">{t('listingDetail.alerts.usingGlobal')}</p>
+            )}
+            <div className="flex items-center gap-3 mt-4">
+                <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="inline-flex items-center gap-2 px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-medium rounded-lg"
+                >
+                    {saving && <Loader2 className="w-4 h-4 animate-spin"/>}
+                    {saving ? t('listingDetail.alerts.saving') : t('listingDetail.alerts.save')}
+                </button>
+                {status === 'saved' && <span className="text-xs text-green-600">{t('listingDetail.alerts.saved')}</span>}
+                {status === 'failed' && <span className="text-xs text-red-600">{t('listingDetail.alerts.failed')}</span>}
+            </div>
+        </div>
+    );
+};
+
+interface MarketValueSectionProps {
+    estimate: MarketValueEstimate;
+}
+
+const MarketValueSection: React.FC<MarketValueSectionProps> = ({estimate}) => {
+    const {t} = useTranslation('dashboard');
+
+    const method = estimate.method === 'regression'
+        ? t('listingDetail.marketValue.methodRegression', {
+            features: estimate.features.map((feature) => t(`listingDetail.marketValue.features.${feature}`)).join(', '),
+        })
+        : t('listingDetail.marketValue.methodMedian');
+
+    return (
+        <div className="mt-6 pt-6 border-t border-slate-200">
+            <h3 className="text-sm font-semibold text-slate-600 uppercase tracking-wider mb-4">
+                {t('listingDetail.marketValue.title')}
+            </h3>
+            <div className="flex flex-wrap items-center gap-3 mb-2">
+                <MarketValueBadge estimate={estimate}/>
+                <span className="text-xs text-slate-500">{method}</span>
+            </div>
+
+            <div className="mt-4 max-h-48 overflow-y-auto">
+                <table className="w-full text-sm">
+                    <caption className="text-left text-xs text-slate-500 mb-2">
+                        {t('listingDetail.marketValue.comparables', {count: estimate.comparables.length})}
+                    </caption>
+                    <thead className="bg-slate-50 sticky top-0">
+                        <tr>
+                            <th className="text-left py-2 px-3 font-medium text-slate-600">{t('listingDetail.marketValue.table.listing')}</th>
+                            <th className="text-right py-2 px-3 font-medium text-slate-600">{t('listingDetail.marketValue.table.year')}</th>
+                            <th className="text-right py-2 px-3 font-medium text-slate-600">{t('listingDetail.marketValue.table.mileage')}</th>
+                            <th className="text-right py-2 px-3 font-medium text-slate-600">{t('listingDetail.marketValue.table.power')}</th>
+                            <th className="text-right py-2 px-3 font-medium text-slate-600">{t('listingDetail.marketValue.table.price')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {estimate.comparables.map((comparable) => (
+                            <tr key={comparable.listingId} className="hover:bg-slate-50">
+                                <td className="py-2 px-3 text-slate-700 max-w-[16rem] truncate">
+                                    <a href={comparable.url} target="_blank" rel="noreferrer" className="hover:text-blue-600">
+                                        {comparable.title}
+                                    </a>
+                                </td>
+                                <td className="py-2 px-3 text-right text-slate-600">{comparable.productionYear ?? '—'}</td>
+                                <td className="py-2 px-3 text-right text-slate-600">
+                                    {comparable.mileageKm !== null ? `${comparable.mileageKm.toLocaleString()} km` : '—'}
+                                </td>
+                                <td className="py-2 px-3 text-right text-slate-600">
+                                    {comparable.powerHp !== null ? `${comparable.powerHp} HP` : '—'}
+                                </td>
+                                <td className="py-2 px-3 text-right font-medium">
+                                    {comparable.price.toLocaleString()} {comparable.currency}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+interface SeenBeforeSectionProps {
+    timeline: ListingSighting[];
+    relistedAt: string | null;
+}
+
+const SeenBeforeSection: React.FC<SeenBeforeSectionProps> = ({timeline, relistedAt}) => {
+    const {t} = useTranslation(['dashboard', 'listing', 'common']);
+    // Newest source first; the last timeline entry is the current one
+    const sightings = timeline.map((sighting, idx) => ({sighting, isCurrent: idx === timeline.length - 1})).reverse();
+
+    return (
+        <div className="mt-6 pt-6 border-t border-slate-200">
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-600 uppercase tracking-wider mb-2">
+                <History className="w-4 h-4"/>
+                {t('dashboard:listingDetail.seenBefore.title')}
+            </h3>
+            <p className="text-xs text-slate-500 mb-4">
+                {t('dashboard:listingDetail.seenBefore.description', {count: timeline.length})}
+                {relistedAt && ` ${t('dashboard:listingDetail.seenBefore.relistedAt', {date: formatEuropeanDateTime(relistedAt)})}`}
+            </p>
+            <div className="max-h-48 overflow-y-auto">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 sticky top-0">
+                        <tr>
+                            <th className="text-left py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.seenBefore.table.listing')}</th>
+                            <th className="text-left py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.seenBefore.table.seller')}</th>
+                            <th className="text-left py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.seenBefore.table.seen')}</th>
+                            <th className="text-right py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.seenBefore.table.price')}</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {sightings.map(({sighting, isCurrent}) => (
+                            <tr key={`${sighting.url}-${sighting.firstSeenAt}`} className="hover:bg-slate-50">
+                                <td className="py-2 px-3 text-slate-700">
+                                    <a href={sighting.url} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 hover:text-blue-600">
+                                        {getMarketplaceDisplayName(sighting.platform)}
+                                        <ExternalLink className="w-3 h-3"/>
+                                    </a>
+                                    <span className={`ml-2 text-xs ${isCurrent ? 'text-blue-600' : sighting.status === ListingStatus.ENDED ? 'text-red-500' : 'text-slate-400'}`}>
+                                        {isCurrent
+                                            ? t('dashboard:listingDetail.seenBefore.current')
+                                            : t(`common:status.${sighting.status.toLowerCase()}`)}
+                                    </span>
+                                </td>
+                                <td className="py-2 px-3 text-slate-600">{sighting.sellerName || t('listing:values.unknown')}</td>
+                                <td className="py-2 px-3 text-slate-600 whitespace-nowrap">
+                                    {formatEuropeanDateTime(sighting.firstSeenAt)} – {formatEuropeanDateTime(sighting.lastSeenAt)}
+                                </td>
+                                <td className="py-2 px-3 text-right font-medium">
+                                    {sighting.price.toLocaleString()} {sighting.currency}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+const ListingDetailModal: React.FC<ListingDetailModalProps> = ({
+    listing,
+    onClose,
+    alertRule = null,
+    onSaveAlertRule,
+    marketValue = null,
+    onSaveListing,
+}) => {
     const {t} = useTranslation(['dashboard', 'listing', 'common']);
+    const [isEditing, setIsEditing] = useState(false);
     const v = listing.vehicle;
+    const evidence = listing.vehicleEvidence;
+    const overrides = listing.fieldOverrides ?? {};
     const loc = listing.location;
     const seller = listing.seller;
 
+    const evidenceLabels: Record<EvidenceField, string> = {
+        vin: t('common:vehicle.vin'),
+        productionYear: t('listing:info.productionYear'),
+        mileage: t('listing:info.mileage'),
+        engineCapacity: t('listing:info.engineCapacity'),
+        enginePower: t('listing:info.power'),
+        fuelType: t('listing:info.fuelType'),
+    };
+    // Fields the user corrected need no review
+    const lowConfidenceFields = getLowConfidenceFields(evidence)
+        .filter((field) => !overrides[`vehicle.${EVIDENCE_FIELD_PATHS[field]}`]);
+
     // Status styling
     const getStatusColor = () => {
         if (listing.status === ListingStatus.ACTIVE) return 'bg-green-100 text-green-700';
@@ -103,6 +383,8 @@ const ListingDetailModal: React.FC<ListingDetailModalProps> = ({listing, onClose
         ? Math.round((totalPriceChange / firstPrice) * 100)
         : 0;
 
+    const sourceTimeline = getSourceTimeline(listing);
+
     return (
         <div
             className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
@@ -141,6 +423,17 @@ const ListingDetailModal: React.FC<ListingDetailModalProps> = ({listing, onClose
                             <X className="w-5 h-5 text-slate-600"/>
                         </button>
 
+                        {/* Edit button */}
+                        {onSaveListing && !isEditing && (
+                            <button
+                                onClick={() => setIsEditing(true)}
+                                className="absolute top-4 left-16 flex items-center gap-1.5 px-3 py-2 bg-white/90 hover:bg-white rounded-full text-sm font-medium text-slate-700 transition-colors"
+                            >
+                                <Pencil className="w-4 h-4"/>
+                                {t('dashboard:listingDetail.edit.button')}
+                            </button>
+                        )}
+
                         {/* Title overlay */}
                         <div className="absolute bottom-0 left-0 right-0 p-4">
                             <h2 className="text-xl font-bold text-white mb-1">{listing.title}</h2>
@@ -162,220 +455,316 @@ const ListingDetailModal: React.FC<ListingDetailModalProps> = ({listing, onClose
 
                 {/* Content - Scrollable */}
                 <div className="flex-1 overflow-y-auto p-6">
-                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                        {/* Left column */}
-                        <div>
-                            {/* Vehicle Identification */}
-                            <InfoSection title={t('dashboard:listingDetail.vehicleId')}>
-                                <InfoItem icon={<Hash className="w-4 h-4"/>} label={t('common:vehicle.vin')}
-                                    value={v.vin} highlight/>
-                                <InfoItem icon={<Car className="w-4 h-4"/>} label={t('common:vehicle.make')}
-                                    value={v.make}/>
-                                <InfoItem icon={<FileText className="w-4 h-4"/>} label={t('common:vehicle.model')}
-                                    value={v.model}/>
-                                <InfoItem icon={<Tag className="w-4 h-4"/>} label={t('listing:info.generation')}
-                                    value={v.generation}/>
-                                <InfoItem icon={<Settings2 className="w-4 h-4"/>} label={t('listing:info.trim')}
-                                    value={v.trim}/>
-                                <InfoItem icon={<Car className="w-4 h-4"/>} label={t('listing:info.bodyType')}
-                                    value={v.bodyType}/>
-                            </InfoSection>
-
-                            {/* Production & Registration */}
-                            <InfoSection title={t('dashboard:listingDetail.production')}>
-                                <InfoItem icon={<Calendar className="w-4 h-4"/>}
-                                    label={t('listing:info.productionYear')} value={v.productionYear}/>
-                                <InfoItem icon={<Calendar className="w-4 h-4"/>}
-                                    label={t('listing:info.firstRegistration')} value={v.firstRegistrationYear}/>
-                                <InfoItem icon={<Gauge className="w-4 h-4"/>} label={t('listing:info.mileage')} value={
+                    {isEditing && onSaveListing ? (
+                        <ListingEditForm
+                            listing={listing}
+                            onSave={async (edited) => {
+                                await onSaveListing(edited);
+                                setIsEditing(false);
+                            }}
+                            onCancel={() => setIsEditing(false)}
+                        />
+                    ) : (<>
+                        {lowConfidenceFields.length > 0 && (
+                            <div className="mb-6 flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0"/>
+                                <div>
+                                    <p className="font-semibold">{t('dashboard:listingDetail.evidence.reviewTitle')}</p>
+                                    <p>
+                                        {t('dashboard:listingDetail.evidence.reviewDescription', {
+                                            fields: lowConfidenceFields.map((field) => evidenceLabels[field]).join(', '),
+                                        })}
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {/* Left column */}
+                            <div>
+                                {/* Vehicle Identification */}
+                                <InfoSection title={t('dashboard:listingDetail.vehicleId')}>
+                                    <InfoItem icon={<Hash className="w-4 h-4"/>} label={t('common:vehicle.vin')}
+                                        value={v.vin} highlight evidence={evidence?.vin}
+                                        override={overrides['vehicle.vin']}/>
+                                    <InfoItem icon={<Car className="w-4 h-4"/>} label={t('common:vehicle.make')}
+                                        value={v.make}
+                                        override={overrides['vehicle.make']}/>
+                                    <InfoItem icon={<FileText className="w-4 h-4"/>} label={t('common:vehicle.model')}
+                                        value={v.model}
+                                        override={overrides['vehicle.model']}/>
+                                    <InfoItem icon={<Tag className="w-4 h-4"/>} label={t('listing:info.generation')}
+                                        value={v.generation}
+                                        override={overrides['vehicle.generation']}/>
+                                    <InfoItem icon={<Settings2 className="w-4 h-4"/>} label={t('listing:info.trim')}
+                                        value={v.trim}
+                                        override={overrides['vehicle.trim']}/>
+                                    <InfoItem icon={<Car className="w-4 h-4"/>} label={t('listing:info.bodyType')}
+                                        value={v.bodyType}
+                                        override={overrides['vehicle.bodyType']}/>
+                                </InfoSection>
+
+                                {/* Production & Registration */}
+                                <InfoSection title={t('dashboard:listingDetail.production')}>
+                                    <InfoItem icon={<Calendar className="w-4 h-4"/>}
+                                        label={t('listing:info.productionYear')} value={v.productionYear}
+                                        evidence={evidence?.productionYear}
+                                        override={overrides['vehicle.productionYear']}/>
+                                    <InfoItem icon={<Calendar className="w-4 h-4"/>}
+                                        label={t('listing:info.firstRegistration')} value={v.firstRegistrationYear}
+                                        override={overrides['vehicle.firstRegistrationYear']}/>
+                                    <InfoItem icon={<Gauge className="w-4 h-4"/>} label={t('listing:info.mileage')} value={
                                     v.mileage?.value ? `${v.mileage.value.toLocaleString()} ${v.mileage.unit || 'km'}` : null
-                                }/>
-                                <InfoItem icon={<Globe className="w-4 h-4"/>} label={t('listing:info.originCountry')}
-                                    value={v.registration?.originCountry}/>
-                                <InfoItem icon={<Globe className="w-4 h-4"/>} label={t('listing:info.registeredIn')}
-                                    value={v.registration?.registeredInCountryCode}/>
-                                <InfoItem icon={<FileText className="w-4 h-4"/>} label={t('listing:info.plateNumber')}
-                                    value={v.registration?.plateNumber}/>
-                            </InfoSection>
-
-                            {/* Engine & Drivetrain */}
-                            <InfoSection title={t('dashboard:listingDetail.engine')}>
-                                <InfoItem icon={<Fuel className="w-4 h-4"/>} label={t('listing:info.fuelType')}
-                                    value={v.engine?.fuelType}/>
-                                <InfoItem icon={<Settings2 className="w-4 h-4"/>}
-                                    label={t('listing:info.engineCapacity')} value={
+                                    } evidence={evidence?.mileage}
+                                    override={overrides['vehicle.mileage.value']}/>
+                                    <InfoItem icon={<Globe className="w-4 h-4"/>} label={t('listing:info.originCountry')}
+                                        value={v.registration?.originCountry}
+                                        override={overrides['vehicle.registration.originCountry']}/>
+                                    <InfoItem icon={<Globe className="w-4 h-4"/>} label={t('listing:info.registeredIn')}
+                                        value={v.registration?.registeredInCountryCode}
+                                        override={overrides['vehicle.registration.registeredInCountryCode']}/>
+                                    <InfoItem icon={<FileText className="w-4 h-4"/>} label={t('listing:info.plateNumber')}
+                                        value={v.registration?.plateNumber}
+                                        override={overrides['vehicle.registration.plateNumber']}/>
+                                </InfoSection>
+
+                                {/* Engine & Drivetrain */}
+                                <InfoSection title={t('dashboard:listingDetail.engine')}>
+                                    <InfoItem icon={<Fuel className="w-4 h-4"/>} label={t('listing:info.fuelType')}
+                                        value={v.engine?.fuelType} evidence={evidence?.fuelType}
+                                        override={overrides['vehicle.engine.fuelType']}/>
+                                    <InfoItem icon={<Settings2 className="w-4 h-4"/>}
+                                        label={t('listing:info.engineCapacity')} value={
                                     v.engine?.capacityCc ? `${(v.engine.capacityCc / 1000).toFixed(1)}L (${v.engine.capacityCc} cc)` : null
-                                    }/>
-                                <InfoItem icon={<Cog className="w-4 h-4"/>} label={t('listing:info.power')} value={
+                                        } evidence={evidence?.engineCapacity}
+                                        override={overrides['vehicle.engine.capacityCc']}/>
+                                    <InfoItem icon={<Cog className="w-4 h-4"/>} label={t('listing:info.power')} value={
                                     v.engine?.powerHp ? `${v.engine.powerHp} HP${v.engine.powerKw ? ` (${v.engine.powerKw} kW)` : ''}` : null
-                                }/>
-                                <InfoItem icon={<Settings2 className="w-4 h-4"/>} label={t('listing:info.engineCode')}
-                                    value={v.engine?.engineCode}/>
-                                <InfoItem icon={<Shield className="w-4 h-4"/>} label={t('listing:info.euroStandard')}
-                                    value={v.engine?.euroStandard}/>
-                                <InfoItem icon={<Fuel className="w-4 h-4"/>} label={t('listing:info.hybridType')}
-                                    value={v.engine?.hybridType}/>
-                                <InfoItem icon={<Cog className="w-4 h-4"/>} label={t('listing:info.transmission')}
-                                    value={v.drivetrain?.transmissionType}/>
-                                <InfoItem icon={<Settings2 className="w-4 h-4"/>}
-                                    label={t('listing:info.transmissionSubtype')}
-                                    value={v.drivetrain?.transmissionSubtype}/>
-                                <InfoItem icon={<Hash className="w-4 h-4"/>} label={t('listing:info.gears')}
-                                    value={v.drivetrain?.gearsCount}/>
-                                <InfoItem icon={<Car className="w-4 h-4"/>} label={t('listing:info.driveType')}
-                                    value={v.drivetrain?.driveType}/>
-                            </InfoSection>
-                        </div>
+                                    } evidence={evidence?.enginePower}
+                                    override={overrides['vehicle.engine.powerHp']}/>
+                                    <InfoItem icon={<Settings2 className="w-4 h-4"/>} label={t('listing:info.engineCode')}
+                                        value={v.engine?.engineCode}
+                                        override={overrides['vehicle.engine.engineCode']}/>
+                                    <InfoItem icon={<Shield className="w-4 h-4"/>} label={t('listing:info.euroStandard')}
+                                        value={v.engine?.euroStandard}
+                                        override={overrides['vehicle.engine.euroStandard']}/>
+                                    <InfoItem icon={<Fuel className="w-4 h-4"/>} label={t('listing:info.hybridType')}
+                                        value={v.engine?.hybridType}
+                                        override={overrides['vehicle.engine.hybridType']}/>
+                                    <InfoItem icon={<Cog className="w-4 h-4"/>} label={t('listing:info.transmission')}
+                                        value={v.drivetrain?.transmissionType}
+                                        override={overrides['vehicle.drivetrain.transmissionType']}/>
+                                    <InfoItem icon={<Settings2 className="w-4 h-4"/>}
+                                        label={t('listing:info.transmissionSubtype')}
+                                        value={v.drivetrain?.transmissionSubtype}
+                                        override={overrides['vehicle.drivetrain.transmissionSubtype']}/>
+                                    <InfoItem icon={<Hash className="w-4 h-4"/>} label={t('listing:info.gears')}
+                                        value={v.drivetrain?.gearsCount}
+                                        override={overrides['vehicle.drivetrain.gearsCount']}/>
+                                    <InfoItem icon={<Car className="w-4 h-4"/>} label={t('listing:info.driveType')}
+                                        value={v.drivetrain?.driveType}
+                                        override={overrides['vehicle.drivetrain.driveType']}/>
+                                </InfoSection>
+                            </div>
 
-                        {/* Right column */}
-                        <div>
-                            {/* Condition */}
-                            <InfoSection title={t('dashboard:listingDetail.condition')}>
-                                <InfoItem icon={<Tag className="w-4 h-4"/>} label={t('listing:info.condition')}
-                                    value={v.condition?.isNew ? t('listing:values.new') : t('listing:values.used')}/>
-                                <InfoItem icon={<Globe className="w-4 h-4"/>} label={t('listing:info.imported')} value={
+                            {/* Right column */}
+                            <div>
+                                {/* Condition */}
+                                <InfoSection title={t('dashboard:listingDetail.condition')}>
+                                    <InfoItem icon={<Tag className="w-4 h-4"/>} label={t('listing:info.condition')}
+                                        value={v.condition?.isNew ? t('listing:values.new') : t('listing:values.used')}
+                                        override={overrides['vehicle.condition.isNew']}/>
+                                    <InfoItem icon={<Globe className="w-4 h-4"/>} label={t('listing:info.imported')} value={
                                     v.condition?.isImported === true ? t('listing:values.yes') : v.condition?.isImported === false ? t('listing:values.no') : null
-                                }/>
-                                <InfoItem icon={<Shield className="w-4 h-4"/>} label={t('listing:info.accidentFree')}
-                                    value={
+                                    }
+                                    override={overrides['vehicle.condition.isImported']}/>
+                                    <InfoItem icon={<Shield className="w-4 h-4"/>} label={t('listing:info.accidentFree')}
+                                        value={
                                               v.condition?.accidentFreeDeclared === true ? t('listing:values.yesDeclared') :
                                                   v.condition?.accidentFreeDeclared === false ? t('listing:values.no') : null
-                                    }/>
-                                <InfoItem icon={<FileText className="w-4 h-4"/>}
-                                    label={t('listing:info.serviceHistory')} value={
+                                        }
+                                        override={overrides['vehicle.condition.accidentFreeDeclared']}/>
+                                    <InfoItem icon={<FileText className="w-4 h-4"/>}
+                                        label={t('listing:info.serviceHistory')} value={
                                     v.condition?.serviceHistoryDeclared === true ? t('listing:values.available') :
                                         v.condition?.serviceHistoryDeclared === false ? t('listing:values.notAvailable') : null
-                                    }/>
-                            </InfoSection>
-
-                            {/* Colors & Interior */}
-                            <InfoSection title={t('dashboard:listingDetail.colors')}>
-                                <InfoItem icon={<Palette className="w-4 h-4"/>} label={t('listing:info.exteriorColor')}
-                                    value={v.colorAndInterior?.exteriorColor}/>
-                                <InfoItem icon={<Palette className="w-4 h-4"/>} label={t('listing:info.interiorColor')}
-                                    value={v.colorAndInterior?.interiorColor}/>
-                                <InfoItem icon={<Car className="w-4 h-4"/>} label={t('listing:info.upholstery')}
-                                    value={v.colorAndInterior?.upholsteryType}/>
-                            </InfoSection>
-
-                            {/* Location */}
-                            <InfoSection title={t('dashboard:listingDetail.location')}>
-                                <InfoItem icon={<MapPin className="w-4 h-4"/>} label={t('listing:info.city')}
-                                    value={loc?.city}/>
-                                <InfoItem icon={<MapPin className="w-4 h-4"/>} label={t('listing:info.region')}
-                                    value={loc?.region}/>
-                                <InfoItem icon={<Building className="w-4 h-4"/>} label={t('listing:info.postalCode')}
-                                    value={loc?.postalCode}/>
-                                <InfoItem icon={<Globe className="w-4 h-4"/>} label={t('listing:info.country')}
-                                    value={loc?.countryCode}/>
-                            </InfoSection>
-
-                            {/* Seller */}
-                            <InfoSection title={t('dashboard:listingDetail.seller')}>
-                                <InfoItem icon={<User className="w-4 h-4"/>} label={t('listing:info.sellerType')}
-                                    value={seller?.type}/>
-                                <InfoItem icon={<User className="w-4 h-4"/>} label={t('listing:info.sellerName')}
-                                    value={seller?.name}/>
-                                <InfoItem icon={<Phone className="w-4 h-4"/>} label={t('listing:info.phone')}
-                                    value={seller?.phone}/>
-                                <InfoItem icon={<Building className="w-4 h-4"/>} label={t('listing:info.company')}
-                                    value={
+                                        }
+                                        override={overrides['vehicle.condition.serviceHistoryDeclared']}/>
+                                </InfoSection>
+
+                                {/* Colors & Interior */}
+                                <InfoSection title={t('dashboard:listingDetail.colors')}>
+                                    <InfoItem icon={<Palette className="w-4 h-4"/>} label={t('listing:info.exteriorColor')}
+                                        value={v.colorAndInterior?.exteriorColor}
+                                        override={overrides['vehicle.colorAndInterior.exteriorColor']}/>
+                                    <InfoItem icon={<Palette className="w-4 h-4"/>} label={t('listing:info.interiorColor')}
+                                        value={v.colorAndInterior?.interiorColor}
+                                        override={overrides['vehicle.colorAndInterior.interiorColor']}/>
+                                    <InfoItem icon={<Car className="w-4 h-4"/>} label={t('listing:info.upholstery')}
+                                        value={v.colorAndInterior?.upholsteryType}
+                                        override={overrides['vehicle.colorAndInterior.upholsteryType']}/>
+                                </InfoSection>
+
+                                {/* Location */}
+                                <InfoSection title={t('dashboard:listingDetail.location')}>
+                                    <InfoItem icon={<MapPin className="w-4 h-4"/>} label={t('listing:info.city')}
+                                        value={loc?.city}
+                                        override={overrides['location.city']}/>
+                                    <InfoItem icon={<MapPin className="w-4 h-4"/>} label={t('listing:info.region')}
+                                        value={loc?.region}
+                                        override={overrides['location.region']}/>
+                                    <InfoItem icon={<Building className="w-4 h-4"/>} label={t('listing:info.postalCode')}
+                                        value={loc?.postalCode}
+                                        override={overrides['location.postalCode']}/>
+                                    <InfoItem icon={<Globe className="w-4 h-4"/>} label={t('listing:info.country')}
+                                        value={loc?.countryCode}
+                                        override={overrides['location.countryCode']}/>
+                                </InfoSection>
+
+                                {/* Seller */}
+                                <InfoSection title={t('dashboard:listingDetail.seller')}>
+                                    <InfoItem icon={<User className="w-4 h-4"/>} label={t('listing:info.sellerType')}
+                                        value={seller?.type}
+                                        override={overrides['seller.type']}/>
+                                    <InfoItem icon={<User className="w-4 h-4"/>} label={t('listing:info.sellerName')}
+                                        value={seller?.name}
+                                        override={overrides['seller.name']}/>
+                                    <InfoItem icon={<Phone className="w-4 h-4"/>} label={t('listing:info.phone')}
+                                        value={seller?.phone}
+                                        override={overrides['seller.phone']}/>
+                                    <InfoItem icon={<Building className="w-4 h-4"/>} label={t('listing:info.company')}
+                                        value={
                                               seller?.isCompany === true ? t('listing:values.yes') : seller?.isCompany === false ? t('listing:values.noPrivate') : null
-                                    }/>
-                            </InfoSection>
-
-                            {/* Pricing Details */}
-                            <InfoSection title={t('dashboard:listingDetail.pricing')}>
-                                <InfoItem icon={<Tag className="w-4 h-4"/>} label={t('listing:info.currentPrice')}
-                                    value={
-                                        `${listing.currentPrice.toLocaleString()} ${listing.currency}`
-                                    } highlight/>
-                                <InfoItem icon={<Tag className="w-4 h-4"/>} label={t('listing:info.originalPrice')}
-                                    value={
+                                        }
+                                        override={overrides['seller.isCompany']}/>
+                                </InfoSection>
+
+                                {/* Pricing Details */}
+                                <InfoSection title={t('dashboard:listingDetail.pricing')}>
+                                    <InfoItem icon={<Tag className="w-4 h-4"/>} label={t('listing:info.currentPrice')}
+                                        value={
+                                            `${listing.currentPrice.toLocaleString()} ${listing.currency}`
+                                        } highlight/>
+                                    <InfoItem icon={<Tag className="w-4 h-4"/>} label={t('listing:info.originalPrice')}
+                                        value={
                                               listing.originalPrice ? `${listing.originalPrice.toLocaleString()} ${listing.currency}` : null
-                                    }/>
-                                <InfoItem icon={<FileText className="w-4 h-4"/>} label={t('listing:info.negotiable')}
-                                    value={
+                                        }
+                                        override={overrides['originalPrice']}/>
+                                    <InfoItem icon={<FileText className="w-4 h-4"/>} label={t('listing:info.negotiable')}
+                                        value={
                                               listing.negotiable === true ? t('listing:values.yes') : listing.negotiable === false ? t('listing:values.no') : null
-                                    }/>
-                            </InfoSection>
+                                        }
+                                        override={overrides['negotiable']}/>
+                                </InfoSection>
+                            </div>
                         </div>
-                    </div>
 
-                    {/* Price History Chart - Full Width */}
-                    <div className="mt-6 pt-6 border-t border-slate-200">
-                        <h3 className="text-sm font-semibold text-slate-600 uppercase tracking-wider mb-4">
-                            {t('dashboard:priceHistory.title')}
-                        </h3>
-                        <PriceChart history={listing.priceHistory} currency={listing.currency}/>
-
-                        {/* Price history table */}
-                        {listing.priceHistory.length > 0 && (
-                            <div className="mt-4 max-h-48 overflow-y-auto">
-                                <table className="w-full text-sm">
-                                    <thead className="bg-slate-50 sticky top-0">
-                                        <tr>
-                                            <th className="text-left py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.priceHistoryTable.date')}</th>
-                                            <th className="text-right py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.priceHistoryTable.price')}</th>
-                                            <th className="text-right py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.priceHistoryTable.change')}</th>
-                                        </tr>
-                                    </thead>
-                                    <tbody className="divide-y divide-slate-100">
-                                        {listing.priceHistory.map((point, idx) => {
-                                            const prevPrice = idx > 0 ? listing.priceHistory[idx - 1].price : point.price;
-                                            const change = point.price - prevPrice;
-                                            return (
-                                                <tr key={point.date} className="hover:bg-slate-50">
-                                                    <td className="py-2 px-3 text-slate-600">{formatEuropeanDateTime(point.date)}</td>
-                                                    <td className="py-2 px-3 text-right font-medium">
-                                                        {point.price.toLocaleString()} {point.currency}
-                                                    </td>
-                                                    <td className={`py-2 px-3 text-right ${
+                        {/* Price History Chart - Full Width */}
+                        <div className="mt-6 pt-6 border-t border-slate-200">
+                            <h3 className="text-sm font-semibold text-slate-600 uppercase tracking-wider mb-4">
+                                {t('dashboard:priceHistory.title')}
+                            </h3>
+                            <PriceChart history={listing.priceHistory} currency={listing.currency}/>
+
+                            {/* Price history table */}
+                            {listing.priceHistory.length > 0 && (
+                                <div className="mt-4 max-h-48 overflow-y-auto">
+                                    <table className="w-full text-sm">
+                                        <thead className="bg-slate-50 sticky top-0">
+                                            <tr>
+                                                <th className="text-left py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.priceHistoryTable.date')}</th>
+                                                <th className="text-right py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.priceHistoryTable.price')}</th>
+                                                <th className="text-right py-2 px-3 font-medium text-slate-600">{t('dashboard:listingDetail.priceHistoryTable.change')}</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-slate-100">
+                                            {listing.priceHistory.map((point, idx) => {
+                                                const prevPrice = idx > 0 ? listing.priceHistory[idx - 1].price : point.price;
+                                                const change = point.price - prevPrice;
+                                                return (
+                                                    <tr key={point.date} className="hover:bg-slate-50">
+                                                        <td className="py-2 px-3 text-slate-600">
+                                                            <span className="inline-flex items-center gap-1">
+                                                                {formatEuropeanDateTime(point.date)}
+                                                                {point.source === 'server' && (
+                                                                    <span title={t('common:time.refreshedByServer')}>
+                                                                        <Server className="w-3 h-3 text-slate-400"/>
+                                                                    </span>
+                                                                )}
+                                                            </span>
+                                                        </td>
+                                                        <td className="py-2 px-3 text-right font-medium">
+                                                            {point.price.toLocaleString()} {point.currency}
+                                                        </td>
+                                                        <td className={`py-2 px-3 text-right ${
                                                     change < 0 ? 'text-green-600' : change > 0 ? 'text-red-600' : 'text-slate-400'
-                                                    }`}>
-                                                        {idx === 0 ? '—' : change === 0 ? '—' :
+                                                        }`}>
+                                                            {idx === 0 ? '—' : change === 0 ? '—' :
                                                         `${change > 0 ? '+' : ''}${change.toLocaleString()}`
-                                                        }
-                                                    </td>
-                                                </tr>
-                                            );
-                                        })}
-                                    </tbody>
-                                </table>
-                            </div>
+                                                            }
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Earlier listings of the same car (relistings, other marketplaces) */}
+                        {sourceTimeline.length > 1 && (
+                            <SeenBeforeSection timeline={sourceTimeline} relistedAt={listing.relistedAt ?? null}/>
                         )}
-                    </div>
 
-                    {/* Tracking Info */}
-                    <div className="mt-6 pt-6 border-t border-slate-200">
-                        <h3 className="text-sm font-semibold text-slate-600 uppercase tracking-wider mb-4">
-                            {t('dashboard:listingDetail.tracking')}
-                        </h3>
-                        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
-                            <div className="flex items-center gap-2 text-slate-500">
-                                <Clock className="w-4 h-4"/>
-                                <span>{t('listing:tracking.posted')}: {listing.postedDate ? formatEuropeanDateTime(listing.postedDate) : t('listing:values.unknown')}</span>
-                            </div>
-                            <div className="flex items-center gap-2 text-slate-500">
-                                <Eye className="w-4 h-4"/>
-                                <span>{t('listing:tracking.firstSeen')}: {formatEuropeanDateTime(listing.firstSeenAt)}</span>
-                            </div>
-                            <div className="flex items-center gap-2 text-slate-500">
-                                <RefreshCw className="w-4 h-4"/>
-                                <span>{t('listing:tracking.lastChecked')}: {formatEuropeanDateTime(listing.lastSeenAt)}</span>
-                            </div>
-                            {listing.status === ListingStatus.ENDED && (
-                                <div className="flex items-center gap-2 text-red-500">
-                                    <XCircle className="w-4 h-4"/>
-                                    <span>{t('listing:tracking.endedAt')}: {formatEuropeanDateTime(listing.statusChangedAt || listing.lastSeenAt)}</span>
+                        {/* Market Value */}
+                        {marketValue && <MarketValueSection estimate={marketValue}/>}
+
+                        {/* Alert Rule */}
+                        {onSaveAlertRule && (
+                            <ListingAlertSection
+                                currency={listing.currency}
+                                alertRule={alertRule}
+                                onSave={onSaveAlertRule}
+                            />
+                        )}
+
+                        {/* Tracking Info */}
+                        <div className="mt-6 pt-6 border-t border-slate-200">
+                            <h3 className="text-sm font-semibold text-slate-600 uppercase tracking-wider mb-4">
+                                {t('dashboard:listingDetail.tracking')}
+                            </h3>
+                            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+                                <div className="flex items-center gap-2 text-slate-500">
+                                    <Clock className="w-4 h-4"/>
+                                    <span>{t('listing:tracking.posted')}: {listing.postedDate ? formatEuropeanDateTime(listing.postedDate) : t('listing:values.unknown')}</span>
+                                </div>
+                                <div className="flex items-center gap-2 text-slate-500">
+                                    <Eye className="w-4 h-4"/>
+                                    <span>{t('listing:tracking.firstSeen')}: {formatEuropeanDateTime(listing.firstSeenAt)}</span>
+                                </div>
+                                <div className="flex items-center gap-2 text-slate-500">
+                                    <RefreshCw className="w-4 h-4"/>
+                                    <span>{t('listing:tracking.lastChecked')}: {formatEuropeanDateTime(listing.lastSeenAt)}</span>
+                                    {listing.lastRefreshSource === 'server' && (
+                                        <span title={t('common:time.refreshedByServer')}>
+                                            <Server className="w-4 h-4"/>
+                                        </span>
+                                    )}
+                                </div>
+                                {listing.status === ListingStatus.ENDED && (
+                                    <div className="flex items-center gap-2 text-red-500">
+                                        <XCircle className="w-4 h-4"/>
+                                        <span>{t('listing:tracking.endedAt')}: {formatEuropeanDateTime(listing.statusChangedAt || listing.lastSeenAt)}</span>
+                                    </div>
+                                )}
+                                <div className="flex items-center gap-2 text-slate-500">
+                                    <Globe className="w-4 h-4"/>
+                                    <span>{t('listing:info.listingId')}: {listing.source.listingId || t('listing:values.na')}</span>
                                 </div>
-                            )}
-                            <div className="flex items-center gap-2 text-slate-500">
-                                <Globe className="w-4 h-4"/>
-                                <span>{t('listing:info.listingId')}: {listing.source.listingId || t('listing:values.na')}</span>
                             </div>
                         </div>
-                    </div>
+                    </>)}
                 </div>
 
                 {/* Footer */}
@@ -0,0 +1,239 @@
+/**
+ * Listing Edit Form Component
+ *
+ * Edit mode of the listing detail modal. Every editable field is shown in
+ * the modal's sections; fields the user corrected are locked and show the
+ * value they replaced, with a button to restore it.
+ */
+
+import React, {useState} from 'react';
+import {useTranslation} from 'react-i18next';
+import {Loader2, Lock, RotateCcw} from 'lucide-react';
+import {CarListing, EditableFieldValue} from '@/types';
+import {applyFieldEdits, EDITABLE_FIELDS, getFieldValue} from '@/services/listingEdits';
+
+interface ListingEditFormProps {
+    listing: CarListing;
+    /** Save the edited listing */
+    onSave: (listing: CarListing) => Promise<void>;
+    onCancel: () => void;
+}
+
+/** Fields per section of the detail modal, as [path, label key] */
+const EDIT_SECTIONS: Array<{ titleKey: string; fields: Array<[string, string]> }> = [
+    {
+        titleKey: 'dashboard:listingDetail.vehicleId',
+        fields: [
+            ['title', 'listing:info.title'],
+            ['vehicle.vin', 'common:vehicle.vin'],
+            ['vehicle.make', 'common:vehicle.make'],
+            ['vehicle.model', 'common:vehicle.model'],
+            ['vehicle.generation', 'listing:info.generation'],
+            ['vehicle.trim', 'listing:info.trim'],
+            ['vehicle.bodyType', 'listing:info.bodyType'],
+        ],
+    },
+    {
+        titleKey: 'dashboard:listingDetail.production',
+        fields: [
+            ['vehicle.productionYear', 'listing:info.productionYear'],
+            ['vehicle.firstRegistrationYear', 'listing:info.firstRegistration'],
+            ['vehicle.mileage.value', 'listing:info.mileage'],
+            ['vehicle.registration.originCountry', 'listing:info.originCountry'],
+            ['vehicle.registration.registeredInCountryCode', 'listing:info.registeredIn'],
+            ['vehicle.registration.plateNumber', 'listing:info.plateNumber'],
+        ],
+    },
+    {
+        titleKey: 'dashboard:listingDetail.engine',
+        fields: [
+            ['vehicle.engine.fuelType', 'listing:info.fuelType'],
+            ['vehicle.engine.capacityCc', 'listing:info.engineCapacityCc'],
+            ['vehicle.engine.powerHp', 'listing:info.powerHp'],
+            ['vehicle.engine.powerKw', 'listing:info.powerKw'],
+            ['vehicle.engine.engineCode', 'listing:info.engineCode'],
+            ['vehicle.engine.euroStandard', 'listing:info.euroStandard'],
+            ['vehicle.engine.hybridType', 'listing:info.hybridType'],
+            ['vehicle.drivetrain.transmissionType', 'listing:info.transmission'],
+            ['vehicle.drivetrain.transmissionSubtype', 'listing:info.transmissionSubtype'],
+            ['vehicle.drivetrain.gearsCount', 'listing:info.gears'],
+            ['vehicle.drivetrain.driveType', 'listing:info.driveType'],
+        ],
+    },
+    {
+        titleKey: 'dashboard:listingDetail.condition',
+        fields: [
+            ['vehicle.condition.isNew', 'common:vehicle.new'],
+            ['vehicle.condition.isImported', 'listing:info.imported'],
+            ['vehicle.condition.accidentFreeDeclared', 'listing:info.accidentFree'],
+            ['vehicle.condition.serviceHistoryDeclared', 'listing:info.serviceHistory'],
+        ],
+    },
+    {
+        titleKey: 'dashboard:listingDetail.colors',
+        fields: [
+            ['vehicle.colorAndInterior.exteriorColor', 'listing:info.exteriorColor'],
+            ['vehicle.colorAndInterior.interiorColor', 'listing:info.interiorColor'],
+            ['vehicle.colorAndInterior.upholsteryType', 'listing:info.upholstery'],
+        ],
+    },
+    {
+        titleKey: 'dashboard:listingDetail.location',
+        fields: [
+            ['location.city', 'listing:info.city'],
+            ['location.region', 'listing:info.region'],
+            ['location.postalCode', 'listing:info.postalCode'],
+            ['location.countryCode', 'listing:info.country'],
+        ],
+    },
+    {
+        titleKey: 'dashboard:listingDetail.seller',
+        fields: [
+            ['seller.type', 'listing:info.sellerType'],
+            ['seller.name', 'listing:info.sellerName'],
+            ['seller.phone', 'listing:info.phone'],
+            ['seller.isCompany', 'listing:info.company'],
+        ],
+    },
+    {
+        titleKey: 'dashboard:listingDetail.pricing',
+        fields: [
+            ['currency', 'listing:info.currency'],
+            ['originalPrice', 'listing:info.originalPrice'],
+            ['negotiable', 'listing:info.negotiable'],
+        ],
+    },
+];
+
+/** Input value of a field ('' for null) */
+const toInputValue = (value: EditableFieldValue): string => (value === null ? '' : String(value));
+
+const ListingEditForm: React.FC<ListingEditFormProps> = ({listing, onSave, onCancel}) => {
+    const {t} = useTranslation(['dashboard', 'listing', 'common']);
+    const [values, setValues] = useState<Record<string, string>>(() => Object.fromEntries(
+        Object.keys(EDITABLE_FIELDS).map(path => [path, toInputValue(getFieldValue(listing, path))]),
+    ));
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const setValue = (path: string, value: string) => {
+        setValues(prev => ({...prev, [path]: value}));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+
+        let edited: CarListing;
+        try {
+            edited = applyFieldEdits(listing, values);
+        } catch {
+            setError(t('dashboard:listingDetail.edit.invalid'));
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await onSave(edited);
+        } catch {
+            setError(t('dashboard:listingDetail.edit.failed'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderInput = (path: string, label: string) => {
+        const kind = EDITABLE_FIELDS[path];
+        const id = `edit-${path}`;
+        const className = 'w-full px-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+        if (kind === 'boolean') {
+            return (
+                <select id={id} aria-label={label} value={values[path]}
+                    onChange={(e) => setValue(path, e.target.value)} className={className}>
+                    <option value="">{t('listing:values.unknown')}</option>
+                    <option value="true">{t('listing:values.yes')}</option>
+                    <option value="false">{t('listing:values.no')}</option>
+                </select>
+            );
+        }
+        return (
+            <input id={id} aria-label={label} type={kind === 'number' ? 'number' : 'text'} value={values[path]}
+                onChange={(e) => setValue(path, e.target.value)} className={className}/>
+        );
+    };
+
+    return (
+        <form onSubmit={handleSubmit}>
+            <p className="mb-6 text-sm text-slate-500">{t('dashboard:listingDetail.edit.lockedHint')}</p>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-x-6">
+                {EDIT_SECTIONS.map(section => (
+                    <div key={section.titleKey} className="mb-6">
+                        <h3 className="text-sm font-semibold text-slate-600 uppercase tracking-wider mb-3 border-b border-slate-200 pb-2">
+                            {t(section.titleKey)}
+                        </h3>
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+                            {section.fields.map(([path, labelKey]) => {
+                                const override = listing.fieldOverrides?.[path];
+                                const label = t(labelKey);
+                                return (
+                                    <div key={path}>
+                                        <label htmlFor={`edit-${path}`}
+                                            className="flex items-center gap-1 text-xs text-slate-500 mb-1">
+                                            {override && (
+                                                <Lock className="w-3 h-3 text-blue-500"
+                                                    aria-label={t('dashboard:listingDetail.edit.edited')}/>
+                                            )}
+                                            {label}
+                                        </label>
+                                        {renderInput(path, label)}
+                                        {override && (
+                                            <div className="flex items-center gap-2 mt-1 text-xs text-slate-400">
+                                                <span className="truncate">
+                                                    {t('dashboard:listingDetail.edit.originalValue', {
+                                                        value: toInputValue(override.originalValue) || t('listing:values.unknown'),
+                                                    })}
+                                                </span>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setValue(path, toInputValue(override.originalValue))}
+                                                    className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                                                >
+                                                    <RotateCcw className="w-3 h-3"/>
+                                                    {t('dashboard:listingDetail.edit.revert')}
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                >
+                    {t('dashboard:listingDetail.edit.cancel')}
+                </button>
+                <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin"/>}
+                    {isSaving ? t('dashboard:listingDetail.edit.saving') : t('dashboard:listingDetail.edit.save')}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default ListingEditForm;
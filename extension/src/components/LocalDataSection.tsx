@@ -0,0 +1,125 @@
+/**
+ * Local Data Section Component
+ *
+ * Settings section for local-only mode. While signed out it explains where
+ * the data lives and lets the user leave local mode; after signing in it
+ * offers to merge data left in this browser into the account.
+ */
+
+import React, {useEffect, useState} from 'react';
+import {useTranslation} from 'react-i18next';
+import {AlertCircle, CheckCircle, CloudUpload, HardDrive, Loader2, Trash2} from 'lucide-react';
+import {useAuth} from '@/auth/AuthContext';
+import {useLocalMode} from '@/context/AppContext';
+import {clearLocalData, getLocalDataSummary, LocalDataSummary} from '@/services/localData';
+
+const LocalDataSection: React.FC = () => {
+    const {t} = useTranslation('settings');
+    const auth = useAuth();
+    const {isLocalMode, setLocalMode, mergeLocalData} = useLocalMode();
+    const isLoggedIn = auth.status === 'logged_in';
+
+    const [summary, setSummary] = useState<LocalDataSummary | null>(null);
+    const [merging, setMerging] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // Look for data left over from local mode once signed in
+    useEffect(() => {
+        if (!isLoggedIn) return;
+        getLocalDataSummary()
+            .then(setSummary)
+            .catch((err) => console.warn('[LocalDataSection] Failed to read local data:', err));
+    }, [isLoggedIn]);
+
+    const handleMerge = async () => {
+        setMerging(true);
+        setMessage(null);
+        try {
+            const {added, updated} = await mergeLocalData();
+            setSummary(null);
+            setMessage({type: 'success', text: t('localData.mergeSuccess', {added, updated})});
+        } catch {
+            setMessage({type: 'error', text: t('localData.mergeFailed')});
+        } finally {
+            setMerging(false);
+        }
+    };
+
+    const handleDiscard = async () => {
+        if (!confirm(t('localData.confirmDiscard'))) return;
+        await clearLocalData();
+        setSummary(null);
+    };
+
+    const hasLocalData = summary !== null && (summary.listings > 0 || summary.geminiHistoryEntries > 0);
+    if (!isLocalMode && !hasLocalData && !message) {
+        return null;
+    }
+
+    return (
+        <section className="bg-white shadow-sm rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center gap-2 mb-1">
+                <HardDrive className="w-5 h-5 text-slate-500"/>
+                <h2 className="text-lg font-semibold text-slate-900">{t('localData.title')}</h2>
+            </div>
+
+            {isLocalMode ? (
+                <>
+                    <p className="text-sm text-slate-500 mb-4">{t('localData.localModeDescription')}</p>
+                    <button
+                        type="button"
+                        onClick={() => setLocalMode(false)}
+                        className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                    >
+                        {t('localData.turnOff')}
+                    </button>
+                </>
+            ) : hasLocalData && (
+                <>
+                    <p className="text-sm text-slate-500 mb-4">
+                        {t('localData.mergeDescription', {
+                            listings: summary.listings,
+                            history: summary.geminiHistoryEntries,
+                        })}
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <button
+                            type="button"
+                            onClick={handleMerge}
+                            disabled={merging}
+                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {merging ? <Loader2 className="w-4 h-4 animate-spin"/> : <CloudUpload className="w-4 h-4"/>}
+                            {merging ? t('localData.merging') : t('localData.merge')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleDiscard}
+                            disabled={merging}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            <Trash2 className="w-4 h-4"/>
+                            {t('localData.discard')}
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {message && (
+                <div
+                    className={`mt-3 p-3 rounded-lg text-sm flex items-center gap-2 ${message.type === 'success'
+                        ? 'bg-green-50 border border-green-200 text-green-700'
+                        : 'bg-red-50 border border-red-200 text-red-700'}`}
+                    role={message.type === 'error' ? 'alert' : 'status'}
+                >
+                    {message.type === 'success'
+                        ? <CheckCircle className="w-4 h-4 flex-shrink-0"/>
+                        : <AlertCircle className="w-4 h-4 flex-shrink-0"/>}
+                    <span>{message.text}</span>
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default LocalDataSection;
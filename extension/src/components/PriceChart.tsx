@@ -1,29 +1,65 @@
 import React, {useMemo} from 'react';
-import {CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis} from 'recharts';
+import {CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis} from 'recharts';
 import {useTranslation} from 'react-i18next';
 import {PricePoint} from '../types';
 import {formatEuropeanDateShort, formatEuropeanDateTime} from '../utils/formatters';
-import {deduplicatePricePointsByLocalDay} from '../utils/priceHistory';
+import {deduplicatePricePointsByLocalDay, getLocalDateString} from '../utils/priceHistory';
 
-interface PriceChartProps {
+/**
+ * Price history of one listing drawn as a line in an overlay chart
+ */
+export interface PriceChartSeries {
+    id: string;
+    label: string;
     history: PricePoint[];
     currency: string;
 }
 
-const PriceChart: React.FC<PriceChartProps> = ({history, currency}) => {
+type PriceChartProps =
+    | { history: PricePoint[]; currency: string }
+    | { series: PriceChartSeries[] };
+
+/** Line colors, in series order */
+export const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed'];
+
+type ChartRow = { day: string; date: string; fullDate: string } & Record<string, number | string>;
+
+/**
+ * Merge series into one row per local day, keyed by series ID
+ */
+const buildChartRows = (series: PriceChartSeries[]): ChartRow[] => {
+    const rows = new Map<string, ChartRow>();
+
+    series.forEach(({id, history}) => {
+        // Deduplicate price points by local day to avoid showing multiple points on the same day
+        deduplicatePricePointsByLocalDay(history).forEach((point) => {
+            const day = getLocalDateString(point.date);
+            const row = rows.get(day) ?? {
+                day,
+                date: formatEuropeanDateShort(point.date),
+                fullDate: formatEuropeanDateTime(point.date),
+            };
+            row[id] = point.price;
+            rows.set(day, row);
+        });
+    });
+
+    return Array.from(rows.values()).sort((a, b) => a.day.localeCompare(b.day));
+};
+
+const PriceChart: React.FC<PriceChartProps> = (props) => {
     const {t} = useTranslation('dashboard');
+    const overlaySeries = 'series' in props ? props.series : null;
+    const history = 'history' in props ? props.history : null;
+    const currency = 'currency' in props ? props.currency : '';
+    const isOverlay = overlaySeries !== null;
 
-    // Deduplicate price points by local day to avoid showing multiple points on the same day
-    const deduplicatedHistory = useMemo(
-        () => deduplicatePricePointsByLocalDay(history),
-        [history],
+    const series = useMemo<PriceChartSeries[]>(
+        () => overlaySeries ?? [{id: 'price', label: 'Price', history: history ?? [], currency}],
+        [overlaySeries, history, currency],
     );
 
-    const data = deduplicatedHistory.map(h => ({
-        date: formatEuropeanDateShort(h.date),
-        price: h.price,
-        fullDate: formatEuropeanDateTime(h.date),
-    }));
+    const data = useMemo(() => buildChartRows(series), [series]);
 
     if (data.length < 2) {
         return (
@@ -35,8 +71,10 @@ const PriceChart: React.FC<PriceChartProps> = ({history, currency}) => {
         );
     }
 
+    const currencyById = Object.fromEntries(series.map(s => [s.id, s.currency]));
+
     return (
-        <div className="h-48 w-full">
+        <div className={`${isOverlay ? 'h-72' : 'h-48'} w-full`}>
             <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={data} margin={{top: 5, right: 20, bottom: 5, left: 0}}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false}/>
@@ -59,17 +97,66 @@ const PriceChart: React.FC<PriceChartProps> = ({history, currency}) => {
                             border: 'none',
                             boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)',
                         }}
-                        formatter={(value: number) => [`${value.toLocaleString()} ${currency}`, 'Price']}
+                        formatter={(value: number, name: string, item: { dataKey?: unknown }) => [
+                            `${value.toLocaleString()} ${currencyById[String(item.dataKey)]}`,
+                            name,
+                        ]}
                         labelFormatter={(label) => label}
                     />
-                    <Line
-                        type="monotone"
-                        dataKey="price"
-                        stroke="#2563eb"
-                        strokeWidth={2}
-                        dot={{r: 3, fill: '#2563eb'}}
-                        activeDot={{r: 5}}
+                    {isOverlay && <Legend wrapperStyle={{fontSize: 12}}/>}
+                    {series.map((s, index) => {
+                        const color = SERIES_COLORS[index % SERIES_COLORS.length];
+                        return (
+                            <Line
+                                key={s.id}
+                                type="monotone"
+                                dataKey={s.id}
+                                name={s.label}
+                                stroke={color}
+                                strokeWidth={2}
+                                dot={{r: 3, fill: color}}
+                                activeDot={{r: 5}}
+                                connectNulls
+                            />
+                        );
+                    })}
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
+
+/** Sparkline height in pixels (inline - it also renders on marketplace pages without Tailwind) */
+const SPARKLINE_HEIGHT = 48;
+
+/**
+ * Compact price line without axes, for the price overlay on offer pages.
+ * Renders nothing until there are two days to connect.
+ */
+export const PriceSparkline: React.FC<{ history: PricePoint[]; currency: string; color?: string }> = ({
+    history,
+    currency,
+    color = SERIES_COLORS[0],
+}) => {
+    const data = useMemo(
+        () => buildChartRows([{id: 'price', label: 'Price', history, currency}]),
+        [history, currency],
+    );
+
+    if (data.length < 2) {
+        return null;
+    }
+
+    return (
+        <div style={{width: '100%', height: SPARKLINE_HEIGHT}}>
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} margin={{top: 4, right: 4, bottom: 4, left: 4}}>
+                    <YAxis hide domain={['auto', 'auto']}/>
+                    <Tooltip
+                        formatter={(value: number) => [`${value.toLocaleString()} ${currency}`]}
+                        labelFormatter={(_label, payload) => payload?.[0]?.payload?.fullDate ?? ''}
                     />
+                    <Line type="monotone" dataKey="price" stroke={color} strokeWidth={2} dot={false} connectNulls/>
                 </LineChart>
             </ResponsiveContainer>
         </div>
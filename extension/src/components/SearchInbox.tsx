@@ -0,0 +1,174 @@
+/**
+ * Search Inbox Component
+ *
+ * Shows listings discovered on the user's saved searches since they were
+ * last reviewed. Each match can be tracked with one click (parsed like a
+ * listing added from the popup) or dismissed.
+ */
+
+import React, {useCallback, useState} from 'react';
+import {useTranslation} from 'react-i18next';
+import {BellRing, ExternalLink, Loader2, Plus, RefreshCw, Trash2, X} from 'lucide-react';
+import {SavedSearch, SearchMatch} from '@/types';
+import {formatEuropeanDateTime} from '@/utils/formatters';
+
+export interface SearchInboxProps {
+    searches: SavedSearch[];
+    isChecking: boolean;
+    onCheckNow: () => void;
+    onTrack: (search: SavedSearch, match: SearchMatch) => Promise<void>;
+    onDismiss: (searchId: string, matchId: string) => void;
+    onRemoveSearch: (searchId: string) => void;
+}
+
+const SearchInbox: React.FC<SearchInboxProps> = ({
+    searches,
+    isChecking,
+    onCheckNow,
+    onTrack,
+    onDismiss,
+    onRemoveSearch,
+}) => {
+    const {t} = useTranslation('dashboard');
+    const [trackingIds, setTrackingIds] = useState<Set<string>>(new Set());
+    const [trackErrors, setTrackErrors] = useState<Record<string, string>>({});
+
+    const handleTrack = useCallback(async (search: SavedSearch, match: SearchMatch) => {
+        setTrackingIds(prev => new Set(prev).add(match.id));
+        setTrackErrors(({[match.id]: _removed, ...rest}) => rest);
+        try {
+            await onTrack(search, match);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            setTrackErrors(prev => ({...prev, [match.id]: message}));
+        } finally {
+            setTrackingIds(prev => {
+                const next = new Set(prev);
+                next.delete(match.id);
+                return next;
+            });
+        }
+    }, [onTrack]);
+
+    if (searches.length === 0) {
+        return null;
+    }
+
+    const totalMatches = searches.reduce((sum, search) => sum + search.newMatches.length, 0);
+
+    return (
+        <section className="mb-6 bg-white rounded-xl border border-gray-200 p-4">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="flex items-center gap-2 font-semibold text-gray-900">
+                    <BellRing className="w-4 h-4 text-blue-600"/>
+                    {t('searchInbox.title')}
+                    {totalMatches > 0 && (
+                        <span className="text-xs font-medium bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">
+                            {t('searchInbox.newCount', {count: totalMatches})}
+                        </span>
+                    )}
+                </h2>
+                <button
+                    onClick={onCheckNow}
+                    disabled={isChecking}
+                    className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+                >
+                    <RefreshCw className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`}/>
+                    {isChecking ? t('searchInbox.checking') : t('searchInbox.checkNow')}
+                </button>
+            </div>
+
+            <div className="flex flex-col gap-4">
+                {searches.map(search => (
+                    <div key={search.id}>
+                        <div className="flex items-center justify-between text-sm">
+                            <a
+                                href={search.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-medium text-slate-700 hover:text-blue-600 inline-flex items-center gap-1"
+                            >
+                                {search.name}
+                                <ExternalLink className="w-3 h-3"/>
+                            </a>
+                            <div className="flex items-center gap-3 text-xs text-gray-500">
+                                <span>
+                                    {search.lastCheckedAt
+                                        ? t('searchInbox.lastChecked', {date: formatEuropeanDateTime(search.lastCheckedAt)})
+                                        : t('searchInbox.neverChecked')}
+                                </span>
+                                <button
+                                    onClick={() => onRemoveSearch(search.id)}
+                                    className="text-gray-400 hover:text-red-600"
+                                    title={t('searchInbox.removeSearch')}
+                                    aria-label={t('searchInbox.removeSearch')}
+                                >
+                                    <Trash2 className="w-4 h-4"/>
+                                </button>
+                            </div>
+                        </div>
+
+                        {search.newMatches.length === 0 ? (
+                            <p className="text-xs text-gray-400 mt-1">{t('searchInbox.empty')}</p>
+                        ) : (
+                            <ul className="mt-2 divide-y divide-gray-100">
+                                {search.newMatches.map(match => {
+                                    const isTracking = trackingIds.has(match.id);
+                                    return (
+                                        <li key={match.id} className="flex items-center gap-3 py-2">
+                                            {match.imageUrl && (
+                                                <img
+                                                    src={match.imageUrl}
+                                                    alt=""
+                                                    className="w-16 h-12 object-cover rounded"
+                                                />
+                                            )}
+                                            <div className="flex-1 min-w-0">
+                                                <a
+                                                    href={match.url}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="block text-sm font-medium text-gray-900 truncate hover:text-blue-600"
+                                                >
+                                                    {match.title}
+                                                </a>
+                                                <p className="text-xs text-gray-500">
+                                                    {match.price && <span className="mr-2">{match.price}</span>}
+                                                    {formatEuropeanDateTime(match.discoveredAt)}
+                                                </p>
+                                                {trackErrors[match.id] && (
+                                                    <p className="text-xs text-red-600">{trackErrors[match.id]}</p>
+                                                )}
+                                            </div>
+                                            <button
+                                                onClick={() => handleTrack(search, match)}
+                                                disabled={isTracking}
+                                                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white rounded-lg"
+                                            >
+                                                {isTracking
+                                                    ? <Loader2 className="w-3 h-3 animate-spin"/>
+                                                    : <Plus className="w-3 h-3"/>}
+                                                {isTracking ? t('searchInbox.tracking') : t('searchInbox.track')}
+                                            </button>
+                                            <button
+                                                onClick={() => onDismiss(search.id, match.id)}
+                                                disabled={isTracking}
+                                                className="p-1.5 text-gray-400 hover:text-gray-600"
+                                                title={t('searchInbox.dismiss')}
+                                                aria-label={t('searchInbox.dismiss')}
+                                            >
+                                                <X className="w-4 h-4"/>
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+export default SearchInbox;
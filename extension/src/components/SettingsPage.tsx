@@ -1,18 +1,27 @@
 import React, {useCallback, useEffect, useState} from 'react';
 import {useTranslation} from 'react-i18next';
-import {GeminiCallHistoryEntry, GeminiStats} from '@/types';
-import {useRefreshStatus, useSettings} from '@/context/AppContext';
+import {ConfigurableLlmProviderId, GeminiCallHistoryEntry, GeminiStats} from '@/types';
+import {useLocalMode, useRefreshStatus, useSettings} from '@/context/AppContext';
 import {useAuth} from '@/auth/AuthContext';
 import {clearGeminiLogs, getGeminiHistory, getGeminiStats} from '@/services/settings/geminiStats';
 import {BACKEND_SERVER_OPTIONS} from '@/auth/config';
 import {getBackendServerUrl, setBackendServerUrl} from '@/auth/localServerStorage';
 import {useChromeMessaging} from '@/hooks/useChromeMessaging';
+import {hasConfiguredLlmProvider} from '@/api/client';
+import {
+    DEFAULT_LLM_MODELS,
+    DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+    LLM_PROVIDERS,
+    resolveLlmProvider,
+} from '@/services/llm/config';
 import {
     AlertCircle,
+    BellRing,
     Car,
     CheckCircle,
     Circle,
     Clock,
+    Cpu,
     ExternalLink,
     Key,
     LayoutDashboard,
@@ -22,10 +31,18 @@ import {
     Server,
     Sparkles,
     Trash2,
+    Wallet,
     XCircle,
 } from 'lucide-react';
-import {formatEuropeanDateTimeWithSeconds} from '@/utils/formatters';
-import {GoogleLogo, UserMenu} from '@/components/ui';
+import {formatEuropeanDateTimeWithSeconds, formatUsd} from '@/utils/formatters';
+import {getMonthlyCostUsd} from '@/services/settings/geminiUsage';
+import {GoogleLogo, LocalModeBadge, UserMenu} from '@/components/ui';
+import AlertRuleFields from '@/components/AlertRuleFields';
+import CustomMarketplacesSection from '@/components/CustomMarketplacesSection';
+import ImportSection from '@/components/ImportSection';
+import GeminiUsageChart from '@/components/GeminiUsageChart';
+import LocalDataSection from '@/components/LocalDataSection';
+import {DEFAULT_ALERT_RULES} from '@/services/alerts';
 
 // Frequency steps from 10 seconds to 1 month (in minutes, with fractions for seconds)
 const FREQUENCY_STEPS = [
@@ -119,6 +136,7 @@ const SettingsPage: React.FC = () => {
     const {settings, update: updateSettings, reload: reloadSettings} = useSettings();
     const {status: refreshStatus} = useRefreshStatus();
     const auth = useAuth();
+    const {isLocalMode, setLocalMode} = useLocalMode();
     const {triggerManualRefresh} = useChromeMessaging();
 
     const isLoggedIn = auth.status === 'logged_in';
@@ -261,7 +279,7 @@ const SettingsPage: React.FC = () => {
     }, []);
 
     const handleTriggerManualRefresh = useCallback(async () => {
-        if (!settings.geminiApiKey) return; // Use persisted key, not form key
+        if (!hasConfiguredLlmProvider(settings)) return; // Use persisted settings, not form settings
         setTriggeringRefresh(true);
         try {
             const response = await triggerManualRefresh();
@@ -273,15 +291,15 @@ const SettingsPage: React.FC = () => {
         } finally {
             setTimeout(() => setTriggeringRefresh(false), 1000);
         }
-    }, [triggerManualRefresh, settings.geminiApiKey, t]);
+    }, [triggerManualRefresh, settings, t]);
 
     const handleSave = useCallback(async (event: React.FormEvent) => {
         event.preventDefault();
         setApiKeyError('');
         setSuccessMessage('');
 
-        // Validate API key if provided (not empty)
-        if (formSettings.geminiApiKey.trim()) {
+        // Validate API key if provided (not empty) and used
+        if (resolveLlmProvider(formSettings) === 'gemini' && formSettings.geminiApiKey.trim()) {
             // Only validate if key changed (avoid unnecessary API calls)
             const keyChanged = formSettings.geminiApiKey !== settings.geminiApiKey;
             if (keyChanged) {
@@ -300,13 +318,18 @@ const SettingsPage: React.FC = () => {
         try {
             await updateSettings(formSettings);
 
-            setSuccessMessage(formSettings.geminiApiKey ? t('settings:save.success') : t('settings:save.successWithWarning'));
+            setSuccessMessage(formSettings.geminiApiKey.trim() || hasConfiguredLlmProvider({
+                ...formSettings,
+                geminiApiKeyConfigured: settings.geminiApiKeyConfigured,
+            })
+                ? t('settings:save.success')
+                : t('settings:save.successWithWarning'));
         } catch {
             setApiKeyError(t('settings:save.failed'));
         } finally {
             setSaving(false);
         }
-    }, [formSettings, updateSettings, t, settings.geminiApiKey]);
+    }, [formSettings, updateSettings, t, settings.geminiApiKey, settings.geminiApiKeyConfigured]);
 
     const refreshStats = useCallback(async () => {
         setRefreshing(true);
@@ -317,14 +340,19 @@ const SettingsPage: React.FC = () => {
         setTimeout(() => setRefreshing(false), 500);
     }, []);
 
-    // Persisted API key (what's actually saved)
-    const hasSavedApiKey = !!settings.geminiApiKey;
-    // Form API key (what user is typing)
-    const hasFormApiKey = !!formSettings.geminiApiKey.trim();
+    // Persisted API key (the backend only reports whether one is stored)
+    const hasSavedApiKey = settings.geminiApiKeyConfigured;
+    // Persisted provider can run (Gemini with a key, or a provider that needs none)
+    const hasSavedProvider = hasConfiguredLlmProvider(settings);
+    const formProvider = resolveLlmProvider(formSettings);
+    const usesGemini = formProvider === 'gemini';
+    // Form API key (what user is typing) - an empty field keeps the stored key
+    const hasNewApiKey = !!formSettings.geminiApiKey.trim();
+    const hasFormApiKey = hasNewApiKey || hasSavedApiKey;
     // Check if form has unsaved changes
-    const apiKeyChanged = formSettings.geminiApiKey !== settings.geminiApiKey;
-    // Save button should be disabled if: empty form key, or currently saving/validating
-    const canSave = hasFormApiKey && !saving && !validatingKey;
+    const apiKeyChanged = hasNewApiKey && formSettings.geminiApiKey !== settings.geminiApiKey;
+    // Save button should be disabled if: Gemini without a key, or currently saving/validating
+    const canSave = (!usesGemini || hasFormApiKey) && !saving && !validatingKey;
 
     // Auth loading state
     if (isAuthLoading) {
@@ -338,8 +366,8 @@ const SettingsPage: React.FC = () => {
         );
     }
 
-    // Login required state
-    if (!isLoggedIn) {
+    // Login required state (unless using local-only mode)
+    if (!isLoggedIn && !isLocalMode) {
         return (
             <div className="flex-1 bg-gray-50 min-h-screen flex items-center justify-center">
                 <div className="text-center max-w-md px-6">
@@ -362,6 +390,14 @@ const SettingsPage: React.FC = () => {
                         )}
                         <span>{t('auth:signIn.button')}</span>
                     </button>
+                    <button
+                        onClick={() => setLocalMode(true)}
+                        disabled={auth.isLoggingIn}
+                        className="block mx-auto mt-4 text-sm text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                        {t('auth:localMode.button')}
+                    </button>
+                    <p className="text-slate-400 text-xs mt-1">{t('auth:localMode.hint')}</p>
                     {auth.error && (
                         <p className="text-red-500 text-sm mt-4">{auth.error}</p>
                     )}
@@ -399,6 +435,8 @@ const SettingsPage: React.FC = () => {
                                 onLogout={handleLogout}
                                 variant="dark"
                             />
+                        ) : isLocalMode ? (
+                            <LocalModeBadge onLogin={handleLogin} isLoggingIn={auth.isLoggingIn}/>
                         ) : (
                             <button
                                 onClick={handleLogin}
@@ -430,64 +468,118 @@ const SettingsPage: React.FC = () => {
                 <form onSubmit={handleSave}
                     className="bg-white shadow-sm rounded-xl border border-gray-200 p-6 space-y-6">
 
-                    {/* Gemini API Key */}
+                    {/* LLM Provider */}
                     <div>
                         <label className="block text-sm font-medium text-slate-700 mb-1">
-                            {t('settings:geminiApi.title')}
+                            {t('settings:llmProvider.title')}
                         </label>
-                        <div className="relative">
-                            <Key className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"/>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div className="relative">
+                                <Cpu className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"/>
+                                <select
+                                    aria-label={t('settings:llmProvider.title')}
+                                    value={formProvider}
+                                    onChange={(e) => setFormSettings(prev => ({
+                                        ...prev,
+                                        llmProvider: e.target.value as ConfigurableLlmProviderId,
+                                        llmModel: '',
+                                    }))}
+                                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                    {LLM_PROVIDERS.map((provider) => (
+                                        <option key={provider} value={provider}>
+                                            {t(`settings:llmProvider.names.${provider}`)}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
                             <input
-                                type="password"
-                                value={formSettings.geminiApiKey}
-                                onChange={(e) => {
-                                    setFormSettings(prev => ({...prev, geminiApiKey: e.target.value}));
-                                    setApiKeyError('');
-                                }}
-                                className={`w-full pl-10 pr-4 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                                    apiKeyError ? 'border-red-300 bg-red-50'
-                                        : !hasFormApiKey ? 'border-amber-300 bg-amber-50'
-                                            : apiKeyChanged ? 'border-blue-300 bg-blue-50'
-                                                : 'border-gray-300'
-                                }`}
-                                placeholder={t('settings:geminiApi.placeholder')}
+                                type="text"
+                                aria-label={t('settings:llmProvider.model')}
+                                value={formSettings.llmModel ?? ''}
+                                onChange={(e) => setFormSettings(prev => ({...prev, llmModel: e.target.value}))}
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                placeholder={t('settings:llmProvider.modelPlaceholder', {model: DEFAULT_LLM_MODELS[formProvider]})}
                             />
                         </div>
-                        {apiKeyError ? (
-                            <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
-                                <AlertCircle className="w-3 h-3"/>
-                                {apiKeyError}
-                            </p>
-                        ) : !hasFormApiKey ? (
-                            <p className="text-xs text-amber-600 mt-1 flex items-center gap-1">
-                                <AlertCircle className="w-3 h-3"/>
-                                {t('settings:geminiApi.required')}
-                            </p>
-                        ) : apiKeyChanged ? (
-                            <p className="text-xs text-blue-600 mt-1 flex items-center gap-1">
-                                <AlertCircle className="w-3 h-3"/>
-                                {t('settings:geminiApi.clickToSave')}
-                            </p>
-                        ) : (
-                            <p className="text-xs text-green-600 mt-1 flex items-center gap-1">
-                                <CheckCircle className="w-3 h-3"/>
-                                {t('settings:geminiApi.configured')}
-                            </p>
+                        {!usesGemini && (
+                            <div className="mt-3">
+                                <input
+                                    type="url"
+                                    aria-label={t('settings:llmProvider.baseUrl')}
+                                    value={formSettings.llmBaseUrl ?? ''}
+                                    onChange={(e) => setFormSettings(prev => ({...prev, llmBaseUrl: e.target.value}))}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    placeholder={DEFAULT_OPENAI_COMPATIBLE_BASE_URL}
+                                />
+                                <p className="text-xs text-slate-400 mt-1">{t('settings:llmProvider.baseUrlHint')}</p>
+                            </div>
                         )}
-                        <p className="text-xs text-slate-400 mt-1">
-                            {t('settings:geminiApi.getFrom')}{' '}
-                            <a
-                                href="https://aistudio.google.com/app/apikey"
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="text-blue-600 hover:underline inline-flex items-center gap-1"
-                            >
-                                Google AI Studio
-                                <ExternalLink className="w-3 h-3"/>
-                            </a>
-                        </p>
+                        <p className="text-xs text-slate-400 mt-1">{t('settings:llmProvider.description')}</p>
                     </div>
 
+                    {/* Gemini API Key */}
+                    {usesGemini && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-1">
+                                {t('settings:geminiApi.title')}
+                            </label>
+                            <div className="relative">
+                                <Key className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"/>
+                                <input
+                                    type="password"
+                                    value={formSettings.geminiApiKey}
+                                    onChange={(e) => {
+                                        setFormSettings(prev => ({...prev, geminiApiKey: e.target.value}));
+                                        setApiKeyError('');
+                                    }}
+                                    className={`w-full pl-10 pr-4 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                                        apiKeyError ? 'border-red-300 bg-red-50'
+                                            : !hasFormApiKey ? 'border-amber-300 bg-amber-50'
+                                                : apiKeyChanged ? 'border-blue-300 bg-blue-50'
+                                                    : 'border-gray-300'
+                                    }`}
+                                    placeholder={hasSavedApiKey
+                                        ? t('settings:geminiApi.storedPlaceholder')
+                                        : t('settings:geminiApi.placeholder')}
+                                />
+                            </div>
+                            {apiKeyError ? (
+                                <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                                    <AlertCircle className="w-3 h-3"/>
+                                    {apiKeyError}
+                                </p>
+                            ) : !hasFormApiKey ? (
+                                <p className="text-xs text-amber-600 mt-1 flex items-center gap-1">
+                                    <AlertCircle className="w-3 h-3"/>
+                                    {t('settings:geminiApi.required')}
+                                </p>
+                            ) : apiKeyChanged ? (
+                                <p className="text-xs text-blue-600 mt-1 flex items-center gap-1">
+                                    <AlertCircle className="w-3 h-3"/>
+                                    {t('settings:geminiApi.clickToSave')}
+                                </p>
+                            ) : (
+                                <p className="text-xs text-green-600 mt-1 flex items-center gap-1">
+                                    <CheckCircle className="w-3 h-3"/>
+                                    {t('settings:geminiApi.configured')}
+                                </p>
+                            )}
+                            <p className="text-xs text-slate-400 mt-1">
+                                {t('settings:geminiApi.getFrom')}{' '}
+                                <a
+                                    href="https://aistudio.google.com/app/apikey"
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-600 hover:underline inline-flex items-center gap-1"
+                                >
+                                    Google AI Studio
+                                    <ExternalLink className="w-3 h-3"/>
+                                </a>
+                            </p>
+                        </div>
+                    )}
+
                     {/* Check Frequency */}
                     <div>
                         <label
@@ -556,6 +648,87 @@ const SettingsPage: React.FC = () => {
                         <p className="text-xs text-slate-400 mt-2">{t('settings:endedGracePeriod.description')}</p>
                     </div>
 
+                    {/* Monthly AI Budget */}
+                    <div>
+                        <label htmlFor="monthlyBudgetUsd"
+                            className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-1">
+                            <Wallet className="w-4 h-4 text-slate-500"/>
+                            {t('settings:budget.title')}
+                        </label>
+                        <input
+                            id="monthlyBudgetUsd"
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={formSettings.monthlyBudgetUsd ?? ''}
+                            placeholder={t('settings:budget.placeholder')}
+                            onChange={(e) => {
+                                const budget = parseFloat(e.target.value);
+                                setFormSettings(prev => ({
+                                    ...prev,
+                                    monthlyBudgetUsd: budget > 0 ? budget : null,
+                                }));
+                            }}
+                            className="w-40 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                        <p className="text-xs text-slate-400 mt-2">{t('settings:budget.description')}</p>
+                        <p className="text-xs text-slate-500 mt-1">
+                            {settings.monthlyBudgetUsd
+                                ? t('settings:budget.spent', {
+                                    spent: formatUsd(getMonthlyCostUsd(stats)),
+                                    budget: formatUsd(settings.monthlyBudgetUsd),
+                                })
+                                : t('settings:budget.spentNoBudget', {spent: formatUsd(getMonthlyCostUsd(stats))})}
+                        </p>
+                    </div>
+
+                    {/* Server-Side Refresh (needs listings stored on the server) */}
+                    {!isLocalMode && <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={formSettings.serverRefreshEnabled ?? false}
+                                onChange={(e) => {
+                                    const enabled = e.target.checked;
+                                    setFormSettings(prev => ({
+                                        ...prev,
+                                        serverRefreshEnabled: enabled,
+                                    }));
+                                }}
+                                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <Server className="w-4 h-4 text-slate-500"/>
+                            {t('settings:serverRefresh.title')}
+                        </label>
+                        <p className="text-xs text-slate-400 mt-2">{t('settings:serverRefresh.description')}</p>
+                        {settings.serverRefreshEnabled && (
+                            <p className="text-xs text-slate-500 mt-1">
+                                {t('settings:serverRefresh.lastRun')}{' '}
+                                {settings.lastServerRefreshTime
+                                    ? `${formatEuropeanDateTimeWithSeconds(settings.lastServerRefreshTime)} · ${t('settings:syncStatus.listingsUpdated', {count: settings.lastServerRefreshCount ?? 0})}`
+                                    : t('settings:syncStatus.never')}
+                            </p>
+                        )}
+                    </div>}
+
+                    {/* Alert Rules */}
+                    <div>
+                        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 mb-1">
+                            <BellRing className="w-4 h-4 text-slate-500"/>
+                            {t('settings:alerts.title')}
+                        </label>
+                        <p className="text-xs text-slate-400 mb-3">{t('settings:alerts.description')}</p>
+                        <AlertRuleFields
+                            rule={(formSettings.alertRules ?? DEFAULT_ALERT_RULES).global}
+                            onChange={(rule) => {
+                                setFormSettings(prev => ({
+                                    ...prev,
+                                    alertRules: {...(prev.alertRules ?? DEFAULT_ALERT_RULES), global: rule},
+                                }));
+                            }}
+                        />
+                    </div>
+
                     {/* Save Button */}
                     <button
                         type="submit"
@@ -575,7 +748,7 @@ const SettingsPage: React.FC = () => {
                             {t('settings:syncStatus.title')}
                         </h2>
                         <div className="flex items-center gap-2">
-                            {!hasSavedApiKey ? (
+                            {!hasSavedProvider ? (
                                 <span className="flex items-center gap-1 text-xs text-amber-600">
                                     <AlertCircle className="w-3 h-3"/>
                                     {t('settings:syncStatus.configureApiKeyFirst')}
@@ -584,7 +757,7 @@ const SettingsPage: React.FC = () => {
                                 <button
                                     type="button"
                                     onClick={handleTriggerManualRefresh}
-                                    disabled={triggeringRefresh || refreshStatus.isRefreshing || !hasSavedApiKey}
+                                    disabled={triggeringRefresh || refreshStatus.isRefreshing || !hasSavedProvider}
                                     className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                                 >
                                     {refreshStatus.isRefreshing ? (
@@ -620,6 +793,16 @@ const SettingsPage: React.FC = () => {
                                     {t('settings:syncStatus.listingsUpdated', {count: refreshStatus.lastRefreshCount})}
                                 </p>
                             )}
+                            {(refreshStatus.lastSavedCallCount ?? 0) > 0 && (
+                                <p className="text-xs text-slate-500">
+                                    {t('settings:syncStatus.callsSaved', {count: refreshStatus.lastSavedCallCount})}
+                                </p>
+                            )}
+                            {refreshStatus.pausedByBudget && (
+                                <p className="text-xs text-amber-600 mt-1">
+                                    {t('settings:syncStatus.pausedByBudget')}
+                                </p>
+                            )}
                         </div>
 
                         <div className="bg-slate-50 rounded-lg p-4">
@@ -720,6 +903,15 @@ const SettingsPage: React.FC = () => {
                         setHistory(latestHistory);
                     }}/>
 
+                {/* Local-only mode status, or merging local data after sign-in */}
+                <LocalDataSection/>
+
+                {/* Bulk import from a JSON export or URL list */}
+                <ImportSection/>
+
+                {/* User-defined marketplaces */}
+                <CustomMarketplacesSection/>
+
                 {/* Server Configuration - Always visible, separate from other settings */}
                 <section className="bg-white shadow-sm rounded-xl border border-gray-200 p-6">
                     <div className="flex items-center gap-2 mb-4">
@@ -835,6 +1027,11 @@ const GeminiUsageSection: React.FC<GeminiUsageSectionProps> = ({
                     <span className="text-slate-500">{t('geminiStats.session')}: {stats.totalCalls}</span>
                     <span className="text-green-600">✓ {stats.successCount || 0}</span>
                     <span className="text-red-600">✗ {stats.errorCount || 0}</span>
+                    {(stats.savedCalls ?? 0) > 0 && (
+                        <span className="text-blue-600" title={t('geminiStats.savedCallsHint')}>
+                            {t('geminiStats.savedCalls')}: {stats.savedCalls}
+                        </span>
+                    )}
                     <button
                         type="button"
                         onClick={onRefresh}
@@ -862,6 +1059,8 @@ const GeminiUsageSection: React.FC<GeminiUsageSectionProps> = ({
                 </div>
             </div>
 
+            <GeminiUsageChart stats={stats}/>
+
             <div className="flex gap-2 mb-4">
                 {(['all', 'success', 'error'] as const).map(f => (
                     <button
@@ -902,6 +1101,20 @@ const GeminiUsageSection: React.FC<GeminiUsageSectionProps> = ({
                                     </a>
                                 </div>
                                 <span className="text-xs text-slate-400 shrink-0">
+                                    {entry.provider && (
+                                        <span className="mr-2">
+                                            {t(`llmProvider.names.${entry.provider}`)}{entry.model && ` · ${entry.model}`}
+                                        </span>
+                                    )}
+                                    {entry.promptTokens !== undefined && (
+                                        <span className="mr-2">
+                                            {t('geminiStats.tokens', {
+                                                prompt: entry.promptTokens.toLocaleString(),
+                                                response: (entry.responseTokens ?? 0).toLocaleString(),
+                                            })}
+                                            {entry.costUsd !== undefined && ` · ${formatUsd(entry.costUsd)}`}
+                                        </span>
+                                    )}
                                     {formatEuropeanDateTimeWithSeconds(entry.timestamp)}
                                 </span>
                             </div>
@@ -111,6 +111,24 @@ describe('CarCard', () => {
         });
     });
 
+    describe('relisting', () => {
+        it('flags active cars that were relisted after ending', () => {
+            const relisted = createMockListing({relistedAt: '2024-02-10T10:00:00Z'});
+            render(<CarCard {...defaultProps} listing={relisted}/>);
+
+            expect(screen.getByText('Relisted')).toHaveAttribute(
+                'title',
+                expect.stringContaining('Ended earlier and relisted on'),
+            );
+        });
+
+        it('does not flag listings that were never relisted', () => {
+            render(<CarCard {...defaultProps}/>);
+
+            expect(screen.queryByText('Relisted')).not.toBeInTheDocument();
+        });
+    });
+
     describe('price changes', () => {
         it('shows price drop indicator when price decreased', () => {
             const listingWithPriceDrop = createMockListing({
@@ -157,6 +175,61 @@ describe('CarCard', () => {
         });
     });
 
+    describe('market value', () => {
+        const marketValue = {
+            estimatedPrice: 135000,
+            currency: 'PLN',
+            deviationPercent: -7.4,
+            method: 'regression' as const,
+            features: ['mileage' as const],
+            comparables: [],
+        };
+
+        it('displays the estimated price and deviation', () => {
+            render(<CarCard {...defaultProps} marketValue={marketValue}/>);
+
+            expect(screen.getByText(/Est\. 135,000 PLN/)).toBeInTheDocument();
+            expect(screen.getByText('7% below')).toBeInTheDocument();
+        });
+
+        it('hides the estimate for ended listings', () => {
+            const endedListing = createMockListing({status: ListingStatus.ENDED});
+            render(<CarCard {...defaultProps} listing={endedListing} marketValue={marketValue}/>);
+
+            expect(screen.queryByText(/Est\./)).not.toBeInTheDocument();
+        });
+    });
+
+    describe('comparison', () => {
+        it('does not show the compare toggle without a handler', () => {
+            render(<CarCard {...defaultProps} />);
+
+            expect(screen.queryByTitle('Add to comparison')).not.toBeInTheDocument();
+        });
+
+        it('calls onToggleCompare when the compare toggle is clicked', async () => {
+            const onToggleCompare = jest.fn();
+            const {user} = render(<CarCard {...defaultProps} onToggleCompare={onToggleCompare}/>);
+
+            await user.click(screen.getByTitle('Add to comparison'));
+
+            expect(onToggleCompare).toHaveBeenCalledWith(mockListing);
+        });
+
+        it('marks selected listings and disables the toggle when the set is full', () => {
+            const {rerender} = render(
+                <CarCard {...defaultProps} onToggleCompare={jest.fn()} isComparing={true} compareDisabled={true}/>,
+            );
+
+            expect(screen.getByTitle('Remove from comparison')).toHaveAttribute('aria-pressed', 'true');
+            expect(screen.getByTitle('Remove from comparison')).toBeEnabled();
+
+            rerender(<CarCard {...defaultProps} onToggleCompare={jest.fn()} compareDisabled={true}/>);
+
+            expect(screen.getByTitle('Up to 5 listings can be compared')).toBeDisabled();
+        });
+    });
+
     describe('archived state', () => {
         it('shows archived badge for archived listings', () => {
             const archivedListing = createMockListing({isArchived: true});
@@ -284,6 +357,20 @@ describe('CarCard', () => {
 
             expect(screen.getByText(/last checked/i)).toBeInTheDocument();
         });
+
+        it('marks listings last refreshed by the server', () => {
+            const serverListing = createMockListing({lastRefreshSource: 'server'});
+            render(<CarCard {...defaultProps} listing={serverListing}/>);
+
+            expect(screen.getByTitle(/refreshed by server/i)).toBeInTheDocument();
+        });
+
+        it('does not mark listings refreshed by the extension', () => {
+            const extensionListing = createMockListing({lastRefreshSource: 'extension'});
+            render(<CarCard {...defaultProps} listing={extensionListing}/>);
+
+            expect(screen.queryByTitle(/refreshed by server/i)).not.toBeInTheDocument();
+        });
     });
 
     describe('error indicators', () => {
@@ -263,6 +263,23 @@ describe('CarCardCompact', () => {
         });
     });
 
+    describe('comparison', () => {
+        it('calls onToggleCompare when the compare toggle is clicked', async () => {
+            const onToggleCompare = jest.fn();
+            const {user} = render(<CarCardCompact {...defaultProps} onToggleCompare={onToggleCompare}/>);
+
+            await user.click(screen.getByTitle('Add to comparison'));
+
+            expect(onToggleCompare).toHaveBeenCalledWith(mockListing);
+        });
+
+        it('disables the toggle when the comparison set is full', () => {
+            render(<CarCardCompact {...defaultProps} onToggleCompare={jest.fn()} compareDisabled={true}/>);
+
+            expect(screen.getByTitle('Up to 5 listings can be compared')).toBeDisabled();
+        });
+    });
+
     describe('archived state', () => {
         it('applies reduced opacity for archived listings', () => {
             const archivedListing = createMockListing({isArchived: true});
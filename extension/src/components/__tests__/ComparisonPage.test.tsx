@@ -0,0 +1,143 @@
+/**
+ * ComparisonPage Component Tests
+ *
+ * Tests for the side-by-side listing comparison view.
+ */
+
+import React from 'react';
+import {render, screen, within} from '../../test-utils/renderHelpers';
+import ComparisonPage from '@/components/ComparisonPage';
+import {createMockListing} from '@/test-utils/mockData';
+
+const bmw = createMockListing({id: 'bmw', title: 'BMW 320d 2020', currentPrice: 125000});
+const audi = createMockListing({
+    id: 'audi',
+    title: 'Audi A4 2019',
+    currentPrice: 119000,
+    vehicle: {...bmw.vehicle, make: 'Audi', model: 'A4'},
+});
+const skoda = createMockListing({id: 'skoda', title: 'Skoda Superb 2021'});
+
+const mockUseListings = {
+    listings: [bmw, audi, skoda],
+    isLoading: false,
+};
+
+const mockUseAuth = {
+    status: 'logged_in' as 'logged_in' | 'logged_out' | 'loading',
+};
+
+const mockUseLocalMode = {
+    isLocalMode: false,
+    setLocalMode: jest.fn(),
+    mergeLocalData: jest.fn(),
+};
+
+jest.mock('@/context/AppContext', () => ({
+    useLocalMode: () => mockUseLocalMode,
+    useListings: () => mockUseListings,
+}));
+
+jest.mock('@/auth/AuthContext', () => ({
+    useAuth: () => mockUseAuth,
+}));
+
+// Mock recharts to avoid rendering issues in jsdom
+jest.mock('recharts', () => {
+    const OriginalModule = jest.requireActual('recharts');
+    return {
+        ...OriginalModule,
+        ResponsiveContainer: ({children}: { children: React.ReactNode }) => (
+            <div data-testid="responsive-container" style={{width: 400, height: 200}}>
+                {children}
+            </div>
+        ),
+    };
+});
+
+const openComparison = (ids: string) => {
+    window.history.replaceState({}, '', `/index.html?view=compare&ids=${ids}`);
+};
+
+describe('ComparisonPage', () => {
+    beforeEach(() => {
+        mockUseAuth.status = 'logged_in';
+    });
+
+    it('shows the listings from the URL side by side', () => {
+        openComparison('bmw,audi');
+        render(<ComparisonPage/>);
+
+        expect(screen.getByText('Comparing 2 listings')).toBeInTheDocument();
+        expect(screen.getByText('BMW 320d 2020')).toBeInTheDocument();
+        expect(screen.getByText('Audi A4 2019')).toBeInTheDocument();
+        expect(screen.queryByText('Skoda Superb 2021')).not.toBeInTheDocument();
+    });
+
+    it('highlights rows where the listings differ', () => {
+        openComparison('bmw,audi');
+        render(<ComparisonPage/>);
+
+        const makeRow = screen.getByText('Make').closest('tr')!;
+        const fuelRow = screen.getByText('Fuel type').closest('tr')!;
+
+        expect(makeRow).toHaveAttribute('data-differs', 'true');
+        expect(within(makeRow).getByText('Audi')).toBeInTheDocument();
+        expect(fuelRow).toHaveAttribute('data-differs', 'false');
+    });
+
+    it('formats values with units', () => {
+        openComparison('bmw,audi');
+        render(<ComparisonPage/>);
+
+        const priceRow = screen.getByText('Asking price').closest('tr')!;
+        expect(within(priceRow).getByText('125,000 PLN')).toBeInTheDocument();
+        expect(within(screen.getByText('Mileage').closest('tr')!).getAllByText('45,000 km')).toHaveLength(2);
+        expect(within(screen.getByText('Imported').closest('tr')!).getAllByText('Yes')).toHaveLength(2);
+    });
+
+    it('can hide rows without differences', async () => {
+        openComparison('bmw,audi');
+        const {user} = render(<ComparisonPage/>);
+
+        await user.click(screen.getByLabelText('Show only differences'));
+
+        expect(screen.getByText('Make')).toBeInTheDocument();
+        expect(screen.queryByText('Fuel type')).not.toBeInTheDocument();
+    });
+
+    it('overlays the price histories on one chart', () => {
+        openComparison('bmw,audi');
+        render(<ComparisonPage/>);
+
+        expect(screen.getByText('Price History')).toBeInTheDocument();
+        expect(screen.getByTestId('responsive-container')).toBeInTheDocument();
+    });
+
+    it('removes a listing and updates the URL', async () => {
+        openComparison('bmw,audi,skoda');
+        const {user} = render(<ComparisonPage/>);
+
+        await user.click(screen.getAllByTitle('Remove from comparison')[2]);
+
+        expect(screen.queryByText('Skoda Superb 2021')).not.toBeInTheDocument();
+        expect(window.location.search).toBe('?view=compare&ids=bmw,audi');
+    });
+
+    it('explains when fewer than two listings can be compared', () => {
+        openComparison('bmw,deleted');
+        render(<ComparisonPage/>);
+
+        expect(screen.getByText('1 selected listings are no longer tracked')).toBeInTheDocument();
+        expect(screen.getByText(/Select at least 2 tracked listings/)).toBeInTheDocument();
+        expect(screen.queryByRole('table')).not.toBeInTheDocument();
+    });
+
+    it('asks to sign in when logged out', () => {
+        mockUseAuth.status = 'logged_out';
+        openComparison('bmw,audi');
+        render(<ComparisonPage/>);
+
+        expect(screen.getByText(/Please sign in/)).toBeInTheDocument();
+    });
+});
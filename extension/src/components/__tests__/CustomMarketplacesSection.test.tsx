@@ -0,0 +1,123 @@
+/**
+ * CustomMarketplacesSection Component Tests
+ *
+ * Tests for the settings section that manages user-defined marketplaces.
+ */
+
+import React from 'react';
+import {render, screen, waitFor} from '../../test-utils/renderHelpers';
+import CustomMarketplacesSection from '@/components/CustomMarketplacesSection';
+import {CustomMarketplace} from '@/types';
+
+const EXISTING: CustomMarketplace = {
+    id: 'custom-auctions.example.com',
+    name: 'Example Auctions',
+    domains: ['auctions.example.com'],
+    offerPagePatterns: ['/lot/'],
+    excludePatterns: [],
+    neverFetch: true,
+};
+
+const mockUseSettings = {
+    settings: {customMarketplaces: [] as CustomMarketplace[]},
+    updateCustomMarketplaces: jest.fn(),
+};
+
+jest.mock('@/context/AppContext', () => ({
+    useSettings: () => mockUseSettings,
+}));
+
+const fillForm = async (user: ReturnType<typeof render>['user']) => {
+    await user.type(screen.getByRole('textbox', {name: 'Marketplace name'}), 'Example Cars');
+    await user.type(screen.getByRole('textbox', {name: 'Domains'}), 'cars.example.com');
+    await user.type(screen.getByRole('textbox', {name: 'Offer page URL patterns'}), '/offer/');
+};
+
+describe('CustomMarketplacesSection', () => {
+    beforeEach(() => {
+        mockUseSettings.settings.customMarketplaces = [];
+        mockUseSettings.updateCustomMarketplaces.mockResolvedValue(undefined);
+    });
+
+    it('lists saved custom marketplaces', () => {
+        mockUseSettings.settings.customMarketplaces = [EXISTING];
+
+        render(<CustomMarketplacesSection/>);
+
+        expect(screen.getByText('Example Auctions')).toBeInTheDocument();
+        expect(screen.getByText(/auctions\.example\.com · not refreshed in the background/)).toBeInTheDocument();
+    });
+
+    it('adds a marketplace after host access is granted', async () => {
+        mockUseSettings.settings.customMarketplaces = [EXISTING];
+        const {user} = render(<CustomMarketplacesSection/>);
+
+        await fillForm(user);
+        await user.click(screen.getByRole('button', {name: 'Add marketplace'}));
+
+        await waitFor(() => {
+            expect(mockUseSettings.updateCustomMarketplaces).toHaveBeenCalledWith([
+                EXISTING,
+                expect.objectContaining({id: 'custom-cars.example.com', domains: ['cars.example.com']}),
+            ]);
+        });
+        expect(chrome.permissions.request).toHaveBeenCalledWith({origins: ['https://cars.example.com/*']});
+        expect(screen.getByRole('textbox', {name: 'Marketplace name'})).toHaveValue('');
+    });
+
+    it('does not add a marketplace when host access is denied', async () => {
+        (chrome.permissions.request as jest.Mock).mockResolvedValueOnce(false);
+        const {user} = render(<CustomMarketplacesSection/>);
+
+        await fillForm(user);
+        await user.click(screen.getByRole('button', {name: 'Add marketplace'}));
+
+        expect(await screen.findByRole('alert')).toHaveTextContent('was not granted');
+        expect(mockUseSettings.updateCustomMarketplaces).not.toHaveBeenCalled();
+    });
+
+    it('shows validation errors without asking for access', async () => {
+        const {user} = render(<CustomMarketplacesSection/>);
+
+        await user.click(screen.getByRole('button', {name: 'Add marketplace'}));
+
+        expect(screen.getByRole('alert')).toHaveTextContent('Enter a marketplace name.');
+        expect(chrome.permissions.request).not.toHaveBeenCalled();
+    });
+
+    it('offers to grant access to a marketplace synced without it', async () => {
+        (chrome.permissions.contains as jest.Mock).mockResolvedValue(false);
+        mockUseSettings.settings.customMarketplaces = [EXISTING];
+        const {user} = render(<CustomMarketplacesSection/>);
+
+        await user.click(await screen.findByRole('button', {name: 'Grant access'}));
+
+        expect(chrome.permissions.request).toHaveBeenCalledWith({origins: ['https://auctions.example.com/*']});
+        await waitFor(() => {
+            expect(screen.queryByRole('button', {name: 'Grant access'})).not.toBeInTheDocument();
+        });
+    });
+
+    it('does not offer access that is already granted', async () => {
+        mockUseSettings.settings.customMarketplaces = [EXISTING];
+
+        render(<CustomMarketplacesSection/>);
+
+        await waitFor(() => {
+            expect(chrome.permissions.contains).toHaveBeenCalled();
+        });
+        expect(screen.queryByRole('button', {name: 'Grant access'})).not.toBeInTheDocument();
+    });
+
+    it('removes a marketplace and releases its host access', async () => {
+        mockUseSettings.settings.customMarketplaces = [EXISTING];
+        const {user} = render(<CustomMarketplacesSection/>);
+
+        await user.click(screen.getByRole('button', {name: 'Remove Example Auctions'}));
+
+        await waitFor(() => {
+            expect(chrome.permissions.remove).toHaveBeenCalledWith({origins: ['https://auctions.example.com/*']});
+        });
+        expect(mockUseSettings.updateCustomMarketplaces).toHaveBeenCalledWith([]);
+    });
+});
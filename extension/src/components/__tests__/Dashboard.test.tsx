@@ -34,7 +34,8 @@ const mockUseListings = {
 
 const mockUseSettings = {
     settings: {
-        geminiApiKey: 'test-key',
+        geminiApiKey: '',
+        geminiApiKeyConfigured: true,
         checkFrequencyMinutes: 60,
         dashboardPreferences: {
             viewMode: 'grid',
@@ -48,7 +49,7 @@ const mockUseSettings = {
 };
 
 const mockUseAuth = {
-    status: 'logged_in' as const,
+    status: 'logged_in' as 'logged_in' | 'logged_out',
     user: {email: 'test@example.com', name: 'Test User'},
     login: jest.fn(),
     logout: jest.fn(),
@@ -57,7 +58,14 @@ const mockUseAuth = {
     clearError: jest.fn(),
 };
 
+const mockUseLocalMode = {
+    isLocalMode: false,
+    setLocalMode: jest.fn(),
+    mergeLocalData: jest.fn(),
+};
+
 jest.mock('@/context/AppContext', () => ({
+    useLocalMode: () => mockUseLocalMode,
     useListings: () => mockUseListings,
     useSettings: () => mockUseSettings,
 }));
@@ -70,6 +78,20 @@ jest.mock('@/api/client', () => ({
     patchRemoteSettings: jest.fn().mockResolvedValue({}),
 }));
 
+jest.mock('@/hooks/useSavedSearches', () => ({
+    useSavedSearches: () => ({
+        searches: [],
+        isChecking: false,
+        checkNow: jest.fn(),
+        dismissMatch: jest.fn(),
+        remove: jest.fn(),
+    }),
+}));
+
+jest.mock('@/services/gemini', () => ({
+    parseCarDataWithGemini: jest.fn(),
+}));
+
 // Mock recharts
 jest.mock('recharts', () => {
     const OriginalModule = jest.requireActual('recharts');
@@ -179,6 +201,60 @@ describe('Dashboard', () => {
         });
     });
 
+    describe('local mode', () => {
+        afterEach(() => {
+            mockUseAuth.status = 'logged_in';
+            mockUseLocalMode.isLocalMode = false;
+        });
+
+        it('offers local mode on the sign-in screen', async () => {
+            mockUseAuth.status = 'logged_out';
+            const {user} = render(<Dashboard/>);
+
+            await user.click(screen.getByRole('button', {name: 'Use without an account'}));
+
+            expect(mockUseLocalMode.setLocalMode).toHaveBeenCalledWith(true);
+        });
+
+        it('shows local listings with the local mode badge when signed out', () => {
+            mockUseAuth.status = 'logged_out';
+            mockUseLocalMode.isLocalMode = true;
+            render(<Dashboard/>);
+
+            expect(screen.getByText('Local mode')).toBeInTheDocument();
+            expect(screen.getByRole('button', {name: 'Sign in to sync'})).toBeInTheDocument();
+            expect(screen.queryByText(/test@example.com/i)).not.toBeInTheDocument();
+        });
+    });
+
+    describe('comparison selection', () => {
+        it('links to the comparison view once two listings are selected', async () => {
+            const {user} = render(<Dashboard/>);
+
+            const [first, second] = screen.getAllByTitle('Add to comparison');
+            await user.click(first);
+
+            expect(screen.getByText('1 of 5 selected for comparison')).toBeInTheDocument();
+            expect(screen.queryByRole('link', {name: 'Compare'})).not.toBeInTheDocument();
+
+            await user.click(second);
+
+            expect(screen.getByRole('link', {name: 'Compare'})).toHaveAttribute(
+                'href',
+                expect.stringMatching(/^index\.html\?view=compare&ids=(1,2|2,1)$/),
+            );
+        });
+
+        it('clears the selection', async () => {
+            const {user} = render(<Dashboard/>);
+
+            await user.click(screen.getAllByTitle('Add to comparison')[0]);
+            await user.click(screen.getByTitle('Clear selection'));
+
+            expect(screen.queryByText(/selected for comparison/)).not.toBeInTheDocument();
+        });
+    });
+
     describe('navigation', () => {
         it('has settings link', () => {
             render(<Dashboard/>);
@@ -0,0 +1,56 @@
+/**
+ * ExportMenu Component Tests
+ *
+ * Tests for the dashboard export dropdown.
+ */
+
+import React from 'react';
+import {render, screen} from '../../test-utils/renderHelpers';
+import ExportMenu from '@/components/ExportMenu';
+import {createListingsExport, downloadExportFile} from '@/services/export';
+import {createMockListing} from '@/test-utils/mockData';
+
+jest.mock('@/services/export', () => ({
+    ...jest.requireActual('@/services/export'),
+    createListingsExport: jest.fn(() => ({filename: 'export.csv', mimeType: 'text/csv', content: ''})),
+    downloadExportFile: jest.fn(),
+}));
+
+describe('ExportMenu', () => {
+    const listings = [createMockListing({id: 'listing-1'}), createMockListing({id: 'listing-2'})];
+
+    it('shows how many listings will be exported', async () => {
+        const {user} = render(<ExportMenu listings={listings}/>);
+
+        await user.click(screen.getByRole('button', {name: /Export/}));
+
+        expect(screen.getByText('Export 2 listings matching the current filters')).toBeInTheDocument();
+    });
+
+    it('exports the latest prices in the chosen format', async () => {
+        const {user} = render(<ExportMenu listings={listings}/>);
+
+        await user.click(screen.getByRole('button', {name: /Export/}));
+        await user.click(screen.getByRole('menuitem', {name: 'CSV'}));
+
+        expect(createListingsExport).toHaveBeenCalledWith(listings, 'csv', 'latest');
+        expect(downloadExportFile).toHaveBeenCalledWith(expect.objectContaining({filename: 'export.csv'}));
+        expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    });
+
+    it('exports one row per price change when requested', async () => {
+        const {user} = render(<ExportMenu listings={listings}/>);
+
+        await user.click(screen.getByRole('button', {name: /Export/}));
+        await user.click(screen.getByLabelText('One row per price change'));
+        await user.click(screen.getByRole('menuitem', {name: 'Excel (XLSX)'}));
+
+        expect(createListingsExport).toHaveBeenCalledWith(listings, 'xlsx', 'history');
+    });
+
+    it('is disabled without listings', () => {
+        render(<ExportMenu listings={[]}/>);
+
+        expect(screen.getByRole('button', {name: /Export/})).toBeDisabled();
+    });
+});
@@ -23,7 +23,8 @@ const mockUseListings = {
 
 const mockUseSettings = {
     settings: {
-        geminiApiKey: 'test-key',
+        geminiApiKey: '',
+        geminiApiKeyConfigured: true,
         checkFrequencyMinutes: 60,
     },
     isLoading: false,
@@ -40,7 +41,14 @@ const mockUseAuth = {
     clearError: jest.fn(),
 };
 
+const mockUseLocalMode = {
+    isLocalMode: false,
+    setLocalMode: jest.fn(),
+    mergeLocalData: jest.fn(),
+};
+
 jest.mock('@/context/AppContext', () => ({
+    useLocalMode: () => mockUseLocalMode,
     useListings: () => mockUseListings,
     useSettings: () => mockUseSettings,
 }));
@@ -66,10 +74,16 @@ const mockUseExtensionNavigation = {
     openSettings: jest.fn(),
 };
 
+const mockUseSavedSearches = {
+    searches: [],
+    watch: jest.fn(),
+};
+
 jest.mock('@/hooks', () => ({
     useCurrentTab: () => mockUseCurrentTab,
     usePageContent: () => mockUsePageContent,
     useExtensionNavigation: () => mockUseExtensionNavigation,
+    useSavedSearches: () => mockUseSavedSearches,
 }));
 
 // Mock Gemini service
@@ -209,6 +223,28 @@ describe('ExtensionPopup', () => {
         });
     });
 
+    describe('on marketplace search page', () => {
+        beforeEach(() => {
+            mockUseCurrentTab.tab = {url: 'https://www.otomoto.pl/osobowe/bmw/seria-3'};
+        });
+
+        afterEach(() => {
+            mockUseCurrentTab.tab = {url: 'https://www.otomoto.pl/oferta/test-listing'};
+        });
+
+        it('offers to watch the search', async () => {
+            const {user} = render(<ExtensionPopup/>);
+
+            await user.click(screen.getByRole('button', {name: 'Watch search'}));
+
+            expect(mockUseSavedSearches.watch).toHaveBeenCalledWith(
+                'https://www.otomoto.pl/osobowe/bmw/seria-3',
+                undefined,
+                undefined,
+            );
+        });
+    });
+
     describe('navigation', () => {
         it('has dashboard link', () => {
             render(<ExtensionPopup/>);
@@ -0,0 +1,136 @@
+/**
+ * ImportSection Component Tests
+ *
+ * Tests for the settings section that imports listings from a JSON file or URL list.
+ */
+
+import React from 'react';
+import {fireEvent, render, screen, waitFor} from '../../test-utils/renderHelpers';
+import ImportSection from '@/components/ImportSection';
+import {createMockListing} from '@/test-utils/mockData';
+import {importListingFromUrl} from '@/services/import';
+
+const mockUseListings = {
+    listings: [createMockListing({
+        source: {
+            platform: 'otomoto.pl',
+            url: 'https://www.otomoto.pl/osobowe/oferta/tracked.html',
+            listingId: 'tracked',
+            countryCode: 'PL',
+        },
+    })],
+    add: jest.fn().mockResolvedValue(undefined),
+    importListings: jest.fn(),
+};
+
+jest.mock('@/context/AppContext', () => ({
+    useListings: () => mockUseListings,
+}));
+
+jest.mock('@/services/import', () => ({
+    ...jest.requireActual('@/services/import/listingImport'),
+    ...jest.requireActual('@/services/import/urlImport'),
+    importListingFromUrl: jest.fn(),
+}));
+
+jest.mock('@/services/gemini', () => ({
+    ...jest.requireActual('@/services/gemini/errors'),
+    parseCarDataWithGemini: jest.fn(),
+}));
+
+const mockImportListingFromUrl = importListingFromUrl as jest.MockedFunction<typeof importListingFromUrl>;
+
+const selectFile = (content: string) => {
+    const file = new File([content], 'listings.json', {type: 'application/json'});
+    fireEvent.change(screen.getByTestId('import-file-input'), {target: {files: [file]}});
+};
+
+describe('ImportSection', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('JSON file import', () => {
+        it('imports listings from the selected file and shows the summary', async () => {
+            mockUseListings.importListings.mockResolvedValue({added: 2, updated: 1});
+            render(<ImportSection/>);
+
+            selectFile(JSON.stringify([createMockListing({id: 'a'}), createMockListing({id: 'b'})]));
+
+            expect(await screen.findByText('Import complete: 2 added, 1 updated')).toBeInTheDocument();
+            expect(mockUseListings.importListings).toHaveBeenCalledWith([
+                expect.objectContaining({id: 'a'}),
+                expect.objectContaining({id: 'b'}),
+            ]);
+        });
+
+        it('shows validation errors without importing', async () => {
+            render(<ImportSection/>);
+
+            selectFile('[{"id": "broken"}]');
+
+            expect(await screen.findByRole('alert')).toHaveTextContent(
+                'File not imported: 1 of 1 listings do not match the listing schema',
+            );
+            expect(screen.getByText(/Listing broken: missing "title"/)).toBeInTheDocument();
+            expect(mockUseListings.importListings).not.toHaveBeenCalled();
+        });
+
+        it('shows a generic error when saving fails', async () => {
+            mockUseListings.importListings.mockRejectedValue(new Error('Network error'));
+            render(<ImportSection/>);
+
+            selectFile(JSON.stringify([createMockListing()]));
+
+            expect(await screen.findByText('Import failed. Please try again.')).toBeInTheDocument();
+        });
+    });
+
+    describe('URL list import', () => {
+        it('disables start until URLs are entered', () => {
+            render(<ImportSection/>);
+
+            expect(screen.getByRole('button', {name: /start import/i})).toBeDisabled();
+        });
+
+        it('imports new URLs and reports skipped ones', async () => {
+            const parsed = createMockListing({id: 'new'});
+            mockImportListingFromUrl.mockResolvedValue(parsed);
+            const {user} = render(<ImportSection/>);
+
+            await user.type(
+                screen.getByLabelText('From listing URLs'),
+                'https://www.otomoto.pl/osobowe/oferta/new.html{enter}https://www.otomoto.pl/osobowe/oferta/tracked.html',
+            );
+            await user.click(screen.getByRole('button', {name: /start import/i}));
+
+            expect(await screen.findByText('1 imported, 0 failed, 0 skipped')).toBeInTheDocument();
+            expect(mockImportListingFromUrl).toHaveBeenCalledWith('https://www.otomoto.pl/osobowe/oferta/new.html');
+            expect(mockUseListings.add).toHaveBeenCalledWith(parsed);
+            expect(screen.getByText('https://www.otomoto.pl/osobowe/oferta/tracked.html: already tracked')).toBeInTheDocument();
+        });
+
+        it('lists URLs that failed to import', async () => {
+            mockImportListingFromUrl.mockRejectedValue(new Error('Listing has expired'));
+            const {user} = render(<ImportSection/>);
+
+            await user.type(screen.getByLabelText('From listing URLs'), 'https://www.otomoto.pl/osobowe/oferta/gone.html');
+            await user.click(screen.getByRole('button', {name: /start import/i}));
+
+            await waitFor(() => {
+                expect(screen.getByRole('alert')).toHaveTextContent('0 imported, 1 failed, 0 skipped');
+            });
+            expect(screen.getByText('https://www.otomoto.pl/osobowe/oferta/gone.html: Listing has expired')).toBeInTheDocument();
+        });
+
+        it('reports when there is nothing new to import', async () => {
+            const {user} = render(<ImportSection/>);
+
+            await user.type(screen.getByLabelText('From listing URLs'), 'https://www.otomoto.pl/osobowe/oferta/tracked.html');
+            await user.click(screen.getByRole('button', {name: /start import/i}));
+
+            expect(screen.getByText('No new listing URLs to import')).toBeInTheDocument();
+            expect(mockImportListingFromUrl).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -7,6 +7,7 @@
 import React from 'react';
 import {render, screen} from '../../test-utils/renderHelpers';
 import ListingDetailModal from '@/components/ListingDetailModal';
+import {EDITABLE_FIELDS} from '@/services/listingEdits';
 import {createMockListing} from '@/test-utils/mockData';
 import {ListingStatus} from '@/types';
 
@@ -369,5 +370,270 @@ describe('ListingDetailModal', () => {
             expect(screen.getByText(/posted.*unknown/i)).toBeInTheDocument();
         });
     });
-});
 
+    describe('market value', () => {
+        it('lists the comparables used for the estimate', () => {
+            render(
+                <ListingDetailModal
+                    {...defaultProps}
+                    marketValue={{
+                        estimatedPrice: 120000,
+                        currency: 'PLN',
+                        deviationPercent: 4.2,
+                        method: 'regression',
+                        features: ['mileage', 'powerHp'],
+                        comparables: [
+                            {
+                                listingId: 'comparable-1',
+                                title: 'BMW 320d Sport Line',
+                                url: 'https://www.otomoto.pl/comparable-1',
+                                price: 118000,
+                                currency: 'PLN',
+                                mileageKm: 60000,
+                                powerHp: 190,
+                                productionYear: 2019,
+                            },
+                        ],
+                    }}
+                />,
+            );
+
+            expect(screen.getByText('Market Value')).toBeInTheDocument();
+            expect(screen.getByText('Price model fitted on mileage, power')).toBeInTheDocument();
+            expect(screen.getByText('Comparable listings used (1)')).toBeInTheDocument();
+            expect(screen.getByRole('link', {name: 'BMW 320d Sport Line'})).toHaveAttribute(
+                'href',
+                'https://www.otomoto.pl/comparable-1',
+            );
+            expect(screen.getByText('118,000 PLN')).toBeInTheDocument();
+        });
+
+        it('hides the section without an estimate', () => {
+            render(<ListingDetailModal {...defaultProps}/>);
+
+            expect(screen.queryByText('Market Value')).not.toBeInTheDocument();
+        });
+    });
+
+    describe('field evidence', () => {
+        it('flags low-confidence fields for review', () => {
+            const listing = createMockListing({
+                vehicleEvidence: {
+                    vin: {snippet: 'VIN WBAXXXXXXXX123456', confidence: 0.95, source: 'ai'},
+                    engineCapacity: {snippet: 'Pojemność -1.0 L', confidence: 0.3, source: 'ai'},
+                },
+            });
+            render(<ListingDetailModal {...defaultProps} listing={listing}/>);
+
+            expect(screen.getByText('Needs review')).toBeInTheDocument();
+            expect(screen.getByText(/unsure about: Engine Capacity\./)).toBeInTheDocument();
+            expect(screen.getByLabelText('Low confidence - check this value')).toBeInTheDocument();
+        });
+
+        it('shows the source snippet and confidence on hover', () => {
+            const listing = createMockListing({
+                vehicleEvidence: {
+                    vin: {snippet: 'VIN WBAXXXXXXXX123456', confidence: 0.95, source: 'ai'},
+                    mileage: {snippet: null, confidence: 1, source: 'page'},
+                },
+            });
+            render(<ListingDetailModal {...defaultProps} listing={listing}/>);
+
+            const tooltips = screen.getAllByRole('tooltip', {hidden: true});
+            expect(tooltips[0]).toHaveTextContent('"VIN WBAXXXXXXXX123456"Confidence: 95%');
+            expect(tooltips[1]).toHaveTextContent('Read from the page markupConfidence: 100%');
+            expect(screen.queryByText('Needs review')).not.toBeInTheDocument();
+        });
+    });
+
+    describe('seen before', () => {
+        it('lists earlier listings of the same VIN, newest first', () => {
+            const listing = createMockListing({
+                source: {
+                    platform: 'www.mobile.de',
+                    url: 'https://www.mobile.de/relisted-car',
+                    listingId: 'mobile-987',
+                    countryCode: 'DE',
+                },
+                relistedAt: '2024-02-10T10:00:00Z',
+                sourceHistory: [
+                    {
+                        url: 'https://www.otomoto.pl/original-listing',
+                        platform: 'www.otomoto.pl',
+                        listingId: 'otomoto-1',
+                        sellerName: 'Auto Handel Nowak',
+                        sellerType: 'dealer',
+                        price: 131000,
+                        currency: 'PLN',
+                        firstSeenAt: '2023-12-01T10:00:00Z',
+                        lastSeenAt: '2024-01-05T10:00:00Z',
+                        status: ListingStatus.ENDED,
+                    },
+                    {
+                        url: 'https://www.mobile.de/relisted-car',
+                        platform: 'www.mobile.de',
+                        listingId: 'mobile-987',
+                        sellerName: 'BMW Premium Selection',
+                        sellerType: 'dealer',
+                        price: 125000,
+                        currency: 'PLN',
+                        firstSeenAt: '2024-02-10T10:00:00Z',
+                        lastSeenAt: '2024-02-10T10:00:00Z',
+                        status: ListingStatus.ACTIVE,
+                    },
+                ],
+            });
+            render(<ListingDetailModal {...defaultProps} listing={listing}/>);
+
+            expect(screen.getByText('Seen before')).toBeInTheDocument();
+            expect(screen.getByText(/appeared under 2 listings/)).toBeInTheDocument();
+            expect(screen.getByText(/Relisted after ending on/)).toBeInTheDocument();
+
+            const rows = screen.getAllByRole('row').filter(row => row.textContent?.includes('Auto Handel Nowak')
+                || row.textContent?.includes('Current'));
+            expect(rows).toHaveLength(2);
+            expect(rows[0]).toHaveTextContent('Current');
+            expect(rows[1]).toHaveTextContent('131,000 PLN');
+            expect(screen.getByRole('link', {name: /OTOMOTO/i})).toHaveAttribute(
+                'href',
+                'https://www.otomoto.pl/original-listing',
+            );
+        });
+
+        it('hides the section for listings seen under a single URL', () => {
+            render(<ListingDetailModal {...defaultProps}/>);
+
+            expect(screen.queryByText('Seen before')).not.toBeInTheDocument();
+        });
+    });
+
+    describe('alert rule', () => {
+        it('hides the alert section without a save handler', () => {
+            render(<ListingDetailModal {...defaultProps}/>);
+
+            expect(screen.queryByText('Alerts')).not.toBeInTheDocument();
+        });
+
+        it('saves a custom rule for the listing', async () => {
+            const onSaveAlertRule = jest.fn().mockResolvedValue(undefined);
+            const {user} = render(<ListingDetailModal {...defaultProps} onSaveAlertRule={onSaveAlertRule}/>);
+
+            expect(screen.getByText('This listing uses the global alert rule from settings.')).toBeInTheDocument();
+
+            await user.click(screen.getByLabelText('Use a custom alert rule for this listing'));
+            await user.type(screen.getByLabelText('Price fell to or below'), '40000');
+            await user.click(screen.getByLabelText('Listing ended (sold or expired)'));
+            await user.click(screen.getByRole('button', {name: 'Save alert rule'}));
+
+            expect(onSaveAlertRule).toHaveBeenCalledWith({
+                priceDropPercent: null,
+                priceDropAmount: null,
+                targetPrice: 40000,
+                notifyOnEnded: true,
+                notifyOnRelisted: false,
+            });
+            expect(await screen.findByText('Alert rule saved')).toBeInTheDocument();
+        });
+
+        it('reverts to the global rule', async () => {
+            const onSaveAlertRule = jest.fn().mockResolvedValue(undefined);
+            const alertRule = {
+                priceDropPercent: 5,
+                priceDropAmount: null,
+                targetPrice: null,
+                notifyOnEnded: false,
+                notifyOnRelisted: false,
+            };
+            const {user} = render(
+                <ListingDetailModal {...defaultProps} alertRule={alertRule} onSaveAlertRule={onSaveAlertRule}/>,
+            );
+
+            await user.click(screen.getByLabelText('Use a custom alert rule for this listing'));
+            await user.click(screen.getByRole('button', {name: 'Save alert rule'}));
+
+            expect(onSaveAlertRule).toHaveBeenCalledWith(null);
+        });
+    });
+
+    describe('editing', () => {
+        const editedListing = createMockListing({
+            vehicle: {...mockListing.vehicle, make: 'Audi'},
+            vehicleEvidence: {vin: {snippet: null, confidence: 0.9, source: 'ai'}},
+            fieldOverrides: {
+                'vehicle.make': {value: 'Audi', originalValue: 'BMW', editedAt: '2024-01-20T10:00:00Z'},
+            },
+        });
+
+        it('hides the edit button without a save handler', () => {
+            render(<ListingDetailModal {...defaultProps}/>);
+
+            expect(screen.queryByRole('button', {name: 'Edit'})).not.toBeInTheDocument();
+        });
+
+        it('shows an input for every editable field', async () => {
+            const {user} = render(<ListingDetailModal {...defaultProps} onSaveListing={jest.fn()}/>);
+
+            await user.click(screen.getByRole('button', {name: 'Edit'}));
+
+            const inputs = [
+                ...screen.getAllByRole('textbox'),
+                ...screen.getAllByRole('spinbutton'),
+                ...screen.getAllByRole('combobox'),
+            ];
+            expect(inputs).toHaveLength(Object.keys(EDITABLE_FIELDS).length);
+        });
+
+        it('saves corrections as locked fields', async () => {
+            const onSaveListing = jest.fn().mockResolvedValue(undefined);
+            const {user} = render(<ListingDetailModal {...defaultProps} onSaveListing={onSaveListing}/>);
+
+            await user.click(screen.getByRole('button', {name: 'Edit'}));
+            await user.clear(screen.getByLabelText('Make'));
+            await user.type(screen.getByLabelText('Make'), 'Audi');
+            await user.selectOptions(screen.getByLabelText('Imported'), 'true');
+            await user.click(screen.getByRole('button', {name: 'Save changes'}));
+
+            const saved = onSaveListing.mock.calls[0][0];
+            expect(saved.vehicle.make).toBe('Audi');
+            expect(saved.vehicle.condition.isImported).toBe(true);
+            expect(saved.fieldOverrides['vehicle.make']).toMatchObject({value: 'Audi', originalValue: 'BMW'});
+            expect(await screen.findByRole('button', {name: 'Edit'})).toBeInTheDocument();
+        });
+
+        it('keeps the form open when saving fails', async () => {
+            const onSaveListing = jest.fn().mockRejectedValue(new Error('offline'));
+            const {user} = render(<ListingDetailModal {...defaultProps} onSaveListing={onSaveListing}/>);
+
+            await user.click(screen.getByRole('button', {name: 'Edit'}));
+            await user.clear(screen.getByLabelText('Trim'));
+            await user.type(screen.getByLabelText('Trim'), 'xDrive');
+            await user.click(screen.getByRole('button', {name: 'Save changes'}));
+
+            expect(await screen.findByText('Failed to save changes')).toBeInTheDocument();
+            expect(screen.getByLabelText('Trim')).toHaveValue('xDrive');
+        });
+
+        it('marks edited fields with the value they replaced', () => {
+            render(<ListingDetailModal {...defaultProps} listing={editedListing}/>);
+
+            expect(screen.getByLabelText('Edited by you')).toBeInTheDocument();
+            expect(screen.getByText('Was: BMW')).toBeInTheDocument();
+        });
+
+        it('restores the original value of an edited field', async () => {
+            const onSaveListing = jest.fn().mockResolvedValue(undefined);
+            const {user} = render(
+                <ListingDetailModal {...defaultProps} listing={editedListing} onSaveListing={onSaveListing}/>,
+            );
+
+            await user.click(screen.getByRole('button', {name: 'Edit'}));
+            await user.click(screen.getByRole('button', {name: 'Restore'}));
+            expect(screen.getByLabelText('Make')).toHaveValue('BMW');
+            await user.click(screen.getByRole('button', {name: 'Save changes'}));
+
+            const saved = onSaveListing.mock.calls[0][0];
+            expect(saved.vehicle.make).toBe('BMW');
+            expect(saved.fieldOverrides).toEqual({});
+        });
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * LocalDataSection Component Tests
+ *
+ * Tests for the settings section that manages local-only mode data.
+ */
+
+import React from 'react';
+import {render, screen, waitFor} from '../../test-utils/renderHelpers';
+import LocalDataSection from '@/components/LocalDataSection';
+import {clearLocalData, getLocalDataSummary} from '@/services/localData';
+
+const mockUseAuth = {status: 'logged_out'};
+const mockUseLocalMode = {
+    isLocalMode: false,
+    setLocalMode: jest.fn(),
+    mergeLocalData: jest.fn(),
+};
+
+jest.mock('@/auth/AuthContext', () => ({
+    useAuth: () => mockUseAuth,
+}));
+
+jest.mock('@/context/AppContext', () => ({
+    useLocalMode: () => mockUseLocalMode,
+}));
+
+jest.mock('@/services/localData', () => ({
+    getLocalDataSummary: jest.fn(),
+    clearLocalData: jest.fn(),
+}));
+
+const mockGetLocalDataSummary = getLocalDataSummary as jest.MockedFunction<typeof getLocalDataSummary>;
+const mockClearLocalData = clearLocalData as jest.MockedFunction<typeof clearLocalData>;
+
+describe('LocalDataSection', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockUseAuth.status = 'logged_out';
+        mockUseLocalMode.isLocalMode = false;
+        mockGetLocalDataSummary.mockResolvedValue({listings: 3, geminiHistoryEntries: 5});
+        mockClearLocalData.mockResolvedValue(undefined);
+    });
+
+    it('renders nothing when signed out and not in local mode', () => {
+        const {container} = render(<LocalDataSection/>);
+
+        expect(container).toBeEmptyDOMElement();
+    });
+
+    describe('in local mode', () => {
+        beforeEach(() => {
+            mockUseLocalMode.isLocalMode = true;
+        });
+
+        it('explains where data is stored', () => {
+            render(<LocalDataSection/>);
+
+            expect(screen.getByText('Local data')).toBeInTheDocument();
+            expect(screen.getByText(/stored in this browser only/)).toBeInTheDocument();
+        });
+
+        it('turns off local mode', async () => {
+            const {user} = render(<LocalDataSection/>);
+
+            await user.click(screen.getByRole('button', {name: 'Turn off local mode'}));
+
+            expect(mockUseLocalMode.setLocalMode).toHaveBeenCalledWith(false);
+        });
+    });
+
+    describe('when signed in with local data', () => {
+        beforeEach(() => {
+            mockUseAuth.status = 'logged_in';
+        });
+
+        it('shows what is stored locally', async () => {
+            render(<LocalDataSection/>);
+
+            expect(await screen.findByText('3 listings and 5 Gemini calls were saved in this browser in local mode.'))
+                .toBeInTheDocument();
+        });
+
+        it('renders nothing when there is no local data', async () => {
+            mockGetLocalDataSummary.mockResolvedValue({listings: 0, geminiHistoryEntries: 0});
+            const {container} = render(<LocalDataSection/>);
+
+            await waitFor(() => expect(mockGetLocalDataSummary).toHaveBeenCalled());
+            expect(container).toBeEmptyDOMElement();
+        });
+
+        it('merges local data into the account', async () => {
+            mockUseLocalMode.mergeLocalData.mockResolvedValue({added: 2, updated: 1, geminiHistoryEntries: 5});
+            const {user} = render(<LocalDataSection/>);
+
+            await user.click(await screen.findByRole('button', {name: 'Merge into my account'}));
+
+            expect(await screen.findByText('Local data moved to your account: 2 added, 1 updated.')).toBeInTheDocument();
+            expect(screen.queryByRole('button', {name: 'Merge into my account'})).not.toBeInTheDocument();
+        });
+
+        it('shows an error when merging fails', async () => {
+            mockUseLocalMode.mergeLocalData.mockRejectedValue(new Error('Network error'));
+            const {user} = render(<LocalDataSection/>);
+
+            await user.click(await screen.findByRole('button', {name: 'Merge into my account'}));
+
+            expect(await screen.findByRole('alert')).toHaveTextContent('Could not merge local data.');
+        });
+
+        it('discards local data after confirmation', async () => {
+            jest.spyOn(window, 'confirm').mockReturnValue(true);
+            const {user} = render(<LocalDataSection/>);
+
+            await user.click(await screen.findByRole('button', {name: 'Discard local data'}));
+
+            expect(mockClearLocalData).toHaveBeenCalled();
+            await waitFor(() => {
+                expect(screen.queryByRole('button', {name: 'Discard local data'})).not.toBeInTheDocument();
+            });
+        });
+
+        it('keeps local data when discard is not confirmed', async () => {
+            jest.spyOn(window, 'confirm').mockReturnValue(false);
+            const {user} = render(<LocalDataSection/>);
+
+            await user.click(await screen.findByRole('button', {name: 'Discard local data'}));
+
+            expect(mockClearLocalData).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -6,7 +6,7 @@
 
 import React from 'react';
 import {render, screen} from '../../test-utils/renderHelpers';
-import PriceChart from '@/components/PriceChart';
+import PriceChart, {PriceSparkline} from '@/components/PriceChart';
 import {PricePoint} from '@/types';
 
 // Mock recharts to avoid rendering issues in jsdom
@@ -136,5 +136,48 @@ describe('PriceChart', () => {
             expect(chartContainer).toBeInTheDocument();
         });
     });
-});
 
+    describe('overlay of several listings', () => {
+        const series = [
+            {id: 'a', label: 'BMW 320d', history: mockPriceHistory, currency: 'PLN'},
+            {
+                id: 'b',
+                label: 'Audi A4',
+                history: [
+                    {date: '2024-01-18T10:00:00Z', price: 115000, currency: 'PLN'},
+                    {date: '2024-01-25T10:00:00Z', price: 112000, currency: 'PLN'},
+                ],
+                currency: 'PLN',
+            },
+        ];
+
+        it('renders a taller chart for overlaid series', () => {
+            const {container} = render(<PriceChart series={series}/>);
+
+            expect(screen.getByTestId('responsive-container')).toBeInTheDocument();
+            expect(container.querySelector('.h-72')).toBeInTheDocument();
+        });
+
+        it('shows the empty state when the merged history has fewer than 2 days', () => {
+            render(<PriceChart series={[{...series[0], history: [mockPriceHistory[0]]}]}/>);
+
+            expect(screen.queryByTestId('responsive-container')).not.toBeInTheDocument();
+        });
+    });
+
+    describe('sparkline', () => {
+        it('renders a fixed-height line without the empty state', () => {
+            render(<PriceSparkline {...defaultProps} />);
+
+            const container = screen.getByTestId('responsive-container');
+            expect(container.parentElement).toHaveStyle({height: '48px'});
+            expect(screen.queryByText(/no price history yet/i)).not.toBeInTheDocument();
+        });
+
+        it('renders nothing with fewer than 2 days of history', () => {
+            const {container} = render(<PriceSparkline history={mockPriceHistory.slice(0, 1)} currency="PLN"/>);
+
+            expect(container).toBeEmptyDOMElement();
+        });
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * SearchInbox Component Tests
+ *
+ * Tests for the inbox of new listings found on saved searches.
+ */
+
+import React from 'react';
+import {render, screen, waitFor} from '../../test-utils/renderHelpers';
+import SearchInbox from '@/components/SearchInbox';
+import {SavedSearch} from '@/types';
+
+const createSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+    id: 'search-1',
+    name: 'BMW Seria 3',
+    url: 'https://www.otomoto.pl/osobowe/bmw/seria-3',
+    seenListingIds: ['1', '2'],
+    newMatches: [
+        {
+            id: '2',
+            url: 'https://www.otomoto.pl/osobowe/oferta/bmw-320d-ID2.html',
+            title: 'BMW 320d',
+            price: '59 900 PLN',
+            discoveredAt: '2024-01-02T10:00:00.000Z',
+        },
+    ],
+    createdAt: '2024-01-01T10:00:00.000Z',
+    lastCheckedAt: '2024-01-02T10:00:00.000Z',
+    ...overrides,
+});
+
+const renderInbox = (props: Partial<React.ComponentProps<typeof SearchInbox>> = {}) => {
+    const defaultProps = {
+        searches: [createSearch()],
+        isChecking: false,
+        onCheckNow: jest.fn(),
+        onTrack: jest.fn().mockResolvedValue(undefined),
+        onDismiss: jest.fn(),
+        onRemoveSearch: jest.fn(),
+    };
+    const merged = {...defaultProps, ...props};
+    return {...render(<SearchInbox {...merged}/>), props: merged};
+};
+
+describe('SearchInbox', () => {
+    it('renders nothing without saved searches', () => {
+        const {container} = renderInbox({searches: []});
+
+        expect(container).toBeEmptyDOMElement();
+    });
+
+    it('lists new matches for each search', () => {
+        renderInbox();
+
+        expect(screen.getByText('BMW Seria 3')).toBeInTheDocument();
+        expect(screen.getByText('BMW 320d')).toBeInTheDocument();
+        expect(screen.getByText('59 900 PLN')).toBeInTheDocument();
+    });
+
+    it('shows an empty note for searches without matches', () => {
+        renderInbox({searches: [createSearch({newMatches: []})]});
+
+        expect(screen.getByText('No new listings since the last check.')).toBeInTheDocument();
+    });
+
+    it('tracks a match', async () => {
+        const {user, props} = renderInbox();
+
+        await user.click(screen.getByRole('button', {name: /track/i}));
+
+        expect(props.onTrack).toHaveBeenCalledWith(props.searches[0], props.searches[0].newMatches[0]);
+    });
+
+    it('shows the error when tracking fails', async () => {
+        const {user} = renderInbox({onTrack: jest.fn().mockRejectedValue(new Error('Listing expired'))});
+
+        await user.click(screen.getByRole('button', {name: /track/i}));
+
+        await waitFor(() => {
+            expect(screen.getByText('Listing expired')).toBeInTheDocument();
+        });
+    });
+
+    it('dismisses a match', async () => {
+        const {user, props} = renderInbox();
+
+        await user.click(screen.getByRole('button', {name: 'Dismiss'}));
+
+        expect(props.onDismiss).toHaveBeenCalledWith('search-1', '2');
+    });
+
+    it('checks searches on demand', async () => {
+        const {user, props} = renderInbox();
+
+        await user.click(screen.getByRole('button', {name: /check now/i}));
+
+        expect(props.onCheckNow).toHaveBeenCalled();
+    });
+});
@@ -6,13 +6,14 @@
  */
 
 import React from 'react';
-import {render, screen, waitFor} from '../../test-utils/renderHelpers';
+import {fireEvent, render, screen, userEvent, waitFor} from '../../test-utils/renderHelpers';
 import SettingsPage from '@/components/SettingsPage';
 
 // Mock context hooks
 const mockUseSettings = {
     settings: {
-        geminiApiKey: 'test-api-key',
+        geminiApiKey: '',
+        geminiApiKeyConfigured: true,
         checkFrequencyMinutes: 60,
     },
     isLoading: false,
@@ -45,7 +46,14 @@ const mockUseAuth = {
     clearError: jest.fn(),
 };
 
+const mockUseLocalMode = {
+    isLocalMode: false,
+    setLocalMode: jest.fn(),
+    mergeLocalData: jest.fn(),
+};
+
 jest.mock('@/context/AppContext', () => ({
+    useLocalMode: () => mockUseLocalMode,
     useSettings: () => mockUseSettings,
     useRefreshStatus: () => mockUseRefreshStatus,
     useListings: () => mockUseListings,
@@ -72,6 +80,10 @@ jest.mock('@/auth/localServerStorage', () => ({
     setBackendServerUrl: jest.fn().mockResolvedValue(undefined),
 }));
 
+jest.mock('@/services/gemini', () => ({
+    parseCarDataWithGemini: jest.fn(),
+}));
+
 jest.mock('@/hooks/useChromeMessaging', () => ({
     useChromeMessaging: () => ({
         triggerManualRefresh: jest.fn(),
@@ -165,6 +177,17 @@ describe('SettingsPage', () => {
         });
     });
 
+    describe('stored Gemini API key', () => {
+        it('shows that a key is stored without revealing it', async () => {
+            render(<SettingsPage/>);
+
+            const input = await screen.findByPlaceholderText('API key saved - enter a new key to replace it');
+            expect(input).toHaveValue('');
+            expect(screen.getByText('API key configured')).toBeInTheDocument();
+            expect(screen.getByRole('button', {name: /save settings/i})).toBeEnabled();
+        });
+    });
+
     describe('refresh settings', () => {
         it('displays current refresh frequency', async () => {
             render(<SettingsPage/>);
@@ -193,6 +216,74 @@ describe('SettingsPage', () => {
         });
     });
 
+    describe('server refresh', () => {
+        it('renders server refresh toggle unchecked by default', async () => {
+            render(<SettingsPage/>);
+
+            const toggle = await screen.findByRole('checkbox', {name: /refresh on server/i});
+            expect(toggle).not.toBeChecked();
+        });
+
+        it('saves serverRefreshEnabled when toggled', async () => {
+            const user = userEvent.setup();
+            render(<SettingsPage/>);
+
+            await user.click(await screen.findByRole('checkbox', {name: /refresh on server/i}));
+            const saveButton = screen.getByRole('button', {name: /save settings/i});
+            fireEvent.submit(saveButton.closest('form') as HTMLFormElement);
+
+            await waitFor(() => {
+                expect(mockUseSettings.update).toHaveBeenCalledWith(
+                    expect.objectContaining({serverRefreshEnabled: true}),
+                );
+            });
+        });
+    });
+
+    describe('monthly budget', () => {
+        it('saves monthlyBudgetUsd', async () => {
+            const user = userEvent.setup();
+            render(<SettingsPage/>);
+
+            await user.type(await screen.findByRole('spinbutton', {name: /monthly ai budget/i}), '5');
+            const saveButton = screen.getByRole('button', {name: /save settings/i});
+            fireEvent.submit(saveButton.closest('form') as HTMLFormElement);
+
+            await waitFor(() => {
+                expect(mockUseSettings.update).toHaveBeenCalledWith(
+                    expect.objectContaining({monthlyBudgetUsd: 5}),
+                );
+            });
+        });
+    });
+
+    describe('LLM provider', () => {
+        it('switches to an OpenAI-compatible server without a Gemini key', async () => {
+            const user = userEvent.setup();
+            render(<SettingsPage/>);
+
+            await user.selectOptions(
+                await screen.findByRole('combobox', {name: 'AI Provider'}),
+                'openai-compatible',
+            );
+
+            expect(screen.queryByPlaceholderText('API key saved - enter a new key to replace it')).not.toBeInTheDocument();
+            await user.type(screen.getByRole('textbox', {name: 'Server URL'}), 'http://localhost:8080/v1');
+            const saveButton = screen.getByRole('button', {name: /save settings/i});
+            expect(saveButton).toBeEnabled();
+            fireEvent.submit(saveButton.closest('form') as HTMLFormElement);
+
+            await waitFor(() => {
+                expect(mockUseSettings.update).toHaveBeenCalledWith(
+                    expect.objectContaining({
+                        llmProvider: 'openai-compatible',
+                        llmBaseUrl: 'http://localhost:8080/v1',
+                    }),
+                );
+            });
+        });
+    });
+
     describe('statistics', () => {
         it('displays Gemini API statistics', async () => {
             render(<SettingsPage/>);
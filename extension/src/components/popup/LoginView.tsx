@@ -2,7 +2,7 @@
  * LoginView Component
  *
  * Displayed when user is not authenticated.
- * Shows sign-in prompt with Google button.
+ * Shows sign-in prompt with Google button and, when offered, local-only mode.
  */
 
 import React from 'react';
@@ -14,9 +14,11 @@ interface LoginViewProps {
     onLogin: () => void;
     isLoading: boolean;
     error?: string | null;
+    /** Start local-only mode; the option is hidden when omitted */
+    onUseLocally?: () => void;
 }
 
-export const LoginView: React.FC<LoginViewProps> = ({onLogin, isLoading, error}) => {
+export const LoginView: React.FC<LoginViewProps> = ({onLogin, isLoading, error, onUseLocally}) => {
     const {t} = useTranslation('auth');
 
     return (
@@ -40,6 +42,18 @@ export const LoginView: React.FC<LoginViewProps> = ({onLogin, isLoading, error})
                 )}
                 <span>{t('signIn.button')}</span>
             </button>
+            {onUseLocally && (
+                <>
+                    <button
+                        onClick={onUseLocally}
+                        disabled={isLoading}
+                        className="mt-3 text-sm text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                        {t('localMode.button')}
+                    </button>
+                    <p className="text-slate-400 text-xs mt-1 text-center px-4">{t('localMode.hint')}</p>
+                </>
+            )}
             {error && <p className="text-red-500 text-xs mt-4">{error}</p>}
         </div>
     );
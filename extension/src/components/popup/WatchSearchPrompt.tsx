@@ -0,0 +1,62 @@
+/**
+ * WatchSearchPrompt Component
+ *
+ * Offers to save the current marketplace search page as a watch.
+ * New listings appearing on the search are collected in the dashboard inbox.
+ */
+
+import React from 'react';
+import {useTranslation} from 'react-i18next';
+import {AlertCircle, BellRing, Check, Loader2} from 'lucide-react';
+
+interface WatchSearchPromptProps {
+    /** Whether the current search is already watched */
+    isWatched: boolean;
+    /** Whether the search is being saved */
+    isSaving: boolean;
+    /** Whether the last save attempt failed */
+    hasError: boolean;
+    onWatch: () => void;
+}
+
+export const WatchSearchPrompt: React.FC<WatchSearchPromptProps> = ({
+    isWatched,
+    isSaving,
+    hasError,
+    onWatch,
+}) => {
+    const {t} = useTranslation('popup');
+
+    return (
+        <div className="w-full bg-blue-50 border border-blue-100 rounded-xl p-4">
+            <h3 className="flex items-center gap-2 text-slate-800 font-bold text-sm mb-1">
+                <BellRing className="w-4 h-4 text-blue-600"/>
+                {t('watchSearch.title')}
+            </h3>
+            <p className="text-slate-500 text-xs mb-3">{t('watchSearch.description')}</p>
+
+            {isWatched ? (
+                <div className="flex items-center justify-center gap-1.5 text-green-700 text-sm font-medium">
+                    <Check className="w-4 h-4"/>
+                    {t('watchSearch.saved')}
+                </div>
+            ) : (
+                <button
+                    onClick={onWatch}
+                    disabled={isSaving}
+                    className="w-full py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm font-bold rounded-lg transition-colors flex items-center justify-center gap-2"
+                >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin"/>}
+                    {isSaving ? t('watchSearch.saving') : t('watchSearch.button')}
+                </button>
+            )}
+
+            {hasError && (
+                <div className="flex items-center gap-2 text-red-600 text-xs mt-3">
+                    <AlertCircle className="w-4 h-4 shrink-0"/>
+                    {t('watchSearch.failed')}
+                </div>
+            )}
+        </div>
+    );
+};
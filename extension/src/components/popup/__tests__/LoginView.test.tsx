@@ -80,5 +80,20 @@ describe('LoginView', () => {
         const carIcon = container.querySelector('svg');
         expect(carIcon).toBeInTheDocument();
     });
+
+    it('hides local mode option when onUseLocally is not provided', () => {
+        render(<LoginView {...defaultProps} />);
+
+        expect(screen.queryByRole('button', {name: 'Use without an account'})).not.toBeInTheDocument();
+    });
+
+    it('calls onUseLocally when local mode button is clicked', async () => {
+        const onUseLocally = jest.fn();
+        const {user} = render(<LoginView {...defaultProps} onUseLocally={onUseLocally}/>);
+
+        await user.click(screen.getByRole('button', {name: 'Use without an account'}));
+
+        expect(onUseLocally).toHaveBeenCalledTimes(1);
+    });
 });
 
@@ -0,0 +1,39 @@
+/**
+ * WatchSearchPrompt Component Tests
+ *
+ * Tests for the prompt that saves a search page as a watch.
+ */
+
+import React from 'react';
+import {render, screen} from '../../../test-utils/renderHelpers';
+import {WatchSearchPrompt} from '@/components/popup/WatchSearchPrompt';
+
+describe('WatchSearchPrompt', () => {
+    it('calls onWatch when the button is clicked', async () => {
+        const onWatch = jest.fn();
+        const {user} = render(<WatchSearchPrompt isWatched={false} isSaving={false} hasError={false} onWatch={onWatch}/>);
+
+        await user.click(screen.getByRole('button', {name: 'Watch search'}));
+
+        expect(onWatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('disables the button while saving', () => {
+        render(<WatchSearchPrompt isWatched={false} isSaving={true} hasError={false} onWatch={jest.fn()}/>);
+
+        expect(screen.getByRole('button', {name: /saving/i})).toBeDisabled();
+    });
+
+    it('shows the watched state instead of the button', () => {
+        render(<WatchSearchPrompt isWatched={true} isSaving={false} hasError={false} onWatch={jest.fn()}/>);
+
+        expect(screen.getByText('Watching this search')).toBeInTheDocument();
+        expect(screen.queryByRole('button')).not.toBeInTheDocument();
+    });
+
+    it('shows an error after a failed save', () => {
+        render(<WatchSearchPrompt isWatched={false} isSaving={false} hasError={true} onWatch={jest.fn()}/>);
+
+        expect(screen.getByText('Could not save this search')).toBeInTheDocument();
+    });
+});
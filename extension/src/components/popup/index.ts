@@ -10,4 +10,5 @@ export {PreviewCard} from './PreviewCard';
 export {SavedItemView} from './SavedItemView';
 export {AnalyzePrompt} from './AnalyzePrompt';
 export {PopupHeader} from './PopupHeader';
+export {WatchSearchPrompt} from './WatchSearchPrompt';
 
@@ -0,0 +1,49 @@
+/**
+ * LocalModeBadge Component
+ *
+ * Shown in place of the user menu in local-only mode: marks that data is
+ * stored in this browser only and offers signing in to sync it.
+ */
+
+import React from 'react';
+import {useTranslation} from 'react-i18next';
+import {HardDrive, Loader2} from 'lucide-react';
+import {GoogleLogo} from './GoogleLogo';
+
+interface LocalModeBadgeProps {
+    onLogin: () => void;
+    isLoggingIn?: boolean;
+    variant?: 'light' | 'dark';
+}
+
+export const LocalModeBadge: React.FC<LocalModeBadgeProps> = ({onLogin, isLoggingIn = false, variant = 'dark'}) => {
+    const {t} = useTranslation('auth');
+
+    const badgeClass = variant === 'dark'
+        ? 'bg-amber-500/20 text-amber-300'
+        : 'bg-amber-100 text-amber-700';
+
+    const buttonClass = variant === 'dark'
+        ? 'bg-slate-700 hover:bg-slate-600 text-white'
+        : 'bg-white hover:bg-slate-100 text-slate-900 border border-slate-200';
+
+    return (
+        <div className="flex items-center gap-2">
+            <span
+                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-semibold ${badgeClass}`}
+                title={t('localMode.badgeTooltip')}
+            >
+                <HardDrive className="w-3.5 h-3.5"/>
+                {t('localMode.badge')}
+            </span>
+            <button
+                onClick={onLogin}
+                disabled={isLoggingIn}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${buttonClass}`}
+            >
+                {isLoggingIn ? <Loader2 className="w-4 h-4 animate-spin"/> : <GoogleLogo className="w-4 h-4"/>}
+                {t('localMode.signIn')}
+            </button>
+        </div>
+    );
+};
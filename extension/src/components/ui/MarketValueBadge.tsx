@@ -0,0 +1,39 @@
+/**
+ * MarketValueBadge Component
+ *
+ * Displays the estimated fair price of a listing and how far the asking
+ * price deviates from it.
+ */
+
+import React from 'react';
+import {useTranslation} from 'react-i18next';
+import {getMarketValueRating, MarketValueEstimate, MarketValueRating} from '@/services/valuation';
+
+interface MarketValueBadgeProps {
+    estimate: MarketValueEstimate;
+    className?: string;
+}
+
+const ratingStyles: Record<MarketValueRating, string> = {
+    below: 'bg-green-100 text-green-700',
+    fair: 'bg-slate-100 text-slate-600',
+    above: 'bg-red-100 text-red-700',
+};
+
+export const MarketValueBadge: React.FC<MarketValueBadgeProps> = ({estimate, className = ''}) => {
+    const {t} = useTranslation('dashboard');
+    const rating = getMarketValueRating(estimate);
+    const percent = Math.abs(Math.round(estimate.deviationPercent));
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded ${ratingStyles[rating]} ${className}`}
+            title={t('marketValue.basedOn', {count: estimate.comparables.length})}
+        >
+            {t('marketValue.estimate', {price: `${estimate.estimatedPrice.toLocaleString()} ${estimate.currency}`})}
+            <span className="font-semibold">
+                {rating === 'fair' ? t('marketValue.fair') : t(`marketValue.${rating}`, {percent})}
+            </span>
+        </span>
+    );
+};
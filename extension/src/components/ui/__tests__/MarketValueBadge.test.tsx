@@ -0,0 +1,40 @@
+/**
+ * MarketValueBadge Component Tests
+ *
+ * Tests for the estimated fair price badge.
+ */
+
+import React from 'react';
+import {render, screen} from '../../../test-utils/renderHelpers';
+import {MarketValueBadge} from '@/components/ui/MarketValueBadge';
+import {MarketValueEstimate} from '@/services/valuation';
+
+const createEstimate = (deviationPercent: number): MarketValueEstimate => ({
+    estimatedPrice: 100000,
+    currency: 'PLN',
+    deviationPercent,
+    method: 'median',
+    features: [],
+    comparables: [],
+});
+
+describe('MarketValueBadge', () => {
+    it('renders the estimated price', () => {
+        render(<MarketValueBadge estimate={createEstimate(0)}/>);
+
+        expect(screen.getByText(/Est\. 100,000 PLN/)).toBeInTheDocument();
+        expect(screen.getByText('fair price')).toBeInTheDocument();
+    });
+
+    it('renders a green badge below the estimate', () => {
+        render(<MarketValueBadge estimate={createEstimate(-12.4)}/>);
+
+        expect(screen.getByText('12% below').parentElement).toHaveClass('text-green-700');
+    });
+
+    it('renders a red badge above the estimate', () => {
+        render(<MarketValueBadge estimate={createEstimate(8)}/>);
+
+        expect(screen.getByText('8% above').parentElement).toHaveClass('text-red-700');
+    });
+});
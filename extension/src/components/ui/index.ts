@@ -6,6 +6,8 @@
 
 export {GoogleLogo} from './GoogleLogo';
 export {LoadingSpinner} from './LoadingSpinner';
+export {LocalModeBadge} from './LocalModeBadge';
+export {MarketValueBadge} from './MarketValueBadge';
 export {StatusBadge} from './StatusBadge';
 export {UserMenu} from './UserMenu';
 
@@ -7,11 +7,15 @@ import {
     getMarketplaceDisplayName,
     getMarketplaceForUrl,
     getSupportedDomains,
+    isExpiredListingPage,
     isOfferPage,
+    isSearchResultsPage,
     isSupportedMarketplace,
     isTrackableOfferPage,
+    setCustomMarketplaces,
     SUPPORTED_MARKETPLACES,
 } from '@/config/marketplaces';
+import type {CustomMarketplace} from '@/types';
 
 describe('Marketplace Configuration', () => {
     describe('SUPPORTED_MARKETPLACES', () => {
@@ -318,3 +322,277 @@ describe('Facebook Marketplace', () => {
     });
 });
 
+
+describe('mobile.de', () => {
+    const detailsUrl = 'https://suchen.mobile.de/fahrzeuge/details.html?id=412345678&lang=de';
+    const seoUrl = 'https://suchen.mobile.de/auto-inserat/bmw-320d-touring-berlin/412345678.html';
+
+    it('should recognize mobile.de domains', () => {
+        expect(isSupportedMarketplace(detailsUrl)).toBe(true);
+        expect(isSupportedMarketplace('https://www.mobile.de/')).toBe(true);
+        expect(getMarketplaceForUrl(detailsUrl)?.id).toBe('mobile-de');
+    });
+
+    it('should recognize offer pages', () => {
+        expect(isTrackableOfferPage(detailsUrl)).toBe(true);
+        expect(isTrackableOfferPage(seoUrl)).toBe(true);
+    });
+
+    it('should reject search and parking pages', () => {
+        expect(isOfferPage('https://suchen.mobile.de/fahrzeuge/search.html?ms=3500;&isSearchRequest=true')).toBe(false);
+        expect(isOfferPage('https://suchen.mobile.de/fahrzeuge/parkplatz')).toBe(false);
+        expect(isOfferPage('https://www.mobile.de/')).toBe(false);
+    });
+
+    it('should price listings in EUR and default the origin country to DE', () => {
+        const marketplace = getMarketplaceForUrl(detailsUrl);
+        expect(marketplace?.currency).toBe('EUR');
+        expect(marketplace?.originCountry).toBe('DE');
+        expect(marketplace?.neverFetch).toBe(true);
+    });
+
+    it('should return friendly name for mobile.de', () => {
+        expect(getMarketplaceDisplayName('suchen.mobile.de')).toBe('mobile.de');
+        expect(getMarketplaceDisplayName('www.mobile.de')).toBe('mobile.de');
+    });
+});
+
+describe('AutoScout24', () => {
+    const offerUrls = [
+        'https://www.autoscout24.de/angebote/bmw-320-d-touring-m-sport-diesel-grau-6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f',
+        'https://www.autoscout24.com/offers/volkswagen-golf-1-5-tsi-life-gasoline-white-0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d?ipc=recommendation',
+        'https://www.autoscout24.it/annunci/fiat-500-1-0-hybrid-dolcevita-elettrica-benzina-rosso-11111111-2222-4333-8444-555555555555',
+        'https://www.autoscout24.nl/aanbod/toyota-corolla-1-8-hybrid-active-elektrisch-benzine-zwart-aaaaaaaa-bbbb-4ccc-8ddd-eeeeeeeeeeee',
+        'https://www.autoscout24.fr/offres/peugeot-308-1-2-puretech-allure-essence-bleu-12345678-90ab-4cde-8f01-234567890abc',
+    ];
+
+    it('should recognize AutoScout24 country domains', () => {
+        expect(getMarketplaceForUrl('https://www.autoscout24.de/')?.id).toBe('autoscout24');
+        expect(getMarketplaceForUrl('https://www.autoscout24.pl/')?.id).toBe('autoscout24');
+        expect(getMarketplaceForUrl('https://autoscout24.com/offers/x')?.id).toBe('autoscout24');
+    });
+
+    it.each(offerUrls)('should recognize offer page %s', (url) => {
+        expect(isTrackableOfferPage(url)).toBe(true);
+    });
+
+    it('should reject search, dealer and home pages', () => {
+        expect(isOfferPage('https://www.autoscout24.de/lst/bmw/320?atype=C&cy=D&damaged_listing=exclude')).toBe(false);
+        expect(isOfferPage('https://www.autoscout24.com/lst?sort=standard&desc=0&ustate=N%2CU')).toBe(false);
+        expect(isOfferPage('https://www.autoscout24.de/haendler/autohaus-mueller-gmbh')).toBe(false);
+        expect(isOfferPage('https://www.autoscout24.de/')).toBe(false);
+    });
+
+    it('should refresh with fetch() first', () => {
+        expect(getMarketplaceForUrl(offerUrls[0])?.neverFetch).toBeFalsy();
+    });
+
+    it('should return friendly name for AutoScout24', () => {
+        expect(getMarketplaceDisplayName('www.autoscout24.de')).toBe('AutoScout24');
+        expect(getMarketplaceDisplayName('autoscout24.it')).toBe('AutoScout24');
+    });
+
+    describe('isExpiredListingPage', () => {
+        it('should detect redirects to search results', () => {
+            expect(isExpiredListingPage(offerUrls[0], 'https://www.autoscout24.de/lst/bmw/320', '1.234 Angebote')).toBe(true);
+        });
+
+        it('should detect the "no longer available" notice in every language after a redirect', () => {
+            expect(isExpiredListingPage(offerUrls[0], 'https://www.autoscout24.de/', 'Dieses Fahrzeug ist leider nicht mehr verfügbar')).toBe(true);
+            expect(isExpiredListingPage(offerUrls[1], 'https://www.autoscout24.com/', 'This vehicle is No Longer Available')).toBe(true);
+            expect(isExpiredListingPage(offerUrls[2], 'https://www.autoscout24.it/', 'Questo veicolo non è più disponibile')).toBe(true);
+        });
+
+        it('should not flag active offers', () => {
+            expect(isExpiredListingPage(offerUrls[0], offerUrls[0], 'BMW 320d Touring 24.900 €')).toBe(false);
+        });
+
+        it('should not flag an active offer whose description contains the notice text', () => {
+            expect(isExpiredListingPage(
+                offerUrls[0],
+                offerUrls[0],
+                'BMW 320d Touring - Garantie nicht mehr verfügbar, Scheckheft gepflegt',
+            )).toBe(false);
+            expect(isExpiredListingPage(offerUrls[1], offerUrls[1], 'Winter tyres no longer available, price 24.900 €')).toBe(false);
+        });
+    });
+});
+
+describe('OLX', () => {
+    const offerUrls = [
+        'https://www.olx.pl/d/oferta/bmw-seria-3-320d-m-pakiet-CID5-IDZx8Kq.html',
+        'https://www.olx.pl/d/oferta/skoda-octavia-2-0-tdi-salon-polska-CID5-ID10AbCd.html?reason=extended_search_no_results_distance',
+        'https://m.olx.pl/d/oferta/opel-astra-k-1-6-cdti-CID5-IDYqW3e.html',
+        'https://www.olx.pl/oferta/toyota-yaris-1-0-benzyna-CID5-IDQwErT.html',
+    ];
+
+    it('should recognize olx.pl domains', () => {
+        expect(getMarketplaceForUrl(offerUrls[0])?.id).toBe('olx');
+        expect(getMarketplaceForUrl('https://m.olx.pl/')?.id).toBe('olx');
+    });
+
+    it.each(offerUrls)('should recognize offer page %s', (url) => {
+        expect(isTrackableOfferPage(url)).toBe(true);
+    });
+
+    it('should reject category and search pages', () => {
+        expect(isOfferPage('https://www.olx.pl/motoryzacja/samochody/')).toBe(false);
+        expect(isOfferPage('https://www.olx.pl/motoryzacja/samochody/bmw/warszawa/?search%5Bfilter_float_year:from%5D=2015')).toBe(false);
+        expect(isOfferPage('https://www.olx.pl/oferty/q-bmw-320d/')).toBe(false);
+    });
+
+    it('should price listings in PLN', () => {
+        expect(getMarketplaceForUrl(offerUrls[0])?.currency).toBe('PLN');
+    });
+
+    it('should return friendly name for OLX', () => {
+        expect(getMarketplaceDisplayName('www.olx.pl')).toBe('OLX');
+    });
+
+    describe('isExpiredListingPage', () => {
+        it('should detect the inactive ad notice after a redirect', () => {
+            expect(isExpiredListingPage(offerUrls[0], 'https://www.olx.pl/d/', 'To ogłoszenie nie jest już dostępne')).toBe(true);
+        });
+
+        it('should detect redirects to the category listing', () => {
+            expect(isExpiredListingPage(
+                offerUrls[0],
+                'https://www.olx.pl/motoryzacja/samochody/?reason=observed_inactive',
+                'Samochody osobowe',
+            )).toBe(true);
+        });
+
+        it('should not flag active ads', () => {
+            expect(isExpiredListingPage(offerUrls[0], offerUrls[0], 'BMW 320d 45 900 zł do negocjacji')).toBe(false);
+        });
+
+        it('should not flag an active ad mentioning the notice or category paths', () => {
+            expect(isExpiredListingPage(
+                offerUrls[0],
+                offerUrls[0],
+                'Poprzednie ogłoszenie jest nieaktywne, auto nadal do kupienia. Zobacz /motoryzacja/ i /oferty/',
+            )).toBe(false);
+            expect(isExpiredListingPage(offerUrls[1], offerUrls[1].split('?')[0], 'ogłoszenie jest nieaktywne')).toBe(false);
+            // Redirects between offer URL formats are not a redirect away from the ad
+            expect(isExpiredListingPage(offerUrls[3], offerUrls[0], 'ogłoszenie jest nieaktywne')).toBe(false);
+        });
+    });
+});
+
+describe('isExpiredListingPage', () => {
+    it('should only use 404/410 for marketplaces without expiry hints', () => {
+        const url = 'https://www.otomoto.pl/osobowe/oferta/bmw-320d-ID6HEcgy.html';
+        expect(isExpiredListingPage(url, 'https://www.otomoto.pl/osobowe/bmw', 'no longer available')).toBe(false);
+    });
+
+    it('should return false for unknown marketplaces', () => {
+        expect(isExpiredListingPage('https://example.com/car/1', 'https://example.com/', 'no longer available')).toBe(false);
+    });
+});
+
+describe('isSearchResultsPage', () => {
+    it.each([
+        'https://www.otomoto.pl/osobowe/ford/edge',
+        'https://www.otomoto.pl/dostawcze/mercedes',
+        'https://www.otomoto.pl/motocykle-i-quady/honda',
+        'https://suchen.mobile.de/fahrzeuge/search.html?ms=3500;;',
+        'https://www.facebook.com/marketplace/warsaw/search?query=ford',
+        'https://autoplac.pl/szukaj?marka=skoda',
+    ])('should detect search results at %s', (url) => {
+        expect(isSearchResultsPage(url)).toBe(true);
+    });
+
+    it.each([
+        'https://www.otomoto.pl/osobowe/oferta/ford-edge-ID6HMJxa.html',
+        'https://www.otomoto.pl/dostawcze/oferta/mercedes-sprinter-ID456.html',
+        'https://suchen.mobile.de/fahrzeuge/details.html?id=412345678',
+        'https://www.facebook.com/marketplace/item/1234567890123456/',
+        'https://autoplac.pl/ogloszenie/skoda-octavia-2-0-tdi-style-4x4/554201',
+    ])('should not treat offer pages as search results: %s', (url) => {
+        expect(isSearchResultsPage(url)).toBe(false);
+    });
+
+    it('should return false for marketplaces without search cards', () => {
+        expect(isSearchResultsPage('https://www.olx.pl/oferty/q-bmw/')).toBe(false);
+        expect(isSearchResultsPage('https://example.com/search')).toBe(false);
+    });
+
+    it('should return false for other pages of the marketplace', () => {
+        expect(isSearchResultsPage('https://www.otomoto.pl/')).toBe(false);
+    });
+});
+
+describe('Marketplace adapters', () => {
+    it('should give OTOMOTO, Autoplac and Facebook tracked icons', () => {
+        ['otomoto', 'autoplac', 'facebook-marketplace', 'mobile-de'].forEach(id => {
+            const marketplace = SUPPORTED_MARKETPLACES.find(m => m.id === id);
+            expect(marketplace?.adapter?.searchCards).toBeDefined();
+        });
+    });
+
+    it('should reveal VIN and phone on OTOMOTO and Autoplac', () => {
+        ['otomoto', 'autoplac'].forEach(id => {
+            const adapter = SUPPORTED_MARKETPLACES.find(m => m.id === id)?.adapter;
+            expect(adapter?.vin).toBeDefined();
+            expect(adapter?.phone).toBeDefined();
+        });
+    });
+
+    it('should detect the Facebook login wall', () => {
+        const login = getMarketplaceForUrl('https://www.facebook.com/marketplace/item/123')?.adapter?.login;
+        expect(login?.urlPatterns).toContain('/login');
+        expect(login?.formSelectors).toEqual(['input[name="email"]', 'input[name="pass"]']);
+    });
+});
+
+describe('Custom marketplaces', () => {
+    const custom: CustomMarketplace = {
+        id: 'custom-cars.example.com',
+        name: 'Example Cars',
+        domains: ['cars.example.com'],
+        offerPagePatterns: ['/offer/'],
+        excludePatterns: ['/search'],
+        neverFetch: true,
+    };
+
+    afterEach(() => {
+        setCustomMarketplaces(null);
+    });
+
+    it('should detect offer pages of registered custom marketplaces', () => {
+        setCustomMarketplaces([custom]);
+
+        expect(isSupportedMarketplace('https://cars.example.com/')).toBe(true);
+        expect(isOfferPage('https://cars.example.com/offer/123')).toBe(true);
+        expect(isOfferPage('https://cars.example.com/search?make=bmw')).toBe(false);
+        expect(isTrackableOfferPage('https://cars.example.com/offer/123')).toBe(true);
+        expect(getMarketplaceDisplayName('cars.example.com')).toBe('Example Cars');
+    });
+
+    it('should keep the neverFetch flag', () => {
+        setCustomMarketplaces([custom]);
+
+        expect(getMarketplaceForUrl('https://cars.example.com/offer/123')?.neverFetch).toBe(true);
+    });
+
+    it('should list custom marketplaces after the built-in ones', () => {
+        setCustomMarketplaces([custom]);
+
+        const enabled = getEnabledMarketplaces();
+        expect(enabled[enabled.length - 1].id).toBe('custom-cars.example.com');
+        expect(getSupportedDomains()).toContain('cars.example.com');
+    });
+
+    it('should let built-in marketplaces win on shared domains', () => {
+        setCustomMarketplaces([{...custom, id: 'custom-otomoto.pl', domains: ['otomoto.pl']}]);
+
+        expect(getMarketplaceForUrl('https://otomoto.pl/osobowe/oferta/abc.html')?.id).toBe('otomoto');
+    });
+
+    it('should forget custom marketplaces when cleared', () => {
+        setCustomMarketplaces([custom]);
+        setCustomMarketplaces(null);
+
+        expect(isSupportedMarketplace('https://cars.example.com/')).toBe(false);
+    });
+});
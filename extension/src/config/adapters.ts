@@ -0,0 +1,249 @@
+/**
+ * Marketplace Adapters
+ *
+ * Page-level knowledge about a marketplace that the content scripts and the
+ * refresh fetcher work from: which pages show search results, where the
+ * search cards are, how VIN and phone numbers are revealed, how a logged-out
+ * user is recognized, how ended listings look and whether tracked offer pages
+ * get the price history overlay.
+ *
+ * Adapters are registered on their marketplace in marketplaces.ts. The
+ * content scripts are generic and pick the adapter by the page URL, so a new
+ * marketplace only needs an adapter (and manifest matches) here.
+ */
+
+/**
+ * Search results cards that get the MotorScope icon when already tracked
+ */
+export interface SearchCardAdapter {
+    /** URL patterns of search results pages (offer pages are never search pages) */
+    pagePatterns: (string | RegExp)[];
+    /** Element of a single search result */
+    card: string;
+    /** Offer link inside the card (the card itself may be the link) */
+    link: string;
+    /** Bookmark button the icon is placed next to */
+    favoritesButton?: string;
+    /**
+     * Element the icon is appended to - looked up from favoritesButton when set,
+     * inside the card otherwise. Omit to append to the card itself.
+     */
+    iconContainer?: string;
+    /** Accessible icon label in the marketplace's language */
+    iconLabel?: string;
+    /** Marketplace button class set on the icon */
+    iconClassName?: string;
+}
+
+/**
+ * Signs that the user is not logged in to the marketplace.
+ * Only plain strings - the fetcher passes this into the loaded page.
+ */
+export interface LoginAdapter {
+    /** Header login button, showing `text` while logged out */
+    button?: {
+        selector: string;
+        textSelector: string;
+        text: string;
+    };
+    /** URL fragments of the login page logged-out users are sent to */
+    urlPatterns?: string[];
+    /** Elements that together make up the login form */
+    formSelectors?: string[];
+    /** Page texts asking the user to log in (case-insensitive) */
+    textPatterns?: string[];
+}
+
+/**
+ * VIN hidden behind a "show VIN" button on the offer page
+ */
+export interface VinRevealAdapter {
+    /** Section holding the VIN and its reveal button */
+    container: string;
+    /** Element showing the VIN once revealed */
+    display: string;
+    /** Reveal button text */
+    buttonText: string;
+}
+
+/**
+ * Seller phone number hidden behind a "show number" button on the offer page
+ */
+export interface PhoneRevealAdapter {
+    /** Seller section where the revealed tel: link appears */
+    sellerInfo: string;
+    /** Reveal button */
+    button: string;
+    /** Fallback container searched for reveal buttons */
+    container: string;
+    /** Text element inside the reveal button */
+    buttonTextWrapper: string;
+    /** Revealed phone link */
+    telLink: string;
+    /** Reveal button text */
+    buttonText: string;
+}
+
+/**
+ * The marketplace's "listing no longer available" page.
+ * For sites that answer ended listings with 200 instead of 404/410.
+ */
+export interface ExpiryAdapter {
+    /** Text of the notice (case-insensitive), only checked after a redirect away from the offer */
+    textPatterns?: string[];
+    /** Path prefixes of the pages ended listings redirect to (e.g. search results) */
+    redirectPathPrefixes?: string[];
+}
+
+/**
+ * Price history panel shown on offer pages of already tracked listings.
+ * Texts are in the marketplace's language, like the search card icon label.
+ */
+export interface PriceOverlayAdapter {
+    labels: {
+        title: string;
+        firstSeen: string;
+        change: string;
+        /** Shown instead of the change while the price never moved */
+        noChange: string;
+        status: string;
+        active: string;
+        ended: string;
+        /** Button opening the listing in the dashboard */
+        open: string;
+        close: string;
+    };
+}
+
+export interface MarketplaceAdapter {
+    searchCards?: SearchCardAdapter;
+    login?: LoginAdapter;
+    vin?: VinRevealAdapter;
+    phone?: PhoneRevealAdapter;
+    expiry?: ExpiryAdapter;
+    priceOverlay?: PriceOverlayAdapter;
+}
+
+export const OTOMOTO_ADAPTER: MarketplaceAdapter = {
+    searchCards: {
+        pagePatterns: ['/osobowe', '/dostawcze', '/motocykle-i-quady'],
+        card: 'article[data-id]',
+        link: 'h2 a[href*="/oferta/"]',
+        favoritesButton: 'button[aria-label="Dodaj do obserwowanych"]',
+        iconContainer: '.ooa-1m6nx9w',
+        iconLabel: 'Otwórz w MotorScope',
+        iconClassName: 'ooa-xaeen7',
+    },
+    login: {
+        button: {
+            selector: '[data-testid="usermenu-link-login"]',
+            textSelector: 'span.n-button-text-wrapper',
+            text: 'Zaloguj się',
+        },
+    },
+    vin: {
+        container: '[data-testid="vin"]',
+        display: '[data-testid="advert-vin"] p',
+        buttonText: 'Wyświetl VIN',
+    },
+    phone: {
+        sellerInfo: '[data-testid="aside-seller-info"]',
+        button: '[data-testid="dynamic-numbers-button"]',
+        container: '.e1it56680',
+        buttonTextWrapper: '.n-button-text-wrapper',
+        telLink: 'a[href^="tel:"]',
+        buttonText: 'Wyświetl numer', // Matches both "numer" and "numery"
+    },
+    priceOverlay: {
+        labels: {
+            title: 'Historia ceny w MotorScope',
+            firstSeen: 'Śledzone od',
+            change: 'Zmiana ceny',
+            noChange: 'Bez zmian',
+            status: 'Status',
+            active: 'Aktywne',
+            ended: 'Zakończone',
+            open: 'Otwórz w MotorScope',
+            close: 'Zamknij',
+        },
+    },
+};
+
+export const AUTOPLAC_ADAPTER: MarketplaceAdapter = {
+    searchCards: {
+        pagePatterns: ['/szukaj', '/kategoria/', '/lista/', '/samochody'],
+        card: 'article',
+        link: 'a[href*="/ogloszenie/"]',
+        iconLabel: 'Otwórz w MotorScope',
+    },
+    vin: {
+        container: '[class*="vin"]',
+        display: '[class*="vin"] span',
+        buttonText: 'Pokaż VIN',
+    },
+    phone: {
+        sellerInfo: '[class*="seller"]',
+        button: '[class*="phone"] button',
+        container: '[class*="contact"]',
+        buttonTextWrapper: 'span',
+        telLink: 'a[href^="tel:"]',
+        buttonText: 'Pokaż numer',
+    },
+};
+
+/** Facebook sends logged-out users to the login page or shows a login wall */
+const FACEBOOK_LOGIN: LoginAdapter = {
+    urlPatterns: ['/login', 'login.php', '/checkpoint/'],
+    formSelectors: ['input[name="email"]', 'input[name="pass"]'],
+    textPatterns: ['log into facebook', 'zaloguj się'],
+};
+
+export const FACEBOOK_MARKETPLACE_ADAPTER: MarketplaceAdapter = {
+    // Marketplace tiles are the offer links themselves
+    searchCards: {
+        pagePatterns: ['/marketplace'],
+        card: 'a[href*="/marketplace/item/"]',
+        link: 'a[href*="/marketplace/item/"]',
+        iconLabel: 'Open in MotorScope',
+    },
+    login: FACEBOOK_LOGIN,
+};
+
+export const MOBILE_DE_ADAPTER: MarketplaceAdapter = {
+    searchCards: {
+        pagePatterns: ['/fahrzeuge/search.html'],
+        card: 'article[data-testid^="result-listing"]',
+        link: 'a[href*="/fahrzeuge/details.html"], a[href*="/auto-inserat/"]',
+        favoritesButton: 'button[aria-label="Parken"]',
+        iconContainer: 'div',
+        iconLabel: 'In MotorScope öffnen',
+        iconClassName: '',
+    },
+};
+
+export const AUTOSCOUT24_ADAPTER: MarketplaceAdapter = {
+    // Ended listings redirect to search results with a "no longer available" banner
+    expiry: {
+        textPatterns: [
+            'nicht mehr verfügbar',
+            'no longer available',
+            'non è più disponibile',
+            'n\'est plus disponible',
+            'niet meer beschikbaar',
+            'ya no está disponible',
+            'nie jest już dostępne',
+        ],
+        redirectPathPrefixes: ['/lst'],
+    },
+};
+
+export const OLX_ADAPTER: MarketplaceAdapter = {
+    // Ended ads redirect to the category listing or search results with an "inactive" notice
+    expiry: {
+        textPatterns: [
+            'to ogłoszenie nie jest już dostępne',
+            'ogłoszenie jest nieaktywne',
+        ],
+        redirectPathPrefixes: ['/motoryzacja/', '/oferty/'],
+    },
+};
@@ -5,5 +5,6 @@
  */
 
 export * from './marketplaces';
+export * from './adapters';
 export * from './environment';
 
@@ -5,6 +5,17 @@
  * Add new marketplaces here to extend support.
  */
 
+import {
+    AUTOPLAC_ADAPTER,
+    AUTOSCOUT24_ADAPTER,
+    FACEBOOK_MARKETPLACE_ADAPTER,
+    MOBILE_DE_ADAPTER,
+    OLX_ADAPTER,
+    OTOMOTO_ADAPTER,
+    type MarketplaceAdapter,
+} from './adapters';
+import type {CustomMarketplace} from '../types';
+
 export interface MarketplaceConfig {
     /** Unique identifier for the marketplace */
     id: string;
@@ -35,6 +46,21 @@ export interface MarketplaceConfig {
      * Required for sites that block fetch requests or require authentication cookies.
      */
     neverFetch?: boolean;
+    /**
+     * Currency code listings are priced in, used when the model returns none
+     * or only a symbol. Omit for marketplaces listing in several currencies.
+     */
+    currency?: string;
+    /**
+     * Country vehicles listed here are imported from
+     * (registration.originCountry when the listing does not state one)
+     */
+    originCountry?: string;
+    /**
+     * Page-level support: search cards, VIN/phone reveal, login and expiry detection
+     * (see adapters.ts)
+     */
+    adapter?: MarketplaceAdapter;
 }
 
 /**
@@ -45,6 +71,7 @@ export interface MarketplaceConfig {
  * 2. Include all domain variations (with/without www, regional subdomains, etc.)
  * 3. Define offerPagePatterns to identify specific listing pages
  * 4. Set enabled: true to activate
+ * 5. Attach an adapter for content script and refresh support
  */
 export const SUPPORTED_MARKETPLACES: MarketplaceConfig[] = [
     {
@@ -67,6 +94,7 @@ export const SUPPORTED_MARKETPLACES: MarketplaceConfig[] = [
             '/osobowe/',          // Category listing (but not /oferta/)
             '?search',            // Search queries
         ],
+        adapter: OTOMOTO_ADAPTER,
     },
     {
         id: 'autoplac',
@@ -88,6 +116,7 @@ export const SUPPORTED_MARKETPLACES: MarketplaceConfig[] = [
             '/lista/',
             '?page=',
         ],
+        adapter: AUTOPLAC_ADAPTER,
     },
     {
         id: 'facebook-marketplace',
@@ -117,14 +146,128 @@ export const SUPPORTED_MARKETPLACES: MarketplaceConfig[] = [
         ],
         // Facebook requires authentication and blocks fetch requests
         neverFetch: true,
+        adapter: FACEBOOK_MARKETPLACE_ADAPTER,
+    },
+    {
+        id: 'mobile-de',
+        name: 'mobile.de',
+        domains: ['mobile.de', 'www.mobile.de', 'suchen.mobile.de', 'm.mobile.de'],
+        countries: ['DE'],
+        url: 'https://www.mobile.de',
+        enabled: true,
+        // mobile.de offer URLs:
+        // - /fahrzeuge/details.html?id={id} - standard listing
+        // - /auto-inserat/{slug}/{id}.html - SEO listing variant
+        offerPagePatterns: [
+            '/fahrzeuge/details.html',
+            /\/auto-inserat\/[\w-]+\/\d+\.html/,
+        ],
+        excludePatterns: [
+            '/fahrzeuge/search.html',
+            '/fahrzeuge/parkplatz',
+        ],
+        // mobile.de answers plain fetch requests with a bot check
+        neverFetch: true,
+        // German listings are priced in EUR and imported from Germany
+        currency: 'EUR',
+        originCountry: 'DE',
+        adapter: MOBILE_DE_ADAPTER,
+    },
+    {
+        id: 'autoscout24',
+        name: 'AutoScout24',
+        domains: [
+            'autoscout24.com', 'www.autoscout24.com',
+            'autoscout24.de', 'www.autoscout24.de',
+            'autoscout24.at', 'www.autoscout24.at',
+            'autoscout24.be', 'www.autoscout24.be',
+            'autoscout24.es', 'www.autoscout24.es',
+            'autoscout24.fr', 'www.autoscout24.fr',
+            'autoscout24.it', 'www.autoscout24.it',
+            'autoscout24.lu', 'www.autoscout24.lu',
+            'autoscout24.nl', 'www.autoscout24.nl',
+            'autoscout24.pl', 'www.autoscout24.pl',
+        ],
+        countries: ['DE', 'AT', 'BE', 'ES', 'FR', 'IT', 'LU', 'NL', 'PL'],
+        url: 'https://www.autoscout24.com',
+        enabled: true,
+        // AutoScout24 offer URLs end with a UUID, the path segment depends on the country site:
+        // https://www.autoscout24.de/angebote/bmw-320-d-touring-diesel-grau-6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f
+        offerPagePatterns: [
+            /\/(angebote|offers|annunci|offres|aanbod|anuncios|oferta|oferty)\/[\w-]+-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i,
+        ],
+        excludePatterns: [
+            '/lst',               // Search results (/lst/bmw/320)
+            '/haendler/',         // Dealer pages
+        ],
+        adapter: AUTOSCOUT24_ADAPTER,
+    },
+    {
+        id: 'olx',
+        name: 'OLX',
+        domains: ['olx.pl', 'www.olx.pl', 'm.olx.pl'],
+        countries: ['PL'],
+        url: 'https://www.olx.pl/motoryzacja/samochody/',
+        enabled: true,
+        // OLX offer URLs look like: https://www.olx.pl/d/oferta/bmw-seria-3-320d-CID5-IDZx8Kq.html
+        // (car ads posted through OTOMOTO link to otomoto.pl and are tracked there)
+        offerPagePatterns: [
+            /\/oferta\/[\w-]+-ID\w+\.html/,
+        ],
+        excludePatterns: [
+            '/oferty/',           // Search results (/oferty/q-bmw/)
+            '/motoryzacja/',      // Category listing
+        ],
+        currency: 'PLN',
+        adapter: OLX_ADAPTER,
     },
 ];
 
+/** Marketplaces the user added in settings (see setCustomMarketplaces) */
+let customMarketplaces: MarketplaceConfig[] = [];
+
+/**
+ * Convert a user-defined marketplace from settings to a marketplace config
+ */
+export const toMarketplaceConfig = (custom: CustomMarketplace): MarketplaceConfig => ({
+    id: custom.id,
+    name: custom.name,
+    domains: custom.domains,
+    countries: [],
+    url: `https://${custom.domains[0]}`,
+    enabled: true,
+    offerPagePatterns: custom.offerPagePatterns,
+    excludePatterns: custom.excludePatterns,
+    neverFetch: custom.neverFetch,
+});
+
+/**
+ * Register the user's custom marketplaces (from settings) next to the built-in ones.
+ * Built-in marketplaces win when both match a URL.
+ */
+export const setCustomMarketplaces = (definitions: CustomMarketplace[] | null | undefined): void => {
+    customMarketplaces = (definitions ?? []).map(toMarketplaceConfig);
+};
+
+/**
+ * Whether a marketplace config comes from the user's custom marketplaces
+ */
+export const isCustomMarketplace = (marketplace: MarketplaceConfig): boolean => {
+    return customMarketplaces.includes(marketplace);
+};
+
+/**
+ * Get built-in and custom marketplaces
+ */
+export const getAllMarketplaces = (): MarketplaceConfig[] => {
+    return [...SUPPORTED_MARKETPLACES, ...customMarketplaces];
+};
+
 /**
  * Get all enabled marketplaces
  */
 export const getEnabledMarketplaces = (): MarketplaceConfig[] => {
-    return SUPPORTED_MARKETPLACES.filter(m => m.enabled);
+    return getAllMarketplaces().filter(m => m.enabled);
 };
 
 /**
@@ -141,7 +284,7 @@ export const getSupportedDomains = (): string[] => {
 export const getMarketplaceDisplayName = (platform: string): string => {
     const normalizedPlatform = platform.toLowerCase().replace('www.', '');
 
-    const marketplace = SUPPORTED_MARKETPLACES.find(m =>
+    const marketplace = getAllMarketplaces().find(m =>
         m.domains.some(d => d.toLowerCase().replace('www.', '') === normalizedPlatform) ||
         m.id.toLowerCase() === normalizedPlatform.replace('.pl', '').replace('.de', ''),
     );
@@ -215,6 +358,55 @@ export const isTrackableOfferPage = (url: string): boolean => {
     return isSupportedMarketplace(url) && isOfferPage(url);
 };
 
+/**
+ * Lowercase path of a URL (null for invalid URLs)
+ */
+const getUrlPath = (url: string): string | null => {
+    try {
+        return new URL(url).pathname.toLowerCase();
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Check if a loaded page is the marketplace's "listing no longer available" page
+ * (for ended listings that are not answered with 404/410)
+ *
+ * Only a redirect away from the offer counts: a live ad can mention the notice
+ * text in its description, and its own URL is never a search results page.
+ *
+ * @param url - The listing URL
+ * @param finalUrl - URL of the loaded page, after redirects
+ * @param pageText - Text content of the loaded page
+ * @returns true if the page shows that the listing has ended
+ */
+export const isExpiredListingPage = (url: string, finalUrl: string, pageText: string): boolean => {
+    const expiry = getMarketplaceForUrl(url)?.adapter?.expiry;
+    if (!expiry) return false;
+
+    const finalPath = getUrlPath(finalUrl);
+    const leftOffer = finalPath !== null && finalPath !== getUrlPath(url) && !isOfferPage(finalUrl);
+    if (!leftOffer) return false;
+
+    const text = pageText.toLowerCase();
+    return (expiry.redirectPathPrefixes ?? []).some(prefix => finalPath.startsWith(prefix.toLowerCase())) ||
+        (expiry.textPatterns ?? []).some(pattern => text.includes(pattern.toLowerCase()));
+};
+
+/**
+ * Check if a URL is a search results page whose cards can get the tracked icon
+ *
+ * @param url - The URL to check
+ * @returns true if the marketplace adapter marks search cards on this page
+ */
+export const isSearchResultsPage = (url: string): boolean => {
+    const searchCards = getMarketplaceForUrl(url)?.adapter?.searchCards;
+    if (!searchCards || isOfferPage(url)) return false;
+
+    return matchesPatterns(url, searchCards.pagePatterns);
+};
+
 /**
  * Get the marketplace config for a given URL
  *
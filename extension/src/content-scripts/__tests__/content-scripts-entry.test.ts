@@ -1,5 +1,17 @@
 const flushMicrotasks = (): Promise<void> => new Promise(resolve => queueMicrotask(resolve));
 
+/** Import an entry script inside act() of the React copy it will use (modules are reset per test) */
+const importRendering = async (path: string): Promise<void> => {
+    const {act} = await import('react');
+    (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+    await act(async () => {
+        await import(path);
+        await flushMicrotasks();
+    });
+};
+
+let mockPriceSummary: unknown = null;
+
 const createChromeMock = () => ({
     runtime: {
         getURL: jest.fn().mockReturnValue('chrome-extension://test/icon.png'),
@@ -7,6 +19,9 @@ const createChromeMock = () => ({
             if (payload?.type === 'GET_TRACKED_URLS') {
                 return {urls: ['https://www.otomoto.pl/oferta/mock']};
             }
+            if (payload?.type === 'GET_LISTING_PRICE_SUMMARY') {
+                return {success: true, listing: mockPriceSummary};
+            }
             return {success: true};
         }),
         onMessage: {
@@ -22,14 +37,41 @@ type SharedMock = {
     normalizeTrackedUrls: jest.Mock;
     processArticles: jest.Mock;
     createSelectorObserver: jest.Mock;
-    createOtomotoMainController: jest.Mock;
+    createMotorScopeIcon: jest.Mock;
+    createRevealController: jest.Mock;
+    createPriceOverlayRoot: jest.Mock;
+    removePriceOverlay: jest.Mock;
     __mockController: {runExtraction: jest.Mock};
 };
 
+type MarketplacesMock = {
+    getMarketplaceForUrl: jest.Mock;
+    isOfferPage: jest.Mock;
+    isSearchResultsPage: jest.Mock;
+};
+
 const getSharedMock = (): SharedMock => {
     return jest.requireMock('../shared') as SharedMock;
 };
 
+const getMarketplacesMock = (): MarketplacesMock => {
+    return jest.requireMock('../../config/marketplaces') as MarketplacesMock;
+};
+
+/** Serve the page as if it belonged to the given marketplace */
+const useMarketplace = (id: string): void => {
+    const {SUPPORTED_MARKETPLACES} = jest.requireActual('../../config/marketplaces');
+    const marketplace = SUPPORTED_MARKETPLACES.find((m: {id: string}) => m.id === id);
+    getMarketplacesMock().getMarketplaceForUrl.mockReturnValue(marketplace);
+};
+
+jest.mock('../../config/marketplaces', () => ({
+    __esModule: true,
+    getMarketplaceForUrl: jest.fn(() => null),
+    isOfferPage: jest.fn(() => true),
+    isSearchResultsPage: jest.fn(() => true),
+}));
+
 jest.mock('../shared', () => {
     const logFn = jest.fn();
     const mockController = {runExtraction: jest.fn()};
@@ -37,14 +79,17 @@ jest.mock('../shared', () => {
         __esModule: true,
         createLogger: jest.fn(() => logFn),
         onDOMReady: jest.fn((callback: () => void) => callback()),
-        isSearchPage: jest.fn(() => true),
-        isListingPage: jest.fn(() => true),
         createSelectorObserver: jest.fn().mockReturnValue({disconnect: jest.fn()}),
         normalizeTrackedUrls: jest.fn((urls: string[]) => new Set(urls)),
         processArticles: jest.fn(() => 1),
         resetArticleProcessingState: jest.fn(),
+        createListingDomConfig: jest.fn(() => ({})),
+        createRevealOptions: jest.fn(() => ({})),
+        hasRevealSupport: jest.fn(() => true),
         createMotorScopeIcon: jest.fn(() => document.createElement('button')),
-        createOtomotoMainController: jest.fn(() => mockController),
+        createRevealController: jest.fn(() => mockController),
+        createPriceOverlayRoot: jest.fn(() => document.body.appendChild(document.createElement('div'))),
+        removePriceOverlay: jest.fn(),
         findButtonByText: jest.fn(),
         getReactFiber: jest.fn(),
         searchFiber: jest.fn(),
@@ -66,6 +111,7 @@ describe('content-script entry harness', () => {
         jest.resetModules();
         jest.clearAllMocks();
         document.body.innerHTML = BASE_LISTING_MARKUP;
+        mockPriceSummary = null;
         (globalThis as any).chrome = createChromeMock();
         jest.spyOn(window, 'open').mockImplementation(() => null);
     });
@@ -76,9 +122,10 @@ describe('content-script entry harness', () => {
         document.body.innerHTML = '';
     });
 
-    it('initializes the OTOMOTO listing script and processes articles', async () => {
+    it('initializes the listing script on OTOMOTO and processes articles', async () => {
         const shared = getSharedMock();
-        await import('../otomoto-listing');
+        useMarketplace('otomoto');
+        await import('../marketplace-listing');
         await flushMicrotasks();
 
         const chromeMock = (globalThis as any).chrome;
@@ -88,8 +135,33 @@ describe('content-script entry harness', () => {
         expect(shared.createSelectorObserver).toHaveBeenCalled();
     });
 
-    it('initializes the OTOMOTO main script and schedules extraction retries', async () => {
+    it('initializes the listing script on mobile.de with its search cards', async () => {
         const shared = getSharedMock();
+        useMarketplace('mobile-de');
+        await import('../marketplace-listing');
+        await flushMicrotasks();
+
+        const chromeMock = (globalThis as any).chrome;
+        expect(chromeMock.runtime.sendMessage).toHaveBeenCalledWith(expect.objectContaining({type: 'GET_TRACKED_URLS'}));
+        expect(shared.processArticles).toHaveBeenCalled();
+        expect(shared.createSelectorObserver).toHaveBeenCalledWith(
+            expect.objectContaining({selector: 'article[data-testid^="result-listing"]'}),
+        );
+    });
+
+    it('skips the listing script on pages without search cards', async () => {
+        const shared = getSharedMock();
+        useMarketplace('olx');
+        await import('../marketplace-listing');
+        await flushMicrotasks();
+
+        expect(shared.processArticles).not.toHaveBeenCalled();
+        expect(shared.createSelectorObserver).not.toHaveBeenCalled();
+    });
+
+    it('initializes the main script on offer pages and schedules extraction retries', async () => {
+        const shared = getSharedMock();
+        useMarketplace('otomoto');
         const originalGlobalTimeout = global.setTimeout;
         const originalWindowTimeout = window.setTimeout;
         const immediateTimeout: typeof setTimeout = ((callback: () => void) => {
@@ -103,14 +175,69 @@ describe('content-script entry harness', () => {
         window.setTimeout = immediateTimeout;
 
         try {
-            await import('../otomoto-main');
+            await import('../marketplace-main');
             await flushMicrotasks();
         } finally {
             global.setTimeout = originalGlobalTimeout;
             window.setTimeout = originalWindowTimeout;
         }
 
-        expect(shared.createOtomotoMainController).toHaveBeenCalledTimes(1);
+        expect(shared.createRevealController).toHaveBeenCalledTimes(1);
         expect(shared.__mockController.runExtraction).toHaveBeenCalledTimes(3);
     });
+
+    it('skips the main script outside supported marketplaces', async () => {
+        const shared = getSharedMock();
+        getMarketplacesMock().getMarketplaceForUrl.mockReturnValue(null);
+
+        await import('../marketplace-main');
+        await flushMicrotasks();
+
+        expect(shared.createRevealController).not.toHaveBeenCalled();
+    });
+
+    it('shows the price overlay on offer pages of tracked OTOMOTO listings', async () => {
+        const shared = getSharedMock();
+        useMarketplace('otomoto');
+        mockPriceSummary = {
+            id: 'vin_ABC',
+            title: 'BMW 320d',
+            currentPrice: 85000,
+            currency: 'PLN',
+            priceHistory: [{date: '2025-01-01T00:00:00.000Z', price: 90000, currency: 'PLN'}],
+            firstSeenAt: '2025-01-01T00:00:00.000Z',
+            status: 'ENDED',
+        };
+
+        await importRendering('../marketplace-price-overlay');
+
+        const chromeMock = (globalThis as any).chrome;
+        expect(chromeMock.runtime.sendMessage).toHaveBeenCalledWith({
+            type: 'GET_LISTING_PRICE_SUMMARY',
+            url: window.location.href,
+        });
+        expect(shared.createPriceOverlayRoot).toHaveBeenCalledTimes(1);
+        expect(document.body).toHaveTextContent('Historia ceny w MotorScope');
+        expect(document.body).toHaveTextContent('-5,000 PLN (-5.6%)');
+        expect(document.body).toHaveTextContent('Zakończone');
+    });
+
+    it('skips the price overlay for listings that are not tracked', async () => {
+        const shared = getSharedMock();
+        useMarketplace('otomoto');
+
+        await importRendering('../marketplace-price-overlay');
+
+        expect(shared.createPriceOverlayRoot).not.toHaveBeenCalled();
+    });
+
+    it('skips the price overlay on marketplaces without one', async () => {
+        useMarketplace('olx');
+
+        await import('../marketplace-price-overlay');
+        await flushMicrotasks();
+
+        const chromeMock = (globalThis as any).chrome;
+        expect(chromeMock.runtime.sendMessage).not.toHaveBeenCalled();
+    });
 });
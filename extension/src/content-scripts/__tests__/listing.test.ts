@@ -1,12 +1,10 @@
 /**
- * Tests for OTOMOTO listing page content script utility functions
+ * Tests for marketplace listing page content script utility functions
  * Tests the shared modules used by content scripts
  */
 
 import {
     normalizeUrl,
-    isSearchUrl,
-    isListingUrl,
     normalizeTrackedUrls,
     isUrlTracked,
     createMotorScopeIcon,
@@ -30,7 +28,7 @@ const mockChrome = {
 // Assign to global
 (global as unknown as {chrome: typeof mockChrome}).chrome = mockChrome;
 
-describe('otomoto-listing content script utilities', () => {
+describe('marketplace-listing content script utilities', () => {
     describe('URL normalization', () => {
         it('should normalize URLs by removing query params', () => {
             const url = 'https://www.otomoto.pl/osobowe/oferta/ford-edge-ID6HMJxa.html?foo=bar';
@@ -58,44 +56,6 @@ describe('otomoto-listing content script utilities', () => {
         });
     });
 
-    describe('page type detection', () => {
-        describe('isListingUrl', () => {
-            it('should detect listing URL (osobowe)', () => {
-                expect(isListingUrl('https://www.otomoto.pl/osobowe/oferta/ford-edge-ID6HMJxa.html')).toBe(true);
-            });
-
-            it('should detect listing URL (dostawcze)', () => {
-                expect(isListingUrl('https://www.otomoto.pl/dostawcze/oferta/mercedes-sprinter-ID456.html')).toBe(true);
-            });
-
-            it('should not detect search URL as listing', () => {
-                expect(isListingUrl('https://www.otomoto.pl/osobowe/ford/edge')).toBe(false);
-            });
-        });
-
-        describe('isSearchUrl', () => {
-            it('should detect search URLs (osobowe)', () => {
-                expect(isSearchUrl('https://www.otomoto.pl/osobowe/ford/edge')).toBe(true);
-            });
-
-            it('should detect search URLs (dostawcze)', () => {
-                expect(isSearchUrl('https://www.otomoto.pl/dostawcze/mercedes')).toBe(true);
-            });
-
-            it('should detect search URLs (motocykle)', () => {
-                expect(isSearchUrl('https://www.otomoto.pl/motocykle-i-quady/honda')).toBe(true);
-            });
-
-            it('should not detect offer URLs as search URLs', () => {
-                expect(isSearchUrl('https://www.otomoto.pl/osobowe/oferta/ford-edge-ID6HMJxa.html')).toBe(false);
-            });
-
-            it('should not detect nested offer URLs as search URLs', () => {
-                expect(isSearchUrl('https://www.otomoto.pl/dostawcze/oferta/mercedes-sprinter-ID456.html')).toBe(false);
-            });
-        });
-    });
-
     describe('URL tracking detection', () => {
         it('should detect tracked URLs using helper', () => {
             const tracked = normalizeTrackedUrls([
@@ -113,7 +73,7 @@ describe('otomoto-listing content script utilities', () => {
     });
 });
 
-describe('otomoto-listing DOM utilities', () => {
+describe('marketplace-listing DOM utilities', () => {
     beforeEach(() => {
         document.body.innerHTML = '';
         jest.clearAllMocks();
@@ -180,6 +140,18 @@ describe('otomoto-listing DOM utilities', () => {
             buildIcon('https://otomoto.pl/oferta/test');
             expect(mockChrome.runtime.getURL).toHaveBeenCalledWith('icon.png');
         });
+
+        it('should use the label and class given for other marketplaces', () => {
+            const icon = createMotorScopeIcon('https://suchen.mobile.de/fahrzeuge/details.html?id=1', {
+                getIconUrl: () => mockChrome.runtime.getURL('icon.png'),
+                onClick: jest.fn(),
+                label: 'In MotorScope öffnen',
+                className: '',
+            });
+
+            expect(icon.getAttribute('aria-label')).toBe('In MotorScope öffnen');
+            expect(icon.className).toBe('motorscope-tracked-icon');
+        });
     });
 
     describe('article processing logic', () => {
@@ -282,6 +254,45 @@ describe('otomoto-listing DOM utilities', () => {
 
             expect(count).toBe(1);
         });
+
+        it('should use the article as the link when it matches the link selector', () => {
+            document.body.innerHTML = `
+                <a href="https://www.facebook.com/marketplace/item/123/"><span>Ford Ranger</span></a>
+            `;
+            const tile = document.querySelector('a')!;
+            const tileConfig = {
+                ...config,
+                selectors: {
+                    article: 'a[href*="/marketplace/item/"]',
+                    listingLink: 'a[href*="/marketplace/item/"]',
+                },
+            };
+
+            const tracked = normalizeTrackedUrls(['https://www.facebook.com/marketplace/item/123']);
+            const added = processArticleElement(tile, tracked, tileConfig, deps);
+
+            expect(added).toBe(true);
+            expect(tile.lastElementChild?.classList.contains(CSS_CLASSES.TRACKED_ICON)).toBe(true);
+        });
+
+        it('should append to the icon container when there is no favorites button', () => {
+            const article = createMockArticle('1', 'https://autoplac.pl/ogloszenie/test/1');
+            document.body.appendChild(article);
+            const containerConfig = {
+                ...config,
+                selectors: {
+                    article: SELECTORS.ARTICLE,
+                    listingLink: 'a[href*="/ogloszenie/"]',
+                    iconContainer: 'h2',
+                },
+            };
+
+            const tracked = normalizeTrackedUrls(['https://autoplac.pl/ogloszenie/test/1']);
+            const added = processArticleElement(article, tracked, containerConfig, deps);
+
+            expect(added).toBe(true);
+            expect(article.querySelector(`h2 .${CSS_CLASSES.TRACKED_ICON}`)).not.toBeNull();
+        });
     });
 
     describe('reset processing state', () => {
@@ -1,7 +1,7 @@
 import {
     isUserLoggedIn,
     findPhoneInProps,
-    createOtomotoMainController,
+    createRevealController,
     type AuthConfig,
     type VinConfig,
     type PhoneConfig,
@@ -9,7 +9,7 @@ import {
     type PhoneModule,
 } from '../shared';
 
-describe('otomoto-main shared helpers', () => {
+describe('reveal shared helpers', () => {
     beforeEach(() => {
         document.body.innerHTML = '';
         jest.clearAllMocks();
@@ -70,7 +70,7 @@ describe('otomoto-main shared helpers', () => {
         });
     });
 
-    describe('createOtomotoMainController', () => {
+    describe('createRevealController', () => {
         const authConfig: AuthConfig = {
             selectors: {
                 loginButton: '[data-testid="login-button"]',
@@ -141,7 +141,7 @@ describe('otomoto-main shared helpers', () => {
             const {reveal, extractAndDisplay, fakeVinModule, fakePhoneModule} = createDependencies();
             const log = jest.fn();
 
-            const controller = createOtomotoMainController({
+            const controller = createRevealController({
                 authConfig,
                 vinConfig,
                 phoneConfig,
@@ -165,6 +165,48 @@ describe('otomoto-main shared helpers', () => {
             expect(log).toHaveBeenCalledWith('Phone: SUCCESS!', '+48600111222');
             expect(result).toBe('+48600111222');
         });
+
+        it('skips the reveals the marketplace does not configure', () => {
+            const {fakeVinModule, fakePhoneModule} = createDependencies();
+            const createVin = jest.fn().mockReturnValue(fakeVinModule);
+            const createPhone = jest.fn().mockReturnValue(fakePhoneModule);
+
+            const controller = createRevealController({phoneConfig}, {
+                doc: document,
+                log: jest.fn(),
+                findButtonByText: jest.fn(),
+                getReactFiber: jest.fn(),
+                searchFiber: jest.fn(),
+                cleanPhoneNumber: jest.fn(value => value),
+                isValidPhone: jest.fn(),
+                setTimeout,
+                createVinModule: createVin,
+                createPhoneModule: createPhone,
+            });
+
+            expect(controller.runExtraction()).toBe('+48600111222');
+            expect(createVin).not.toHaveBeenCalled();
+            expect(createPhone).toHaveBeenCalledWith(phoneConfig, expect.any(Object));
+        });
+
+        it('treats marketplaces without a login button as logged in', () => {
+            const {fakeVinModule} = createDependencies();
+            const createVin = jest.fn().mockReturnValue(fakeVinModule);
+
+            createRevealController({vinConfig}, {
+                doc: document,
+                log: jest.fn(),
+                findButtonByText: jest.fn(),
+                getReactFiber: jest.fn(),
+                searchFiber: jest.fn(),
+                cleanPhoneNumber: jest.fn(value => value),
+                isValidPhone: jest.fn(),
+                setTimeout,
+                createVinModule: createVin,
+            });
+
+            expect(createVin.mock.calls[0][1].isUserLoggedIn()).toBe(true);
+        });
     });
 });
 
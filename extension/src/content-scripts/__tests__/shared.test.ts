@@ -5,10 +5,6 @@
 import {
     createLogger,
     normalizeUrl,
-    isListingUrl,
-    isSearchUrl,
-    isListingPage,
-    isSearchPage,
     onDOMReady,
     findButtonByText,
     createDebouncer,
@@ -17,8 +13,18 @@ import {
     isValidPhone,
     getReactFiber,
     searchFiber,
+    createListingDomConfig,
+    createRevealOptions,
+    hasRevealSupport,
+    getPriceChange,
+    formatPriceChange,
+    createPriceOverlayRoot,
+    removePriceOverlay,
+    PRICE_OVERLAY_HOST_ID,
     type ReactFiber,
 } from '../shared';
+import {ListingPriceSummary, ListingStatus} from '../../types';
+import {FACEBOOK_MARKETPLACE_ADAPTER, MOBILE_DE_ADAPTER, OTOMOTO_ADAPTER} from '../../config/adapters';
 
 describe('logger module', () => {
     it('should create a logger that logs with prefix', () => {
@@ -49,73 +55,10 @@ describe('url module', () => {
         it('should preserve path without modifications', () => {
             expect(normalizeUrl('https://example.com/path/to/resource')).toBe('https://example.com/path/to/resource');
         });
-    });
-
-    describe('isListingUrl', () => {
-        it('should return true for listing URLs (osobowe)', () => {
-            expect(isListingUrl('https://www.otomoto.pl/osobowe/oferta/ford-ID123.html')).toBe(true);
-        });
-
-        it('should return true for listing URLs (dostawcze)', () => {
-            expect(isListingUrl('https://www.otomoto.pl/dostawcze/oferta/mercedes-sprinter-ID456.html')).toBe(true);
-        });
-
-        it('should return false for search URLs', () => {
-            expect(isListingUrl('https://www.otomoto.pl/osobowe/ford')).toBe(false);
-        });
-
-        it('should return false for homepage', () => {
-            expect(isListingUrl('https://www.otomoto.pl/')).toBe(false);
-        });
-    });
-
-    describe('isSearchUrl', () => {
-        it('should return false for listing URLs', () => {
-            expect(isSearchUrl('https://www.otomoto.pl/osobowe/oferta/ford-ID123.html')).toBe(false);
-        });
-
-        it('should return true for search URLs (osobowe)', () => {
-            expect(isSearchUrl('https://www.otomoto.pl/osobowe/ford')).toBe(true);
-        });
-
-        it('should return true for search URLs (dostawcze)', () => {
-            expect(isSearchUrl('https://www.otomoto.pl/dostawcze/mercedes')).toBe(true);
-        });
 
-        it('should return true for search URLs (motocykle)', () => {
-            expect(isSearchUrl('https://www.otomoto.pl/motocykle-i-quady/honda')).toBe(true);
-        });
-
-        it('should return true for homepage', () => {
-            expect(isSearchUrl('https://www.otomoto.pl/')).toBe(true);
-        });
-    });
-
-    describe('isListingPage', () => {
-        it('should check window.location.href for listing URL pattern', () => {
-            // isListingPage calls isListingUrl with window.location.href
-            // Since we can't easily mock window.location in jsdom, we verify:
-            // 1. The function exists and is callable
-            // 2. It uses isListingUrl internally (covered by isListingUrl tests)
-            expect(typeof isListingPage).toBe('function');
-
-            // In jsdom, window.location.href is usually 'http://localhost/'
-            // which doesn't contain '/oferta/', so should return false
-            expect(isListingPage()).toBe(false);
-        });
-    });
-
-    describe('isSearchPage', () => {
-        it('should check window.location.href for search URL pattern', () => {
-            // isSearchPage calls isSearchUrl with window.location.href
-            // Since we can't easily mock window.location in jsdom, we verify:
-            // 1. The function exists and is callable
-            // 2. It uses isSearchUrl internally (covered by isSearchUrl tests)
-            expect(typeof isSearchPage).toBe('function');
-
-            // In jsdom, window.location.href is usually 'http://localhost/'
-            // which doesn't contain '/oferta/', so isSearchPage returns true
-            expect(isSearchPage()).toBe(true);
+        it('should keep the id param of mobile.de details URLs', () => {
+            expect(normalizeUrl('https://suchen.mobile.de/fahrzeuge/details.html?id=412345678&lang=de'))
+                .toBe('https://suchen.mobile.de/fahrzeuge/details.html?id=412345678');
         });
     });
 });
@@ -513,3 +456,98 @@ describe('react module', () => {
         });
     });
 });
+
+describe('adapter module', () => {
+    describe('createListingDomConfig', () => {
+        it('should map search card selectors', () => {
+            const config = createListingDomConfig(MOBILE_DE_ADAPTER.searchCards!);
+
+            expect(config.selectors).toEqual({
+                article: 'article[data-testid^="result-listing"]',
+                listingLink: 'a[href*="/fahrzeuge/details.html"], a[href*="/auto-inserat/"]',
+                favoritesButton: 'button[aria-label="Parken"]',
+                iconContainer: 'div',
+            });
+            expect(config.cssClasses.trackedIcon).toBe('motorscope-tracked-icon');
+        });
+    });
+
+    describe('createRevealOptions', () => {
+        it('should build login, VIN and phone configs', () => {
+            const options = createRevealOptions(OTOMOTO_ADAPTER);
+
+            expect(options.authConfig?.texts.login).toBe('Zaloguj się');
+            expect(options.vinConfig?.selectors.display).toBe('[data-testid="advert-vin"] p');
+            expect(options.phoneConfig?.selectors.phoneButton).toBe('[data-testid="dynamic-numbers-button"]');
+            expect(options.phoneConfig?.dataAttributes.phone).toBe('data-motorscope-phone');
+        });
+
+        it('should leave out sections the adapter does not have', () => {
+            expect(createRevealOptions(FACEBOOK_MARKETPLACE_ADAPTER)).toEqual({});
+        });
+    });
+
+    describe('hasRevealSupport', () => {
+        it('should be true only for adapters revealing VIN or phone', () => {
+            expect(hasRevealSupport(OTOMOTO_ADAPTER)).toBe(true);
+            expect(hasRevealSupport(MOBILE_DE_ADAPTER)).toBe(false);
+        });
+    });
+});
+
+describe('priceOverlay module', () => {
+    const createSummary = (overrides: Partial<ListingPriceSummary> = {}): ListingPriceSummary => ({
+        id: 'vin_ABC',
+        title: 'BMW 320d',
+        currentPrice: 85000,
+        currency: 'PLN',
+        priceHistory: [
+            {date: '2025-01-01T00:00:00.000Z', price: 90000, currency: 'PLN'},
+            {date: '2025-01-10T00:00:00.000Z', price: 85000, currency: 'PLN'},
+        ],
+        firstSeenAt: '2025-01-01T00:00:00.000Z',
+        status: ListingStatus.ACTIVE,
+        ...overrides,
+    });
+
+    describe('getPriceChange', () => {
+        it('should compare the current price with the first price seen', () => {
+            expect(getPriceChange(createSummary())).toEqual({amount: -5000, percent: -5.6});
+        });
+
+        it('should report no change without price history', () => {
+            expect(getPriceChange(createSummary({priceHistory: []}))).toEqual({amount: 0, percent: 0});
+        });
+    });
+
+    describe('formatPriceChange', () => {
+        it('should sign drops and increases', () => {
+            expect(formatPriceChange({amount: -5000, percent: -5.6}, 'PLN')).toBe('-5,000 PLN (-5.6%)');
+            expect(formatPriceChange({amount: 1000, percent: 1.2}, 'EUR')).toBe('+1,000 EUR (+1.2%)');
+        });
+    });
+
+    describe('createPriceOverlayRoot', () => {
+        afterEach(() => {
+            document.body.innerHTML = '';
+        });
+
+        it('should render into a shadow root of a single fixed host', () => {
+            const first = createPriceOverlayRoot(document);
+            const second = createPriceOverlayRoot(document);
+
+            const hosts = document.querySelectorAll(`#${PRICE_OVERLAY_HOST_ID}`);
+            expect(hosts).toHaveLength(1);
+            expect((hosts[0] as HTMLElement).style.position).toBe('fixed');
+            expect(hosts[0].shadowRoot?.contains(second)).toBe(true);
+            expect(hosts[0].shadowRoot?.contains(first)).toBe(false);
+        });
+
+        it('should remove the host', () => {
+            createPriceOverlayRoot(document);
+            removePriceOverlay(document);
+
+            expect(document.getElementById(PRICE_OVERLAY_HOST_ID)).toBeNull();
+        });
+    });
+});
@@ -1,15 +1,17 @@
 /**
- * Content script for OTOMOTO listing pages (search results, category pages)
+ * Content script for marketplace search results (search, category pages)
  * Adds MotorScope icon to listings that are already tracked
  *
+ * Search cards come from the marketplace adapter (config/adapters.ts).
  * Runs in ISOLATED world to have access to chrome.runtime for messaging
  */
 
+import {getMarketplaceForUrl, isSearchResultsPage} from '../config/marketplaces';
 import {
     createLogger,
     onDOMReady,
-    isSearchPage,
     createSelectorObserver,
+    createListingDomConfig,
     normalizeTrackedUrls,
     processArticles,
     resetArticleProcessingState,
@@ -26,59 +28,29 @@ const CONFIG = {
     MUTATION_DEBOUNCE_MS: 500,
 } as const;
 
-const SELECTORS = {
-    // Search result article elements
-    ARTICLE: 'article[data-id]',
-    // Link within article that contains the listing URL
-    LISTING_LINK: 'h2 a[href*="/oferta/"]',
-    // Favorites button container
-    FAVORITES_BUTTON: 'button[aria-label="Dodaj do obserwowanych"]',
-    // Container for our icon (parent of favorites button)
-    ICON_CONTAINER: '.ooa-1m6nx9w',
-} as const;
-
-const DATA_ATTRIBUTES = {
-    PROCESSED: 'data-motorscope-processed',
-    TRACKED: 'data-motorscope-tracked',
-} as const;
-
-const CSS_CLASSES = {
-    TRACKED_ICON: 'motorscope-tracked-icon',
-} as const;
-
-const LISTING_DOM_CONFIG: ListingDomConfig = {
-    selectors: {
-        article: SELECTORS.ARTICLE,
-        listingLink: SELECTORS.LISTING_LINK,
-        favoritesButton: SELECTORS.FAVORITES_BUTTON,
-        iconContainer: SELECTORS.ICON_CONTAINER,
-    },
-    dataAttributes: {
-        processed: DATA_ATTRIBUTES.PROCESSED,
-        tracked: DATA_ATTRIBUTES.TRACKED,
-    },
-    cssClasses: {
-        trackedIcon: CSS_CLASSES.TRACKED_ICON,
-    },
-};
+const searchCards = getMarketplaceForUrl(window.location.href)?.adapter?.searchCards;
 
 const listingDependencies: ListingDependencies = {
     log,
     buildIcon: (listingUrl: string) => createMotorScopeIcon(listingUrl, {
         getIconUrl: () => chrome.runtime.getURL('icon.png'),
         onClick: () => openDashboardWithListing(listingUrl),
+        label: searchCards?.iconLabel,
+        className: searchCards?.iconClassName,
     }),
 };
 
 // ==================== STATE ====================
 
 let trackedUrls: Set<string> = new Set();
+let listingDomConfig: ListingDomConfig | null = null;
 let isInitialized = false;
 
 // ==================== UTILITIES ====================
 
 const processAllArticles = (): void => {
-    const added = processArticles(document, trackedUrls, LISTING_DOM_CONFIG, listingDependencies);
+    if (!listingDomConfig) return;
+    const added = processArticles(document, trackedUrls, listingDomConfig, listingDependencies);
     log(`Processed articles - icons added: ${added}`);
 };
 
@@ -127,7 +99,8 @@ const fetchTrackedListings = async (): Promise<void> => {
 };
 
 const resetArticles = (): void => {
-    resetArticleProcessingState(document, LISTING_DOM_CONFIG);
+    if (!listingDomConfig) return;
+    resetArticleProcessingState(document, listingDomConfig);
 };
 
 // ==================== MESSAGE HANDLING ====================
@@ -160,13 +133,14 @@ const initialize = async (): Promise<void> => {
     }
 
     // Only run on search pages, not on individual listing pages
-    if (!isSearchPage()) {
+    if (!searchCards || !isSearchResultsPage(window.location.href)) {
         log('Not a search page, skipping');
         return;
     }
 
     log('Initializing on search page');
     isInitialized = true;
+    listingDomConfig = createListingDomConfig(searchCards);
 
     // Fetch tracked listings
     await fetchTrackedListings();
@@ -176,7 +150,7 @@ const initialize = async (): Promise<void> => {
 
     // Set up observer for dynamic content (infinite scroll)
     createSelectorObserver({
-        selector: SELECTORS.ARTICLE,
+        selector: searchCards.card,
         onMatch: processAllArticles,
         debounceMs: CONFIG.MUTATION_DEBOUNCE_MS,
     });
@@ -0,0 +1,60 @@
+/**
+ * Content script for marketplace offer pages - runs in MAIN world (page context)
+ * Handles: VIN reveal, phone extraction from React, DOM updates
+ *
+ * Selectors and texts come from the marketplace adapter (config/adapters.ts)
+ */
+
+import {getMarketplaceForUrl, isOfferPage} from '../config/marketplaces';
+import {
+    createLogger,
+    onDOMReady,
+    createRevealController,
+    createRevealOptions,
+    hasRevealSupport,
+    findButtonByText,
+    getReactFiber,
+    searchFiber,
+    cleanPhoneNumber,
+    isValidPhone,
+} from './shared';
+
+// ==================== CONSTANTS ====================
+
+const LOG_PREFIX = '[MotorScope]';
+const log = createLogger(LOG_PREFIX);
+
+const CONFIG = {
+    RETRY_DELAYS: [2000, 4000, 7000],
+} as const;
+
+// ==================== MAIN ====================
+
+const init = (): void => {
+    const url = window.location.href;
+    const adapter = getMarketplaceForUrl(url)?.adapter;
+    if (!adapter || !hasRevealSupport(adapter) || !isOfferPage(url)) return;
+
+    const controller = createRevealController(createRevealOptions(adapter), {
+        doc: document,
+        log,
+        findButtonByText,
+        getReactFiber,
+        searchFiber,
+        cleanPhoneNumber,
+        isValidPhone,
+        setTimeout,
+    });
+
+    const runExtraction = (): void => {
+        controller.runExtraction();
+    };
+
+    log('Content script initialized on listing page');
+
+    // Run with delays to account for React hydration
+    CONFIG.RETRY_DELAYS.forEach(delay => setTimeout(runExtraction, delay));
+};
+
+// Start
+onDOMReady(init);
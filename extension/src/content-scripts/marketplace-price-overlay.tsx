@@ -0,0 +1,127 @@
+/**
+ * Content script for marketplace offer pages - runs in ISOLATED world
+ * Shows the price history panel when the listing is already tracked
+ *
+ * Listing data comes from the background worker via runtime messaging, so the
+ * page never gets the API token. Panel texts come from the marketplace
+ * adapter (config/adapters.ts).
+ */
+
+import React from 'react';
+import {createRoot, Root} from 'react-dom/client';
+import {getMarketplaceForUrl, isOfferPage} from '../config/marketplaces';
+import {ListingPriceSummary} from '../types';
+import {createLogger, createPriceOverlayRoot, onDOMReady, removePriceOverlay} from './shared';
+import PriceOverlayPanel from './shared/PriceOverlayPanel';
+
+// ==================== CONSTANTS ====================
+
+const LOG_PREFIX = '[MotorScope Overlay]';
+const log = createLogger(LOG_PREFIX);
+
+const priceOverlay = getMarketplaceForUrl(window.location.href)?.adapter?.priceOverlay;
+
+// ==================== STATE ====================
+
+let root: Root | null = null;
+let isDismissed = false;
+
+// ==================== DATA ====================
+
+/**
+ * Fetch the tracked listing's price summary from the extension
+ */
+const fetchPriceSummary = async (): Promise<ListingPriceSummary | null> => {
+    try {
+        const response = await chrome.runtime.sendMessage({
+            type: 'GET_LISTING_PRICE_SUMMARY',
+            url: window.location.href,
+        }) as {listing?: ListingPriceSummary | null} | undefined;
+
+        return response?.listing ?? null;
+    } catch (error) {
+        log('Error fetching price summary:', error);
+        return null;
+    }
+};
+
+const openDashboardWithListing = async (): Promise<void> => {
+    try {
+        await chrome.runtime.sendMessage({
+            type: 'OPEN_DASHBOARD_WITH_LISTING',
+            url: window.location.href,
+        });
+    } catch (error) {
+        log('Error opening dashboard:', error);
+    }
+};
+
+// ==================== RENDERING ====================
+
+const unmountOverlay = (): void => {
+    root?.unmount();
+    root = null;
+    removePriceOverlay(document);
+};
+
+const closeOverlay = (): void => {
+    isDismissed = true;
+    unmountOverlay();
+};
+
+/**
+ * Show the panel for the current listing, or remove it once it is no longer tracked
+ */
+const renderOverlay = async (): Promise<void> => {
+    if (!priceOverlay || isDismissed) return;
+
+    const summary = await fetchPriceSummary();
+    if (!summary) {
+        log('Listing not tracked, no overlay');
+        unmountOverlay();
+        return;
+    }
+
+    root ??= createRoot(createPriceOverlayRoot(document));
+    root.render(
+        <PriceOverlayPanel
+            summary={summary}
+            labels={priceOverlay.labels}
+            iconUrl={chrome.runtime.getURL('icon.png')}
+            onOpen={openDashboardWithListing}
+            onClose={closeOverlay}
+        />,
+    );
+    log('Price overlay rendered');
+};
+
+// ==================== MESSAGE HANDLING ====================
+
+/**
+ * Re-render when listings change (e.g. the listing was just tracked or refreshed)
+ */
+const setupMessageListener = (): void => {
+    chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+        if (message.type === 'TRACKED_LISTINGS_UPDATED') {
+            renderOverlay();
+            sendResponse({success: true});
+        }
+        return false;
+    });
+};
+
+// ==================== INITIALIZATION ====================
+
+const initialize = async (): Promise<void> => {
+    if (!priceOverlay || !isOfferPage(window.location.href)) {
+        log('No price overlay for this page, skipping');
+        return;
+    }
+
+    await renderOverlay();
+    setupMessageListener();
+};
+
+// ==================== ENTRY POINT ====================
+
+onDOMReady(() => initialize());
@@ -0,0 +1,99 @@
+/**
+ * Price Overlay Panel
+ *
+ * Compact price history of a tracked listing, injected on its offer page.
+ * Styled inline - marketplace pages do not load the extension's Tailwind CSS.
+ */
+
+import React from 'react';
+import {ListingPriceSummary, ListingStatus} from '../../types';
+import type {PriceOverlayAdapter} from '../../config/adapters';
+import {PriceSparkline} from '../../components/PriceChart';
+import {formatEuropeanDateTime} from '../../utils/formatters';
+import {formatPriceChange, getPriceChange} from './priceOverlay';
+
+interface PriceOverlayPanelProps {
+    summary: ListingPriceSummary;
+    labels: PriceOverlayAdapter['labels'];
+    iconUrl: string;
+    onOpen: () => void;
+    onClose: () => void;
+}
+
+const STYLES = {
+    panel: {
+        width: 280,
+        padding: 12,
+        background: '#ffffff',
+        border: '1px solid #e2e8f0',
+        borderRadius: 12,
+        boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        fontSize: 13,
+        color: '#0f172a',
+    },
+    header: {display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8},
+    title: {flex: 1, fontWeight: 600},
+    closeButton: {border: 'none', background: 'none', cursor: 'pointer', color: '#64748b', fontSize: 16, lineHeight: 1},
+    row: {display: 'flex', justifyContent: 'space-between', marginTop: 4},
+    label: {color: '#64748b'},
+    openButton: {
+        width: '100%',
+        marginTop: 10,
+        padding: '6px 0',
+        border: 'none',
+        borderRadius: 8,
+        background: '#2563eb',
+        color: '#ffffff',
+        fontWeight: 500,
+        cursor: 'pointer',
+    },
+} satisfies Record<string, React.CSSProperties>;
+
+const getChangeColor = (amount: number): string => {
+    if (amount < 0) return '#16a34a';
+    if (amount > 0) return '#dc2626';
+    return '#0f172a';
+};
+
+const PriceOverlayPanel: React.FC<PriceOverlayPanelProps> = ({summary, labels, iconUrl, onOpen, onClose}) => {
+    const change = getPriceChange(summary);
+    const isEnded = summary.status === ListingStatus.ENDED;
+
+    return (
+        <div style={STYLES.panel} role="region" aria-label={labels.title}>
+            <div style={STYLES.header}>
+                <img src={iconUrl} alt="" width={20} height={20}/>
+                <span style={STYLES.title}>{labels.title}</span>
+                <button type="button" onClick={onClose} aria-label={labels.close} style={STYLES.closeButton}>
+                    ×
+                </button>
+            </div>
+
+            <PriceSparkline history={summary.priceHistory} currency={summary.currency}/>
+
+            <div style={STYLES.row}>
+                <span style={STYLES.label}>{labels.firstSeen}</span>
+                <span>{formatEuropeanDateTime(summary.firstSeenAt)}</span>
+            </div>
+            <div style={STYLES.row}>
+                <span style={STYLES.label}>{labels.change}</span>
+                <span style={{color: getChangeColor(change.amount), fontWeight: 600}}>
+                    {change.amount === 0 ? labels.noChange : formatPriceChange(change, summary.currency)}
+                </span>
+            </div>
+            <div style={STYLES.row}>
+                <span style={STYLES.label}>{labels.status}</span>
+                <span style={{color: isEnded ? '#dc2626' : '#16a34a', fontWeight: 500}}>
+                    {isEnded ? labels.ended : labels.active}
+                </span>
+            </div>
+
+            <button type="button" onClick={onOpen} style={STYLES.openButton}>
+                {labels.open}
+            </button>
+        </div>
+    );
+};
+
+export default PriceOverlayPanel;
@@ -0,0 +1,95 @@
+/**
+ * Marketplace adapter wiring for content scripts
+ *
+ * Turns the adapter registered in config/marketplaces.ts into the configs
+ * the listing and reveal helpers work with.
+ */
+
+import type {MarketplaceAdapter, SearchCardAdapter} from '../../config/adapters';
+import type {ListingDomConfig} from './listing';
+import type {RevealOptions} from './reveal';
+
+const DATA_ATTRIBUTES = {
+    PROCESSED: 'data-motorscope-processed',
+    TRACKED: 'data-motorscope-tracked',
+    PHONE: 'data-motorscope-phone',
+} as const;
+
+const CSS_CLASSES = {
+    TRACKED_ICON: 'motorscope-tracked-icon',
+} as const;
+
+/**
+ * Build the search card config for the tracked-icon helpers
+ */
+export const createListingDomConfig = (searchCards: SearchCardAdapter): ListingDomConfig => ({
+    selectors: {
+        article: searchCards.card,
+        listingLink: searchCards.link,
+        favoritesButton: searchCards.favoritesButton,
+        iconContainer: searchCards.iconContainer,
+    },
+    dataAttributes: {
+        processed: DATA_ATTRIBUTES.PROCESSED,
+        tracked: DATA_ATTRIBUTES.TRACKED,
+    },
+    cssClasses: {
+        trackedIcon: CSS_CLASSES.TRACKED_ICON,
+    },
+});
+
+/**
+ * Build VIN/phone reveal options; sections the marketplace lacks stay undefined
+ */
+export const createRevealOptions = (adapter: MarketplaceAdapter): RevealOptions => {
+    const {login, vin, phone} = adapter;
+
+    return {
+        ...(login?.button && {
+            authConfig: {
+                selectors: {
+                    loginButton: login.button.selector,
+                    loginButtonText: login.button.textSelector,
+                },
+                texts: {
+                    login: login.button.text,
+                },
+            },
+        }),
+        ...(vin && {
+            vinConfig: {
+                selectors: {
+                    container: vin.container,
+                    display: vin.display,
+                },
+                texts: {
+                    showVin: vin.buttonText,
+                },
+            },
+        }),
+        ...(phone && {
+            phoneConfig: {
+                selectors: {
+                    sellerInfo: phone.sellerInfo,
+                    phoneButton: phone.button,
+                    phoneContainer: phone.container,
+                    buttonTextWrapper: phone.buttonTextWrapper,
+                    telLink: phone.telLink,
+                },
+                texts: {
+                    showPhone: phone.buttonText,
+                },
+                dataAttributes: {
+                    phone: DATA_ATTRIBUTES.PHONE,
+                },
+            },
+        }),
+    };
+};
+
+/**
+ * Whether the adapter reveals anything on offer pages
+ */
+export const hasRevealSupport = (adapter: MarketplaceAdapter): boolean => {
+    return Boolean(adapter.vin || adapter.phone);
+};
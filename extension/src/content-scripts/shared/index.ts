@@ -1,5 +1,5 @@
 /**
- * Shared utilities for OTOMOTO content scripts
+ * Shared utilities for marketplace content scripts
  */
 
 // Re-export all shared modules
@@ -9,4 +9,6 @@ export * from './dom';
 export * from './phone';
 export * from './react';
 export * from './listing';
-export * from './otomoto-main';
+export * from './reveal';
+export * from './adapter';
+export * from './priceOverlay';
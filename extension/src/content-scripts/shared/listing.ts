@@ -4,9 +4,12 @@ import {normalizeUrl} from './url';
 export interface ListingDomConfig {
     selectors: {
         article: string;
+        /** Offer link inside the article, or the article itself when it is the link */
         listingLink: string;
-        favoritesButton: string;
-        iconContainer: string;
+        /** Button the icon is placed next to (its iconContainer ancestor) */
+        favoritesButton?: string;
+        /** Icon parent inside the article when there is no favorites button */
+        iconContainer?: string;
     };
     dataAttributes: {
         processed: string;
@@ -39,19 +42,24 @@ export const isUrlTracked = (
 
 /**
  * Build MotorScope icon button matching OTOMOTO structure.
+ * Other marketplaces pass their own label and button class.
  */
 export const createMotorScopeIcon = (
     listingUrl: string,
     deps: {
         getIconUrl: () => string;
         onClick: (event: MouseEvent) => void;
+        /** Accessible label in the marketplace's language */
+        label?: string;
+        /** Marketplace button class set next to ours */
+        className?: string;
     },
 ): HTMLButtonElement => {
     const button = document.createElement('button');
     button.type = 'button';
-    button.setAttribute('aria-label', 'Otwórz w MotorScope');
+    button.setAttribute('aria-label', deps.label ?? 'Otwórz w MotorScope');
     button.setAttribute('tabindex', '0');
-    button.className = 'motorscope-tracked-icon ooa-xaeen7';
+    button.className = `motorscope-tracked-icon ${deps.className ?? 'ooa-xaeen7'}`.trim();
     button.setAttribute('data-button-variant', 'flat');
 
     const svgWrapper = document.createElement('div');
@@ -86,8 +94,44 @@ const hasProcessedAttribute = (article: Element, attr: string): boolean => {
     return article.hasAttribute(attr);
 };
 
+const findListingLink = (article: Element, selector: string): HTMLAnchorElement | null => {
+    if (article.matches(selector)) {
+        return article as HTMLAnchorElement;
+    }
+    return article.querySelector(selector) as HTMLAnchorElement | null;
+};
+
 /**
- * Process single OTOMOTO article.
+ * Find the element the icon goes into: next to the favorites button when the
+ * marketplace has one, otherwise the icon container (or the article itself).
+ */
+const findIconParent = (
+    article: Element,
+    config: ListingDomConfig,
+    deps: ListingDependencies,
+): Element | null => {
+    const {favoritesButton: favoritesSelector, iconContainer} = config.selectors;
+    if (!favoritesSelector) {
+        return iconContainer ? article.querySelector(iconContainer) : article;
+    }
+
+    const favoritesButton = article.querySelector(favoritesSelector);
+    if (!favoritesButton) {
+        deps.log('Favorites button not found for tracked listing');
+        return null;
+    }
+
+    const favoritesWrapper = iconContainer ? favoritesButton.closest(iconContainer) : favoritesButton.parentElement;
+    if (!favoritesWrapper) {
+        deps.log('Favorites wrapper not found for tracked listing');
+        return null;
+    }
+
+    return favoritesWrapper;
+};
+
+/**
+ * Process single search result article.
  */
 export const processArticleElement = (
     article: Element,
@@ -99,7 +143,7 @@ export const processArticleElement = (
         return false;
     }
 
-    const link = article.querySelector(config.selectors.listingLink) as HTMLAnchorElement | null;
+    const link = findListingLink(article, config.selectors.listingLink);
     if (!link?.href) {
         return false;
     }
@@ -112,24 +156,17 @@ export const processArticleElement = (
 
     article.setAttribute(config.dataAttributes.tracked, 'true');
 
-    const favoritesButton = article.querySelector(config.selectors.favoritesButton);
-    if (!favoritesButton) {
-        deps.log('Favorites button not found for tracked listing');
-        return false;
-    }
-
-    const favoritesWrapper = favoritesButton.closest(config.selectors.iconContainer);
-    if (!favoritesWrapper) {
-        deps.log('Favorites wrapper not found for tracked listing');
+    const iconParent = findIconParent(article, config, deps);
+    if (!iconParent) {
         return false;
     }
 
-    if (favoritesWrapper.querySelector(`.${config.cssClasses.trackedIcon}`)) {
+    if (iconParent.querySelector(`.${config.cssClasses.trackedIcon}`)) {
         return false;
     }
 
     const icon = deps.buildIcon(link.href);
-    favoritesWrapper.appendChild(icon);
+    iconParent.appendChild(icon);
     deps.log('Added icon for tracked listing:', link.href);
     return true;
 };
@@ -0,0 +1,66 @@
+/**
+ * Price overlay helpers for offer pages of tracked listings
+ *
+ * The panel lives in a shadow root so the marketplace's CSS cannot restyle
+ * it and ours cannot leak into the page.
+ */
+
+import type {ListingPriceSummary} from '../../types';
+
+export const PRICE_OVERLAY_HOST_ID = 'motorscope-price-overlay';
+
+export interface PriceChange {
+    amount: number;
+    /** Relative to the first price seen, rounded to one decimal */
+    percent: number;
+}
+
+/**
+ * Price change since the listing was first seen
+ * (the first price history entry is recorded at firstSeenAt)
+ */
+export const getPriceChange = (summary: ListingPriceSummary): PriceChange => {
+    const firstPrice = summary.priceHistory[0]?.price ?? summary.currentPrice;
+    const amount = summary.currentPrice - firstPrice;
+    const percent = firstPrice > 0 ? Math.round((amount / firstPrice) * 1000) / 10 : 0;
+    return {amount, percent};
+};
+
+/**
+ * Format a price change with its sign ("-5,000 PLN (-5.3%)")
+ */
+export const formatPriceChange = ({amount, percent}: PriceChange, currency: string): string => {
+    const sign = amount > 0 ? '+' : amount < 0 ? '-' : '';
+    return `${sign}${Math.abs(amount).toLocaleString()} ${currency} (${sign}${Math.abs(percent)}%)`;
+};
+
+/**
+ * Create (or reuse) the overlay host and return the element to render into
+ */
+export const createPriceOverlayRoot = (doc: Document): HTMLElement => {
+    const existing = doc.getElementById(PRICE_OVERLAY_HOST_ID);
+    const host = existing ?? doc.createElement('div');
+    if (!existing) {
+        host.id = PRICE_OVERLAY_HOST_ID;
+        Object.assign(host.style, {
+            position: 'fixed',
+            right: '16px',
+            bottom: '16px',
+            zIndex: '2147483647',
+        });
+        doc.body.appendChild(host);
+    }
+
+    const shadow = host.shadowRoot ?? host.attachShadow({mode: 'open'});
+    shadow.replaceChildren();
+    const container = doc.createElement('div');
+    shadow.appendChild(container);
+    return container;
+};
+
+/**
+ * Remove the overlay from the page
+ */
+export const removePriceOverlay = (doc: Document): void => {
+    doc.getElementById(PRICE_OVERLAY_HOST_ID)?.remove();
+};
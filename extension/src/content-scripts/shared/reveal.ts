@@ -1,3 +1,8 @@
+/**
+ * VIN and phone reveal on offer pages, driven by the marketplace adapter
+ * (see config/adapters.ts and shared/adapter.ts)
+ */
+
 import type {ReactFiber, SearchDirection} from './react';
 import {cleanPhoneNumber, isValidPhone} from './phone';
 import {getReactFiber, searchFiber} from './react';
@@ -340,13 +345,14 @@ export const createPhoneModule = (config: PhoneConfig, deps: PhoneDependencies):
     };
 };
 
-export interface OtomotoMainOptions {
-    authConfig: AuthConfig;
-    vinConfig: VinConfig;
-    phoneConfig: PhoneConfig;
+export interface RevealOptions {
+    /** Omitted for marketplaces that do not hide the VIN behind a login */
+    authConfig?: AuthConfig;
+    vinConfig?: VinConfig;
+    phoneConfig?: PhoneConfig;
 }
 
-export interface OtomotoMainDependencies {
+export interface RevealDependencies {
     doc: Document;
     log: (...args: unknown[]) => void;
     findButtonByText: typeof findButtonByText;
@@ -359,26 +365,27 @@ export interface OtomotoMainDependencies {
     createPhoneModule?: (config: PhoneConfig, deps: PhoneDependencies) => PhoneModule;
 }
 
-export interface OtomotoMainController {
+export interface RevealController {
     runExtraction: () => string | null;
 }
 
-export const createOtomotoMainController = (
-    options: OtomotoMainOptions,
-    deps: OtomotoMainDependencies,
-): OtomotoMainController => {
+export const createRevealController = (
+    options: RevealOptions,
+    deps: RevealDependencies,
+): RevealController => {
     const createVin = deps.createVinModule ?? createVinModule;
     const createPhone = deps.createPhoneModule ?? createPhoneModule;
+    const {authConfig} = options;
 
-    const vinModule = createVin(options.vinConfig, {
+    const vinModule = options.vinConfig && createVin(options.vinConfig, {
         doc: deps.doc,
         log: deps.log,
         findButtonByText: deps.findButtonByText,
-        isUserLoggedIn: () => isUserLoggedIn(deps.doc, options.authConfig),
+        isUserLoggedIn: () => !authConfig || isUserLoggedIn(deps.doc, authConfig),
         setTimeout: deps.setTimeout,
     });
 
-    const phoneModule = createPhone(options.phoneConfig, {
+    const phoneModule = options.phoneConfig && createPhone(options.phoneConfig, {
         doc: deps.doc,
         log: deps.log,
         cleanPhoneNumber: deps.cleanPhoneNumber,
@@ -388,8 +395,8 @@ export const createOtomotoMainController = (
     });
 
     const runExtraction = (): string | null => {
-        vinModule.reveal();
-        const phone = phoneModule.extractAndDisplay();
+        vinModule?.reveal();
+        const phone = phoneModule?.extractAndDisplay() ?? null;
         if (phone) {
             deps.log('Phone: SUCCESS!', phone);
         }
@@ -6,42 +6,18 @@
  */
 
 /**
- * Normalize URL for comparison (remove query params and trailing slashes)
+ * Normalize URL for comparison (remove query params and trailing slashes).
+ * mobile.de details URLs keep their id param - it identifies the offer.
  */
 export const normalizeUrl = (url: string): string => {
     try {
         const parsed = new URL(url);
+        const id = parsed.searchParams.get('id');
+        if (parsed.hostname.endsWith('mobile.de') && parsed.pathname.endsWith('/details.html') && id) {
+            return `${parsed.origin}${parsed.pathname}?id=${id}`;
+        }
         return `${parsed.origin}${parsed.pathname}`.replace(/\/$/, '');
     } catch {
         return url.replace(/\/$/, '');
     }
 };
-
-/**
- * Check if a URL is an OTOMOTO listing detail page
- */
-export const isListingUrl = (url: string): boolean => {
-    return url.includes('/oferta/');
-};
-
-/**
- * Check if a URL is an OTOMOTO search/category page (not a single offer)
- */
-export const isSearchUrl = (url: string): boolean => {
-    return !isListingUrl(url);
-};
-
-/**
- * Check if current page is an OTOMOTO listing detail page
- */
-export const isListingPage = (): boolean => {
-    return isListingUrl(window.location.href);
-};
-
-/**
- * Check if current page is an OTOMOTO search/category page (not a single offer)
- */
-export const isSearchPage = (): boolean => {
-    return isSearchUrl(window.location.href);
-};
-
@@ -1,27 +1,35 @@
 /**
  * Application Context
  *
- * Manages application state using remote backend API.
- * User must be logged in to access data.
- * NO local storage is used - all settings come from API.
+ * Manages application state using the remote backend API.
+ * Signed-in users read and write data on the API; in local-only mode
+ * (no account) the same data lives in chrome.storage.local instead.
  */
 
-import React, {createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState} from 'react';
+import React, {createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useRef, useState} from 'react';
 import i18next from 'i18next';
-import {CarListing, ExtensionSettings, RefreshStatus} from '@/types';
-import {
-    ApiError,
-    deleteRemoteListing,
-    getRemoteListings,
-    getRemoteSettings,
-    patchRemoteSettings,
-    saveRemoteListing,
-} from '@/api/client';
+import {AlertRules, CarListing, CustomMarketplace, ExtensionSettings, RefreshStatus} from '@/types';
+import {ApiError, getRemoteListingChanges, hasStoredGeminiApiKey, RemoteSettings} from '@/api/client';
 import {DEFAULT_SETTINGS} from '@/services/settings/extensionSettings';
 import {DEFAULT_REFRESH_STATUS, getRefreshStatus} from '@/services/settings/refreshStatus';
+import {recordSavedGeminiCalls} from '@/services/settings/geminiStats';
 import {MessageTypes, useChromeMessaging, useMessageListener, useStorageListener} from '@/hooks/useChromeMessaging';
 import {RefreshResult, refreshSingleListing} from '@/services/refresh';
+import {mergeImportedListings} from '@/services/import';
+import {mergeVinRelisting} from '@/services/vinHistory';
+import {keepFieldOverrides} from '@/services/listingEdits';
+import {applyListingChanges, LISTINGS_SYNC_EPOCH} from '@/services/sync';
+import {
+    isLocalModeEnabled,
+    LOCAL_DATA_KEYS,
+    LocalDataMergeResult,
+    localDataStore,
+    mergeLocalDataIntoServer,
+    remoteDataStore,
+    setLocalModeEnabled,
+} from '@/services/localData';
 import {useAuth} from '@/auth/AuthContext';
+import {setCustomMarketplaces} from '@/config/marketplaces';
 
 /**
  * Application state interface
@@ -40,10 +48,21 @@ interface AppState {
     refreshingIds: Set<string>;
     recentlyRefreshedIds: Set<string>;
 
+    // Local-only mode (signed out, data kept in chrome.storage.local)
+    isLocalMode: boolean;
+
     // Error state
     error: string | null;
 }
 
+/**
+ * Counts of listings changed by an import
+ */
+export interface ListingImportSummary {
+    added: number;
+    updated: number;
+}
+
 /**
  * Application actions interface
  */
@@ -51,16 +70,23 @@ interface AppActions {
     // Listings
     reloadListings: () => Promise<void>;
     addListing: (listing: CarListing) => Promise<void>;
+    importListings: (listings: CarListing[]) => Promise<ListingImportSummary>;
     removeListing: (id: string) => Promise<void>;
     refreshListing: (listing: CarListing) => Promise<RefreshResult>;
 
     // Settings
     reloadSettings: () => Promise<void>;
     updateSettings: (settings: ExtensionSettings) => Promise<void>;
+    updateAlertRules: (alertRules: AlertRules) => Promise<void>;
+    updateCustomMarketplaces: (customMarketplaces: CustomMarketplace[]) => Promise<void>;
 
     // Refresh status
     reloadRefreshStatus: () => Promise<void>;
 
+    // Local-only mode
+    setLocalMode: (enabled: boolean) => Promise<void>;
+    mergeLocalData: () => Promise<LocalDataMergeResult>;
+
     // Error handling
     clearError: () => void;
 }
@@ -73,6 +99,30 @@ interface AppContextValue extends AppState, AppActions {
 
 const AppContext = createContext<AppContextValue | null>(null);
 
+/**
+ * Map stored settings (API or local store) to extension settings
+ */
+const toExtensionSettings = (stored: RemoteSettings): ExtensionSettings => ({
+    geminiApiKey: stored.geminiApiKey || '',
+    geminiApiKeyConfigured: hasStoredGeminiApiKey(stored),
+    checkFrequencyMinutes: stored.checkFrequencyMinutes || DEFAULT_SETTINGS.checkFrequencyMinutes,
+    endedListingGracePeriodDays: stored.endedListingGracePeriodDays ?? DEFAULT_SETTINGS.endedListingGracePeriodDays,
+    llmProvider: stored.llmProvider,
+    llmModel: stored.llmModel ?? '',
+    llmBaseUrl: stored.llmBaseUrl ?? '',
+    monthlyBudgetUsd: stored.monthlyBudgetUsd ?? null,
+    serverRefreshEnabled: stored.serverRefreshEnabled ?? false,
+    lastServerRefreshTime: stored.lastServerRefreshTime ?? null,
+    lastServerRefreshCount: stored.lastServerRefreshCount ?? 0,
+    alertRules: stored.alertRules ?? undefined,
+    customMarketplaces: stored.customMarketplaces ?? undefined,
+    dashboardPreferences: stored.dashboardFilters ? {
+        filters: stored.dashboardFilters,
+        sortBy: stored.dashboardSort || 'newest',
+        viewMode: stored.dashboardViewMode || 'grid',
+    } : undefined,
+});
+
 /**
  * Provider component for application state
  */
@@ -80,6 +130,13 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
     const auth = useAuth();
     const isLoggedIn = auth.status === 'logged_in';
 
+    // Local-only mode applies while signed out; signing in switches back to the API
+    const [localModeEnabled, setLocalModeEnabledState] = useState(false);
+    const [isLoadingLocalMode, setIsLoadingLocalMode] = useState(true);
+    const isLocalMode = !isLoggedIn && localModeEnabled;
+    const hasDataAccess = isLoggedIn || isLocalMode;
+    const store = isLoggedIn ? remoteDataStore : localDataStore;
+
     // Data state
     const [listings, setListings] = useState<CarListing[]>([]);
     const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
@@ -96,7 +153,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
     // Error state
     const [error, setError] = useState<string | null>(null);
 
-    const {notifyListingUpdated, rescheduleAlarm} = useChromeMessaging();
+    // serverTime of the last listing sync; null until the first full load
+    const listingsSyncCursor = useRef<string | null>(null);
+
+    const {notifyListingUpdated, rescheduleAlarm, initializeAlarm} = useChromeMessaging();
 
     // Clear error
     const clearError = useCallback(() => {
@@ -119,9 +179,14 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
         }
     }, [auth]);
 
-    // Load listings from remote backend
+    // Load listings from remote backend (or the local store in local mode)
+    // Signed in, only changes since the previous load are fetched (delta sync)
     const reloadListings = useCallback(async () => {
         if (!isLoggedIn) {
+            listingsSyncCursor.current = null;
+        }
+
+        if (!hasDataAccess) {
             setListings([]);
             setIsLoadingListings(false);
             return;
@@ -131,37 +196,37 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
         clearError();
 
         try {
-            const data = await getRemoteListings();
-            setListings(data);
+            if (isLoggedIn) {
+                const since = listingsSyncCursor.current;
+                const changes = await getRemoteListingChanges(since ?? LISTINGS_SYNC_EPOCH);
+                setListings(prev => (since ? applyListingChanges(prev, changes) : changes.listings));
+                listingsSyncCursor.current = changes.serverTime;
+            } else {
+                setListings(await store.getListings());
+            }
         } catch (err) {
             console.error('[AppContext] Failed to load listings:', err);
             handleApiError(err);
         } finally {
             setIsLoadingListings(false);
         }
-    }, [isLoggedIn, clearError, handleApiError]);
+    }, [isLoggedIn, hasDataAccess, store, clearError, handleApiError]);
 
-    // Load settings from API (requires login)
+    // Load settings from API or the local store (requires login or local mode)
     const reloadSettings = useCallback(async () => {
         setIsLoadingSettings(true);
         try {
-            if (isLoggedIn) {
-                const remoteSettings = await getRemoteSettings();
-                setSettings({
-                    geminiApiKey: remoteSettings.geminiApiKey || '',
-                    checkFrequencyMinutes: remoteSettings.checkFrequencyMinutes || DEFAULT_SETTINGS.checkFrequencyMinutes,
-                    endedListingGracePeriodDays: remoteSettings.endedListingGracePeriodDays ?? DEFAULT_SETTINGS.endedListingGracePeriodDays,
-                    dashboardPreferences: remoteSettings.dashboardFilters ? {
-                        filters: remoteSettings.dashboardFilters,
-                        sortBy: remoteSettings.dashboardSort || 'newest',
-                        viewMode: remoteSettings.dashboardViewMode || 'grid',
-                    } : undefined,
-                });
+            if (hasDataAccess) {
+                const remoteSettings = await store.getSettings();
+                // Registered before the state update so marketplace checks see them on re-render
+                setCustomMarketplaces(remoteSettings.customMarketplaces);
+                setSettings(toExtensionSettings(remoteSettings));
 
                 if (remoteSettings.language && remoteSettings.language !== i18next.language) {
                     i18next.changeLanguage(remoteSettings.language);
                 }
             } else {
+                setCustomMarketplaces(null);
                 setSettings(DEFAULT_SETTINGS);
             }
         } catch (err) {
@@ -170,7 +235,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
         } finally {
             setIsLoadingSettings(false);
         }
-    }, [isLoggedIn]);
+    }, [hasDataAccess, store]);
 
     // Load refresh status from storage and merge with API settings for persistence
     const reloadRefreshStatus = useCallback(async () => {
@@ -178,10 +243,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
             // First get session storage data (runtime state)
             const sessionData = await getRefreshStatus();
 
-            // If logged in, also get persisted data from API settings
-            if (isLoggedIn) {
+            // If logged in (or in local mode), also get persisted data from stored settings
+            if (hasDataAccess) {
                 try {
-                    const remoteSettings = await getRemoteSettings();
+                    const remoteSettings = await store.getSettings();
                     // Merge API data (lastRefreshTime, nextRefreshTime, lastRefreshCount) with session data
                     const mergedStatus: RefreshStatus = {
                         ...sessionData,
@@ -201,11 +266,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
         } catch (err) {
             console.error('[AppContext] Failed to load refresh status:', err);
         }
-    }, [isLoggedIn]);
+    }, [hasDataAccess, store]);
 
-    // Add or update a listing (requires login)
+    // Add or update a listing (requires login or local mode)
     const addListing = useCallback(async (listing: CarListing) => {
-        if (!isLoggedIn) {
+        if (!hasDataAccess) {
             setError(i18next.t('errors:auth.signInToTrack'));
             throw new Error('Not authenticated');
         }
@@ -213,7 +278,12 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
         clearError();
 
         try {
-            await saveRemoteListing(listing);
+            // Same VIN seen under another URL: keep the earlier sources instead of overwriting them.
+            // A re-parsed listing keeps the user's corrections.
+            const existing = listings.find(l => l.id === listing.id);
+            await store.saveListing(
+                existing ? keepFieldOverrides(existing, mergeVinRelisting(existing, listing)) : listing,
+            );
             await reloadListings();
             notifyListingUpdated();
         } catch (err) {
@@ -221,11 +291,36 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
             handleApiError(err);
             throw err;
         }
-    }, [isLoggedIn, reloadListings, notifyListingUpdated, clearError, handleApiError]);
+    }, [hasDataAccess, store, listings, reloadListings, notifyListingUpdated, clearError, handleApiError]);
+
+    // Merge imported listings into the stored listings by ID (requires login or local mode)
+    const importListings = useCallback(async (imported: CarListing[]): Promise<ListingImportSummary> => {
+        if (!hasDataAccess) {
+            setError(i18next.t('errors:auth.signInToTrack'));
+            throw new Error('Not authenticated');
+        }
+
+        clearError();
+
+        try {
+            // Merge against the stored copies and write only the imported listings,
+            // conditionally, so listings changed or added elsewhere are not lost
+            const current = await store.getListings();
+            const {changed, added, updated} = mergeImportedListings(current, imported);
+            await store.upsertListings(changed);
+            await reloadListings();
+            notifyListingUpdated();
+            return {added, updated};
+        } catch (err) {
+            console.error('[AppContext] Failed to import listings:', err);
+            handleApiError(err);
+            throw err;
+        }
+    }, [hasDataAccess, store, reloadListings, notifyListingUpdated, clearError, handleApiError]);
 
-    // Remove a listing (requires login)
+    // Remove a listing (requires login or local mode)
     const removeListing = useCallback(async (id: string) => {
-        if (!isLoggedIn) {
+        if (!hasDataAccess) {
             setError(i18next.t('errors:auth.signInToManage'));
             throw new Error('Not authenticated');
         }
@@ -233,7 +328,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
         clearError();
 
         try {
-            await deleteRemoteListing(id);
+            await store.deleteListing(id);
             await reloadListings();
             notifyListingUpdated();
         } catch (err) {
@@ -241,11 +336,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
             handleApiError(err);
             throw err;
         }
-    }, [isLoggedIn, reloadListings, notifyListingUpdated, clearError, handleApiError]);
+    }, [hasDataAccess, store, reloadListings, notifyListingUpdated, clearError, handleApiError]);
 
-    // Refresh a single listing (requires login)
+    // Refresh a single listing (requires login or local mode)
     const refreshListing = useCallback(async (listing: CarListing): Promise<RefreshResult> => {
-        if (!isLoggedIn) {
+        if (!hasDataAccess) {
             setError(i18next.t('errors:auth.signInToRefresh'));
             throw new Error('Not authenticated');
         }
@@ -255,14 +350,18 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
 
         try {
             const result = await refreshSingleListing(listing);
+            if (result.contentUnchanged) {
+                await recordSavedGeminiCalls(1);
+            }
 
             // Save the updated listing
             if (result.success || result.listing.lastRefreshStatus === 'error') {
-                await saveRemoteListing(result.listing);
+                // The saved copy carries the new revision (and any price points merged on conflict)
+                const saved = await store.saveListing(result.listing);
 
                 // Update just this listing in the local state (no full reload)
                 setListings(prev => prev.map(l =>
-                    l.id === result.listing.id ? result.listing : l,
+                    l.id === saved.id ? saved : l,
                 ));
 
                 // Add to recently refreshed for animation
@@ -292,23 +391,38 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
                 return next;
             });
         }
-    }, [isLoggedIn, notifyListingUpdated, handleApiError]);
+    }, [hasDataAccess, store, notifyListingUpdated, handleApiError]);
 
-    // Update settings (requires login)
+    // Update settings (requires login or local mode)
     const updateSettings = useCallback(async (newSettings: ExtensionSettings) => {
-        if (!isLoggedIn) {
+        if (!hasDataAccess) {
             throw new Error(i18next.t('errors:auth.mustBeLoggedIn'));
         }
 
+        // An empty key keeps the stored one (the backend never returns it)
+        const geminiApiKey = newSettings.geminiApiKey.trim();
+
         try {
-            // Save to API
-            await patchRemoteSettings({
-                geminiApiKey: newSettings.geminiApiKey,
+            // Save to API (or the local store)
+            const saved = await store.patchSettings({
+                ...(geminiApiKey ? {geminiApiKey} : {}),
                 checkFrequencyMinutes: newSettings.checkFrequencyMinutes,
                 endedListingGracePeriodDays: newSettings.endedListingGracePeriodDays,
+                llmProvider: newSettings.llmProvider,
+                llmModel: newSettings.llmModel?.trim() ?? '',
+                llmBaseUrl: newSettings.llmBaseUrl?.trim() ?? '',
+                monthlyBudgetUsd: newSettings.monthlyBudgetUsd ?? null,
+                serverRefreshEnabled: newSettings.serverRefreshEnabled ?? false,
+                alertRules: newSettings.alertRules,
             });
 
-            setSettings(newSettings);
+            // Custom marketplaces are saved on their own (updateCustomMarketplaces)
+            setSettings(prev => ({
+                ...newSettings,
+                geminiApiKey: saved.geminiApiKey || '',
+                geminiApiKeyConfigured: hasStoredGeminiApiKey(saved),
+                customMarketplaces: prev.customMarketplaces,
+            }));
 
             // Trigger alarm reschedule
             await rescheduleAlarm(newSettings.checkFrequencyMinutes);
@@ -316,19 +430,99 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
             console.error('[AppContext] Failed to save settings:', err);
             throw err;
         }
-    }, [isLoggedIn, rescheduleAlarm]);
+    }, [hasDataAccess, store, rescheduleAlarm]);
 
-    // Initial data load and reload when auth state changes
+    // Update alert rules only (requires login or local mode)
+    // Unlike updateSettings, this does not reschedule the refresh alarm
+    const updateAlertRules = useCallback(async (alertRules: AlertRules) => {
+        if (!hasDataAccess) {
+            throw new Error(i18next.t('errors:auth.mustBeLoggedIn'));
+        }
+
+        try {
+            await store.patchSettings({alertRules});
+            setSettings(prev => ({...prev, alertRules}));
+        } catch (err) {
+            console.error('[AppContext] Failed to save alert rules:', err);
+            throw err;
+        }
+    }, [hasDataAccess, store]);
+
+    // Update custom marketplaces only (requires login or local mode)
+    const updateCustomMarketplaces = useCallback(async (customMarketplaces: CustomMarketplace[]) => {
+        if (!hasDataAccess) {
+            throw new Error(i18next.t('errors:auth.mustBeLoggedIn'));
+        }
+
+        try {
+            await store.patchSettings({customMarketplaces});
+            setCustomMarketplaces(customMarketplaces);
+            setSettings(prev => ({...prev, customMarketplaces}));
+        } catch (err) {
+            console.error('[AppContext] Failed to save custom marketplaces:', err);
+            throw err;
+        }
+    }, [hasDataAccess, store]);
+
+    // Load the local mode flag from chrome.storage.local
+    const reloadLocalMode = useCallback(async () => {
+        try {
+            setLocalModeEnabledState(await isLocalModeEnabled());
+        } catch (err) {
+            console.error('[AppContext] Failed to load local mode:', err);
+        } finally {
+            setIsLoadingLocalMode(false);
+        }
+    }, []);
+
+    // Turn local-only mode on or off (data stored locally is kept)
+    const setLocalMode = useCallback(async (enabled: boolean) => {
+        await setLocalModeEnabled(enabled);
+        setLocalModeEnabledState(enabled);
+        notifyListingUpdated();
+        // Background refresh of local listings runs on the same alarm as for signed-in users
+        initializeAlarm().catch((err) => {
+            console.warn('[AppContext] Failed to initialize alarm:', err);
+        });
+    }, [notifyListingUpdated, initializeAlarm]);
+
+    // Move local data into the signed-in account (requires login)
+    const mergeLocalData = useCallback(async (): Promise<LocalDataMergeResult> => {
+        if (!isLoggedIn) {
+            setError(i18next.t('errors:auth.mustBeLoggedIn'));
+            throw new Error('Not authenticated');
+        }
+
+        clearError();
+
+        try {
+            const result = await mergeLocalDataIntoServer();
+            setLocalModeEnabledState(false);
+            await Promise.all([reloadListings(), reloadSettings()]);
+            notifyListingUpdated();
+            return result;
+        } catch (err) {
+            console.error('[AppContext] Failed to merge local data:', err);
+            handleApiError(err);
+            throw err;
+        }
+    }, [isLoggedIn, reloadListings, reloadSettings, notifyListingUpdated, clearError, handleApiError]);
+
+    useEffect(() => {
+        reloadLocalMode();
+    }, [reloadLocalMode]);
+
+    // Initial data load and reload when auth state or local mode changes
     useEffect(() => {
-        // Don't load while auth is still initializing
-        if (auth.status === 'loading') {
+        // Don't load while auth or the local mode flag is still initializing
+        if (auth.status === 'loading' || isLoadingLocalMode) {
             return;
         }
 
         reloadListings();
         reloadSettings();
         reloadRefreshStatus();
-    }, [auth.status, reloadListings, reloadSettings, reloadRefreshStatus]);
+    }, [auth.status, isLoadingLocalMode, reloadListings, reloadSettings, reloadRefreshStatus]);
 
     // Listen for cross-tab/extension messages
     useMessageListener((message) => {
@@ -351,10 +545,13 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
 
     // Listen for settings changes in local storage (if any)
     useStorageListener((changes) => {
-        if (changes.motorscope_settings || changes.motorscope_gemini_key) {
+        if (changes.motorscope_settings || changes.motorscope_gemini_key || changes[LOCAL_DATA_KEYS.settings]) {
             reloadSettings();
         }
-    }, [reloadSettings], 'local');
+        if (changes[LOCAL_DATA_KEYS.localMode]) {
+            reloadLocalMode();
+        }
+    }, [reloadSettings, reloadLocalMode], 'local');
 
 
     // Memoize context value to prevent unnecessary re-renders
@@ -367,16 +564,22 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
         isLoadingSettings,
         refreshingIds,
         recentlyRefreshedIds,
+        isLocalMode,
         error,
 
         // Actions
         reloadListings,
         addListing,
+        importListings,
         removeListing,
         refreshListing,
         reloadSettings,
         updateSettings,
+        updateAlertRules,
+        updateCustomMarketplaces,
         reloadRefreshStatus,
+        setLocalMode,
+        mergeLocalData,
         clearError,
     }), [
         listings,
@@ -386,14 +589,20 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({children}) => {
         isLoadingSettings,
         refreshingIds,
         recentlyRefreshedIds,
+        isLocalMode,
         error,
         reloadListings,
         addListing,
+        importListings,
         removeListing,
         refreshListing,
         reloadSettings,
         updateSettings,
+        updateAlertRules,
+        updateCustomMarketplaces,
         reloadRefreshStatus,
+        setLocalMode,
+        mergeLocalData,
         clearError,
     ]);
 
@@ -427,6 +636,7 @@ export const useListings = () => {
         recentlyRefreshedIds,
         reloadListings,
         addListing,
+        importListings,
         removeListing,
         refreshListing,
         error,
@@ -440,6 +650,7 @@ export const useListings = () => {
         reload: reloadListings,
         add: addListing,
         update: addListing, // addListing also handles updates (upsert)
+        importListings,
         remove: removeListing,
         refresh: refreshListing,
         error,
@@ -451,12 +662,21 @@ export const useListings = () => {
  * Hook for settings-specific state and actions
  */
 export const useSettings = () => {
-    const {settings, isLoadingSettings, reloadSettings, updateSettings} = useAppContext();
+    const {
+        settings,
+        isLoadingSettings,
+        reloadSettings,
+        updateSettings,
+        updateAlertRules,
+        updateCustomMarketplaces,
+    } = useAppContext();
     return {
         settings,
         isLoading: isLoadingSettings,
         reload: reloadSettings,
         update: updateSettings,
+        updateAlertRules,
+        updateCustomMarketplaces,
     };
 };
 
@@ -470,3 +690,15 @@ export const useRefreshStatus = () => {
         reload: reloadRefreshStatus,
     };
 };
+
+/**
+ * Hook for local-only mode state and actions
+ */
+export const useLocalMode = () => {
+    const {isLocalMode, setLocalMode, mergeLocalData} = useAppContext();
+    return {
+        isLocalMode,
+        setLocalMode,
+        mergeLocalData,
+    };
+};
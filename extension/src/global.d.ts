@@ -71,6 +71,14 @@ declare namespace chrome {
                 func: () => T;
             }
         ): Promise<InjectionResult<T>[]>;
+
+        export function executeScript<Args extends unknown[], T = any>(
+            injection: {
+                target: { tabId: number };
+                func: (...args: Args) => T;
+                args: Args;
+            }
+        ): Promise<InjectionResult<T>[]>;
     }
 
     export namespace storage {
@@ -164,6 +172,15 @@ declare namespace chrome {
             options: NotificationOptions,
             callback?: (notificationId: string) => void
         ): void;
+
+        export function clear(
+            notificationId: string,
+            callback?: (wasCleared: boolean) => void
+        ): void;
+
+        export const onClicked: {
+            addListener(callback: (notificationId: string) => void): void;
+        };
     }
 
     export namespace identity {
@@ -192,6 +209,17 @@ declare namespace chrome {
 
         export function clearAllCachedAuthTokens(callback?: () => void): void;
     }
+
+    export namespace permissions {
+        export interface Permissions {
+            origins?: string[];
+            permissions?: string[];
+        }
+
+        export function request(permissions: Permissions): Promise<boolean>;
+        export function remove(permissions: Permissions): Promise<boolean>;
+        export function contains(permissions: Permissions): Promise<boolean>;
+    }
 }
 
 
@@ -49,6 +49,12 @@ describe('useChromeMessaging', () => {
         it('should have INITIALIZE_ALARM type', () => {
             expect(MessageTypes.INITIALIZE_ALARM).toBe('INITIALIZE_ALARM');
         });
+
+        it('should have saved search message types', () => {
+            expect(MessageTypes.WATCH_SEARCH).toBe('WATCH_SEARCH');
+            expect(MessageTypes.CHECK_SAVED_SEARCHES).toBe('CHECK_SAVED_SEARCHES');
+            expect(MessageTypes.SAVED_SEARCHES_UPDATED).toBe('SAVED_SEARCHES_UPDATED');
+        });
     });
 
     describe('isChromeExtension', () => {
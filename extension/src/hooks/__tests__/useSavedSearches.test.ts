@@ -0,0 +1,110 @@
+/**
+ * useSavedSearches Hook Tests
+ *
+ * Tests for loading saved searches and the inbox actions.
+ */
+
+import {act, renderHook, waitFor} from '@testing-library/react';
+import {useSavedSearches} from '@/hooks/useSavedSearches';
+import {SavedSearch} from '@/types';
+
+const mockGetRemoteSavedSearches = jest.fn();
+const mockDismissRemoteSavedSearchMatch = jest.fn();
+const mockDeleteRemoteSavedSearch = jest.fn();
+
+jest.mock('@/api/client', () => ({
+    getRemoteSavedSearches: (...args: unknown[]) => mockGetRemoteSavedSearches(...args),
+    dismissRemoteSavedSearchMatch: (...args: unknown[]) => mockDismissRemoteSavedSearchMatch(...args),
+    deleteRemoteSavedSearch: (...args: unknown[]) => mockDeleteRemoteSavedSearch(...args),
+}));
+
+const match = {
+    id: '6100000003',
+    url: 'https://www.otomoto.pl/osobowe/oferta/bmw-ID3.html',
+    title: 'BMW 320d',
+    discoveredAt: '2024-06-01T12:00:00.000Z',
+};
+
+const search: SavedSearch = {
+    id: 'search-1',
+    name: 'BMW 3',
+    url: 'https://www.otomoto.pl/osobowe/bmw/seria-3',
+    seenListingIds: ['6100000003'],
+    newMatches: [match],
+    createdAt: '2024-05-01T00:00:00.000Z',
+    lastCheckedAt: '2024-06-01T12:00:00.000Z',
+};
+
+describe('useSavedSearches', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockGetRemoteSavedSearches.mockResolvedValue([search]);
+        mockDismissRemoteSavedSearchMatch.mockResolvedValue({...search, newMatches: []});
+        mockDeleteRemoteSavedSearch.mockResolvedValue({success: true});
+    });
+
+    it('should load saved searches on mount', async () => {
+        const {result} = renderHook(() => useSavedSearches());
+
+        await waitFor(() => {
+            expect(result.current.searches).toEqual([search]);
+        });
+    });
+
+    it('should not load when disabled', async () => {
+        const {result} = renderHook(() => useSavedSearches(false));
+
+        await waitFor(() => {
+            expect(result.current.isLoading).toBe(false);
+        });
+        expect(mockGetRemoteSavedSearches).not.toHaveBeenCalled();
+        expect(result.current.searches).toEqual([]);
+    });
+
+    it('should dismiss a match on the backend', async () => {
+        const {result} = renderHook(() => useSavedSearches());
+        await waitFor(() => expect(result.current.searches).toHaveLength(1));
+
+        await act(async () => {
+            await result.current.dismissMatch('search-1', match.id);
+        });
+
+        expect(result.current.searches[0].newMatches).toEqual([]);
+        expect(mockDismissRemoteSavedSearchMatch).toHaveBeenCalledWith('search-1', match.id);
+    });
+
+    it('should remove a search', async () => {
+        const {result} = renderHook(() => useSavedSearches());
+        await waitFor(() => expect(result.current.searches).toHaveLength(1));
+
+        await act(async () => {
+            await result.current.remove('search-1');
+        });
+
+        expect(mockDeleteRemoteSavedSearch).toHaveBeenCalledWith('search-1');
+        expect(result.current.searches).toEqual([]);
+    });
+
+    it('should ask the background worker to watch a search', async () => {
+        (chrome.runtime.sendMessage as jest.Mock).mockResolvedValue({success: true});
+        const {result} = renderHook(() => useSavedSearches());
+
+        await act(async () => {
+            await result.current.watch(search.url, 'BMW 3', 7);
+        });
+
+        expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+            type: 'WATCH_SEARCH',
+            url: search.url,
+            name: 'BMW 3',
+            tabId: 7,
+        });
+    });
+
+    it('should surface background errors when watching fails', async () => {
+        (chrome.runtime.sendMessage as jest.Mock).mockResolvedValue({success: false, error: 'No cards'});
+        const {result} = renderHook(() => useSavedSearches());
+
+        await expect(result.current.watch(search.url)).rejects.toThrow('No cards');
+    });
+});
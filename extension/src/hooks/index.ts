@@ -21,3 +21,6 @@ export {useCurrentTab} from './useCurrentTab';
 export {usePageContent} from './usePageContent';
 export {useExtensionNavigation} from './useExtensionNavigation';
 
+// Saved searches
+export {useSavedSearches} from './useSavedSearches';
+
@@ -9,6 +9,9 @@ export const MessageTypes = {
     RESCHEDULE_ALARM: 'RESCHEDULE_ALARM',
     REFRESH_STATUS_CHANGED: 'REFRESH_STATUS_CHANGED',
     INITIALIZE_ALARM: 'INITIALIZE_ALARM',
+    WATCH_SEARCH: 'WATCH_SEARCH',
+    CHECK_SAVED_SEARCHES: 'CHECK_SAVED_SEARCHES',
+    SAVED_SEARCHES_UPDATED: 'SAVED_SEARCHES_UPDATED',
 } as const;
 
 export type MessageType = typeof MessageTypes[keyof typeof MessageTypes];
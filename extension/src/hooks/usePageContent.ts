@@ -53,6 +53,7 @@ const extractPageContent = (): PageContentResult => {
         title: document.title,
         content: document.body.innerText.substring(0, 20000),
         image,
+        html: document.documentElement.outerHTML,
     };
 };
 
@@ -0,0 +1,114 @@
+/**
+ * useSavedSearches Hook
+ *
+ * Loads the user's saved searches (with their new-listing inbox) from the
+ * API and exposes the inbox actions. Scanning itself happens in the
+ * background worker; this hook reloads whenever it reports new results.
+ */
+
+import {useCallback, useEffect, useState} from 'react';
+import {SavedSearch} from '@/types';
+import {deleteRemoteSavedSearch, dismissRemoteSavedSearchMatch, getRemoteSavedSearches} from '@/api/client';
+import {removeSearchMatch} from '@/services/searches';
+import {MessageTypes, sendMessage, useMessageListener} from './useChromeMessaging';
+
+interface UseSavedSearchesResult {
+    /** Saved searches of the logged in user */
+    searches: SavedSearch[];
+    /** Whether saved searches are loading */
+    isLoading: boolean;
+    /** Whether a manual check is running */
+    isChecking: boolean;
+    /** Last error message */
+    error: string | null;
+    /** Reload saved searches from the API */
+    reload: () => Promise<void>;
+    /** Start watching a search URL (baselined from tabId when given) */
+    watch: (url: string, name?: string, tabId?: number) => Promise<void>;
+    /** Stop watching a search */
+    remove: (searchId: string) => Promise<void>;
+    /** Remove a match from a search inbox */
+    dismissMatch: (searchId: string, matchId: string) => Promise<void>;
+    /** Check all saved searches now */
+    checkNow: () => Promise<void>;
+}
+
+/**
+ * Hook to manage saved searches
+ *
+ * @param enabled - Load searches only when true (e.g. when logged in)
+ */
+export const useSavedSearches = (enabled: boolean = true): UseSavedSearchesResult => {
+    const [searches, setSearches] = useState<SavedSearch[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const reload = useCallback(async () => {
+        if (!enabled) {
+            setSearches([]);
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            setSearches(await getRemoteSavedSearches());
+            setError(null);
+        } catch (err) {
+            console.error('[useSavedSearches] Failed to load saved searches:', err);
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [enabled]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    useMessageListener((message) => {
+        if (message.type === MessageTypes.SAVED_SEARCHES_UPDATED) {
+            reload();
+        }
+    }, [reload]);
+
+    const watch = useCallback(async (url: string, name?: string, tabId?: number) => {
+        const response = await sendMessage<{ success: boolean; error?: string }>({
+            type: MessageTypes.WATCH_SEARCH,
+            url,
+            name,
+            tabId,
+        });
+        if (response && !response.success) {
+            throw new Error(response.error || 'Failed to save search');
+        }
+        await reload();
+    }, [reload]);
+
+    const remove = useCallback(async (searchId: string) => {
+        await deleteRemoteSavedSearch(searchId);
+        setSearches((prev) => prev.filter((search) => search.id !== searchId));
+    }, []);
+
+    const dismissMatch = useCallback(async (searchId: string, matchId: string) => {
+        const search = searches.find((s) => s.id === searchId);
+        if (!search) return;
+
+        const updated = removeSearchMatch(search, matchId);
+        setSearches((prev) => prev.map((s) => (s.id === searchId ? updated : s)));
+        // Removed on the backend by ID, so a check running meanwhile is not overwritten
+        await dismissRemoteSavedSearchMatch(searchId, matchId);
+    }, [searches]);
+
+    const checkNow = useCallback(async () => {
+        setIsChecking(true);
+        try {
+            await sendMessage({type: MessageTypes.CHECK_SAVED_SEARCHES});
+            await reload();
+        } finally {
+            setIsChecking(false);
+        }
+    }, [reload]);
+
+    return {searches, isLoading, isChecking, error, reload, watch, remove, dismissMatch, checkNow};
+};
@@ -1,10 +1,10 @@
 /**
- * Tests for Extension Storage (session storage wrapper)
+ * Tests for Extension Storage (session and local storage wrappers)
  *
  * Uses the global chromeMock set up in setupTests.ts
  */
 
-import {extensionStorage} from '../extensionStorage';
+import {extensionStorage, localExtensionStorage} from '../extensionStorage';
 import {getChromeMock} from '@/test-utils/chromeMock';
 
 describe('Extension Storage', () => {
@@ -160,6 +160,43 @@ describe('Extension Storage', () => {
     });
 });
 
+describe('Local Extension Storage', () => {
+    let chrome: ReturnType<typeof getChromeMock>;
+
+    beforeEach(() => {
+        chrome = getChromeMock();
+    });
+
+    it('should store values in chrome.storage.local', async () => {
+        await localExtensionStorage.set('localKey', {listings: 2});
+
+        expect(chrome.storage.local.set).toHaveBeenCalled();
+        expect(chrome.storage.session.set).not.toHaveBeenCalled();
+        expect(await localExtensionStorage.get('localKey')).toEqual({listings: 2});
+    });
+
+    it('should remove values', async () => {
+        await localExtensionStorage.set('removeKey', 'value');
+        await localExtensionStorage.remove(['removeKey']);
+
+        expect(await localExtensionStorage.get('removeKey')).toBeUndefined();
+    });
+
+    it('should fall back to localStorage when chrome is not available', async () => {
+        const originalChrome = (globalThis as any).chrome;
+        delete (globalThis as any).chrome;
+
+        await localExtensionStorage.set('fallbackLocalKey', [1, 2]);
+        expect(localStorage.getItem('fallbackLocalKey')).toBe(JSON.stringify([1, 2]));
+        expect(await localExtensionStorage.get('fallbackLocalKey')).toEqual([1, 2]);
+
+        await localExtensionStorage.remove(['fallbackLocalKey']);
+        expect(localStorage.getItem('fallbackLocalKey')).toBeNull();
+
+        (globalThis as any).chrome = originalChrome;
+    });
+});
+
 describe('Extension Storage API', () => {
     it('should have get and set methods', () => {
         expect(extensionStorage.get).toBeDefined();
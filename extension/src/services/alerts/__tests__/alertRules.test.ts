@@ -0,0 +1,204 @@
+/**
+ * Tests for Alert Rule Evaluation
+ */
+
+import {
+    DEFAULT_ALERT_RULE,
+    evaluateAlertRules,
+    formatAlertMessage,
+    getAlertRuleForListing,
+} from '../alertRules';
+import type {RefreshResult} from '../../refresh';
+import {AlertRule, AlertRules, CarListing, ListingStatus} from '@/types';
+import {createMockListing} from '@/test-utils/mockData';
+
+const createListing = (price: number, status: ListingStatus = ListingStatus.ACTIVE): CarListing => createMockListing({
+    id: 'listing-1',
+    title: 'BMW 320d',
+    currentPrice: price,
+    currency: 'PLN',
+    status,
+    priceHistory: [
+        {date: '2024-05-30T10:00:00.000Z', price, currency: 'PLN'},
+    ],
+});
+
+/** Simulate a successful refresh that recorded a new price point */
+const refreshTo = (
+    previous: CarListing,
+    price: number,
+    overrides: Partial<RefreshResult> = {},
+    status: ListingStatus = previous.status,
+): RefreshResult => ({
+    listing: {
+        ...previous,
+        currentPrice: price,
+        status,
+        priceHistory: [
+            ...previous.priceHistory,
+            {date: '2024-05-31T10:00:00.000Z', price, currency: 'PLN'},
+        ],
+    },
+    success: true,
+    priceChanged: price !== previous.currentPrice,
+    ...overrides,
+});
+
+const rulesWith = (global: Partial<AlertRule>, listings: Record<string, AlertRule> = {}): AlertRules => ({
+    global: {...DEFAULT_ALERT_RULE, ...global},
+    listings,
+});
+
+describe('getAlertRuleForListing', () => {
+    it('should return the listing rule when set', () => {
+        const listingRule = {...DEFAULT_ALERT_RULE, targetPrice: 40000};
+        const rules = rulesWith({notifyOnEnded: true}, {'listing-1': listingRule});
+
+        expect(getAlertRuleForListing(rules, 'listing-1')).toBe(listingRule);
+        expect(getAlertRuleForListing(rules, 'listing-2')).toBe(rules.global);
+    });
+
+    it('should return a disabled rule without settings', () => {
+        expect(getAlertRuleForListing(undefined, 'listing-1')).toEqual(DEFAULT_ALERT_RULE);
+    });
+});
+
+describe('evaluateAlertRules', () => {
+    it('should alert when the drop reaches the percentage threshold', () => {
+        const previous = createListing(50000);
+
+        const alert = evaluateAlertRules(previous, refreshTo(previous, 47000), rulesWith({priceDropPercent: 5}));
+
+        expect(alert).toEqual({
+            listingId: 'listing-1',
+            title: 'BMW 320d',
+            reasons: ['priceDrop'],
+            previousPrice: 50000,
+            currentPrice: 47000,
+            currency: 'PLN',
+        });
+    });
+
+    it('should handle listings without price history', () => {
+        const previous = {...createListing(50000), priceHistory: undefined} as unknown as CarListing;
+        const result: RefreshResult = {
+            listing: {...previous, status: ListingStatus.ENDED},
+            success: true,
+            priceChanged: false,
+        };
+
+        const alert = evaluateAlertRules(previous, result, rulesWith({priceDropPercent: 5, notifyOnEnded: true}));
+
+        expect(alert?.reasons).toEqual(['ended']);
+    });
+
+    it('should alert when the drop reaches the amount threshold', () => {
+        const previous = createListing(50000);
+
+        const alert = evaluateAlertRules(previous, refreshTo(previous, 48000), rulesWith({priceDropAmount: 2000}));
+
+        expect(alert?.reasons).toEqual(['priceDrop']);
+    });
+
+    it('should not alert for drops below the thresholds', () => {
+        const previous = createListing(50000);
+
+        const alert = evaluateAlertRules(
+            previous,
+            refreshTo(previous, 49000),
+            rulesWith({priceDropPercent: 5, priceDropAmount: 2000}),
+        );
+
+        expect(alert).toBeNull();
+    });
+
+    it('should not alert for price increases', () => {
+        const previous = createListing(50000);
+
+        expect(evaluateAlertRules(previous, refreshTo(previous, 60000), rulesWith({priceDropAmount: 1}))).toBeNull();
+    });
+
+    it('should not alert when the refresh did not flag a price change', () => {
+        const previous = createListing(50000);
+
+        const alert = evaluateAlertRules(
+            previous,
+            refreshTo(previous, 40000, {priceChanged: false}),
+            rulesWith({priceDropPercent: 1}),
+        );
+
+        expect(alert).toBeNull();
+    });
+
+    it('should alert once when the price crosses the target', () => {
+        const previous = createListing(42000);
+        const rules = rulesWith({}, {'listing-1': {...DEFAULT_ALERT_RULE, targetPrice: 40000}});
+
+        expect(evaluateAlertRules(previous, refreshTo(previous, 39500), rules)?.reasons).toEqual(['targetPrice']);
+
+        const belowTarget = createListing(39500);
+        expect(evaluateAlertRules(belowTarget, refreshTo(belowTarget, 39000), rules)).toBeNull();
+    });
+
+    it('should use the listing rule instead of the global rule', () => {
+        const previous = createListing(50000);
+        const rules = rulesWith({priceDropPercent: 1}, {'listing-1': {...DEFAULT_ALERT_RULE, priceDropPercent: 20}});
+
+        expect(evaluateAlertRules(previous, refreshTo(previous, 45000), rules)).toBeNull();
+    });
+
+    it('should alert when a listing ends', () => {
+        const previous = createListing(50000);
+        const result = refreshTo(previous, 50000, {}, ListingStatus.ENDED);
+
+        expect(evaluateAlertRules(previous, result, rulesWith({notifyOnEnded: true}))?.reasons).toEqual(['ended']);
+        expect(evaluateAlertRules(previous, result, rulesWith({}))).toBeNull();
+    });
+
+    it('should alert when an ended listing comes back', () => {
+        const previous = createListing(50000, ListingStatus.ENDED);
+        const result = refreshTo(previous, 50000, {}, ListingStatus.ACTIVE);
+
+        expect(evaluateAlertRules(previous, result, rulesWith({notifyOnRelisted: true}))?.reasons).toEqual(['relisted']);
+    });
+
+    it('should combine every matching reason into one alert', () => {
+        const previous = createListing(50000, ListingStatus.ENDED);
+        const result = refreshTo(previous, 45000, {}, ListingStatus.ACTIVE);
+
+        const alert = evaluateAlertRules(previous, result, rulesWith({priceDropPercent: 5, notifyOnRelisted: true}));
+
+        expect(alert?.reasons).toEqual(['priceDrop', 'relisted']);
+    });
+
+    it('should ignore failed refreshes', () => {
+        const previous = createListing(50000);
+
+        const alert = evaluateAlertRules(
+            previous,
+            refreshTo(previous, 40000, {success: false}),
+            rulesWith({priceDropPercent: 1}),
+        );
+
+        expect(alert).toBeNull();
+    });
+});
+
+describe('formatAlertMessage', () => {
+    it('should describe every reason on its own line', () => {
+        const rule = {...DEFAULT_ALERT_RULE, targetPrice: 46000};
+        const message = formatAlertMessage({
+            listingId: 'listing-1',
+            title: 'BMW 320d',
+            reasons: ['priceDrop', 'targetPrice'],
+            previousPrice: 50000,
+            currentPrice: 45000,
+            currency: 'PLN',
+        }, rule);
+
+        const lines = message.split('\n');
+        expect(lines).toHaveLength(2);
+        expect(lines[0]).toContain('(10.0%)');
+        expect(lines[1]).toContain('below your target');
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * Tests for Listing Alert Notifications
+ */
+
+import {
+    createAlertNotificationId,
+    getListingIdFromNotificationId,
+    showListingAlertNotification,
+} from '../notifications';
+import {DEFAULT_ALERT_RULE} from '../alertRules';
+
+describe('alert notification IDs', () => {
+    it('should round-trip the listing ID', () => {
+        const id = createAlertNotificationId('url_otomoto:123-abc');
+
+        expect(getListingIdFromNotificationId(id)).toBe('url_otomoto:123-abc');
+    });
+
+    it('should ignore other notifications', () => {
+        expect(getListingIdFromNotificationId('refresh-complete-123')).toBeNull();
+        expect(getListingIdFromNotificationId('listing-alert:123')).toBeNull();
+    });
+});
+
+describe('showListingAlertNotification', () => {
+    it('should create one notification per alert', () => {
+        showListingAlertNotification({
+            listingId: 'listing-1',
+            title: 'BMW 320d',
+            reasons: ['ended'],
+            previousPrice: null,
+            currentPrice: 50000,
+            currency: 'PLN',
+        }, DEFAULT_ALERT_RULE);
+
+        expect(chrome.notifications.create).toHaveBeenCalledWith(
+            expect.stringMatching(/^listing-alert:\d+:listing-1$/),
+            expect.objectContaining({
+                title: 'MotorScope Alert: BMW 320d',
+                message: 'Listing has ended',
+            }),
+        );
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Alert Rule Evaluation
+ *
+ * Pure helpers that compare a listing before and after a refresh against the
+ * user's alert rules. Price conditions only fire on the refresh where the
+ * price actually moved, and status conditions on the refresh where the
+ * status flipped, so a listing is not reported again on every refresh.
+ */
+
+import {AlertRule, AlertRules, CarListing, ListingStatus} from '@/types';
+import type {RefreshResult} from '../refresh';
+
+/** Why a listing alert fired */
+export type AlertReason = 'priceDrop' | 'targetPrice' | 'ended' | 'relisted';
+
+/**
+ * Alert raised for a single listing after a refresh
+ */
+export interface ListingAlert {
+    listingId: string;
+    title: string;
+    reasons: AlertReason[];
+    /** Price recorded on the previous refresh (null when unknown) */
+    previousPrice: number | null;
+    currentPrice: number;
+    currency: string;
+}
+
+/** Rule with every condition switched off */
+export const DEFAULT_ALERT_RULE: AlertRule = {
+    priceDropPercent: null,
+    priceDropAmount: null,
+    targetPrice: null,
+    notifyOnEnded: false,
+    notifyOnRelisted: false,
+};
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+    global: DEFAULT_ALERT_RULE,
+    listings: {},
+};
+
+/**
+ * Get the rule that applies to a listing - its own rule if set, the global one otherwise
+ */
+export const getAlertRuleForListing = (rules: AlertRules | undefined, listingId: string): AlertRule => {
+    if (!rules) {
+        return DEFAULT_ALERT_RULE;
+    }
+    return rules.listings[listingId] ?? rules.global;
+};
+
+/**
+ * Get the price recorded on the refresh before the latest one
+ */
+const getPreviousPrice = (listing: CarListing): number | null => {
+    // Local-mode and imported listings may have no price history yet
+    const history = listing.priceHistory ?? [];
+    return history.length >= 2 ? history[history.length - 2].price : null;
+};
+
+/**
+ * Evaluate alert rules for a refreshed listing
+ *
+ * @param previous - Listing as it was before the refresh
+ * @param result - Refresh result (uses priceChanged and the updated price history)
+ * @param rules - User's alert rules
+ * @returns Alert with every matching reason, or null when nothing matched
+ */
+export const evaluateAlertRules = (
+    previous: CarListing,
+    result: RefreshResult,
+    rules: AlertRules | undefined,
+): ListingAlert | null => {
+    if (!result.success) {
+        return null;
+    }
+
+    const rule = getAlertRuleForListing(rules, previous.id);
+    const updated = result.listing;
+    const reasons: AlertReason[] = [];
+    const previousPrice = getPreviousPrice(updated);
+
+    if (result.priceChanged && previousPrice !== null && updated.currentPrice < previousPrice) {
+        const drop = previousPrice - updated.currentPrice;
+        const dropPercent = (drop / previousPrice) * 100;
+
+        const percentMatched = rule.priceDropPercent !== null && dropPercent >= rule.priceDropPercent;
+        const amountMatched = rule.priceDropAmount !== null && drop >= rule.priceDropAmount;
+        if (percentMatched || amountMatched) {
+            reasons.push('priceDrop');
+        }
+
+        // Only when crossing the target, not on every drop below it
+        if (rule.targetPrice !== null && updated.currentPrice <= rule.targetPrice && previousPrice > rule.targetPrice) {
+            reasons.push('targetPrice');
+        }
+    }
+
+    if (rule.notifyOnEnded && previous.status === ListingStatus.ACTIVE && updated.status === ListingStatus.ENDED) {
+        reasons.push('ended');
+    }
+
+    if (rule.notifyOnRelisted && previous.status === ListingStatus.ENDED && updated.status === ListingStatus.ACTIVE) {
+        reasons.push('relisted');
+    }
+
+    if (reasons.length === 0) {
+        return null;
+    }
+
+    return {
+        listingId: previous.id,
+        title: updated.title,
+        reasons,
+        previousPrice,
+        currentPrice: updated.currentPrice,
+        currency: updated.currency,
+    };
+};
+
+/**
+ * Build the notification text for an alert (one line per reason)
+ */
+export const formatAlertMessage = (alert: ListingAlert, rule: AlertRule): string => {
+    const price = `${alert.currentPrice.toLocaleString()} ${alert.currency}`;
+
+    return alert.reasons.map((reason) => {
+        switch (reason) {
+            case 'priceDrop': {
+                const drop = (alert.previousPrice ?? alert.currentPrice) - alert.currentPrice;
+                const percent = alert.previousPrice ? (drop / alert.previousPrice) * 100 : 0;
+                return `Price dropped by ${drop.toLocaleString()} ${alert.currency} (${percent.toFixed(1)}%) to ${price}`;
+            }
+            case 'targetPrice':
+                return `Price is now ${price}, below your target of ${(rule.targetPrice ?? 0).toLocaleString()} ${alert.currency}`;
+            case 'ended':
+                return 'Listing has ended';
+            case 'relisted':
+                return 'Listing is available again';
+        }
+    }).join('\n');
+};
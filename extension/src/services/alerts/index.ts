@@ -0,0 +1,24 @@
+/**
+ * Alerts Service - Barrel Export
+ *
+ * Price-drop and status-change alerts raised by background refreshes.
+ */
+
+// Rule evaluation
+export {
+    evaluateAlertRules,
+    formatAlertMessage,
+    getAlertRuleForListing,
+    DEFAULT_ALERT_RULE,
+    DEFAULT_ALERT_RULES,
+} from './alertRules';
+export type {AlertReason, ListingAlert} from './alertRules';
+
+// Notifications
+export {
+    showListingAlertNotification,
+    createAlertNotificationId,
+    getListingIdFromNotificationId,
+    getListingDashboardUrl,
+    LISTING_ALERT_NOTIFICATION_PREFIX,
+} from './notifications';
@@ -0,0 +1,53 @@
+/**
+ * Listing Alert Notifications
+ *
+ * Every alert gets its own chrome notification. The listing ID is encoded
+ * in the notification ID so a click can open the listing in the dashboard
+ * even after the service worker was restarted.
+ */
+
+import {AlertRule} from '@/types';
+import {formatAlertMessage, ListingAlert} from './alertRules';
+
+/** Prefix of listing alert notification IDs */
+export const LISTING_ALERT_NOTIFICATION_PREFIX = 'listing-alert:';
+
+/**
+ * Build a unique notification ID for a listing alert
+ */
+export const createAlertNotificationId = (listingId: string): string =>
+    `${LISTING_ALERT_NOTIFICATION_PREFIX}${Date.now()}:${listingId}`;
+
+/**
+ * Get the listing ID from a listing alert notification ID
+ *
+ * @returns Listing ID, or null for other notifications
+ */
+export const getListingIdFromNotificationId = (notificationId: string): string | null => {
+    if (!notificationId.startsWith(LISTING_ALERT_NOTIFICATION_PREFIX)) {
+        return null;
+    }
+
+    const rest = notificationId.slice(LISTING_ALERT_NOTIFICATION_PREFIX.length);
+    const separatorIndex = rest.indexOf(':');
+    return separatorIndex >= 0 ? rest.slice(separatorIndex + 1) || null : null;
+};
+
+/**
+ * Get the dashboard URL that opens the listing detail modal
+ */
+export const getListingDashboardUrl = (listingId: string): string =>
+    chrome.runtime.getURL(`index.html?view=dashboard&listing=${encodeURIComponent(listingId)}`);
+
+/**
+ * Show the notification for a listing alert
+ */
+export const showListingAlertNotification = (alert: ListingAlert, rule: AlertRule): void => {
+    chrome.notifications.create(createAlertNotificationId(alert.listingId), {
+        type: 'basic',
+        iconUrl: 'icon.png',
+        title: `MotorScope Alert: ${alert.title}`,
+        message: formatAlertMessage(alert, rule),
+        priority: 2,
+    });
+};
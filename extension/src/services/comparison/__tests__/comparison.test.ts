@@ -0,0 +1,88 @@
+/**
+ * Tests for Listing Comparison
+ */
+
+import {
+    buildComparisonRows,
+    buildComparisonUrl,
+    MAX_COMPARE_LISTINGS,
+    parseComparisonIds,
+    valuesDiffer,
+} from '..';
+import {createMockListing} from '@/test-utils/mockData';
+
+describe('valuesDiffer', () => {
+    it('should compare strings case-insensitively', () => {
+        expect(valuesDiffer(['Diesel', 'diesel ', 'DIESEL'])).toBe(false);
+        expect(valuesDiffer(['Diesel', 'Petrol'])).toBe(true);
+    });
+
+    it('should treat a value unknown for one listing as a difference', () => {
+        expect(valuesDiffer([190, null])).toBe(true);
+        expect(valuesDiffer([null, null])).toBe(false);
+    });
+});
+
+describe('buildComparisonRows', () => {
+    it('should align values in listing order and flag differences', () => {
+        const a = createMockListing({currentPrice: 125000});
+        const b = createMockListing({currentPrice: 119000});
+
+        const rows = buildComparisonRows([a, b]);
+        const price = rows.find((row) => row.key === 'currentPrice');
+        const make = rows.find((row) => row.key === 'make');
+
+        expect(price).toEqual({key: 'currentPrice', section: 'price', values: [125000, 119000], differs: true});
+        expect(make).toEqual({key: 'make', section: 'vehicle', values: ['BMW', 'BMW'], differs: false});
+    });
+
+    it('should convert mileage to kilometres', () => {
+        const base = createMockListing();
+        const miles = createMockListing({
+            vehicle: {...base.vehicle, mileage: {value: 10000, unit: 'mi'}},
+        });
+
+        const mileage = buildComparisonRows([base, miles]).find((row) => row.key === 'mileage');
+
+        expect(mileage?.values).toEqual([45000, 16093]);
+    });
+
+    it('should compute the price change since first tracked', () => {
+        const listing = createMockListing({
+            currentPrice: 90000,
+            priceHistory: [
+                {date: '2024-01-15T10:00:00Z', price: 100000, currency: 'PLN'},
+                {date: '2024-02-15T10:00:00Z', price: 90000, currency: 'PLN'},
+            ],
+        });
+        const untracked = createMockListing({priceHistory: []});
+
+        const change = buildComparisonRows([listing, untracked]).find((row) => row.key === 'priceChange');
+
+        expect(change?.values).toEqual([-10, null]);
+    });
+
+    it('should leave out rows unknown for every listing', () => {
+        const rows = buildComparisonRows([createMockListing(), createMockListing()]);
+
+        expect(rows.map((row) => row.key)).not.toContain('hybridType');
+        expect(rows.map((row) => row.key)).not.toContain('originalPrice');
+    });
+});
+
+describe('comparison URLs', () => {
+    it('should round-trip listing IDs', () => {
+        const url = buildComparisonUrl(['vin_ABC', 'url_a/b']);
+
+        expect(url).toBe('index.html?view=compare&ids=vin_ABC,url_a%2Fb');
+        expect(parseComparisonIds(url.slice(url.indexOf('?')))).toEqual(['vin_ABC', 'url_a/b']);
+    });
+
+    it('should drop duplicates and cap the number of IDs', () => {
+        const ids = ['a', 'b', 'a', 'c', 'd', 'e', 'f', 'g'];
+
+        expect(parseComparisonIds(`?view=compare&ids=${ids.join(',')}`)).toHaveLength(MAX_COMPARE_LISTINGS);
+        expect(parseComparisonIds('?view=compare&ids=a,a,,b')).toEqual(['a', 'b']);
+        expect(parseComparisonIds('?view=compare')).toEqual([]);
+    });
+});
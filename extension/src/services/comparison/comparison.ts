@@ -0,0 +1,144 @@
+/**
+ * Listing Comparison
+ *
+ * Builds the aligned rows of the side-by-side comparison view and the
+ * extension URL that addresses a comparison set.
+ */
+
+import {CarListing} from '@/types';
+
+/** Fewest listings a comparison makes sense for */
+export const MIN_COMPARE_LISTINGS = 2;
+
+/** Most listings shown side by side */
+export const MAX_COMPARE_LISTINGS = 5;
+
+const KM_PER_MILE = 1.609344;
+
+/** Group of rows in the comparison table */
+export type ComparisonSection = 'price' | 'vehicle' | 'engine' | 'drivetrain' | 'condition';
+
+/** Raw cell value (formatted by the view) */
+export type ComparisonValue = string | number | boolean | null;
+
+/**
+ * Attribute compared across listings
+ */
+export interface ComparisonField {
+    /** Row key, also used as the translation key suffix */
+    key: string;
+    section: ComparisonSection;
+    getValue: (listing: CarListing) => ComparisonValue;
+}
+
+/**
+ * One aligned row of the comparison table
+ */
+export interface ComparisonRow {
+    key: string;
+    section: ComparisonSection;
+    /** Values in the order of the compared listings */
+    values: ComparisonValue[];
+    /** Whether the listings disagree on this attribute */
+    differs: boolean;
+}
+
+const getMileageKm = (listing: CarListing): number | null => {
+    const mileage = listing.vehicle.mileage;
+    if (mileage?.value === null || mileage?.value === undefined) {
+        return null;
+    }
+    return mileage.unit === 'mi' ? Math.round(mileage.value * KM_PER_MILE) : mileage.value;
+};
+
+/** Change from the first tracked price, in percent */
+const getPriceChangePercent = (listing: CarListing): number | null => {
+    const firstPrice = listing.priceHistory[0]?.price;
+    if (!firstPrice || listing.priceHistory.length < 2) {
+        return null;
+    }
+    return Math.round(((listing.currentPrice - firstPrice) / firstPrice) * 1000) / 10;
+};
+
+/** Compared attributes, in display order */
+export const COMPARISON_FIELDS: ComparisonField[] = [
+    {key: 'currentPrice', section: 'price', getValue: (l) => l.currentPrice},
+    {key: 'currency', section: 'price', getValue: (l) => l.currency},
+    {key: 'originalPrice', section: 'price', getValue: (l) => l.originalPrice},
+    {key: 'priceChange', section: 'price', getValue: getPriceChangePercent},
+    {key: 'negotiable', section: 'price', getValue: (l) => l.negotiable},
+    {key: 'status', section: 'price', getValue: (l) => l.status},
+
+    {key: 'make', section: 'vehicle', getValue: (l) => l.vehicle.make},
+    {key: 'model', section: 'vehicle', getValue: (l) => l.vehicle.model},
+    {key: 'generation', section: 'vehicle', getValue: (l) => l.vehicle.generation},
+    {key: 'trim', section: 'vehicle', getValue: (l) => l.vehicle.trim},
+    {key: 'bodyType', section: 'vehicle', getValue: (l) => l.vehicle.bodyType},
+    {key: 'productionYear', section: 'vehicle', getValue: (l) => l.vehicle.productionYear},
+    {key: 'firstRegistrationYear', section: 'vehicle', getValue: (l) => l.vehicle.firstRegistrationYear},
+    {key: 'mileage', section: 'vehicle', getValue: getMileageKm},
+    {key: 'vin', section: 'vehicle', getValue: (l) => l.vehicle.vin},
+
+    {key: 'capacityCc', section: 'engine', getValue: (l) => l.vehicle.engine?.capacityCc ?? null},
+    {key: 'fuelType', section: 'engine', getValue: (l) => l.vehicle.engine?.fuelType ?? null},
+    {key: 'powerHp', section: 'engine', getValue: (l) => l.vehicle.engine?.powerHp ?? null},
+    {key: 'powerKw', section: 'engine', getValue: (l) => l.vehicle.engine?.powerKw ?? null},
+    {key: 'engineCode', section: 'engine', getValue: (l) => l.vehicle.engine?.engineCode ?? null},
+    {key: 'euroStandard', section: 'engine', getValue: (l) => l.vehicle.engine?.euroStandard ?? null},
+    {key: 'hybridType', section: 'engine', getValue: (l) => l.vehicle.engine?.hybridType ?? null},
+
+    {key: 'transmissionType', section: 'drivetrain', getValue: (l) => l.vehicle.drivetrain?.transmissionType ?? null},
+    {key: 'transmissionSubtype', section: 'drivetrain', getValue: (l) => l.vehicle.drivetrain?.transmissionSubtype ?? null},
+    {key: 'gearsCount', section: 'drivetrain', getValue: (l) => l.vehicle.drivetrain?.gearsCount ?? null},
+    {key: 'driveType', section: 'drivetrain', getValue: (l) => l.vehicle.drivetrain?.driveType ?? null},
+
+    {key: 'isNew', section: 'condition', getValue: (l) => l.vehicle.condition?.isNew ?? null},
+    {key: 'isImported', section: 'condition', getValue: (l) => l.vehicle.condition?.isImported ?? null},
+    {key: 'accidentFree', section: 'condition', getValue: (l) => l.vehicle.condition?.accidentFreeDeclared ?? null},
+    {key: 'serviceHistory', section: 'condition', getValue: (l) => l.vehicle.condition?.serviceHistoryDeclared ?? null},
+];
+
+const normalizeValue = (value: ComparisonValue): string | number | boolean | null =>
+    typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+/**
+ * Check whether compared values disagree
+ *
+ * Strings are compared case-insensitively; a value known for one listing
+ * but unknown for another counts as a difference.
+ */
+export const valuesDiffer = (values: ComparisonValue[]): boolean =>
+    new Set(values.map(normalizeValue)).size > 1;
+
+/**
+ * Build the comparison table rows for the given listings
+ *
+ * Rows where every listing's value is unknown are left out.
+ */
+export const buildComparisonRows = (listings: CarListing[]): ComparisonRow[] =>
+    COMPARISON_FIELDS
+        .map((field) => {
+            const values = listings.map(field.getValue);
+            return {key: field.key, section: field.section, values, differs: valuesDiffer(values)};
+        })
+        .filter((row) => row.values.some((value) => value !== null));
+
+/**
+ * Extension URL of the comparison view for a set of listings
+ */
+export const buildComparisonUrl = (listingIds: string[]): string =>
+    `index.html?view=compare&ids=${listingIds.map(encodeURIComponent).join(',')}`;
+
+/**
+ * Read the compared listing IDs from a URL query string
+ *
+ * Duplicates are dropped and at most MAX_COMPARE_LISTINGS IDs are kept.
+ */
+export const parseComparisonIds = (search: string): string[] => {
+    const ids = new URLSearchParams(search).get('ids');
+    if (!ids) {
+        return [];
+    }
+    const unique = Array.from(new Set(ids.split(',').map((id) => id.trim()).filter(Boolean)));
+    return unique.slice(0, MAX_COMPARE_LISTINGS);
+};
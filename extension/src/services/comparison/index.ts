@@ -0,0 +1,16 @@
+/**
+ * Comparison Service - Barrel Export
+ *
+ * Side-by-side comparison of tracked listings.
+ */
+
+export {
+    buildComparisonRows,
+    buildComparisonUrl,
+    parseComparisonIds,
+    valuesDiffer,
+    COMPARISON_FIELDS,
+    MAX_COMPARE_LISTINGS,
+    MIN_COMPARE_LISTINGS,
+} from './comparison';
+export type {ComparisonField, ComparisonRow, ComparisonSection, ComparisonValue} from './comparison';
@@ -0,0 +1,114 @@
+/**
+ * Tests for Listings Export
+ */
+
+import {buildExportRows, createListingsExport, getExportColumns, toCsv, toXlsx} from '..';
+import {createMockListing} from '@/test-utils/mockData';
+
+const decode = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
+
+describe('buildExportRows', () => {
+    it('should flatten vehicle, engine, seller and location fields', () => {
+        const listing = createMockListing({id: 'listing-1'});
+
+        const [row] = buildExportRows([listing], 'latest');
+
+        expect(row).toMatchObject({
+            id: 'listing-1',
+            price: 125000,
+            currency: 'PLN',
+            make: 'BMW',
+            model: '320d',
+            mileage: 45000,
+            mileageUnit: 'km',
+            fuelType: 'Diesel',
+            powerHp: 190,
+            city: 'Warsaw',
+            isArchived: false,
+        });
+        expect(Object.keys(row)).toEqual(getExportColumns('latest'));
+    });
+
+    it('should write one row per price point in history mode', () => {
+        const listing = createMockListing({
+            priceHistory: [
+                {date: '2024-01-15T10:00:00Z', price: 130000, currency: 'PLN'},
+                {date: '2024-01-20T10:00:00Z', price: 125000, currency: 'PLN'},
+            ],
+        });
+
+        const rows = buildExportRows([listing], 'history');
+
+        expect(rows.map((row) => [row.priceDate, row.price])).toEqual([
+            ['2024-01-15T10:00:00Z', 130000],
+            ['2024-01-20T10:00:00Z', 125000],
+        ]);
+    });
+
+    it('should fall back to the current price without price history', () => {
+        const listing = createMockListing({priceHistory: [], lastSeenAt: '2024-02-01T10:00:00Z'});
+
+        const rows = buildExportRows([listing], 'history');
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({priceDate: '2024-02-01T10:00:00Z', price: 125000});
+    });
+});
+
+describe('toCsv', () => {
+    it('should quote values with separators, quotes and line breaks', () => {
+        const csv = toCsv([{a: 'plain', b: 'with, comma', c: 'say "hi"'}, {a: null, b: 'two\nlines', c: true}], ['a', 'b', 'c']);
+
+        expect(csv).toBe('a,b,c\r\nplain,"with, comma","say ""hi"""\r\n,"two\nlines",true\r\n');
+    });
+});
+
+describe('toXlsx', () => {
+    it('should write a ZIP archive with the workbook parts', () => {
+        const bytes = toXlsx([{title: 'BMW <320d> & more', price: 125000, negotiable: true}], ['title', 'price', 'negotiable']);
+        const text = decode(bytes);
+
+        // Local file header signature
+        expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+        expect(text).toContain('[Content_Types].xml');
+        expect(text).toContain('xl/workbook.xml');
+        expect(text).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">BMW &lt;320d&gt; &amp; more</t></is></c>');
+        expect(text).toContain('<c r="B2"><v>125000</v></c>');
+        expect(text).toContain('<c r="C2" t="b"><v>1</v></c>');
+    });
+
+    it('should end with the central directory record', () => {
+        const bytes = toXlsx([], ['title']);
+        const end = new DataView(bytes.buffer, bytes.length - 22);
+
+        expect(end.getUint32(0, true)).toBe(0x06054b50);
+        expect(end.getUint16(10, true)).toBe(5);
+    });
+});
+
+describe('createListingsExport', () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+
+    it('should name files by format and price mode', () => {
+        const listings = [createMockListing()];
+
+        expect(createListingsExport(listings, 'csv', 'latest', now).filename).toBe('motorscope-listings-2024-06-01.csv');
+        expect(createListingsExport(listings, 'xlsx', 'history', now).filename)
+            .toBe('motorscope-listings-price-history-2024-06-01.xlsx');
+    });
+
+    it('should export JSON listings with their price history', () => {
+        const listing = createMockListing({id: 'listing-1'});
+        const file = createListingsExport([listing], 'json', 'history', now);
+
+        expect(file.mimeType).toBe('application/json');
+        expect(file.filename).toBe('motorscope-listings-2024-06-01.json');
+        expect(JSON.parse(file.content as string)).toEqual([listing]);
+    });
+
+    it('should prefix CSV with a byte order mark', () => {
+        const file = createListingsExport([createMockListing()], 'csv', 'latest', now);
+
+        expect((file.content as string).startsWith('\uFEFFid,title,price,currency')).toBe(true);
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * Listings Export
+ *
+ * Builds CSV, JSON or XLSX files from listings and downloads them
+ * from the dashboard. Rows, CSV and the XLSX writer come from the API's
+ * export module (api/src/export), so both exports produce the same files.
+ */
+
+import {CarListing} from '@/types';
+import {buildExportRows, ExportPriceMode, getExportColumns} from '../../../../api/src/export/rows';
+import {toCsv} from '../../../../api/src/export/csv';
+import {toXlsx} from '../../../../api/src/export/xlsx';
+
+/** Supported export file formats */
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+
+/**
+ * Export file ready to be downloaded
+ */
+export interface ExportFile {
+    filename: string;
+    mimeType: string;
+    content: string | Uint8Array<ArrayBuffer>;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv;charset=utf-8',
+    json: 'application/json',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** Byte order mark so spreadsheet applications detect UTF-8 CSV */
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Create an export file from listings
+ *
+ * CSV and XLSX files hold flattened rows; JSON files hold the listings
+ * themselves (docs/car-listing-schema.json, price history included), so they
+ * can be imported again.
+ *
+ * @param listings - Listings to export, in output order
+ * @param format - File format
+ * @param mode - Latest price only or one row per price history point (CSV and XLSX)
+ * @param now - Date used in the file name
+ */
+export const createListingsExport = (
+    listings: CarListing[],
+    format: ExportFormat,
+    mode: ExportPriceMode,
+    now: Date = new Date(),
+): ExportFile => {
+    const columns = getExportColumns(mode);
+    const rows = buildExportRows(listings, mode);
+    const suffix = mode === 'history' && format !== 'json' ? '-price-history' : '';
+    const filename = `motorscope-listings${suffix}-${now.toISOString().slice(0, 10)}.${format}`;
+
+    let content: string | Uint8Array<ArrayBuffer>;
+    switch (format) {
+        case 'csv':
+            content = UTF8_BOM + toCsv(rows, columns);
+            break;
+        case 'json':
+            content = JSON.stringify(listings, null, 2);
+            break;
+        case 'xlsx':
+            content = toXlsx(rows, columns);
+            break;
+    }
+
+    return {filename, mimeType: MIME_TYPES[format], content};
+};
+
+/**
+ * Download an export file through a temporary link
+ */
+export const downloadExportFile = (file: ExportFile): void => {
+    const blob = new Blob([file.content], {type: file.mimeType});
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,14 @@
+/**
+ * Export Service - Barrel Export
+ *
+ * CSV, JSON and XLSX export of listings and their price history.
+ */
+
+export {createListingsExport, downloadExportFile, EXPORT_FORMATS} from './exportListings';
+export type {ExportFile, ExportFormat} from './exportListings';
+
+export {buildExportRows, getExportColumns} from '../../../../api/src/export/rows';
+export type {ExportPriceMode, ExportRow, ExportValue} from '../../../../api/src/export/rows';
+
+export {toCsv} from '../../../../api/src/export/csv';
+export {toXlsx} from '../../../../api/src/export/xlsx';
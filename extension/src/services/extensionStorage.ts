@@ -1,54 +1,92 @@
 /**
- * Extension Session Storage
+ * Extension Storage
  *
- * Type-safe wrapper around chrome.storage.session for runtime state.
- * Used ONLY for transient runtime state (refresh status, etc.).
- * NOT for settings or persistent data - those come from API.
+ * Type-safe wrappers around chrome.storage areas.
+ * - extensionStorage (chrome.storage.session): transient runtime state (refresh status, etc.)
+ * - localExtensionStorage (chrome.storage.local): data kept in the browser in local-only mode
+ *
+ * Signed-in users keep settings and listings on the API; the local area is
+ * only used for data of users without an account (see services/localData).
  */
 
-const get = async <T>(key: string): Promise<T | undefined> => {
-    if (typeof chrome !== 'undefined' && chrome.storage?.session) {
-        return new Promise((resolve, reject) => {
-            chrome.storage.session.get([key], (result) => {
-                if (chrome.runtime.lastError) {
-                    reject(new Error(chrome.runtime.lastError.message));
-                    return;
-                }
-                resolve(result[key] as T | undefined);
+type StorageAreaName = 'session' | 'local';
+
+const getArea = (area: StorageAreaName): typeof chrome.storage.local | undefined =>
+    typeof chrome !== 'undefined' ? chrome.storage?.[area] : undefined;
+
+/**
+ * Web Storage used outside the extension (development builds)
+ */
+const getFallback = (area: StorageAreaName): Storage =>
+    area === 'session' ? sessionStorage : localStorage;
+
+const createStorage = (areaName: StorageAreaName) => {
+    const get = async <T>(key: string): Promise<T | undefined> => {
+        const area = getArea(areaName);
+        if (area) {
+            return new Promise((resolve, reject) => {
+                area.get([key], (result) => {
+                    if (chrome.runtime.lastError) {
+                        reject(new Error(chrome.runtime.lastError.message));
+                        return;
+                    }
+                    resolve(result[key] as T | undefined);
+                });
             });
-        });
-    }
-
-    // Fallback to sessionStorage for development (NOT localStorage)
-    try {
-        const data = sessionStorage.getItem(key);
-        return data ? (JSON.parse(data) as T) : undefined;
-    } catch (error) {
-        return Promise.reject(error);
-    }
-};
+        }
 
-const set = async (key: string, value: unknown): Promise<void> => {
-    if (typeof chrome !== 'undefined' && chrome.storage?.session) {
-        return new Promise((resolve, reject) => {
-            chrome.storage.session.set({[key]: value}, () => {
-                if (chrome.runtime.lastError) {
-                    reject(new Error(chrome.runtime.lastError.message));
-                    return;
-                }
-                resolve();
+        try {
+            const data = getFallback(areaName).getItem(key);
+            return data ? (JSON.parse(data) as T) : undefined;
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    };
+
+    const set = async (key: string, value: unknown): Promise<void> => {
+        const area = getArea(areaName);
+        if (area) {
+            return new Promise((resolve, reject) => {
+                area.set({[key]: value}, () => {
+                    if (chrome.runtime.lastError) {
+                        reject(new Error(chrome.runtime.lastError.message));
+                        return;
+                    }
+                    resolve();
+                });
+            });
+        }
+
+        try {
+            getFallback(areaName).setItem(key, JSON.stringify(value));
+            return Promise.resolve();
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    };
+
+    const remove = async (keys: string[]): Promise<void> => {
+        const area = getArea(areaName);
+        if (area) {
+            return new Promise((resolve, reject) => {
+                area.remove(keys, () => {
+                    if (chrome.runtime.lastError) {
+                        reject(new Error(chrome.runtime.lastError.message));
+                        return;
+                    }
+                    resolve();
+                });
             });
-        });
-    }
-
-    // Fallback to sessionStorage for development (NOT localStorage)
-    try {
-        sessionStorage.setItem(key, JSON.stringify(value));
-        return Promise.resolve();
-    } catch (error) {
-        return Promise.reject(error);
-    }
+        }
+
+        keys.forEach((key) => getFallback(areaName).removeItem(key));
+    };
+
+    return {get, set, remove};
 };
 
-export const extensionStorage = {get, set};
+/** Session storage for runtime state - falls back to sessionStorage (NOT localStorage) */
+export const extensionStorage = createStorage('session');
 
+/** Persistent storage for local-only mode - falls back to localStorage */
+export const localExtensionStorage = createStorage('local');
@@ -0,0 +1,110 @@
+/**
+ * Tests for Extracted Field Helpers
+ */
+
+import {isFilled, mergeExtractedFields, missingFieldsSchema, setField} from '../fields';
+import type {ExtractedFields} from '../types';
+
+const schema = {
+    type: 'OBJECT',
+    properties: {
+        title: {type: 'STRING'},
+        pricing: {
+            type: 'OBJECT',
+            properties: {
+                currency: {type: 'STRING'},
+                currentPrice: {type: 'NUMBER'},
+            },
+            required: ['currency', 'currentPrice'],
+        },
+        seller: {
+            type: 'OBJECT',
+            properties: {
+                name: {type: 'STRING', nullable: true},
+            },
+        },
+    },
+    required: ['title', 'pricing'],
+};
+
+describe('isFilled', () => {
+    it('should reject null, blank strings and NaN', () => {
+        expect(isFilled(null)).toBe(false);
+        expect(isFilled(undefined)).toBe(false);
+        expect(isFilled('  ')).toBe(false);
+        expect(isFilled(NaN)).toBe(false);
+    });
+
+    it('should accept false and zero', () => {
+        expect(isFilled(false)).toBe(true);
+        expect(isFilled(0)).toBe(true);
+        expect(isFilled('BMW')).toBe(true);
+    });
+});
+
+describe('setField', () => {
+    it('should create nested objects along the path', () => {
+        const fields: ExtractedFields = {};
+        setField(fields, 'vehicle.engine.powerHp', 190);
+        setField(fields, 'vehicle.make', ' BMW ');
+
+        expect(fields).toEqual({vehicle: {engine: {powerHp: 190}, make: 'BMW'}});
+    });
+
+    it('should skip unusable values', () => {
+        const fields: ExtractedFields = {};
+        setField(fields, 'vehicle.make', null);
+        setField(fields, 'title', '');
+
+        expect(fields).toEqual({});
+    });
+});
+
+describe('mergeExtractedFields', () => {
+    it('should prefer extracted values over model output', () => {
+        const merged = mergeExtractedFields(
+            {title: 'Model title', pricing: {currency: 'PLN', currentPrice: 1000}, seller: {name: 'Jan'}},
+            {pricing: {currentPrice: 129900}},
+        );
+
+        expect(merged).toEqual({
+            title: 'Model title',
+            pricing: {currency: 'PLN', currentPrice: 129900},
+            seller: {name: 'Jan'},
+        });
+    });
+
+    it('should add extracted branches missing from the model output', () => {
+        expect(mergeExtractedFields({}, {vehicle: {vin: 'WBAJA91010CE12345'}}))
+            .toEqual({vehicle: {vin: 'WBAJA91010CE12345'}});
+    });
+});
+
+describe('missingFieldsSchema', () => {
+    it('should return the whole schema when nothing was extracted', () => {
+        expect(missingFieldsSchema(schema, {})).toEqual(schema);
+    });
+
+    it('should drop extracted fields and their required entries', () => {
+        expect(missingFieldsSchema(schema, {title: 'BMW', pricing: {currentPrice: 129900}})).toEqual({
+            type: 'OBJECT',
+            properties: {
+                pricing: {
+                    type: 'OBJECT',
+                    properties: {currency: {type: 'STRING'}},
+                    required: ['currency'],
+                },
+                seller: schema.properties.seller,
+            },
+            required: ['pricing'],
+        });
+    });
+
+    it('should return null when every field was extracted', () => {
+        expect(missingFieldsSchema(schema, {
+            title: 'BMW',
+            pricing: {currency: 'PLN', currentPrice: 129900},
+            seller: {name: 'Jan'},
+        })).toBeNull();
+    });
+});
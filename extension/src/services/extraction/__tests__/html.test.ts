@@ -0,0 +1,67 @@
+/**
+ * Tests for Page Markup Readers
+ */
+
+import {parseNumber, readJsonLd, readNextData, readTestIdText} from '../html';
+
+describe('readJsonLd', () => {
+    it('should read every JSON-LD block, flattening arrays and @graph', () => {
+        const html = [
+            '<script type="application/ld+json">{"@type":"Car","name":"BMW"}</script>',
+            '<script type="application/ld+json">[{"@type":"BreadcrumbList"}]</script>',
+            '<script type=\'application/ld+json\'>{"@graph":[{"@type":"Offer"}]}</script>',
+        ].join('');
+
+        expect(readJsonLd(html).map((object) => object['@type'])).toEqual(
+            ['Car', 'BreadcrumbList', undefined, 'Offer'],
+        );
+    });
+
+    it('should skip invalid JSON', () => {
+        const html = '<script type="application/ld+json">{not json</script>'
+            + '<script type="application/ld+json">{"@type":"Car"}</script>';
+
+        expect(readJsonLd(html)).toEqual([{'@type': 'Car'}]);
+    });
+});
+
+describe('readNextData', () => {
+    it('should parse the __NEXT_DATA__ script', () => {
+        const html = '<script id="__NEXT_DATA__" type="application/json">{"props":{"pageProps":{}}}</script>';
+
+        expect(readNextData(html)).toEqual({props: {pageProps: {}}});
+    });
+
+    it('should return null when the script is missing or invalid', () => {
+        expect(readNextData('<html></html>')).toBeNull();
+        expect(readNextData('<script id="__NEXT_DATA__">oops</script>')).toBeNull();
+    });
+});
+
+describe('readTestIdText', () => {
+    it('should return the text after the attribute without tags', () => {
+        const html = '<div data-testid="advert-vin" class="x"><p>VIN</p><p>WBA&amp;123</p></div>';
+
+        expect(readTestIdText(html, 'advert-vin')).toMatch(/^VIN WBA&123/);
+    });
+
+    it('should return null when the test ID is missing', () => {
+        expect(readTestIdText('<div></div>', 'advert-vin')).toBeNull();
+    });
+});
+
+describe('parseNumber', () => {
+    it('should parse formatted page values', () => {
+        expect(parseNumber('125 000 km')).toBe(125000);
+        expect(parseNumber('1 995 cm3')).toBe(1995);
+        expect(parseNumber('129 900')).toBe(129900);
+        expect(parseNumber('2,5 l')).toBe(2.5);
+        expect(parseNumber(190)).toBe(190);
+    });
+
+    it('should return null for values without a number', () => {
+        expect(parseNumber('brak')).toBeNull();
+        expect(parseNumber(null)).toBeNull();
+        expect(parseNumber(Infinity)).toBeNull();
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for the OTOMOTO Extractor
+ */
+
+import {extractListing, extractOtomotoListing, toRefreshFields} from '..';
+import {createMockOtomotoPageHtml} from '@/test-utils/mockData';
+
+const OFFER_URL = 'https://www.otomoto.pl/osobowe/oferta/bmw-seria-5-ID6HEcgy.html';
+
+describe('extractOtomotoListing', () => {
+    it('should read the advert parameters from __NEXT_DATA__', () => {
+        const {fields} = extractOtomotoListing(createMockOtomotoPageHtml());
+
+        expect(fields.title).toBe('BMW Seria 5 520d xDrive M Sport');
+        expect(fields.vehicle).toEqual({
+            vin: 'WBAJA91010CE12345',
+            make: 'BMW',
+            model: 'Seria 5',
+            productionYear: 2019,
+            mileage: {value: 125000, unit: 'km'},
+            engine: {capacityCc: 1995, fuelType: 'Diesel', powerHp: 190},
+            drivetrain: {driveType: 'AWD'},
+            condition: {isNew: false, accidentFreeDeclared: true},
+        });
+        expect(fields.pricing).toEqual({currentPrice: 129900, currency: 'PLN'});
+        expect(fields.seller).toEqual({name: 'Jan', type: 'private', isCompany: false});
+        expect(fields.location).toEqual({city: 'Warszawa', region: 'Mazowieckie', countryCode: 'PL'});
+        expect(fields.dates).toEqual({postedAt: '2025-12-03T15:52:00+01:00'});
+    });
+
+    it('should read price and availability from JSON-LD', () => {
+        const result = extractOtomotoListing(createMockOtomotoPageHtml({advert: null, vin: null}));
+
+        expect(result.fields).toEqual({
+            title: 'BMW Seria 5 520d xDrive',
+            vehicle: {make: 'BMW'},
+            pricing: {currentPrice: 129900, currency: 'PLN'},
+        });
+        expect(result.isAvailable).toBe(true);
+        expect(result.isSold).toBe(false);
+    });
+
+    it('should mark sold offers as unavailable', () => {
+        const result = extractOtomotoListing(createMockOtomotoPageHtml({
+            jsonLd: [{
+                '@type': 'Car',
+                offers: {price: '99000', priceCurrency: 'EUR', availability: 'http://schema.org/SoldOut'},
+            }],
+            advert: null,
+        }));
+
+        expect(result.fields.pricing).toEqual({currentPrice: 99000, currency: 'EUR'});
+        expect(result.isAvailable).toBe(false);
+        expect(result.isSold).toBe(true);
+    });
+
+    it('should fall back to the details list and dealer seller type', () => {
+        const {fields} = extractOtomotoListing(createMockOtomotoPageHtml({
+            jsonLd: [],
+            advert: {
+                details: [
+                    {key: 'make', value: 'Audi'},
+                    {key: 'gearbox', value: 'Automatyczna'},
+                    {key: 'transmission', value: 'Na przednie koła'},
+                ],
+                seller: {name: 'Auto Centrum', type: 'PROFESSIONAL'},
+            },
+            vin: null,
+        }));
+
+        expect(fields.vehicle).toEqual({
+            make: 'Audi',
+            drivetrain: {transmissionType: 'Automatyczna', driveType: 'FWD'},
+        });
+        expect(fields.seller).toEqual({name: 'Auto Centrum', type: 'dealer', isCompany: true});
+    });
+
+    it('should ignore a VIN that has not been revealed', () => {
+        const {fields} = extractOtomotoListing(createMockOtomotoPageHtml({
+            jsonLd: [],
+            advert: null,
+            vin: 'Wyświetl VIN',
+        }));
+
+        expect(fields).toEqual({});
+    });
+
+    it('should return no fields for pages without structured data', () => {
+        expect(extractOtomotoListing('<html><body>Ogłoszenie</body></html>')).toEqual({fields: {}});
+    });
+});
+
+describe('extractListing', () => {
+    it('should run the marketplace extractor', () => {
+        const result = extractListing(OFFER_URL, createMockOtomotoPageHtml());
+
+        expect(result?.fields.title).toBe('BMW Seria 5 520d xDrive M Sport');
+    });
+
+    it('should return null for marketplaces without an extractor', () => {
+        expect(extractListing('https://www.facebook.com/marketplace/item/123', '<html></html>')).toBeNull();
+        expect(extractListing('https://example.com/car', '<html></html>')).toBeNull();
+    });
+
+    it('should return null for empty HTML', () => {
+        expect(extractListing(OFFER_URL, '')).toBeNull();
+    });
+});
+
+describe('toRefreshFields', () => {
+    it('should map the extraction to the refresh response shape', () => {
+        const result = extractOtomotoListing(createMockOtomotoPageHtml());
+
+        expect(toRefreshFields(result)).toEqual({
+            price: 129900,
+            currency: 'PLN',
+            isAvailable: true,
+            isSold: false,
+        });
+    });
+
+    it('should leave out availability the page does not state', () => {
+        const result = extractOtomotoListing(createMockOtomotoPageHtml({jsonLd: []}));
+
+        expect(toRefreshFields(result)).toEqual({price: 129900, currency: 'PLN'});
+    });
+});
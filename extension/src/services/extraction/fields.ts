@@ -0,0 +1,55 @@
+/**
+ * Extracted Field Helpers
+ *
+ * Build, merge and compare listing fields in the response shape of the
+ * LLM schemas, so rule-based results and model output can be combined.
+ */
+
+import type {ExtractedFields} from './types';
+import {isFilled} from '../../../../api/src/gemini/fields';
+
+// Shared with the /api/ai/parse proxy, which narrows its schema the same way
+export {isFilled, missingFieldsSchema} from '../../../../api/src/gemini/fields';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Set a field by dot path (e.g. "vehicle.engine.powerHp").
+ * Unusable values are skipped, so missing fields stay absent.
+ */
+export function setField(fields: ExtractedFields, path: string, value: unknown): void {
+    if (!isFilled(value)) {
+        return;
+    }
+
+    const keys = path.split('.');
+    let target = fields;
+    for (const key of keys.slice(0, -1)) {
+        if (!isPlainObject(target[key])) {
+            target[key] = {};
+        }
+        target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = typeof value === 'string' ? value.trim() : value;
+}
+
+/**
+ * Merge extracted fields over model output.
+ * Extracted values win - they are read from the page, not inferred.
+ */
+export function mergeExtractedFields(
+    data: Record<string, unknown>,
+    fields: ExtractedFields,
+): Record<string, unknown> {
+    const merged: Record<string, unknown> = {...data};
+    for (const [key, value] of Object.entries(fields)) {
+        if (isPlainObject(value)) {
+            merged[key] = mergeExtractedFields(isPlainObject(data[key]) ? data[key] : {}, value);
+        } else if (isFilled(value)) {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
@@ -0,0 +1,106 @@
+/**
+ * Page Markup Readers
+ *
+ * String-based readers for structured data embedded in listing pages.
+ * They run in the background service worker as well as the popup, so
+ * they cannot rely on DOMParser - only on the raw HTML string.
+ */
+
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+const NEXT_DATA_PATTERN = /<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i;
+
+/** How much markup after a data-testid attribute is read as its text */
+const TEST_ID_TEXT_WINDOW = 1000;
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+    '&nbsp;': ' ',
+};
+
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text.trim());
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read all JSON-LD objects on the page.
+ * Top-level arrays and @graph containers are flattened; invalid blocks are skipped.
+ */
+export function readJsonLd(html: string): Record<string, unknown>[] {
+    const objects: Record<string, unknown>[] = [];
+
+    const collect = (value: unknown) => {
+        if (Array.isArray(value)) {
+            value.forEach(collect);
+        } else if (value && typeof value === 'object') {
+            const object = value as Record<string, unknown>;
+            objects.push(object);
+            if (Array.isArray(object['@graph'])) {
+                object['@graph'].forEach(collect);
+            }
+        }
+    };
+
+    for (const match of html.matchAll(JSON_LD_PATTERN)) {
+        collect(parseJson(match[1]));
+    }
+    return objects;
+}
+
+/**
+ * Read the Next.js page data (__NEXT_DATA__ script), if present
+ */
+export function readNextData(html: string): Record<string, unknown> | null {
+    const match = html.match(NEXT_DATA_PATTERN);
+    const data = match ? parseJson(match[1]) : null;
+    return data && typeof data === 'object' ? data as Record<string, unknown> : null;
+}
+
+/**
+ * Read the visible text following a data-testid attribute.
+ * Tags are dropped and entities decoded; the window is capped, so callers
+ * should match the value they expect rather than use the whole text.
+ */
+export function readTestIdText(html: string, testId: string): string | null {
+    const start = html.indexOf(`data-testid="${testId}"`);
+    if (start === -1) {
+        return null;
+    }
+
+    const markup = html.slice(start, start + TEST_ID_TEXT_WINDOW);
+    const text = markup
+        .slice(markup.indexOf('>') + 1)
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity])
+        .replace(/\s+/g, ' ')
+        .trim();
+    return text || null;
+}
+
+/**
+ * Parse a number from page text such as "125 000 km" or "1 998 cm3".
+ * Spaces (including non-breaking ones) are treated as thousands separators
+ * and a comma as the decimal separator.
+ */
+export function parseNumber(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) ? value : null;
+    }
+    if (typeof value !== 'string') {
+        return null;
+    }
+
+    const match = value.replace(/\s/g, '').match(/\d+(?:[.,]\d+)?/);
+    if (!match) {
+        return null;
+    }
+    const parsed = Number(match[0].replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Listing Extraction Service - Barrel Export
+ *
+ * Rule-based extractors that read listing fields straight from marketplace
+ * markup. Parse and refresh run them first and ask the LLM only for the
+ * fields they could not fill.
+ */
+
+import {getMarketplaceForUrl} from '@/config/marketplaces';
+import type {ExtractedFields, ExtractionResult, ListingExtractor} from './types';
+import {setField} from './fields';
+import {extractOtomotoListing} from './otomoto';
+
+/** Extractors keyed by marketplace ID (see config/marketplaces.ts) */
+const EXTRACTORS: Record<string, ListingExtractor> = {
+    otomoto: extractOtomotoListing,
+};
+
+/**
+ * Run the marketplace's extractor on a listing page
+ *
+ * @returns The extraction result, or null when the marketplace has no extractor
+ */
+export function extractListing(url: string, html: string): ExtractionResult | null {
+    const marketplace = getMarketplaceForUrl(url);
+    const extractor = marketplace ? EXTRACTORS[marketplace.id] : undefined;
+    return extractor && html ? extractor(html) : null;
+}
+
+/**
+ * Extracted fields in the refreshSchema response shape
+ */
+export function toRefreshFields(result: ExtractionResult): ExtractedFields {
+    const pricing = result.fields.pricing as Record<string, unknown> | undefined;
+    const fields: ExtractedFields = {};
+    setField(fields, 'price', pricing?.currentPrice);
+    setField(fields, 'currency', pricing?.currency);
+    setField(fields, 'isAvailable', result.isAvailable);
+    setField(fields, 'isSold', result.isSold);
+    return fields;
+}
+
+export {extractOtomotoListing} from './otomoto';
+export {isFilled, mergeExtractedFields, missingFieldsSchema, setField} from './fields';
+export {parseNumber, readJsonLd, readNextData, readTestIdText} from './html';
+export type {ExtractedFields, ExtractionResult, ListingExtractor} from './types';
@@ -0,0 +1,238 @@
+/**
+ * OTOMOTO Extractor
+ *
+ * Reads listing fields from OTOMOTO offer pages without the LLM.
+ * Sources, later ones taking precedence:
+ * 1. JSON-LD (schema.org Car/Product with an Offer)
+ * 2. Next.js page data (__NEXT_DATA__ advert with its parameter dictionary)
+ * 3. The revealed VIN (data-testid="advert-vin"), see content-scripts/marketplace-main.ts
+ */
+
+import {cleanVin} from '@/utils/formatters';
+import type {ExtractionResult} from './types';
+import {parseNumber, readJsonLd, readNextData, readTestIdText} from './html';
+import {setField} from './fields';
+
+/** schema.org availability values that mean the offer is gone */
+const UNAVAILABLE_OFFERS = ['OutOfStock', 'Discontinued', 'SoldOut'];
+
+/** OTOMOTO drive labels ("transmission" parameter) mapped to the schema's drive types */
+const DRIVE_TYPES: Record<string, string> = {
+    'na przednie koła': 'FWD',
+    'na tylne koła': 'RWD',
+    '4x4 (stały)': 'AWD',
+    '4x4 (dołączany automatycznie)': 'AWD',
+    '4x4 (dołączany ręcznie)': 'AWD',
+};
+
+/** Seller types used by OTOMOTO for dealers */
+const COMPANY_SELLER_TYPES = ['PROFESSIONAL', 'BUSINESS'];
+
+const VIN_PATTERN = /\b[A-HJ-NPR-Z0-9]{17}\b/;
+
+interface AdvertParameter {
+    value: string | null;
+    label: string | null;
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+function asString(value: unknown): string | null {
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+/** Read a plain string or the name of a schema.org Thing */
+function readName(value: unknown): string | null {
+    return asString(value) ?? asString(asObject(value)?.name);
+}
+
+function hasType(object: Record<string, unknown>, ...types: string[]): boolean {
+    const type = object['@type'];
+    return (Array.isArray(type) ? type : [type]).some((t) => types.includes(t as string));
+}
+
+function applyJsonLd(html: string, result: ExtractionResult): void {
+    const fields = result.fields;
+
+    for (const object of readJsonLd(html)) {
+        if (!hasType(object, 'Car', 'Vehicle', 'Product')) {
+            continue;
+        }
+
+        setField(fields, 'title', asString(object.name));
+        setField(fields, 'vehicle.vin', cleanVin(asString(object.vehicleIdentificationNumber)));
+        setField(fields, 'vehicle.make', readName(object.brand) ?? readName(object.manufacturer));
+        setField(fields, 'vehicle.model', readName(object.model));
+        setField(fields, 'vehicle.bodyType', asString(object.bodyType));
+        setField(fields, 'vehicle.productionYear', parseNumber(object.vehicleModelDate ?? object.productionDate));
+        setField(fields, 'vehicle.engine.fuelType', asString(object.fuelType));
+        setField(fields, 'vehicle.drivetrain.transmissionType', asString(object.vehicleTransmission));
+        setField(fields, 'vehicle.colorAndInterior.exteriorColor', asString(object.color));
+
+        const mileage = asObject(object.mileageFromOdometer);
+        if (mileage) {
+            setField(fields, 'vehicle.mileage.value', parseNumber(mileage.value));
+            setField(fields, 'vehicle.mileage.unit', mileage.unitCode === 'SMI' ? 'mi' : 'km');
+        }
+
+        const engine = asObject(Array.isArray(object.vehicleEngine) ? object.vehicleEngine[0] : object.vehicleEngine);
+        if (engine) {
+            setField(fields, 'vehicle.engine.capacityCc', parseNumber(asObject(engine.engineDisplacement)?.value));
+            const power = asObject(engine.enginePower);
+            const powerField = power?.unitCode === 'KWT' ? 'powerKw' : 'powerHp';
+            setField(fields, `vehicle.engine.${powerField}`, parseNumber(power?.value));
+        }
+
+        const condition = asString(object.itemCondition);
+        if (condition) {
+            setField(fields, 'vehicle.condition.isNew', condition.includes('NewCondition')
+                ? true
+                : condition.includes('UsedCondition') ? false : null);
+        }
+
+        const offer = asObject(Array.isArray(object.offers) ? object.offers[0] : object.offers);
+        if (offer) {
+            setField(fields, 'pricing.currentPrice', parseNumber(offer.price));
+            setField(fields, 'pricing.currency', asString(offer.priceCurrency));
+
+            const availability = asString(offer.availability);
+            if (availability) {
+                result.isAvailable = !UNAVAILABLE_OFFERS.some((value) => availability.endsWith(value));
+                result.isSold = availability.endsWith('SoldOut');
+            }
+        }
+    }
+}
+
+/**
+ * Read advert parameters from the parameter dictionary, or the details list
+ * on pages that only carry the latter
+ */
+function readAdvertParameters(advert: Record<string, unknown>): Map<string, AdvertParameter> {
+    const parameters = new Map<string, AdvertParameter>();
+
+    const dictionary = asObject(advert.parametersDict);
+    if (dictionary) {
+        for (const [key, entry] of Object.entries(dictionary)) {
+            const values = asObject(entry)?.values;
+            const first = asObject(Array.isArray(values) ? values[0] : null);
+            if (first) {
+                parameters.set(key, {value: asString(first.value), label: asString(first.label)});
+            }
+        }
+    }
+
+    if (Array.isArray(advert.details)) {
+        for (const entry of advert.details) {
+            const detail = asObject(entry);
+            const key = asString(detail?.key);
+            if (detail && key && !parameters.has(key)) {
+                const value = asString(detail.value);
+                parameters.set(key, {value, label: value});
+            }
+        }
+    }
+
+    return parameters;
+}
+
+function isYes(parameter: AdvertParameter | undefined): boolean | null {
+    if (!parameter) return null;
+    return parameter.value === '1' || parameter.label?.toLowerCase() === 'tak';
+}
+
+function applyNextData(html: string, result: ExtractionResult): void {
+    const advert = asObject(asObject(asObject(readNextData(html)?.props)?.pageProps)?.advert);
+    if (!advert) {
+        return;
+    }
+
+    const fields = result.fields;
+    const parameters = readAdvertParameters(advert);
+    const label = (key: string) => parameters.get(key)?.label ?? null;
+
+    setField(fields, 'title', asString(advert.title));
+    setField(fields, 'vehicle.vin', cleanVin(label('vin')));
+    setField(fields, 'vehicle.make', label('make'));
+    setField(fields, 'vehicle.model', label('model'));
+    setField(fields, 'vehicle.generation', label('generation'));
+    setField(fields, 'vehicle.trim', label('version'));
+    setField(fields, 'vehicle.bodyType', label('body_type'));
+    setField(fields, 'vehicle.productionYear', parseNumber(label('year')));
+    setField(fields, 'vehicle.mileage.value', parseNumber(label('mileage')));
+    if (parameters.has('mileage')) {
+        setField(fields, 'vehicle.mileage.unit', 'km');
+    }
+    setField(fields, 'vehicle.engine.capacityCc', parseNumber(label('engine_capacity')));
+    setField(fields, 'vehicle.engine.fuelType', label('fuel_type'));
+    // OTOMOTO lists power in KM (metric horsepower)
+    setField(fields, 'vehicle.engine.powerHp', parseNumber(label('engine_power')));
+    setField(fields, 'vehicle.drivetrain.transmissionType', label('gearbox'));
+    const drive = label('transmission');
+    setField(fields, 'vehicle.drivetrain.driveType', drive ? DRIVE_TYPES[drive.toLowerCase()] ?? drive : null);
+    setField(fields, 'vehicle.colorAndInterior.exteriorColor', label('color'));
+    setField(fields, 'vehicle.registration.plateNumber', label('registration'));
+    setField(fields, 'vehicle.registration.originCountry', label('country_origin'));
+    if (isYes(parameters.get('registered'))) {
+        setField(fields, 'vehicle.registration.registeredInCountryCode', 'PL');
+    }
+
+    const newUsed = parameters.get('new_used')?.value;
+    if (newUsed === 'new' || newUsed === 'used') {
+        setField(fields, 'vehicle.condition.isNew', newUsed === 'new');
+    }
+    // OTOMOTO only shows these parameters when the seller declares them
+    if (isYes(parameters.get('no_accident'))) {
+        setField(fields, 'vehicle.condition.accidentFreeDeclared', true);
+    }
+    if (isYes(parameters.get('service_record'))) {
+        setField(fields, 'vehicle.condition.serviceHistoryDeclared', true);
+    }
+
+    const price = asObject(advert.price);
+    if (price) {
+        setField(fields, 'pricing.currentPrice', parseNumber(price.value));
+        setField(fields, 'pricing.currency', asString(price.currency));
+    }
+
+    const seller = asObject(advert.seller);
+    if (seller) {
+        const sellerType = asString(seller.type)?.toUpperCase();
+        setField(fields, 'seller.name', asString(seller.name));
+        if (sellerType) {
+            const isCompany = COMPANY_SELLER_TYPES.includes(sellerType);
+            setField(fields, 'seller.type', isCompany ? 'dealer' : 'private');
+            setField(fields, 'seller.isCompany', isCompany);
+        }
+
+        const location = asObject(seller.location);
+        setField(fields, 'location.city', readName(location?.city));
+        setField(fields, 'location.region', readName(location?.region));
+        setField(fields, 'location.postalCode', asString(location?.postalCode));
+    }
+    setField(fields, 'location.countryCode', 'PL');
+
+    const createdAt = asString(advert.createdAt);
+    if (createdAt && !Number.isNaN(Date.parse(createdAt))) {
+        setField(fields, 'dates.postedAt', createdAt);
+    }
+}
+
+function applyRevealedVin(html: string, result: ExtractionResult): void {
+    const text = readTestIdText(html, 'advert-vin');
+    const vin = cleanVin(text?.match(VIN_PATTERN)?.[0]);
+    setField(result.fields, 'vehicle.vin', vin);
+}
+
+/**
+ * Extract listing fields from an OTOMOTO offer page
+ */
+export function extractOtomotoListing(html: string): ExtractionResult {
+    const result: ExtractionResult = {fields: {}};
+    applyJsonLd(html, result);
+    applyNextData(html, result);
+    applyRevealedVin(html, result);
+    return result;
+}
@@ -0,0 +1,26 @@
+/**
+ * Extraction Types
+ */
+
+/**
+ * Listing fields in the carListingSchema response shape.
+ * Only fields found on the page are present.
+ */
+export type ExtractedFields = Record<string, unknown>;
+
+/**
+ * Result of reading a listing page without the LLM
+ */
+export interface ExtractionResult {
+    /** Listing fields found in the page markup */
+    fields: ExtractedFields;
+    /** Whether the offer is still available, when the page states it */
+    isAvailable?: boolean;
+    /** Whether the page marks the vehicle as sold */
+    isSold?: boolean;
+}
+
+/**
+ * Rule-based extractor for one marketplace's listing pages
+ */
+export type ListingExtractor = (html: string) => ExtractionResult;
@@ -0,0 +1,71 @@
+/**
+ * Tests for Field Evidence
+ */
+
+import {buildVehicleEvidence, getLowConfidenceFields} from '../evidence';
+
+describe('Field Evidence', () => {
+    const vehicle = {
+        vin: 'WBAJA91010CE12345',
+        productionYear: 2019,
+        mileage: {value: 152000, unit: 'km'},
+        engine: {capacityCc: 2700, powerHp: null, fuelType: 'Benzyna'},
+    };
+
+    describe('buildVehicleEvidence', () => {
+        it('should keep the snippet and confidence reported by the model', () => {
+            expect(buildVehicleEvidence({
+                engineCapacity: {snippet: '  Pojemność 2.7 benzyna ', confidence: 0.45},
+            }, vehicle)).toEqual({
+                engineCapacity: {snippet: 'Pojemność 2.7 benzyna', confidence: 0.45, source: 'ai'},
+            });
+        });
+
+        it('should mark fields read from page markup as certain', () => {
+            const evidence = buildVehicleEvidence(
+                {mileage: {snippet: '152 000 km', confidence: 0.3}},
+                vehicle,
+                {vehicle: {mileage: {value: 152000}}},
+            );
+
+            expect(evidence?.mileage).toEqual({snippet: null, confidence: 1, source: 'page'});
+        });
+
+        it('should skip fields without a value', () => {
+            expect(buildVehicleEvidence({
+                enginePower: {snippet: '340 hp', confidence: 0.9},
+            }, vehicle)).toBeUndefined();
+        });
+
+        it('should clamp confidence, shorten snippets and drop entries without confidence', () => {
+            const evidence = buildVehicleEvidence({
+                vin: {snippet: 'x'.repeat(300), confidence: 1.4},
+                productionYear: {snippet: '', confidence: -1},
+                fuelType: {snippet: 'Benzyna'},
+            }, vehicle);
+
+            expect(evidence?.vin).toEqual({snippet: 'x'.repeat(200), confidence: 1, source: 'ai'});
+            expect(evidence?.productionYear).toEqual({snippet: null, confidence: 0, source: 'ai'});
+            expect(evidence).not.toHaveProperty('fuelType');
+        });
+
+        it('should return undefined for a missing or invalid evidence object', () => {
+            expect(buildVehicleEvidence(undefined, vehicle)).toBeUndefined();
+            expect(buildVehicleEvidence('evidence', vehicle)).toBeUndefined();
+        });
+    });
+
+    describe('getLowConfidenceFields', () => {
+        it('should list fields below the review threshold in display order', () => {
+            expect(getLowConfidenceFields({
+                fuelType: {snippet: null, confidence: 0.2, source: 'ai'},
+                vin: {snippet: 'VIN', confidence: 0.5, source: 'ai'},
+                mileage: {snippet: '152 000 km', confidence: 0.6, source: 'ai'},
+            })).toEqual(['vin', 'fuelType']);
+        });
+
+        it('should return nothing without evidence', () => {
+            expect(getLowConfidenceFields(undefined)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Golden-File Regression Tests
+ *
+ * Replays the saved listing pages in test-utils/golden through the parse
+ * pipeline with their recorded model responses. Set GOLDEN_REPORT=1 to
+ * print the field accuracy of every recording.
+ */
+
+// The SDK does not load under Jest; the schemas only need its Type enum
+jest.mock('@google/genai', () => ({
+    Type: {STRING: 'STRING', NUMBER: 'NUMBER', INTEGER: 'INTEGER', BOOLEAN: 'BOOLEAN', ARRAY: 'ARRAY', OBJECT: 'OBJECT'},
+}));
+
+jest.mock('../history', () => ({
+    recordSuccess: jest.fn().mockResolvedValue(undefined),
+    recordError: jest.fn().mockResolvedValue(undefined),
+}));
+
+import {
+    BASELINE_RECORDING,
+    buildAccuracyReport,
+    findSchemaIssues,
+    formatAccuracyReport,
+    GOLDEN_CASES,
+    GoldenResult,
+    runGoldenCase,
+    runGoldenCorpus,
+} from '@/test-utils/golden';
+
+describe('golden extraction corpus', () => {
+    it('covers every marketplace the prompts have rules for', () => {
+        expect(new Set(GOLDEN_CASES.map((goldenCase) => goldenCase.marketplace))).toEqual(
+            new Set(['otomoto', 'autoplac', 'facebook-marketplace', 'facebook-group', 'mobile-de']),
+        );
+    });
+
+    describe.each(GOLDEN_CASES.map((goldenCase) => [goldenCase.name, goldenCase] as const))('%s', (_name, goldenCase) => {
+        let result: GoldenResult;
+
+        beforeAll(async () => {
+            result = await runGoldenCase(goldenCase);
+        });
+
+        it('parses the recorded response', () => {
+            expect(result.error).toBeNull();
+        });
+
+        it('produces the expected listing values', () => {
+            expect(result.fields.filter((field) => !field.matched)).toEqual([]);
+        });
+
+        it('sends the marketplace rules in the prompt', () => {
+            expect(result.missingPromptText).toEqual([]);
+        });
+
+        it('has a recorded response that fits the current schema', () => {
+            expect(result.schemaIssues).toEqual([]);
+        });
+    });
+
+    it('reports field accuracy for every recording', async () => {
+        const reports = buildAccuracyReport(await runGoldenCorpus(GOLDEN_CASES));
+        if (process.env.GOLDEN_REPORT) {
+            console.info(formatAccuracyReport(reports));
+        }
+
+        const baseline = reports.find((report) => report.recording === BASELINE_RECORDING);
+        expect(baseline?.cases).toBe(GOLDEN_CASES.length);
+        expect(baseline?.matched).toBe(baseline?.total);
+    });
+});
+
+describe('findSchemaIssues', () => {
+    const schema = {
+        type: 'OBJECT',
+        properties: {
+            title: {type: 'STRING'},
+            pricing: {
+                type: 'OBJECT',
+                properties: {currentPrice: {type: 'NUMBER'}, originalPrice: {type: 'NUMBER', nullable: true}},
+                required: ['currentPrice'],
+            },
+        },
+        required: ['title', 'pricing'],
+    };
+
+    it('accepts a matching response', () => {
+        expect(findSchemaIssues({title: 'BMW', pricing: {currentPrice: 1000, originalPrice: null}}, schema)).toEqual([]);
+    });
+
+    it('reports renamed, missing and mistyped fields', () => {
+        expect(findSchemaIssues({title: 3, pricing: {price: 1000}}, schema)).toEqual([
+            'title: expected string',
+            'pricing.currentPrice: required but missing',
+            'pricing.price: not in schema',
+        ]);
+    });
+
+    it('reports null in fields that are not nullable', () => {
+        expect(findSchemaIssues({title: null, pricing: {currentPrice: 1}}, schema)).toEqual(['title: null but not nullable']);
+    });
+});
+
+describe('formatAccuracyReport', () => {
+    const result = (caseName: string, recording: string, matched: boolean[]): GoldenResult => ({
+        caseName,
+        recording,
+        fields: matched.map((isMatched, i) => ({path: `field${i}`, expected: 1, actual: isMatched ? 1 : 2, matched: isMatched})),
+        error: null,
+        missingPromptText: [],
+        schemaIssues: [],
+    });
+
+    it('lists the accuracy of each field per recording', () => {
+        const reports = buildAccuracyReport([
+            result('a', 'gemini/gemini-2.5-flash', [true, true]),
+            result('b', 'gemini/gemini-2.5-flash', [true, false]),
+            result('a', 'openai-compatible/llama3.1', [false, true]),
+        ]);
+
+        expect(formatAccuracyReport(reports)).toBe([
+            'gemini/gemini-2.5-flash: 75% (3/4 fields, 2 cases)',
+            '  field0    2/2    100%',
+            '  field1    1/2     50%  failed: b',
+            '',
+            'openai-compatible/llama3.1: 50% (1/2 fields, 1 cases)',
+            '  field0    0/1      0%  failed: a',
+            '  field1    1/1    100%',
+        ].join('\n'));
+    });
+});
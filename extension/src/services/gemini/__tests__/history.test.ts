@@ -83,6 +83,17 @@ describe('Gemini History', () => {
             );
         });
 
+        it('should record the provider and model that handled the call', async () => {
+            await recordSuccess('url', 'prompt', {}, {provider: 'openai-compatible', model: 'llama3.1'});
+
+            expect(recordGeminiCall).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    provider: 'openai-compatible',
+                    model: 'llama3.1',
+                }),
+            );
+        });
+
         it('should include timestamp', async () => {
             await recordSuccess('url', 'prompt', {});
 
@@ -239,6 +239,72 @@ describe('Gemini Mapper', () => {
             const result = mapToCarListing(validData, url, pageTitle);
             expect(result.schemaVersion).toBe('1.0.0');
         });
+
+        it('should map evidence of key vehicle fields', () => {
+            const result = mapToCarListing({
+                ...validData,
+                evidence: {
+                    vin: {snippet: 'VIN: 1C4SDJCT8LC248766', confidence: 0.95},
+                    mileage: {snippet: 'Przebieg 50 000 km', confidence: 0.4},
+                },
+            }, url, pageTitle, null, {vehicle: {productionYear: 2020}});
+
+            expect(result.vehicleEvidence).toEqual({
+                vin: {snippet: 'VIN: 1C4SDJCT8LC248766', confidence: 0.95, source: 'ai'},
+                productionYear: {snippet: null, confidence: 1, source: 'page'},
+                mileage: {snippet: 'Przebieg 50 000 km', confidence: 0.4, source: 'ai'},
+            });
+        });
+
+        it('should omit evidence when none was reported', () => {
+            const result = mapToCarListing(validData, url, pageTitle);
+            expect(result).not.toHaveProperty('vehicleEvidence');
+        });
+
+        describe('mobile.de listings', () => {
+            const mobileDeUrl = 'https://suchen.mobile.de/fahrzeuge/details.html?id=412345678&lang=de';
+            const germanData = {
+                ...validData,
+                pricing: {currentPrice: 24900, currency: '€'},
+                vehicle: {
+                    ...validData.vehicle,
+                    engine: {fuelType: 'Benzin'},
+                    drivetrain: {transmissionType: 'Schaltgetriebe'},
+                },
+            };
+
+            it('should map German fuel and transmission labels', () => {
+                const result = mapToCarListing(germanData, mobileDeUrl, pageTitle);
+
+                expect(result.vehicle?.engine?.fuelType).toBe('Benzyna');
+                expect(result.vehicle?.drivetrain?.transmissionType).toBe('Manualna');
+            });
+
+            it('should map the currency symbol to EUR', () => {
+                const result = mapToCarListing(germanData, mobileDeUrl, pageTitle);
+
+                expect(result.currency).toBe('EUR');
+                expect(result.priceHistory?.[0].currency).toBe('EUR');
+            });
+
+            it('should default the origin country to DE', () => {
+                const result = mapToCarListing(germanData, mobileDeUrl, pageTitle);
+
+                expect(result.vehicle?.registration?.originCountry).toBe('DE');
+            });
+
+            it('should keep the listing id in the source URL', () => {
+                const result = mapToCarListing(germanData, mobileDeUrl, pageTitle);
+
+                expect(result.source?.url).toBe('https://suchen.mobile.de/fahrzeuge/details.html?id=412345678');
+            });
+
+            it('should not default the origin country on other marketplaces', () => {
+                const result = mapToCarListing(germanData, url, pageTitle);
+
+                expect(result.vehicle?.registration?.originCountry).toBeNull();
+            });
+        });
     });
 });
 
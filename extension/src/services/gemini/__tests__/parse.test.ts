@@ -28,6 +28,15 @@ jest.mock('../history', () => ({
     recordError: jest.fn().mockResolvedValue(undefined),
 }));
 
+jest.mock('../proxy', () => ({
+    isGeminiProxyAvailable: jest.fn(),
+    parseListingViaProxy: jest.fn(),
+}));
+
+jest.mock('../../llm/registry', () => ({
+    getActiveLlmProvider: jest.fn(),
+}));
+
 // Mock schemas module to avoid @google/genai import
 jest.mock('../schemas', () => ({
     carListingSchema: {
@@ -39,6 +48,10 @@ jest.mock('../schemas', () => ({
     },
     refreshSchema: {},
     fullCarListingSchema: {},
+    withEvidenceSchema: (schema: {properties: object}) => ({
+        ...schema,
+        properties: {...schema.properties, evidence: {type: 'object'}},
+    }),
 }));
 
 import {parseCarDataWithGemini} from '../parse';
@@ -47,6 +60,9 @@ import {buildParsePrompt} from '../prompts';
 import {validateParseResponse} from '../validation';
 import {mapToCarListing} from '../mapper';
 import {recordError, recordSuccess} from '../history';
+import {isGeminiProxyAvailable, parseListingViaProxy} from '../proxy';
+import {createFixtureProvider, createGeminiProvider, getActiveLlmProvider} from '../../llm';
+import {createMockOtomotoPageHtml} from '@/test-utils/mockData';
 
 const mockCreateGeminiClient = createGeminiClient as jest.MockedFunction<typeof createGeminiClient>;
 const mockBuildParsePrompt = buildParsePrompt as jest.MockedFunction<typeof buildParsePrompt>;
@@ -54,6 +70,11 @@ const mockValidateParseResponse = validateParseResponse as jest.MockedFunction<t
 const mockMapToCarListing = mapToCarListing as jest.MockedFunction<typeof mapToCarListing>;
 const mockRecordSuccess = recordSuccess as jest.MockedFunction<typeof recordSuccess>;
 const mockRecordError = recordError as jest.MockedFunction<typeof recordError>;
+const mockIsGeminiProxyAvailable = isGeminiProxyAvailable as jest.MockedFunction<typeof isGeminiProxyAvailable>;
+const mockParseListingViaProxy = parseListingViaProxy as jest.MockedFunction<typeof parseListingViaProxy>;
+const mockGetActiveLlmProvider = getActiveLlmProvider as jest.MockedFunction<typeof getActiveLlmProvider>;
+
+const GEMINI_SOURCE = {provider: 'gemini', model: 'gemini-2.5-flash'};
 
 describe('Gemini Parse Service', () => {
     const mockGenerateContent = jest.fn();
@@ -66,6 +87,8 @@ describe('Gemini Parse Service', () => {
     beforeEach(() => {
         jest.clearAllMocks();
         mockCreateGeminiClient.mockResolvedValue(mockAiClient as any);
+        mockIsGeminiProxyAvailable.mockResolvedValue(false);
+        mockGetActiveLlmProvider.mockResolvedValue({provider: createGeminiProvider(), model: 'gemini-2.5-flash'});
         mockGenerateContent.mockResolvedValue({
             text: '{"price": 100000, "currency": "PLN"}',
         });
@@ -161,6 +184,8 @@ describe('Gemini Parse Service', () => {
                     expect.objectContaining({
                         text: expect.any(String),
                     }),
+                    GEMINI_SOURCE,
+                    null,
                 );
             });
 
@@ -177,8 +202,150 @@ describe('Gemini Parse Service', () => {
                     'https://example.com',
                     'Test Title',
                     'https://example.com/image.jpg',
+                    {},
+                );
+            });
+        });
+
+        describe('backend proxy', () => {
+            it('should parse through the backend when signed in', async () => {
+                const proxyData = {title: 'BMW 320d', pricing: {price: 89900}};
+                mockIsGeminiProxyAvailable.mockResolvedValue(true);
+                mockParseListingViaProxy.mockResolvedValue(proxyData);
+
+                const result = await parseCarDataWithGemini('https://example.com', 'content', 'Title', 'img.jpg');
+
+                expect(mockParseListingViaProxy).toHaveBeenCalledWith('https://example.com', 'content', 'Title', 'gemini-2.5-flash', {});
+                expect(mockValidateParseResponse).toHaveBeenCalledWith(proxyData);
+                expect(mockMapToCarListing).toHaveBeenCalledWith(proxyData, 'https://example.com', 'Title', 'img.jpg', {});
+                expect(result).toEqual(expect.objectContaining({title: 'Test Car'}));
+                expect(mockCreateGeminiClient).not.toHaveBeenCalled();
+                expect(mockRecordSuccess).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('other providers', () => {
+            it('should parse with the configured provider and record it in history', async () => {
+                const provider = createFixtureProvider({title: 'BMW M3', pricing: {price: 250000}});
+                mockGetActiveLlmProvider.mockResolvedValue({provider, model: 'llama3.1'});
+
+                await parseCarDataWithGemini('https://example.com', 'content', 'Title');
+
+                expect(provider.requests).toEqual([
+                    {prompt: 'mock prompt', schema: expect.objectContaining({type: 'object'}), model: 'llama3.1'},
+                ]);
+                expect(mockValidateParseResponse).toHaveBeenCalledWith({title: 'BMW M3', pricing: {price: 250000}});
+                expect(mockRecordSuccess).toHaveBeenCalledWith(
+                    'https://example.com',
+                    'mock prompt',
+                    expect.objectContaining({modelVersion: 'llama3.1'}),
+                    {provider: 'fixture', model: 'llama3.1'},
+                    null,
+                );
+                expect(mockCreateGeminiClient).not.toHaveBeenCalled();
+            });
+
+            it('should not use the Gemini proxy for other providers', async () => {
+                mockIsGeminiProxyAvailable.mockResolvedValue(true);
+                mockGetActiveLlmProvider.mockResolvedValue({provider: createFixtureProvider({title: 'BMW M3'}), model: 'llama3.1'});
+
+                await parseCarDataWithGemini('https://example.com', 'content', 'Title');
+
+                expect(mockParseListingViaProxy).not.toHaveBeenCalled();
+                expect(mockRecordSuccess).toHaveBeenCalled();
+            });
+
+            it('should use the given provider instead of the configured one', async () => {
+                const provider = createFixtureProvider({title: 'BMW M3'});
+
+                await parseCarDataWithGemini('https://example.com', 'content', 'Title', null, undefined, {
+                    provider,
+                    model: 'recorded',
+                });
+
+                expect(mockGetActiveLlmProvider).not.toHaveBeenCalled();
+                expect(provider.requests).toHaveLength(1);
+            });
+        });
+
+        describe('rule-based extraction', () => {
+            const otomotoUrl = 'https://www.otomoto.pl/osobowe/oferta/bmw-seria-5-ID6HEcgy.html';
+
+            it('should ask the provider only for fields the extractor could not fill', async () => {
+                const provider = createFixtureProvider({price: 1});
+                mockGetActiveLlmProvider.mockResolvedValue({provider, model: 'llama3.1'});
+
+                await parseCarDataWithGemini(otomotoUrl, 'content', 'Title', null, createMockOtomotoPageHtml());
+
+                expect(provider.requests[0].schema).toEqual({
+                    type: 'object',
+                    properties: {price: {type: 'number'}, evidence: {type: 'object'}},
+                });
+                expect(mockValidateParseResponse).toHaveBeenCalledWith(expect.objectContaining({
+                    title: 'BMW Seria 5 520d xDrive M Sport',
+                    price: 1,
+                    pricing: {currentPrice: 129900, currency: 'PLN'},
+                }));
+            });
+
+            it('should prefer extracted fields over the proxy response', async () => {
+                mockIsGeminiProxyAvailable.mockResolvedValue(true);
+                mockParseListingViaProxy.mockResolvedValue({
+                    title: 'Proxy title',
+                    pricing: {currentPrice: 1000, currency: 'PLN', negotiable: true},
+                });
+
+                await parseCarDataWithGemini(otomotoUrl, 'content', 'Title', null, createMockOtomotoPageHtml());
+
+                expect(mockValidateParseResponse).toHaveBeenCalledWith(expect.objectContaining({
+                    title: 'BMW Seria 5 520d xDrive M Sport',
+                    pricing: {currentPrice: 129900, currency: 'PLN', negotiable: true},
+                }));
+            });
+
+            it('should send the extracted fields to the proxy', async () => {
+                mockIsGeminiProxyAvailable.mockResolvedValue(true);
+                mockParseListingViaProxy.mockResolvedValue({});
+
+                await parseCarDataWithGemini(otomotoUrl, 'content', 'Title', null, createMockOtomotoPageHtml());
+
+                expect(mockParseListingViaProxy).toHaveBeenCalledWith(
+                    otomotoUrl,
+                    'content',
+                    'Title',
+                    'gemini-2.5-flash',
+                    expect.objectContaining({title: 'BMW Seria 5 520d xDrive M Sport'}),
+                );
+            });
+
+            it('should pass extracted fields to the mapper for their evidence', async () => {
+                const provider = createFixtureProvider({price: 1});
+                mockGetActiveLlmProvider.mockResolvedValue({provider, model: 'llama3.1'});
+
+                await parseCarDataWithGemini(otomotoUrl, 'content', 'Title', null, createMockOtomotoPageHtml());
+
+                expect(mockMapToCarListing).toHaveBeenCalledWith(
+                    expect.any(Object),
+                    otomotoUrl,
+                    'Title',
+                    null,
+                    expect.objectContaining({
+                        vehicle: expect.objectContaining({vin: 'WBAJA91010CE12345'}),
+                    }),
                 );
             });
+
+            it('should ignore HTML from marketplaces without an extractor', async () => {
+                const provider = createFixtureProvider({title: 'BMW M3'});
+                mockGetActiveLlmProvider.mockResolvedValue({provider, model: 'llama3.1'});
+
+                await parseCarDataWithGemini('https://example.com', 'content', 'Title', null, createMockOtomotoPageHtml());
+
+                expect(provider.requests[0].schema).toEqual(expect.objectContaining({
+                    properties: {title: {type: 'string'}, price: {type: 'number'}, evidence: {type: 'object'}},
+                }));
+                expect(mockValidateParseResponse).toHaveBeenCalledWith({title: 'BMW M3'});
+            });
         });
 
         describe('error handling', () => {
@@ -194,6 +361,7 @@ describe('Gemini Parse Service', () => {
                     'https://example.com',
                     'mock prompt',
                     'API Error',
+                    GEMINI_SOURCE,
                 );
             });
 
@@ -208,6 +376,7 @@ describe('Gemini Parse Service', () => {
                     'https://example.com',
                     'mock prompt',
                     'No response from AI',
+                    GEMINI_SOURCE,
                 );
             });
 
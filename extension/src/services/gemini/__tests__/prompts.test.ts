@@ -229,5 +229,39 @@ describe('Gemini Prompts', () => {
             expect(prompt).toContain('serwisowane');
         });
     });
+
+    describe('buildParsePrompt - mobile.de', () => {
+        const mobileDeUrl = 'https://suchen.mobile.de/fahrzeuge/details.html?id=412345678';
+
+        it('should include mobile.de rules for mobile.de URLs', () => {
+            const prompt = buildParsePrompt('BMW 320d Touring', mobileDeUrl, 'content');
+            expect(prompt).toContain('MOBILE.DE SPECIFIC RULES');
+        });
+
+        it('should NOT include mobile.de rules for other URLs', () => {
+            expect(buildParsePrompt('BMW', 'https://otomoto.pl/oferta/bmw-ID1.html', 'content'))
+                .not.toContain('MOBILE.DE SPECIFIC RULES');
+            expect(buildParsePrompt('BMW', 'https://www.automobile.de/angebot/1', 'content'))
+                .not.toContain('MOBILE.DE SPECIFIC RULES');
+        });
+
+        it('should map German fuel and transmission labels', () => {
+            const prompt = buildParsePrompt('BMW 320d Touring', mobileDeUrl, 'content');
+            expect(prompt).toContain('"Benzin" -> "Benzyna"');
+            expect(prompt).toContain('"Schaltgetriebe" -> "Manualna"');
+        });
+
+        it('should include EUR price and German origin rules', () => {
+            const prompt = buildParsePrompt('BMW 320d Touring', mobileDeUrl, 'content');
+            expect(prompt).toContain('currency "EUR"');
+            expect(prompt).toContain('originCountry to "DE"');
+            expect(prompt).toContain('Europe/Berlin');
+        });
+
+        it('should NOT include Facebook rules', () => {
+            const prompt = buildParsePrompt('BMW 320d Touring', mobileDeUrl, 'content');
+            expect(prompt).not.toContain('FACEBOOK COMMON RULES');
+        });
+    });
 });
 
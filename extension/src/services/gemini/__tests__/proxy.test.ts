@@ -0,0 +1,103 @@
+/**
+ * Tests for Gemini Proxy
+ */
+
+jest.mock('@/api/client', () => {
+    class ApiError extends Error {
+        constructor(message: string, public statusCode: number) {
+            super(message);
+        }
+    }
+    return {
+        ApiError,
+        parseListingRemote: jest.fn(),
+        refreshListingRemote: jest.fn(),
+    };
+});
+
+jest.mock('@/auth/oauthClient', () => ({
+    getToken: jest.fn(),
+}));
+
+import {ApiError, parseListingRemote, refreshListingRemote} from '@/api/client';
+import {getToken} from '@/auth/oauthClient';
+import {ListingStatus} from '@/types';
+import {RateLimitError} from '../errors';
+import {isGeminiProxyAvailable, parseListingViaProxy, refreshListingViaProxy} from '../proxy';
+
+const mockParseListingRemote = parseListingRemote as jest.MockedFunction<typeof parseListingRemote>;
+const mockRefreshListingRemote = refreshListingRemote as jest.MockedFunction<typeof refreshListingRemote>;
+const mockGetToken = getToken as jest.MockedFunction<typeof getToken>;
+
+describe('Gemini Proxy', () => {
+    const page = {url: 'https://otomoto.pl/oferta/bmw-320d-123', pageText: 'BMW 320d', pageTitle: 'BMW'};
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('isGeminiProxyAvailable', () => {
+        it('should be available when signed in', async () => {
+            mockGetToken.mockResolvedValue('token');
+
+            expect(await isGeminiProxyAvailable()).toBe(true);
+        });
+
+        it('should not be available without a token', async () => {
+            mockGetToken.mockResolvedValue(null);
+
+            expect(await isGeminiProxyAvailable()).toBe(false);
+        });
+    });
+
+    describe('parseListingViaProxy', () => {
+        it('should send the page to the backend', async () => {
+            mockParseListingRemote.mockResolvedValue({title: 'BMW 320d'});
+
+            const result = await parseListingViaProxy(page.url, page.pageText, page.pageTitle);
+
+            expect(result).toEqual({title: 'BMW 320d'});
+            expect(mockParseListingRemote).toHaveBeenCalledWith(page);
+        });
+
+        it('should send the fields already extracted from the page', async () => {
+            mockParseListingRemote.mockResolvedValue({});
+
+            await parseListingViaProxy(page.url, page.pageText, page.pageTitle, undefined, {title: 'BMW 320d'});
+
+            expect(mockParseListingRemote).toHaveBeenCalledWith({...page, extractedFields: {title: 'BMW 320d'}});
+        });
+
+        it('should map 429 responses to RateLimitError', async () => {
+            mockParseListingRemote.mockRejectedValue(new ApiError('Daily Gemini quota of 200 calls exceeded', 429));
+
+            await expect(parseListingViaProxy(page.url, page.pageText, page.pageTitle))
+                .rejects.toThrow(RateLimitError);
+        });
+
+        it('should rethrow other errors', async () => {
+            const error = new ApiError('Gemini API key is not configured', 400);
+            mockParseListingRemote.mockRejectedValue(error);
+
+            await expect(parseListingViaProxy(page.url, page.pageText, page.pageTitle)).rejects.toBe(error);
+        });
+    });
+
+    describe('refreshListingViaProxy', () => {
+        it('should return the backend refresh result', async () => {
+            const refreshResult = {price: 89900, currency: 'PLN', status: ListingStatus.ENDED};
+            mockRefreshListingRemote.mockResolvedValue(refreshResult);
+
+            expect(await refreshListingViaProxy(page.url, page.pageText, page.pageTitle, 'gemini-2.5-pro'))
+                .toEqual(refreshResult);
+            expect(mockRefreshListingRemote).toHaveBeenCalledWith({...page, model: 'gemini-2.5-pro'});
+        });
+
+        it('should map 429 responses to RateLimitError', async () => {
+            mockRefreshListingRemote.mockRejectedValue(new ApiError('Rate limited', 429));
+
+            await expect(refreshListingViaProxy(page.url, page.pageText, page.pageTitle))
+                .rejects.toThrow(RateLimitError);
+        });
+    });
+});
@@ -14,6 +14,15 @@ jest.mock('../history', () => ({
     recordError: jest.fn().mockResolvedValue(undefined),
 }));
 
+jest.mock('../proxy', () => ({
+    isGeminiProxyAvailable: jest.fn(),
+    refreshListingViaProxy: jest.fn(),
+}));
+
+jest.mock('../../llm/registry', () => ({
+    getActiveLlmProvider: jest.fn(),
+}));
+
 // Mock schemas module to avoid @google/genai import
 jest.mock('../schemas', () => ({
     refreshSchema: {
@@ -21,8 +30,10 @@ jest.mock('../schemas', () => ({
         properties: {
             price: {type: 'number'},
             currency: {type: 'string'},
-            status: {type: 'string'},
+            isAvailable: {type: 'boolean'},
+            isSold: {type: 'boolean'},
         },
+        required: ['price', 'currency', 'isAvailable'],
     },
     fullCarListingSchema: {},
 }));
@@ -31,17 +42,25 @@ import {refreshListingWithGemini} from '../refresh';
 import {createGeminiClient} from '../client';
 import {recordError, recordSuccess} from '../history';
 import {RateLimitError} from '../errors';
+import {isGeminiProxyAvailable, refreshListingViaProxy} from '../proxy';
+import {createFixtureProvider, createGeminiProvider, getActiveLlmProvider} from '../../llm';
 import {ListingStatus} from '@/types';
+import {createMockOtomotoPageHtml} from '@/test-utils/mockData';
 
 const mockCreateGeminiClient = createGeminiClient as jest.MockedFunction<typeof createGeminiClient>;
 const mockRecordSuccess = recordSuccess as jest.MockedFunction<typeof recordSuccess>;
 const mockRecordError = recordError as jest.MockedFunction<typeof recordError>;
+const mockIsGeminiProxyAvailable = isGeminiProxyAvailable as jest.MockedFunction<typeof isGeminiProxyAvailable>;
+const mockRefreshListingViaProxy = refreshListingViaProxy as jest.MockedFunction<typeof refreshListingViaProxy>;
+const mockGetActiveLlmProvider = getActiveLlmProvider as jest.MockedFunction<typeof getActiveLlmProvider>;
 
 describe('Gemini Refresh Service', () => {
     const mockGenerateContent = jest.fn();
 
     beforeEach(() => {
         jest.clearAllMocks();
+        mockIsGeminiProxyAvailable.mockResolvedValue(false);
+        mockGetActiveLlmProvider.mockResolvedValue({provider: createGeminiProvider(), model: 'gemini-2.5-flash'});
 
         // Setup default mock for Gemini client
         mockCreateGeminiClient.mockResolvedValue({
@@ -121,6 +140,25 @@ describe('Gemini Refresh Service', () => {
                     testUrl,
                     expect.any(String),
                     expect.objectContaining({text: expect.any(String)}),
+                    {provider: 'gemini', model: 'gemini-2.5-flash'},
+                    null,
+                );
+            });
+
+            it('should record token usage reported by Gemini', async () => {
+                mockGenerateContent.mockResolvedValue({
+                    text: JSON.stringify({price: 150000, currency: 'PLN', isAvailable: true, isSold: false}),
+                    usageMetadata: {promptTokenCount: 1500, candidatesTokenCount: 40, thoughtsTokenCount: 10},
+                });
+
+                await refreshListingWithGemini(testUrl, testPageText, testPageTitle);
+
+                expect(mockRecordSuccess).toHaveBeenCalledWith(
+                    testUrl,
+                    expect.any(String),
+                    expect.any(Object),
+                    {provider: 'gemini', model: 'gemini-2.5-flash'},
+                    {promptTokens: 1500, responseTokens: 50},
                 );
             });
 
@@ -153,6 +191,37 @@ describe('Gemini Refresh Service', () => {
                 expect(result.currency).toBe('PLN');
             });
 
+            it('should default currency to the marketplace currency', async () => {
+                mockGenerateContent.mockResolvedValue({
+                    text: JSON.stringify({
+                        price: 24900,
+                        isAvailable: true,
+                        isSold: false,
+                    }),
+                });
+
+                const result = await refreshListingWithGemini(
+                    'https://suchen.mobile.de/fahrzeuge/details.html?id=412345678', testPageText, testPageTitle,
+                );
+
+                expect(result.currency).toBe('EUR');
+            });
+
+            it('should map currency symbols to codes', async () => {
+                mockGenerateContent.mockResolvedValue({
+                    text: JSON.stringify({
+                        price: 24900,
+                        currency: '€',
+                        isAvailable: true,
+                        isSold: false,
+                    }),
+                });
+
+                const result = await refreshListingWithGemini(testUrl, testPageText, testPageTitle);
+
+                expect(result.currency).toBe('EUR');
+            });
+
             it('should return 0 price when price is invalid', async () => {
                 mockGenerateContent.mockResolvedValue({
                     text: JSON.stringify({
@@ -210,6 +279,115 @@ describe('Gemini Refresh Service', () => {
             });
         });
 
+        describe('backend proxy', () => {
+            it('should refresh through the backend when signed in', async () => {
+                const proxyResult = {price: 145000, currency: 'PLN', status: ListingStatus.ACTIVE};
+                mockIsGeminiProxyAvailable.mockResolvedValue(true);
+                mockRefreshListingViaProxy.mockResolvedValue(proxyResult);
+
+                const result = await refreshListingWithGemini(testUrl, testPageText, testPageTitle);
+
+                expect(result).toEqual(proxyResult);
+                expect(mockRefreshListingViaProxy).toHaveBeenCalledWith(testUrl, testPageText, testPageTitle, 'gemini-2.5-flash');
+                expect(mockCreateGeminiClient).not.toHaveBeenCalled();
+                expect(mockRecordSuccess).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('other providers', () => {
+            it('should refresh with the configured provider', async () => {
+                const provider = createFixtureProvider({price: 98000, currency: 'PLN', isAvailable: false});
+                mockIsGeminiProxyAvailable.mockResolvedValue(true);
+                mockGetActiveLlmProvider.mockResolvedValue({provider, model: 'llama3.1'});
+
+                const result = await refreshListingWithGemini(testUrl, testPageText, testPageTitle);
+
+                expect(result).toEqual({price: 98000, currency: 'PLN', status: ListingStatus.ENDED});
+                expect(provider.requests).toHaveLength(1);
+                expect(mockRefreshListingViaProxy).not.toHaveBeenCalled();
+                expect(mockRecordSuccess).toHaveBeenCalledWith(
+                    testUrl,
+                    expect.any(String),
+                    expect.any(Object),
+                    {provider: 'fixture', model: 'llama3.1'},
+                    null,
+                );
+            });
+
+            it('should rethrow provider rate limit errors', async () => {
+                const provider = createFixtureProvider(() => {
+                    throw new RateLimitError('LLM server rate limit exceeded (HTTP 429)');
+                });
+                mockGetActiveLlmProvider.mockResolvedValue({provider, model: 'llama3.1'});
+
+                await expect(
+                    refreshListingWithGemini(testUrl, testPageText, testPageTitle),
+                ).rejects.toThrow(RateLimitError);
+                expect(mockRecordError).toHaveBeenCalledWith(
+                    testUrl,
+                    expect.any(String),
+                    'LLM server rate limit exceeded (HTTP 429)',
+                    {provider: 'fixture', model: 'llama3.1'},
+                );
+            });
+        });
+
+        describe('rule-based extraction', () => {
+            it('should refresh without a model call when the page states price and availability', async () => {
+                mockIsGeminiProxyAvailable.mockResolvedValue(true);
+
+                const result = await refreshListingWithGemini(
+                    testUrl, testPageText, testPageTitle, createMockOtomotoPageHtml(),
+                );
+
+                expect(result).toEqual({price: 129900, currency: 'PLN', status: ListingStatus.ACTIVE});
+                expect(mockGetActiveLlmProvider).not.toHaveBeenCalled();
+                expect(mockRefreshListingViaProxy).not.toHaveBeenCalled();
+                expect(mockCreateGeminiClient).not.toHaveBeenCalled();
+            });
+
+            it('should end sold listings without a model call', async () => {
+                const html = createMockOtomotoPageHtml({
+                    jsonLd: [{
+                        '@type': 'Car',
+                        offers: {price: 99000, priceCurrency: 'PLN', availability: 'https://schema.org/SoldOut'},
+                    }],
+                });
+
+                const result = await refreshListingWithGemini(testUrl, testPageText, testPageTitle, html);
+
+                expect(result.status).toBe(ListingStatus.ENDED);
+                expect(mockGetActiveLlmProvider).not.toHaveBeenCalled();
+            });
+
+            it('should ask the provider only for availability when the page lacks it', async () => {
+                const provider = createFixtureProvider({isAvailable: false, isSold: true});
+                mockGetActiveLlmProvider.mockResolvedValue({provider, model: 'llama3.1'});
+
+                const result = await refreshListingWithGemini(
+                    testUrl, testPageText, testPageTitle, createMockOtomotoPageHtml({jsonLd: []}),
+                );
+
+                expect(provider.requests[0].schema).toEqual({
+                    type: 'object',
+                    properties: {isAvailable: {type: 'boolean'}, isSold: {type: 'boolean'}},
+                    required: ['isAvailable'],
+                });
+                expect(result).toEqual({price: 129900, currency: 'PLN', status: ListingStatus.ENDED});
+            });
+
+            it('should keep the extracted price over the proxy response', async () => {
+                mockIsGeminiProxyAvailable.mockResolvedValue(true);
+                mockRefreshListingViaProxy.mockResolvedValue({price: 1000, currency: 'PLN', status: ListingStatus.ACTIVE});
+
+                const result = await refreshListingWithGemini(
+                    testUrl, testPageText, testPageTitle, createMockOtomotoPageHtml({jsonLd: []}),
+                );
+
+                expect(result).toEqual({price: 129900, currency: 'PLN', status: ListingStatus.ACTIVE});
+            });
+        });
+
         describe('error handling', () => {
             it('should record error in history when API fails', async () => {
                 mockGenerateContent.mockRejectedValue(new Error('Network error'));
@@ -222,6 +400,7 @@ describe('Gemini Refresh Service', () => {
                     testUrl,
                     expect.any(String),
                     'Network error',
+                    {provider: 'gemini', model: 'gemini-2.5-flash'},
                 );
             });
 
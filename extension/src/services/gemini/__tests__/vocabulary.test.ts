@@ -0,0 +1,63 @@
+/**
+ * Tests for Listing Vocabulary
+ */
+
+import {normalizeCurrency, normalizeFuelType, normalizeTransmissionType} from '../vocabulary';
+
+describe('Listing Vocabulary', () => {
+    describe('normalizeFuelType', () => {
+        it('should map German fuel labels', () => {
+            expect(normalizeFuelType('Benzin')).toBe('Benzyna');
+            expect(normalizeFuelType('Elektro')).toBe('Elektryczny');
+            expect(normalizeFuelType('Hybrid (Benzin/Elektro)')).toBe('Hybryda');
+            expect(normalizeFuelType('Autogas (LPG)')).toBe('Benzyna+LPG');
+            expect(normalizeFuelType('Erdgas (CNG)')).toBe('Benzyna+CNG');
+        });
+
+        it('should ignore case and surrounding whitespace', () => {
+            expect(normalizeFuelType(' BENZIN ')).toBe('Benzyna');
+        });
+
+        it('should keep unknown and canonical labels', () => {
+            expect(normalizeFuelType('Diesel')).toBe('Diesel');
+            expect(normalizeFuelType('Benzyna')).toBe('Benzyna');
+            expect(normalizeFuelType('Petrol')).toBe('Petrol');
+        });
+
+        it('should return null for empty values', () => {
+            expect(normalizeFuelType(null)).toBeNull();
+            expect(normalizeFuelType('')).toBeNull();
+        });
+    });
+
+    describe('normalizeTransmissionType', () => {
+        it('should map German transmission labels', () => {
+            expect(normalizeTransmissionType('Automatik')).toBe('Automatyczna');
+            expect(normalizeTransmissionType('Halbautomatik')).toBe('Automatyczna');
+            expect(normalizeTransmissionType('Schaltgetriebe')).toBe('Manualna');
+        });
+
+        it('should keep unknown labels', () => {
+            expect(normalizeTransmissionType('Manualna')).toBe('Manualna');
+        });
+    });
+
+    describe('normalizeCurrency', () => {
+        it('should map currency symbols to codes', () => {
+            expect(normalizeCurrency('€')).toBe('EUR');
+            expect(normalizeCurrency('Euro')).toBe('EUR');
+            expect(normalizeCurrency('zł')).toBe('PLN');
+        });
+
+        it('should upper-case currency codes', () => {
+            expect(normalizeCurrency('eur')).toBe('EUR');
+            expect(normalizeCurrency('PLN')).toBe('PLN');
+        });
+
+        it('should return null for missing values', () => {
+            expect(normalizeCurrency(undefined)).toBeNull();
+            expect(normalizeCurrency('  ')).toBeNull();
+            expect(normalizeCurrency(42)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Field Evidence
+ *
+ * Source snippets and confidence for key vehicle fields, so a wrong VIN,
+ * mileage or engine capacity can be traced back to the page text it came
+ * from. Values read by the marketplace extractor count as certain.
+ */
+
+import {EvidenceField, FieldEvidence, VehicleEvidence} from '@/types';
+import {isFilled} from '../extraction/fields';
+import type {ExtractedFields} from '../extraction/types';
+
+/** Fields below this confidence are flagged for review */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** Longest snippet kept per field */
+const MAX_SNIPPET_LENGTH = 200;
+
+/** Dot path of each evidence field in the vehicle data */
+export const EVIDENCE_FIELD_PATHS: Record<EvidenceField, string> = {
+    vin: 'vin',
+    productionYear: 'productionYear',
+    mileage: 'mileage.value',
+    engineCapacity: 'engine.capacityCc',
+    enginePower: 'engine.powerHp',
+    fuelType: 'engine.fuelType',
+};
+
+function readPath(data: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        data,
+    );
+}
+
+/**
+ * Read one field's evidence from the model response
+ *
+ * @returns The evidence, or null when the model gave no usable confidence
+ */
+function readModelEvidence(raw: unknown): FieldEvidence | null {
+    if (!raw || typeof raw !== 'object') {
+        return null;
+    }
+
+    const {snippet, confidence} = raw as Record<string, unknown>;
+    if (typeof confidence !== 'number' || !Number.isFinite(confidence)) {
+        return null;
+    }
+    return {
+        snippet: typeof snippet === 'string' && snippet.trim() ? snippet.trim().slice(0, MAX_SNIPPET_LENGTH) : null,
+        confidence: Math.min(1, Math.max(0, confidence)),
+        source: 'ai',
+    };
+}
+
+/**
+ * Build evidence for the key fields of a mapped vehicle
+ *
+ * @param raw - The `evidence` object of the model response
+ * @param vehicle - The mapped vehicle (fields without a value get no evidence)
+ * @param extracted - Fields read from page markup, which override the model
+ * @returns The evidence, or undefined when there is none
+ */
+export function buildVehicleEvidence(
+    raw: unknown,
+    vehicle: object,
+    extracted: ExtractedFields = {},
+): VehicleEvidence | undefined {
+    const evidence: VehicleEvidence = {};
+
+    for (const [field, path] of Object.entries(EVIDENCE_FIELD_PATHS) as [EvidenceField, string][]) {
+        if (!isFilled(readPath(vehicle, path))) {
+            continue;
+        }
+
+        if (isFilled(readPath(extracted.vehicle, path))) {
+            evidence[field] = {snippet: null, confidence: 1, source: 'page'};
+            continue;
+        }
+
+        const fieldEvidence = readModelEvidence(readPath(raw, field));
+        if (fieldEvidence) {
+            evidence[field] = fieldEvidence;
+        }
+    }
+
+    return Object.keys(evidence).length > 0 ? evidence : undefined;
+}
+
+/**
+ * Fields whose confidence is low enough to need a review
+ */
+export function getLowConfidenceFields(evidence: VehicleEvidence | undefined): EvidenceField[] {
+    return (Object.keys(EVIDENCE_FIELD_PATHS) as EvidenceField[]).filter((field) => {
+        const fieldEvidence = evidence?.[field];
+        return !!fieldEvidence && fieldEvidence.confidence < LOW_CONFIDENCE_THRESHOLD;
+    });
+}
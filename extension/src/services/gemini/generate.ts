@@ -0,0 +1,59 @@
+/**
+ * Structured Generation
+ *
+ * Runs a prompt on the LLM provider selected in settings and records the
+ * call in the Gemini history with the provider and model that handled it
+ * and the tokens it used.
+ */
+
+import {getActiveLlmProvider, readTokenUsage} from '../llm';
+import type {ActiveLlmProvider} from '../llm';
+import {recordError, recordSuccess} from './history';
+
+/**
+ * Generate and parse JSON matching the schema
+ *
+ * @param url - Listing URL (recorded in history)
+ * @param prompt - Prompt text
+ * @param schema - Response schema
+ * @param active - Provider to use, the one configured in settings by default
+ * @throws RateLimitError if the provider rate limit is hit
+ * @throws Error for other failures
+ */
+export async function generateStructuredOutput(
+    url: string,
+    prompt: string,
+    schema: object,
+    active?: ActiveLlmProvider,
+): Promise<Record<string, unknown>> {
+    const {provider, model} = active ?? await getActiveLlmProvider();
+    const source = {provider: provider.id, model};
+
+    let response;
+    try {
+        response = await provider.generateStructured({prompt, schema, model});
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await recordError(url, prompt, errorMessage, source);
+        throw error;
+    }
+
+    let data;
+    try {
+        data = JSON.parse(response.text);
+    } catch (parseError) {
+        const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
+        await recordError(url, prompt, `JSON parse error: ${errorMessage}`, source);
+        throw parseError;
+    }
+
+    // Build response object for logging
+    await recordSuccess(url, prompt, {
+        text: response.text,
+        parsedData: data,
+        usageMetadata: response.usage,
+        modelVersion: response.modelVersion,
+    }, source, readTokenUsage(response.usage));
+
+    return data;
+}
@@ -1,11 +1,15 @@
 /**
  * Gemini Call History Tracking
  *
- * Records successful and failed Gemini API calls for debugging and analytics.
+ * Records successful and failed LLM calls for debugging and analytics,
+ * including the provider and model that handled each call and, for
+ * successful calls, the tokens used and their estimated cost.
  */
 
-import {GeminiCallHistoryEntry} from '@/types';
+import {GeminiCallHistoryEntry, LlmProviderId} from '@/types';
 import {recordGeminiCall} from '../settings';
+import {toUsageFields} from '../llm/usage';
+import type {TokenUsage} from '../llm/usage';
 
 /**
  * Format data as JSON for logging
@@ -18,6 +22,14 @@ export function formatJsonResponse(data: unknown): string {
     }
 }
 
+/**
+ * Provider and model that handled a call
+ */
+export interface LlmCallSource {
+    provider: LlmProviderId;
+    model: string;
+}
+
 /**
  * Record a successful Gemini API call
  */
@@ -25,6 +37,8 @@ export async function recordSuccess(
     url: string,
     prompt: string,
     rawResponse: unknown,
+    source?: LlmCallSource,
+    usage: TokenUsage | null = null,
 ): Promise<void> {
     const entry: GeminiCallHistoryEntry = {
         id: crypto.randomUUID(),
@@ -33,6 +47,8 @@ export async function recordSuccess(
         rawResponse: formatJsonResponse(rawResponse),
         status: 'success',
         timestamp: new Date().toISOString(),
+        ...source,
+        ...(source ? toUsageFields(source.model, usage) : {}),
     };
     await recordGeminiCall(entry);
 }
@@ -44,6 +60,7 @@ export async function recordError(
     url: string,
     prompt: string,
     errorResponse: string,
+    source?: LlmCallSource,
 ): Promise<void> {
     const entry: GeminiCallHistoryEntry = {
         id: crypto.randomUUID(),
@@ -52,6 +69,7 @@ export async function recordError(
         error: errorResponse,
         status: 'error',
         timestamp: new Date().toISOString(),
+        ...source,
     };
     await recordGeminiCall(entry);
 }
@@ -1,18 +1,24 @@
 /**
  * Gemini Service - Barrel Export
  *
- * Unified Gemini API interface for car listing extraction.
- * All Gemini calls in the application should go through this service.
+ * Unified interface for car listing extraction. All LLM calls in the
+ * application should go through this service; the model itself runs on
+ * the provider selected in settings (see services/llm).
  */
 
 // Main API functions
 export {parseCarDataWithGemini} from './parse';
 export {refreshListingWithGemini} from './refresh';
 export type {RefreshResult} from './refresh';
+export {generateStructuredOutput} from './generate';
+
+// Field evidence
+export {buildVehicleEvidence, EVIDENCE_FIELD_PATHS, getLowConfidenceFields, LOW_CONFIDENCE_THRESHOLD} from './evidence';
 
 // Error types
 export {RateLimitError, isRateLimitError} from './errors';
 
 // Client (for advanced use cases)
 export {createGeminiClient} from './client';
+export {isGeminiProxyAvailable} from './proxy';
 
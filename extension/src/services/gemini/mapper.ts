@@ -5,7 +5,11 @@
  */
 
 import {CarListing, ListingStatus, Location, Seller, Vehicle} from '@/types';
+import {getMarketplaceForUrl, MarketplaceConfig} from '@/config/marketplaces';
 import {cleanVin, normalizeUrl} from '@/utils/formatters';
+import type {ExtractedFields} from '../extraction/types';
+import {buildVehicleEvidence} from './evidence';
+import {normalizeCurrency, normalizeFuelType, normalizeTransmissionType} from './vocabulary';
 
 /** Schema version for data compatibility */
 const SCHEMA_VERSION = '1.0.0';
@@ -27,8 +31,11 @@ export function generateListingId(vin: string | undefined, normalizedUrl: string
 
 /**
  * Build Vehicle object from raw Gemini response
+ *
+ * Fuel and transmission labels are mapped to the stored vocabulary; the
+ * marketplace's origin country fills a missing registration.originCountry.
  */
-function buildVehicle(data: Record<string, unknown>): Vehicle {
+function buildVehicle(data: Record<string, unknown>, marketplace: MarketplaceConfig | null): Vehicle {
     const vehicle = data.vehicle as Record<string, unknown> | undefined;
     const validatedVin = cleanVin(vehicle?.vin as string | undefined);
 
@@ -47,7 +54,7 @@ function buildVehicle(data: Record<string, unknown>): Vehicle {
         },
         engine: {
             capacityCc: ((vehicle?.engine as Record<string, unknown>)?.capacityCc as number) || null,
-            fuelType: ((vehicle?.engine as Record<string, unknown>)?.fuelType as string) || null,
+            fuelType: normalizeFuelType((vehicle?.engine as Record<string, unknown>)?.fuelType as string) || null,
             powerKw: ((vehicle?.engine as Record<string, unknown>)?.powerKw as number) || null,
             powerHp: ((vehicle?.engine as Record<string, unknown>)?.powerHp as number) || null,
             engineCode: ((vehicle?.engine as Record<string, unknown>)?.engineCode as string) || null,
@@ -55,7 +62,7 @@ function buildVehicle(data: Record<string, unknown>): Vehicle {
             hybridType: ((vehicle?.engine as Record<string, unknown>)?.hybridType as string) || null,
         },
         drivetrain: {
-            transmissionType: ((vehicle?.drivetrain as Record<string, unknown>)?.transmissionType as string) || null,
+            transmissionType: normalizeTransmissionType((vehicle?.drivetrain as Record<string, unknown>)?.transmissionType as string) || null,
             transmissionSubtype: ((vehicle?.drivetrain as Record<string, unknown>)?.transmissionSubtype as string) || null,
             gearsCount: ((vehicle?.drivetrain as Record<string, unknown>)?.gearsCount as number) || null,
             driveType: ((vehicle?.drivetrain as Record<string, unknown>)?.driveType as string) || null,
@@ -73,7 +80,8 @@ function buildVehicle(data: Record<string, unknown>): Vehicle {
         },
         registration: {
             plateNumber: ((vehicle?.registration as Record<string, unknown>)?.plateNumber as string) || null,
-            originCountry: ((vehicle?.registration as Record<string, unknown>)?.originCountry as string) || null,
+            originCountry: ((vehicle?.registration as Record<string, unknown>)?.originCountry as string)
+                || marketplace?.originCountry || null,
             registeredInCountryCode: ((vehicle?.registration as Record<string, unknown>)?.registeredInCountryCode as string) || null,
         },
     };
@@ -107,16 +115,22 @@ function buildSeller(data: Record<string, unknown>): Seller {
 
 /**
  * Transform raw Gemini response into a CarListing object
+ *
+ * Fields in `extracted` were read from page markup; their evidence is
+ * recorded as certain instead of the model's.
  */
 export function mapToCarListing(
     data: Record<string, unknown>,
     url: string,
     pageTitle: string,
     scrapedImageUrl?: string | null,
+    extracted: ExtractedFields = {},
 ): Partial<CarListing> {
     const pricing = data.pricing as Record<string, unknown>;
     const dates = data.dates as Record<string, unknown> | undefined;
-    const vehicle = buildVehicle(data);
+    const marketplace = getMarketplaceForUrl(url);
+    const vehicle = buildVehicle(data, marketplace);
+    const vehicleEvidence = buildVehicleEvidence(data.evidence, vehicle, extracted);
     const location = buildLocation(data);
     const seller = buildSeller(data);
 
@@ -127,6 +141,7 @@ export function mapToCarListing(
     const urlObj = new URL(url);
     const platform = urlObj.hostname;
     const now = new Date().toISOString();
+    const currency = normalizeCurrency(pricing.currency) ?? marketplace?.currency ?? pricing.currency as string;
 
     return {
         id,
@@ -140,17 +155,18 @@ export function mapToCarListing(
         title: (data.title as string) || pageTitle,
         thumbnailUrl: scrapedImageUrl || 'https://placehold.co/600x400?text=No+Image',
         currentPrice: pricing.currentPrice as number,
-        currency: pricing.currency as string,
+        currency,
         originalPrice: (pricing.originalPrice as number) || null,
         negotiable: (pricing.negotiable as boolean) ?? null,
         priceHistory: [
             {
                 date: now,
                 price: pricing.currentPrice as number,
-                currency: pricing.currency as string,
+                currency,
             },
         ],
         vehicle,
+        ...(vehicleEvidence ? {vehicleEvidence} : {}),
         location,
         seller,
         status: ListingStatus.ACTIVE,
@@ -1,25 +1,38 @@
 /**
  * Gemini Parse Service
  *
- * Extracts full car listing data from webpage content using Gemini AI.
+ * Extracts full car listing data from webpage content using the configured
+ * LLM provider (Gemini by default). Signed-in Gemini users go through the
+ * backend proxy; other providers and local mode call the model directly.
+ *
+ * When the page HTML is available, the marketplace's rule-based extractor
+ * runs first and the model is only asked for the fields it could not fill.
+ * The model also reports a source snippet and confidence for key vehicle
+ * fields (see evidence.ts).
  */
 
 import {CarListing} from '@/types';
-import {createGeminiClient} from './client';
-import {carListingSchema} from './schemas';
+import {getActiveLlmProvider} from '../llm';
+import type {ActiveLlmProvider} from '../llm';
+import {extractListing, mergeExtractedFields, missingFieldsSchema} from '../extraction';
+import {carListingSchema, withEvidenceSchema} from './schemas';
 import {buildParsePrompt} from './prompts';
 import {validateParseResponse} from './validation';
 import {mapToCarListing} from './mapper';
-import {recordError, recordSuccess} from './history';
+import {generateStructuredOutput} from './generate';
+import {isGeminiProxyAvailable, parseListingViaProxy} from './proxy';
 
 /**
- * Parse car listing data from webpage content using Gemini AI.
+ * Parse car listing data from webpage content using the configured LLM provider.
  *
  * @param url - The URL of the listing page
  * @param pageText - Text content extracted from the page
  * @param pageTitle - Title of the page
  * @param scrapedImageUrl - Optional image URL scraped from the page
+ * @param pageHtml - Optional page HTML for the rule-based extractor
+ * @param activeProvider - Provider to use, the one configured in settings by default
  * @returns Partial car listing data
+ * @throws RateLimitError if the provider rate limit is hit
  * @throws Error if parsing fails or validation fails
  */
 export async function parseCarDataWithGemini(
@@ -27,6 +40,8 @@ export async function parseCarDataWithGemini(
     pageText: string,
     pageTitle: string,
     scrapedImageUrl?: string | null,
+    pageHtml?: string,
+    activeProvider?: ActiveLlmProvider,
 ): Promise<Partial<CarListing>> {
     // Input validation
     if (!url || typeof url !== 'string') {
@@ -39,47 +54,27 @@ export async function parseCarDataWithGemini(
         throw new Error('Page title is missing or invalid');
     }
 
-    const ai = await createGeminiClient();
-    const prompt = buildParsePrompt(pageTitle, url, pageText);
-
-    let response;
-    try {
-        response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: carListingSchema,
-            },
-        });
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        await recordError(url, prompt, errorMessage);
-        throw error;
-    }
-
-    if (!response.text) {
-        const errorMessage = 'No response from AI';
-        await recordError(url, prompt, errorMessage);
-        throw new Error(errorMessage);
+    const extracted = pageHtml ? extractListing(url, pageHtml)?.fields ?? {} : {};
+    const schema = missingFieldsSchema(carListingSchema, extracted);
+    if (!schema) {
+        validateParseResponse(extracted);
+        return mapToCarListing(extracted, url, pageTitle, scrapedImageUrl, extracted);
     }
 
-    const data = JSON.parse(response.text);
+    const active = activeProvider ?? await getActiveLlmProvider();
 
-    // Build response object for logging
-    const fullResponse = {
-        text: response.text,
-        parsedData: data,
-        // @ts-ignore - SDK may expose these properties
-        usageMetadata: response.usageMetadata || null,
-        // @ts-ignore
-        modelVersion: response.modelVersion || 'gemini-2.5-flash',
-    };
-
-    await recordSuccess(url, prompt, fullResponse);
+    // The backend records history and stats for proxied Gemini calls.
+    // It narrows its schema to the same missing fields; extracted fields take precedence.
+    let data;
+    if (active.provider.id === 'gemini' && await isGeminiProxyAvailable()) {
+        data = await parseListingViaProxy(url, pageText, pageTitle, active.model, extracted);
+    } else {
+        const prompt = buildParsePrompt(pageTitle, url, pageText);
+        data = await generateStructuredOutput(url, prompt, withEvidenceSchema(schema), active);
+    }
 
     // Validate and map response
-    validateParseResponse(data);
-    return mapToCarListing(data, url, pageTitle, scrapedImageUrl);
+    const merged = mergeExtractedFields(data, extracted);
+    validateParseResponse(merged);
+    return mapToCarListing(merged, url, pageTitle, scrapedImageUrl, extracted);
 }
-
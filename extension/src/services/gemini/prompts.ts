@@ -20,6 +20,7 @@ export function buildParsePrompt(
         url.includes('facebook.com/commerce/listing/');
     const isFacebookGroup = /facebook\.com\/groups\/\d+\/(permalink|posts)\/\d+/.test(url);
     const isFacebook = isFacebookMarketplace || isFacebookGroup;
+    const isMobileDe = /\/\/([\w-]+\.)*mobile\.de\//.test(url);
 
     const facebookMarketplaceSection = isFacebookMarketplace ? `
 FACEBOOK MARKETPLACE SPECIFIC RULES (apply when URL contains facebook.com/marketplace/item/ or facebook.com/commerce/listing/):
@@ -116,6 +117,41 @@ FACEBOOK COMMON RULES (apply to all Facebook URLs):
 3. COUNTRY: Set countryCode to "PL" for Polish listings (Polish language/currency).
 ` : '';
 
+    const mobileDeSection = isMobileDe ? `
+MOBILE.DE SPECIFIC RULES (apply when URL is on mobile.de - German listing, German labels):
+1. TECHNICAL DATA LABELS ("Technische Daten"):
+   - "Erstzulassung" = first registration as MM/YYYY (e.g., "03/2019") -> firstRegistrationYear: 2019
+   - "Baujahr" = production year; if missing, leave productionYear null (do not copy Erstzulassung)
+   - "Kilometerstand" = mileage (e.g., "85.000 km" -> 85000; "." is a thousands separator)
+   - "Hubraum" = engine capacity in ccm (e.g., "1.995 cm³" -> 1995)
+   - "Leistung" = power as "110 kW (150 PS)" -> powerKw: 110, powerHp: 150 (PS = HP)
+   - "Kraftstoffart" = fuel type, "Getriebe" = transmission, "Antriebsart" = drive type
+   - "Schadstoffklasse" = emission standard (e.g., "Euro6d-TEMP" -> "Euro 6d-TEMP")
+   - "Außenfarbe" = exterior color, "Innenausstattung" = interior/upholstery (e.g., "Vollleder" = full leather)
+   - "Fahrzeugnummer" is the dealer's stock number, NOT the VIN; the VIN is labelled "FIN"
+
+2. VOCABULARY - output these values instead of the German labels:
+   - Kraftstoffart: "Benzin" -> "Benzyna", "Diesel" -> "Diesel", "Elektro" -> "Elektryczny",
+     "Hybrid (Benzin/Elektro)" / "Hybrid (Diesel/Elektro)" -> "Hybryda", "Plug-in-Hybrid" -> "Hybryda Plug-in",
+     "Autogas (LPG)" -> "Benzyna+LPG", "Erdgas (CNG)" -> "Benzyna+CNG"
+   - Getriebe: "Automatik" / "Halbautomatik" -> "Automatyczna", "Schaltgetriebe" -> "Manualna"
+   - Antriebsart: "Allrad" -> "AWD", "Frontantrieb" -> "FWD", "Heckantrieb" -> "RWD"
+
+3. CONDITION: "Unfallfrei" = accidentFreeDeclared: true, "Scheckheftgepflegt" = serviceHistoryDeclared: true,
+   "Neufahrzeug" = isNew: true, "Gebrauchtfahrzeug" = isNew: false.
+
+4. PRICE: Format "24.900 €" -> 24900, currency "EUR". "VB" (Verhandlungsbasis) = negotiable: true.
+   If both "Brutto" and "Netto" prices are shown, use the Brutto (gross) price.
+   A crossed-out higher price or "Preis gesenkt" = originalPrice.
+
+5. ORIGIN: The vehicle comes from Germany - set registration.originCountry to "DE" and location.countryCode to "DE".
+
+6. SELLER: "Händler" = dealer (isCompany: true, type: "dealer"), "Privatanbieter" = private seller (isCompany: false, type: "private").
+
+7. DATES: "Inserat online seit" followed by the date = postedAt. Dates are in Europe/Berlin timezone (CET/CEST),
+   use offset +01:00 for winter or +02:00 for summer.
+` : '';
+
     return `
 Extract car listing data from this webpage into the JSON schema.
 
@@ -140,7 +176,9 @@ Key extraction rules:
 6. Origin country (registration.originCountry): The country the vehicle was IMPORTED FROM or originally came from - NOT the current location.
 7. Condition fields: Only set true/false if EXPLICITLY stated in listing, otherwise null.
 8. Infer make/model from URL or title if not explicitly stated.
-${facebookCommonSection}${facebookMarketplaceSection}${facebookGroupSection}
+9. EVIDENCE: For VIN, production year, mileage, engine capacity, engine power and fuel type, quote the exact page text each value was read from in evidence.<field>.snippet and rate your confidence from 0 to 1.
+   Use a confidence below 0.6 when the value was inferred (e.g. from the title), converted from suspicious data (e.g. Facebook "-1.0 L") or conflicts with other text on the page.
+${facebookCommonSection}${facebookMarketplaceSection}${facebookGroupSection}${mobileDeSection}
   `;
 }
 
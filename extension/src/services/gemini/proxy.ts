@@ -0,0 +1,65 @@
+/**
+ * Gemini Proxy
+ *
+ * While signed in, Gemini calls go through the backend (/api/ai/*), which
+ * holds the encrypted API key, enforces the daily quota and records the
+ * call history. Local mode keeps calling Gemini directly (see ./client).
+ */
+
+import {ApiError, parseListingRemote, refreshListingRemote} from '@/api/client';
+import {getToken} from '@/auth/oauthClient';
+import {RateLimitError} from './errors';
+import type {RefreshResult} from './refresh';
+
+/**
+ * Whether Gemini calls should go through the backend
+ */
+export async function isGeminiProxyAvailable(): Promise<boolean> {
+    return !!(await getToken());
+}
+
+/**
+ * Map a quota or rate limit response (429) to RateLimitError, so callers
+ * back off the same way as for direct Gemini calls
+ */
+async function withRateLimitMapping<T>(call: () => Promise<T>): Promise<T> {
+    try {
+        return await call();
+    } catch (error) {
+        if (error instanceof ApiError && error.statusCode === 429) {
+            throw new RateLimitError(error.message);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Extract listing data through the backend
+ *
+ * @param extractedFields - Fields already read from the page; the backend
+ *   only asks Gemini for the others
+ * @throws RateLimitError if the daily quota or Gemini rate limit is hit
+ */
+export async function parseListingViaProxy(
+    url: string,
+    pageText: string,
+    pageTitle: string,
+    model?: string,
+    extractedFields?: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+    return withRateLimitMapping(() => parseListingRemote({url, pageText, pageTitle, model, extractedFields}));
+}
+
+/**
+ * Extract current price and status through the backend
+ *
+ * @throws RateLimitError if the daily quota or Gemini rate limit is hit
+ */
+export async function refreshListingViaProxy(
+    url: string,
+    pageText: string,
+    pageTitle: string,
+    model?: string,
+): Promise<RefreshResult> {
+    return withRateLimitMapping(() => refreshListingRemote({url, pageText, pageTitle, model}));
+}
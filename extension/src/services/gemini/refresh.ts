@@ -1,16 +1,24 @@
 /**
  * Gemini Refresh Service
  *
- * Refreshes listing price and status using Gemini AI.
+ * Refreshes listing price and status using the configured LLM provider.
  * Lighter operation than full parsing - only extracts price and availability.
+ * Signed-in Gemini users go through the backend proxy; other providers and
+ * local mode call the model directly.
+ *
+ * When the page HTML is available, the marketplace's rule-based extractor
+ * runs first; pages it fully covers are refreshed without a model call.
  */
 
 import {ListingStatus} from '@/types';
-import {createGeminiClient} from './client';
+import {getMarketplaceForUrl} from '@/config/marketplaces';
+import {getActiveLlmProvider} from '../llm';
+import {extractListing, mergeExtractedFields, missingFieldsSchema, toRefreshFields} from '../extraction';
 import {refreshSchema} from './schemas';
 import {buildRefreshPrompt} from './prompts';
-import {recordError, recordSuccess} from './history';
-import {isRateLimitError, RateLimitError} from './errors';
+import {generateStructuredOutput} from './generate';
+import {isGeminiProxyAvailable, refreshListingViaProxy} from './proxy';
+import {normalizeCurrency} from './vocabulary';
 
 /**
  * Result of a listing refresh operation
@@ -27,6 +35,7 @@ export interface RefreshResult {
  * @param url - The URL of the listing page
  * @param pageText - Text content extracted from the page
  * @param pageTitle - Title of the page
+ * @param pageHtml - Optional page HTML for the rule-based extractor
  * @returns Refresh result with price, currency, and status
  * @throws RateLimitError if API rate limit is hit
  * @throws Error for other failures
@@ -35,61 +44,37 @@ export async function refreshListingWithGemini(
     url: string,
     pageText: string,
     pageTitle: string,
+    pageHtml?: string,
 ): Promise<RefreshResult> {
     if (!pageText || typeof pageText !== 'string' || pageText.trim().length === 0) {
         throw new Error('Page content is empty or invalid');
     }
 
-    const ai = await createGeminiClient();
-    const prompt = buildRefreshPrompt(pageTitle, url, pageText);
+    const extraction = pageHtml ? extractListing(url, pageHtml) : null;
+    const extracted = extraction ? toRefreshFields(extraction) : {};
+    const schema = missingFieldsSchema(refreshSchema, extracted);
 
-    let response;
-    try {
-        response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: refreshSchema,
-            },
-        });
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        await recordError(url, prompt, errorMessage);
+    let data: Record<string, unknown> = {};
+    if (schema) {
+        const active = await getActiveLlmProvider();
 
-        // Wrap rate limit errors
-        if (isRateLimitError(errorMessage)) {
-            throw new RateLimitError(errorMessage);
+        // The backend records history and stats for proxied Gemini calls
+        if (active.provider.id === 'gemini' && await isGeminiProxyAvailable()) {
+            const proxied = await refreshListingViaProxy(url, pageText, pageTitle, active.model);
+            if (!extraction) {
+                return proxied;
+            }
+            data = {
+                price: proxied.price,
+                currency: proxied.currency,
+                isAvailable: proxied.status !== ListingStatus.ENDED,
+            };
+        } else {
+            const prompt = buildRefreshPrompt(pageTitle, url, pageText);
+            data = await generateStructuredOutput(url, prompt, schema, active);
         }
-        throw error;
-    }
-
-    if (!response.text) {
-        const errorMessage = 'No response from AI';
-        await recordError(url, prompt, errorMessage);
-        throw new Error(errorMessage);
-    }
-
-    let data;
-    try {
-        data = JSON.parse(response.text);
-    } catch (parseError) {
-        const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
-        await recordError(url, prompt, `JSON parse error: ${errorMessage}`);
-        throw parseError;
     }
-
-    // Build response object for logging
-    const fullResponse = {
-        text: response.text,
-        parsedData: data,
-        // @ts-ignore - SDK may expose these properties
-        usageMetadata: response.usageMetadata || null,
-        // @ts-ignore
-        modelVersion: response.modelVersion || 'gemini-2.5-flash',
-    };
-
-    await recordSuccess(url, prompt, fullResponse);
+    data = mergeExtractedFields(data, extracted);
 
     // Determine listing status
     let status = ListingStatus.ACTIVE;
@@ -101,7 +86,7 @@ export async function refreshListingWithGemini(
 
     return {
         price: typeof data.price === 'number' && data.price > 0 ? data.price : 0,
-        currency: data.currency || 'PLN',
+        currency: normalizeCurrency(data.currency) ?? getMarketplaceForUrl(url)?.currency ?? 'PLN',
         status,
     };
 }
@@ -313,6 +313,53 @@ export const carListingSchema = {
     required: ['title', 'pricing', 'vehicle'],
 };
 
+/**
+ * Evidence for one key vehicle field
+ */
+function fieldEvidenceSchema(field: string) {
+    return {
+        type: Type.OBJECT,
+        nullable: true,
+        description: `Evidence for ${field}. Null when the value is null.`,
+        properties: {
+            snippet: {
+                type: Type.STRING,
+                nullable: true,
+                description: 'Exact page text the value was read from (at most 120 characters)',
+            },
+            confidence: {
+                type: Type.NUMBER,
+                description: 'Confidence in the value from 0 to 1. Use below 0.6 for values that were inferred, converted from suspicious data or conflict with other text on the page.',
+            },
+        },
+        required: ['confidence'],
+    };
+}
+
+/**
+ * JSON Schema for the source snippet and confidence of key vehicle fields.
+ * Added to the extraction schema with withEvidenceSchema.
+ */
+export const evidenceSchema = {
+    type: Type.OBJECT,
+    description: 'Where key vehicle values were found on the page',
+    properties: {
+        vin: fieldEvidenceSchema('vehicle.vin'),
+        productionYear: fieldEvidenceSchema('vehicle.productionYear'),
+        mileage: fieldEvidenceSchema('vehicle.mileage.value'),
+        engineCapacity: fieldEvidenceSchema('vehicle.engine.capacityCc'),
+        enginePower: fieldEvidenceSchema('vehicle.engine.powerHp'),
+        fuelType: fieldEvidenceSchema('vehicle.engine.fuelType'),
+    },
+};
+
+/**
+ * Add the evidence property to an extraction schema
+ */
+export function withEvidenceSchema<T extends { properties: object }>(schema: T): T {
+    return {...schema, properties: {...schema.properties, evidence: evidenceSchema}};
+}
+
 /**
  * JSON Schema for listing refresh (price/status only).
  * Lighter schema for periodic updates.
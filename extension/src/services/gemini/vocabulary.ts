@@ -0,0 +1,77 @@
+/**
+ * Listing Vocabulary
+ *
+ * Maps the German fuel and transmission labels of mobile.de to the values
+ * the rest of the app stores (the Polish OTOMOTO labels), and currency
+ * symbols to currency codes. Listings from different marketplaces then
+ * group, filter and value the same way. Unknown values are kept as is.
+ */
+
+/** Fuel labels by lower-case German label */
+const FUEL_TYPES: Record<string, string> = {
+    'benzin': 'Benzyna',
+    'diesel': 'Diesel',
+    'elektro': 'Elektryczny',
+    'hybrid': 'Hybryda',
+    'hybrid (benzin/elektro)': 'Hybryda',
+    'hybrid (diesel/elektro)': 'Hybryda',
+    'plug-in-hybrid': 'Hybryda Plug-in',
+    'autogas (lpg)': 'Benzyna+LPG',
+    'autogas': 'Benzyna+LPG',
+    'erdgas (cng)': 'Benzyna+CNG',
+    'erdgas': 'Benzyna+CNG',
+    'wasserstoff': 'Wodór',
+    'ethanol (ffv, e85 etc.)': 'Etanol',
+    'ethanol': 'Etanol',
+};
+
+/** Transmission labels by lower-case German label */
+const TRANSMISSION_TYPES: Record<string, string> = {
+    'automatik': 'Automatyczna',
+    'automatikgetriebe': 'Automatyczna',
+    'halbautomatik': 'Automatyczna',
+    'schaltgetriebe': 'Manualna',
+    'manuell': 'Manualna',
+};
+
+/** Currency codes by symbol or lower-case name */
+const CURRENCIES: Record<string, string> = {
+    '€': 'EUR',
+    'euro': 'EUR',
+    'zł': 'PLN',
+    'zl': 'PLN',
+    '$': 'USD',
+    '£': 'GBP',
+    'chf': 'CHF',
+    'fr.': 'CHF',
+};
+
+const lookup = (labels: Record<string, string>, value: string | null | undefined): string | null => {
+    if (!value) {
+        return null;
+    }
+    return labels[value.trim().toLowerCase()] ?? value;
+};
+
+/**
+ * Map a fuel label to the stored fuel type (e.g. "Benzin" -> "Benzyna")
+ */
+export const normalizeFuelType = (value: string | null | undefined): string | null =>
+    lookup(FUEL_TYPES, value);
+
+/**
+ * Map a transmission label to the stored transmission type (e.g. "Automatik" -> "Automatyczna")
+ */
+export const normalizeTransmissionType = (value: string | null | undefined): string | null =>
+    lookup(TRANSMISSION_TYPES, value);
+
+/**
+ * Map a currency symbol or name to its code (e.g. "€" -> "EUR"); codes are upper-cased
+ */
+export const normalizeCurrency = (value: unknown): string | null => {
+    if (typeof value !== 'string' || !value.trim()) {
+        return null;
+    }
+    const currency = value.trim();
+    return CURRENCIES[currency.toLowerCase()] ?? currency.toUpperCase();
+};
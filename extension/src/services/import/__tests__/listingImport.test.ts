@@ -0,0 +1,152 @@
+/**
+ * Tests for Listing File Import
+ */
+
+import {
+    ListingImportError,
+    mergeImportedListings,
+    mergeListing,
+    mergePriceHistories,
+    parseListingsFile,
+} from '../listingImport';
+import {createListingsExport} from '@/services/export';
+import {createMockListing} from '@/test-utils/mockData';
+
+describe('parseListingsFile', () => {
+    it('should accept an array of listings', () => {
+        const listings = [createMockListing({id: 'a'}), createMockListing({id: 'b'})];
+
+        expect(parseListingsFile(JSON.stringify(listings)).map((l) => l.id)).toEqual(['a', 'b']);
+    });
+
+    it('should accept an object with a listings array and a single listing', () => {
+        const listing = createMockListing({id: 'a'});
+
+        expect(parseListingsFile(JSON.stringify({listings: [listing]}))).toHaveLength(1);
+        expect(parseListingsFile(JSON.stringify(listing))[0].id).toBe('a');
+    });
+
+    it('should read back a JSON export', () => {
+        const listings = [createMockListing({id: 'a'}), createMockListing({id: 'b', vehicle: {...createMockListing().vehicle, vin: null}})];
+        const file = createListingsExport(listings, 'json', 'history');
+
+        expect(parseListingsFile(file.content as string)).toEqual(listings);
+    });
+
+    it('should reject invalid JSON', () => {
+        expect(() => parseListingsFile('{not json')).toThrow('File is not valid JSON');
+    });
+
+    it('should reject an empty listing array', () => {
+        expect(() => parseListingsFile('[]')).toThrow('File contains no listings');
+    });
+
+    it('should reject the whole file and report invalid listings', () => {
+        const valid = createMockListing({id: 'a'});
+        const {currentPrice: _price, ...missingPrice} = createMockListing({id: 'b'});
+        const badStatus = {...createMockListing({id: 'c'}), status: 'SOLD'};
+
+        let error: unknown;
+        try {
+            parseListingsFile(JSON.stringify([valid, missingPrice, badStatus, 'oops']));
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(ListingImportError);
+        expect((error as ListingImportError).message).toBe('3 of 4 listings do not match the listing schema');
+        expect((error as ListingImportError).details).toEqual([
+            'Listing b: missing "currentPrice"',
+            'Listing c: invalid "status"',
+            'Listing #4: not an object',
+        ]);
+    });
+});
+
+describe('mergePriceHistories', () => {
+    it('should drop duplicate points and sort by date', () => {
+        const merged = mergePriceHistories(
+            [
+                {date: '2024-01-20T10:00:00Z', price: 120000, currency: 'PLN'},
+                {date: '2024-01-10T10:00:00Z', price: 130000, currency: 'PLN'},
+            ],
+            [
+                {date: '2024-01-10T10:00:00.000Z', price: 130000, currency: 'PLN'},
+                {date: '2024-01-15T10:00:00Z', price: 125000, currency: 'PLN'},
+            ],
+        );
+
+        expect(merged.map((p) => p.price)).toEqual([130000, 125000, 120000]);
+    });
+});
+
+describe('mergeListing', () => {
+    it('should keep the most recently seen copy and widen the tracking window', () => {
+        const existing = createMockListing({
+            currentPrice: 120000,
+            firstSeenAt: '2024-01-05T10:00:00Z',
+            lastSeenAt: '2024-02-01T10:00:00Z',
+            priceHistory: [{date: '2024-02-01T10:00:00Z', price: 120000, currency: 'PLN'}],
+        });
+        const imported = createMockListing({
+            currentPrice: 130000,
+            firstSeenAt: '2024-01-01T10:00:00Z',
+            lastSeenAt: '2024-01-20T10:00:00Z',
+            priceHistory: [{date: '2024-01-01T10:00:00Z', price: 130000, currency: 'PLN'}],
+        });
+
+        const merged = mergeListing(existing, imported);
+
+        expect(merged.currentPrice).toBe(120000);
+        expect(merged.firstSeenAt).toBe('2024-01-01T10:00:00Z');
+        expect(merged.lastSeenAt).toBe('2024-02-01T10:00:00Z');
+        expect(merged.priceHistory.map((p) => p.price)).toEqual([130000, 120000]);
+    });
+
+    it('should keep user corrections when the newer copy has none', () => {
+        const existing = createMockListing({
+            vehicle: {...createMockListing().vehicle, make: 'Audi'},
+            lastSeenAt: '2024-01-20T10:00:00Z',
+            fieldOverrides: {'vehicle.make': {value: 'Audi', originalValue: 'BMW', editedAt: '2024-01-15T10:00:00Z'}},
+        });
+        const imported = createMockListing({lastSeenAt: '2024-02-01T10:00:00Z'});
+
+        const merged = mergeListing(existing, imported);
+
+        expect(merged.lastSeenAt).toBe('2024-02-01T10:00:00Z');
+        expect(merged.vehicle.make).toBe('Audi');
+        expect(merged.fieldOverrides).toEqual(existing.fieldOverrides);
+    });
+});
+
+describe('mergeImportedListings', () => {
+    it('should add new listings and merge existing ones by ID', () => {
+        const existing = [createMockListing({id: 'a'}), createMockListing({id: 'b'})];
+        const imported = [createMockListing({id: 'b'}), createMockListing({id: 'c'})];
+
+        const result = mergeImportedListings(existing, imported);
+
+        expect(result.added).toBe(1);
+        expect(result.updated).toBe(1);
+        expect(result.listings.map((l) => l.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should list only the imported listings as changed, with the stored revision', () => {
+        const existing = [createMockListing({id: 'a', revision: 3}), createMockListing({id: 'b', revision: 5})];
+        const imported = [createMockListing({id: 'b', revision: 1}), createMockListing({id: 'c', revision: 9})];
+
+        const result = mergeImportedListings(existing, imported);
+
+        expect(result.changed.map((l) => [l.id, l.revision])).toEqual([['b', 5], ['c', undefined]]);
+    });
+
+    it('should count a listing repeated in the import once', () => {
+        const imported = [createMockListing({id: 'a'}), createMockListing({id: 'a'})];
+
+        const result = mergeImportedListings([], imported);
+
+        expect(result.added).toBe(1);
+        expect(result.updated).toBe(0);
+        expect(result.listings).toHaveLength(1);
+    });
+});
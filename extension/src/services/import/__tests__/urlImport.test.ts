@@ -0,0 +1,153 @@
+/**
+ * Tests for URL List Import
+ */
+
+jest.mock('@/services/refresh', () => ({
+    fetchListingPage: jest.fn(),
+}));
+
+jest.mock('@/services/gemini', () => ({
+    ...jest.requireActual('@/services/gemini/errors'),
+    parseCarDataWithGemini: jest.fn(),
+}));
+
+jest.mock('@/utils/imageUpload', () => ({
+    uploadListingThumbnail: jest.fn((listing) => Promise.resolve(listing)),
+}));
+
+import {importListingFromUrl, parseUrlList, runUrlImport, UrlImportProgress} from '../urlImport';
+import {fetchListingPage} from '@/services/refresh';
+import {parseCarDataWithGemini, RateLimitError} from '@/services/gemini';
+
+const mockFetchListingPage = fetchListingPage as jest.MockedFunction<typeof fetchListingPage>;
+const mockParse = parseCarDataWithGemini as jest.MockedFunction<typeof parseCarDataWithGemini>;
+
+describe('parseUrlList', () => {
+    it('should split on newlines, commas and whitespace and drop duplicates', () => {
+        const result = parseUrlList([
+            'https://www.otomoto.pl/osobowe/oferta/a.html',
+            'https://www.otomoto.pl/osobowe/oferta/b.html, https://www.otomoto.pl/osobowe/oferta/a.html?ref=1',
+            '',
+        ].join('\n'));
+
+        expect(result.urls).toEqual([
+            'https://www.otomoto.pl/osobowe/oferta/a.html',
+            'https://www.otomoto.pl/osobowe/oferta/b.html',
+        ]);
+    });
+
+    it('should report invalid entries and already tracked URLs', () => {
+        const result = parseUrlList(
+            'not-a-url ftp://example.com/file https://www.otomoto.pl/osobowe/oferta/a.html?ref=1',
+            ['https://www.otomoto.pl/osobowe/oferta/a.html'],
+        );
+
+        expect(result.urls).toEqual([]);
+        expect(result.invalid).toEqual(['not-a-url', 'ftp://example.com/file']);
+        expect(result.alreadyTracked).toEqual(['https://www.otomoto.pl/osobowe/oferta/a.html?ref=1']);
+    });
+});
+
+describe('importListingFromUrl', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should parse the fetched page', async () => {
+        mockFetchListingPage.mockResolvedValue({
+            expired: false,
+            status: 200,
+            textContent: 'text',
+            pageTitle: 'Title',
+            html: '<html></html>',
+        });
+        mockParse.mockResolvedValue({id: 'parsed', title: 'BMW'});
+
+        const listing = await importListingFromUrl('https://example.com/a');
+
+        expect(mockParse).toHaveBeenCalledWith('https://example.com/a', 'text', 'Title', undefined, '<html></html>');
+        expect(listing.id).toBe('parsed');
+    });
+
+    it('should throw when the listing has expired', async () => {
+        mockFetchListingPage.mockResolvedValue({expired: true, status: 404});
+
+        await expect(importListingFromUrl('https://example.com/a')).rejects.toThrow('Listing has expired');
+        expect(mockParse).not.toHaveBeenCalled();
+    });
+});
+
+describe('runUrlImport', () => {
+    const urls = ['https://example.com/1', 'https://example.com/2', 'https://example.com/3'];
+    let wait: jest.Mock;
+
+    beforeEach(() => {
+        wait = jest.fn(() => Promise.resolve());
+    });
+
+    it('should import URLs in order and wait between them', async () => {
+        const importUrl = jest.fn((_url: string) => Promise.resolve());
+        const onProgress = jest.fn();
+
+        const progress = await runUrlImport(urls, importUrl, {wait, onProgress, intervalMs: 500});
+
+        expect(importUrl.mock.calls.map(([url]) => url)).toEqual(urls);
+        expect(wait.mock.calls.map(([ms]) => ms)).toEqual([500, 500]);
+        expect(progress).toMatchObject({total: 3, completed: 3, succeeded: 3, failed: 0, currentUrl: null});
+        expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({currentUrl: urls[0], completed: 0}));
+    });
+
+    it('should record failures and continue', async () => {
+        const importUrl = jest.fn((url: string) =>
+            url === urls[1] ? Promise.reject(new Error('Page unavailable')) : Promise.resolve());
+
+        const progress = await runUrlImport(urls, importUrl, {wait});
+
+        expect(progress.succeeded).toBe(2);
+        expect(progress.failed).toBe(1);
+        expect(progress.results[1]).toEqual({url: urls[1], status: 'failed', error: 'Page unavailable'});
+    });
+
+    it('should back off exponentially and retry the same URL on rate limit errors', async () => {
+        const importUrl = jest.fn()
+            .mockRejectedValueOnce(new RateLimitError('Rate limit exceeded'))
+            .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+            .mockResolvedValue(undefined);
+        const snapshots: UrlImportProgress[] = [];
+
+        const progress = await runUrlImport([urls[0]], importUrl, {
+            wait,
+            rateLimitBackoffMs: 1000,
+            onProgress: (p) => snapshots.push(p),
+        });
+
+        expect(importUrl).toHaveBeenCalledTimes(3);
+        expect(wait.mock.calls.map(([ms]) => ms)).toEqual([1000, 2000]);
+        expect(snapshots.some((p) => p.rateLimitedUntil !== null)).toBe(true);
+        expect(progress).toMatchObject({succeeded: 1, failed: 0, rateLimitedUntil: null});
+    });
+
+    it('should stop after too many consecutive rate limit errors', async () => {
+        const importUrl = jest.fn(() => Promise.reject(new RateLimitError('Rate limit exceeded')));
+
+        const progress = await runUrlImport(urls, importUrl, {wait, maxRateLimitRetries: 2});
+
+        expect(importUrl).toHaveBeenCalledTimes(3);
+        expect(progress.results.map((r) => r.status)).toEqual(['failed', 'skipped', 'skipped']);
+        expect(progress.results[1].error).toBe('Rate limit exceeded');
+    });
+
+    it('should skip remaining URLs when cancelled', async () => {
+        const controller = new AbortController();
+        const importUrl = jest.fn(() => {
+            controller.abort();
+            return Promise.resolve();
+        });
+
+        const progress = await runUrlImport(urls, importUrl, {wait, signal: controller.signal});
+
+        expect(importUrl).toHaveBeenCalledTimes(1);
+        expect(progress.results.map((r) => r.status)).toEqual(['imported', 'skipped', 'skipped']);
+        expect(wait).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * Import Service - Barrel Export
+ *
+ * Bulk import of listings from JSON files or URL lists.
+ */
+
+export {
+    ListingImportError,
+    parseListingsFile,
+    mergePriceHistories,
+    mergeListing,
+    mergeImportedListings,
+} from './listingImport';
+export type {ListingMergeResult} from './listingImport';
+
+export {
+    parseUrlList,
+    importListingFromUrl,
+    runUrlImport,
+    DEFAULT_IMPORT_INTERVAL_MS,
+    DEFAULT_RATE_LIMIT_BACKOFF_MS,
+    DEFAULT_MAX_RATE_LIMIT_RETRIES,
+} from './urlImport';
+export type {ParsedUrlList, UrlImportResult, UrlImportProgress, UrlImportOptions} from './urlImport';
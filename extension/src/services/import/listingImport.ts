@@ -0,0 +1,204 @@
+/**
+ * Listing File Import
+ *
+ * Reads listings from a JSON file matching docs/car-listing-schema.json
+ * (e.g. GET /api/listings output from another account or backend server)
+ * and merges them into the tracked listings by ID.
+ */
+
+import {CarListing, ListingStatus, PricePoint} from '@/types';
+import {mergeFieldOverrides} from '@/services/listingEdits';
+
+/**
+ * Error thrown when an import file cannot be used
+ */
+export class ListingImportError extends Error {
+    /** Per-listing validation problems */
+    readonly details: string[];
+
+    constructor(message: string, details: string[] = []) {
+        super(message);
+        this.name = 'ListingImportError';
+        this.details = details;
+    }
+}
+
+/**
+ * Result of merging imported listings into existing ones
+ */
+export interface ListingMergeResult {
+    /** Full merged listing set */
+    listings: CarListing[];
+    /**
+     * Added and updated listings only; updated ones carry the revision of the
+     * existing copy and added ones none, so they can be written conditionally
+     */
+    changed: CarListing[];
+    added: number;
+    updated: number;
+}
+
+/** Maximum number of validation problems reported for one file */
+const MAX_REPORTED_ERRORS = 5;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+/**
+ * Check a listing against the required fields of the listing schema
+ *
+ * @returns Problems found (empty when valid)
+ */
+const validateListing = (value: unknown): string[] => {
+    if (!isObject(value)) {
+        return ['not an object'];
+    }
+
+    const problems: string[] = [];
+    if (!isString(value.id)) problems.push('missing "id"');
+    if (!isString(value.title)) problems.push('missing "title"');
+    if (!isObject(value.source) || !isString(value.source.url) || !isString(value.source.platform)) {
+        problems.push('missing "source.url" or "source.platform"');
+    }
+    if (typeof value.currentPrice !== 'number' || !Number.isFinite(value.currentPrice)) {
+        problems.push('missing "currentPrice"');
+    }
+    if (!isString(value.currency)) problems.push('missing "currency"');
+    if (!Array.isArray(value.priceHistory) || !value.priceHistory.every(
+        (point) => isObject(point) && isString(point.date) && typeof point.price === 'number',
+    )) {
+        problems.push('invalid "priceHistory"');
+    }
+    if (!isObject(value.vehicle)) problems.push('missing "vehicle"');
+    if (!Object.values(ListingStatus).includes(value.status as ListingStatus)) problems.push('invalid "status"');
+    if (!isString(value.firstSeenAt) || !isString(value.lastSeenAt)) {
+        problems.push('missing "firstSeenAt" or "lastSeenAt"');
+    }
+    return problems;
+};
+
+/**
+ * Parse listings from the text of an import file
+ *
+ * Accepts an array of listings, a single listing or an object with a
+ * "listings" array.
+ *
+ * @throws ListingImportError when the file is not valid JSON or any listing is invalid
+ */
+export const parseListingsFile = (text: string): CarListing[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new ListingImportError('File is not valid JSON');
+    }
+
+    const items = Array.isArray(data)
+        ? data
+        : isObject(data) && Array.isArray(data.listings) ? data.listings : [data];
+
+    const errors = items.flatMap((item, index) => {
+        const problems = validateListing(item);
+        if (problems.length === 0) {
+            return [];
+        }
+        const label = isObject(item) && isString(item.id) ? item.id : `#${index + 1}`;
+        return [`Listing ${label}: ${problems.join(', ')}`];
+    });
+
+    if (errors.length > 0) {
+        throw new ListingImportError(
+            `${errors.length} of ${items.length} listings do not match the listing schema`,
+            errors.slice(0, MAX_REPORTED_ERRORS),
+        );
+    }
+    if (items.length === 0) {
+        throw new ListingImportError('File contains no listings');
+    }
+
+    return items as CarListing[];
+};
+
+const pricePointKey = (point: PricePoint): string =>
+    `${new Date(point.date).getTime()}|${point.price}|${point.currency}`;
+
+/**
+ * Combine price histories, dropping duplicate points and sorting by date
+ */
+export const mergePriceHistories = (...histories: PricePoint[][]): PricePoint[] => {
+    const byKey = new Map<string, PricePoint>();
+    for (const point of histories.flat()) {
+        const key = pricePointKey(point);
+        if (!byKey.has(key)) {
+            byKey.set(key, point);
+        }
+    }
+    return Array.from(byKey.values())
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+const earliest = (a: string, b: string): string => (new Date(a) <= new Date(b) ? a : b);
+const latest = (a: string, b: string): string => (new Date(a) >= new Date(b) ? a : b);
+
+/**
+ * Merge two copies of the same listing
+ *
+ * The most recently seen copy wins for listing fields; price histories
+ * are combined and the tracking window covers both copies. User corrections
+ * are merged field by field and stay locked, even when the newer copy is a
+ * fresh parse without them.
+ */
+export const mergeListing = (existing: CarListing, imported: CarListing): CarListing => {
+    const [newer, older] = new Date(imported.lastSeenAt) > new Date(existing.lastSeenAt)
+        ? [imported, existing]
+        : [existing, imported];
+    return mergeFieldOverrides({
+        ...newer,
+        priceHistory: mergePriceHistories(existing.priceHistory, imported.priceHistory),
+        firstSeenAt: earliest(existing.firstSeenAt, imported.firstSeenAt),
+        lastSeenAt: latest(existing.lastSeenAt, imported.lastSeenAt),
+    }, older);
+};
+
+/**
+ * Merge imported listings into existing listings by ID
+ */
+export const mergeImportedListings = (existing: CarListing[], imported: CarListing[]): ListingMergeResult => {
+    const byId = new Map(existing.map((listing) => [listing.id, listing]));
+    const existingIds = new Set(byId.keys());
+    const changedIds = new Set<string>();
+    const updatedIds = new Set<string>();
+    let added = 0;
+
+    for (const listing of imported) {
+        const current = byId.get(listing.id);
+        if (current) {
+            byId.set(listing.id, withRevision(mergeListing(current, listing), current.revision));
+            if (existingIds.has(listing.id)) {
+                updatedIds.add(listing.id);
+            }
+        } else {
+            // A revision in the file belongs to another account or an older copy
+            byId.set(listing.id, withRevision(listing, undefined));
+            added++;
+        }
+        changedIds.add(listing.id);
+    }
+
+    return {
+        listings: Array.from(byId.values()),
+        changed: Array.from(changedIds, (id) => byId.get(id)!),
+        added,
+        updated: updatedIds.size,
+    };
+};
+
+/**
+ * Copy of the listing carrying the given revision (none when undefined)
+ */
+const withRevision = (listing: CarListing, revision: number | undefined): CarListing => {
+    const {revision: _revision, ...rest} = listing;
+    return revision === undefined ? rest : {...rest, revision};
+};
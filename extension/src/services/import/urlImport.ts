@@ -0,0 +1,245 @@
+/**
+ * URL List Import
+ *
+ * Adds listings from a pasted list of URLs. Each URL goes through the same
+ * fetch and Gemini parse path as adding a listing from the popup; requests
+ * are spaced out and paused when the Gemini API reports rate limiting.
+ */
+
+import {CarListing} from '@/types';
+import {fetchListingPage} from '@/services/refresh';
+import {isRateLimitError, parseCarDataWithGemini, RateLimitError} from '@/services/gemini';
+import {uploadListingThumbnail} from '@/utils/imageUpload';
+import {normalizeUrl} from '@/utils/formatters';
+
+/** Delay between consecutive imports (matches the background refresh pacing) */
+export const DEFAULT_IMPORT_INTERVAL_MS = 2000;
+
+/** Initial pause after a rate limit error, doubled on each consecutive hit */
+export const DEFAULT_RATE_LIMIT_BACKOFF_MS = 60 * 1000;
+
+/** Consecutive rate limit errors after which the import stops */
+export const DEFAULT_MAX_RATE_LIMIT_RETRIES = 3;
+
+/**
+ * URLs found in a pasted list
+ */
+export interface ParsedUrlList {
+    /** New URLs to import, in input order */
+    urls: string[];
+    /** URLs skipped because they are already tracked */
+    alreadyTracked: string[];
+    /** Lines that are not http(s) URLs */
+    invalid: string[];
+}
+
+/**
+ * Outcome of importing a single URL
+ */
+export interface UrlImportResult {
+    url: string;
+    status: 'imported' | 'failed' | 'skipped';
+    error?: string;
+}
+
+/**
+ * Progress of a URL import run
+ */
+export interface UrlImportProgress {
+    total: number;
+    /** URLs processed so far (imported, failed or skipped) */
+    completed: number;
+    succeeded: number;
+    failed: number;
+    currentUrl: string | null;
+    /** Epoch ms until which the import is paused due to rate limiting */
+    rateLimitedUntil: number | null;
+    results: UrlImportResult[];
+}
+
+/**
+ * Options for a URL import run
+ */
+export interface UrlImportOptions {
+    onProgress?: (progress: UrlImportProgress) => void;
+    /** Cancels the run; remaining URLs are reported as skipped */
+    signal?: AbortSignal;
+    intervalMs?: number;
+    rateLimitBackoffMs?: number;
+    maxRateLimitRetries?: number;
+    /** Wait implementation (injectable for tests) */
+    wait?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Split pasted text into URLs to import
+ *
+ * Accepts URLs separated by newlines, commas or whitespace. Duplicates and
+ * URLs of already tracked listings are dropped (compared after normalization).
+ */
+export const parseUrlList = (text: string, trackedUrls: string[] = []): ParsedUrlList => {
+    const tracked = new Set(trackedUrls.map(normalizeUrl));
+    const seen = new Set<string>();
+    const result: ParsedUrlList = {urls: [], alreadyTracked: [], invalid: []};
+
+    for (const entry of text.split(/[\s,]+/).filter(Boolean)) {
+        let parsed: URL;
+        try {
+            parsed = new URL(entry);
+        } catch {
+            result.invalid.push(entry);
+            continue;
+        }
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+            result.invalid.push(entry);
+            continue;
+        }
+
+        const normalized = normalizeUrl(entry);
+        if (seen.has(normalized)) {
+            continue;
+        }
+        seen.add(normalized);
+
+        if (tracked.has(normalized)) {
+            result.alreadyTracked.push(entry);
+        } else {
+            result.urls.push(entry);
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Fetch and parse a listing page into a new listing
+ *
+ * @throws RateLimitError if the Gemini API rate limit is hit
+ * @throws Error when the page is unavailable or cannot be parsed
+ */
+export const importListingFromUrl = async (url: string): Promise<CarListing> => {
+    const page = await fetchListingPage(url);
+    if (page.expired || !page.textContent) {
+        throw new Error(page.expired ? 'Listing has expired' : `Page unavailable (HTTP ${page.status})`);
+    }
+
+    const listingData = await parseCarDataWithGemini(
+        url,
+        page.textContent,
+        page.pageTitle || url,
+        undefined,
+        page.html,
+    );
+    return uploadListingThumbnail(listingData as CarListing);
+};
+
+const isRateLimited = (error: unknown): boolean =>
+    error instanceof RateLimitError || (error instanceof Error && isRateLimitError(error.message));
+
+/**
+ * Wait for a duration, resolving early when the signal is aborted
+ */
+const abortableWait = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve) => {
+        if (signal?.aborted) {
+            resolve();
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            resolve();
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, {once: true});
+    });
+
+/**
+ * Import URLs one at a time
+ *
+ * Each URL is passed to `importUrl` (which should parse and save the
+ * listing). On a rate limit error the run pauses with exponential backoff
+ * and retries the same URL; after too many consecutive rate limit errors
+ * the remaining URLs are skipped.
+ *
+ * @returns Final progress, including a result for every URL
+ */
+export const runUrlImport = async (
+    urls: string[],
+    importUrl: (url: string) => Promise<void>,
+    options: UrlImportOptions = {},
+): Promise<UrlImportProgress> => {
+    const {
+        onProgress,
+        signal,
+        intervalMs = DEFAULT_IMPORT_INTERVAL_MS,
+        rateLimitBackoffMs = DEFAULT_RATE_LIMIT_BACKOFF_MS,
+        maxRateLimitRetries = DEFAULT_MAX_RATE_LIMIT_RETRIES,
+        wait = abortableWait,
+    } = options;
+
+    const progress: UrlImportProgress = {
+        total: urls.length,
+        completed: 0,
+        succeeded: 0,
+        failed: 0,
+        currentUrl: null,
+        rateLimitedUntil: null,
+        results: [],
+    };
+    const report = (changes: Partial<UrlImportProgress>) => {
+        Object.assign(progress, changes);
+        onProgress?.({...progress, results: [...progress.results]});
+    };
+    const record = (result: UrlImportResult) => {
+        progress.results.push(result);
+        report({
+            completed: progress.completed + 1,
+            succeeded: progress.succeeded + (result.status === 'imported' ? 1 : 0),
+            failed: progress.failed + (result.status === 'failed' ? 1 : 0),
+        });
+    };
+
+    let rateLimitHits = 0;
+    let stopReason: string | null = null;
+
+    for (let index = 0; index < urls.length; index++) {
+        const url = urls[index];
+        if (signal?.aborted || stopReason) {
+            record({url, status: 'skipped', error: stopReason ?? 'Cancelled'});
+            continue;
+        }
+
+        report({currentUrl: url});
+        try {
+            await importUrl(url);
+            rateLimitHits = 0;
+            record({url, status: 'imported'});
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (!isRateLimited(error)) {
+                record({url, status: 'failed', error: message});
+            } else if (rateLimitHits >= maxRateLimitRetries) {
+                stopReason = 'Rate limit exceeded';
+                record({url, status: 'failed', error: message});
+            } else {
+                const backoff = rateLimitBackoffMs * 2 ** rateLimitHits;
+                rateLimitHits++;
+                report({rateLimitedUntil: Date.now() + backoff});
+                await wait(backoff, signal);
+                report({rateLimitedUntil: null});
+                index--;
+                continue;
+            }
+        }
+
+        if (index < urls.length - 1 && !signal?.aborted && !stopReason) {
+            await wait(intervalMs, signal);
+        }
+    }
+
+    report({currentUrl: null});
+    return progress;
+};
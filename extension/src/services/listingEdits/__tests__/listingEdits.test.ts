@@ -0,0 +1,212 @@
+/**
+ * Tests for Listing Edits
+ */
+
+import {
+    applyFieldEdits,
+    applyFieldOverrides,
+    getFieldValue,
+    isFieldLocked,
+    keepFieldOverrides,
+    mergeFieldOverrides,
+    normalizeFieldValue,
+} from '../listingEdits';
+import {createMockListing} from '@/test-utils/mockData';
+
+const EDITED_AT = '2024-02-01T10:00:00.000Z';
+const LATER = '2024-02-05T10:00:00.000Z';
+
+describe('getFieldValue', () => {
+    it('should read nested fields by path', () => {
+        const listing = createMockListing();
+
+        expect(getFieldValue(listing, 'vehicle.make')).toBe('BMW');
+        expect(getFieldValue(listing, 'vehicle.mileage.value')).toBe(listing.vehicle.mileage.value);
+    });
+
+    it('should return null for missing fields', () => {
+        const listing = createMockListing({location: undefined});
+
+        expect(getFieldValue(listing, 'location.city')).toBeNull();
+    });
+});
+
+describe('normalizeFieldValue', () => {
+    it('should convert input to the field type', () => {
+        expect(normalizeFieldValue('vehicle.productionYear', '2019')).toBe(2019);
+        expect(normalizeFieldValue('vehicle.condition.isImported', 'true')).toBe(true);
+        expect(normalizeFieldValue('vehicle.condition.isImported', 'false')).toBe(false);
+        expect(normalizeFieldValue('vehicle.make', '  Audi ')).toBe('Audi');
+    });
+
+    it('should treat blank values as null', () => {
+        expect(normalizeFieldValue('vehicle.productionYear', '')).toBeNull();
+        expect(normalizeFieldValue('vehicle.make', '   ')).toBeNull();
+    });
+
+    it('should reject invalid numbers', () => {
+        expect(() => normalizeFieldValue('vehicle.mileage.value', '12 km')).toThrow('Invalid number');
+    });
+
+    it('should reject fields that are not editable', () => {
+        expect(() => normalizeFieldValue('currentPrice', 1000)).toThrow('not editable');
+    });
+});
+
+describe('applyFieldEdits', () => {
+    it('should set the value and lock the field with its original value', () => {
+        const listing = createMockListing();
+
+        const edited = applyFieldEdits(listing, {'vehicle.make': 'Audi', 'vehicle.productionYear': '2019'}, EDITED_AT);
+
+        expect(edited.vehicle.make).toBe('Audi');
+        expect(edited.vehicle.productionYear).toBe(2019);
+        expect(edited.fieldOverrides).toEqual({
+            'vehicle.make': {value: 'Audi', originalValue: 'BMW', editedAt: EDITED_AT},
+            'vehicle.productionYear': {value: 2019, originalValue: 2020, editedAt: EDITED_AT},
+        });
+        expect(isFieldLocked(edited, 'vehicle.make')).toBe(true);
+        expect(isFieldLocked(edited, 'vehicle.model')).toBe(false);
+    });
+
+    it('should not mutate the listing', () => {
+        const listing = createMockListing();
+
+        applyFieldEdits(listing, {'vehicle.make': 'Audi'}, EDITED_AT);
+
+        expect(listing.vehicle.make).toBe('BMW');
+        expect(listing.fieldOverrides).toBeUndefined();
+    });
+
+    it('should return the same listing when nothing changed', () => {
+        const listing = createMockListing();
+
+        expect(applyFieldEdits(listing, {'vehicle.make': 'BMW', 'vehicle.productionYear': '2020'})).toBe(listing);
+    });
+
+    it('should keep the first original value across edits', () => {
+        const listing = applyFieldEdits(createMockListing(), {'vehicle.make': 'Audi'}, EDITED_AT);
+
+        const edited = applyFieldEdits(listing, {'vehicle.make': 'Skoda'}, LATER);
+
+        expect(edited.fieldOverrides?.['vehicle.make']).toEqual({value: 'Skoda', originalValue: 'BMW', editedAt: LATER});
+    });
+
+    it('should unlock a field set back to its original value', () => {
+        const listing = applyFieldEdits(createMockListing(), {'vehicle.make': 'Audi'}, EDITED_AT);
+
+        const reverted = applyFieldEdits(listing, {'vehicle.make': 'BMW'}, LATER);
+
+        expect(reverted.vehicle.make).toBe('BMW');
+        expect(reverted.fieldOverrides).toEqual({});
+        expect(reverted.fieldOverrideRemovals).toEqual({'vehicle.make': LATER});
+    });
+
+    it('should forget the revert when the field is edited again', () => {
+        const reverted = applyFieldEdits(
+            applyFieldEdits(createMockListing(), {'vehicle.make': 'Audi'}, EDITED_AT),
+            {'vehicle.make': 'BMW'},
+            EDITED_AT,
+        );
+
+        const edited = applyFieldEdits(reverted, {'vehicle.make': 'Skoda'}, LATER);
+
+        expect(edited.fieldOverrideRemovals).toBeUndefined();
+    });
+
+    it('should create missing parent objects', () => {
+        const listing = createMockListing({location: undefined});
+
+        const edited = applyFieldEdits(listing, {'location.city': 'Kraków'}, EDITED_AT);
+
+        expect(edited.location?.city).toBe('Kraków');
+    });
+});
+
+describe('applyFieldOverrides', () => {
+    it('should restore the user values of locked fields', () => {
+        const listing = createMockListing({
+            currency: 'EUR',
+            fieldOverrides: {
+                'vehicle.make': {value: 'Audi', originalValue: 'BMW', editedAt: EDITED_AT},
+                'currency': {value: 'CHF', originalValue: 'EUR', editedAt: EDITED_AT},
+            },
+        });
+
+        const result = applyFieldOverrides(listing);
+
+        expect(result.vehicle.make).toBe('Audi');
+        expect(result.currency).toBe('CHF');
+    });
+
+    it('should return the same listing without overrides', () => {
+        const listing = createMockListing();
+
+        expect(applyFieldOverrides(listing)).toBe(listing);
+    });
+});
+
+describe('keepFieldOverrides', () => {
+    const existing = applyFieldEdits(createMockListing(), {'vehicle.make': 'Audi'}, EDITED_AT);
+
+    it('should keep the locks of the stored listing on a re-parsed copy', () => {
+        const reparsed = createMockListing({title: 'Re-parsed'});
+
+        const result = keepFieldOverrides(existing, reparsed);
+
+        expect(result.title).toBe('Re-parsed');
+        expect(result.vehicle.make).toBe('Audi');
+        expect(result.fieldOverrides).toEqual(existing.fieldOverrides);
+    });
+
+    it('should leave an edited copy as is', () => {
+        const reverted = applyFieldEdits(existing, {'vehicle.make': 'BMW'}, LATER);
+
+        expect(keepFieldOverrides(existing, reverted)).toBe(reverted);
+    });
+});
+
+describe('mergeFieldOverrides', () => {
+    const edited = applyFieldEdits(createMockListing(), {'vehicle.make': 'Audi'}, EDITED_AT);
+
+    it('should keep the edits of the other copy', () => {
+        const merged = mergeFieldOverrides(createMockListing({title: 'Newer'}), edited);
+
+        expect(merged.title).toBe('Newer');
+        expect(merged.vehicle.make).toBe('Audi');
+        expect(merged.fieldOverrides).toEqual(edited.fieldOverrides);
+    });
+
+    it('should take the later of two edits', () => {
+        const later = applyFieldEdits(createMockListing(), {'vehicle.make': 'Skoda'}, LATER);
+
+        expect(mergeFieldOverrides(edited, later).vehicle.make).toBe('Skoda');
+        expect(mergeFieldOverrides(later, edited).vehicle.make).toBe('Skoda');
+    });
+
+    it('should not bring back an edit reverted later', () => {
+        const reverted = applyFieldEdits(edited, {'vehicle.make': 'BMW'}, LATER);
+
+        const merged = mergeFieldOverrides(edited, reverted);
+
+        expect(merged.vehicle.make).toBe('BMW');
+        expect(merged.fieldOverrides).toEqual({});
+        expect(merged.fieldOverrideRemovals).toEqual({'vehicle.make': LATER});
+    });
+
+    it('should keep an edit made after the revert', () => {
+        const reverted = applyFieldEdits(edited, {'vehicle.make': 'BMW'}, EDITED_AT);
+        const editedAgain = applyFieldEdits(createMockListing(), {'vehicle.make': 'Skoda'}, LATER);
+
+        const merged = mergeFieldOverrides(reverted, editedAgain);
+
+        expect(merged.vehicle.make).toBe('Skoda');
+        expect(merged.fieldOverrideRemovals).toBeUndefined();
+    });
+
+    it('should return the same listing when neither copy has corrections', () => {
+        const listing = createMockListing();
+
+        expect(mergeFieldOverrides(listing, createMockListing())).toBe(listing);
+    });
+});
@@ -0,0 +1,17 @@
+/**
+ * Listing Edits Service - Barrel Export
+ *
+ * User corrections of extracted listing fields, locked against refreshes and re-parses.
+ */
+
+export {
+    applyFieldEdits,
+    applyFieldOverrides,
+    EDITABLE_FIELDS,
+    getFieldValue,
+    isFieldLocked,
+    keepFieldOverrides,
+    mergeFieldOverrides,
+    normalizeFieldValue,
+} from './listingEdits';
+export type {EditableFieldKind} from './listingEdits';
@@ -0,0 +1,255 @@
+/**
+ * Listing Edits
+ *
+ * User corrections of extracted listing fields. Each edited field gets a
+ * FieldOverride holding the user's value next to the value it replaced,
+ * and is locked: refreshes, re-parses and sync conflicts re-apply the
+ * user's value instead of overwriting it. Reverting an edit records when it
+ * was reverted, so merging two copies can tell a revert from a missing edit.
+ *
+ * Price, price history and status are tracked by refreshes and are not
+ * editable. Currency is, so a wrong currency is not restored by a refresh.
+ */
+
+import {CarListing, EditableFieldValue, FieldOverride} from '@/types';
+
+export type EditableFieldKind = 'text' | 'number' | 'boolean';
+
+/** Editable listing fields by path, with the input they take */
+export const EDITABLE_FIELDS: Record<string, EditableFieldKind> = {
+    'title': 'text',
+    'currency': 'text',
+    'originalPrice': 'number',
+    'negotiable': 'boolean',
+    'vehicle.vin': 'text',
+    'vehicle.make': 'text',
+    'vehicle.model': 'text',
+    'vehicle.generation': 'text',
+    'vehicle.trim': 'text',
+    'vehicle.bodyType': 'text',
+    'vehicle.productionYear': 'number',
+    'vehicle.firstRegistrationYear': 'number',
+    'vehicle.mileage.value': 'number',
+    'vehicle.engine.capacityCc': 'number',
+    'vehicle.engine.fuelType': 'text',
+    'vehicle.engine.powerHp': 'number',
+    'vehicle.engine.powerKw': 'number',
+    'vehicle.engine.engineCode': 'text',
+    'vehicle.engine.euroStandard': 'text',
+    'vehicle.engine.hybridType': 'text',
+    'vehicle.drivetrain.transmissionType': 'text',
+    'vehicle.drivetrain.transmissionSubtype': 'text',
+    'vehicle.drivetrain.gearsCount': 'number',
+    'vehicle.drivetrain.driveType': 'text',
+    'vehicle.condition.isNew': 'boolean',
+    'vehicle.condition.isImported': 'boolean',
+    'vehicle.condition.accidentFreeDeclared': 'boolean',
+    'vehicle.condition.serviceHistoryDeclared': 'boolean',
+    'vehicle.colorAndInterior.exteriorColor': 'text',
+    'vehicle.colorAndInterior.interiorColor': 'text',
+    'vehicle.colorAndInterior.upholsteryType': 'text',
+    'vehicle.registration.plateNumber': 'text',
+    'vehicle.registration.originCountry': 'text',
+    'vehicle.registration.registeredInCountryCode': 'text',
+    'location.city': 'text',
+    'location.region': 'text',
+    'location.postalCode': 'text',
+    'location.countryCode': 'text',
+    'seller.type': 'text',
+    'seller.name': 'text',
+    'seller.phone': 'text',
+    'seller.isCompany': 'boolean',
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Read a listing field by path
+ */
+export const getFieldValue = (listing: CarListing, path: string): EditableFieldValue => {
+    const value = path.split('.').reduce<unknown>(
+        (node, key) => (isPlainObject(node) ? node[key] : undefined),
+        listing,
+    );
+    return value === undefined ? null : value as EditableFieldValue;
+};
+
+/**
+ * Copy of the listing with one field set (parent objects are copied, not mutated)
+ */
+const setFieldValue = (listing: CarListing, path: string, value: EditableFieldValue): CarListing => {
+    const set = (node: Record<string, unknown>, keys: string[]): Record<string, unknown> => {
+        const [key, ...rest] = keys;
+        return {
+            ...node,
+            [key]: rest.length === 0 ? value : set(isPlainObject(node[key]) ? node[key] : {}, rest),
+        };
+    };
+    return set(listing as unknown as Record<string, unknown>, path.split('.')) as unknown as CarListing;
+};
+
+/**
+ * Normalize a value entered for a field: blank text and numbers become null
+ *
+ * @throws Error when the path is not editable or a number is invalid
+ */
+export const normalizeFieldValue = (path: string, value: EditableFieldValue): EditableFieldValue => {
+    const kind = EDITABLE_FIELDS[path];
+    if (!kind) {
+        throw new Error(`Field is not editable: ${path}`);
+    }
+    if (value === null || value === '') {
+        return null;
+    }
+
+    switch (kind) {
+        case 'number': {
+            const number = typeof value === 'number' ? value : Number(String(value).trim());
+            if (!Number.isFinite(number)) {
+                throw new Error(`Invalid number for ${path}`);
+            }
+            return number;
+        }
+        case 'boolean':
+            return typeof value === 'boolean' ? value : value === 'true';
+        default:
+            return String(value).trim() || null;
+    }
+};
+
+/**
+ * Whether a field holds a user correction (and is locked)
+ */
+export const isFieldLocked = (listing: CarListing, path: string): boolean =>
+    !!listing.fieldOverrides?.[path];
+
+/**
+ * Apply user edits to a listing
+ *
+ * Changed fields get an override that keeps the first value they replaced;
+ * setting a field back to that value removes its override.
+ *
+ * @param edits - New values keyed by field path
+ * @throws Error when a path is not editable or a value is invalid
+ */
+export const applyFieldEdits = (
+    listing: CarListing,
+    edits: Record<string, EditableFieldValue>,
+    now: string = new Date().toISOString(),
+): CarListing => {
+    const overrides: Record<string, FieldOverride> = {...listing.fieldOverrides};
+    const removals: Record<string, string> = {...listing.fieldOverrideRemovals};
+    let result = listing;
+
+    for (const [path, rawValue] of Object.entries(edits)) {
+        const value = normalizeFieldValue(path, rawValue);
+        const stored = getFieldValue(listing, path);
+        const current = stored === '' ? null : stored;
+        if (value === current) {
+            continue;
+        }
+
+        const originalValue = overrides[path] ? overrides[path].originalValue : current;
+        if (value === originalValue) {
+            delete overrides[path];
+            removals[path] = now;
+        } else {
+            overrides[path] = {value, originalValue, editedAt: now};
+            delete removals[path];
+        }
+        result = setFieldValue(result, path, value);
+    }
+
+    // An empty object (not undefined) records that every edit was reverted
+    return result === listing ? listing : withFieldOverrides(result, overrides, removals);
+};
+
+/**
+ * Copy of the listing with the given overrides and removal times
+ * (fieldOverrideRemovals is left out when empty)
+ */
+const withFieldOverrides = (
+    listing: CarListing,
+    overrides: Record<string, FieldOverride>,
+    removals: Record<string, string>,
+): CarListing => {
+    const {fieldOverrideRemovals: _removals, ...rest} = listing;
+    return {
+        ...rest,
+        fieldOverrides: overrides,
+        ...(Object.keys(removals).length > 0 ? {fieldOverrideRemovals: removals} : {}),
+    };
+};
+
+/**
+ * Re-apply the user's values of locked fields
+ */
+export const applyFieldOverrides = (listing: CarListing): CarListing =>
+    Object.entries(listing.fieldOverrides ?? {}).reduce(
+        (result, [path, override]) => (
+            getFieldValue(result, path) === override.value ? result : setFieldValue(result, path, override.value)
+        ),
+        listing,
+    );
+
+/**
+ * Keep the locks of a stored listing on a freshly parsed copy of it.
+ * Parsed listings carry no fieldOverrides; an edited copy (even with
+ * every edit reverted) carries its own and is left as is.
+ */
+export const keepFieldOverrides = (existing: CarListing, incoming: CarListing): CarListing =>
+    incoming.fieldOverrides || !existing.fieldOverrides
+        ? incoming
+        : applyFieldOverrides({
+            ...incoming,
+            fieldOverrides: existing.fieldOverrides,
+            ...(existing.fieldOverrideRemovals ? {fieldOverrideRemovals: existing.fieldOverrideRemovals} : {}),
+        });
+
+const time = (value: string): number => new Date(value).getTime();
+
+/**
+ * Merge the corrections of another copy of the same listing, field by field:
+ * the latest edit or revert on either copy wins. Other fields come from the
+ * listing; winning edits are re-applied, and a winning revert restores the
+ * value the listing's own edit had replaced.
+ */
+export const mergeFieldOverrides = (listing: CarListing, other: CarListing): CarListing => {
+    const paths = new Set([
+        ...Object.keys(listing.fieldOverrides ?? {}),
+        ...Object.keys(other.fieldOverrides ?? {}),
+        ...Object.keys(listing.fieldOverrideRemovals ?? {}),
+        ...Object.keys(other.fieldOverrideRemovals ?? {}),
+    ]);
+    if (paths.size === 0) {
+        return listing;
+    }
+
+    const overrides: Record<string, FieldOverride> = {};
+    const removals: Record<string, string> = {};
+    let result = listing;
+
+    for (const path of paths) {
+        const own = listing.fieldOverrides?.[path];
+        const theirs = other.fieldOverrides?.[path];
+        const edit = own && theirs
+            ? (time(theirs.editedAt) > time(own.editedAt) ? theirs : own)
+            : own ?? theirs;
+        const removedAt = [listing.fieldOverrideRemovals?.[path], other.fieldOverrideRemovals?.[path]]
+            .filter((value): value is string => !!value)
+            .sort((a, b) => time(b) - time(a))[0];
+
+        if (edit && (!removedAt || time(edit.editedAt) > time(removedAt))) {
+            overrides[path] = edit;
+        } else if (removedAt) {
+            removals[path] = removedAt;
+            if (own) {
+                result = setFieldValue(result, path, own.originalValue);
+            }
+        }
+    }
+
+    return applyFieldOverrides(withFieldOverrides(result, overrides, removals));
+};
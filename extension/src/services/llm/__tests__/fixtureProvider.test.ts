@@ -0,0 +1,43 @@
+/**
+ * Tests for the Fixture Provider
+ */
+
+import {createFixtureProvider} from '../fixtureProvider';
+
+describe('Fixture Provider', () => {
+    const request = {prompt: 'Extract data', schema: {}, model: 'fixture-model'};
+
+    it('should answer with the fixture serialized as JSON', async () => {
+        const provider = createFixtureProvider({price: 1000});
+
+        expect(await provider.generateStructured(request)).toEqual({
+            text: '{"price":1000}',
+            modelVersion: 'fixture-model',
+            usage: null,
+        });
+        expect(provider.id).toBe('fixture');
+    });
+
+    it('should return string fixtures as-is', async () => {
+        const provider = createFixtureProvider('not json');
+
+        expect((await provider.generateStructured(request)).text).toBe('not json');
+    });
+
+    it('should compute the answer from the request and keep the requests', async () => {
+        const provider = createFixtureProvider(({model}) => ({model}));
+
+        const response = await provider.generateStructured(request);
+
+        expect(JSON.parse(response.text)).toEqual({model: 'fixture-model'});
+        expect(provider.requests).toEqual([request]);
+    });
+
+    it('should throw errors thrown by the fixture function', async () => {
+        const provider = createFixtureProvider(() => {
+            throw new Error('fixture failure');
+        });
+
+        await expect(provider.generateStructured(request)).rejects.toThrow('fixture failure');
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for the Gemini Provider
+ */
+
+jest.mock('../../gemini/client', () => ({
+    createGeminiClient: jest.fn(),
+}));
+
+import {createGeminiProvider} from '../geminiProvider';
+import {RateLimitError} from '../errors';
+import {createGeminiClient} from '../../gemini/client';
+
+const mockCreateGeminiClient = createGeminiClient as jest.MockedFunction<typeof createGeminiClient>;
+
+describe('Gemini Provider', () => {
+    const mockGenerateContent = jest.fn();
+    const request = {prompt: 'Extract data', schema: {type: 'OBJECT'}, model: 'gemini-2.5-flash'};
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockCreateGeminiClient.mockResolvedValue({models: {generateContent: mockGenerateContent}} as any);
+    });
+
+    it('should request structured JSON output for the model', async () => {
+        mockGenerateContent.mockResolvedValue({text: '{"price": 1}', modelVersion: 'gemini-2.5-flash-001', usageMetadata: {totalTokenCount: 42}});
+
+        const response = await createGeminiProvider().generateStructured(request);
+
+        expect(mockGenerateContent).toHaveBeenCalledWith({
+            model: 'gemini-2.5-flash',
+            contents: 'Extract data',
+            config: {responseMimeType: 'application/json', responseSchema: {type: 'OBJECT'}},
+        });
+        expect(response).toEqual({text: '{"price": 1}', modelVersion: 'gemini-2.5-flash-001', usage: {totalTokenCount: 42}});
+    });
+
+    it('should fall back to the requested model when no version is reported', async () => {
+        mockGenerateContent.mockResolvedValue({text: '{}'});
+
+        const response = await createGeminiProvider().generateStructured(request);
+
+        expect(response.modelVersion).toBe('gemini-2.5-flash');
+        expect(response.usage).toBeNull();
+    });
+
+    it('should throw when the response has no text', async () => {
+        mockGenerateContent.mockResolvedValue({text: ''});
+
+        await expect(createGeminiProvider().generateStructured(request)).rejects.toThrow('No response from AI');
+    });
+
+    it('should wrap rate limit errors in RateLimitError', async () => {
+        mockGenerateContent.mockRejectedValue(new Error('429 RESOURCE_EXHAUSTED'));
+
+        await expect(createGeminiProvider().generateStructured(request)).rejects.toThrow(RateLimitError);
+    });
+
+    it('should rethrow other errors unchanged', async () => {
+        const error = new Error('Server error 500');
+        mockGenerateContent.mockRejectedValue(error);
+
+        await expect(createGeminiProvider().generateStructured(request)).rejects.toBe(error);
+    });
+
+    it('should propagate a missing API key', async () => {
+        mockCreateGeminiClient.mockRejectedValue(new Error('API Key is missing'));
+
+        await expect(createGeminiProvider().generateStructured(request)).rejects.toThrow('API Key is missing');
+    });
+});
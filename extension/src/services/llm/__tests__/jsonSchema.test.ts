@@ -0,0 +1,45 @@
+/**
+ * Tests for JSON Schema Conversion
+ */
+
+import {toJsonSchema} from '../jsonSchema';
+
+describe('toJsonSchema', () => {
+    it('should lower-case types and keep descriptions, enums and required fields', () => {
+        expect(toJsonSchema({
+            type: 'OBJECT',
+            description: 'Listing',
+            properties: {
+                currency: {type: 'STRING', enum: ['PLN', 'EUR']},
+            },
+            required: ['currency'],
+        })).toEqual({
+            type: 'object',
+            description: 'Listing',
+            properties: {
+                currency: {type: 'string', enum: ['PLN', 'EUR']},
+            },
+            required: ['currency'],
+        });
+    });
+
+    it('should turn nullable fields into a type union with null', () => {
+        expect(toJsonSchema({type: 'NUMBER', nullable: true})).toEqual({type: ['number', 'null']});
+    });
+
+    it('should convert nested objects and array items', () => {
+        expect(toJsonSchema({
+            type: 'OBJECT',
+            properties: {
+                vehicle: {type: 'OBJECT', properties: {vin: {type: 'STRING', nullable: true}}},
+                images: {type: 'ARRAY', items: {type: 'STRING'}},
+            },
+        })).toEqual({
+            type: 'object',
+            properties: {
+                vehicle: {type: 'object', properties: {vin: {type: ['string', 'null']}}},
+                images: {type: 'array', items: {type: 'string'}},
+            },
+        });
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for the OpenAI-Compatible Provider
+ */
+
+import {createOpenAiCompatibleProvider} from '../openAiCompatibleProvider';
+import {RateLimitError} from '../errors';
+
+const mockFetchResponse = (status: number, body: unknown) => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+        status,
+        ok: status >= 200 && status < 300,
+        json: async () => body,
+        text: async () => (typeof body === 'string' ? body : JSON.stringify(body)),
+    });
+};
+
+describe('OpenAI-Compatible Provider', () => {
+    const originalFetch = global.fetch;
+    const request = {
+        prompt: 'Extract data',
+        schema: {type: 'OBJECT', properties: {price: {type: 'NUMBER', nullable: true}}},
+        model: 'llama3.1',
+    };
+
+    beforeEach(() => {
+        global.fetch = jest.fn();
+    });
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should post a chat completion with a JSON schema response format', async () => {
+        mockFetchResponse(200, {
+            model: 'llama3.1:8b',
+            choices: [{message: {content: '{"price": 1}'}}],
+            usage: {prompt_tokens: 10, completion_tokens: 5},
+        });
+
+        const response = await createOpenAiCompatibleProvider('http://localhost:11434/v1/').generateStructured(request);
+
+        const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+        expect(url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(JSON.parse(init.body)).toEqual({
+            model: 'llama3.1',
+            messages: [{role: 'user', content: 'Extract data'}],
+            response_format: {
+                type: 'json_schema',
+                json_schema: {
+                    name: 'response',
+                    schema: {type: 'object', properties: {price: {type: ['number', 'null']}}},
+                },
+            },
+        });
+        expect(response).toEqual({
+            text: '{"price": 1}',
+            modelVersion: 'llama3.1:8b',
+            usage: {prompt_tokens: 10, completion_tokens: 5},
+        });
+    });
+
+    it('should throw RateLimitError for HTTP 429', async () => {
+        mockFetchResponse(429, 'Too Many Requests');
+
+        await expect(
+            createOpenAiCompatibleProvider('http://localhost:8080/v1').generateStructured(request),
+        ).rejects.toThrow(RateLimitError);
+    });
+
+    it('should include the server message for other HTTP errors', async () => {
+        mockFetchResponse(404, 'model "llama3.1" not found');
+
+        await expect(
+            createOpenAiCompatibleProvider('http://localhost:11434/v1').generateStructured(request),
+        ).rejects.toThrow('LLM server returned HTTP 404: model "llama3.1" not found');
+    });
+
+    it('should throw when the completion is empty', async () => {
+        mockFetchResponse(200, {choices: [{message: {content: null}}]});
+
+        await expect(
+            createOpenAiCompatibleProvider('http://localhost:11434/v1').generateStructured(request),
+        ).rejects.toThrow('No response from AI');
+    });
+});
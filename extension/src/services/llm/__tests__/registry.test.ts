@@ -0,0 +1,80 @@
+/**
+ * Tests for LLM Provider Registry and Configuration
+ */
+
+jest.mock('../../settings', () => ({
+    getSettings: jest.fn(),
+}));
+
+jest.mock('../../gemini/client', () => ({
+    createGeminiClient: jest.fn(),
+}));
+
+import {createLlmProvider, getActiveLlmProvider} from '../registry';
+import {DEFAULT_OPENAI_COMPATIBLE_BASE_URL, resolveLlmBaseUrl, resolveLlmModel, resolveLlmProvider} from '../config';
+import {getSettings} from '../../settings';
+import {ExtensionSettings} from '@/types';
+
+const mockGetSettings = getSettings as jest.MockedFunction<typeof getSettings>;
+
+const createSettings = (overrides: Partial<ExtensionSettings> = {}): ExtensionSettings => ({
+    geminiApiKey: '',
+    geminiApiKeyConfigured: true,
+    checkFrequencyMinutes: 60,
+    endedListingGracePeriodDays: 3,
+    ...overrides,
+});
+
+describe('LLM Provider Registry', () => {
+    describe('configuration', () => {
+        it('should default to Gemini and its default model', () => {
+            expect(resolveLlmProvider({})).toBe('gemini');
+            expect(resolveLlmModel({})).toBe('gemini-2.5-flash');
+        });
+
+        it('should use the default model of the configured provider when none is set', () => {
+            expect(resolveLlmModel({llmProvider: 'openai-compatible', llmModel: '  '})).toBe('llama3.1');
+            expect(resolveLlmModel({llmProvider: 'openai-compatible', llmModel: 'qwen2.5'})).toBe('qwen2.5');
+        });
+
+        it('should fall back to Gemini for unknown providers', () => {
+            expect(resolveLlmProvider({llmProvider: 'fixture' as any})).toBe('gemini');
+        });
+
+        it('should default the base URL to a local Ollama server', () => {
+            expect(resolveLlmBaseUrl({})).toBe(DEFAULT_OPENAI_COMPATIBLE_BASE_URL);
+            expect(resolveLlmBaseUrl({llmBaseUrl: ' http://127.0.0.1:8080/v1 '})).toBe('http://127.0.0.1:8080/v1');
+        });
+    });
+
+    describe('createLlmProvider', () => {
+        it('should create the Gemini provider by default', () => {
+            const {provider, model} = createLlmProvider(createSettings());
+
+            expect(provider.id).toBe('gemini');
+            expect(model).toBe('gemini-2.5-flash');
+        });
+
+        it('should create an OpenAI-compatible provider for the configured server', () => {
+            const {provider, model} = createLlmProvider(createSettings({
+                llmProvider: 'openai-compatible',
+                llmModel: 'qwen2.5',
+                llmBaseUrl: 'http://localhost:8080/v1',
+            }));
+
+            expect(provider.id).toBe('openai-compatible');
+            expect(model).toBe('qwen2.5');
+        });
+    });
+
+    describe('getActiveLlmProvider', () => {
+        it('should use the active settings store', async () => {
+            mockGetSettings.mockResolvedValue(createSettings({llmProvider: 'openai-compatible'}));
+
+            const {provider, model} = await getActiveLlmProvider();
+
+            expect(provider.id).toBe('openai-compatible');
+            expect(model).toBe('llama3.1');
+        });
+    });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for LLM Token Usage and Cost
+ */
+
+import {estimateCostUsd, readTokenUsage, toUsageFields} from '../usage';
+
+describe('readTokenUsage', () => {
+    it('should read Gemini usage metadata and bill thinking tokens as output', () => {
+        expect(readTokenUsage({promptTokenCount: 1200, candidatesTokenCount: 300, thoughtsTokenCount: 50}))
+            .toEqual({promptTokens: 1200, responseTokens: 350});
+    });
+
+    it('should read OpenAI-style usage', () => {
+        expect(readTokenUsage({prompt_tokens: 800, completion_tokens: 120, total_tokens: 920}))
+            .toEqual({promptTokens: 800, responseTokens: 120});
+    });
+
+    it('should treat missing or invalid counts as zero', () => {
+        expect(readTokenUsage({promptTokenCount: 500})).toEqual({promptTokens: 500, responseTokens: 0});
+        expect(readTokenUsage({prompt_tokens: -1, completion_tokens: 'x'})).toEqual({promptTokens: 0, responseTokens: 0});
+    });
+
+    it('should return null when no usage was reported', () => {
+        expect(readTokenUsage(undefined)).toBeNull();
+        expect(readTokenUsage({})).toBeNull();
+        expect(readTokenUsage('usage')).toBeNull();
+    });
+});
+
+describe('estimateCostUsd', () => {
+    it('should price input and output tokens per million', () => {
+        expect(estimateCostUsd('gemini-2.5-flash', {promptTokens: 1_000_000, responseTokens: 1_000_000}))
+            .toBeCloseTo(2.80, 10);
+    });
+
+    it('should match the longest model prefix', () => {
+        expect(estimateCostUsd('gemini-2.5-flash-lite-preview-06-17', {promptTokens: 1_000_000, responseTokens: 0}))
+            .toBeCloseTo(0.10, 10);
+        expect(estimateCostUsd('gemini-2.5-flash-preview-05-20', {promptTokens: 1_000_000, responseTokens: 0}))
+            .toBeCloseTo(0.30, 10);
+    });
+
+    it('should return null for unknown models', () => {
+        expect(estimateCostUsd('gpt-4o-mini', {promptTokens: 1000, responseTokens: 100})).toBeNull();
+        expect(estimateCostUsd('gemini-2.5-flashy', {promptTokens: 1000, responseTokens: 100})).toBeNull();
+    });
+});
+
+describe('toUsageFields', () => {
+    it('should return tokens with an estimated cost', () => {
+        expect(toUsageFields('gemini-2.5-pro', {promptTokens: 2000, responseTokens: 500})).toEqual({
+            promptTokens: 2000,
+            responseTokens: 500,
+            costUsd: expect.closeTo(0.0075, 10),
+        });
+    });
+
+    it('should omit the cost for unknown models', () => {
+        expect(toUsageFields('llama3', {promptTokens: 10, responseTokens: 5}))
+            .toEqual({promptTokens: 10, responseTokens: 5});
+    });
+
+    it('should return no fields without usage', () => {
+        expect(toUsageFields('gemini-2.5-flash', null)).toEqual({});
+    });
+});
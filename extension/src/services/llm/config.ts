@@ -0,0 +1,48 @@
+/**
+ * LLM Provider Configuration
+ *
+ * Defaults for the provider settings. Kept free of provider imports so
+ * settings screens can use them without loading any SDK.
+ */
+
+import type {ConfigurableLlmProviderId, ExtensionSettings} from '@/types';
+
+/** Providers offered in settings, in display order */
+export const LLM_PROVIDERS: ConfigurableLlmProviderId[] = ['gemini', 'openai-compatible'];
+
+/** Provider used when none is configured */
+export const DEFAULT_LLM_PROVIDER: ConfigurableLlmProviderId = 'gemini';
+
+/** Model used when the model setting is empty */
+export const DEFAULT_LLM_MODELS: Record<ConfigurableLlmProviderId, string> = {
+    'gemini': 'gemini-2.5-flash',
+    'openai-compatible': 'llama3.1',
+};
+
+/** OpenAI-compatible endpoint of a local Ollama server */
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+type LlmSettings = Pick<ExtensionSettings, 'llmProvider' | 'llmModel' | 'llmBaseUrl'>;
+
+/**
+ * Configured provider, falling back to the default for unknown values
+ */
+export function resolveLlmProvider(settings: LlmSettings): ConfigurableLlmProviderId {
+    return settings.llmProvider && LLM_PROVIDERS.includes(settings.llmProvider)
+        ? settings.llmProvider
+        : DEFAULT_LLM_PROVIDER;
+}
+
+/**
+ * Configured model, or the default model of the configured provider
+ */
+export function resolveLlmModel(settings: LlmSettings): string {
+    return settings.llmModel?.trim() || DEFAULT_LLM_MODELS[resolveLlmProvider(settings)];
+}
+
+/**
+ * Configured OpenAI-compatible server URL, or the local Ollama default
+ */
+export function resolveLlmBaseUrl(settings: LlmSettings): string {
+    return settings.llmBaseUrl?.trim() || DEFAULT_OPENAI_COMPATIBLE_BASE_URL;
+}
@@ -0,0 +1,28 @@
+/**
+ * LLM Error Types
+ *
+ * Provider-independent errors. Providers translate their own rate limit
+ * responses to RateLimitError so callers can back off the same way.
+ */
+
+/**
+ * Error thrown when the LLM provider rate limit or quota is exceeded.
+ * Used to signal the background refresh service to back off.
+ */
+export class RateLimitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RateLimitError';
+    }
+}
+
+/**
+ * Check if an error message indicates rate limiting
+ * (for SDKs that only surface the HTTP status in the message)
+ */
+export function isRateLimitError(errorMessage: string): boolean {
+    return errorMessage.includes('429') ||
+        errorMessage.toLowerCase().includes('rate limit') ||
+        errorMessage.toLowerCase().includes('quota exceeded') ||
+        errorMessage.toLowerCase().includes('resource exhausted');
+}
@@ -0,0 +1,47 @@
+/**
+ * Fixture Provider
+ *
+ * Deterministic provider for tests: answers every request from a fixture
+ * instead of calling a model, and keeps the requests for assertions.
+ */
+
+import type {LlmProvider, StructuredOutputRequest, StructuredOutputResponse} from './types';
+
+/**
+ * Fixture response: a value serialized as JSON (strings are returned as-is),
+ * or a function computing it from the request. Errors thrown by the
+ * function are thrown by the provider.
+ */
+export type LlmFixture =
+    | ((request: StructuredOutputRequest) => unknown)
+    | object
+    | string
+    | number
+    | boolean
+    | null;
+
+export interface FixtureProvider extends LlmProvider {
+    /** Requests received so far, oldest first */
+    readonly requests: StructuredOutputRequest[];
+}
+
+/**
+ * Create a provider answering every request with the fixture
+ */
+export function createFixtureProvider(fixture: LlmFixture): FixtureProvider {
+    const requests: StructuredOutputRequest[] = [];
+
+    return {
+        id: 'fixture',
+        requests,
+        async generateStructured(request: StructuredOutputRequest): Promise<StructuredOutputResponse> {
+            requests.push(request);
+            const value = typeof fixture === 'function' ? fixture(request) : fixture;
+            return {
+                text: typeof value === 'string' ? value : JSON.stringify(value),
+                modelVersion: request.model,
+                usage: null,
+            };
+        },
+    };
+}
@@ -0,0 +1,50 @@
+/**
+ * Gemini Provider
+ *
+ * Structured output through Google Gemini, using the API key from settings.
+ */
+
+import {createGeminiClient} from '../gemini/client';
+import {isRateLimitError, RateLimitError} from './errors';
+import type {LlmProvider, StructuredOutputRequest, StructuredOutputResponse} from './types';
+
+/**
+ * Create the Gemini provider.
+ * The client is created per call, so a changed API key is picked up.
+ */
+export function createGeminiProvider(): LlmProvider {
+    return {
+        id: 'gemini',
+        async generateStructured({prompt, schema, model}: StructuredOutputRequest): Promise<StructuredOutputResponse> {
+            const ai = await createGeminiClient();
+
+            let response;
+            try {
+                response = await ai.models.generateContent({
+                    model,
+                    contents: prompt,
+                    config: {
+                        responseMimeType: 'application/json',
+                        responseSchema: schema,
+                    },
+                });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                if (isRateLimitError(errorMessage)) {
+                    throw new RateLimitError(errorMessage);
+                }
+                throw error;
+            }
+
+            if (!response.text) {
+                throw new Error('No response from AI');
+            }
+
+            return {
+                text: response.text,
+                modelVersion: response.modelVersion || model,
+                usage: response.usageMetadata || null,
+            };
+        },
+    };
+}
@@ -0,0 +1,36 @@
+/**
+ * LLM Service - Barrel Export
+ *
+ * Provider layer for structured-output extraction. services/gemini builds
+ * the prompts and records history; the provider only runs the model.
+ */
+
+// Provider contract
+export type {LlmProvider, StructuredOutputRequest, StructuredOutputResponse} from './types';
+
+// Provider selection
+export {createLlmProvider, getActiveLlmProvider} from './registry';
+export type {ActiveLlmProvider} from './registry';
+export {
+    DEFAULT_LLM_MODELS,
+    DEFAULT_LLM_PROVIDER,
+    DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+    LLM_PROVIDERS,
+    resolveLlmBaseUrl,
+    resolveLlmModel,
+    resolveLlmProvider,
+} from './config';
+
+// Providers
+export {createGeminiProvider} from './geminiProvider';
+export {createOpenAiCompatibleProvider} from './openAiCompatibleProvider';
+export {createFixtureProvider} from './fixtureProvider';
+export type {FixtureProvider, LlmFixture} from './fixtureProvider';
+export {toJsonSchema} from './jsonSchema';
+
+// Token usage and cost
+export {estimateCostUsd, MODEL_PRICING, readTokenUsage, toUsageFields} from './usage';
+export type {TokenUsage} from './usage';
+
+// Error types
+export {RateLimitError, isRateLimitError} from './errors';
@@ -0,0 +1,41 @@
+/**
+ * JSON Schema Conversion
+ *
+ * Response schemas are written in the Gemini format (upper-case types,
+ * `nullable`). OpenAI-compatible servers expect plain JSON Schema.
+ */
+
+type SchemaNode = Record<string, unknown>;
+
+/**
+ * Convert a Gemini response schema to JSON Schema
+ */
+export function toJsonSchema(schema: object): SchemaNode {
+    const node = schema as SchemaNode;
+    const result: SchemaNode = {};
+
+    if (typeof node.type === 'string') {
+        const type = node.type.toLowerCase();
+        result.type = node.nullable === true ? [type, 'null'] : type;
+    }
+    if (typeof node.description === 'string') {
+        result.description = node.description;
+    }
+    if (Array.isArray(node.enum)) {
+        result.enum = node.enum;
+    }
+    if (Array.isArray(node.required)) {
+        result.required = node.required;
+    }
+    if (node.properties && typeof node.properties === 'object') {
+        result.properties = Object.fromEntries(
+            Object.entries(node.properties as Record<string, object>)
+                .map(([key, value]) => [key, toJsonSchema(value)]),
+        );
+    }
+    if (node.items && typeof node.items === 'object') {
+        result.items = toJsonSchema(node.items);
+    }
+
+    return result;
+}
@@ -0,0 +1,62 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Structured output through any server implementing the OpenAI
+ * chat completions API with `response_format: json_schema` - e.g. a local
+ * Ollama or llama.cpp server. No API key is sent.
+ */
+
+import {toJsonSchema} from './jsonSchema';
+import {RateLimitError} from './errors';
+import type {LlmProvider, StructuredOutputRequest, StructuredOutputResponse} from './types';
+
+interface ChatCompletionResponse {
+    model?: string;
+    choices?: { message?: { content?: string | null } }[];
+    usage?: unknown;
+}
+
+/**
+ * Create a provider for the server at baseUrl (e.g. http://localhost:11434/v1)
+ */
+export function createOpenAiCompatibleProvider(baseUrl: string): LlmProvider {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    return {
+        id: 'openai-compatible',
+        async generateStructured({prompt, schema, model}: StructuredOutputRequest): Promise<StructuredOutputResponse> {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: {'Content-Type': 'application/json'},
+                body: JSON.stringify({
+                    model,
+                    messages: [{role: 'user', content: prompt}],
+                    response_format: {
+                        type: 'json_schema',
+                        json_schema: {name: 'response', schema: toJsonSchema(schema)},
+                    },
+                }),
+            });
+
+            if (response.status === 429) {
+                throw new RateLimitError('LLM server rate limit exceeded (HTTP 429)');
+            }
+            if (!response.ok) {
+                const detail = await response.text().catch(() => '');
+                throw new Error(`LLM server returned HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+            }
+
+            const data = await response.json() as ChatCompletionResponse;
+            const text = data.choices?.[0]?.message?.content;
+            if (!text) {
+                throw new Error('No response from AI');
+            }
+
+            return {
+                text,
+                modelVersion: data.model || model,
+                usage: data.usage ?? null,
+            };
+        },
+    };
+}
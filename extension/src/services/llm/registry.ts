@@ -0,0 +1,38 @@
+/**
+ * LLM Provider Registry
+ *
+ * Builds the provider selected in settings.
+ */
+
+import type {ExtensionSettings} from '@/types';
+import {getSettings} from '../settings';
+import {resolveLlmBaseUrl, resolveLlmModel, resolveLlmProvider} from './config';
+import {createGeminiProvider} from './geminiProvider';
+import {createOpenAiCompatibleProvider} from './openAiCompatibleProvider';
+import type {LlmProvider} from './types';
+
+/**
+ * Provider and model to use for a call
+ */
+export interface ActiveLlmProvider {
+    provider: LlmProvider;
+    model: string;
+}
+
+/**
+ * Create the provider configured in the given settings
+ */
+export function createLlmProvider(settings: ExtensionSettings): ActiveLlmProvider {
+    const model = resolveLlmModel(settings);
+    if (resolveLlmProvider(settings) === 'openai-compatible') {
+        return {provider: createOpenAiCompatibleProvider(resolveLlmBaseUrl(settings)), model};
+    }
+    return {provider: createGeminiProvider(), model};
+}
+
+/**
+ * Get the provider configured in the active settings store
+ */
+export async function getActiveLlmProvider(): Promise<ActiveLlmProvider> {
+    return createLlmProvider(await getSettings());
+}
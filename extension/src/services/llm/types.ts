@@ -0,0 +1,45 @@
+/**
+ * LLM Provider Types
+ *
+ * Contract shared by every provider that can extract structured data
+ * from a listing page.
+ */
+
+import type {LlmProviderId} from '@/types';
+
+/**
+ * Structured-output request
+ */
+export interface StructuredOutputRequest {
+    prompt: string;
+    /** Response schema in the Gemini (OpenAPI subset) format used by services/gemini/schemas */
+    schema: object;
+    model: string;
+}
+
+/**
+ * Raw provider response - the caller parses and records it
+ */
+export interface StructuredOutputResponse {
+    /** JSON text matching the requested schema */
+    text: string;
+    /** Model version reported by the provider (the requested model if not reported) */
+    modelVersion: string;
+    /** Token usage as reported by the provider, null if not reported */
+    usage: unknown;
+}
+
+/**
+ * LLM provider
+ */
+export interface LlmProvider {
+    readonly id: LlmProviderId;
+
+    /**
+     * Generate JSON matching the request schema
+     *
+     * @throws RateLimitError if the provider rate limit is hit
+     * @throws Error for other failures, including an empty response
+     */
+    generateStructured(request: StructuredOutputRequest): Promise<StructuredOutputResponse>;
+}
@@ -0,0 +1,103 @@
+/**
+ * LLM Token Usage and Cost
+ *
+ * Reads token counts from provider responses and estimates what a call
+ * cost. The API records proxied calls with the same rules
+ * (api/src/gemini/usage.ts) - keep both in sync.
+ */
+
+import type {GeminiCallHistoryEntry} from '@/types';
+
+/**
+ * Token counts of one call
+ */
+export interface TokenUsage {
+    promptTokens: number;
+    responseTokens: number;
+}
+
+/** USD per million tokens */
+interface ModelPricing {
+    input: number;
+    output: number;
+}
+
+/**
+ * Published Gemini API prices (paid tier, prompts up to 200k tokens).
+ * Models are matched by the longest prefix, so dated previews use the
+ * price of their family. Other models have no estimate.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+    'gemini-2.5-pro': {input: 1.25, output: 10},
+    'gemini-2.5-flash': {input: 0.30, output: 2.50},
+    'gemini-2.5-flash-lite': {input: 0.10, output: 0.40},
+    'gemini-2.0-flash': {input: 0.10, output: 0.40},
+    'gemini-2.0-flash-lite': {input: 0.075, output: 0.30},
+};
+
+function readCount(value: unknown): number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Read token counts from Gemini usageMetadata or an OpenAI-style usage object
+ *
+ * @returns Token counts, or null when the provider reported none
+ */
+export function readTokenUsage(usage: unknown): TokenUsage | null {
+    if (!usage || typeof usage !== 'object') {
+        return null;
+    }
+
+    const fields = usage as Record<string, unknown>;
+    if ('promptTokenCount' in fields || 'candidatesTokenCount' in fields) {
+        // Thinking tokens are billed as output
+        return {
+            promptTokens: readCount(fields.promptTokenCount),
+            responseTokens: readCount(fields.candidatesTokenCount) + readCount(fields.thoughtsTokenCount),
+        };
+    }
+    if ('prompt_tokens' in fields || 'completion_tokens' in fields) {
+        return {
+            promptTokens: readCount(fields.prompt_tokens),
+            responseTokens: readCount(fields.completion_tokens),
+        };
+    }
+    return null;
+}
+
+/**
+ * Estimate the cost of a call in USD
+ *
+ * @returns The cost, or null for models without a known price
+ */
+export function estimateCostUsd(model: string, usage: TokenUsage): number | null {
+    const family = Object.keys(MODEL_PRICING)
+        .filter((name) => model === name || model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    if (!family) {
+        return null;
+    }
+
+    const pricing = MODEL_PRICING[family];
+    return (usage.promptTokens * pricing.input + usage.responseTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * History entry fields for a call's token usage
+ */
+export function toUsageFields(
+    model: string,
+    usage: TokenUsage | null,
+): Pick<GeminiCallHistoryEntry, 'promptTokens' | 'responseTokens' | 'costUsd'> {
+    if (!usage) {
+        return {};
+    }
+
+    const costUsd = estimateCostUsd(model, usage);
+    return {
+        promptTokens: usage.promptTokens,
+        responseTokens: usage.responseTokens,
+        ...(costUsd !== null ? {costUsd} : {}),
+    };
+}
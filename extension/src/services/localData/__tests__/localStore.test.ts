@@ -0,0 +1,167 @@
+/**
+ * Tests for the local-only mode store (chrome.storage.local)
+ *
+ * Uses the global chromeMock set up in setupTests.ts
+ */
+
+import {
+    addLocalGeminiHistory,
+    clearLocalData,
+    clearLocalGeminiHistory,
+    deleteLocalListing,
+    getLocalDataSummary,
+    getLocalGeminiHistory,
+    getLocalListings,
+    getLocalSettings,
+    isLocalModeEnabled,
+    LOCAL_DATA_KEYS,
+    MAX_LOCAL_GEMINI_HISTORY,
+    patchLocalSettings,
+    saveLocalListing,
+    saveLocalListings,
+    setLocalModeEnabled,
+} from '../localStore';
+import {getChromeMock} from '@/test-utils/chromeMock';
+import {createMockListing} from '@/test-utils/mockData';
+import {GeminiCallHistoryEntry} from '@/types';
+
+const createHistoryEntry = (id: string, timestamp: string): GeminiCallHistoryEntry => ({
+    id,
+    url: `https://www.otomoto.pl/${id}`,
+    promptPreview: 'Extract listing',
+    status: 'success',
+    timestamp,
+});
+
+describe('localStore', () => {
+    describe('local mode flag', () => {
+        it('should be disabled by default', async () => {
+            expect(await isLocalModeEnabled()).toBe(false);
+        });
+
+        it('should persist the flag in chrome.storage.local', async () => {
+            await setLocalModeEnabled(true);
+
+            expect(await isLocalModeEnabled()).toBe(true);
+            expect(getChromeMock().storage.local.set).toHaveBeenCalledWith(
+                {[LOCAL_DATA_KEYS.localMode]: true},
+                expect.any(Function),
+            );
+        });
+    });
+
+    describe('listings', () => {
+        it('should return an empty list when nothing is stored', async () => {
+            expect(await getLocalListings()).toEqual([]);
+        });
+
+        it('should add new listings and update existing ones by ID', async () => {
+            await saveLocalListing(createMockListing({id: 'a', title: 'First'}));
+            await saveLocalListing(createMockListing({id: 'b', title: 'Second'}));
+            await saveLocalListing(createMockListing({id: 'a', title: 'First (updated)'}));
+
+            const listings = await getLocalListings();
+            expect(listings.map(l => [l.id, l.title])).toEqual([
+                ['a', 'First (updated)'],
+                ['b', 'Second'],
+            ]);
+        });
+
+        it('should replace all listings', async () => {
+            await saveLocalListing(createMockListing({id: 'old'}));
+
+            const result = await saveLocalListings([createMockListing({id: 'new'})]);
+
+            expect(result).toEqual({success: true, count: 1});
+            expect((await getLocalListings()).map(l => l.id)).toEqual(['new']);
+        });
+
+        it('should delete a listing by ID', async () => {
+            await saveLocalListings([createMockListing({id: 'a'}), createMockListing({id: 'b'})]);
+
+            await deleteLocalListing('a');
+
+            expect((await getLocalListings()).map(l => l.id)).toEqual(['b']);
+        });
+    });
+
+    describe('settings', () => {
+        it('should return defaults when nothing is stored', async () => {
+            const settings = await getLocalSettings();
+
+            expect(settings.geminiApiKey).toBe('');
+            expect(settings.checkFrequencyMinutes).toBeGreaterThan(0);
+        });
+
+        it('should merge patches into stored settings', async () => {
+            await patchLocalSettings({geminiApiKey: 'key-1'});
+            const updated = await patchLocalSettings({checkFrequencyMinutes: 15});
+
+            expect(updated.geminiApiKey).toBe('key-1');
+            expect(updated.checkFrequencyMinutes).toBe(15);
+            expect(await getLocalSettings()).toEqual(updated);
+        });
+    });
+
+    describe('Gemini history', () => {
+        it('should keep entries newest first', async () => {
+            await addLocalGeminiHistory(createHistoryEntry('older', '2024-01-01T10:00:00Z'));
+            await addLocalGeminiHistory([
+                createHistoryEntry('newest', '2024-01-03T10:00:00Z'),
+                createHistoryEntry('middle', '2024-01-02T10:00:00Z'),
+            ]);
+
+            expect((await getLocalGeminiHistory()).map(e => e.id)).toEqual(['newest', 'middle', 'older']);
+        });
+
+        it('should respect the limit', async () => {
+            await addLocalGeminiHistory([
+                createHistoryEntry('a', '2024-01-01T10:00:00Z'),
+                createHistoryEntry('b', '2024-01-02T10:00:00Z'),
+            ]);
+
+            expect((await getLocalGeminiHistory(1)).map(e => e.id)).toEqual(['b']);
+        });
+
+        it('should cap stored history', async () => {
+            const entries = Array.from({length: MAX_LOCAL_GEMINI_HISTORY + 5}, (_, i) =>
+                createHistoryEntry(`e${i}`, new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString()),
+            );
+
+            await addLocalGeminiHistory(entries);
+
+            const history = await getLocalGeminiHistory(MAX_LOCAL_GEMINI_HISTORY + 5);
+            expect(history).toHaveLength(MAX_LOCAL_GEMINI_HISTORY);
+            expect(history[0].id).toBe(`e${MAX_LOCAL_GEMINI_HISTORY + 4}`);
+        });
+
+        it('should clear history and report deleted count', async () => {
+            await addLocalGeminiHistory(createHistoryEntry('a', '2024-01-01T10:00:00Z'));
+
+            expect(await clearLocalGeminiHistory()).toEqual({success: true, deleted: 1});
+            expect(await getLocalGeminiHistory()).toEqual([]);
+        });
+    });
+
+    describe('whole store', () => {
+        it('should summarize stored data', async () => {
+            await saveLocalListings([createMockListing({id: 'a'}), createMockListing({id: 'b'})]);
+            await addLocalGeminiHistory(createHistoryEntry('h', '2024-01-01T10:00:00Z'));
+
+            expect(await getLocalDataSummary()).toEqual({listings: 2, geminiHistoryEntries: 1});
+        });
+
+        it('should clear data but keep the local mode flag', async () => {
+            await setLocalModeEnabled(true);
+            await saveLocalListings([createMockListing()]);
+            await patchLocalSettings({geminiApiKey: 'key'});
+            await addLocalGeminiHistory(createHistoryEntry('h', '2024-01-01T10:00:00Z'));
+
+            await clearLocalData();
+
+            expect(await getLocalDataSummary()).toEqual({listings: 0, geminiHistoryEntries: 0});
+            expect((await getLocalSettings()).geminiApiKey).toBe('');
+            expect(await isLocalModeEnabled()).toBe(true);
+        });
+    });
+});
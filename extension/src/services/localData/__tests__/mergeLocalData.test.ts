@@ -0,0 +1,161 @@
+/**
+ * Tests for merging local-only mode data into the signed-in account
+ */
+
+import {mergeLocalDataIntoServer} from '../mergeLocalData';
+import {
+    addLocalGeminiHistory,
+    getLocalDataSummary,
+    isLocalModeEnabled,
+    patchLocalSettings,
+    saveLocalListings,
+    setLocalModeEnabled,
+} from '../localStore';
+import {createMockListing} from '@/test-utils/mockData';
+
+const mockGetRemoteListings = jest.fn();
+const mockPatchRemoteListings = jest.fn();
+const mockAddRemoteGeminiHistory = jest.fn();
+const mockGetRemoteSettings = jest.fn();
+const mockPatchRemoteSettings = jest.fn();
+
+jest.mock('@/api/client', () => ({
+    getRemoteListings: (...args: unknown[]) => mockGetRemoteListings(...args),
+    patchRemoteListings: (...args: unknown[]) => mockPatchRemoteListings(...args),
+    addRemoteGeminiHistory: (...args: unknown[]) => mockAddRemoteGeminiHistory(...args),
+    getRemoteSettings: (...args: unknown[]) => mockGetRemoteSettings(...args),
+    patchRemoteSettings: (...args: unknown[]) => mockPatchRemoteSettings(...args),
+}));
+
+describe('mergeLocalDataIntoServer', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockGetRemoteListings.mockResolvedValue([createMockListing({id: 'shared', title: 'Server copy'})]);
+        mockPatchRemoteListings.mockResolvedValue({success: true, count: 0});
+        mockAddRemoteGeminiHistory.mockResolvedValue({success: true, count: 0});
+        mockGetRemoteSettings.mockResolvedValue({geminiApiKeyConfigured: false, checkFrequencyMinutes: 60});
+        mockPatchRemoteSettings.mockResolvedValue({});
+    });
+
+    it('should merge local listings with server listings by ID', async () => {
+        await saveLocalListings([
+            createMockListing({id: 'shared', title: 'Local copy'}),
+            createMockListing({id: 'local-only', title: 'Local only'}),
+        ]);
+
+        const result = await mergeLocalDataIntoServer();
+
+        expect(result).toEqual({added: 1, updated: 1, geminiHistoryEntries: 0});
+        const saved = mockPatchRemoteListings.mock.calls[0][0];
+        expect(saved.map((l: { id: string }) => l.id).sort()).toEqual(['local-only', 'shared']);
+    });
+
+    it('should only send the local listings, with the server revision', async () => {
+        mockGetRemoteListings.mockResolvedValue([
+            createMockListing({id: 'shared', revision: 4}),
+            createMockListing({id: 'server-only', revision: 1}),
+        ]);
+        await saveLocalListings([createMockListing({id: 'shared'}), createMockListing({id: 'local-only', revision: 7})]);
+
+        await mergeLocalDataIntoServer();
+
+        const saved = mockPatchRemoteListings.mock.calls[0][0] as Array<{ id: string; revision?: number }>;
+        expect(saved.map((l) => [l.id, l.revision])).toEqual([['shared', 4], ['local-only', undefined]]);
+    });
+
+    it('should skip the listings upload when there are no local listings', async () => {
+        await mergeLocalDataIntoServer();
+
+        expect(mockGetRemoteListings).not.toHaveBeenCalled();
+        expect(mockPatchRemoteListings).not.toHaveBeenCalled();
+    });
+
+    it('should upload local Gemini history', async () => {
+        const entry = {
+            id: 'h1',
+            url: 'https://www.otomoto.pl/a',
+            promptPreview: 'Extract listing',
+            status: 'success' as const,
+            timestamp: '2024-01-01T10:00:00Z',
+        };
+        await addLocalGeminiHistory(entry);
+
+        const result = await mergeLocalDataIntoServer();
+
+        expect(mockAddRemoteGeminiHistory).toHaveBeenCalledWith([entry]);
+        expect(result.geminiHistoryEntries).toBe(1);
+    });
+
+    it('should only fill settings missing on the server', async () => {
+        await patchLocalSettings({geminiApiKey: 'local-key', checkFrequencyMinutes: 5});
+
+        await mergeLocalDataIntoServer();
+
+        expect(mockPatchRemoteSettings).toHaveBeenCalledWith({geminiApiKey: 'local-key'});
+    });
+
+    it('should move the local LLM provider to a server still using the default', async () => {
+        mockGetRemoteSettings.mockResolvedValue({
+            geminiApiKeyConfigured: true,
+            checkFrequencyMinutes: 60,
+            llmProvider: 'gemini',
+            llmModel: '',
+        });
+        await patchLocalSettings({llmProvider: 'openai-compatible', llmModel: 'qwen2.5', llmBaseUrl: ''});
+
+        await mergeLocalDataIntoServer();
+
+        expect(mockPatchRemoteSettings).toHaveBeenCalledWith({
+            llmProvider: 'openai-compatible',
+            llmModel: 'qwen2.5',
+            llmBaseUrl: '',
+        });
+    });
+
+    it('should move local custom marketplaces to a server without any', async () => {
+        const customMarketplaces = [{
+            id: 'custom-cars.example.com',
+            name: 'Example Cars',
+            domains: ['cars.example.com'],
+            offerPagePatterns: ['/offer/'],
+            excludePatterns: [],
+            neverFetch: false,
+        }];
+        mockGetRemoteSettings.mockResolvedValue({geminiApiKeyConfigured: true, checkFrequencyMinutes: 60});
+        await patchLocalSettings({customMarketplaces});
+
+        await mergeLocalDataIntoServer();
+
+        expect(mockPatchRemoteSettings).toHaveBeenCalledWith({customMarketplaces});
+    });
+
+    it('should keep server settings that are already set', async () => {
+        mockGetRemoteSettings.mockResolvedValue({geminiApiKeyConfigured: true, checkFrequencyMinutes: 60});
+        await patchLocalSettings({geminiApiKey: 'local-key'});
+
+        await mergeLocalDataIntoServer();
+
+        expect(mockPatchRemoteSettings).not.toHaveBeenCalled();
+    });
+
+    it('should clear local data and turn off local mode afterwards', async () => {
+        await setLocalModeEnabled(true);
+        await saveLocalListings([createMockListing({id: 'local-only'})]);
+
+        await mergeLocalDataIntoServer();
+
+        expect(await getLocalDataSummary()).toEqual({listings: 0, geminiHistoryEntries: 0});
+        expect(await isLocalModeEnabled()).toBe(false);
+    });
+
+    it('should keep local data when the upload fails', async () => {
+        mockPatchRemoteListings.mockRejectedValue(new Error('Network error'));
+        await setLocalModeEnabled(true);
+        await saveLocalListings([createMockListing({id: 'local-only'})]);
+
+        await expect(mergeLocalDataIntoServer()).rejects.toThrow('Network error');
+
+        expect((await getLocalDataSummary()).listings).toBe(1);
+        expect(await isLocalModeEnabled()).toBe(true);
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Data Store Selection
+ *
+ * Listings, settings and Gemini history are read and written through the
+ * same operations whether they live on the API (signed in) or in
+ * chrome.storage.local (local-only mode).
+ */
+
+import {CarListing, GeminiCallHistoryEntry} from '@/types';
+import {
+    addRemoteGeminiHistory,
+    clearRemoteGeminiHistory,
+    deleteRemoteListing,
+    getRemoteGeminiHistory,
+    getRemoteListings,
+    getRemoteSettings,
+    patchRemoteListings,
+    patchRemoteSettings,
+    RemoteSettings,
+    saveRemoteListing,
+    saveRemoteListings,
+} from '@/api/client';
+import {getToken} from '@/auth/oauthClient';
+import {
+    addLocalGeminiHistory,
+    clearLocalGeminiHistory,
+    deleteLocalListing,
+    getLocalGeminiHistory,
+    getLocalListings,
+    getLocalSettings,
+    isLocalModeEnabled,
+    patchLocalSettings,
+    saveLocalListing,
+    saveLocalListings,
+    upsertLocalListings,
+} from './localStore';
+
+/**
+ * Storage operations shared by the API client and the local store
+ */
+export interface DataStore {
+    isLocal: boolean;
+    getListings: () => Promise<CarListing[]>;
+    saveListing: (listing: CarListing) => Promise<CarListing>;
+    saveListings: (listings: CarListing[]) => Promise<{ success: boolean; count: number }>;
+    upsertListings: (listings: CarListing[]) => Promise<{ success: boolean; count: number }>;
+    deleteListing: (listingId: string) => Promise<{ success: boolean }>;
+    getSettings: () => Promise<RemoteSettings>;
+    patchSettings: (settings: Partial<RemoteSettings>) => Promise<RemoteSettings>;
+    getGeminiHistory: (limit?: number) => Promise<GeminiCallHistoryEntry[]>;
+    addGeminiHistory: (
+        entries: GeminiCallHistoryEntry | GeminiCallHistoryEntry[],
+    ) => Promise<{ success: boolean; count: number }>;
+    clearGeminiHistory: () => Promise<{ success: boolean; deleted: number }>;
+}
+
+export const remoteDataStore: DataStore = {
+    isLocal: false,
+    getListings: getRemoteListings,
+    saveListing: saveRemoteListing,
+    saveListings: saveRemoteListings,
+    upsertListings: patchRemoteListings,
+    deleteListing: deleteRemoteListing,
+    getSettings: getRemoteSettings,
+    patchSettings: patchRemoteSettings,
+    getGeminiHistory: getRemoteGeminiHistory,
+    addGeminiHistory: addRemoteGeminiHistory,
+    clearGeminiHistory: clearRemoteGeminiHistory,
+};
+
+export const localDataStore: DataStore = {
+    isLocal: true,
+    getListings: getLocalListings,
+    saveListing: saveLocalListing,
+    saveListings: saveLocalListings,
+    upsertListings: upsertLocalListings,
+    deleteListing: deleteLocalListing,
+    getSettings: getLocalSettings,
+    patchSettings: patchLocalSettings,
+    getGeminiHistory: getLocalGeminiHistory,
+    addGeminiHistory: addLocalGeminiHistory,
+    clearGeminiHistory: clearLocalGeminiHistory,
+};
+
+/**
+ * Store for code running outside React (services, background worker).
+ * Signed-in users always use the API; otherwise local mode decides.
+ */
+export const getActiveDataStore = async (): Promise<DataStore> => {
+    if (await getToken()) {
+        return remoteDataStore;
+    }
+    return (await isLocalModeEnabled()) ? localDataStore : remoteDataStore;
+};
@@ -0,0 +1,31 @@
+/**
+ * Local Data Service - Barrel Export
+ *
+ * Local-only mode: listings, settings and Gemini history kept in
+ * chrome.storage.local, and merging them into an account after sign-in.
+ */
+
+export {
+    addLocalGeminiHistory,
+    clearLocalData,
+    clearLocalGeminiHistory,
+    deleteLocalListing,
+    getLocalDataSummary,
+    getLocalGeminiHistory,
+    getLocalListings,
+    getLocalSettings,
+    isLocalModeEnabled,
+    patchLocalSettings,
+    saveLocalListing,
+    saveLocalListings,
+    setLocalModeEnabled,
+    LOCAL_DATA_KEYS,
+    MAX_LOCAL_GEMINI_HISTORY,
+} from './localStore';
+export type {LocalDataSummary} from './localStore';
+
+export {getActiveDataStore, localDataStore, remoteDataStore} from './dataStore';
+export type {DataStore} from './dataStore';
+
+export {mergeLocalDataIntoServer} from './mergeLocalData';
+export type {LocalDataMergeResult} from './mergeLocalData';
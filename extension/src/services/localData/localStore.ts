@@ -0,0 +1,177 @@
+/**
+ * Local Data Store
+ *
+ * Keeps listings, settings and Gemini call history in chrome.storage.local
+ * for local-only mode, so the extension can be used without signing in
+ * or deploying the API. Settings use the same shape as the API settings.
+ */
+
+import {CarListing, GeminiCallHistoryEntry, GeminiStats} from '@/types';
+import {RemoteSettings} from '@/api/client';
+import {localExtensionStorage} from '@/services/extensionStorage';
+
+/** chrome.storage.local keys used by local-only mode */
+export const LOCAL_DATA_KEYS = {
+    localMode: 'motorscope_local_mode',
+    listings: 'motorscope_local_listings',
+    settings: 'motorscope_local_settings',
+    geminiHistory: 'motorscope_local_gemini_history',
+} as const;
+
+/** Gemini call history entries kept locally (matches what the settings page loads) */
+export const MAX_LOCAL_GEMINI_HISTORY = 200;
+
+const DEFAULT_GEMINI_STATS: GeminiStats = {
+    allTimeTotalCalls: 0,
+    totalCalls: 0,
+    successCount: 0,
+    errorCount: 0,
+};
+
+const DEFAULT_LOCAL_SETTINGS: RemoteSettings = {
+    geminiApiKey: '',
+    checkFrequencyMinutes: 60,
+    geminiStats: DEFAULT_GEMINI_STATS,
+};
+
+/**
+ * Amount of data stored locally
+ */
+export interface LocalDataSummary {
+    listings: number;
+    geminiHistoryEntries: number;
+}
+
+// ============================================================================
+// Local Mode Flag
+// ============================================================================
+
+/**
+ * Whether the user chose to use the extension without an account
+ */
+export const isLocalModeEnabled = async (): Promise<boolean> =>
+    (await localExtensionStorage.get<boolean>(LOCAL_DATA_KEYS.localMode)) === true;
+
+/**
+ * Turn local-only mode on or off (stored data is kept either way)
+ */
+export const setLocalModeEnabled = async (enabled: boolean): Promise<void> => {
+    await localExtensionStorage.set(LOCAL_DATA_KEYS.localMode, enabled);
+};
+
+// ============================================================================
+// Listings
+// ============================================================================
+
+export const getLocalListings = async (): Promise<CarListing[]> =>
+    (await localExtensionStorage.get<CarListing[]>(LOCAL_DATA_KEYS.listings)) ?? [];
+
+/**
+ * Replace all local listings
+ */
+export const saveLocalListings = async (listings: CarListing[]): Promise<{ success: boolean; count: number }> => {
+    await localExtensionStorage.set(LOCAL_DATA_KEYS.listings, listings);
+    return {success: true, count: listings.length};
+};
+
+/**
+ * Add or update several listings by ID, keeping the others
+ */
+export const upsertLocalListings = async (updates: CarListing[]): Promise<{ success: boolean; count: number }> => {
+    const byId = new Map((await getLocalListings()).map((listing) => [listing.id, listing]));
+    updates.forEach((listing) => byId.set(listing.id, listing));
+    await localExtensionStorage.set(LOCAL_DATA_KEYS.listings, Array.from(byId.values()));
+    return {success: true, count: updates.length};
+};
+
+/**
+ * Add or update a single listing by ID
+ */
+export const saveLocalListing = async (listing: CarListing): Promise<CarListing> => {
+    const listings = await getLocalListings();
+    const index = listings.findIndex(l => l.id === listing.id);
+    if (index === -1) {
+        listings.push(listing);
+    } else {
+        listings[index] = listing;
+    }
+    await localExtensionStorage.set(LOCAL_DATA_KEYS.listings, listings);
+    return listing;
+};
+
+export const deleteLocalListing = async (listingId: string): Promise<{ success: boolean }> => {
+    const listings = await getLocalListings();
+    await localExtensionStorage.set(LOCAL_DATA_KEYS.listings, listings.filter(l => l.id !== listingId));
+    return {success: true};
+};
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+export const getLocalSettings = async (): Promise<RemoteSettings> => {
+    const stored = await localExtensionStorage.get<Partial<RemoteSettings>>(LOCAL_DATA_KEYS.settings);
+    return {...DEFAULT_LOCAL_SETTINGS, ...stored};
+};
+
+/**
+ * Partially update local settings (same semantics as the API PATCH)
+ */
+export const patchLocalSettings = async (settings: Partial<RemoteSettings>): Promise<RemoteSettings> => {
+    const updated = {...await getLocalSettings(), ...settings};
+    await localExtensionStorage.set(LOCAL_DATA_KEYS.settings, updated);
+    return updated;
+};
+
+// ============================================================================
+// Gemini History
+// ============================================================================
+
+/**
+ * Get local Gemini call history, newest first
+ */
+export const getLocalGeminiHistory = async (limit: number = 100): Promise<GeminiCallHistoryEntry[]> => {
+    const history = (await localExtensionStorage.get<GeminiCallHistoryEntry[]>(LOCAL_DATA_KEYS.geminiHistory)) ?? [];
+    return history.slice(0, limit);
+};
+
+export const addLocalGeminiHistory = async (
+    entries: GeminiCallHistoryEntry | GeminiCallHistoryEntry[],
+): Promise<{ success: boolean; count: number }> => {
+    const added = Array.isArray(entries) ? entries : [entries];
+    const history = await getLocalGeminiHistory(MAX_LOCAL_GEMINI_HISTORY);
+    const updated = [...added, ...history]
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, MAX_LOCAL_GEMINI_HISTORY);
+    await localExtensionStorage.set(LOCAL_DATA_KEYS.geminiHistory, updated);
+    return {success: true, count: added.length};
+};
+
+export const clearLocalGeminiHistory = async (): Promise<{ success: boolean; deleted: number }> => {
+    const history = await getLocalGeminiHistory(MAX_LOCAL_GEMINI_HISTORY);
+    await localExtensionStorage.remove([LOCAL_DATA_KEYS.geminiHistory]);
+    return {success: true, deleted: history.length};
+};
+
+// ============================================================================
+// Whole Store
+// ============================================================================
+
+export const getLocalDataSummary = async (): Promise<LocalDataSummary> => {
+    const [listings, history] = await Promise.all([
+        getLocalListings(),
+        getLocalGeminiHistory(MAX_LOCAL_GEMINI_HISTORY),
+    ]);
+    return {listings: listings.length, geminiHistoryEntries: history.length};
+};
+
+/**
+ * Remove all locally stored data (the local mode flag is left untouched)
+ */
+export const clearLocalData = async (): Promise<void> => {
+    await localExtensionStorage.remove([
+        LOCAL_DATA_KEYS.listings,
+        LOCAL_DATA_KEYS.settings,
+        LOCAL_DATA_KEYS.geminiHistory,
+    ]);
+};
@@ -0,0 +1,94 @@
+/**
+ * Local Data Merge
+ *
+ * Moves data collected in local-only mode into the signed-in account.
+ * Listings are merged by ID like a file import, so listings already on the
+ * server are updated rather than duplicated.
+ */
+
+import {
+    addRemoteGeminiHistory,
+    getRemoteListings,
+    getRemoteSettings,
+    patchRemoteListings,
+    patchRemoteSettings,
+    RemoteSettings,
+} from '@/api/client';
+import {mergeImportedListings} from '@/services/import/listingImport';
+import {resolveLlmProvider} from '@/services/llm/config';
+import {
+    clearLocalData,
+    getLocalGeminiHistory,
+    getLocalListings,
+    getLocalSettings,
+    MAX_LOCAL_GEMINI_HISTORY,
+    setLocalModeEnabled,
+} from './localStore';
+
+/**
+ * What was moved to the server
+ */
+export interface LocalDataMergeResult {
+    added: number;
+    updated: number;
+    geminiHistoryEntries: number;
+}
+
+/**
+ * Whether settings still use the default provider and model
+ */
+const usesDefaultLlmProvider = (settings: RemoteSettings): boolean =>
+    resolveLlmProvider(settings) === 'gemini' && !settings.llmModel?.trim();
+
+/**
+ * Merge local listings, Gemini history and settings into the server.
+ * Server settings win; local ones only fill values not set on the server.
+ * Local data is cleared and local mode turned off once everything is saved.
+ * Requires authentication.
+ */
+export const mergeLocalDataIntoServer = async (): Promise<LocalDataMergeResult> => {
+    const [localListings, localSettings, localHistory] = await Promise.all([
+        getLocalListings(),
+        getLocalSettings(),
+        getLocalGeminiHistory(MAX_LOCAL_GEMINI_HISTORY),
+    ]);
+
+    let added = 0;
+    let updated = 0;
+    if (localListings.length > 0) {
+        // Only the local listings are written, so listings added elsewhere are kept
+        const merged = mergeImportedListings(await getRemoteListings(), localListings);
+        await patchRemoteListings(merged.changed);
+        added = merged.added;
+        updated = merged.updated;
+    }
+
+    if (localHistory.length > 0) {
+        await addRemoteGeminiHistory(localHistory);
+    }
+
+    const remoteSettings = await getRemoteSettings();
+    const settingsPatch: Partial<RemoteSettings> = {};
+    if (!remoteSettings.geminiApiKeyConfigured && localSettings.geminiApiKey) {
+        settingsPatch.geminiApiKey = localSettings.geminiApiKey;
+    }
+    if (usesDefaultLlmProvider(remoteSettings) && !usesDefaultLlmProvider(localSettings)) {
+        settingsPatch.llmProvider = localSettings.llmProvider;
+        settingsPatch.llmModel = localSettings.llmModel;
+        settingsPatch.llmBaseUrl = localSettings.llmBaseUrl;
+    }
+    if (!remoteSettings.alertRules && localSettings.alertRules) {
+        settingsPatch.alertRules = localSettings.alertRules;
+    }
+    if (!remoteSettings.customMarketplaces?.length && localSettings.customMarketplaces?.length) {
+        settingsPatch.customMarketplaces = localSettings.customMarketplaces;
+    }
+    if (Object.keys(settingsPatch).length > 0) {
+        await patchRemoteSettings(settingsPatch);
+    }
+
+    await clearLocalData();
+    await setLocalModeEnabled(false);
+
+    return {added, updated, geminiHistoryEntries: localHistory.length};
+};
@@ -323,6 +323,65 @@ describe('fetchListingPage', () => {
             expect(result.usedBackgroundTab).toBe(false);
         });
 
+        it('should detect the OLX "no longer available" page', async () => {
+            global.fetch = jest.fn().mockResolvedValue({
+                ok: true,
+                status: 200,
+                url: 'https://www.olx.pl/motoryzacja/samochody/?reason=observed_inactive',
+                text: async () => '<html><title>OLX</title><body><h3>To ogłoszenie nie jest już dostępne</h3></body></html>',
+            });
+
+            const result = await fetchListingPage('https://www.olx.pl/d/oferta/bmw-seria-3-320d-CID5-IDZx8Kq.html');
+
+            expect(result.expired).toBe(true);
+            expect(result.status).toBe(200);
+            expect(result.textContent).toBeUndefined();
+        });
+
+        it('should detect AutoScout24 listings redirected to search results', async () => {
+            global.fetch = jest.fn().mockResolvedValue({
+                ok: true,
+                status: 200,
+                url: 'https://www.autoscout24.de/lst/bmw/320?source=detailpage',
+                text: async () => '<html><title>BMW 320 gebraucht</title><body>1.234 Angebote</body></html>',
+            });
+
+            const result = await fetchListingPage(
+                'https://www.autoscout24.de/angebote/bmw-320-d-touring-diesel-grau-6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f',
+            );
+
+            expect(result.expired).toBe(true);
+        });
+
+        it('should not treat an active OLX ad mentioning the notice as expired', async () => {
+            const url = 'https://www.olx.pl/d/oferta/bmw-seria-3-320d-CID5-IDZx8Kq.html';
+            global.fetch = jest.fn().mockResolvedValue({
+                ok: true,
+                status: 200,
+                url,
+                text: async () => '<html><title>BMW</title><body>45 900 zł. Stare ogłoszenie jest nieaktywne.</body></html>',
+            });
+
+            const result = await fetchListingPage(url);
+
+            expect(result.expired).toBe(false);
+        });
+
+        it('should not treat active AutoScout24 listings as expired', async () => {
+            const url = 'https://www.autoscout24.de/angebote/bmw-320-d-touring-diesel-grau-6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f';
+            global.fetch = jest.fn().mockResolvedValue({
+                ok: true,
+                status: 200,
+                url,
+                text: async () => '<html><title>BMW 320d Touring</title><body>24.900 € Unfallfrei</body></html>',
+            });
+
+            const result = await fetchListingPage(url);
+
+            expect(result.expired).toBe(false);
+            expect(result.textContent).toContain('24.900 €');
+        });
+
         it('should handle non-OK, non-Cloudflare responses without fallback', async () => {
             global.fetch = jest.fn().mockResolvedValue({
                 ok: false,
@@ -383,6 +442,39 @@ describe('fetchListingPage', () => {
             expect(result.usedBackgroundTab).toBe(true);
         });
 
+        it('should detect the marketplace "no longer available" page in background tab', async () => {
+            const mockTabId = 123;
+            (chrome.tabs.create as jest.Mock).mockImplementation((options, callback) => {
+                callback({id: mockTabId});
+                return Promise.resolve({id: mockTabId});
+            });
+
+            (chrome.scripting.executeScript as jest.Mock).mockResolvedValue([
+                {
+                    result: {
+                        title: 'AutoScout24',
+                        html: '<html><body><p>Dieses Fahrzeug ist leider nicht mehr verfügbar.</p></body></html>',
+                        url: 'https://www.autoscout24.de/',
+                        is404: false,
+                        is410: false,
+                    },
+                },
+            ]);
+
+            (chrome.tabs.onUpdated.addListener as jest.Mock).mockImplementation((listener) => {
+                setTimeout(() => {
+                    listener(mockTabId, {status: 'complete'}, {id: mockTabId});
+                }, 10);
+            });
+
+            const result = await fetchListingPage(
+                'https://www.autoscout24.de/angebote/audi-a4-avant-1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e', true,
+            );
+
+            expect(result.expired).toBe(true);
+            expect(result.usedBackgroundTab).toBe(true);
+        });
+
         it('should handle tab creation failure after fetch fails', async () => {
             global.fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
 
@@ -410,7 +502,7 @@ describe('fetchListingPage', () => {
                         html: '<html lang="pl"><body>Item content</body></html>',
                         is404: false,
                         is410: false,
-                        facebookLoginRequired: false,
+                        loginRequired: false,
                     },
                 },
             ]);
@@ -445,7 +537,7 @@ describe('fetchListingPage', () => {
                         html: '<html lang="pl"><body>Log into Facebook</body></html>',
                         is404: false,
                         is410: false,
-                        facebookLoginRequired: true,
+                        loginRequired: true,
                     },
                 },
             ]);
@@ -462,5 +554,35 @@ describe('fetchListingPage', () => {
             expect(result.expired).toBe(false);
             expect(result.textContent).toBeUndefined();
         });
+
+        it('should check the page against the marketplace login hints', async () => {
+            const mockTabId = 790;
+            (chrome.tabs.create as jest.Mock).mockImplementation((options, callback) => {
+                callback({id: mockTabId});
+                return Promise.resolve({id: mockTabId});
+            });
+
+            (chrome.scripting.executeScript as jest.Mock).mockResolvedValue([
+                {result: {title: 'Item', html: '<html lang="pl"><body>Item</body></html>', is404: false, is410: false}},
+            ]);
+
+            (chrome.tabs.onUpdated.addListener as jest.Mock).mockImplementation((listener) => {
+                setTimeout(() => {
+                    listener(mockTabId, {status: 'complete'}, {id: mockTabId});
+                }, 10);
+            });
+
+            await fetchListingPage('https://www.facebook.com/marketplace/item/12345');
+
+            const [{func, args}] = (chrome.scripting.executeScript as jest.Mock).mock.calls[0];
+            expect(args[0].formSelectors).toEqual(['input[name="email"]', 'input[name="pass"]']);
+
+            document.body.innerHTML = '<form><input name="email"><input name="pass"></form>';
+            expect(func(...args).loginRequired).toBe(true);
+
+            document.body.innerHTML = '<main>Ford Ranger 2019</main>';
+            expect(func(...args).loginRequired).toBe(false);
+            document.body.innerHTML = '';
+        });
     });
 });
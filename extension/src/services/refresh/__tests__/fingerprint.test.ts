@@ -0,0 +1,65 @@
+/**
+ * Tests for Page Content Fingerprint
+ */
+
+import {computeContentFingerprint, extractHtmlText, normalizePageContent} from '../fingerprint';
+import {
+    computeContentFingerprint as computeServerFingerprint,
+    extractHtmlText as extractServerHtmlText,
+} from '../../../../../api/src/refresh/fingerprint';
+
+const LISTING_HTML = `<!DOCTYPE html>
+<html><head><title>BMW 320d</title>
+<style>.price { color: red; }</style>
+<script type="application/ld+json">{"@type": "Car", "offers": {"price": "129900"}}</script>
+<script>window.__STATE__ = {"viewedAt": "12:05"};</script>
+</head><body>
+<!-- rendered at 12:05 -->
+<noscript>Enable JavaScript</noscript>
+<h1>BMW   320d</h1>
+<p class="price">129 900 PLN</p>
+<template><p>Hidden offer</p></template>
+<footer>Dodane dzisiaj 12:05</footer>
+</body></html>`;
+
+describe('normalizePageContent', () => {
+    it('should lowercase and collapse whitespace', () => {
+        expect(normalizePageContent('  BMW   320d\n\n129 900 PLN ')).toBe('bmw 320d 129 900 pln');
+    });
+
+    it('should drop clock times', () => {
+        expect(normalizePageContent('Dodane dzisiaj 12:05')).toBe('dodane dzisiaj');
+        expect(normalizePageContent('Aktualizacja 6:23:10 wczoraj')).toBe('aktualizacja wczoraj');
+    });
+});
+
+describe('computeContentFingerprint', () => {
+    it('should return a 14-character hex string', () => {
+        expect(computeContentFingerprint('BMW 320d')).toMatch(/^[0-9a-f]{14}$/);
+    });
+
+    it('should ignore cosmetic differences', () => {
+        expect(computeContentFingerprint('BMW 320d  129 900 PLN 12:05'))
+            .toBe(computeContentFingerprint('bmw 320d\n129 900 pln 18:40'));
+    });
+
+    it('should change when the content changes', () => {
+        expect(computeContentFingerprint('BMW 320d 129 900 PLN'))
+            .not.toBe(computeContentFingerprint('BMW 320d 119 900 PLN'));
+    });
+});
+
+describe('extractHtmlText', () => {
+    it('should drop scripts, styles, comments and hidden elements', () => {
+        expect(extractHtmlText(LISTING_HTML)).toBe('BMW 320d BMW 320d 129 900 PLN Dodane dzisiaj 12:05');
+    });
+});
+
+describe('fingerprint shared with the server', () => {
+    it('should give the same text and fingerprint for the same HTML as the server', () => {
+        const text = extractHtmlText(LISTING_HTML);
+
+        expect(extractServerHtmlText(LISTING_HTML)).toBe(text);
+        expect(computeServerFingerprint(extractServerHtmlText(LISTING_HTML))).toBe(computeContentFingerprint(text));
+    });
+});
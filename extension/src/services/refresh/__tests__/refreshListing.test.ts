@@ -43,7 +43,9 @@ import {refreshSingleListing} from '../refreshListing';
 import {refreshListingWithGemini} from '../../gemini';
 import {fetchListingPage} from '../fetcher';
 import {hasPriceChangedFromPreviousDay, updateDailyPriceHistory} from '../priceHistory';
+import {computeContentFingerprint} from '../fingerprint';
 import {CarListing, ListingStatus} from '@/types';
+import {setCustomMarketplaces} from '@/config/marketplaces';
 
 const mockRefreshWithGemini = refreshListingWithGemini as jest.MockedFunction<typeof refreshListingWithGemini>;
 const mockFetchListingPage = fetchListingPage as jest.MockedFunction<typeof fetchListingPage>;
@@ -157,6 +159,31 @@ describe('Refresh Listing Service', () => {
             expect(result.listing.status).toBe(ListingStatus.ACTIVE);
             expect(result.listing.lastRefreshStatus).toBe('success');
             expect(result.listing.lastRefreshError).toBeUndefined();
+            expect(result.listing.lastRefreshSource).toBe('extension');
+        });
+
+        it('should pass the page HTML to the extractor', async () => {
+            mockFetchListingPage.mockResolvedValue({
+                expired: false,
+                status: 200,
+                textContent: 'content',
+                pageTitle: 'title',
+                html: '<html>page</html>',
+            });
+            mockRefreshWithGemini.mockResolvedValue({
+                price: 145000,
+                currency: 'PLN',
+                status: ListingStatus.ACTIVE,
+            });
+
+            await refreshSingleListing(baseListing);
+
+            expect(mockRefreshWithGemini).toHaveBeenCalledWith(
+                baseListing.source.url,
+                'content',
+                'title',
+                '<html>page</html>',
+            );
         });
 
         it('should update lastSeenAt on successful refresh', async () => {
@@ -251,6 +278,77 @@ describe('Refresh Listing Service', () => {
         });
     });
 
+    describe('change detection', () => {
+        const pageResult = {
+            expired: false,
+            status: 200,
+            textContent: 'BMW 320d listing content',
+            pageTitle: 'BMW 320d - Otomoto',
+        };
+
+        it('should store the content fingerprint after an analysis', async () => {
+            mockFetchListingPage.mockResolvedValue(pageResult);
+            mockRefreshWithGemini.mockResolvedValue({
+                price: 145000,
+                currency: 'PLN',
+                status: ListingStatus.ACTIVE,
+            });
+
+            const result = await refreshSingleListing(baseListing);
+
+            expect(result.contentUnchanged).toBeUndefined();
+            expect(result.listing.contentFingerprint).toBe(computeContentFingerprint(pageResult.textContent));
+        });
+
+        it('should skip the LLM when the page is unchanged', async () => {
+            mockFetchListingPage.mockResolvedValue(pageResult);
+            const listing = {...baseListing, contentFingerprint: computeContentFingerprint(pageResult.textContent)};
+
+            const result = await refreshSingleListing(listing);
+
+            expect(mockRefreshWithGemini).not.toHaveBeenCalled();
+            expect(result.success).toBe(true);
+            expect(result.contentUnchanged).toBe(true);
+            expect(result.priceChanged).toBe(false);
+            expect(result.listing.currentPrice).toBe(150000);
+            expect(result.listing.lastRefreshStatus).toBe('success');
+            expect(result.listing.lastSeenAt).not.toBe(baseListing.lastSeenAt);
+            expect(mockUpdatePriceHistory).toHaveBeenCalledWith(baseListing.priceHistory, 150000, 'PLN');
+            expect(result.listing.priceHistory).toHaveLength(3);
+        });
+
+        it('should not extend the price history of an ended listing', async () => {
+            mockFetchListingPage.mockResolvedValue(pageResult);
+            const listing = {
+                ...baseListing,
+                status: ListingStatus.ENDED,
+                contentFingerprint: computeContentFingerprint(pageResult.textContent),
+            };
+
+            const result = await refreshSingleListing(listing);
+
+            expect(result.contentUnchanged).toBe(true);
+            expect(mockUpdatePriceHistory).not.toHaveBeenCalled();
+            expect(result.listing.priceHistory).toBe(baseListing.priceHistory);
+        });
+
+        it('should analyze the page when its content changed', async () => {
+            mockFetchListingPage.mockResolvedValue({...pageResult, textContent: 'BMW 320d new price'});
+            mockRefreshWithGemini.mockResolvedValue({
+                price: 140000,
+                currency: 'PLN',
+                status: ListingStatus.ACTIVE,
+            });
+            const listing = {...baseListing, contentFingerprint: computeContentFingerprint(pageResult.textContent)};
+
+            const result = await refreshSingleListing(listing);
+
+            expect(mockRefreshWithGemini).toHaveBeenCalled();
+            expect(result.listing.currentPrice).toBe(140000);
+            expect(result.listing.contentFingerprint).toBe(computeContentFingerprint('BMW 320d new price'));
+        });
+    });
+
     describe('expired listing detection', () => {
         it('should mark listing as ENDED when page returns 404', async () => {
             mockFetchListingPage.mockResolvedValue({
@@ -305,6 +403,47 @@ describe('Refresh Listing Service', () => {
     });
 
     describe('error handling', () => {
+        describe('custom marketplaces', () => {
+            const customListing: CarListing = {
+                ...baseListing,
+                source: {...baseListing.source, platform: 'cars.example.com', url: 'https://cars.example.com/offer/1'},
+            };
+
+            beforeEach(() => {
+                setCustomMarketplaces([{
+                    id: 'custom-cars.example.com',
+                    name: 'Example Cars',
+                    domains: ['cars.example.com'],
+                    offerPagePatterns: ['/offer/'],
+                    excludePatterns: [],
+                    neverFetch: false,
+                }]);
+            });
+
+            afterEach(() => {
+                setCustomMarketplaces(null);
+            });
+
+            it('should report missing host access instead of fetching', async () => {
+                (chrome.permissions.contains as jest.Mock).mockResolvedValueOnce(false);
+
+                const result = await refreshSingleListing(customListing);
+
+                expect(result.success).toBe(false);
+                expect(result.listing.lastRefreshError).toContain('No access to Example Cars in this browser');
+                expect(chrome.permissions.contains).toHaveBeenCalledWith({origins: ['https://cars.example.com/*']});
+                expect(mockFetchListingPage).not.toHaveBeenCalled();
+            });
+
+            it('should fetch when access is granted', async () => {
+                mockFetchListingPage.mockResolvedValue({expired: false, status: 500});
+
+                await refreshSingleListing(customListing);
+
+                expect(mockFetchListingPage).toHaveBeenCalled();
+            });
+        });
+
         it('should mark failure for non-200 status codes', async () => {
             mockFetchListingPage.mockResolvedValue({
                 expired: false,
@@ -431,6 +570,30 @@ describe('Refresh Listing Service', () => {
 
             expect(result.listing.currency).toBe('EUR');
         });
+
+        it('should keep a currency corrected by the user', async () => {
+            mockFetchListingPage.mockResolvedValue({
+                expired: false,
+                status: 200,
+                textContent: 'EUR listing',
+                pageTitle: 'title',
+            });
+
+            mockRefreshWithGemini.mockResolvedValue({
+                price: 35000,
+                currency: 'EUR',
+                status: ListingStatus.ACTIVE,
+            });
+
+            const result = await refreshSingleListing({
+                ...baseListing,
+                currency: 'CHF',
+                fieldOverrides: {currency: {value: 'CHF', originalValue: 'PLN', editedAt: '2024-01-20T10:00:00Z'}},
+            });
+
+            expect(result.listing.currency).toBe('CHF');
+            expect(result.listing.currentPrice).toBe(35000);
+        });
     });
 
     describe('Facebook Marketplace specific', () => {
@@ -9,13 +9,25 @@
  * Exception: Marketplaces with neverFetch=true always use background tab.
  */
 
-import {getMarketplaceForUrl} from '@/config/marketplaces';
+import {getMarketplaceForUrl, isExpiredListingPage} from '@/config/marketplaces';
+import type {LoginAdapter} from '@/config/adapters';
+import {extractHtmlText} from './fingerprint';
 
 // Constants for content extraction and timeouts
 const MAX_TEXT_CONTENT_LENGTH = 20000;
 const TAB_LOADING_TIMEOUT_MS = 30000;
 
 
+/**
+ * Extract plain text from HTML for AI analysis and the content fingerprint.
+ * Note: This is NOT for DOM insertion - only for text extraction to send to Gemini API.
+ * Uses the same extraction as the server (api/src/refresh/fetcher.ts), so both
+ * compute the same fingerprint for the same page.
+ */
+const extractPageText = (html: string): string => {
+    return extractHtmlText(html).substring(0, MAX_TEXT_CONTENT_LENGTH);
+};
+
 /**
  * Custom error for CORS/network issues that may indicate login required
  */
@@ -34,7 +46,7 @@ export class FetchError extends Error {
  * Result of fetching a listing page
  */
 export interface FetchPageResult {
-    /** Whether the listing is expired (404/410) */
+    /** Whether the listing is expired (404/410 or the marketplace's "no longer available" page) */
     expired: boolean;
     /** HTTP status code (0 for network errors) */
     status: number;
@@ -42,6 +54,8 @@ export interface FetchPageResult {
     textContent?: string;
     /** Page title (only if status 200) */
     pageTitle?: string;
+    /** Raw page HTML for rule-based extraction (only if status 200) */
+    html?: string;
     /** Whether background tab was used (due to fetch fallback) */
     usedBackgroundTab?: boolean;
 }
@@ -51,6 +65,9 @@ export interface FetchPageResult {
  * Used for marketplaces with Cloudflare or similar restrictions
  */
 async function fetchListingPageWithTab(url: string): Promise<FetchPageResult> {
+    // Passed into the page - the injected function cannot import it
+    const login: LoginAdapter = getMarketplaceForUrl(url)?.adapter?.login ?? {};
+
     return new Promise((resolve, reject) => {
         // Create a new tab in the background (not focused)
         chrome.tabs.create({url, active: false}, async (tab) => {
@@ -93,7 +110,8 @@ async function fetchListingPageWithTab(url: string): Promise<FetchPageResult> {
                         // We'll inject a script to get the page content and status
                         const results = await chrome.scripting.executeScript({
                             target: {tabId},
-                            func: () => {
+                            args: [login],
+                            func: (login: LoginAdapter) => {
                                 // Extract page information
                                 const title = document.title || '';
                                 const bodyText = document.body?.innerText || '';
@@ -112,34 +130,27 @@ async function fetchListingPageWithTab(url: string): Promise<FetchPageResult> {
                                 const is410 = lowerTitle.includes('410') ||
                                     lowerTitle.includes('gone');
 
-                                // Facebook-specific: Check if user is logged out
-                                // Indicators: redirected to login page, or login form visible
-                                const isFacebookUrl = currentUrl.includes('facebook.com');
-                                let facebookLoginRequired = false;
-
-                                if (isFacebookUrl) {
-                                    // Check if redirected to login page
-                                    const isLoginPage = currentUrl.includes('/login') ||
-                                        currentUrl.includes('login.php') ||
-                                        currentUrl.includes('/checkpoint/');
+                                // Check if user is logged out (marketplace adapter login hints)
+                                // Indicators: redirected to login page, login form or login prompt visible
+                                const isLoginPage = (login.urlPatterns ?? [])
+                                    .some(pattern => currentUrl.includes(pattern));
 
-                                    // Check for login form elements
-                                    const hasLoginForm = !!document.querySelector('input[name="email"]') &&
-                                        !!document.querySelector('input[name="pass"]');
+                                const formSelectors = login.formSelectors ?? [];
+                                const hasLoginForm = formSelectors.length > 0 &&
+                                    formSelectors.every(selector => !!document.querySelector(selector));
 
-                                    // Check for "Log In" or "Zaloguj się" button prominently displayed
-                                    const hasLoginButton = lowerBody.includes('log into facebook') ||
-                                        lowerBody.includes('zaloguj się');
+                                const hasLoginPrompt = (login.textPatterns ?? [])
+                                    .some(pattern => lowerBody.includes(pattern.toLowerCase()));
 
-                                    facebookLoginRequired = isLoginPage || hasLoginForm || hasLoginButton;
-                                }
+                                const loginRequired = isLoginPage || hasLoginForm || hasLoginPrompt;
 
                                 return {
                                     title,
                                     html,
+                                    url: currentUrl,
                                     is404,
                                     is410,
-                                    facebookLoginRequired,
+                                    loginRequired,
                                 };
                             },
                         });
@@ -153,8 +164,8 @@ async function fetchListingPageWithTab(url: string): Promise<FetchPageResult> {
 
                         const pageData = results[0].result;
 
-                        // Check for Facebook login required
-                        if (pageData.facebookLoginRequired) {
+                        // Check for marketplace login required
+                        if (pageData.loginRequired) {
                             resolve({
                                 expired: false,
                                 status: 401, // Unauthorized - login required
@@ -181,22 +192,23 @@ async function fetchListingPageWithTab(url: string): Promise<FetchPageResult> {
                             return;
                         }
 
-                        // Extract text content from HTML for AI analysis
-                        // Note: This is NOT for DOM insertion - only for text extraction to send to Gemini API
-                        // The HTML sanitization here is basic because we only need plain text, not secure HTML
-                        const textContent = pageData.html
-                            .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-                            .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-                            .replace(/<[^>]+>/g, ' ')
-                            .replace(/\s+/g, ' ')
-                            .trim()
-                            .substring(0, MAX_TEXT_CONTENT_LENGTH);
+                        // Extract text content from HTML for AI analysis (same extraction as fetch())
+                        const textContent = extractPageText(pageData.html);
+
+                        if (isExpiredListingPage(url, pageData.url || url, textContent)) {
+                            resolve({
+                                expired: true,
+                                status: 200,
+                            });
+                            return;
+                        }
 
                         resolve({
                             expired: false,
                             status: 200,
                             textContent,
                             pageTitle: pageData.title,
+                            html: pageData.html,
                         });
                     } catch (error) {
                         cleanup(timeoutId);
@@ -248,22 +260,22 @@ async function fetchListingPageWithFetch(url: string): Promise<FetchPageResult>
         const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
         const pageTitle = titleMatch ? titleMatch[1].trim() : '';
 
-        // Strip HTML for text content (scripts, styles, tags)
-        // Note: This is NOT for DOM insertion - only for text extraction to send to Gemini API
-        // The HTML sanitization here is basic because we only need plain text, not secure HTML
-        const textContent = html
-            .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-            .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-            .replace(/<[^>]+>/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim()
-            .substring(0, MAX_TEXT_CONTENT_LENGTH);
+        const textContent = extractPageText(html);
+
+        // Some marketplaces answer ended listings with 200 (notice page or redirect)
+        if (isExpiredListingPage(url, response.url || url, textContent)) {
+            return {
+                expired: true,
+                status: response.status,
+            };
+        }
 
         return {
             expired: false,
             status: response.status,
             textContent,
             pageTitle,
+            html,
         };
     } catch (error) {
         // Check if it's a network/CORS error (TypeError is thrown for CORS issues)
@@ -8,6 +8,9 @@
 export {refreshSingleListing} from './refreshListing';
 export type {RefreshResult} from './refreshListing';
 
+// Change detection
+export {computeContentFingerprint, extractHtmlText, normalizePageContent} from './fingerprint';
+
 // Page fetching
 export {fetchListingPage, FetchError} from './fetcher';
 export type {FetchPageResult} from './fetcher';
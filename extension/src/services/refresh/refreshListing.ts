@@ -4,11 +4,18 @@
  * Core logic for refreshing a single listing with AI analysis.
  */
 
-import {CarListing, ListingStatus} from '@/types';
+import {CarListing, ListingStatus, RefreshSource} from '@/types';
 import {RateLimitError, refreshListingWithGemini} from '../gemini';
 import {FetchError, fetchListingPage} from './fetcher';
 import {hasPriceChangedFromPreviousDay, updateDailyPriceHistory} from './priceHistory';
+import {computeContentFingerprint} from './fingerprint';
+import {isFieldLocked} from '../listingEdits';
 import {isFacebookMarketplaceUrl} from '@/utils/formatters';
+import {getMarketplaceForUrl, isCustomMarketplace} from '@/config/marketplaces';
+import {hasHostPermissions} from '../settings';
+
+/** Refresh source recorded on listings refreshed in the browser */
+const EXTENSION_SOURCE: RefreshSource = 'extension';
 
 /**
  * Result of a listing refresh operation
@@ -21,6 +28,38 @@ export interface RefreshResult {
     priceChanged?: boolean;
     /** Whether background tab was used (due to Cloudflare/network fallback) */
     usedBackgroundTab?: boolean;
+    /** Whether the page was unchanged since the last refresh, so no LLM call was made */
+    contentUnchanged?: boolean;
+}
+
+/**
+ * Record a check of a page that has not changed since the last refresh:
+ * the listing was seen again at its current price.
+ */
+function recordUnchangedListing(listing: CarListing): CarListing {
+    return {
+        ...listing,
+        // ENDED listings have frozen price history
+        priceHistory: listing.status === ListingStatus.ENDED
+            ? listing.priceHistory
+            : updateDailyPriceHistory(listing.priceHistory, listing.currentPrice, listing.currency),
+        lastSeenAt: new Date().toISOString(),
+        lastRefreshStatus: 'success',
+        lastRefreshError: undefined,
+        lastRefreshSource: EXTENSION_SOURCE,
+    };
+}
+
+/**
+ * Error for a custom marketplace this browser has no host access to, e.g.
+ * one added on another device (access is granted per browser)
+ */
+async function getMissingHostAccessError(url: string): Promise<string | null> {
+    const marketplace = getMarketplaceForUrl(url);
+    if (!marketplace || !isCustomMarketplace(marketplace) || await hasHostPermissions(marketplace.domains)) {
+        return null;
+    }
+    return `No access to ${marketplace.name} in this browser - grant it in Settings → Custom marketplaces`;
 }
 
 /**
@@ -37,6 +76,17 @@ export interface RefreshResult {
  * - When status changes to ENDED, statusChangedAt is recorded
  * - This timestamp is used to determine grace period for refresh exclusion
  *
+ * Change detection:
+ * - The page's content fingerprint is stored after each analysis
+ * - A page with the same fingerprint skips the LLM and only records a check
+ *
+ * User corrections:
+ * - Only price, currency and status are updated; a currency the user
+ *   corrected (see services/listingEdits) is kept
+ *
+ * Custom marketplaces without host access in this browser fail with an
+ * error pointing to the settings instead of a network or login error.
+ *
  * @param listing The listing to refresh
  * @param forceBackgroundTab If true, skip fetch() and use background tab directly
  */
@@ -45,6 +95,20 @@ export async function refreshSingleListing(
     forceBackgroundTab: boolean = false,
 ): Promise<RefreshResult> {
     try {
+        const accessError = await getMissingHostAccessError(listing.source.url);
+        if (accessError) {
+            return {
+                listing: {
+                    ...listing,
+                    lastRefreshStatus: 'error',
+                    lastRefreshError: accessError,
+                    lastRefreshSource: EXTENSION_SOURCE,
+                },
+                success: false,
+                error: accessError,
+            };
+        }
+
         // Fetch page content (single request - checks status and gets content)
         const fetchResult = await fetchListingPage(listing.source.url, forceBackgroundTab);
 
@@ -60,6 +124,7 @@ export async function refreshSingleListing(
                     lastSeenAt: now,
                     lastRefreshStatus: 'success',
                     lastRefreshError: undefined,
+                    lastRefreshSource: EXTENSION_SOURCE,
                 },
                 success: true,
                 usedBackgroundTab: fetchResult.usedBackgroundTab,
@@ -87,6 +152,7 @@ export async function refreshSingleListing(
                     ...listing,
                     lastRefreshStatus: 'error',
                     lastRefreshError: errorMsg,
+                    lastRefreshSource: EXTENSION_SOURCE,
                 },
                 success: false,
                 error: isLoginRequired ? errorMsg : `HTTP error: ${fetchResult.status}`,
@@ -94,11 +160,26 @@ export async function refreshSingleListing(
             };
         }
 
-        // Use Gemini to analyze the page
+        // Unchanged page - nothing new to analyze
+        const contentFingerprint = fetchResult.textContent
+            ? computeContentFingerprint(fetchResult.textContent)
+            : undefined;
+        if (contentFingerprint && listing.contentFingerprint === contentFingerprint) {
+            return {
+                listing: recordUnchangedListing(listing),
+                success: true,
+                priceChanged: false,
+                contentUnchanged: true,
+                usedBackgroundTab: fetchResult.usedBackgroundTab,
+            };
+        }
+
+        // Read the page with the marketplace extractor, falling back to Gemini
         const result = await refreshListingWithGemini(
             listing.source.url,
             fetchResult.textContent || '',
             fetchResult.pageTitle || listing.title,
+            fetchResult.html,
         );
 
         const updatedListing = {...listing};
@@ -112,7 +193,9 @@ export async function refreshSingleListing(
 
         // Determine the price to record (use result price if valid, otherwise keep current)
         const priceToRecord = result.price > 0 ? result.price : listing.currentPrice;
-        const currencyToUse = result.currency || listing.currency;
+        const currencyToUse = isFieldLocked(listing, 'currency')
+            ? listing.currency
+            : result.currency || listing.currency;
 
         // Check if price changed from previous day (for UI notification purposes)
         const priceChanged = !isAlreadyEnded && hasPriceChangedFromPreviousDay(
@@ -140,6 +223,8 @@ export async function refreshSingleListing(
         updatedListing.lastSeenAt = now;
         updatedListing.lastRefreshStatus = 'success';
         updatedListing.lastRefreshError = undefined;
+        updatedListing.lastRefreshSource = EXTENSION_SOURCE;
+        updatedListing.contentFingerprint = contentFingerprint;
 
         // Record statusChangedAt when transitioning to ENDED
         if (statusChangingToEnded) {
@@ -171,6 +256,7 @@ export async function refreshSingleListing(
                 ...listing,
                 lastRefreshStatus: 'error',
                 lastRefreshError: errorMsg,
+                lastRefreshSource: EXTENSION_SOURCE,
             },
             success: false,
             error: errorMsg,
@@ -0,0 +1,46 @@
+/**
+ * Tests for Search Result Card collection
+ */
+
+import {collectSearchResultCards, OTOMOTO_SEARCH_CARD_SELECTORS} from '../searchCards';
+
+describe('collectSearchResultCards', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('should read OTOMOTO search cards', () => {
+        document.body.innerHTML = `
+            <article data-id="6123456789">
+                <img src="https://ireland.apollo.olxcdn.com/v1/files/abc/image">
+                <h2><a href="https://www.otomoto.pl/osobowe/oferta/bmw-seria-3-ID6HEcgy.html"> BMW Seria 3 320d </a></h2>
+                <h3>89 900\n PLN</h3>
+            </article>
+        `;
+
+        expect(collectSearchResultCards(OTOMOTO_SEARCH_CARD_SELECTORS)).toEqual([{
+            id: '6123456789',
+            url: 'https://www.otomoto.pl/osobowe/oferta/bmw-seria-3-ID6HEcgy.html',
+            title: 'BMW Seria 3 320d',
+            price: '89 900 PLN',
+            imageUrl: 'https://ireland.apollo.olxcdn.com/v1/files/abc/image',
+        }]);
+    });
+
+    it('should skip cards without an offer link', () => {
+        document.body.innerHTML = `
+            <article data-id="ad-banner"><h2><a href="https://example.com/promo">Promo</a></h2></article>
+            <article data-id="6123456790">
+                <h2><a href="https://www.otomoto.pl/osobowe/oferta/audi-a4-ID6HEabc.html">Audi A4</a></h2>
+            </article>
+        `;
+
+        const cards = collectSearchResultCards(OTOMOTO_SEARCH_CARD_SELECTORS);
+
+        expect(cards).toEqual([{
+            id: '6123456790',
+            url: 'https://www.otomoto.pl/osobowe/oferta/audi-a4-ID6HEabc.html',
+            title: 'Audi A4',
+        }]);
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for Saved Search Matching
+ */
+
+import {
+    applySearchResults,
+    createSavedSearch,
+    isWatchableSearchUrl,
+    MAX_SEEN_LISTING_IDS,
+    removeSearchMatch,
+} from '../searchMatcher';
+import type {SearchResultCard} from '../searchCards';
+import {SavedSearch} from '@/types';
+
+const SEARCH_URL = 'https://www.otomoto.pl/osobowe/bmw/seria-3?search%5Bfilter_enum_fuel_type%5D=diesel';
+const NOW = new Date('2024-06-01T12:00:00.000Z');
+
+const createCard = (id: string, overrides: Partial<SearchResultCard> = {}): SearchResultCard => ({
+    id,
+    url: `https://www.otomoto.pl/osobowe/oferta/bmw-seria-3-ID${id}.html`,
+    title: `BMW ${id}`,
+    ...overrides,
+});
+
+const createSearch = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+    id: 'search-1',
+    name: 'BMW 3',
+    url: SEARCH_URL,
+    seenListingIds: ['1', '2'],
+    newMatches: [],
+    createdAt: '2024-05-01T00:00:00.000Z',
+    lastCheckedAt: '2024-05-31T00:00:00.000Z',
+    ...overrides,
+});
+
+describe('isWatchableSearchUrl', () => {
+    it('should accept OTOMOTO category and search pages', () => {
+        expect(isWatchableSearchUrl(SEARCH_URL)).toBe(true);
+        expect(isWatchableSearchUrl('https://www.otomoto.pl/osobowe')).toBe(true);
+    });
+
+    it('should reject OTOMOTO offer pages and the home page', () => {
+        expect(isWatchableSearchUrl('https://www.otomoto.pl/osobowe/oferta/bmw-seria-3-ID6HEcgy.html')).toBe(false);
+        expect(isWatchableSearchUrl('https://www.otomoto.pl/')).toBe(false);
+    });
+
+    it('should reject other marketplaces and invalid URLs', () => {
+        expect(isWatchableSearchUrl('https://www.facebook.com/marketplace/search?query=bmw')).toBe(false);
+        expect(isWatchableSearchUrl('not a url')).toBe(false);
+    });
+});
+
+describe('createSavedSearch', () => {
+    it('should create an unscanned search', () => {
+        const search = createSavedSearch(SEARCH_URL, '  Diesel BMW  ', NOW);
+
+        expect(search).toMatchObject({
+            name: 'Diesel BMW',
+            url: SEARCH_URL,
+            seenListingIds: [],
+            newMatches: [],
+            createdAt: NOW.toISOString(),
+            lastCheckedAt: null,
+        });
+        expect(search.id).toBeTruthy();
+    });
+
+    it('should fall back to the URL path as name', () => {
+        expect(createSavedSearch(SEARCH_URL, '', NOW).name).toBe('osobowe / bmw / seria-3');
+    });
+});
+
+describe('applySearchResults', () => {
+    it('should only record seen IDs on the first scan', () => {
+        const search = createSearch({seenListingIds: [], lastCheckedAt: null});
+
+        const result = applySearchResults(search, [createCard('1'), createCard('2')], [], NOW);
+
+        expect(result.addedMatches).toEqual([]);
+        expect(result.search.newMatches).toEqual([]);
+        expect(result.search.seenListingIds).toEqual(['1', '2']);
+        expect(result.search.lastCheckedAt).toBe(NOW.toISOString());
+    });
+
+    it('should add unseen cards to the inbox', () => {
+        const result = applySearchResults(createSearch(), [createCard('3'), createCard('1')], [], NOW);
+
+        expect(result.addedMatches).toEqual([{...createCard('3'), discoveredAt: NOW.toISOString()}]);
+        expect(result.search.newMatches).toEqual(result.addedMatches);
+        expect(result.search.seenListingIds).toEqual(['3', '1', '2']);
+        expect(result.addedListingIds).toEqual(['3']);
+    });
+
+    it('should not report a card twice', () => {
+        const first = applySearchResults(createSearch(), [createCard('3'), createCard('3')], [], NOW);
+        const second = applySearchResults(first.search, [createCard('3')], [], NOW);
+
+        expect(first.addedMatches).toHaveLength(1);
+        expect(second.addedMatches).toEqual([]);
+        expect(second.search.newMatches).toHaveLength(1);
+    });
+
+    it('should skip listings that are already tracked', () => {
+        const card = createCard('3');
+
+        const result = applySearchResults(createSearch(), [card], [`${card.url}?utm_source=test`], NOW);
+
+        expect(result.addedMatches).toEqual([]);
+        expect(result.search.seenListingIds).toContain('3');
+    });
+
+    it('should cap the number of remembered IDs', () => {
+        const seenListingIds = Array.from({length: MAX_SEEN_LISTING_IDS}, (_, i) => `old-${i}`);
+
+        const result = applySearchResults(createSearch({seenListingIds}), [createCard('new')], [], NOW);
+
+        expect(result.search.seenListingIds).toHaveLength(MAX_SEEN_LISTING_IDS);
+        expect(result.search.seenListingIds[0]).toBe('new');
+    });
+});
+
+describe('removeSearchMatch', () => {
+    it('should drop the match from the inbox', () => {
+        const match = {...createCard('3'), discoveredAt: NOW.toISOString()};
+        const search = createSearch({newMatches: [match, {...match, id: '4'}]});
+
+        expect(removeSearchMatch(search, '3').newMatches.map((m) => m.id)).toEqual(['4']);
+    });
+});
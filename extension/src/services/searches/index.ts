@@ -0,0 +1,21 @@
+/**
+ * Saved Searches Service - Barrel Export
+ *
+ * Watching marketplace search pages for new listings.
+ */
+
+// Scanning search pages
+export {scanSearchPage, extractSearchCardsFromTab} from './scanner';
+export {collectSearchResultCards, OTOMOTO_SEARCH_CARD_SELECTORS} from './searchCards';
+export type {SearchResultCard, SearchCardSelectors} from './searchCards';
+
+// Inbox bookkeeping
+export {
+    isWatchableSearchUrl,
+    createSavedSearch,
+    applySearchResults,
+    removeSearchMatch,
+    MAX_SEEN_LISTING_IDS,
+    MAX_SEARCH_MATCHES,
+} from './searchMatcher';
+export type {SearchScanResult} from './searchMatcher';
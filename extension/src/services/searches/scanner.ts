@@ -0,0 +1,70 @@
+/**
+ * Saved Search Scanner
+ *
+ * Opens saved search pages and reads their listing cards. Search pages are
+ * rendered client-side and protected like offer pages, so they are loaded
+ * in a real (background) tab instead of fetch().
+ */
+
+import {collectSearchResultCards, OTOMOTO_SEARCH_CARD_SELECTORS, SearchResultCard} from './searchCards';
+
+const TAB_LOADING_TIMEOUT_MS = 30000;
+
+/**
+ * Read listing cards from an already open tab
+ */
+export async function extractSearchCardsFromTab(tabId: number): Promise<SearchResultCard[]> {
+    const results = await chrome.scripting.executeScript({
+        target: {tabId},
+        func: collectSearchResultCards,
+        args: [OTOMOTO_SEARCH_CARD_SELECTORS],
+    });
+
+    return results?.[0]?.result ?? [];
+}
+
+/**
+ * Wait until a tab finishes loading
+ */
+function waitForTabComplete(tabId: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timeoutId = setTimeout(() => {
+            chrome.tabs.onUpdated.removeListener(listener);
+            reject(new Error('Tab loading timeout'));
+        }, TAB_LOADING_TIMEOUT_MS);
+
+        const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+            if (updatedTabId === tabId && changeInfo.status === 'complete') {
+                clearTimeout(timeoutId);
+                chrome.tabs.onUpdated.removeListener(listener);
+                resolve();
+            }
+        };
+
+        chrome.tabs.onUpdated.addListener(listener);
+    });
+}
+
+/**
+ * Open a search page in a background tab and read its listing cards
+ */
+export async function scanSearchPage(url: string): Promise<SearchResultCard[]> {
+    const tabId = await new Promise<number>((resolve, reject) => {
+        chrome.tabs.create({url, active: false}, (tab) => {
+            if (!tab?.id) {
+                reject(new Error('Failed to create background tab'));
+                return;
+            }
+            resolve(tab.id);
+        });
+    });
+
+    try {
+        await waitForTabComplete(tabId);
+        return await extractSearchCardsFromTab(tabId);
+    } finally {
+        chrome.tabs.remove(tabId).catch(() => {
+            // Ignore errors - tab might already be closed
+        });
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * Search Result Cards
+ *
+ * Reads listing cards from a marketplace search page. The collector runs
+ * inside the page via chrome.scripting.executeScript, so it must stay
+ * self-contained - selectors are passed in as arguments.
+ */
+
+/**
+ * Listing card as shown on a search results page
+ */
+export interface SearchResultCard {
+    /** Marketplace listing ID (OTOMOTO data-id) */
+    id: string;
+    /** Offer page URL */
+    url: string;
+    /** Card title */
+    title: string;
+    /** Price text as displayed */
+    price?: string;
+    /** Thumbnail URL */
+    imageUrl?: string;
+}
+
+/**
+ * CSS selectors describing a search results card
+ */
+export interface SearchCardSelectors {
+    /** Card container carrying the listing ID in data-id */
+    article: string;
+    /** Link to the offer page (its text is used as the title) */
+    link: string;
+    /** Price element inside the card */
+    price: string;
+    /** Thumbnail image inside the card */
+    image: string;
+}
+
+/** OTOMOTO search card selectors (same cards the OTOMOTO adapter in config/adapters.ts marks) */
+export const OTOMOTO_SEARCH_CARD_SELECTORS: SearchCardSelectors = {
+    article: 'article[data-id]',
+    link: 'h2 a[href*="/oferta/"]',
+    price: 'h3',
+    image: 'img',
+};
+
+/**
+ * Collect listing cards from the current document
+ *
+ * Cards without an ID or offer link (ads, promoted banners) are skipped.
+ */
+export function collectSearchResultCards(selectors: SearchCardSelectors): SearchResultCard[] {
+    const cards: SearchResultCard[] = [];
+
+    document.querySelectorAll<HTMLElement>(selectors.article).forEach((article) => {
+        const id = article.getAttribute('data-id');
+        const link = article.querySelector<HTMLAnchorElement>(selectors.link);
+        if (!id || !link?.href) {
+            return;
+        }
+
+        const price = article.querySelector(selectors.price)?.textContent?.replace(/\s+/g, ' ').trim();
+        const imageUrl = article.querySelector<HTMLImageElement>(selectors.image)?.src;
+
+        cards.push({
+            id,
+            url: link.href,
+            title: link.textContent?.trim() || id,
+            ...(price && {price}),
+            ...(imageUrl && {imageUrl}),
+        });
+    });
+
+    return cards;
+}
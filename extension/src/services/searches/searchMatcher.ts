@@ -0,0 +1,117 @@
+/**
+ * Saved Search Matching
+ *
+ * Pure helpers that turn a scan of a saved search page into inbox entries.
+ * The first scan of a search only records what is already listed, so the
+ * inbox starts empty and later scans surface genuinely new offers.
+ */
+
+import {SavedSearch, SearchMatch} from '@/types';
+import {getMarketplaceForUrl, isOfferPage} from '@/config/marketplaces';
+import {normalizeUrl} from '@/utils/formatters';
+import type {SearchResultCard} from './searchCards';
+
+/** Seen IDs kept per search - oldest are dropped first */
+export const MAX_SEEN_LISTING_IDS = 2000;
+
+/** Inbox size per search - oldest matches are dropped first */
+export const MAX_SEARCH_MATCHES = 100;
+
+/** Marketplaces whose search pages can be watched */
+const WATCHABLE_MARKETPLACE_IDS = ['otomoto'];
+
+/**
+ * Check if a URL is a search/category page that can be saved as a watch
+ */
+export const isWatchableSearchUrl = (url: string): boolean => {
+    const marketplace = getMarketplaceForUrl(url);
+    if (!marketplace || !WATCHABLE_MARKETPLACE_IDS.includes(marketplace.id) || isOfferPage(url)) {
+        return false;
+    }
+
+    try {
+        return new URL(url).pathname.length > 1;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Create a new, not yet scanned saved search
+ *
+ * @param url - Search page URL
+ * @param name - User-facing name (falls back to the URL path)
+ */
+export const createSavedSearch = (url: string, name?: string, now: Date = new Date()): SavedSearch => {
+    const fallbackName = decodeURIComponent(new URL(url).pathname).replace(/^\/|\/$/g, '').replace(/\//g, ' / ');
+
+    return {
+        id: crypto.randomUUID(),
+        name: name?.trim() || fallbackName,
+        url,
+        seenListingIds: [],
+        newMatches: [],
+        createdAt: now.toISOString(),
+        lastCheckedAt: null,
+    };
+};
+
+/**
+ * Result of applying a scan to a saved search
+ */
+export interface SearchScanResult {
+    /** Saved search with updated seen IDs, inbox and lastCheckedAt */
+    search: SavedSearch;
+    /** Matches added to the inbox by this scan */
+    addedMatches: SearchMatch[];
+    /** Listing IDs first seen by this scan */
+    addedListingIds: string[];
+}
+
+/**
+ * Apply the cards found on a search page to a saved search
+ *
+ * @param search - Saved search before the scan
+ * @param cards - Cards currently listed on the search page
+ * @param trackedUrls - URLs of listings the user already tracks (never reported)
+ */
+export const applySearchResults = (
+    search: SavedSearch,
+    cards: SearchResultCard[],
+    trackedUrls: string[],
+    now: Date = new Date(),
+): SearchScanResult => {
+    const seen = new Set(search.seenListingIds);
+    const tracked = new Set(trackedUrls.map(normalizeUrl));
+    const isBaseline = search.lastCheckedAt === null;
+    const discoveredAt = now.toISOString();
+
+    const unseenCards = cards.filter((card, index) =>
+        !seen.has(card.id) && cards.findIndex((c) => c.id === card.id) === index,
+    );
+
+    const addedMatches: SearchMatch[] = isBaseline ? [] : unseenCards
+        .filter((card) => !tracked.has(normalizeUrl(card.url)))
+        .map((card) => ({...card, discoveredAt}));
+
+    const addedListingIds = unseenCards.map((card) => card.id);
+
+    return {
+        search: {
+            ...search,
+            seenListingIds: [...addedListingIds, ...search.seenListingIds].slice(0, MAX_SEEN_LISTING_IDS),
+            newMatches: [...addedMatches, ...search.newMatches].slice(0, MAX_SEARCH_MATCHES),
+            lastCheckedAt: discoveredAt,
+        },
+        addedMatches,
+        addedListingIds,
+    };
+};
+
+/**
+ * Remove a match from the inbox (after tracking or dismissing it)
+ */
+export const removeSearchMatch = (search: SavedSearch, matchId: string): SavedSearch => ({
+    ...search,
+    newMatches: search.newMatches.filter((match) => match.id !== matchId),
+});
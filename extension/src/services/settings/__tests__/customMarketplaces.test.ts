@@ -0,0 +1,95 @@
+/**
+ * Tests for Custom Marketplaces
+ */
+
+import {
+    createCustomMarketplace,
+    CustomMarketplaceInput,
+    getHostPermissionOrigins,
+    releaseHostPermissions,
+    requestHostPermissions,
+} from '../customMarketplaces';
+import {setCustomMarketplaces} from '@/config/marketplaces';
+
+const createInput = (overrides: Partial<CustomMarketplaceInput> = {}): CustomMarketplaceInput => ({
+    name: 'Example Cars',
+    domains: 'cars.example.com',
+    offerPagePatterns: '/offer/',
+    excludePatterns: '',
+    neverFetch: false,
+    ...overrides,
+});
+
+describe('Custom Marketplaces', () => {
+    afterEach(() => {
+        setCustomMarketplaces(null);
+    });
+
+    describe('createCustomMarketplace', () => {
+        it('should build a definition from form input', () => {
+            const result = createCustomMarketplace(createInput({
+                name: '  Example Cars ',
+                domains: 'https://www.Cars.example.com/used, cars.example.com\ncars.example.com',
+                offerPagePatterns: '/offer/\n/ad/',
+                excludePatterns: '/offer/search',
+                neverFetch: true,
+            }));
+
+            expect(result.marketplace).toEqual({
+                id: 'custom-cars.example.com',
+                name: 'Example Cars',
+                domains: ['www.cars.example.com', 'cars.example.com'],
+                offerPagePatterns: ['/offer/', '/ad/'],
+                excludePatterns: ['/offer/search'],
+                neverFetch: true,
+            });
+        });
+
+        it.each([
+            [{name: ' '}, 'customMarketplaces.errors.nameRequired'],
+            [{domains: ''}, 'customMarketplaces.errors.domainRequired'],
+            [{domains: 'not a domain'}, 'customMarketplaces.errors.invalidDomain'],
+            [{domains: 'localhost:8080'}, 'customMarketplaces.errors.invalidDomain'],
+            [{domains: '192.168.1.10'}, 'customMarketplaces.errors.invalidDomain'],
+            [{domains: 'metadata.google.internal'}, 'customMarketplaces.errors.invalidDomain'],
+            [{domains: 'www.otomoto.pl'}, 'customMarketplaces.errors.domainTaken'],
+            [{offerPagePatterns: ''}, 'customMarketplaces.errors.offerPatternRequired'],
+        ])('should reject %j', (overrides, error) => {
+            expect(createCustomMarketplace(createInput(overrides)).error).toBe(error);
+        });
+
+        it('should reject domains of another custom marketplace', () => {
+            const {marketplace} = createCustomMarketplace(createInput());
+            setCustomMarketplaces([marketplace!]);
+
+            expect(createCustomMarketplace(createInput({name: 'Other'})).error)
+                .toBe('customMarketplaces.errors.domainTaken');
+        });
+    });
+
+    describe('host permissions', () => {
+        it('should build https origins for each domain', () => {
+            expect(getHostPermissionOrigins(['cars.example.com', 'www.cars.example.com'])).toEqual([
+                'https://cars.example.com/*',
+                'https://www.cars.example.com/*',
+            ]);
+        });
+
+        it('should request and release the origins', async () => {
+            await expect(requestHostPermissions(['cars.example.com'])).resolves.toBe(true);
+            await releaseHostPermissions(['cars.example.com']);
+
+            expect(chrome.permissions.request).toHaveBeenCalledWith({origins: ['https://cars.example.com/*']});
+            expect(chrome.permissions.remove).toHaveBeenCalledWith({origins: ['https://cars.example.com/*']});
+        });
+
+        it('should report a denied or failed request', async () => {
+            (chrome.permissions.request as jest.Mock).mockResolvedValueOnce(false);
+            await expect(requestHostPermissions(['cars.example.com'])).resolves.toBe(false);
+
+            (chrome.permissions.request as jest.Mock).mockRejectedValueOnce(new Error('no user gesture'));
+            jest.spyOn(console, 'warn').mockImplementation(() => {});
+            await expect(requestHostPermissions(['cars.example.com'])).resolves.toBe(false);
+        });
+    });
+});
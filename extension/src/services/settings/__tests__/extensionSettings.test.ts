@@ -10,6 +10,7 @@ import {DEFAULT_SETTINGS, getSettings, saveSettings, getGeminiApiKey, saveGemini
 jest.mock('@/api/client', () => ({
     getRemoteSettings: jest.fn(),
     patchRemoteSettings: jest.fn(),
+    hasStoredGeminiApiKey: jest.requireActual('@/api/client').hasStoredGeminiApiKey,
 }));
 
 import {getRemoteSettings, patchRemoteSettings} from '@/api/client';
@@ -89,6 +90,25 @@ describe('Extension Settings Service', () => {
             const settings = await getSettings();
 
             expect(settings.geminiApiKey).toBe('');
+            expect(settings.geminiApiKeyConfigured).toBe(false);
+        });
+
+        it('should report a key stored on the backend without exposing it', async () => {
+            mockGetRemoteSettings.mockResolvedValue({
+                geminiApiKeyConfigured: true,
+                checkFrequencyMinutes: 60,
+                geminiStats: {
+                    allTimeTotalCalls: 0,
+                    totalCalls: 0,
+                    successCount: 0,
+                    errorCount: 0,
+                },
+            });
+
+            const settings = await getSettings();
+
+            expect(settings.geminiApiKey).toBe('');
+            expect(settings.geminiApiKeyConfigured).toBe(true);
         });
 
         it('should clamp frequency to minimum of 0.167 minutes', async () => {
@@ -175,6 +195,7 @@ describe('Extension Settings Service', () => {
 
             await saveSettings({
                 geminiApiKey: 'new-key',
+                geminiApiKeyConfigured: false,
                 checkFrequencyMinutes: 30,
                 endedListingGracePeriodDays: 3,
             });
@@ -186,6 +207,62 @@ describe('Extension Settings Service', () => {
             });
         });
 
+        it('should keep the stored key when the key field is empty', async () => {
+            mockPatchRemoteSettings.mockResolvedValue({
+                geminiApiKeyConfigured: true,
+                checkFrequencyMinutes: 30,
+                geminiStats: {
+                    allTimeTotalCalls: 0,
+                    totalCalls: 0,
+                    successCount: 0,
+                    errorCount: 0,
+                },
+            });
+
+            await saveSettings({
+                geminiApiKey: '',
+                geminiApiKeyConfigured: true,
+                checkFrequencyMinutes: 30,
+                endedListingGracePeriodDays: 3,
+            });
+
+            expect(mockPatchRemoteSettings).toHaveBeenCalledWith({
+                checkFrequencyMinutes: 30,
+                endedListingGracePeriodDays: 3,
+            });
+        });
+
+        it('should save the LLM provider settings', async () => {
+            mockPatchRemoteSettings.mockResolvedValue({
+                checkFrequencyMinutes: 30,
+                llmProvider: 'openai-compatible',
+                geminiStats: {
+                    allTimeTotalCalls: 0,
+                    totalCalls: 0,
+                    successCount: 0,
+                    errorCount: 0,
+                },
+            });
+
+            await saveSettings({
+                geminiApiKey: '',
+                geminiApiKeyConfigured: false,
+                checkFrequencyMinutes: 30,
+                endedListingGracePeriodDays: 3,
+                llmProvider: 'openai-compatible',
+                llmModel: ' qwen2.5 ',
+                llmBaseUrl: 'http://localhost:8080/v1',
+            });
+
+            expect(mockPatchRemoteSettings).toHaveBeenCalledWith({
+                checkFrequencyMinutes: 30,
+                endedListingGracePeriodDays: 3,
+                llmProvider: 'openai-compatible',
+                llmModel: 'qwen2.5',
+                llmBaseUrl: 'http://localhost:8080/v1',
+            });
+        });
+
         it('should clamp frequency when saving', async () => {
             mockPatchRemoteSettings.mockResolvedValue({
                 geminiApiKey: 'key',
@@ -200,6 +277,7 @@ describe('Extension Settings Service', () => {
 
             await saveSettings({
                 geminiApiKey: 'key',
+                geminiApiKeyConfigured: true,
                 checkFrequencyMinutes: 0.001, // Very low
                 endedListingGracePeriodDays: 3,
             });
@@ -219,6 +297,7 @@ describe('Extension Settings Service', () => {
 
             await expect(saveSettings({
                 geminiApiKey: 'key',
+                geminiApiKeyConfigured: true,
                 checkFrequencyMinutes: 60,
                 endedListingGracePeriodDays: 3,
             })).rejects.toThrow('Save failed');
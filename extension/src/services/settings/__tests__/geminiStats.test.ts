@@ -11,7 +11,13 @@ jest.mock('../../../api/client', () => ({
     clearRemoteGeminiHistory: jest.fn(),
 }));
 
-import {clearGeminiLogs, getGeminiHistory, getGeminiStats, recordGeminiCall} from '../geminiStats';
+import {
+    clearGeminiLogs,
+    getGeminiHistory,
+    getGeminiStats,
+    recordGeminiCall,
+    recordSavedGeminiCalls,
+} from '../geminiStats';
 
 import {
     addRemoteGeminiHistory,
@@ -20,6 +26,12 @@ import {
     getRemoteSettings,
     patchRemoteSettings,
 } from '@/api/client';
+import {
+    clearLocalData,
+    getLocalSettings,
+    patchLocalSettings,
+    setLocalModeEnabled,
+} from '@/services/localData/localStore';
 
 const mockGetRemoteSettings = getRemoteSettings as jest.MockedFunction<typeof getRemoteSettings>;
 const mockPatchRemoteSettings = patchRemoteSettings as jest.MockedFunction<typeof patchRemoteSettings>;
@@ -166,6 +178,57 @@ describe('Gemini Stats Service', () => {
             });
         });
 
+        it('should keep the saved call count', async () => {
+            mockGetRemoteSettings.mockResolvedValue({geminiStats: {...DEFAULT_STATS, savedCalls: 7}} as any);
+
+            await recordGeminiCall(mockEntry);
+
+            expect(mockPatchRemoteSettings).toHaveBeenCalledWith({
+                geminiStats: expect.objectContaining({totalCalls: 1, savedCalls: 7}),
+            });
+        });
+
+        it('should leave the daily usage to the API', async () => {
+            mockGetRemoteSettings.mockResolvedValue({
+                geminiStats: {
+                    ...DEFAULT_STATS,
+                    dailyUsage: {'2024-01-01': {calls: 2, promptTokens: 100, responseTokens: 50, costUsd: 0.01}},
+                },
+            } as any);
+
+            await recordGeminiCall({...mockEntry, promptTokens: 1000, responseTokens: 200, costUsd: 0.0008});
+
+            const {geminiStats} = mockPatchRemoteSettings.mock.calls[0][0] as any;
+            expect(geminiStats).not.toHaveProperty('dailyUsage');
+            expect(mockAddRemoteGeminiHistory).toHaveBeenCalledWith(expect.objectContaining({costUsd: 0.0008}));
+        });
+
+        it('should add token usage to the day bucket in local mode', async () => {
+            await setLocalModeEnabled(true);
+            await patchLocalSettings({
+                geminiStats: {
+                    ...DEFAULT_STATS,
+                    dailyUsage: {'2024-01-01': {calls: 2, promptTokens: 100, responseTokens: 50, costUsd: 0.01}},
+                },
+            });
+
+            try {
+                await recordGeminiCall({...mockEntry, promptTokens: 1000, responseTokens: 200, costUsd: 0.0008});
+
+                const {geminiStats} = await getLocalSettings();
+                expect(geminiStats.dailyUsage?.['2024-01-01']).toEqual({
+                    calls: 3,
+                    promptTokens: 1100,
+                    responseTokens: 250,
+                    costUsd: expect.closeTo(0.0108, 10),
+                });
+                expect(mockPatchRemoteSettings).not.toHaveBeenCalled();
+            } finally {
+                await clearLocalData();
+                await setLocalModeEnabled(false);
+            }
+        });
+
         it('should silently fail on API error', async () => {
             mockGetRemoteSettings.mockRejectedValue(new Error('API error'));
 
@@ -174,6 +237,45 @@ describe('Gemini Stats Service', () => {
         });
     });
 
+    describe('recordSavedGeminiCalls', () => {
+        beforeEach(() => {
+            mockPatchRemoteSettings.mockResolvedValue(undefined);
+        });
+
+        it('should add to the saved call count', async () => {
+            mockGetRemoteSettings.mockResolvedValue({geminiStats: {...DEFAULT_STATS, savedCalls: 2}} as any);
+
+            await recordSavedGeminiCalls(3);
+
+            expect(mockPatchRemoteSettings).toHaveBeenCalledWith({
+                geminiStats: {...DEFAULT_STATS, savedCalls: 5},
+            });
+        });
+
+        it('should start counting from zero', async () => {
+            mockGetRemoteSettings.mockResolvedValue({geminiStats: DEFAULT_STATS} as any);
+
+            await recordSavedGeminiCalls(1);
+
+            expect(mockPatchRemoteSettings).toHaveBeenCalledWith({
+                geminiStats: {...DEFAULT_STATS, savedCalls: 1},
+            });
+        });
+
+        it('should do nothing when no calls were saved', async () => {
+            await recordSavedGeminiCalls(0);
+
+            expect(mockGetRemoteSettings).not.toHaveBeenCalled();
+            expect(mockPatchRemoteSettings).not.toHaveBeenCalled();
+        });
+
+        it('should silently fail on API error', async () => {
+            mockGetRemoteSettings.mockRejectedValue(new Error('API error'));
+
+            await expect(recordSavedGeminiCalls(1)).resolves.toBeUndefined();
+        });
+    });
+
     describe('clearGeminiLogs', () => {
         beforeEach(() => {
             mockGetRemoteSettings.mockResolvedValue({
@@ -197,10 +299,22 @@ describe('Gemini Stats Service', () => {
                     totalCalls: 0,
                     successCount: 0,
                     errorCount: 0,
+                    savedCalls: 0,
                 },
             });
         });
 
+        it('should keep daily usage for the monthly budget', async () => {
+            const dailyUsage = {'2024-01-01': {calls: 3, promptTokens: 300, responseTokens: 90, costUsd: 0.02}};
+            mockGetRemoteSettings.mockResolvedValue({geminiStats: {...DEFAULT_STATS, dailyUsage}} as any);
+
+            await clearGeminiLogs();
+
+            expect(mockPatchRemoteSettings).toHaveBeenCalledWith({
+                geminiStats: expect.objectContaining({totalCalls: 0, dailyUsage}),
+            });
+        });
+
         it('should clear history', async () => {
             await clearGeminiLogs();
 
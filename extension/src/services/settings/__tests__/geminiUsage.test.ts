@@ -0,0 +1,96 @@
+/**
+ * Tests for Gemini Usage Aggregation
+ */
+
+import {GeminiStats} from '@/types';
+import {
+    addToDailyUsage,
+    getDailyUsageSeries,
+    getMonthlyCostUsd,
+    getMonthlyUsageSeries,
+    hasReachedMonthlyBudget,
+} from '../geminiUsage';
+
+const NOW = new Date('2024-03-15T12:00:00.000Z');
+
+const usage = (calls: number, costUsd: number) => ({calls, promptTokens: calls * 100, responseTokens: calls * 10, costUsd});
+
+const stats = (dailyUsage: GeminiStats['dailyUsage']): GeminiStats => ({
+    allTimeTotalCalls: 0,
+    totalCalls: 0,
+    successCount: 0,
+    errorCount: 0,
+    dailyUsage,
+});
+
+describe('addToDailyUsage', () => {
+    const entry = {
+        id: 'call-1',
+        url: 'https://otomoto.pl/listing/1',
+        promptPreview: '',
+        status: 'success' as const,
+        timestamp: '2024-03-15T23:30:00.000Z',
+    };
+
+    it('should start a bucket for the UTC day of the call', () => {
+        expect(addToDailyUsage(undefined, {...entry, promptTokens: 500, responseTokens: 50, costUsd: 0.001}))
+            .toEqual({'2024-03-15': {calls: 1, promptTokens: 500, responseTokens: 50, costUsd: 0.001}});
+    });
+
+    it('should count calls without usage', () => {
+        expect(addToDailyUsage({'2024-03-15': usage(2, 0.01)}, entry))
+            .toEqual({'2024-03-15': {calls: 3, promptTokens: 200, responseTokens: 20, costUsd: 0.01}});
+    });
+
+    it('should drop buckets past the retention period', () => {
+        const result = addToDailyUsage({'2023-01-01': usage(1, 1), '2024-01-01': usage(1, 1)}, entry);
+
+        expect(Object.keys(result).sort()).toEqual(['2024-01-01', '2024-03-15']);
+    });
+});
+
+describe('getDailyUsageSeries', () => {
+    it('should return one point per day, oldest first, with empty days filled in', () => {
+        const series = getDailyUsageSeries(stats({'2024-03-14': usage(2, 0.5)}), 3, NOW);
+
+        expect(series.map((point) => point.period)).toEqual(['2024-03-13', '2024-03-14', '2024-03-15']);
+        expect(series[0]).toEqual({period: '2024-03-13', calls: 0, promptTokens: 0, responseTokens: 0, costUsd: 0});
+        expect(series[1].calls).toBe(2);
+    });
+});
+
+describe('getMonthlyUsageSeries', () => {
+    it('should sum days into calendar months', () => {
+        const series = getMonthlyUsageSeries(stats({
+            '2024-01-31': usage(1, 0.25),
+            '2024-03-01': usage(1, 0.5),
+            '2024-03-14': usage(2, 0.25),
+            '2023-12-31': usage(5, 9),
+        }), 3, NOW);
+
+        expect(series).toEqual([
+            {period: '2024-01', calls: 1, promptTokens: 100, responseTokens: 10, costUsd: 0.25},
+            {period: '2024-02', calls: 0, promptTokens: 0, responseTokens: 0, costUsd: 0},
+            {period: '2024-03', calls: 3, promptTokens: 300, responseTokens: 30, costUsd: 0.75},
+        ]);
+    });
+});
+
+describe('monthly budget', () => {
+    const marchStats = stats({'2024-02-29': usage(10, 4), '2024-03-01': usage(1, 1.5), '2024-03-10': usage(1, 1)});
+
+    it('should sum the cost of the current month only', () => {
+        expect(getMonthlyCostUsd(marchStats, NOW)).toBeCloseTo(2.5, 10);
+        expect(getMonthlyCostUsd(undefined, NOW)).toBe(0);
+    });
+
+    it('should report when spend reaches the budget', () => {
+        expect(hasReachedMonthlyBudget(marchStats, 2.5, NOW)).toBe(true);
+        expect(hasReachedMonthlyBudget(marchStats, 3, NOW)).toBe(false);
+    });
+
+    it('should never report without a budget', () => {
+        expect(hasReachedMonthlyBudget(marchStats, null, NOW)).toBe(false);
+        expect(hasReachedMonthlyBudget(marchStats, 0, NOW)).toBe(false);
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * Custom Marketplaces
+ *
+ * Marketplaces the user adds in settings. Definitions are stored in the
+ * user settings (synced via the backend, or local in local-only mode) and
+ * registered with config/marketplaces.ts, so popup detection and refresh
+ * treat them like the built-in ones. Host access is requested at runtime -
+ * the manifest only lists the hosts as optional. Grants are per browser, so a
+ * marketplace synced from another device has none until the user grants it here.
+ */
+
+import {CustomMarketplace} from '@/types';
+import {getAllMarketplaces} from '@/config/marketplaces';
+
+/**
+ * Custom marketplace as entered in the settings form
+ */
+export interface CustomMarketplaceInput {
+    name: string;
+    /** Domains, comma or newline separated (URLs are accepted) */
+    domains: string;
+    /** Offer page URL parts, comma or newline separated */
+    offerPagePatterns: string;
+    /** Search/category page URL parts, comma or newline separated */
+    excludePatterns: string;
+    neverFetch: boolean;
+}
+
+/** Validation error, as a settings translation key */
+export type CustomMarketplaceError =
+    | 'customMarketplaces.errors.nameRequired'
+    | 'customMarketplaces.errors.domainRequired'
+    | 'customMarketplaces.errors.invalidDomain'
+    | 'customMarketplaces.errors.domainTaken'
+    | 'customMarketplaces.errors.offerPatternRequired';
+
+export type CustomMarketplaceResult =
+    | {marketplace: CustomMarketplace; error?: undefined}
+    | {marketplace?: undefined; error: CustomMarketplaceError};
+
+const DOMAIN_REGEX = /^([a-z0-9-]+\.)+[a-z]{2,}$/;
+
+/** Local and internal host names - rejected by the backend as well */
+const RESERVED_DOMAINS = ['localhost', 'local', 'localdomain', 'internal', 'intranet', 'lan', 'home.arpa'];
+
+const isPublicDomain = (domain: string): boolean => {
+    return DOMAIN_REGEX.test(domain) &&
+        !RESERVED_DOMAINS.some(reserved => domain === reserved || domain.endsWith(`.${reserved}`));
+};
+
+const splitList = (value: string): string[] => {
+    return value
+        .split(/[\n,]/)
+        .map(item => item.trim())
+        .filter(Boolean);
+};
+
+/**
+ * Reduce a domain or URL to its host name ("https://www.Example.com/cars" -> "www.example.com")
+ */
+const normalizeDomain = (value: string): string => {
+    return value
+        .toLowerCase()
+        .replace(/^[a-z]+:\/\//, '')
+        .replace(/[/?#].*$/, '')
+        .replace(/:\d+$/, '');
+};
+
+/**
+ * Validate form input and build a custom marketplace definition
+ *
+ * @param input - Values from the settings form
+ * @returns The definition, or the translation key of the first problem
+ */
+export const createCustomMarketplace = (input: CustomMarketplaceInput): CustomMarketplaceResult => {
+    const name = input.name.trim();
+    if (!name) {
+        return {error: 'customMarketplaces.errors.nameRequired'};
+    }
+
+    const domains = Array.from(new Set(splitList(input.domains).map(normalizeDomain)));
+    if (domains.length === 0) {
+        return {error: 'customMarketplaces.errors.domainRequired'};
+    }
+    if (!domains.every(isPublicDomain)) {
+        return {error: 'customMarketplaces.errors.invalidDomain'};
+    }
+
+    const takenDomains = new Set(getAllMarketplaces().flatMap(m => m.domains));
+    if (domains.some(domain => takenDomains.has(domain))) {
+        return {error: 'customMarketplaces.errors.domainTaken'};
+    }
+
+    const offerPagePatterns = splitList(input.offerPagePatterns);
+    if (offerPagePatterns.length === 0) {
+        return {error: 'customMarketplaces.errors.offerPatternRequired'};
+    }
+
+    return {
+        marketplace: {
+            id: `custom-${domains[0].replace(/^www\./, '')}`,
+            name,
+            domains,
+            offerPagePatterns,
+            excludePatterns: splitList(input.excludePatterns),
+            neverFetch: input.neverFetch,
+        },
+    };
+};
+
+/**
+ * Host permission match patterns for marketplace domains
+ */
+export const getHostPermissionOrigins = (domains: string[]): string[] => {
+    return domains.map(domain => `https://${domain}/*`);
+};
+
+/**
+ * Ask the user for access to the marketplace's hosts.
+ * Must be called from a user gesture (e.g. a click handler).
+ *
+ * @returns true if access was granted
+ */
+export const requestHostPermissions = async (domains: string[]): Promise<boolean> => {
+    try {
+        return await chrome.permissions.request({origins: getHostPermissionOrigins(domains)});
+    } catch (error) {
+        console.warn('[CustomMarketplaces] Host permission request failed:', error);
+        return false;
+    }
+};
+
+/**
+ * Whether this browser has access to all of the marketplace's hosts
+ */
+export const hasHostPermissions = async (domains: string[]): Promise<boolean> => {
+    try {
+        return await chrome.permissions.contains({origins: getHostPermissionOrigins(domains)});
+    } catch (error) {
+        console.warn('[CustomMarketplaces] Host permission check failed:', error);
+        return false;
+    }
+};
+
+/**
+ * Give up host access after a custom marketplace is removed
+ */
+export const releaseHostPermissions = async (domains: string[]): Promise<void> => {
+    try {
+        await chrome.permissions.remove({origins: getHostPermissionOrigins(domains)});
+    } catch (error) {
+        console.warn('[CustomMarketplaces] Failed to remove host permissions:', error);
+    }
+};
@@ -1,15 +1,16 @@
 /**
  * Extension Settings Service
  *
- * Manages core extension configuration: API key, check frequency, grace period.
- * All settings are fetched from and saved to the backend API.
- * NO local storage is used for settings.
+ * Manages core extension configuration: API key, LLM provider, check frequency, grace period.
+ * Settings are fetched from and saved to the backend API, or to
+ * chrome.storage.local in local-only mode (see services/localData).
  *
  * Backend URL is stored separately in chrome.storage.local (see localServerStorage.ts).
  */
 
 import {ExtensionSettings} from '@/types';
-import {getRemoteSettings, patchRemoteSettings} from '@/api/client';
+import {hasStoredGeminiApiKey} from '@/api/client';
+import {getActiveDataStore} from '@/services/localData/dataStore';
 
 // ============================================================================
 // Defaults & Validation
@@ -26,6 +27,7 @@ export const MAX_ENDED_GRACE_PERIOD_DAYS = 30;
 
 export const DEFAULT_SETTINGS: ExtensionSettings = {
     geminiApiKey: '',
+    geminiApiKeyConfigured: false,
     checkFrequencyMinutes: 60,
     endedListingGracePeriodDays: DEFAULT_ENDED_GRACE_PERIOD_DAYS,
 };
@@ -47,20 +49,24 @@ function clampGracePeriod(value?: number): number {
 }
 
 // ============================================================================
-// Settings Operations (API-only)
+// Settings Operations
 // ============================================================================
 
 /**
- * Get all extension settings from the API.
+ * Get all extension settings from the API (or the local store in local mode).
  * Returns defaults if not authenticated or on error.
  */
 export async function getSettings(): Promise<ExtensionSettings> {
     try {
-        const remoteSettings = await getRemoteSettings();
+        const remoteSettings = await (await getActiveDataStore()).getSettings();
         return {
             geminiApiKey: remoteSettings.geminiApiKey || '',
+            geminiApiKeyConfigured: hasStoredGeminiApiKey(remoteSettings),
             checkFrequencyMinutes: clampFrequency(remoteSettings.checkFrequencyMinutes),
             endedListingGracePeriodDays: clampGracePeriod(remoteSettings.endedListingGracePeriodDays),
+            llmProvider: remoteSettings.llmProvider,
+            llmModel: remoteSettings.llmModel ?? '',
+            llmBaseUrl: remoteSettings.llmBaseUrl ?? '',
         };
     } catch (error) {
         console.warn('Failed to fetch settings from API:', error);
@@ -69,14 +75,19 @@ export async function getSettings(): Promise<ExtensionSettings> {
 }
 
 /**
- * Save all extension settings to the API.
+ * Save all extension settings to the API (or the local store in local mode).
+ * An empty geminiApiKey keeps the stored key.
  */
 export async function saveSettings(settings: ExtensionSettings): Promise<void> {
+    const geminiApiKey = settings.geminiApiKey.trim();
     try {
-        await patchRemoteSettings({
-            geminiApiKey: settings.geminiApiKey,
+        await (await getActiveDataStore()).patchSettings({
+            ...(geminiApiKey ? {geminiApiKey} : {}),
             checkFrequencyMinutes: clampFrequency(settings.checkFrequencyMinutes),
             endedListingGracePeriodDays: clampGracePeriod(settings.endedListingGracePeriodDays),
+            ...(settings.llmProvider ? {llmProvider: settings.llmProvider} : {}),
+            ...(settings.llmModel !== undefined ? {llmModel: settings.llmModel.trim()} : {}),
+            ...(settings.llmBaseUrl !== undefined ? {llmBaseUrl: settings.llmBaseUrl.trim()} : {}),
         });
     } catch (error) {
         console.warn('Failed to save settings to API:', error);
@@ -89,7 +100,8 @@ export async function saveSettings(settings: ExtensionSettings): Promise<void> {
 // ============================================================================
 
 /**
- * Get Gemini API key from the API.
+ * Get Gemini API key from the active settings store.
+ * Only the local store returns the key; the backend keeps it to itself.
  */
 export async function getGeminiApiKey(): Promise<string> {
     const settings = await getSettings();
@@ -97,10 +109,10 @@ export async function getGeminiApiKey(): Promise<string> {
 }
 
 /**
- * Save Gemini API key to the API.
+ * Save Gemini API key to the active settings store.
  */
 export async function saveGeminiApiKey(key: string): Promise<void> {
-    await patchRemoteSettings({geminiApiKey: key.trim()});
+    await (await getActiveDataStore()).patchSettings({geminiApiKey: key.trim()});
 }
 
 /**
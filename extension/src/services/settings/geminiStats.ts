@@ -2,20 +2,13 @@
  * Gemini Stats Service
  *
  * Tracks Gemini API usage statistics and call history.
- * All data is stored in Firebase via the backend API.
- * NO local storage is used.
- *
- * User must be authenticated to access stats/history.
+ * Data is stored in Firebase via the backend API when signed in, or in
+ * chrome.storage.local in local-only mode (see services/localData).
  */
 
 import {GeminiCallHistoryEntry, GeminiStats} from '@/types';
-import {
-    addRemoteGeminiHistory,
-    clearRemoteGeminiHistory,
-    getRemoteGeminiHistory,
-    getRemoteSettings,
-    patchRemoteSettings,
-} from '@/api/client';
+import {DataStore, getActiveDataStore} from '@/services/localData/dataStore';
+import {addToDailyUsage} from './geminiUsage';
 
 // ============================================================================
 // Defaults
@@ -29,7 +22,7 @@ const DEFAULT_STATS: GeminiStats = {
 };
 
 // ============================================================================
-// Stats Operations (API-only)
+// Stats Operations
 // ============================================================================
 
 /**
@@ -38,7 +31,7 @@ const DEFAULT_STATS: GeminiStats = {
  */
 export async function getGeminiStats(): Promise<GeminiStats> {
     try {
-        const remoteSettings = await getRemoteSettings();
+        const remoteSettings = await (await getActiveDataStore()).getSettings();
         return remoteSettings.geminiStats || DEFAULT_STATS;
     } catch (error) {
         console.warn('Failed to fetch Gemini stats from API:', error);
@@ -47,11 +40,11 @@ export async function getGeminiStats(): Promise<GeminiStats> {
 }
 
 /**
- * Save Gemini stats to Firebase API.
+ * Save Gemini stats to the given store.
  */
-async function saveGeminiStats(stats: GeminiStats): Promise<void> {
+async function saveGeminiStats(store: DataStore, stats: GeminiStats): Promise<void> {
     try {
-        await patchRemoteSettings({geminiStats: stats});
+        await store.patchSettings({geminiStats: stats});
     } catch (error) {
         console.warn('Failed to save Gemini stats to API:', error);
         throw error;
@@ -59,7 +52,7 @@ async function saveGeminiStats(stats: GeminiStats): Promise<void> {
 }
 
 // ============================================================================
-// History Operations (API-only)
+// History Operations
 // ============================================================================
 
 /**
@@ -68,7 +61,7 @@ async function saveGeminiStats(stats: GeminiStats): Promise<void> {
  */
 export async function getGeminiHistory(): Promise<GeminiCallHistoryEntry[]> {
     try {
-        return await getRemoteGeminiHistory(200);
+        return await (await getActiveDataStore()).getGeminiHistory(200);
     } catch (error) {
         console.warn('Failed to fetch Gemini history from API:', error);
         return [];
@@ -81,26 +74,31 @@ export async function getGeminiHistory(): Promise<GeminiCallHistoryEntry[]> {
 
 /**
  * Record a new Gemini API call, updating both stats and history.
- * Requires authentication - silently fails if not authenticated.
+ * Requires authentication or local mode - silently fails otherwise.
  */
 export async function recordGeminiCall(entry: GeminiCallHistoryEntry): Promise<void> {
     try {
-        // Get current stats from API
-        const remoteSettings = await getRemoteSettings();
-        const stats = remoteSettings.geminiStats || DEFAULT_STATS;
+        // Get current stats from API (or local store)
+        const store = await getActiveDataStore();
+        const remoteSettings = await store.getSettings();
+        const {dailyUsage, ...stats} = remoteSettings.geminiStats || DEFAULT_STATS;
         const isSuccess = entry.status === 'success';
 
         const updatedStats: GeminiStats = {
+            ...stats,
             allTimeTotalCalls: stats.allTimeTotalCalls + 1,
             totalCalls: stats.totalCalls + 1,
             successCount: stats.successCount + (isSuccess ? 1 : 0),
             errorCount: stats.errorCount + (isSuccess ? 0 : 1),
+            // The API owns the daily usage (the monthly budget is checked against
+            // it) and adds the call when the history entry is saved
+            ...(store.isLocal ? {dailyUsage: addToDailyUsage(dailyUsage, entry)} : {}),
         };
 
-        // Save stats and history to API in parallel
+        // Save stats and history in parallel
         await Promise.all([
-            saveGeminiStats(updatedStats),
-            addRemoteGeminiHistory(entry),
+            saveGeminiStats(store, updatedStats),
+            store.addGeminiHistory(entry),
         ]);
     } catch (error) {
         console.warn('Failed to record Gemini call:', error);
@@ -109,12 +107,38 @@ export async function recordGeminiCall(entry: GeminiCallHistoryEntry): Promise<v
 }
 
 /**
- * Clear session stats and history, preserving all-time total.
- * Requires authentication.
+ * Count refreshes that skipped the LLM because the page was unchanged.
+ * Requires authentication or local mode - silently fails otherwise.
+ */
+export async function recordSavedGeminiCalls(count: number): Promise<void> {
+    if (count <= 0) {
+        return;
+    }
+
+    try {
+        const store = await getActiveDataStore();
+        const remoteSettings = await store.getSettings();
+        const stats = remoteSettings.geminiStats || DEFAULT_STATS;
+
+        await saveGeminiStats(store, {
+            ...stats,
+            savedCalls: (stats.savedCalls || 0) + count,
+        });
+    } catch (error) {
+        console.warn('Failed to record saved Gemini calls:', error);
+        // Silently fail - don't break the main flow
+    }
+}
+
+/**
+ * Clear session stats and history, preserving all-time total
+ * and the daily usage the monthly budget is checked against.
+ * Requires authentication or local mode.
  */
 export async function clearGeminiLogs(): Promise<void> {
     try {
-        const remoteSettings = await getRemoteSettings();
+        const store = await getActiveDataStore();
+        const remoteSettings = await store.getSettings();
         const stats = remoteSettings.geminiStats || DEFAULT_STATS;
 
         const clearedStats: GeminiStats = {
@@ -122,11 +146,13 @@ export async function clearGeminiLogs(): Promise<void> {
             totalCalls: 0,
             successCount: 0,
             errorCount: 0,
+            savedCalls: 0,
+            ...(stats.dailyUsage ? {dailyUsage: stats.dailyUsage} : {}),
         };
 
         await Promise.all([
-            patchRemoteSettings({geminiStats: clearedStats}),
-            clearRemoteGeminiHistory(),
+            store.patchSettings({geminiStats: clearedStats}),
+            store.clearGeminiHistory(),
         ]);
     } catch (error) {
         console.warn('Failed to clear Gemini logs:', error);
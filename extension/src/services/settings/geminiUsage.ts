@@ -0,0 +1,103 @@
+/**
+ * Gemini Usage Aggregation
+ *
+ * Daily usage buckets kept in GeminiStats.dailyUsage, the usage charts
+ * built from them and the monthly budget check. Days are UTC so the
+ * buckets line up with the ones the API adds to (api/src/gemini/usage.ts).
+ */
+
+import {GeminiCallHistoryEntry, GeminiDailyUsage, GeminiStats} from '@/types';
+
+/** Daily usage buckets older than this are dropped */
+export const USAGE_RETENTION_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Usage of one chart bar (a day or a month)
+ */
+export interface UsagePoint extends GeminiDailyUsage {
+    /** YYYY-MM-DD for days, YYYY-MM for months */
+    period: string;
+}
+
+const EMPTY_USAGE: GeminiDailyUsage = {calls: 0, promptTokens: 0, responseTokens: 0, costUsd: 0};
+
+function addUsage(a: GeminiDailyUsage, b: GeminiDailyUsage): GeminiDailyUsage {
+    return {
+        calls: a.calls + b.calls,
+        promptTokens: a.promptTokens + b.promptTokens,
+        responseTokens: a.responseTokens + b.responseTokens,
+        costUsd: a.costUsd + b.costUsd,
+    };
+}
+
+/**
+ * Add a call to its day's usage bucket, dropping expired buckets
+ */
+export function addToDailyUsage(
+    dailyUsage: Record<string, GeminiDailyUsage> | undefined,
+    entry: GeminiCallHistoryEntry,
+): Record<string, GeminiDailyUsage> {
+    const day = entry.timestamp.slice(0, 10);
+    const cutoff = new Date(Date.parse(entry.timestamp) - USAGE_RETENTION_DAYS * DAY_MS).toISOString().slice(0, 10);
+
+    const kept = Object.fromEntries(Object.entries(dailyUsage ?? {}).filter(([key]) => key >= cutoff));
+    kept[day] = addUsage(kept[day] ?? EMPTY_USAGE, {
+        calls: 1,
+        promptTokens: entry.promptTokens ?? 0,
+        responseTokens: entry.responseTokens ?? 0,
+        costUsd: entry.costUsd ?? 0,
+    });
+    return kept;
+}
+
+/**
+ * Usage of the last `days` days, oldest first, with empty days filled in
+ */
+export function getDailyUsageSeries(stats: GeminiStats, days: number, now: Date = new Date()): UsagePoint[] {
+    return Array.from({length: days}, (_, index) => {
+        const period = new Date(now.getTime() - (days - 1 - index) * DAY_MS).toISOString().slice(0, 10);
+        return {period, ...(stats.dailyUsage?.[period] ?? EMPTY_USAGE)};
+    });
+}
+
+/**
+ * Usage of the last `months` calendar months, oldest first
+ */
+export function getMonthlyUsageSeries(stats: GeminiStats, months: number, now: Date = new Date()): UsagePoint[] {
+    const points: UsagePoint[] = Array.from({length: months}, (_, index) => {
+        const month = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1 - index), 1));
+        return {period: month.toISOString().slice(0, 7), ...EMPTY_USAGE};
+    });
+
+    for (const [day, usage] of Object.entries(stats.dailyUsage ?? {})) {
+        const point = points.find((candidate) => day.startsWith(candidate.period));
+        if (point) {
+            Object.assign(point, addUsage(point, usage));
+        }
+    }
+    return points;
+}
+
+/**
+ * Estimated spend in the current calendar month
+ */
+export function getMonthlyCostUsd(stats: GeminiStats | undefined, now: Date = new Date()): number {
+    const month = now.toISOString().slice(0, 7);
+    return Object.entries(stats?.dailyUsage ?? {})
+        .filter(([day]) => day.startsWith(month))
+        .reduce((total, [, usage]) => total + usage.costUsd, 0);
+}
+
+/**
+ * Whether this month's estimated spend has reached the budget
+ * (no budget set means never)
+ */
+export function hasReachedMonthlyBudget(
+    stats: GeminiStats | undefined,
+    budgetUsd: number | null | undefined,
+    now: Date = new Date(),
+): boolean {
+    return !!budgetUsd && budgetUsd > 0 && getMonthlyCostUsd(stats, now) >= budgetUsd;
+}
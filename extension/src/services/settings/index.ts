@@ -24,8 +24,26 @@ export {
     getGeminiStats,
     getGeminiHistory,
     recordGeminiCall,
+    recordSavedGeminiCalls,
     clearGeminiLogs,
 } from './geminiStats';
+export {
+    getDailyUsageSeries,
+    getMonthlyCostUsd,
+    getMonthlyUsageSeries,
+    hasReachedMonthlyBudget,
+} from './geminiUsage';
+export type {UsagePoint} from './geminiUsage';
+
+// Custom marketplaces
+export {
+    createCustomMarketplace,
+    getHostPermissionOrigins,
+    hasHostPermissions,
+    requestHostPermissions,
+    releaseHostPermissions,
+} from './customMarketplaces';
+export type {CustomMarketplaceError, CustomMarketplaceInput} from './customMarketplaces';
 
 // Refresh status
 export {
@@ -17,6 +17,7 @@ export const DEFAULT_REFRESH_STATUS: RefreshStatus = {
     lastRefreshTime: null,
     nextRefreshTime: null,
     lastRefreshCount: 0,
+    lastSavedCallCount: 0,
     isRefreshing: false,
     currentIndex: 0,
     totalCount: 0,
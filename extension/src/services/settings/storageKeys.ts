@@ -8,6 +8,7 @@
 export const STORAGE_KEYS = {
     // Runtime state (session storage only)
     refreshStatus: 'motorscope_refresh_status',
+    budgetNotifiedMonth: 'motorscope_budget_notified_month', // YYYY-MM of the last budget notification
 } as const;
 
 export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
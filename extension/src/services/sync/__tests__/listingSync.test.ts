@@ -0,0 +1,156 @@
+/**
+ * Tests for Listing Sync
+ */
+
+import {applyListingChanges, resolveListingConflict} from '../listingSync';
+import {createMockListing} from '@/test-utils/mockData';
+
+const SERVER_TIME = '2024-02-01T10:00:00.000Z';
+
+describe('applyListingChanges', () => {
+    it('should replace changed listings in place and append new ones', () => {
+        const listings = [createMockListing({id: 'a', title: 'A'}), createMockListing({id: 'b', title: 'B'})];
+        const changes = {
+            listings: [createMockListing({id: 'c', title: 'C'}), createMockListing({id: 'a', title: 'A2'})],
+            deleted: [],
+            serverTime: SERVER_TIME,
+        };
+
+        const result = applyListingChanges(listings, changes);
+
+        expect(result.map((l) => [l.id, l.title])).toEqual([['a', 'A2'], ['b', 'B'], ['c', 'C']]);
+    });
+
+    it('should remove deleted listings', () => {
+        const listings = [createMockListing({id: 'a'}), createMockListing({id: 'b'})];
+
+        const result = applyListingChanges(listings, {
+            listings: [],
+            deleted: [{id: 'a', deletedAt: SERVER_TIME}, {id: 'unknown', deletedAt: SERVER_TIME}],
+            serverTime: SERVER_TIME,
+        });
+
+        expect(result.map((l) => l.id)).toEqual(['b']);
+    });
+
+    it('should keep a listing that was deleted and recreated', () => {
+        const listings = [createMockListing({id: 'a', revision: 2})];
+
+        const result = applyListingChanges(listings, {
+            listings: [createMockListing({id: 'a', revision: 1})],
+            deleted: [{id: 'a', deletedAt: SERVER_TIME}],
+            serverTime: SERVER_TIME,
+        });
+
+        expect(result).toHaveLength(1);
+        expect(result[0].revision).toBe(1);
+    });
+
+    it('should keep the loaded copy of a repeated change', () => {
+        const loaded = createMockListing({id: 'a', title: 'Loaded', revision: 2});
+
+        const result = applyListingChanges([loaded], {
+            listings: [createMockListing({id: 'a', title: 'Repeated', revision: 2})],
+            deleted: [],
+            serverTime: SERVER_TIME,
+        });
+
+        expect(result[0]).toBe(loaded);
+    });
+
+    it('should return the listings unchanged for an empty delta', () => {
+        const listings = [createMockListing({id: 'a'})];
+
+        expect(applyListingChanges(listings, {listings: [], deleted: [], serverTime: SERVER_TIME})).toEqual(listings);
+    });
+});
+
+describe('resolveListingConflict', () => {
+    const local = createMockListing({
+        id: 'a',
+        title: 'Local title',
+        revision: 3,
+        priceHistory: [
+            {date: '2024-01-15T10:00:00Z', price: 129000, currency: 'PLN'},
+            {date: '2024-01-30T10:00:00Z', price: 119000, currency: 'PLN'},
+        ],
+        firstSeenAt: '2024-01-15T10:00:00Z',
+        lastSeenAt: '2024-01-30T10:00:00Z',
+    });
+    const current = createMockListing({
+        id: 'a',
+        title: 'Server title',
+        revision: 5,
+        priceHistory: [
+            {date: '2024-01-10T10:00:00Z', price: 131000, currency: 'PLN'},
+            {date: '2024-01-15T10:00:00Z', price: 129000, currency: 'PLN'},
+            {date: '2024-01-25T10:00:00Z', price: 125000, currency: 'PLN'},
+        ],
+        firstSeenAt: '2024-01-10T10:00:00Z',
+        lastSeenAt: '2024-01-25T10:00:00Z',
+    });
+
+    it('should keep local listing fields and take the stored revision', () => {
+        const resolved = resolveListingConflict(local, current);
+
+        expect(resolved.title).toBe('Local title');
+        expect(resolved.revision).toBe(5);
+    });
+
+    it('should merge price histories from both copies without duplicates', () => {
+        const resolved = resolveListingConflict(local, current);
+
+        expect(resolved.priceHistory.map((p) => p.price)).toEqual([131000, 129000, 125000, 119000]);
+    });
+
+    it('should cover the tracking window of both copies', () => {
+        const resolved = resolveListingConflict(local, current);
+
+        expect(resolved.firstSeenAt).toBe('2024-01-10T10:00:00Z');
+        expect(resolved.lastSeenAt).toBe('2024-01-30T10:00:00Z');
+    });
+
+    it('should keep user corrections made on either copy', () => {
+        const editedAt = '2024-01-20T10:00:00Z';
+        const resolved = resolveListingConflict(
+            {
+                ...local,
+                fieldOverrides: {'vehicle.make': {value: 'Audi', originalValue: 'BMW', editedAt}},
+            },
+            {
+                ...current,
+                vehicle: {...current.vehicle, make: 'Audi', productionYear: 2021},
+                fieldOverrides: {
+                    'vehicle.make': {value: 'Audi', originalValue: 'BMW', editedAt},
+                    'vehicle.productionYear': {value: 2021, originalValue: 2020, editedAt},
+                },
+            },
+        );
+
+        expect(Object.keys(resolved.fieldOverrides ?? {})).toEqual(['vehicle.make', 'vehicle.productionYear']);
+        expect(resolved.vehicle.make).toBe('Audi');
+        expect(resolved.vehicle.productionYear).toBe(2021);
+    });
+
+    it('should not bring back a correction reverted on the local copy', () => {
+        const override = {value: 'Audi', originalValue: 'BMW', editedAt: '2024-01-20T10:00:00Z'};
+        const resolved = resolveListingConflict(
+            {...local, fieldOverrides: {}, fieldOverrideRemovals: {'vehicle.make': '2024-01-28T10:00:00Z'}},
+            {...current, vehicle: {...current.vehicle, make: 'Audi'}, fieldOverrides: {'vehicle.make': override}},
+        );
+
+        expect(resolved.vehicle.make).toBe('BMW');
+        expect(resolved.fieldOverrides).toEqual({});
+    });
+
+    it('should keep a stored correction made after the local revert', () => {
+        const override = {value: 'Audi', originalValue: 'BMW', editedAt: '2024-01-29T10:00:00Z'};
+        const resolved = resolveListingConflict(
+            {...local, fieldOverrides: {}, fieldOverrideRemovals: {'vehicle.make': '2024-01-28T10:00:00Z'}},
+            {...current, fieldOverrides: {'vehicle.make': override}},
+        );
+
+        expect(resolved.vehicle.make).toBe('Audi');
+        expect(resolved.fieldOverrides).toEqual({'vehicle.make': override});
+    });
+});
@@ -0,0 +1,8 @@
+/**
+ * Listing Sync Service - Barrel Export
+ *
+ * Delta sync and revision conflict resolution for listings stored on the API.
+ */
+
+export type {ListingChanges} from './listingSync';
+export {applyListingChanges, LISTINGS_SYNC_EPOCH, resolveListingConflict} from './listingSync';
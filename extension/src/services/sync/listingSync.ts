@@ -0,0 +1,69 @@
+/**
+ * Listing Sync
+ *
+ * Client side of the API's delta sync and conditional writes. Listings carry
+ * a server-assigned revision; a write based on an older revision is rejected
+ * with 409 and the stored copy, which is merged with the local one here so
+ * price points recorded by another client are kept instead of overwritten.
+ */
+
+import {CarListing} from '@/types';
+import {mergePriceHistories} from '@/services/import/listingImport';
+import {mergeFieldOverrides} from '@/services/listingEdits';
+
+/**
+ * Listing changes since the last sync (GET /api/listings?since=)
+ */
+export interface ListingChanges {
+    /** Listings created or updated since the last sync */
+    listings: CarListing[];
+    /** Listings deleted since the last sync */
+    deleted: Array<{ id: string; deletedAt: string }>;
+    /** Cursor for the next sync (lags the server clock, so changes may repeat) */
+    serverTime: string;
+}
+
+/** Cursor for the first delta sync, returns every listing */
+export const LISTINGS_SYNC_EPOCH = '1970-01-01T00:00:00.000Z';
+
+const earliest = (a: string, b: string): string => (new Date(a) <= new Date(b) ? a : b);
+const latest = (a: string, b: string): string => (new Date(a) >= new Date(b) ? a : b);
+
+/**
+ * Apply a delta to the listings already loaded
+ * Changed listings replace their local copy in place, new ones are appended.
+ * The server repeats recent changes on the next sync; a listing whose
+ * revision is already loaded keeps its local copy.
+ */
+export const applyListingChanges = (listings: CarListing[], changes: ListingChanges): CarListing[] => {
+    const deletedIds = new Set(changes.deleted.map((entry) => entry.id));
+    const changedById = new Map(changes.listings.map((listing) => [listing.id, listing]));
+
+    const updated = listings
+        .filter((listing) => !deletedIds.has(listing.id) || changedById.has(listing.id))
+        .map((listing) => {
+            const changed = changedById.get(listing.id);
+            const alreadyLoaded = changed?.revision !== undefined && changed.revision === listing.revision;
+            return changed && !alreadyLoaded ? changed : listing;
+        });
+    const knownIds = new Set(listings.map((listing) => listing.id));
+    const added = changes.listings.filter((listing) => !knownIds.has(listing.id));
+
+    return [...updated, ...added];
+};
+
+/**
+ * Resolve a rejected write against the copy stored on the server
+ *
+ * The local write wins for listing fields, but price histories are combined
+ * and the tracking window covers both copies. User corrections are merged
+ * field by field, so the latest edit or revert from either copy wins. The
+ * result carries the stored revision, so it can be written again conditionally.
+ */
+export const resolveListingConflict = (local: CarListing, current: CarListing): CarListing => mergeFieldOverrides({
+    ...local,
+    priceHistory: mergePriceHistories(current.priceHistory, local.priceHistory),
+    firstSeenAt: earliest(current.firstSeenAt, local.firstSeenAt),
+    lastSeenAt: latest(current.lastSeenAt, local.lastSeenAt),
+    revision: current.revision,
+}, current);
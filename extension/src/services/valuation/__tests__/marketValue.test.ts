@@ -0,0 +1,220 @@
+/**
+ * Tests for Market Value Estimation
+ */
+
+import {
+    estimateMarketValue,
+    estimateMarketValues,
+    findComparables,
+    getMarketValueRating,
+    MarketValueEstimate,
+} from '../marketValue';
+import {CarListing} from '@/types';
+import {createMockListing} from '@/test-utils/mockData';
+
+interface ListingSpec {
+    id: string;
+    price: number;
+    mileage?: number | null;
+    powerHp?: number | null;
+    year?: number | null;
+    make?: string;
+    model?: string;
+    generation?: string | null;
+    fuelType?: string | null;
+    currency?: string;
+}
+
+const createListing = ({
+    id,
+    price,
+    mileage = 100000,
+    powerHp = 190,
+    year = 2020,
+    make = 'BMW',
+    model = '320d',
+    generation = 'G20',
+    fuelType = 'Diesel',
+    currency = 'PLN',
+}: ListingSpec): CarListing => {
+    const base = createMockListing();
+    return createMockListing({
+        id,
+        currentPrice: price,
+        currency,
+        vehicle: {
+            ...base.vehicle,
+            vin: null,
+            make,
+            model,
+            generation,
+            productionYear: year,
+            mileage: {value: mileage, unit: 'km'},
+            engine: {...base.vehicle.engine, fuelType, powerHp},
+        },
+    });
+};
+
+describe('findComparables', () => {
+    const target = createListing({id: 'target', price: 100000});
+
+    it('should match make, model, generation, fuel type and year window', () => {
+        const listings = [
+            target,
+            createListing({id: 'same', price: 100000}),
+            createListing({id: 'case', price: 100000, make: 'bmw', model: '320D'}),
+            createListing({id: 'near-year', price: 100000, year: 2022}),
+            createListing({id: 'old', price: 100000, year: 2017}),
+            createListing({id: 'other-model', price: 100000, model: '520d'}),
+            createListing({id: 'other-generation', price: 100000, generation: 'F30'}),
+            createListing({id: 'petrol', price: 100000, fuelType: 'Petrol'}),
+            createListing({id: 'eur', price: 100000, currency: 'EUR'}),
+        ];
+
+        expect(findComparables(target, listings).map((c) => c.listingId)).toEqual(['same', 'case', 'near-year']);
+    });
+
+    it('should treat unknown generation and fuel type as matching', () => {
+        const listings = [createListing({id: 'unknown', price: 100000, generation: null, fuelType: null})];
+
+        expect(findComparables(target, listings)).toHaveLength(1);
+    });
+
+    it('should skip relistings of the same vehicle', () => {
+        const withVin = {...target, vehicle: {...target.vehicle, vin: 'VIN1'}};
+        const relisted = createListing({id: 'relisted', price: 95000});
+        relisted.vehicle.vin = 'VIN1';
+
+        expect(findComparables(withVin, [relisted])).toEqual([]);
+    });
+
+    it('should return nothing without make and model', () => {
+        const unknown = createListing({id: 'unknown', price: 100000, make: ''});
+
+        expect(findComparables(unknown, [target])).toEqual([]);
+    });
+});
+
+describe('estimateMarketValue', () => {
+    it('should fit price against mileage and power', () => {
+        // price = 150000 - 0.5 * mileage + 200 * (powerHp - 190)
+        const listings = [
+            createListing({id: 'a', price: 125000, mileage: 50000, powerHp: 190}),
+            createListing({id: 'b', price: 100000, mileage: 100000, powerHp: 190}),
+            createListing({id: 'c', price: 79000, mileage: 150000, powerHp: 210}),
+            createListing({id: 'd', price: 94000, mileage: 100000, powerHp: 160}),
+            createListing({id: 'e', price: 60000, mileage: 200000, powerHp: 240}),
+        ];
+        const target = createListing({id: 'target', price: 90000, mileage: 120000, powerHp: 190});
+
+        const estimate = estimateMarketValue(target, [target, ...listings]);
+
+        expect(estimate).toMatchObject({
+            estimatedPrice: 90000,
+            method: 'regression',
+            features: ['mileage', 'powerHp'],
+            currency: 'PLN',
+        });
+        expect(estimate?.deviationPercent).toBeCloseTo(0);
+        expect(estimate?.comparables).toHaveLength(5);
+    });
+
+    it('should report the deviation of the asking price', () => {
+        const listings = [
+            createListing({id: 'a', price: 100000, mileage: 100000}),
+            createListing({id: 'b', price: 90000, mileage: 120000}),
+            createListing({id: 'c', price: 110000, mileage: 80000}),
+        ];
+        const target = createListing({id: 'target', price: 90000, mileage: 100000});
+
+        const estimate = estimateMarketValue(target, listings);
+
+        expect(estimate?.method).toBe('regression');
+        expect(estimate?.features).toEqual(['mileage']);
+        expect(estimate?.estimatedPrice).toBe(100000);
+        expect(estimate?.deviationPercent).toBeCloseTo(-10);
+    });
+
+    it('should fall back to the median price when values are missing', () => {
+        const listings = [
+            createListing({id: 'a', price: 80000, mileage: null, powerHp: null}),
+            createListing({id: 'b', price: 100000, mileage: null, powerHp: null}),
+            createListing({id: 'c', price: 130000, mileage: null, powerHp: null}),
+        ];
+        const target = createListing({id: 'target', price: 110000});
+
+        const estimate = estimateMarketValue(target, listings);
+
+        expect(estimate?.method).toBe('median');
+        expect(estimate?.features).toEqual([]);
+        expect(estimate?.estimatedPrice).toBe(100000);
+        expect(estimate?.deviationPercent).toBeCloseTo(10);
+    });
+
+    it('should fall back to the median price when mileage does not vary', () => {
+        const listings = [
+            createListing({id: 'a', price: 90000, powerHp: null}),
+            createListing({id: 'b', price: 100000, powerHp: null}),
+            createListing({id: 'c', price: 120000, powerHp: null}),
+        ];
+        const target = createListing({id: 'target', price: 100000});
+
+        expect(estimateMarketValue(target, listings)?.method).toBe('median');
+    });
+
+    it('should return null with too few comparables', () => {
+        const listings = [
+            createListing({id: 'a', price: 100000}),
+            createListing({id: 'b', price: 90000}),
+        ];
+        const target = createListing({id: 'target', price: 100000});
+
+        expect(estimateMarketValue(target, listings)).toBeNull();
+    });
+
+    it('should return null when the estimate rounds to zero', () => {
+        const listings = [
+            createListing({id: 'a', price: 1, mileage: null, powerHp: null}),
+            createListing({id: 'b', price: 10, mileage: null, powerHp: null}),
+            createListing({id: 'c', price: 20, mileage: null, powerHp: null}),
+        ];
+        const target = createListing({id: 'target', price: 100000});
+
+        expect(estimateMarketValue(target, listings)).toBeNull();
+    });
+});
+
+describe('estimateMarketValues', () => {
+    it('should key estimates by listing ID and skip listings without comparables', () => {
+        const listings = [
+            createListing({id: 'a', price: 100000, mileage: 100000}),
+            createListing({id: 'b', price: 90000, mileage: 120000}),
+            createListing({id: 'c', price: 110000, mileage: 80000}),
+            createListing({id: 'd', price: 95000, mileage: 110000}),
+            createListing({id: 'audi', price: 95000, make: 'Audi', model: 'A4'}),
+        ];
+
+        const estimates = estimateMarketValues(listings);
+
+        expect(Object.keys(estimates).sort()).toEqual(['a', 'b', 'c', 'd']);
+        expect(estimates.a.comparables.map((c) => c.listingId)).toEqual(['b', 'c', 'd']);
+    });
+});
+
+describe('getMarketValueRating', () => {
+    const withDeviation = (deviationPercent: number): MarketValueEstimate => ({
+        estimatedPrice: 100000,
+        currency: 'PLN',
+        deviationPercent,
+        method: 'median',
+        features: [],
+        comparables: [],
+    });
+
+    it('should rate prices against the fair price tolerance', () => {
+        expect(getMarketValueRating(withDeviation(-8))).toBe('below');
+        expect(getMarketValueRating(withDeviation(-3))).toBe('fair');
+        expect(getMarketValueRating(withDeviation(2.5))).toBe('fair');
+        expect(getMarketValueRating(withDeviation(4))).toBe('above');
+    });
+});
@@ -0,0 +1,16 @@
+/**
+ * Valuation Service - Barrel Export
+ *
+ * Market value estimates built from the user's own tracked listings.
+ */
+
+export {
+    estimateMarketValue,
+    estimateMarketValues,
+    findComparables,
+    getMarketValueRating,
+    FAIR_PRICE_TOLERANCE_PERCENT,
+    MIN_COMPARABLES,
+    PRODUCTION_YEAR_WINDOW,
+} from './marketValue';
+export type {Comparable, MarketValueEstimate, MarketValueRating, ValuationFeature} from './marketValue';
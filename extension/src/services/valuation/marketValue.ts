@@ -0,0 +1,306 @@
+/**
+ * Market Value Estimation
+ *
+ * Estimates a fair price for a listing from the user's other tracked
+ * listings. Comparables share make, model, generation and fuel type and are
+ * produced within a few years of the target; a linear price model over
+ * mileage and power is fitted to them. When there are too few comparables
+ * with those values the median comparable price is used instead.
+ */
+
+import {CarListing} from '@/types';
+
+/** Vehicle attributes the price model can use */
+export type ValuationFeature = 'mileage' | 'powerHp';
+
+/**
+ * Listing used as a comparable for an estimate
+ */
+export interface Comparable {
+    listingId: string;
+    title: string;
+    url: string;
+    price: number;
+    currency: string;
+    mileageKm: number | null;
+    powerHp: number | null;
+    productionYear: number | null;
+}
+
+/**
+ * Estimated fair price of a listing
+ */
+export interface MarketValueEstimate {
+    estimatedPrice: number;
+    currency: string;
+    /** How far the asking price is from the estimate (negative = cheaper) */
+    deviationPercent: number;
+    method: 'regression' | 'median';
+    /** Attributes the price model was fitted on (empty for median) */
+    features: ValuationFeature[];
+    comparables: Comparable[];
+}
+
+/** Asking price relative to the estimate */
+export type MarketValueRating = 'below' | 'fair' | 'above';
+
+/** Minimum number of comparables needed for any estimate */
+export const MIN_COMPARABLES = 3;
+
+/** Comparables may be produced this many years before or after the target */
+export const PRODUCTION_YEAR_WINDOW = 2;
+
+/** Deviations within this many percent count as a fair price */
+export const FAIR_PRICE_TOLERANCE_PERCENT = 3;
+
+const KM_PER_MILE = 1.609344;
+
+/** Estimates are rounded to this amount */
+const ESTIMATE_ROUNDING = 100;
+
+/** Pivot magnitude below which the model is treated as unsolvable */
+const SINGULAR_EPSILON = 1e-9;
+
+const normalizeKey = (value: string | null | undefined): string | null => {
+    const normalized = value?.trim().toLowerCase();
+    return normalized ? normalized : null;
+};
+
+/** Attribute matches when equal or unknown on either side */
+const matchesOptional = (a: string | null, b: string | null): boolean => a === null || b === null || a === b;
+
+const getMileageKm = (listing: CarListing): number | null => {
+    const mileage = listing.vehicle.mileage;
+    if (mileage?.value === null || mileage?.value === undefined) {
+        return null;
+    }
+    return mileage.unit === 'mi' ? Math.round(mileage.value * KM_PER_MILE) : mileage.value;
+};
+
+const getFeatureValue = (comparable: Comparable, feature: ValuationFeature): number | null =>
+    feature === 'mileage' ? comparable.mileageKm : comparable.powerHp;
+
+const toComparable = (listing: CarListing): Comparable => ({
+    listingId: listing.id,
+    title: listing.title,
+    url: listing.source.url,
+    price: listing.currentPrice,
+    currency: listing.currency,
+    mileageKm: getMileageKm(listing),
+    powerHp: listing.vehicle.engine?.powerHp ?? null,
+    productionYear: listing.vehicle.productionYear,
+});
+
+/**
+ * Find the tracked listings comparable to a target listing
+ *
+ * Make and model are required; generation, fuel type and production year
+ * are only compared when known for both listings.
+ */
+export const findComparables = (target: CarListing, listings: CarListing[]): Comparable[] => {
+    const make = normalizeKey(target.vehicle.make);
+    const model = normalizeKey(target.vehicle.model);
+    if (!make || !model) {
+        return [];
+    }
+
+    const generation = normalizeKey(target.vehicle.generation);
+    const fuelType = normalizeKey(target.vehicle.engine?.fuelType);
+    const year = target.vehicle.productionYear;
+    const vin = target.vehicle.vin;
+
+    return listings
+        .filter((listing) => {
+            const v = listing.vehicle;
+            if (listing.id === target.id || (vin && v.vin === vin)) {
+                return false;
+            }
+            if (listing.currency !== target.currency || !(listing.currentPrice > 0)) {
+                return false;
+            }
+            if (normalizeKey(v.make) !== make || normalizeKey(v.model) !== model) {
+                return false;
+            }
+            if (!matchesOptional(generation, normalizeKey(v.generation))) {
+                return false;
+            }
+            if (!matchesOptional(fuelType, normalizeKey(v.engine?.fuelType))) {
+                return false;
+            }
+            return year === null || v.productionYear === null ||
+                Math.abs(v.productionYear - year) <= PRODUCTION_YEAR_WINDOW;
+        })
+        .map(toComparable);
+};
+
+/**
+ * Solve a linear system with Gaussian elimination (partial pivoting)
+ *
+ * @returns Solution vector, or null when the system is singular
+ */
+const solveLinearSystem = (matrix: number[][], vector: number[]): number[] | null => {
+    const n = vector.length;
+    const a = matrix.map((row, i) => [...row, vector[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+                pivot = row;
+            }
+        }
+        if (Math.abs(a[pivot][col]) < SINGULAR_EPSILON) {
+            return null;
+        }
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) {
+                a[row][k] -= factor * a[col][k];
+            }
+        }
+    }
+
+    const solution = new Array<number>(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) {
+            sum -= a[row][k] * solution[k];
+        }
+        solution[row] = sum / a[row][row];
+    }
+    return solution;
+};
+
+/**
+ * Fit price = intercept + sum(coefficient * centered feature) and predict the target price
+ *
+ * @returns Predicted price, or null when the model cannot be fitted
+ */
+const predictWithLinearModel = (
+    rows: number[][],
+    prices: number[],
+    target: number[],
+): number | null => {
+    const featureCount = target.length;
+    const means = target.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / rows.length);
+    const design = rows.map((row) => [1, ...row.map((value, j) => value - means[j])]);
+
+    // Normal equations: (X^T X) b = X^T y
+    const size = featureCount + 1;
+    const xtx = Array.from({length: size}, () => new Array<number>(size).fill(0));
+    const xty = new Array<number>(size).fill(0);
+    design.forEach((row, i) => {
+        for (let r = 0; r < size; r++) {
+            xty[r] += row[r] * prices[i];
+            for (let c = 0; c < size; c++) {
+                xtx[r][c] += row[r] * row[c];
+            }
+        }
+    });
+
+    const coefficients = solveLinearSystem(xtx, xty);
+    if (!coefficients) {
+        return null;
+    }
+
+    return coefficients[0] + target.reduce((sum, value, j) => sum + coefficients[j + 1] * (value - means[j]), 0);
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/** Feature sets to try, richest first */
+const FEATURE_SETS: ValuationFeature[][] = [['mileage', 'powerHp'], ['mileage'], ['powerHp']];
+
+/**
+ * Estimate the fair price of a listing from comparable tracked listings
+ *
+ * @returns Estimate, or null when there are fewer than MIN_COMPARABLES comparables
+ *   or the estimate rounds to zero
+ */
+export const estimateMarketValue = (target: CarListing, listings: CarListing[]): MarketValueEstimate | null => {
+    const comparables = findComparables(target, listings);
+    if (comparables.length < MIN_COMPARABLES || !(target.currentPrice > 0)) {
+        return null;
+    }
+
+    const targetComparable = toComparable(target);
+    let estimatedPrice: number | null = null;
+    let features: ValuationFeature[] = [];
+    let used = comparables;
+
+    for (const featureSet of FEATURE_SETS) {
+        const targetValues = featureSet.map((feature) => getFeatureValue(targetComparable, feature));
+        if (targetValues.some((value) => value === null)) {
+            continue;
+        }
+
+        const usable = comparables.filter((c) => featureSet.every((feature) => getFeatureValue(c, feature) !== null));
+        // Require more observations than parameters so the fit is not exact
+        if (usable.length < Math.max(MIN_COMPARABLES, featureSet.length + 2)) {
+            continue;
+        }
+
+        const prediction = predictWithLinearModel(
+            usable.map((c) => featureSet.map((feature) => getFeatureValue(c, feature) as number)),
+            usable.map((c) => c.price),
+            targetValues as number[],
+        );
+        if (prediction !== null && prediction > 0) {
+            estimatedPrice = prediction;
+            features = featureSet;
+            used = usable;
+            break;
+        }
+    }
+
+    if (estimatedPrice === null) {
+        estimatedPrice = median(comparables.map((c) => c.price));
+    }
+
+    const rounded = Math.round(estimatedPrice / ESTIMATE_ROUNDING) * ESTIMATE_ROUNDING;
+    // Prices below half the rounding step (e.g. placeholder prices) give no usable estimate
+    if (rounded <= 0) {
+        return null;
+    }
+
+    return {
+        estimatedPrice: rounded,
+        currency: target.currency,
+        deviationPercent: ((target.currentPrice - rounded) / rounded) * 100,
+        method: features.length > 0 ? 'regression' : 'median',
+        features,
+        comparables: used,
+    };
+};
+
+/**
+ * Estimate the fair price of every listing that has enough comparables
+ *
+ * @returns Estimates keyed by listing ID
+ */
+export const estimateMarketValues = (listings: CarListing[]): Record<string, MarketValueEstimate> => {
+    const estimates: Record<string, MarketValueEstimate> = {};
+    for (const listing of listings) {
+        const estimate = estimateMarketValue(listing, listings);
+        if (estimate) {
+            estimates[listing.id] = estimate;
+        }
+    }
+    return estimates;
+};
+
+/**
+ * Rate an asking price against its estimate
+ */
+export const getMarketValueRating = (estimate: MarketValueEstimate): MarketValueRating => {
+    if (estimate.deviationPercent < -FAIR_PRICE_TOLERANCE_PERCENT) {
+        return 'below';
+    }
+    return estimate.deviationPercent > FAIR_PRICE_TOLERANCE_PERCENT ? 'above' : 'fair';
+};
@@ -0,0 +1,177 @@
+/**
+ * VIN History Tests
+ */
+
+import {getSourceTimeline, mergeVinRelisting, toSighting, wasRelisted} from '../vinHistory';
+import {createMockListing} from '@/test-utils/mockData';
+import {CarListing, ListingStatus} from '@/types';
+
+const NOW = '2024-03-01T12:00:00.000Z';
+
+const endedListing = (): CarListing => createMockListing({
+    id: 'vin_WBAXXXXXXXX123456',
+    status: ListingStatus.ENDED,
+    statusChangedAt: '2024-02-01T10:00:00Z',
+});
+
+const relisting = (overrides: Partial<CarListing> = {}): CarListing => createMockListing({
+    id: 'vin_WBAXXXXXXXX123456',
+    source: {
+        platform: 'www.mobile.de',
+        url: 'https://www.mobile.de/relisted-car',
+        listingId: 'mobile-987',
+        countryCode: 'DE',
+    },
+    seller: {type: 'private', name: 'Jan Kowalski', phone: null, isCompany: false},
+    currentPrice: 119000,
+    priceHistory: [{date: NOW, price: 119000, currency: 'PLN'}],
+    firstSeenAt: NOW,
+    lastSeenAt: NOW,
+    ...overrides,
+});
+
+describe('vinHistory', () => {
+    describe('toSighting', () => {
+        it('captures the current source, seller and price', () => {
+            const listing = createMockListing();
+
+            expect(toSighting(listing)).toEqual({
+                url: 'https://www.otomoto.pl/test-listing',
+                platform: 'otomoto.pl',
+                listingId: 'otomoto-123456',
+                sellerName: 'BMW Premium Selection',
+                sellerType: 'dealer',
+                price: 125000,
+                currency: 'PLN',
+                firstSeenAt: '2024-01-15T10:00:00Z',
+                lastSeenAt: '2024-01-25T10:00:00Z',
+                status: ListingStatus.ACTIVE,
+            });
+        });
+    });
+
+    describe('getSourceTimeline', () => {
+        it('returns a single entry for listings that never changed source', () => {
+            const timeline = getSourceTimeline(createMockListing());
+
+            expect(timeline).toHaveLength(1);
+            expect(timeline[0].url).toBe('https://www.otomoto.pl/test-listing');
+        });
+
+        it('refreshes the current entry with the live price and status', () => {
+            const merged = mergeVinRelisting(endedListing(), relisting(), NOW);
+            const refreshed = {
+                ...merged,
+                currentPrice: 115000,
+                lastSeenAt: '2024-03-05T12:00:00Z',
+                status: ListingStatus.ENDED,
+            };
+
+            const timeline = getSourceTimeline(refreshed);
+
+            expect(timeline).toHaveLength(2);
+            expect(timeline[1]).toMatchObject({
+                url: 'https://www.mobile.de/relisted-car',
+                price: 115000,
+                firstSeenAt: NOW,
+                lastSeenAt: '2024-03-05T12:00:00Z',
+                status: ListingStatus.ENDED,
+            });
+        });
+    });
+
+    describe('mergeVinRelisting', () => {
+        it('keeps the previous source when the car appears under a new URL', () => {
+            const merged = mergeVinRelisting(endedListing(), relisting(), NOW);
+
+            expect(merged.source.url).toBe('https://www.mobile.de/relisted-car');
+            expect(merged.sourceHistory).toHaveLength(2);
+            expect(merged.sourceHistory![0]).toMatchObject({
+                url: 'https://www.otomoto.pl/test-listing',
+                sellerName: 'BMW Premium Selection',
+                price: 125000,
+                status: ListingStatus.ENDED,
+            });
+            expect(merged.sourceHistory![1]).toMatchObject({
+                url: 'https://www.mobile.de/relisted-car',
+                sellerName: 'Jan Kowalski',
+                price: 119000,
+                firstSeenAt: NOW,
+            });
+        });
+
+        it('keeps the original first-seen date and combines price histories', () => {
+            const merged = mergeVinRelisting(endedListing(), relisting(), NOW);
+
+            expect(merged.firstSeenAt).toBe('2024-01-15T10:00:00Z');
+            expect(merged.priceHistory.map(p => p.price)).toEqual([129000, 125000, 119000]);
+        });
+
+        it('flags the car as relisted when the previous listing had ended', () => {
+            const merged = mergeVinRelisting(endedListing(), relisting(), NOW);
+
+            expect(merged.relistedAt).toBe(NOW);
+            expect(wasRelisted(merged)).toBe(true);
+        });
+
+        it('does not flag a cross-post of a still active listing', () => {
+            const active = createMockListing({id: 'vin_WBAXXXXXXXX123456'});
+
+            const merged = mergeVinRelisting(active, relisting(), NOW);
+
+            expect(merged.sourceHistory).toHaveLength(2);
+            expect(merged.relistedAt).toBeNull();
+            expect(wasRelisted(merged)).toBe(false);
+        });
+
+        it('appends further sources to the existing timeline', () => {
+            const first = mergeVinRelisting(endedListing(), relisting(), NOW);
+            const later = '2024-04-01T12:00:00.000Z';
+            const third = relisting({
+                source: {
+                    platform: 'www.autoscout24.de',
+                    url: 'https://www.autoscout24.de/offers/car',
+                    listingId: null,
+                    countryCode: 'DE',
+                },
+            });
+
+            const merged = mergeVinRelisting({...first, status: ListingStatus.ENDED}, third, later);
+
+            expect(merged.sourceHistory!.map(s => s.platform)).toEqual([
+                'otomoto.pl',
+                'www.mobile.de',
+                'www.autoscout24.de',
+            ]);
+            expect(merged.sourceHistory![1].status).toBe(ListingStatus.ENDED);
+            expect(merged.relistedAt).toBe(later);
+        });
+
+        it('replaces the listing but keeps its history when the URL is unchanged', () => {
+            const merged = mergeVinRelisting(endedListing(), relisting(), NOW);
+            const update = {
+                ...relisting({currentPrice: 117000, firstSeenAt: '2024-03-02T00:00:00Z'}),
+                source: {...relisting().source, url: 'https://www.mobile.de/relisted-car?ref=search'},
+                sourceHistory: undefined,
+                relistedAt: undefined,
+            };
+
+            const result = mergeVinRelisting(merged, update, '2024-03-02T00:00:00Z');
+
+            expect(result.currentPrice).toBe(117000);
+            expect(result.firstSeenAt).toBe('2024-01-15T10:00:00Z');
+            expect(result.sourceHistory).toBe(merged.sourceHistory);
+            expect(result.relistedAt).toBe(NOW);
+        });
+    });
+
+    describe('wasRelisted', () => {
+        it('is false for relisted cars whose new listing ended too', () => {
+            expect(wasRelisted(createMockListing({relistedAt: NOW, status: ListingStatus.ENDED}))).toBe(false);
+        });
+
+        it('is false for listings without a relisting', () => {
+            expect(wasRelisted(createMockListing())).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,7 @@
+/**
+ * VIN History Service - Barrel Export
+ *
+ * Source timeline of VIN-keyed listings across relistings and marketplaces.
+ */
+
+export {getSourceTimeline, isSameSource, mergeVinRelisting, toSighting, wasRelisted} from './vinHistory';
@@ -0,0 +1,91 @@
+/**
+ * VIN History
+ *
+ * Listings with a readable VIN are keyed by it (vin_XXX), so the same car
+ * seen again under a new URL - relisted after ending, or cross-posted on
+ * another marketplace - maps to the same listing. Instead of overwriting
+ * the source, every URL the car appeared under is kept as a sighting.
+ */
+
+import {CarListing, ListingSighting, ListingStatus} from '@/types';
+import {mergePriceHistories} from '@/services/import/listingImport';
+import {normalizeUrl} from '@/utils/formatters';
+
+/**
+ * Snapshot of the listing's current source
+ */
+export const toSighting = (listing: CarListing): ListingSighting => ({
+    url: listing.source.url,
+    platform: listing.source.platform,
+    listingId: listing.source.listingId,
+    sellerName: listing.seller.name,
+    sellerType: listing.seller.type,
+    price: listing.currentPrice,
+    currency: listing.currency,
+    firstSeenAt: listing.firstSeenAt,
+    lastSeenAt: listing.lastSeenAt,
+    status: listing.status,
+});
+
+/**
+ * Check whether a sighting refers to the given URL
+ */
+export const isSameSource = (sighting: ListingSighting, url: string): boolean =>
+    normalizeUrl(sighting.url) === normalizeUrl(url);
+
+/**
+ * All sources of a listing, oldest first.
+ * The last entry reflects the current source with its live price and status;
+ * listings that never changed source get a single entry.
+ */
+export const getSourceTimeline = (listing: CarListing): ListingSighting[] => {
+    const history = listing.sourceHistory ?? [];
+    const current = toSighting(listing);
+    const last = history[history.length - 1];
+
+    if (!last || !isSameSource(last, listing.source.url)) {
+        return [...history, current];
+    }
+    return [...history.slice(0, -1), {...current, firstSeenAt: last.firstSeenAt}];
+};
+
+/**
+ * Merge a freshly parsed listing into the stored listing with the same ID.
+ *
+ * When the URL is unchanged the incoming listing replaces the stored one
+ * (keeping its history). When the car shows up under a new URL the previous
+ * source is closed in the timeline, price histories are combined and, if the
+ * previous listing had ended, the car is flagged as relisted.
+ */
+export const mergeVinRelisting = (
+    existing: CarListing,
+    incoming: CarListing,
+    now: string = new Date().toISOString(),
+): CarListing => {
+    if (normalizeUrl(existing.source.url) === normalizeUrl(incoming.source.url)) {
+        return {
+            ...incoming,
+            firstSeenAt: existing.firstSeenAt,
+            sourceHistory: existing.sourceHistory,
+            relistedAt: existing.relistedAt ?? null,
+        };
+    }
+
+    return {
+        ...incoming,
+        id: existing.id,
+        firstSeenAt: existing.firstSeenAt,
+        priceHistory: mergePriceHistories(existing.priceHistory, incoming.priceHistory),
+        sourceHistory: [
+            ...getSourceTimeline(existing),
+            {...toSighting(incoming), firstSeenAt: now, lastSeenAt: now},
+        ],
+        relistedAt: existing.status === ListingStatus.ENDED ? now : (existing.relistedAt ?? null),
+    };
+};
+
+/**
+ * Whether the car is active again after an earlier listing of it ended
+ */
+export const wasRelisted = (listing: CarListing): boolean =>
+    !!listing.relistedAt && listing.status === ListingStatus.ACTIVE;
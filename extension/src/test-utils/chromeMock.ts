@@ -55,6 +55,7 @@ const messageListeners: ((
 const installedListeners: ((details: InstalledDetails) => void)[] = [];
 const startupListeners: (() => void)[] = [];
 const alarmListeners: ((alarm: Alarm) => void)[] = [];
+const notificationClickListeners: ((notificationId: string) => void)[] = [];
 
 // Mock storage state
 let sessionStorage: MockStorageData = {};
@@ -283,6 +284,12 @@ function createChromeMock() {
             executeScript: jest.fn(async () => []),
         },
 
+        permissions: {
+            request: jest.fn(async () => true),
+            remove: jest.fn(async () => true),
+            contains: jest.fn(async () => true),
+        },
+
         notifications: {
             create: jest.fn(
                 (
@@ -296,6 +303,15 @@ function createChromeMock() {
             clear: jest.fn((notificationId: string, callback?: (wasCleared: boolean) => void) => {
                 if (callback) callback(true);
             }),
+            onClicked: {
+                addListener: jest.fn((callback: any) => {
+                    notificationClickListeners.push(callback);
+                }),
+                removeListener: jest.fn((callback: any) => {
+                    const index = notificationClickListeners.indexOf(callback);
+                    if (index !== -1) notificationClickListeners.splice(index, 1);
+                }),
+            },
         },
 
         identity: {
@@ -336,6 +352,7 @@ export function resetChromeMock(): void {
     installedListeners.length = 0;
     startupListeners.length = 0;
     alarmListeners.length = 0;
+    notificationClickListeners.length = 0;
 
     // Clear storage
     sessionStorage = {};
@@ -426,3 +443,9 @@ export function triggerOnAlarm(alarm: Partial<Alarm>): void {
     alarmListeners.forEach((listener) => listener(fullAlarm));
 }
 
+/**
+ * Trigger chrome.notifications.onClicked event
+ */
+export function triggerOnNotificationClicked(notificationId: string): void {
+    notificationClickListeners.forEach((listener) => listener(notificationId));
+}
@@ -0,0 +1,251 @@
+/**
+ * Golden-File Harness
+ *
+ * Replays saved listing pages through parseCarDataWithGemini with a
+ * recorded model response and compares the mapped listing field by field
+ * with the expected values. Besides the values, each run checks that the
+ * prompt still carries the marketplace rules the case relies on and that
+ * the recorded response still fits the current response schema, so prompt
+ * and schema changes fail here instead of in production.
+ */
+
+import {parseCarDataWithGemini} from '@/services/gemini/parse';
+import {createFixtureProvider} from '@/services/llm';
+
+/** Recording every case must have; the one the corpus asserts on */
+export const BASELINE_RECORDING = 'gemini/gemini-2.5-flash';
+
+/**
+ * A saved listing page with its recorded model responses and expected listing
+ */
+export interface GoldenCase {
+    /** Unique case name (the fixture file name) */
+    name: string;
+    /** Marketplace ID (see config/marketplaces.ts); `facebook-group` for group posts */
+    marketplace: string;
+    url: string;
+    pageTitle: string;
+    pageText: string;
+    /** Page HTML for the rule-based extractor */
+    pageHtml?: string;
+    scrapedImageUrl?: string | null;
+    /** Text the parse prompt must contain (marketplace-specific rules) */
+    promptIncludes?: string[];
+    /** Model responses keyed by "provider/model" */
+    recordings: Record<string, unknown>;
+    /** Expected listing values keyed by field path (e.g. "vehicle.mileage.value") */
+    expected: Record<string, unknown>;
+}
+
+export interface FieldResult {
+    path: string;
+    expected: unknown;
+    actual: unknown;
+    matched: boolean;
+}
+
+/**
+ * Outcome of replaying one case with one recording
+ */
+export interface GoldenResult {
+    caseName: string;
+    recording: string;
+    fields: FieldResult[];
+    /** Parse error message, null when the listing was parsed */
+    error: string | null;
+    /** promptIncludes entries missing from the prompt */
+    missingPromptText: string[];
+    /** Differences between the recorded response and the requested schema */
+    schemaIssues: string[];
+}
+
+export interface FieldAccuracy {
+    path: string;
+    matched: number;
+    total: number;
+    /** Cases where the field did not match */
+    failedCases: string[];
+}
+
+/**
+ * Field accuracy of one recording across the corpus
+ */
+export interface AccuracyReport {
+    recording: string;
+    cases: number;
+    matched: number;
+    total: number;
+    fields: FieldAccuracy[];
+    /** Cases that failed to parse */
+    errors: string[];
+}
+
+type SchemaNode = Record<string, unknown>;
+
+const SCHEMA_TYPES: Record<string, (value: unknown) => boolean> = {
+    STRING: (value) => typeof value === 'string',
+    NUMBER: (value) => typeof value === 'number',
+    INTEGER: (value) => Number.isInteger(value),
+    BOOLEAN: (value) => typeof value === 'boolean',
+    ARRAY: (value) => Array.isArray(value),
+    OBJECT: (value) => !!value && typeof value === 'object' && !Array.isArray(value),
+};
+
+function readPath(data: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        data,
+    );
+}
+
+function isEqual(expected: unknown, actual: unknown): boolean {
+    return JSON.stringify(expected) === JSON.stringify(actual ?? null);
+}
+
+/**
+ * Differences between a response and a Gemini response schema:
+ * fields the schema does not define, missing required fields and wrong types
+ */
+export function findSchemaIssues(value: unknown, schema: object, path = ''): string[] {
+    const node = schema as SchemaNode;
+    const at = path || '(root)';
+
+    if (value === null || value === undefined) {
+        return node.nullable === true || !path ? [] : [`${at}: null but not nullable`];
+    }
+
+    const type = typeof node.type === 'string' ? node.type.toUpperCase() : null;
+    if (type && SCHEMA_TYPES[type] && !SCHEMA_TYPES[type](value)) {
+        return [`${at}: expected ${type.toLowerCase()}`];
+    }
+
+    if (Array.isArray(value)) {
+        const items = node.items as object | undefined;
+        return items ? value.flatMap((item, i) => findSchemaIssues(item, items, `${path}[${i}]`)) : [];
+    }
+    if (typeof value !== 'object') {
+        return [];
+    }
+
+    const properties = (node.properties ?? {}) as Record<string, object>;
+    const object = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : '';
+    const required = Array.isArray(node.required) ? node.required as string[] : [];
+
+    return [
+        ...required.filter((key) => !(key in object)).map((key) => `${prefix}${key}: required but missing`),
+        ...Object.entries(object).flatMap(([key, child]) => (
+            properties[key]
+                ? findSchemaIssues(child, properties[key], `${prefix}${key}`)
+                : [`${prefix}${key}: not in schema`]
+        )),
+    ];
+}
+
+/**
+ * Replay a case with one of its recordings
+ */
+export async function runGoldenCase(goldenCase: GoldenCase, recording = BASELINE_RECORDING): Promise<GoldenResult> {
+    if (!(recording in goldenCase.recordings)) {
+        throw new Error(`Case ${goldenCase.name} has no recording ${recording}`);
+    }
+
+    const provider = createFixtureProvider(goldenCase.recordings[recording] as object);
+    let listing: unknown = null;
+    let error: string | null = null;
+    try {
+        listing = await parseCarDataWithGemini(
+            goldenCase.url,
+            goldenCase.pageText,
+            goldenCase.pageTitle,
+            goldenCase.scrapedImageUrl,
+            goldenCase.pageHtml,
+            {provider, model: recording.split('/').slice(1).join('/')},
+        );
+    } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+    }
+
+    // No request means the extractor filled every field
+    const request = provider.requests[0];
+    return {
+        caseName: goldenCase.name,
+        recording,
+        fields: Object.entries(goldenCase.expected).map(([path, expected]) => {
+            const actual = readPath(listing, path) ?? null;
+            return {path, expected, actual, matched: isEqual(expected, actual)};
+        }),
+        error,
+        missingPromptText: request
+            ? (goldenCase.promptIncludes ?? []).filter((text) => !request.prompt.includes(text))
+            : [],
+        schemaIssues: request ? findSchemaIssues(goldenCase.recordings[recording], request.schema) : [],
+    };
+}
+
+/**
+ * Replay every recording of every case
+ */
+export async function runGoldenCorpus(cases: GoldenCase[]): Promise<GoldenResult[]> {
+    const results: GoldenResult[] = [];
+    for (const goldenCase of cases) {
+        for (const recording of Object.keys(goldenCase.recordings)) {
+            results.push(await runGoldenCase(goldenCase, recording));
+        }
+    }
+    return results;
+}
+
+/**
+ * Field-by-field accuracy per recording
+ */
+export function buildAccuracyReport(results: GoldenResult[]): AccuracyReport[] {
+    const recordings = [...new Set(results.map((result) => result.recording))];
+
+    return recordings.map((recording) => {
+        const recordingResults = results.filter((result) => result.recording === recording);
+        const fields = new Map<string, FieldAccuracy>();
+
+        for (const result of recordingResults) {
+            for (const field of result.fields) {
+                const accuracy = fields.get(field.path) ?? {path: field.path, matched: 0, total: 0, failedCases: []};
+                accuracy.total++;
+                if (field.matched) {
+                    accuracy.matched++;
+                } else {
+                    accuracy.failedCases.push(result.caseName);
+                }
+                fields.set(field.path, accuracy);
+            }
+        }
+
+        const fieldList = [...fields.values()].sort((a, b) => a.path.localeCompare(b.path));
+        return {
+            recording,
+            cases: recordingResults.length,
+            matched: fieldList.reduce((sum, field) => sum + field.matched, 0),
+            total: fieldList.reduce((sum, field) => sum + field.total, 0),
+            fields: fieldList,
+            errors: recordingResults.filter((result) => result.error).map((result) => `${result.caseName}: ${result.error}`),
+        };
+    });
+}
+
+const percent = (matched: number, total: number): string =>
+    `${total > 0 ? Math.round((matched / total) * 1000) / 10 : 100}%`;
+
+/**
+ * Plain-text accuracy report, one section per recording
+ */
+export function formatAccuracyReport(reports: AccuracyReport[]): string {
+    const width = Math.max(0, ...reports.flatMap((report) => report.fields.map((field) => field.path.length)));
+
+    return reports.map((report) => [
+        `${report.recording}: ${percent(report.matched, report.total)} `
+        + `(${report.matched}/${report.total} fields, ${report.cases} cases)`,
+        ...report.fields.map((field) => `  ${field.path.padEnd(width)}  `
+            + `${`${field.matched}/${field.total}`.padStart(5)}  ${percent(field.matched, field.total).padStart(6)}`
+            + (field.failedCases.length > 0 ? `  failed: ${field.failedCases.join(', ')}` : '')),
+        ...report.errors.map((error) => `  error: ${error}`),
+    ].join('\n')).join('\n\n');
+}
@@ -0,0 +1,37 @@
+/**
+ * Golden Extraction Corpus
+ *
+ * Saved listing pages with recorded model responses and the listing values
+ * they must produce. To add a case, save the page text (and HTML when the
+ * marketplace has an extractor) in cases/, take the model response from the
+ * Gemini history in settings, and list the expected values by field path.
+ * A new provider or model is compared by adding its response under
+ * `recordings` with a "provider/model" key.
+ */
+
+import type {GoldenCase} from './harness';
+import autoplacDealerOctavia from './cases/autoplac-dealer-octavia.json';
+import facebookGroupEdge from './cases/facebook-group-edge.json';
+import facebookMarketplaceRanger from './cases/facebook-marketplace-ranger.json';
+import mobileDeDealerGolf from './cases/mobile-de-dealer-golf.json';
+import otomotoMarkupPassat from './cases/otomoto-markup-passat.json';
+import otomotoTextDiscountedAudi from './cases/otomoto-text-discounted-audi.json';
+
+export const GOLDEN_CASES: GoldenCase[] = [
+    otomotoMarkupPassat,
+    otomotoTextDiscountedAudi,
+    autoplacDealerOctavia,
+    facebookMarketplaceRanger,
+    facebookGroupEdge,
+    mobileDeDealerGolf,
+];
+
+export {
+    BASELINE_RECORDING,
+    buildAccuracyReport,
+    findSchemaIssues,
+    formatAccuracyReport,
+    runGoldenCase,
+    runGoldenCorpus,
+} from './harness';
+export type {AccuracyReport, FieldAccuracy, FieldResult, GoldenCase, GoldenResult} from './harness';
@@ -102,7 +102,8 @@ export function createMockListing(overrides: Partial<CarListing> = {}): CarListi
  */
 export function createMockSettings(overrides: Partial<ExtensionSettings> = {}): ExtensionSettings {
     return {
-        geminiApiKey: 'test-gemini-api-key',
+        geminiApiKey: '',
+        geminiApiKeyConfigured: true,
         checkFrequencyMinutes: 60,
         endedListingGracePeriodDays: 3,
         dashboardPreferences: {
@@ -128,6 +129,7 @@ export function createMockRefreshStatus(overrides: Partial<RefreshStatus> = {}):
         lastRefreshTime: null,
         nextRefreshTime: null,
         lastRefreshCount: 0,
+        lastSavedCallCount: 0,
         isRefreshing: false,
         currentIndex: 0,
         totalCount: 0,
@@ -174,3 +176,72 @@ export function createLoggedInAuthState(email = 'test@example.com'): MockAuthSta
     };
 }
 
+
+/**
+ * Parts of an OTOMOTO offer page used by the rule-based extractor
+ */
+export interface MockOtomotoPage {
+    /** JSON-LD objects (omitted when empty) */
+    jsonLd?: Record<string, unknown>[];
+    /** __NEXT_DATA__ advert (omitted when null) */
+    advert?: Record<string, unknown> | null;
+    /** Revealed VIN markup (omitted when null) */
+    vin?: string | null;
+}
+
+/**
+ * Create an OTOMOTO offer page with JSON-LD, __NEXT_DATA__ and a revealed VIN
+ */
+export function createMockOtomotoPageHtml(overrides: MockOtomotoPage = {}): string {
+    const {
+        jsonLd = [{
+            '@context': 'https://schema.org',
+            '@type': ['Product', 'Car'],
+            name: 'BMW Seria 5 520d xDrive',
+            brand: {'@type': 'Brand', name: 'BMW'},
+            offers: {
+                '@type': 'Offer',
+                price: 129900,
+                priceCurrency: 'PLN',
+                availability: 'https://schema.org/InStock',
+            },
+        }],
+        advert = {
+            title: 'BMW Seria 5 520d xDrive M Sport',
+            createdAt: '2025-12-03T15:52:00+01:00',
+            price: {value: '129 900', currency: 'PLN'},
+            parametersDict: {
+                make: {values: [{value: 'bmw', label: 'BMW'}]},
+                model: {values: [{value: 'seria-5', label: 'Seria 5'}]},
+                year: {values: [{value: '2019', label: '2019'}]},
+                mileage: {values: [{value: '125000', label: '125 000 km'}]},
+                engine_capacity: {values: [{value: '1995', label: '1 995 cm3'}]},
+                engine_power: {values: [{value: '190', label: '190 KM'}]},
+                fuel_type: {values: [{value: 'diesel', label: 'Diesel'}]},
+                transmission: {values: [{value: 'all-wheel-auto', label: '4x4 (dołączany automatycznie)'}]},
+                new_used: {values: [{value: 'used', label: 'Używane'}]},
+                no_accident: {values: [{value: '1', label: 'Tak'}]},
+            },
+            seller: {
+                name: 'Jan',
+                type: 'PRIVATE',
+                location: {city: {name: 'Warszawa'}, region: {name: 'Mazowieckie'}},
+            },
+        },
+        vin = 'WBAJA91010CE12345',
+    } = overrides;
+
+    const scripts = jsonLd.map((object) =>
+        `<script type="application/ld+json">${JSON.stringify(object)}</script>`);
+    if (advert) {
+        scripts.push(`<script id="__NEXT_DATA__" type="application/json">${
+            JSON.stringify({props: {pageProps: {advert}}})
+        }</script>`);
+    }
+    const vinMarkup = vin
+        ? `<div data-testid="advert-vin"><p class="ooa-1">VIN</p><p class="ooa-2">${vin}</p></div>`
+        : '';
+
+    return `<html><head><title>OTOMOTO</title>${scripts.join('')}</head>`
+        + `<body><h1>BMW Seria 5</h1>${vinMarkup}</body></html>`;
+}
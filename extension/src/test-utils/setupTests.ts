@@ -6,6 +6,7 @@
  */
 
 import React from 'react';
+import {TextDecoder, TextEncoder} from 'util';
 import '@testing-library/jest-dom';
 import {resetChromeMock, setupChromeMock} from './chromeMock';
 
@@ -18,6 +19,21 @@ beforeEach(() => {
     jest.clearAllMocks();
 });
 
+// jsdom does not provide TextEncoder/TextDecoder
+Object.assign(global, {TextEncoder, TextDecoder});
+
+// jsdom does not implement Blob.text()
+if (!Blob.prototype.text) {
+    Blob.prototype.text = function (this: Blob) {
+        return new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsText(this);
+        });
+    };
+}
+
 // Mock window.matchMedia
 Object.defineProperty(window, 'matchMedia', {
     writable: true,
@@ -1,7 +1,11 @@
+/** Where a refresh (and the price point it recorded) was performed */
+export type RefreshSource = 'extension' | 'server';
+
 export interface PricePoint {
     date: string; // ISO String
     price: number;
     currency: string;
+    source?: RefreshSource; // Who recorded the point (missing for legacy points = extension)
 }
 
 export interface Mileage {
@@ -76,11 +80,47 @@ export interface Vehicle {
     colorAndInterior: ColorAndInterior;
 }
 
+// Value of a user-editable listing field
+export type EditableFieldValue = string | number | boolean | null;
+
+// User correction of a listing field - the field is locked against refreshes and re-parses
+export interface FieldOverride {
+    value: EditableFieldValue; // Value entered by the user
+    originalValue: EditableFieldValue; // Value before the first correction (as extracted)
+    editedAt: string; // When the value was last edited (ISO string)
+}
+
+// Key vehicle fields the extraction reports evidence for
+export type EvidenceField = 'vin' | 'productionYear' | 'mileage' | 'engineCapacity' | 'enginePower' | 'fuelType';
+
+// Where an extracted vehicle value came from
+export interface FieldEvidence {
+    snippet: string | null; // Page text the value was read from (null when read from page markup)
+    confidence: number; // 0-1 (1 for values read from page markup)
+    source: 'ai' | 'page'; // Reported by the LLM or read by the marketplace extractor
+}
+
+export type VehicleEvidence = Partial<Record<EvidenceField, FieldEvidence>>;
+
 export enum ListingStatus {
     ACTIVE = 'ACTIVE',
     ENDED = 'ENDED',
 }
 
+// Marketplace listing a VIN-keyed car has appeared under (relistings and cross-posts)
+export interface ListingSighting {
+    url: string;
+    platform: string;
+    listingId: string | null;
+    sellerName: string | null;
+    sellerType: string | null;
+    price: number; // Last asking price seen under this source
+    currency: string;
+    firstSeenAt: string; // ISO string
+    lastSeenAt: string; // ISO string
+    status: ListingStatus; // Status when last seen under this source
+}
+
 export interface CarListing {
     id: string; // Unique ID - VIN-based (vin_XXX) or URL-based (url_XXX)
     schemaVersion: string; // Schema version for data compatibility
@@ -106,6 +146,7 @@ export interface CarListing {
 
     // Vehicle data - normalized structure
     vehicle: Vehicle;
+    vehicleEvidence?: VehicleEvidence; // Evidence for key vehicle fields (missing on listings parsed before it was recorded)
 
     // Location & Seller
     location: Location;
@@ -124,10 +165,42 @@ export interface CarListing {
     // Refresh status tracking
     lastRefreshStatus?: 'success' | 'error' | 'pending';
     lastRefreshError?: string;
+    lastRefreshSource?: RefreshSource; // Whether the last refresh ran in the extension or on the server
+    contentFingerprint?: string; // Normalized page content hash from the last analyzed refresh (unchanged pages skip the LLM)
+
+    // VIN history - every source the car has appeared under, oldest first (missing until it changes source)
+    sourceHistory?: ListingSighting[];
+    relistedAt?: string | null; // When the car reappeared under a new source after its previous listing ended
+
+    // User corrections keyed by field path (e.g. "vehicle.engine.capacityCc"); these fields are locked
+    fieldOverrides?: Record<string, FieldOverride>;
+    fieldOverrideRemovals?: Record<string, string>; // When a correction was reverted, keyed by field path (ISO string)
+
+    // Sync metadata - assigned by the API on every write
+    revision?: number; // Incremented on each write; sent as If-Match so stale writes are rejected
+    updatedAt?: string; // When the listing was last written on the server (ISO string)
+}
+
+
+// Price history of a tracked listing, as sent to content scripts (never the full listing)
+export interface ListingPriceSummary {
+    id: string;
+    title: string;
+    currentPrice: number;
+    currency: string;
+    priceHistory: PricePoint[];
+    firstSeenAt: string; // ISO string
+    status: ListingStatus;
 }
 
 
-export type AppView = 'dashboard' | 'popup' | 'settings';
+export type AppView = 'dashboard' | 'popup' | 'settings' | 'compare';
+
+// LLM provider that handles structured extraction ('fixture' only exists in tests)
+export type LlmProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+// Providers the user can pick in settings
+export type ConfigurableLlmProviderId = Exclude<LlmProviderId, 'fixture'>;
 
 export interface GeminiCallHistoryEntry {
     id: string;
@@ -137,6 +210,11 @@ export interface GeminiCallHistoryEntry {
     error?: string; // Error message/response if failed
     status: 'success' | 'error';
     timestamp: string;
+    provider?: LlmProviderId; // Provider that handled the call (missing on entries recorded before providers existed)
+    model?: string; // Model requested from the provider
+    promptTokens?: number; // Prompt tokens reported by the provider
+    responseTokens?: number; // Response tokens reported by the provider, including thinking tokens
+    costUsd?: number; // Estimated cost (missing for models without a known price)
 }
 
 export interface GeminiStats {
@@ -144,6 +222,16 @@ export interface GeminiStats {
     totalCalls: number; // Resets with clear
     successCount: number; // Resets with clear
     errorCount: number; // Resets with clear
+    savedCalls?: number; // Refreshes that skipped the LLM because the page was unchanged (resets with clear)
+    dailyUsage?: Record<string, GeminiDailyUsage>; // Keyed by UTC day (YYYY-MM-DD), kept for a year (never resets)
+}
+
+// LLM calls, tokens and estimated cost of one day
+export interface GeminiDailyUsage {
+    calls: number;
+    promptTokens: number;
+    responseTokens: number;
+    costUsd: number;
 }
 
 export interface DashboardPreferences {
@@ -158,17 +246,81 @@ export interface DashboardPreferences {
     viewMode: string;
 }
 
+// Price/status alert rule evaluated after each background refresh (null thresholds are not checked)
+export interface AlertRule {
+    priceDropPercent: number | null; // Notify when the price drops by at least this percentage
+    priceDropAmount: number | null; // Notify when the price drops by at least this amount (listing currency)
+    targetPrice: number | null; // Notify when the price falls to or below this value (per-listing rules only)
+    notifyOnEnded: boolean; // Notify when the listing ends (sold/expired)
+    notifyOnRelisted: boolean; // Notify when an ended listing becomes active again
+}
+
+export interface AlertRules {
+    global: AlertRule;
+    listings: Record<string, AlertRule>; // Listing ID -> rule used instead of the global one
+}
+
+// Marketplace added by the user in settings, treated like the built-in ones
+export interface CustomMarketplace {
+    id: string; // 'custom-' + first domain
+    name: string;
+    domains: string[];
+    offerPagePatterns: string[]; // URL parts of offer pages (case-insensitive)
+    excludePatterns: string[]; // URL parts of search/category pages
+    neverFetch: boolean; // Refresh in a background tab instead of fetching the page
+}
+
 export interface ExtensionSettings {
-    geminiApiKey: string;
+    geminiApiKey: string; // Only known in local mode - the backend never returns it; '' keeps the stored key on save
+    geminiApiKeyConfigured: boolean; // Whether a key is stored (on the backend or locally)
     checkFrequencyMinutes: number;
     endedListingGracePeriodDays: number; // Days to keep refreshing ENDED listings (1-30, default 3)
+    llmProvider?: ConfigurableLlmProviderId; // Provider used for extraction (default 'gemini')
+    llmModel?: string; // Model name; '' uses the provider default
+    llmBaseUrl?: string; // OpenAI-compatible server URL; '' uses the local Ollama default
+    monthlyBudgetUsd?: number | null; // Monthly LLM spend at which background refresh pauses (null for no budget)
+    serverRefreshEnabled?: boolean; // Let the backend refresh listings while the browser is closed
+    lastServerRefreshTime?: string | null; // Read-only, written by the backend refresh worker
+    lastServerRefreshCount?: number; // Read-only, written by the backend refresh worker
+    alertRules?: AlertRules;
+    customMarketplaces?: CustomMarketplace[];
     dashboardPreferences?: DashboardPreferences;
 }
 
+// Listing card spotted on a saved search page that the user has not seen before
+export interface SearchMatch {
+    id: string; // Marketplace listing ID (OTOMOTO data-id)
+    url: string;
+    title: string;
+    price?: string; // Price text as shown on the search card
+    imageUrl?: string;
+    discoveredAt: string; // ISO string
+}
+
+// Marketplace search URL watched for new listings on the refresh alarm
+export interface SavedSearch {
+    id: string;
+    name: string;
+    url: string;
+    seenListingIds: string[]; // Listing IDs already seen on the search page
+    newMatches: SearchMatch[]; // Inbox of unseen listings awaiting track/dismiss
+    createdAt: string; // ISO string
+    lastCheckedAt: string | null; // ISO string, null until the first check
+}
+
+// Result of one check, merged by the backend into the stored search
+export interface SavedSearchCheck {
+    seenListingIds: string[]; // Listing IDs first seen by this check
+    newMatches: SearchMatch[]; // Matches this check added to the inbox
+    checkedAt: string; // ISO string
+}
+
 export interface RefreshStatus {
     lastRefreshTime: string | null;  // ISO string
     nextRefreshTime: string | null;  // ISO string
     lastRefreshCount: number;
+    lastSavedCallCount?: number; // Listings in the last run whose page was unchanged (no LLM call)
+    pausedByBudget?: boolean; // The last run stopped because the monthly LLM budget was reached
     isRefreshing: boolean;
     // Progress tracking
     currentIndex: number;
@@ -211,4 +363,6 @@ export interface PageContentResult {
     title: string;
     content: string;
     image: string | null;
+    /** Full page HTML, for rule-based extraction */
+    html?: string;
 }
@@ -8,6 +8,7 @@ import {
     formatEuropeanDateShort,
     formatEuropeanDateTime,
     formatEuropeanDateTimeWithSeconds,
+    formatUsd,
     isFacebookGroupPost,
     isFacebookMarketplaceUrl,
     isValidVin,
@@ -65,6 +66,17 @@ describe('Date Formatters', () => {
     });
 });
 
+describe('formatUsd', () => {
+    it('should format with two decimals', () => {
+        expect(formatUsd(4.5)).toBe('$4.50');
+        expect(formatUsd(0)).toBe('$0.00');
+    });
+
+    it('should keep four decimals for amounts under a cent', () => {
+        expect(formatUsd(0.0017)).toBe('$0.0017');
+    });
+});
+
 describe('URL Utilities', () => {
     describe('normalizeUrl', () => {
         it('should remove query parameters', () => {
@@ -150,6 +162,23 @@ describe('URL Utilities', () => {
                 expect(normalizeUrl(dotUrl)).toBe('https://www.facebook.com/groups/audi.a4.club/permalink/987654321');
             });
         });
+
+        describe('mobile.de URL handling', () => {
+            it('should keep only the id param of details URLs', () => {
+                const url = 'https://suchen.mobile.de/fahrzeuge/details.html?id=412345678&lang=de&searchId=abc#top';
+                expect(normalizeUrl(url)).toBe('https://suchen.mobile.de/fahrzeuge/details.html?id=412345678');
+            });
+
+            it('should keep different listings apart', () => {
+                expect(normalizeUrl('https://suchen.mobile.de/fahrzeuge/details.html?id=1'))
+                    .not.toBe(normalizeUrl('https://suchen.mobile.de/fahrzeuge/details.html?id=2'));
+            });
+
+            it('should strip query params of SEO listing URLs', () => {
+                const url = 'https://suchen.mobile.de/auto-inserat/bmw-320d-touring/412345678.html?ref=srp';
+                expect(normalizeUrl(url)).toBe('https://suchen.mobile.de/auto-inserat/bmw-320d-touring/412345678.html');
+            });
+        });
     });
 });
 
@@ -39,11 +39,20 @@ export const formatEuropeanDateShort = (date: string | number): string => {
     return `${day}/${month}`;
 };
 
+/**
+ * Format an estimated cost in USD - small amounts keep four decimals
+ */
+export const formatUsd = (amount: number): string => {
+    const decimals = amount > 0 && amount < 0.01 ? 4 : 2;
+    return `$${amount.toFixed(decimals)}`;
+};
+
 /**
  * Normalize URL by removing query parameters.
  * Handles marketplace-specific URL cleaning:
  * - Facebook Marketplace: extracts clean marketplace/item or commerce/listing URL
  * - Facebook Groups: extracts clean group/permalink URL
+ * - mobile.de: keeps the id param of details.html URLs
  * - Others: strips query params and hash
  */
 export const normalizeUrl = (url: string): string => {
@@ -65,6 +74,14 @@ export const normalizeUrl = (url: string): string => {
             }
         }
 
+        // mobile.de offers are identified by the id query param (details.html?id=...)
+        if (urlObj.hostname.endsWith('mobile.de') && urlObj.pathname.endsWith('/details.html')) {
+            const id = urlObj.searchParams.get('id');
+            if (id) {
+                return `${urlObj.origin}${urlObj.pathname}?id=${id}`;
+            }
+        }
+
         return `${urlObj.origin}${urlObj.pathname}`;
     } catch {
         return url;
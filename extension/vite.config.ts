@@ -56,12 +56,16 @@ const copyExtensionFiles = (env: Environment) => {
 
             const contentScripts = [
                 {
-                    input: resolve(__dirname, 'src/content-scripts/otomoto-main.ts'),
-                    output: resolve(__dirname, 'dist/content-scripts/otomoto.js'),
+                    input: resolve(__dirname, 'src/content-scripts/marketplace-main.ts'),
+                    output: resolve(__dirname, 'dist/content-scripts/marketplace.js'),
                 },
                 {
-                    input: resolve(__dirname, 'src/content-scripts/otomoto-listing.ts'),
-                    output: resolve(__dirname, 'dist/content-scripts/otomoto-listing.js'),
+                    input: resolve(__dirname, 'src/content-scripts/marketplace-listing.ts'),
+                    output: resolve(__dirname, 'dist/content-scripts/marketplace-listing.js'),
+                },
+                {
+                    input: resolve(__dirname, 'src/content-scripts/marketplace-price-overlay.tsx'),
+                    output: resolve(__dirname, 'dist/content-scripts/marketplace-price-overlay.js'),
                 },
             ];
 
@@ -147,6 +147,7 @@ module "cloud_run" {
   # Secret references
   secrets = {
     JWT_SECRET               = module.secrets.jwt_secret_id
+    SETTINGS_ENCRYPTION_KEY  = module.secrets.settings_encryption_key_secret_id
     OAUTH_CLIENT_ID          = module.secrets.oauth_client_id_secret_id
     ALLOWED_ORIGIN_EXTENSION = module.secrets.allowed_origin_extension_secret_id
   }
@@ -66,3 +66,123 @@ resource "google_firestore_index" "gemini_history_by_user" {
   }
 }
 
+
+# Index for listings delta sync (GET /api/listings?since=)
+resource "google_firestore_index" "listings_by_user_updated" {
+  project    = var.project_id
+  database   = google_firestore_database.main.name
+  collection = "listings"
+
+  fields {
+    field_path = "userId"
+    order      = "ASCENDING"
+  }
+
+  fields {
+    field_path = "updatedAt"
+    order      = "ASCENDING"
+  }
+}
+
+# Index for deleted listings in delta sync
+resource "google_firestore_index" "listing_tombstones_by_user" {
+  project    = var.project_id
+  database   = google_firestore_database.main.name
+  collection = "listing_tombstones"
+
+  fields {
+    field_path = "userId"
+    order      = "ASCENDING"
+  }
+
+  fields {
+    field_path = "deletedAt"
+    order      = "ASCENDING"
+  }
+}
+
+# Indexes for paginated listing queries (GET /api/listings?sort=), one per sort option
+# sort=oldest
+resource "google_firestore_index" "listings_by_user_first_seen_asc" {
+  project    = var.project_id
+  database   = google_firestore_database.main.name
+  collection = "listings"
+
+  fields {
+    field_path = "userId"
+    order      = "ASCENDING"
+  }
+
+  fields {
+    field_path = "firstSeenAt"
+    order      = "ASCENDING"
+  }
+}
+
+# sort=newest
+resource "google_firestore_index" "listings_by_user_first_seen_desc" {
+  project    = var.project_id
+  database   = google_firestore_database.main.name
+  collection = "listings"
+
+  fields {
+    field_path = "userId"
+    order      = "ASCENDING"
+  }
+
+  fields {
+    field_path = "firstSeenAt"
+    order      = "DESCENDING"
+  }
+}
+
+# sort=price-asc
+resource "google_firestore_index" "listings_by_user_price_asc" {
+  project    = var.project_id
+  database   = google_firestore_database.main.name
+  collection = "listings"
+
+  fields {
+    field_path = "userId"
+    order      = "ASCENDING"
+  }
+
+  fields {
+    field_path = "currentPrice"
+    order      = "ASCENDING"
+  }
+}
+
+# sort=price-desc
+resource "google_firestore_index" "listings_by_user_price_desc" {
+  project    = var.project_id
+  database   = google_firestore_database.main.name
+  collection = "listings"
+
+  fields {
+    field_path = "userId"
+    order      = "ASCENDING"
+  }
+
+  fields {
+    field_path = "currentPrice"
+    order      = "DESCENDING"
+  }
+}
+
+# sort=name
+resource "google_firestore_index" "listings_by_user_title_asc" {
+  project    = var.project_id
+  database   = google_firestore_database.main.name
+  collection = "listings"
+
+  fields {
+    field_path = "userId"
+    order      = "ASCENDING"
+  }
+
+  fields {
+    field_path = "title"
+    order      = "ASCENDING"
+  }
+}
@@ -23,6 +23,24 @@ resource "google_secret_manager_secret" "jwt_secret" {
   }
 }
 
+# =============================================================================
+# Settings Encryption Key
+# =============================================================================
+
+resource "google_secret_manager_secret" "settings_encryption_key" {
+  project   = var.project_id
+  secret_id = "settings-encryption-key"
+
+  labels = merge(var.labels, {
+    environment = var.environment
+    purpose     = "encryption"
+  })
+
+  replication {
+    auto {}
+  }
+}
+
 # =============================================================================
 # OAuth Client ID Secret
 # =============================================================================
@@ -88,6 +106,13 @@ resource "google_secret_manager_secret_iam_member" "jwt_secret_accessor" {
   member    = "serviceAccount:${var.secret_accessor_email}"
 }
 
+resource "google_secret_manager_secret_iam_member" "settings_encryption_key_accessor" {
+  project   = var.project_id
+  secret_id = google_secret_manager_secret.settings_encryption_key.secret_id
+  role      = "roles/secretmanager.secretAccessor"
+  member    = "serviceAccount:${var.secret_accessor_email}"
+}
+
 resource "google_secret_manager_secret_iam_member" "oauth_client_id_accessor" {
   project   = var.project_id
   secret_id = google_secret_manager_secret.oauth_client_id.secret_id
@@ -12,6 +12,11 @@ output "jwt_secret_name" {
   value       = google_secret_manager_secret.jwt_secret.name
 }
 
+output "settings_encryption_key_secret_id" {
+  description = "Secret Manager secret ID for the settings encryption key"
+  value       = google_secret_manager_secret.settings_encryption_key.secret_id
+}
+
 output "oauth_client_id_secret_id" {
   description = "Secret Manager secret ID for OAuth client ID"
   value       = google_secret_manager_secret.oauth_client_id.secret_id
@@ -53,6 +53,7 @@ output "secret_references" {
   description = "Secret Manager secret references (values stored securely)"
   value = {
     jwt_secret               = module.secrets.jwt_secret_id
+    settings_encryption_key  = module.secrets.settings_encryption_key_secret_id
     oauth_client_id          = module.secrets.oauth_client_id_secret_id
     allowed_origin_extension = module.secrets.allowed_origin_extension_secret_id
     github_webhook_secret    = module.secrets.github_webhook_secret_id